@@ -235,6 +235,46 @@ public class ChatServiceTests : IDisposable
         Assert.Equal(3, result.Count);
     }
 
+    [Fact]
+    public async Task GetMessagesAsync_ReturnsOnlyMessagesCreatedAfterSince()
+    {
+        // Arrange
+        var threadId = await SeedEventWithChatThreadAndMessages(messageCount: 5);
+        var since = _context.ChatMessages
+            .Where(m => m.ChatThreadId == threadId)
+            .OrderBy(m => m.CreatedAt)
+            .Skip(2)
+            .First()
+            .CreatedAt;
+
+        // Act
+        var result = await _service.GetMessagesAsync(threadId, since: since);
+
+        // Assert
+        Assert.Equal(2, result.Count);
+        Assert.All(result, m => Assert.True(m.CreatedAt > since));
+    }
+
+    [Fact]
+    public async Task GetMessagesAsync_ReturnsEveryMissedMessage_WhenMoreThanOnePageAfterSince()
+    {
+        // Arrange - more than the default page size (50) was missed
+        var threadId = await SeedEventWithChatThreadAndMessages(messageCount: 60);
+        var since = _context.ChatMessages
+            .Where(m => m.ChatThreadId == threadId)
+            .OrderBy(m => m.CreatedAt)
+            .First()
+            .CreatedAt;
+
+        // Act
+        var result = await _service.GetMessagesAsync(threadId, since: since);
+
+        // Assert - nothing is lost between since and the newest page
+        Assert.Equal(59, result.Count);
+        Assert.Equal("Message 2", result.First().Message);
+        Assert.Equal("Message 60", result.Last().Message);
+    }
+
     [Fact]
     public async Task GetMessagesAsync_IncludesExternalMessageMetadata()
     {
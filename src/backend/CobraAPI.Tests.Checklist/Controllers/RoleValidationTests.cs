@@ -242,15 +242,15 @@ public class RoleValidationTests
     }
 
     [Fact]
-    public async Task UpdateItemNotes_Returns403_WhenUserIsReadonly()
+    public async Task AddItemNote_Returns403_WhenUserIsReadonly()
     {
         // Arrange
         var controller = CreateChecklistItemsController(
             TestUserContextFactory.CreateReadonlyUser());
-        var request = new UpdateItemNotesRequest { Notes = "Test notes" };
+        var request = new AddItemNoteRequest { NoteText = "Test notes" };
 
         // Act
-        var result = await controller.UpdateItemNotes(Guid.NewGuid(), Guid.NewGuid(), request);
+        var result = await controller.AddItemNote(Guid.NewGuid(), Guid.NewGuid(), request);
 
         // Assert
         var statusResult = Assert.IsType<ObjectResult>(result.Result);
@@ -258,23 +258,57 @@ public class RoleValidationTests
     }
 
     [Fact]
-    public async Task UpdateItemNotes_ReturnsOk_WhenUserIsContributor()
+    public async Task AddItemNote_ReturnsCreated_WhenUserIsContributor()
     {
         // Arrange
         var controller = CreateChecklistItemsController(
             TestUserContextFactory.CreateTestUser(role: PermissionRole.Contributor));
-        var request = new UpdateItemNotesRequest { Notes = "Test notes" };
-        var expectedDto = new ChecklistItemDto { Id = Guid.NewGuid(), Notes = "Test notes" };
+        var request = new AddItemNoteRequest { NoteText = "Test notes" };
+        var expectedDto = new ItemNoteDto { Id = Guid.NewGuid(), NoteText = "Test notes" };
         _mockItemService
-            .Setup(s => s.UpdateItemNotesAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<UpdateItemNotesRequest>(), It.IsAny<UserContext>()))
+            .Setup(s => s.AddNoteAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<AddItemNoteRequest>(), It.IsAny<UserContext>()))
             .ReturnsAsync(expectedDto);
 
         // Act
-        var result = await controller.UpdateItemNotes(Guid.NewGuid(), Guid.NewGuid(), request);
+        var result = await controller.AddItemNote(Guid.NewGuid(), Guid.NewGuid(), request);
 
         // Assert
-        var okResult = Assert.IsType<OkObjectResult>(result.Result);
-        Assert.NotNull(okResult.Value);
+        var createdResult = Assert.IsType<CreatedAtActionResult>(result.Result);
+        Assert.NotNull(createdResult.Value);
+    }
+
+    [Fact]
+    public async Task UpdateItemNote_Returns403WithMessage_WhenUserIsNotAuthor()
+    {
+        // Arrange
+        var controller = CreateChecklistItemsController(
+            TestUserContextFactory.CreateTestUser(role: PermissionRole.Contributor));
+        var request = new UpdateItemNoteRequest { NoteText = "Edited" };
+        _mockItemService
+            .Setup(s => s.UpdateNoteAsync(It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<Guid>(), It.IsAny<UpdateItemNoteRequest>(), It.IsAny<UserContext>()))
+            .ThrowsAsync(new UnauthorizedAccessException("You can only edit your own notes"));
+
+        // Act
+        var result = await controller.UpdateItemNote(Guid.NewGuid(), Guid.NewGuid(), Guid.NewGuid(), request);
+
+        // Assert
+        var statusResult = Assert.IsType<ObjectResult>(result.Result);
+        Assert.Equal(StatusCodes.Status403Forbidden, statusResult.StatusCode);
+    }
+
+    [Fact]
+    public async Task DeleteItemNote_Returns403_WhenUserIsReadonly()
+    {
+        // Arrange
+        var controller = CreateChecklistItemsController(
+            TestUserContextFactory.CreateReadonlyUser());
+
+        // Act
+        var result = await controller.DeleteItemNote(Guid.NewGuid(), Guid.NewGuid(), Guid.NewGuid());
+
+        // Assert
+        var statusResult = Assert.IsType<ObjectResult>(result);
+        Assert.Equal(StatusCodes.Status403Forbidden, statusResult.StatusCode);
     }
 
     #endregion
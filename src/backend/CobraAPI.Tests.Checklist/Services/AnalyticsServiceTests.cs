@@ -1,3 +1,4 @@
+using System.Text.Json;
 using Microsoft.Extensions.Logging;
 using Moq;
 using Xunit;
@@ -244,6 +245,21 @@ public class AnalyticsServiceTests : IDisposable
         Assert.Empty(result.NeverUsedTemplates);
     }
 
+    [Fact]
+    public async Task GetDashboardAsync_CreditsEverySourceTemplate_OfCombinedChecklists()
+    {
+        // Arrange
+        await SeedCombinedChecklist();
+
+        // Act
+        var result = await _service.GetDashboardAsync();
+
+        // Assert
+        Assert.Equal(2, result.Overview.ActiveTemplates);
+        Assert.Empty(result.NeverUsedTemplates);
+        Assert.All(result.MostUsedTemplates, t => Assert.Equal(1, t.UsageCount));
+    }
+
     #endregion
 
     #region Most Popular Library Items Tests
@@ -850,6 +866,35 @@ public class AnalyticsServiceTests : IDisposable
         await _context.SaveChangesAsync();
     }
 
+    private async Task SeedCombinedChecklist()
+    {
+        var templates = new[] { "First Template", "Second Template" }.Select(name => new Template
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            Category = "Safety",
+            IsActive = true,
+            CreatedBy = _testUser,
+            CreatedAt = DateTime.UtcNow,
+            IsArchived = false
+        }).ToList();
+
+        await _context.Templates.AddRangeAsync(templates);
+        await _context.ChecklistInstances.AddAsync(new ChecklistInstance
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = templates[0].Id,
+            SourceTemplateIds = JsonSerializer.Serialize(templates.Select(t => t.Id)),
+            Name = "Combined Instance",
+            EventId = TestEvent1Id,
+            CreatedBy = _testUser,
+            CreatedAt = DateTime.UtcNow,
+            IsArchived = false
+        });
+
+        await _context.SaveChangesAsync();
+    }
+
     private async Task SeedLibraryItemsWithArchived()
     {
         await _context.ItemLibraryEntries.AddRangeAsync(
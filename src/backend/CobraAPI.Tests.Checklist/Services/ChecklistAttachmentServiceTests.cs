@@ -0,0 +1,350 @@
+using CobraAPI.Admin.Models;
+using CobraAPI.Core.Services;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ChecklistAttachmentService
+/// Tests upload limits, attachment counts, permissions and deletion
+/// </summary>
+public class ChecklistAttachmentServiceTests : IDisposable
+{
+    private readonly CobraDbContext _context;
+    private readonly Mock<IHubContext<ChecklistHub>> _mockHubContext;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly Mock<IAttachmentStorage> _mockStorage;
+    private readonly Mock<ISystemSettingsService> _mockSettings;
+    private readonly ChecklistAttachmentService _service;
+    private readonly UserContext _testUser;
+
+    public ChecklistAttachmentServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        _mockStorage = new Mock<IAttachmentStorage>();
+        _mockSettings = new Mock<ISystemSettingsService>();
+
+        // Setup mock hub context
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.Group(It.IsAny<string>())).Returns(_mockClientProxy.Object);
+        _mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        // 1 MB, images and PDFs
+        _mockSettings
+            .Setup(s => s.GetSettingValueAsync(SystemSettingKeys.ChecklistAttachmentMaxSizeMb))
+            .ReturnsAsync("1");
+        _mockSettings
+            .Setup(s => s.GetSettingValueAsync(SystemSettingKeys.ChecklistAttachmentAllowedTypes))
+            .ReturnsAsync("image/*, application/pdf");
+
+        _service = new ChecklistAttachmentService(
+            _context,
+            new Mock<ILogger<ChecklistAttachmentService>>().Object,
+            _mockHubContext.Object,
+            _mockStorage.Object,
+            _mockSettings.Object);
+        _testUser = TestUserContextFactory.CreateTestUser(); // Position: "Safety Officer"
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region UploadAttachmentAsync Tests
+
+    [Fact]
+    public async Task UploadAttachment_StoresFileAndIncrementsCount()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act
+        var result = await Upload(checklistId, itemId, "damage.JPG", "image/jpeg", 2048);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("damage.JPG", result.FileName);
+        Assert.Equal(_testUser.Email, result.UploadedBy);
+        Assert.Equal(_testUser.Position, result.UploadedByPosition);
+
+        var stored = await _context.ChecklistItemAttachments.AsNoTracking().SingleAsync();
+        Assert.Equal($"{checklistId}/{itemId}/{result.Id}.jpg", stored.StorageKey);
+        _mockStorage.Verify(s => s.SaveAsync(stored.StorageKey, It.IsAny<Stream>(), It.IsAny<CancellationToken>()), Times.Once);
+
+        var item = await _context.ChecklistItems.AsNoTracking().SingleAsync(i => i.Id == itemId);
+        Assert.Equal(1, item.AttachmentCount);
+        Assert.Equal(_testUser.Email, item.LastModifiedBy);
+    }
+
+    [Fact]
+    public async Task UploadAttachment_BroadcastsNewCount()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act
+        await Upload(checklistId, itemId, "form.pdf", "application/pdf", 2048);
+
+        // Assert
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync(
+                "ItemAttachmentsChanged",
+                It.IsAny<object?[]>(),
+                It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task UploadAttachment_ThrowsInvalidOperation_WhenFileTooLarge()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => Upload(checklistId, itemId, "video.jpg", "image/jpeg", 3 * 1024 * 1024));
+        Assert.Contains("at most 1 MB", ex.Message);
+        _mockStorage.Verify(s => s.SaveAsync(It.IsAny<string>(), It.IsAny<Stream>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task UploadAttachment_ThrowsInvalidOperation_WhenTypeNotAllowed()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => Upload(checklistId, itemId, "run.exe", "application/octet-stream", 2048));
+        Assert.Contains("Allowed types: image/*, application/pdf", ex.Message);
+    }
+
+    [Fact]
+    public async Task UploadAttachment_ThrowsUnauthorized_WhenPositionNotAllowed()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(allowedPositions: "Operations Section Chief");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<UnauthorizedAccessException>(
+            () => Upload(checklistId, itemId, "damage.jpg", "image/jpeg", 2048));
+        Assert.Empty(_context.ChecklistItemAttachments);
+    }
+
+    [Fact]
+    public async Task UploadAttachment_ReturnsNull_WhenItemDoesNotExist()
+    {
+        // Act
+        var result = await Upload(Guid.NewGuid(), Guid.NewGuid(), "damage.jpg", "image/jpeg", 2048);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region GetAttachmentsAsync Tests
+
+    [Fact]
+    public async Task GetAttachments_ReturnsItemAttachmentsOldestFirst()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var (_, otherItemId) = await SeedChecklistWithItem();
+        await SeedAttachment(checklistId, itemId, "second.jpg", DateTime.UtcNow);
+        await SeedAttachment(checklistId, itemId, "first.jpg", DateTime.UtcNow.AddMinutes(-5));
+
+        // Act
+        var result = await _service.GetAttachmentsAsync(checklistId, itemId);
+        var otherResult = await _service.GetAttachmentsAsync(checklistId, otherItemId);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(new[] { "first.jpg", "second.jpg" }, result.Select(a => a.FileName));
+        Assert.Null(otherResult); // Item belongs to another checklist
+    }
+
+    #endregion
+
+    #region DeleteAttachmentAsync Tests
+
+    [Fact]
+    public async Task DeleteAttachment_RemovesRowAndFile_WhenUploader()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var attachment = await SeedAttachment(checklistId, itemId, "damage.jpg", DateTime.UtcNow);
+
+        // Act
+        var result = await _service.DeleteAttachmentAsync(checklistId, itemId, attachment.Id, _testUser);
+
+        // Assert
+        Assert.True(result);
+        Assert.Empty(_context.ChecklistItemAttachments);
+        _mockStorage.Verify(s => s.DeleteAsync(attachment.StorageKey, It.IsAny<CancellationToken>()), Times.Once);
+
+        var item = await _context.ChecklistItems.AsNoTracking().SingleAsync(i => i.Id == itemId);
+        Assert.Equal(0, item.AttachmentCount);
+    }
+
+    [Fact]
+    public async Task DeleteAttachment_AllowsManager_ForOtherUsersAttachment()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var attachment = await SeedAttachment(checklistId, itemId, "damage.jpg", DateTime.UtcNow);
+
+        // Act
+        var result = await _service.DeleteAttachmentAsync(
+            checklistId, itemId, attachment.Id, TestUserContextFactory.CreateManagerUser());
+
+        // Assert
+        Assert.True(result);
+    }
+
+    [Fact]
+    public async Task DeleteAttachment_ThrowsUnauthorized_ForOtherContributor()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var attachment = await SeedAttachment(checklistId, itemId, "damage.jpg", DateTime.UtcNow);
+        var otherUser = TestUserContextFactory.CreateTestUser(email: "ops@example.com");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<UnauthorizedAccessException>(
+            () => _service.DeleteAttachmentAsync(checklistId, itemId, attachment.Id, otherUser));
+        Assert.Single(_context.ChecklistItemAttachments);
+        _mockStorage.Verify(s => s.DeleteAsync(It.IsAny<string>(), It.IsAny<CancellationToken>()), Times.Never);
+    }
+
+    [Fact]
+    public async Task DeleteAttachment_ReturnsFalse_WhenAttachmentDoesNotExist()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act
+        var result = await _service.DeleteAttachmentAsync(checklistId, itemId, Guid.NewGuid(), _testUser);
+
+        // Assert
+        Assert.False(result);
+    }
+
+    #endregion
+
+    #region AttachmentHelper Tests
+
+    [Fact]
+    public void BuildLimits_FallsBackToDefaults_ForInvalidSettings()
+    {
+        // Act
+        var limits = AttachmentHelper.BuildLimits("not a number", "  ");
+
+        // Assert
+        Assert.Equal(AttachmentHelper.DefaultMaxSizeMb * 1024L * 1024, limits.MaxSizeBytes);
+        Assert.Equal(new[] { "image/*", "application/pdf" }, limits.AllowedContentTypes);
+    }
+
+    [Fact]
+    public void BuildStorageKey_DropsUnsafeExtensions()
+    {
+        // Arrange
+        var checklistId = Guid.NewGuid();
+        var itemId = Guid.NewGuid();
+        var attachmentId = Guid.NewGuid();
+
+        // Act & Assert
+        Assert.Equal(
+            $"{checklistId}/{itemId}/{attachmentId}.pdf",
+            AttachmentHelper.BuildStorageKey(checklistId, itemId, attachmentId, "Signed Form.PDF"));
+        Assert.Equal(
+            $"{checklistId}/{itemId}/{attachmentId}",
+            AttachmentHelper.BuildStorageKey(checklistId, itemId, attachmentId, "photo.j/../pg"));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static readonly Guid TestEventId = Guid.Parse("aaaaaaaa-aaaa-aaaa-aaaa-aaaaaaaaaaaa");
+
+    private async Task<ItemAttachmentDto?> Upload(
+        Guid checklistId,
+        Guid itemId,
+        string fileName,
+        string contentType,
+        long sizeBytes)
+    {
+        using var content = new MemoryStream(new byte[16]);
+        return await _service.UploadAttachmentAsync(
+            checklistId, itemId, fileName, contentType, sizeBytes, content, _testUser);
+    }
+
+    private async Task<(Guid checklistId, Guid itemId)> SeedChecklistWithItem(string? allowedPositions = null)
+    {
+        var checklistId = Guid.NewGuid();
+        var itemId = Guid.NewGuid();
+
+        _context.ChecklistInstances.Add(new ChecklistInstance
+        {
+            Id = checklistId,
+            Name = "Test Checklist",
+            TemplateId = Guid.NewGuid(),
+            EventId = TestEventId,
+            EventName = "Test Event",
+            CreatedBy = "test@test.com",
+            CreatedByPosition = "Test Position"
+        });
+        _context.ChecklistItems.Add(new ChecklistItem
+        {
+            Id = itemId,
+            ChecklistInstanceId = checklistId,
+            TemplateItemId = Guid.NewGuid(),
+            ItemText = "Document structural damage",
+            ItemType = "checkbox",
+            DisplayOrder = 1,
+            AllowedPositions = allowedPositions
+        });
+        await _context.SaveChangesAsync();
+
+        return (checklistId, itemId);
+    }
+
+    private async Task<ChecklistItemAttachment> SeedAttachment(
+        Guid checklistId,
+        Guid itemId,
+        string fileName,
+        DateTime uploadedAt)
+    {
+        var attachment = new ChecklistItemAttachment
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            ChecklistItemId = itemId,
+            FileName = fileName,
+            ContentType = "image/jpeg",
+            SizeBytes = 2048,
+            StorageKey = $"{checklistId}/{itemId}/{fileName}",
+            UploadedBy = _testUser.Email,
+            UploadedByPosition = _testUser.Position,
+            UploadedAt = uploadedAt
+        };
+
+        _context.ChecklistItemAttachments.Add(attachment);
+        var item = await _context.ChecklistItems.FindAsync(itemId);
+        item!.AttachmentCount += 1;
+        await _context.SaveChangesAsync();
+
+        return attachment;
+    }
+
+    #endregion
+}
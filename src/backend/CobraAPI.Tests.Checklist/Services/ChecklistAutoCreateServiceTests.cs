@@ -0,0 +1,306 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ChecklistAutoCreateService and AutoCreateMatchHelper
+/// Tests matching AutoCreate templates to event categories, the preview,
+/// and generating checklists for an event (opt-outs, positions, skip reasons)
+/// </summary>
+public class ChecklistAutoCreateServiceTests : IDisposable
+{
+    private readonly CobraDbContext _context;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly ChecklistAutoCreateService _service;
+    private readonly UserContext _testUser;
+
+    private readonly EventCategory _hurricane = new()
+    {
+        Id = Guid.NewGuid(),
+        Code = "HURRICANE",
+        Name = "Hurricane / Tropical Storm",
+        EventType = "Unplanned",
+        SubGroup = "Natural Disasters - Weather"
+    };
+
+    private readonly EventCategory _winterStorm = new()
+    {
+        Id = Guid.NewGuid(),
+        Code = "WINTER_STORM",
+        Name = "Winter Storm / Blizzard",
+        EventType = "Unplanned",
+        SubGroup = "Natural Disasters - Weather"
+    };
+
+    private readonly EventCategory _parade = new()
+    {
+        Id = Guid.NewGuid(),
+        Code = "PARADE",
+        Name = "Parade / Procession",
+        EventType = "Planned",
+        SubGroup = "Special Events"
+    };
+
+    public ChecklistAutoCreateServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _testUser = TestUserContextFactory.CreateTestUser();
+
+        var mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.All).Returns(_mockClientProxy.Object);
+        mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        _service = new ChecklistAutoCreateService(
+            _context,
+            new Mock<ILogger<ChecklistAutoCreateService>>().Object,
+            mockHubContext.Object);
+
+        _context.EventCategories.AddRange(_hurricane, _winterStorm, _parade);
+        _context.SaveChanges();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region AutoCreateMatchHelper Tests
+
+    [Theory]
+    [InlineData("Hurricane", true)]
+    [InlineData("hurricane", true)]
+    [InlineData("Tropical Storm", true)]
+    [InlineData("Hurricane / Tropical Storm", true)]
+    [InlineData("Flood", false)]
+    public void GetMatchingCategories_MatchesNameParts(string incidentType, bool matches)
+    {
+        var result = AutoCreateMatchHelper.GetMatchingCategories(new[] { incidentType }, new[] { _hurricane });
+
+        Assert.Equal(matches, result.Count == 1);
+    }
+
+    [Fact]
+    public void GetMatchingCategories_MatchesCodeWithUnderscores()
+    {
+        var result = AutoCreateMatchHelper.GetMatchingCategories(
+            new[] { "Winter Storm" },
+            new[] { _hurricane, _winterStorm });
+
+        Assert.Equal(_winterStorm.Id, Assert.Single(result).Id);
+    }
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("")]
+    [InlineData("not json")]
+    public void ParseStringList_ReturnsEmpty_ForMissingOrInvalidJson(string? json)
+    {
+        Assert.Empty(AutoCreateMatchHelper.ParseStringList(json));
+    }
+
+    #endregion
+
+    #region GetPreviewAsync Tests
+
+    [Fact]
+    public async Task GetPreviewAsync_ReturnsMatchingAutoCreateTemplates()
+    {
+        // Arrange
+        await SeedTemplate("Shelter Opening", "[\"Hurricane\"]", "[\"Mass Care Lead\"]");
+        await SeedTemplate("Plow Routes", "[\"Winter Storm\"]");
+        await SeedTemplate("Manual Hurricane", "[\"Hurricane\"]", templateType: TemplateType.Manual);
+        await SeedTemplate("Draft Hurricane", "[\"Hurricane\"]", approvalStatus: TemplateApprovalStatus.Draft);
+
+        // Act
+        var preview = await _service.GetPreviewAsync(new List<Guid> { _hurricane.Id, _parade.Id });
+
+        // Assert
+        var item = Assert.Single(preview);
+        Assert.Equal("Shelter Opening", item.TemplateName);
+        Assert.Equal(new[] { "Mass Care Lead" }, item.Positions);
+        Assert.Equal(new[] { "Hurricane / Tropical Storm" }, item.MatchedCategories);
+        Assert.Equal(2, item.ItemCount);
+    }
+
+    [Fact]
+    public async Task GetPreviewAsync_MatchesAdditionalCategories()
+    {
+        // Arrange
+        await SeedTemplate("Shelter Opening", "[\"Hurricane\"]");
+        await SeedTemplate("Plow Routes", "[\"Winter Storm\"]");
+
+        // Act
+        var preview = await _service.GetPreviewAsync(new List<Guid> { _parade.Id, _winterStorm.Id, _hurricane.Id });
+
+        // Assert - ordered by name
+        Assert.Equal(new[] { "Plow Routes", "Shelter Opening" }, preview.Select(p => p.TemplateName));
+    }
+
+    #endregion
+
+    #region AutoCreateAsync Tests
+
+    [Fact]
+    public async Task AutoCreateAsync_CreatesChecklistsForRecommendedPositions()
+    {
+        // Arrange
+        var template = await SeedTemplate(
+            "Shelter Opening",
+            "[\"Hurricane\"]",
+            "[\"Mass Care Lead\",\"Logistics Section Chief\"]");
+        var evt = await SeedEvent(_hurricane.Id);
+
+        // Act
+        var result = await _service.AutoCreateAsync(
+            new AutoCreateChecklistsRequest { EventId = evt.Id, TemplateIds = new List<Guid> { template.Id } },
+            _testUser);
+
+        // Assert
+        var checklist = Assert.Single(result.Created);
+        Assert.Empty(result.Skipped);
+        Assert.Equal("Shelter Opening", checklist.Name);
+        Assert.Equal(evt.Id, checklist.EventId);
+        Assert.Equal("Mass Care Lead,Logistics Section Chief", checklist.AssignedPositions);
+        Assert.True(checklist.IsAutoCreated);
+        Assert.Equal(2, checklist.TotalItems);
+
+        var updatedTemplate = await _context.Templates.AsNoTracking().FirstAsync(t => t.Id == template.Id);
+        Assert.Equal(1, updatedTemplate.UsageCount);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistCreated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task AutoCreateAsync_OnlyCreatesSelectedTemplates()
+    {
+        // Arrange
+        var kept = await SeedTemplate("Shelter Opening", "[\"Hurricane\"]");
+        await SeedTemplate("Evacuation Routes", "[\"Hurricane\"]");
+        var evt = await SeedEvent(_hurricane.Id);
+
+        // Act
+        var result = await _service.AutoCreateAsync(
+            new AutoCreateChecklistsRequest { EventId = evt.Id, TemplateIds = new List<Guid> { kept.Id } },
+            _testUser);
+
+        // Assert
+        Assert.Single(result.Created);
+        Assert.Equal(1, await _context.ChecklistInstances.CountAsync());
+    }
+
+    [Fact]
+    public async Task AutoCreateAsync_UsesAdditionalCategories()
+    {
+        // Arrange
+        var template = await SeedTemplate("Plow Routes", "[\"Winter Storm\"]");
+        var evt = await SeedEvent(_parade.Id, $"[\"{_winterStorm.Id}\"]");
+
+        // Act
+        var result = await _service.AutoCreateAsync(
+            new AutoCreateChecklistsRequest { EventId = evt.Id, TemplateIds = new List<Guid> { template.Id } },
+            _testUser);
+
+        // Assert
+        Assert.Single(result.Created);
+    }
+
+    [Fact]
+    public async Task AutoCreateAsync_SkipsNonMatchingAndAlreadyCreatedTemplates()
+    {
+        // Arrange
+        var matching = await SeedTemplate("Shelter Opening", "[\"Hurricane\"]");
+        var other = await SeedTemplate("Plow Routes", "[\"Winter Storm\"]");
+        var evt = await SeedEvent(_hurricane.Id);
+        var request = new AutoCreateChecklistsRequest
+        {
+            EventId = evt.Id,
+            TemplateIds = new List<Guid> { matching.Id, other.Id }
+        };
+
+        // Act
+        var first = await _service.AutoCreateAsync(request, _testUser);
+        var second = await _service.AutoCreateAsync(request, _testUser);
+
+        // Assert
+        Assert.Single(first.Created);
+        Assert.Equal("Plow Routes", Assert.Single(first.Skipped).TemplateName);
+        Assert.Empty(second.Created);
+        Assert.Contains(second.Skipped, s => s.TemplateId == matching.Id && s.Reason.Contains("Already created"));
+        Assert.Equal(1, await _context.ChecklistInstances.CountAsync());
+    }
+
+    [Fact]
+    public async Task AutoCreateAsync_ThrowsForArchivedEvent()
+    {
+        // Arrange
+        var template = await SeedTemplate("Shelter Opening", "[\"Hurricane\"]");
+        var evt = await SeedEvent(_hurricane.Id, isArchived: true);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<KeyNotFoundException>(() => _service.AutoCreateAsync(
+            new AutoCreateChecklistsRequest { EventId = evt.Id, TemplateIds = new List<Guid> { template.Id } },
+            _testUser));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private async Task<Template> SeedTemplate(
+        string name,
+        string autoCreateForCategories,
+        string? recommendedPositions = null,
+        TemplateType templateType = TemplateType.AutoCreate,
+        TemplateApprovalStatus approvalStatus = TemplateApprovalStatus.Approved)
+    {
+        var template = new Template
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            Category = "Operations",
+            TemplateType = templateType,
+            AutoCreateForCategories = autoCreateForCategories,
+            RecommendedPositions = recommendedPositions,
+            ApprovalStatus = approvalStatus,
+            CreatedBy = "test@test.com",
+            CreatedByPosition = "Planning Section Chief"
+        };
+        template.Items.Add(new TemplateItem { Id = Guid.NewGuid(), ItemText = "Confirm site", ItemType = "checkbox", DisplayOrder = 10 });
+        template.Items.Add(new TemplateItem { Id = Guid.NewGuid(), ItemText = "Notify staff", ItemType = "checkbox", DisplayOrder = 20 });
+
+        _context.Templates.Add(template);
+        await _context.SaveChangesAsync();
+        return template;
+    }
+
+    private async Task<Event> SeedEvent(
+        Guid primaryCategoryId,
+        string? additionalCategoryIds = null,
+        bool isArchived = false)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            Name = "Hurricane Test",
+            EventType = "Unplanned",
+            PrimaryCategoryId = primaryCategoryId,
+            AdditionalCategoryIds = additionalCategoryIds,
+            IsArchived = isArchived,
+            CreatedBy = "test@test.com"
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    #endregion
+}
@@ -0,0 +1,294 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ChecklistCarryForwardService
+/// Tests copying checklists into a target operational period, the copy
+/// options, renaming and every skip reason
+/// </summary>
+public class ChecklistCarryForwardServiceTests : IDisposable
+{
+    private readonly CobraDbContext _context;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly ChecklistCarryForwardService _service;
+    private readonly UserContext _testUser;
+
+    private readonly Guid _eventId = Guid.NewGuid();
+    private OperationalPeriod _op1 = null!;
+    private OperationalPeriod _op2 = null!;
+
+    public ChecklistCarryForwardServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _testUser = TestUserContextFactory.CreateTestUser();
+
+        var mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.All).Returns(_mockClientProxy.Object);
+        mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        _service = new ChecklistCarryForwardService(
+            _context,
+            new Mock<ILogger<ChecklistCarryForwardService>>().Object,
+            mockHubContext.Object);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region GetCarriedForwardName Tests
+
+    [Theory]
+    [InlineData("Safety Briefing - OP 1", "OP 1", "Safety Briefing - OP 2")]
+    [InlineData("Safety Briefing - op 1", "OP 1", "Safety Briefing - OP 2")]
+    [InlineData("Safety Briefing", "OP 1", "Safety Briefing")]
+    [InlineData("Safety Briefing - OP 1", null, "Safety Briefing - OP 1")]
+    public void GetCarriedForwardName_SwapsSourcePeriodName(string name, string? sourcePeriod, string expected)
+    {
+        Assert.Equal(expected, ChecklistCarryForwardService.GetCarriedForwardName(name, sourcePeriod, "OP 2"));
+    }
+
+    #endregion
+
+    #region CarryForwardAsync Tests
+
+    [Fact]
+    public async Task CarryForwardAsync_CreatesCopiesInTargetPeriod()
+    {
+        // Arrange
+        await SeedPeriods();
+        var source = await SeedChecklist("Safety Briefing - OP 1", completedItems: 1);
+
+        // Act
+        var result = await _service.CarryForwardAsync(Request(source.Id), _testUser);
+
+        // Assert
+        var created = Assert.Single(result.Created);
+        Assert.Empty(result.Skipped);
+        Assert.Equal("Safety Briefing - OP 2", created.Name);
+        Assert.Equal(_op2.Id, created.OperationalPeriodId);
+        Assert.Equal("OP 2", created.OperationalPeriodName);
+        Assert.Equal(3, created.TotalItems);
+        Assert.Equal(0, created.CompletedItems);
+        Assert.Equal(_testUser.Email, created.CreatedBy);
+        Assert.Equal(2, await _context.ChecklistInstances.CountAsync());
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistCreated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task CarryForwardAsync_OnlyIncompleteItems_CopiesRemainingItemsWithNotes()
+    {
+        // Arrange
+        await SeedPeriods();
+        var source = await SeedChecklist("Logistics Check", completedItems: 1);
+
+        // Act
+        var result = await _service.CarryForwardAsync(
+            Request(source.Id) with { OnlyIncompleteItems = true, CarryNotes = true },
+            _testUser);
+
+        // Assert
+        var created = Assert.Single(result.Created);
+        Assert.Equal(2, created.TotalItems);
+        Assert.DoesNotContain(created.Items, i => i.ItemText == "Item 1");
+        Assert.All(created.Items, i => Assert.Null(i.IsCompleted));
+        Assert.All(created.Items, i => Assert.Equal($"Notes for {i.ItemText}", Assert.Single(i.Notes).NoteText));
+    }
+
+    [Fact]
+    public async Task CarryForwardAsync_KeepsCompletion_WhenNotResetting()
+    {
+        // Arrange
+        await SeedPeriods();
+        var source = await SeedChecklist("Logistics Check", completedItems: 1);
+
+        // Act
+        var result = await _service.CarryForwardAsync(
+            Request(source.Id) with { ResetCompletion = false, OnlyIncompleteItems = true },
+            _testUser);
+
+        // Assert
+        var created = Assert.Single(result.Created);
+        Assert.Equal(2, created.TotalItems);
+        Assert.Equal(0, created.CompletedItems);
+
+        var direct = await _service.CarryForwardAsync(
+            Request((await SeedChecklist("Direct Copy", completedItems: 2)).Id) with { ResetCompletion = false },
+            _testUser);
+        Assert.Equal(2, Assert.Single(direct.Created).CompletedItems);
+    }
+
+    [Fact]
+    public async Task CarryForwardAsync_SkipsWithReasons()
+    {
+        // Arrange
+        await SeedPeriods();
+        var alreadyInTarget = await SeedChecklist("Planning - OP 2", periodId: _op2.Id);
+        var archived = await SeedChecklist("Archived", isArchived: true);
+        var otherEvent = await SeedChecklist("Other Event", eventId: Guid.NewGuid());
+        var complete = await SeedChecklist("Complete", completedItems: 3);
+        var duplicate = await SeedChecklist("Planning - OP 1");
+        var missingId = Guid.NewGuid();
+
+        // Act
+        var result = await _service.CarryForwardAsync(
+            new CarryForwardChecklistsRequest
+            {
+                ChecklistIds = new List<Guid> { alreadyInTarget.Id, archived.Id, otherEvent.Id, complete.Id, duplicate.Id, missingId },
+                TargetOperationalPeriodId = _op2.Id,
+                OnlyIncompleteItems = true
+            },
+            _testUser);
+
+        // Assert
+        Assert.Empty(result.Created);
+        Assert.Equal(
+            new[]
+            {
+                "Already in OP 2",
+                "Checklist not found or archived",
+                "Belongs to a different event",
+                "All items are complete",
+                "\"Planning - OP 2\" already exists in OP 2",
+                "Checklist not found or archived"
+            },
+            result.Skipped.Select(s => s.Reason));
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync(It.IsAny<string>(), It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task CarryForwardAsync_DoesNotDuplicate_WhenRunTwice()
+    {
+        // Arrange
+        await SeedPeriods();
+        var source = await SeedChecklist("Safety Briefing");
+
+        // Act
+        var first = await _service.CarryForwardAsync(Request(source.Id), _testUser);
+        var second = await _service.CarryForwardAsync(Request(source.Id), _testUser);
+
+        // Assert
+        Assert.Single(first.Created);
+        Assert.Empty(second.Created);
+        Assert.Single(second.Skipped);
+    }
+
+    [Fact]
+    public async Task CarryForwardAsync_ThrowsKeyNotFound_WhenTargetPeriodArchived()
+    {
+        // Arrange
+        await SeedPeriods();
+        var source = await SeedChecklist("Safety Briefing");
+        _op2.IsArchived = true;
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<KeyNotFoundException>(
+            () => _service.CarryForwardAsync(Request(source.Id), _testUser));
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private CarryForwardChecklistsRequest Request(Guid checklistId) => new()
+    {
+        ChecklistIds = new List<Guid> { checklistId },
+        TargetOperationalPeriodId = _op2.Id
+    };
+
+    private async Task SeedPeriods()
+    {
+        _op1 = new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            EventId = _eventId,
+            Name = "OP 1",
+            StartTime = DateTime.UtcNow.AddHours(-24),
+            EndTime = DateTime.UtcNow.AddHours(-12),
+            CreatedBy = "test@test.com"
+        };
+        _op2 = new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            EventId = _eventId,
+            Name = "OP 2",
+            StartTime = DateTime.UtcNow.AddHours(-12),
+            IsCurrent = true,
+            CreatedBy = "test@test.com"
+        };
+
+        _context.OperationalPeriods.AddRange(_op1, _op2);
+        await _context.SaveChangesAsync();
+    }
+
+    /// <summary>
+    /// Seeds a three-item checkbox checklist; the first completedItems items are complete
+    /// </summary>
+    private async Task<ChecklistInstance> SeedChecklist(
+        string name,
+        int completedItems = 0,
+        Guid? periodId = null,
+        Guid? eventId = null,
+        bool isArchived = false)
+    {
+        var period = periodId == _op2.Id ? _op2 : _op1;
+        var checklist = new ChecklistInstance
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            TemplateId = Guid.NewGuid(),
+            EventId = eventId ?? _eventId,
+            EventName = "Hurricane Test",
+            OperationalPeriodId = period.Id,
+            OperationalPeriodName = period.Name,
+            IsArchived = isArchived,
+            CreatedBy = "test@test.com",
+            CreatedByPosition = "Safety Officer"
+        };
+
+        for (var i = 1; i <= 3; i++)
+        {
+            checklist.Items.Add(new ChecklistItem
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                TemplateItemId = Guid.NewGuid(),
+                ItemText = $"Item {i}",
+                ItemType = "checkbox",
+                DisplayOrder = i * 10,
+                IsCompleted = i <= completedItems ? true : null
+            });
+            var item = checklist.Items.Last();
+            item.Notes.Add(new ChecklistItemNote
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                ChecklistItemId = item.Id,
+                NoteText = $"Notes for Item {i}",
+                CreatedBy = "original@test.com",
+                CreatedByPosition = "Logistics Section Chief"
+            });
+        }
+
+        ChecklistProgressHelper.CalculateProgress(checklist);
+        _context.ChecklistInstances.Add(checklist);
+        await _context.SaveChangesAsync();
+        return checklist;
+    }
+
+    #endregion
+}
@@ -1,4 +1,6 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
 using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using Moq;
 using Xunit;
@@ -14,6 +16,7 @@ public class ChecklistItemServiceTests : IDisposable
     private readonly CobraDbContext _context;
     private readonly Mock<ILogger<ChecklistItemService>> _mockLogger;
     private readonly Mock<IHubContext<ChecklistHub>> _mockHubContext;
+    private readonly Mock<IClientProxy> _mockClientProxy;
     private readonly ChecklistItemService _service;
     private readonly UserContext _testUser;
     private readonly UserContext _alternateUser;
@@ -26,9 +29,9 @@ public class ChecklistItemServiceTests : IDisposable
 
         // Setup mock hub context
         var mockClients = new Mock<IHubClients>();
-        var mockClientProxy = new Mock<IClientProxy>();
-        mockClients.Setup(c => c.Group(It.IsAny<string>())).Returns(mockClientProxy.Object);
-        mockClients.Setup(c => c.All).Returns(mockClientProxy.Object);
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.Group(It.IsAny<string>())).Returns(_mockClientProxy.Object);
+        mockClients.Setup(c => c.All).Returns(_mockClientProxy.Object);
         _mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
 
         _service = new ChecklistItemService(_context, _mockLogger.Object, _mockHubContext.Object);
@@ -116,7 +119,9 @@ public class ChecklistItemServiceTests : IDisposable
         Assert.Equal(_testUser.Email, result.CompletedBy);
         Assert.Equal(_testUser.Position, result.CompletedByPosition);
         Assert.NotNull(result.CompletedAt);
-        Assert.Equal("Verified all PPE is stored", result.Notes);
+        var note = Assert.Single(result.Notes);
+        Assert.Equal("Verified all PPE is stored", note.NoteText);
+        Assert.Equal(_testUser.Email, note.CreatedBy);
     }
 
     [Fact]
@@ -246,7 +251,7 @@ public class ChecklistItemServiceTests : IDisposable
         // Assert
         Assert.NotNull(result);
         Assert.Equal("In Progress", result.CurrentStatus);
-        Assert.Equal("Started at 14:30", result.Notes);
+        Assert.Equal("Started at 14:30", Assert.Single(result.Notes).NoteText);
         Assert.False(result.IsCompleted); // Not "Complete" yet
     }
 
@@ -335,92 +340,219 @@ public class ChecklistItemServiceTests : IDisposable
 
     #endregion
 
-    #region UpdateItemNotesAsync Tests
+    #region Item Note Tests
 
     [Fact]
-    public async Task UpdateItemNotes_UpdatesNotesSuccessfully()
+    public async Task AddNote_AppendsAttributedNote_WithoutOverwritingOthers()
     {
         // Arrange
         var (checklistId, itemId) = await SeedChecklistWithItem();
-        var request = new UpdateItemNotesRequest
-        {
-            Notes = "Verified with Safety Officer at 14:30"
-        };
+        await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Road closed at Main St" }, _alternateUser);
 
         // Act
-        var result = await _service.UpdateItemNotesAsync(checklistId, itemId, request, _testUser);
+        var result = await _service.AddNoteAsync(
+            checklistId,
+            itemId,
+            new AddItemNoteRequest { NoteText = "  Verified with Safety Officer at 14:30  " },
+            _testUser);
 
         // Assert
         Assert.NotNull(result);
-        Assert.Equal("Verified with Safety Officer at 14:30", result.Notes);
-        Assert.Equal(_testUser.Email, result.LastModifiedBy);
-        Assert.Equal(_testUser.Position, result.LastModifiedByPosition);
+        Assert.Equal("Verified with Safety Officer at 14:30", result.NoteText);
+        Assert.Equal(_testUser.Email, result.CreatedBy);
+        Assert.Equal(_testUser.Position, result.CreatedByPosition);
+        Assert.False(result.IsEdited);
+
+        var notes = await _service.GetNotesAsync(checklistId, itemId);
+        Assert.NotNull(notes);
+        Assert.Equal(2, notes.Count);
+        Assert.Equal(_alternateUser.Email, notes[0].CreatedBy);
+        Assert.Equal(_testUser.Email, notes[1].CreatedBy);
     }
 
     [Fact]
-    public async Task UpdateItemNotes_ClearsNotes_WhenNotesIsNull()
+    public async Task AddNote_BroadcastsSingleNoteAdded()
     {
         // Arrange
-        var (checklistId, itemId) = await SeedChecklistWithItem(notes: "Old notes");
-        var request = new UpdateItemNotesRequest
-        {
-            Notes = null
-        };
+        var (checklistId, itemId) = await SeedChecklistWithItem();
 
         // Act
-        var result = await _service.UpdateItemNotesAsync(checklistId, itemId, request, _testUser);
+        await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Test" }, _testUser);
 
         // Assert
-        Assert.NotNull(result);
-        Assert.Null(result.Notes);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ItemNoteAdded", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task AddNote_DoesNotChangeItemAuditFields()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act
+        await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Test" }, _testUser);
+
+        // Assert - notes are attributed separately and must not conflict with item updates
+        var item = await _context.ChecklistItems.AsNoTracking().FirstAsync(i => i.Id == itemId);
+        Assert.Null(item.LastModifiedBy);
+        Assert.Null(item.LastModifiedAt);
     }
 
     [Fact]
-    public async Task UpdateItemNotes_WorksForBothCheckboxAndStatusItems()
+    public async Task AddNote_WorksForBothCheckboxAndStatusItems()
     {
         // Arrange
         var (checklistId1, itemId1) = await SeedChecklistWithItem(itemType: "checkbox");
         var (checklistId2, itemId2) = await SeedChecklistWithItem(itemType: "status");
-        var request = new UpdateItemNotesRequest { Notes = "Test notes" };
+        var request = new AddItemNoteRequest { NoteText = "Test notes" };
 
         // Act
-        var result1 = await _service.UpdateItemNotesAsync(checklistId1, itemId1, request, _testUser);
-        var result2 = await _service.UpdateItemNotesAsync(checklistId2, itemId2, request, _testUser);
+        var result1 = await _service.AddNoteAsync(checklistId1, itemId1, request, _testUser);
+        var result2 = await _service.AddNoteAsync(checklistId2, itemId2, request, _testUser);
 
         // Assert
         Assert.NotNull(result1);
-        Assert.Equal("Test notes", result1.Notes);
+        Assert.Equal(itemId1, result1.ChecklistItemId);
         Assert.NotNull(result2);
-        Assert.Equal("Test notes", result2.Notes);
+        Assert.Equal(itemId2, result2.ChecklistItemId);
     }
 
     [Fact]
-    public async Task UpdateItemNotes_ReturnsNull_WhenItemNotFound()
+    public async Task AddNote_ReturnsNull_WhenItemNotFound()
     {
         // Arrange
-        var checklistId = Guid.NewGuid();
-        var itemId = Guid.NewGuid();
-        var request = new UpdateItemNotesRequest { Notes = "Test" };
+        var request = new AddItemNoteRequest { NoteText = "Test" };
 
         // Act
-        var result = await _service.UpdateItemNotesAsync(checklistId, itemId, request, _testUser);
+        var result = await _service.AddNoteAsync(Guid.NewGuid(), Guid.NewGuid(), request, _testUser);
 
         // Assert
         Assert.Null(result);
     }
 
     [Fact]
-    public async Task UpdateItemNotes_ThrowsUnauthorizedAccessException_WhenPositionNotAllowed()
+    public async Task AddNote_ThrowsInvalidOperationException_WhenTextIsBlank()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var request = new AddItemNoteRequest { NoteText = "   " };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.AddNoteAsync(checklistId, itemId, request, _testUser));
+    }
+
+    [Fact]
+    public async Task AddNote_ThrowsUnauthorizedAccessException_WhenPositionNotAllowed()
     {
         // Arrange
         var (checklistId, itemId) = await SeedChecklistWithItem(
             allowedPositions: "Operations Section Chief");
 
-        var request = new UpdateItemNotesRequest { Notes = "Test" };
+        var request = new AddItemNoteRequest { NoteText = "Test" };
 
         // Act & Assert - testUser is "Safety Officer", not in allowed list
         await Assert.ThrowsAsync<UnauthorizedAccessException>(async () =>
-            await _service.UpdateItemNotesAsync(checklistId, itemId, request, _testUser));
+            await _service.AddNoteAsync(checklistId, itemId, request, _testUser));
+    }
+
+    [Fact]
+    public async Task UpdateNote_EditsOwnNote_AndMarksItEdited()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var note = await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Typo" }, _testUser);
+
+        // Act
+        var result = await _service.UpdateNoteAsync(
+            checklistId,
+            itemId,
+            note!.Id,
+            new UpdateItemNoteRequest { NoteText = "Fixed" },
+            _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("Fixed", result.NoteText);
+        Assert.True(result.IsEdited);
+        Assert.Equal(_testUser.Email, result.EditedBy);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ItemNoteUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task UpdateNote_ThrowsUnauthorizedAccessException_WhenNotAuthor()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var note = await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Mine" }, _alternateUser);
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<UnauthorizedAccessException>(async () =>
+            await _service.UpdateNoteAsync(checklistId, itemId, note!.Id, new UpdateItemNoteRequest { NoteText = "Yours" }, _testUser));
+        Assert.Equal("You can only edit your own notes", ex.Message);
+    }
+
+    [Fact]
+    public async Task UpdateNote_ReturnsNull_WhenNoteNotFound()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+
+        // Act
+        var result = await _service.UpdateNoteAsync(
+            checklistId,
+            itemId,
+            Guid.NewGuid(),
+            new UpdateItemNoteRequest { NoteText = "Test" },
+            _testUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task DeleteNote_RemovesOwnNote()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var note = await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Remove me" }, _testUser);
+
+        // Act
+        var deleted = await _service.DeleteNoteAsync(checklistId, itemId, note!.Id, _testUser);
+
+        // Assert
+        Assert.True(deleted);
+        Assert.Empty((await _service.GetNotesAsync(checklistId, itemId))!);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ItemNoteDeleted", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task DeleteNote_ThrowsUnauthorizedAccessException_WhenNotAuthor()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var note = await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Mine" }, _alternateUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<UnauthorizedAccessException>(async () =>
+            await _service.DeleteNoteAsync(checklistId, itemId, note!.Id, _testUser));
+        Assert.Single((await _service.GetNotesAsync(checklistId, itemId))!);
+    }
+
+    [Fact]
+    public async Task GetNotes_ReturnsNull_WhenItemNotFound()
+    {
+        // Act
+        var result = await _service.GetNotesAsync(Guid.NewGuid(), Guid.NewGuid());
+
+        // Assert
+        Assert.Null(result);
     }
 
     #endregion
@@ -527,6 +659,660 @@ public class ChecklistItemServiceTests : IDisposable
 
     #endregion
 
+    #region Prerequisite Tests
+
+    [Fact]
+    public async Task UpdateItemCompletion_ThrowsInvalidOperationException_WhenPrerequisiteIncomplete()
+    {
+        // Arrange
+        var (checklistId, _, itemId) = await SeedChecklistWithPrerequisite();
+        var request = new UpdateItemCompletionRequest { IsCompleted = true };
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.UpdateItemCompletionAsync(checklistId, itemId, request, _testUser));
+        Assert.Equal("Complete \"Verify power isolated\" before \"Begin entry\"", ex.Message);
+
+        var item = await _context.ChecklistItems.AsNoTracking().SingleAsync(i => i.Id == itemId);
+        Assert.False(item.IsCompleted);
+    }
+
+    [Fact]
+    public async Task UpdateItemCompletion_CompletesItem_WhenPrerequisitesComplete()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+        var request = new UpdateItemCompletionRequest { IsCompleted = true };
+        await _service.UpdateItemCompletionAsync(checklistId, prerequisiteId, request, _testUser);
+
+        // Act
+        var result = await _service.UpdateItemCompletionAsync(checklistId, itemId, request, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.True(result.IsCompleted);
+    }
+
+    [Fact]
+    public async Task UpdateItemCompletion_AllowsUncompletingPrerequisite_AfterDependentComplete()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+        var complete = new UpdateItemCompletionRequest { IsCompleted = true };
+        await _service.UpdateItemCompletionAsync(checklistId, prerequisiteId, complete, _testUser);
+        await _service.UpdateItemCompletionAsync(checklistId, itemId, complete, _testUser);
+
+        // Act
+        var result = await _service.UpdateItemCompletionAsync(
+            checklistId, prerequisiteId, new UpdateItemCompletionRequest { IsCompleted = false }, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.False(result.IsCompleted);
+        var dependent = await _context.ChecklistItems.FindAsync(itemId);
+        Assert.True(dependent!.IsCompleted);
+    }
+
+    [Fact]
+    public async Task UpdateItemStatus_ThrowsInvalidOperationException_WhenCompletingBlockedItem()
+    {
+        // Arrange
+        var (checklistId, _, itemId) = await SeedChecklistWithPrerequisite(itemType: "status");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.UpdateItemStatusAsync(checklistId, itemId, new UpdateItemStatusRequest { Status = "Complete" }, _testUser));
+
+        var item = await _context.ChecklistItems.AsNoTracking().SingleAsync(i => i.Id == itemId);
+        Assert.Null(item.CurrentStatus);
+    }
+
+    [Fact]
+    public async Task UpdateItemStatus_AllowsNonCompletionStatus_WhenItemBlocked()
+    {
+        // Arrange
+        var (checklistId, _, itemId) = await SeedChecklistWithPrerequisite(itemType: "status");
+
+        // Act
+        var result = await _service.UpdateItemStatusAsync(
+            checklistId, itemId, new UpdateItemStatusRequest { Status = "In Progress" }, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("In Progress", result.CurrentStatus);
+    }
+
+    [Fact]
+    public void ValidateTemplatePrerequisites_ReturnsNull_ForValidPrerequisites()
+    {
+        // Arrange
+        var items = new List<CreateTemplateItemRequest>
+        {
+            new() { ItemText = "Verify power isolated", ItemType = "checkbox", DisplayOrder = 10 },
+            new() { ItemText = "Begin entry", ItemType = "checkbox", DisplayOrder = 20, PrerequisiteDisplayOrders = "[10]" }
+        };
+
+        // Act & Assert
+        Assert.Null(ItemPrerequisiteHelper.ValidateTemplatePrerequisites(items));
+    }
+
+    [Fact]
+    public void ValidateTemplatePrerequisites_ReturnsError_ForUnknownSelfOrLoop()
+    {
+        // Arrange
+        var unknown = new List<CreateTemplateItemRequest>
+        {
+            new() { ItemText = "Begin entry", ItemType = "checkbox", DisplayOrder = 10, PrerequisiteDisplayOrders = "[99]" }
+        };
+        var self = new List<CreateTemplateItemRequest>
+        {
+            new() { ItemText = "Begin entry", ItemType = "checkbox", DisplayOrder = 10, PrerequisiteDisplayOrders = "[10]" }
+        };
+        var loop = new List<CreateTemplateItemRequest>
+        {
+            new() { ItemText = "A", ItemType = "checkbox", DisplayOrder = 10, PrerequisiteDisplayOrders = "[30]" },
+            new() { ItemText = "B", ItemType = "checkbox", DisplayOrder = 20, PrerequisiteDisplayOrders = "[10]" },
+            new() { ItemText = "C", ItemType = "checkbox", DisplayOrder = 30, PrerequisiteDisplayOrders = "[20]" }
+        };
+
+        // Act & Assert
+        Assert.Contains("is not an item in this template", ItemPrerequisiteHelper.ValidateTemplatePrerequisites(unknown));
+        Assert.Contains("cannot be its own prerequisite", ItemPrerequisiteHelper.ValidateTemplatePrerequisites(self));
+        Assert.Contains("form a loop", ItemPrerequisiteHelper.ValidateTemplatePrerequisites(loop));
+    }
+
+    [Fact]
+    public void ResolveFromTemplate_MapsDisplayOrdersToChecklistItemIds()
+    {
+        // Arrange
+        var templateItems = new List<TemplateItem>
+        {
+            new() { Id = Guid.NewGuid(), ItemText = "Verify power isolated", ItemType = "checkbox", DisplayOrder = 10 },
+            new() { Id = Guid.NewGuid(), ItemText = "Begin entry", ItemType = "checkbox", DisplayOrder = 20, PrerequisiteDisplayOrders = "[10]" }
+        };
+        var checklistItems = templateItems
+            .Select(t => new ChecklistItem { Id = Guid.NewGuid(), TemplateItemId = t.Id, ItemText = t.ItemText, ItemType = t.ItemType, DisplayOrder = t.DisplayOrder })
+            .ToList();
+
+        // Act
+        ItemPrerequisiteHelper.ResolveFromTemplate(templateItems, checklistItems);
+
+        // Assert
+        Assert.Null(checklistItems[0].PrerequisiteItemIds);
+        Assert.Equal(new List<Guid> { checklistItems[0].Id }, ItemPrerequisiteHelper.ParseItemIds(checklistItems[1].PrerequisiteItemIds));
+    }
+
+    #endregion
+
+    #region UpdateItemValueAsync Tests
+
+    [Fact]
+    public async Task UpdateItemValue_CapturesNumber_AndCompletesItem()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(
+            itemType: "number", valueConfiguration: "{\"unit\":\"gal\",\"min\":0,\"max\":500}");
+        var request = new UpdateItemValueRequest { Value = " 42.50 " };
+
+        // Act
+        var result = await _service.UpdateItemValueAsync(checklistId, itemId, request, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("42.50", result.Value);
+        Assert.True(result.IsCompleted);
+        Assert.Equal(_testUser.Email, result.CompletedBy);
+        Assert.Equal(_testUser.Position, result.CompletedByPosition);
+        Assert.NotNull(result.CompletedAt);
+    }
+
+    [Fact]
+    public async Task UpdateItemValue_ThrowsInvalidOperationException_WhenNumberOutOfRange()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(
+            itemType: "number", valueConfiguration: "{\"unit\":\"gal\",\"min\":0,\"max\":500}");
+        var request = new UpdateItemValueRequest { Value = "750" };
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.UpdateItemValueAsync(checklistId, itemId, request, _testUser));
+        Assert.Equal("Reading must be between 0 and 500 gal", ex.Message);
+    }
+
+    [Fact]
+    public async Task UpdateItemValue_NormalizesYesNoAndDateTimeValues()
+    {
+        // Arrange
+        var (checklistId, yesNoItemId) = await SeedChecklistWithItem(itemType: "yesno");
+        var (dateTimeChecklistId, dateTimeItemId) = await SeedChecklistWithItem(itemType: "datetime");
+
+        // Act
+        var yesNo = await _service.UpdateItemValueAsync(
+            checklistId, yesNoItemId, new UpdateItemValueRequest { Value = "n/a" }, _testUser);
+        var dateTime = await _service.UpdateItemValueAsync(
+            dateTimeChecklistId, dateTimeItemId, new UpdateItemValueRequest { Value = "2026-10-19T09:30:00-05:00" }, _testUser);
+
+        // Assert
+        Assert.Equal("N/A", yesNo!.Value);
+        Assert.Equal("2026-10-19T14:30:00Z", dateTime!.Value);
+    }
+
+    [Fact]
+    public async Task UpdateItemValue_ClearsValue_AndMarksItemIncomplete()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(itemType: "text");
+        await _service.UpdateItemValueAsync(
+            checklistId, itemId, new UpdateItemValueRequest { Value = "Shelter A opened" }, _testUser);
+
+        // Act
+        var result = await _service.UpdateItemValueAsync(
+            checklistId, itemId, new UpdateItemValueRequest { Value = "" }, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Null(result.Value);
+        Assert.False(result.IsCompleted);
+        Assert.Null(result.CompletedBy);
+        Assert.Null(result.CompletedAt);
+    }
+
+    [Fact]
+    public async Task UpdateItemValue_ThrowsInvalidOperationException_ForCheckboxItems()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(itemType: "checkbox");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.UpdateItemValueAsync(checklistId, itemId, new UpdateItemValueRequest { Value = "1" }, _testUser));
+    }
+
+    [Fact]
+    public async Task UpdateItemValue_ThrowsInvalidOperationException_WhenPrerequisiteIncomplete()
+    {
+        // Arrange
+        var (checklistId, _, itemId) = await SeedChecklistWithPrerequisite(itemType: "yesno");
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(async () =>
+            await _service.UpdateItemValueAsync(checklistId, itemId, new UpdateItemValueRequest { Value = "Yes" }, _testUser));
+
+        var item = await _context.ChecklistItems.AsNoTracking().SingleAsync(i => i.Id == itemId);
+        Assert.Null(item.Value);
+    }
+
+    [Fact]
+    public void ValidateConfiguration_ReturnsError_ForNonNumberItemsOrInvertedRange()
+    {
+        // Act & Assert
+        Assert.Null(ItemValueHelper.ValidateConfiguration("Fuel level", "number", "{\"unit\":\"gal\",\"min\":0,\"max\":500}"));
+        Assert.Contains("Only number items", ItemValueHelper.ValidateConfiguration("Shelter opened", "datetime", "{\"unit\":\"gal\"}"));
+        Assert.Contains("cannot be greater than its maximum", ItemValueHelper.ValidateConfiguration("Fuel level", "number", "{\"min\":10,\"max\":5}"));
+    }
+
+    [Fact]
+    public void IsItemComplete_CountsCapturedValue_AsComplete()
+    {
+        // Arrange
+        var captured = new ChecklistItem { ItemText = "Fuel level", ItemType = "number", Value = "42" };
+        var empty = new ChecklistItem { ItemText = "Fuel level", ItemType = "number" };
+
+        // Act & Assert
+        Assert.True(ChecklistProgressHelper.IsItemComplete(captured));
+        Assert.False(ChecklistProgressHelper.IsItemComplete(empty));
+    }
+
+    #endregion
+
+    #region Item History Tests
+
+    [Fact]
+    public async Task GetItemHistory_RecordsStatusSequence_WithUserAttribution()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(
+            itemType: "status",
+            statusOptions: "[{\"label\":\"In Progress\",\"isCompletion\":false,\"order\":1},{\"label\":\"Blocked\",\"isCompletion\":false,\"order\":2},{\"label\":\"Complete\",\"isCompletion\":true,\"order\":3}]");
+
+        // Act
+        await _service.UpdateItemStatusAsync(checklistId, itemId, new UpdateItemStatusRequest { Status = "In Progress" }, _testUser);
+        await _service.UpdateItemStatusAsync(checklistId, itemId, new UpdateItemStatusRequest { Status = "Blocked" }, _alternateUser);
+        await _service.UpdateItemStatusAsync(checklistId, itemId, new UpdateItemStatusRequest { Status = "In Progress" }, _testUser);
+        var history = await _service.GetItemHistoryAsync(checklistId, itemId);
+
+        // Assert
+        Assert.NotNull(history);
+        Assert.Equal(3, history.Count);
+        Assert.All(history, h => Assert.Equal(ItemHistoryAction.StatusChanged, h.Action));
+        Assert.Equal(
+            new (string?, string?)[] { (null, "In Progress"), ("In Progress", "Blocked"), ("Blocked", "In Progress") },
+            history.Select(h => (h.PreviousValue, h.NewValue)).ToArray());
+        Assert.Equal(_alternateUser.Position, history[1].ChangedByPosition);
+    }
+
+    [Fact]
+    public async Task GetItemHistory_RecordsCompletionToggles_AndNotes()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(itemType: "checkbox");
+
+        // Act
+        await _service.UpdateItemCompletionAsync(
+            checklistId,
+            itemId,
+            new UpdateItemCompletionRequest { IsCompleted = true, Notes = "Done early" },
+            _testUser);
+        await _service.UpdateItemCompletionAsync(checklistId, itemId, new UpdateItemCompletionRequest { IsCompleted = false }, _testUser);
+        var history = await _service.GetItemHistoryAsync(checklistId, itemId);
+
+        // Assert
+        Assert.NotNull(history);
+        Assert.Equal(3, history.Count);
+        Assert.Contains(history, h => h.Action == ItemHistoryAction.Completed);
+        Assert.Contains(history, h => h.Action == ItemHistoryAction.NoteAdded && h.NewValue == "Done early");
+        Assert.Equal(ItemHistoryAction.Uncompleted, history.Last().Action);
+    }
+
+    [Fact]
+    public async Task GetItemHistory_DoesNotRecord_WhenNothingChanged()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem(itemType: "checkbox", isCompleted: true, completedBy: "ops@cobra.mil");
+
+        // Act
+        await _service.UpdateItemCompletionAsync(checklistId, itemId, new UpdateItemCompletionRequest { IsCompleted = true }, _testUser);
+        var history = await _service.GetItemHistoryAsync(checklistId, itemId);
+
+        // Assert
+        Assert.NotNull(history);
+        Assert.Empty(history);
+    }
+
+    [Fact]
+    public async Task GetItemHistory_RecordsNoteEditsAndDeletes_WithPreviousText()
+    {
+        // Arrange
+        var (checklistId, itemId) = await SeedChecklistWithItem();
+        var note = await _service.AddNoteAsync(checklistId, itemId, new AddItemNoteRequest { NoteText = "Typo" }, _testUser);
+        await _service.UpdateNoteAsync(checklistId, itemId, note!.Id, new UpdateItemNoteRequest { NoteText = "Fixed" }, _testUser);
+        await _service.DeleteNoteAsync(checklistId, itemId, note.Id, _testUser);
+
+        // Act
+        var history = await _service.GetItemHistoryAsync(checklistId, itemId);
+
+        // Assert
+        Assert.NotNull(history);
+        Assert.Equal(
+            new[] { ItemHistoryAction.NoteAdded, ItemHistoryAction.NoteEdited, ItemHistoryAction.NoteDeleted },
+            history.Select(h => h.Action).ToArray());
+        Assert.Equal(("Typo", "Fixed"), (history[1].PreviousValue, history[1].NewValue));
+        Assert.Equal(("Fixed", (string?)null), (history[2].PreviousValue, history[2].NewValue));
+    }
+
+    [Fact]
+    public async Task GetItemHistory_ReturnsNull_WhenItemNotFound()
+    {
+        // Act
+        var result = await _service.GetItemHistoryAsync(Guid.NewGuid(), Guid.NewGuid());
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region Live Item Editing Tests
+
+    [Fact]
+    public async Task AddItemAsync_InsertsAfterItem_AndRenumbersDisplayOrders()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+        var request = new AddChecklistItemRequest
+        {
+            ItemText = "  Confirm road closure with DOT  ",
+            SectionName = " Traffic ",
+            InsertAfterItemId = prerequisiteId
+        };
+
+        // Act
+        var result = await _service.AddItemAsync(checklistId, request, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal("Confirm road closure with DOT", result.ItemText);
+        Assert.Equal("checkbox", result.ItemType);
+        Assert.Equal("Traffic", result.SectionName);
+        Assert.Equal(20, result.DisplayOrder);
+
+        _context.ChangeTracker.Clear();
+        var orders = await _context.ChecklistItems
+            .Where(i => i.ChecklistInstanceId == checklistId)
+            .OrderBy(i => i.DisplayOrder)
+            .Select(i => i.Id)
+            .ToListAsync();
+        Assert.Equal(new[] { prerequisiteId, result.Id, itemId }, orders);
+
+        var checklist = await _context.ChecklistInstances.FindAsync(checklistId);
+        Assert.Equal(3, checklist!.TotalItems);
+
+        var history = await _context.ChecklistItemHistoryEntries.SingleAsync(h => h.ChecklistItemId == result.Id);
+        Assert.Equal(ItemHistoryAction.Added, history.Action);
+        Assert.Equal("Confirm road closure with DOT", history.NewValue);
+        Assert.Equal(_testUser.Email, history.ChangedBy);
+
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task AddItemAsync_ThrowsInvalidOperation_WhenChecklistArchived()
+    {
+        // Arrange
+        var (checklistId, _) = await SeedChecklistWithItem();
+        var checklist = await _context.ChecklistInstances.FindAsync(checklistId);
+        checklist!.IsArchived = true;
+        await _context.SaveChangesAsync();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            _service.AddItemAsync(checklistId, new AddChecklistItemRequest { ItemText = "Ad hoc item" }, _testUser));
+    }
+
+    [Fact]
+    public async Task AddItemAsync_ReturnsNull_WhenChecklistDoesNotExist()
+    {
+        // Act
+        var result = await _service.AddItemAsync(
+            Guid.NewGuid(),
+            new AddChecklistItemRequest { ItemText = "Ad hoc item" },
+            _testUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task RemoveItemAsync_SoftDeletesItem_AndUnblocksDependents()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+
+        // Act
+        var result = await _service.RemoveItemAsync(checklistId, prerequisiteId, _testUser);
+
+        // Assert
+        Assert.True(result);
+        _context.ChangeTracker.Clear();
+
+        Assert.Null(await _service.GetItemByIdAsync(checklistId, prerequisiteId));
+
+        var removed = await _context.ChecklistItems
+            .IgnoreQueryFilters()
+            .SingleAsync(i => i.Id == prerequisiteId);
+        Assert.True(removed.IsDeleted);
+        Assert.Equal(_testUser.Email, removed.DeletedBy);
+        Assert.NotNull(removed.DeletedAt);
+
+        var dependent = await _context.ChecklistItems.SingleAsync(i => i.Id == itemId);
+        Assert.Null(dependent.PrerequisiteItemIds);
+
+        var checklist = await _context.ChecklistInstances.FindAsync(checklistId);
+        Assert.Equal(1, checklist!.TotalItems);
+
+        var history = await _context.ChecklistItemHistoryEntries.SingleAsync(h => h.ChecklistItemId == prerequisiteId);
+        Assert.Equal(ItemHistoryAction.Removed, history.Action);
+        Assert.Equal("Verify power isolated", history.PreviousValue);
+    }
+
+    [Fact]
+    public async Task RemoveItemAsync_ReturnsFalse_WhenItemDoesNotExist()
+    {
+        // Arrange
+        var (checklistId, _) = await SeedChecklistWithItem();
+
+        // Act
+        var result = await _service.RemoveItemAsync(checklistId, Guid.NewGuid(), _testUser);
+
+        // Assert
+        Assert.False(result);
+    }
+
+    [Fact]
+    public async Task ReorderItemsAsync_RenumbersItems_AndRecordsChecklistHistory()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+
+        // Act
+        var result = await _service.ReorderItemsAsync(
+            checklistId,
+            new ReorderItemsRequest { ItemIds = new List<Guid> { itemId, prerequisiteId } },
+            _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(new[] { itemId, prerequisiteId }, result.Select(i => i.Id));
+        Assert.Equal(new[] { 10, 20 }, result.Select(i => i.DisplayOrder));
+
+        var history = await _context.ChecklistHistoryEntries.SingleAsync(h => h.ChecklistInstanceId == checklistId);
+        Assert.Equal(ChecklistHistoryAction.ItemsReordered, history.Action);
+
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task ReorderItemsAsync_ThrowsInvalidOperation_WhenItemsAreMissing()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, _) = await SeedChecklistWithPrerequisite();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            _service.ReorderItemsAsync(
+                checklistId,
+                new ReorderItemsRequest { ItemIds = new List<Guid> { prerequisiteId, Guid.NewGuid() } },
+                _testUser));
+    }
+
+    #endregion
+
+    #region Bulk Update Tests
+
+    [Fact]
+    public async Task BulkUpdateItemsAsync_CompletesItemsInDisplayOrder_WithOneBroadcast()
+    {
+        // Arrange - the dependent item is listed first; its prerequisite is completed in the same request
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+        var request = new BulkUpdateItemsRequest
+        {
+            ItemIds = new List<Guid> { itemId, prerequisiteId },
+            Action = "mark_complete"
+        };
+
+        // Act
+        var result = await _service.BulkUpdateItemsAsync(checklistId, request, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Empty(result.FailedItems);
+        Assert.Equal(new[] { prerequisiteId, itemId }, result.UpdatedItems.Select(i => i.Id));
+        Assert.All(result.UpdatedItems, i => Assert.True(i.IsCompleted));
+        Assert.Equal(100, result.ProgressPercentage);
+
+        Assert.Equal(2, await _context.ChecklistItemHistoryEntries.CountAsync(h => h.Action == ItemHistoryAction.Completed));
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task BulkUpdateItemsAsync_ReportsItemsOutsideUserPosition_AndSavesTheRest()
+    {
+        // Arrange
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite();
+        var restricted = await _context.ChecklistItems.FindAsync(itemId);
+        restricted!.AllowedPositions = "Operations Section Chief";
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        // Act
+        var result = await _service.BulkUpdateItemsAsync(
+            checklistId,
+            new BulkUpdateItemsRequest { ItemIds = new List<Guid> { prerequisiteId, itemId }, Action = "mark_complete" },
+            _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(prerequisiteId, Assert.Single(result.UpdatedItems).Id);
+        var failure = Assert.Single(result.FailedItems);
+        Assert.Equal(itemId, failure.ItemId);
+        Assert.Contains("not authorized", failure.Reason);
+
+        _context.ChangeTracker.Clear();
+        Assert.True((await _context.ChecklistItems.SingleAsync(i => i.Id == prerequisiteId)).IsCompleted);
+        Assert.False((await _context.ChecklistItems.SingleAsync(i => i.Id == itemId)).IsCompleted);
+    }
+
+    [Fact]
+    public async Task BulkUpdateItemsAsync_ChangesStatus_AndRejectsOtherItems()
+    {
+        // Arrange - prerequisite is a checkbox item, the dependent a status item
+        var (checklistId, prerequisiteId, itemId) = await SeedChecklistWithPrerequisite(itemType: "status");
+        var missingId = Guid.NewGuid();
+
+        // Act
+        var result = await _service.BulkUpdateItemsAsync(
+            checklistId,
+            new BulkUpdateItemsRequest
+            {
+                ItemIds = new List<Guid> { prerequisiteId, itemId, missingId },
+                Action = "change_status",
+                TargetStatus = "In Progress"
+            },
+            _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        var updated = Assert.Single(result.UpdatedItems);
+        Assert.Equal(itemId, updated.Id);
+        Assert.Equal("In Progress", updated.CurrentStatus);
+        Assert.Equal(new[] { missingId, prerequisiteId }, result.FailedItems.Select(f => f.ItemId));
+
+        var history = await _context.ChecklistItemHistoryEntries.SingleAsync(h => h.ChecklistItemId == itemId);
+        Assert.Equal(ItemHistoryAction.StatusChanged, history.Action);
+        Assert.Equal("In Progress", history.NewValue);
+    }
+
+    [Fact]
+    public async Task BulkUpdateItemsAsync_KeepsBlockedStatusItemUnchanged()
+    {
+        // Arrange
+        var (checklistId, _, itemId) = await SeedChecklistWithPrerequisite(itemType: "status");
+
+        // Act
+        var result = await _service.BulkUpdateItemsAsync(
+            checklistId,
+            new BulkUpdateItemsRequest
+            {
+                ItemIds = new List<Guid> { itemId },
+                Action = "change_status",
+                TargetStatus = "Complete"
+            },
+            _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Empty(result.UpdatedItems);
+        Assert.Equal("Complete \"Verify power isolated\" before \"Begin entry\"", Assert.Single(result.FailedItems).Reason);
+
+        _context.ChangeTracker.Clear();
+        Assert.Null((await _context.ChecklistItems.SingleAsync(i => i.Id == itemId)).CurrentStatus);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task BulkUpdateItemsAsync_ReturnsNull_WhenChecklistDoesNotExist()
+    {
+        // Act
+        var result = await _service.BulkUpdateItemsAsync(
+            Guid.NewGuid(),
+            new BulkUpdateItemsRequest { ItemIds = new List<Guid> { Guid.NewGuid() }, Action = "mark_complete" },
+            _testUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
     #region Helper Methods
 
     // Test event ID
@@ -538,7 +1324,7 @@ public class ChecklistItemServiceTests : IDisposable
         string? completedBy = null,
         string? allowedPositions = null,
         string? statusOptions = null,
-        string? notes = null)
+        string? valueConfiguration = null)
     {
         var checklistId = Guid.NewGuid();
         var itemId = Guid.NewGuid();
@@ -567,7 +1353,7 @@ public class ChecklistItemServiceTests : IDisposable
             CompletedBy = completedBy,
             AllowedPositions = allowedPositions,
             StatusConfiguration = statusOptions,
-            Notes = notes
+            ValueConfiguration = valueConfiguration
         };
 
         _context.ChecklistInstances.Add(checklist);
@@ -577,5 +1363,34 @@ public class ChecklistItemServiceTests : IDisposable
         return (checklistId, itemId);
     }
 
+    private async Task<(Guid checklistId, Guid prerequisiteId, Guid itemId)> SeedChecklistWithPrerequisite(
+        string itemType = "checkbox")
+    {
+        var (checklistId, prerequisiteId) = await SeedChecklistWithItem();
+        var prerequisite = await _context.ChecklistItems.FindAsync(prerequisiteId);
+        prerequisite!.ItemText = "Verify power isolated";
+
+        var item = new ChecklistItem
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            TemplateItemId = Guid.NewGuid(),
+            ItemText = "Begin entry",
+            ItemType = itemType,
+            DisplayOrder = 2,
+            IsRequired = false,
+            StatusConfiguration = itemType == "status"
+                ? "[{\"label\":\"Not Started\",\"isCompletion\":false,\"order\":1},{\"label\":\"In Progress\",\"isCompletion\":false,\"order\":2},{\"label\":\"Complete\",\"isCompletion\":true,\"order\":3}]"
+                : null,
+            PrerequisiteItemIds = $"[\"{prerequisiteId}\"]"
+        };
+
+        _context.ChecklistItems.Add(item);
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        return (checklistId, prerequisiteId, item.Id);
+    }
+
     #endregion
 }
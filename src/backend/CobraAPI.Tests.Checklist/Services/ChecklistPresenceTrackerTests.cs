@@ -0,0 +1,130 @@
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ChecklistPresenceTracker
+/// Tests joining and leaving, heartbeats and stale viewer removal,
+/// open notes and disconnect cleanup
+/// </summary>
+public class ChecklistPresenceTrackerTests
+{
+    private static readonly DateTime Now = new(2025, 11, 20, 14, 30, 0, DateTimeKind.Utc);
+    private const string ChecklistId = "checklist-1";
+
+    private readonly ChecklistPresenceTracker _tracker = new();
+
+    private List<ChecklistViewerDto> JoinOps(string connectionId = "conn-ops", string checklistId = ChecklistId) =>
+        _tracker.Join(checklistId, connectionId, "ops@cobra.mil", "Ops Chief", "Operations Section Chief", Now);
+
+    #region Join / Leave Tests
+
+    [Fact]
+    public void Join_AddsViewer_EarliestFirst()
+    {
+        // Arrange
+        _tracker.Join(ChecklistId, "conn-safety", "safety@cobra.mil", "Safety Lead", "Safety Officer", Now.AddMinutes(-5));
+
+        // Act
+        var viewers = JoinOps();
+
+        // Assert
+        Assert.Equal(2, viewers.Count);
+        Assert.Equal("Safety Officer", viewers[0].Position);
+        Assert.Equal("Ops Chief", viewers[1].FullName);
+        Assert.Equal(Now, viewers[1].JoinedAt);
+    }
+
+    [Fact]
+    public void Join_Again_KeepsJoinTimeAndOpenNotes()
+    {
+        // Arrange
+        JoinOps();
+        _tracker.SetNotesItem(ChecklistId, "conn-ops", "item-1");
+
+        // Act
+        var viewers = _tracker.Join(ChecklistId, "conn-ops", "ops@cobra.mil", "Ops Chief", "Operations Section Chief", Now.AddMinutes(1));
+
+        // Assert
+        var viewer = Assert.Single(viewers);
+        Assert.Equal(Now, viewer.JoinedAt);
+        Assert.Equal(Now.AddMinutes(1), viewer.LastSeenAt);
+        Assert.Equal("item-1", viewer.NotesItemId);
+    }
+
+    [Fact]
+    public void Leave_RemovesViewer_AndReportsWhetherItWasPresent()
+    {
+        // Arrange
+        JoinOps();
+
+        // Act & Assert
+        Assert.True(_tracker.Leave(ChecklistId, "conn-ops"));
+        Assert.False(_tracker.Leave(ChecklistId, "conn-ops"));
+        Assert.Empty(_tracker.GetViewers(ChecklistId));
+    }
+
+    #endregion
+
+    #region Heartbeat Tests
+
+    [Fact]
+    public void Heartbeat_ReturnsFalse_ForUnknownConnection()
+    {
+        Assert.False(_tracker.Heartbeat(ChecklistId, "conn-unknown", Now));
+    }
+
+    [Fact]
+    public void RemoveStale_DropsViewersWithoutRecentHeartbeat()
+    {
+        // Arrange
+        JoinOps();
+        _tracker.Join(ChecklistId, "conn-safety", "safety@cobra.mil", "Safety Lead", "Safety Officer", Now);
+        Assert.True(_tracker.Heartbeat(ChecklistId, "conn-safety", Now.AddMinutes(2)));
+
+        // Act
+        var changed = _tracker.RemoveStale(Now.AddMinutes(1));
+
+        // Assert
+        Assert.Equal(new[] { ChecklistId }, changed);
+        var viewer = Assert.Single(_tracker.GetViewers(ChecklistId));
+        Assert.Equal("conn-safety", viewer.ConnectionId);
+    }
+
+    #endregion
+
+    #region Notes and Disconnect Tests
+
+    [Fact]
+    public void SetNotesItem_RecordsAndClearsOpenNotes()
+    {
+        // Arrange
+        JoinOps();
+
+        // Act & Assert
+        Assert.True(_tracker.SetNotesItem(ChecklistId, "conn-ops", "item-1"));
+        Assert.Equal("item-1", _tracker.GetViewers(ChecklistId)[0].NotesItemId);
+        Assert.True(_tracker.SetNotesItem(ChecklistId, "conn-ops", null));
+        Assert.Null(_tracker.GetViewers(ChecklistId)[0].NotesItemId);
+        Assert.False(_tracker.SetNotesItem(ChecklistId, "conn-other", "item-1"));
+    }
+
+    [Fact]
+    public void RemoveConnection_LeavesEveryChecklist()
+    {
+        // Arrange
+        JoinOps();
+        JoinOps(checklistId: "checklist-2");
+        JoinOps(connectionId: "conn-ops-tab2", checklistId: "checklist-2");
+
+        // Act
+        var changed = _tracker.RemoveConnection("conn-ops");
+
+        // Assert
+        Assert.Equal(2, changed.Count);
+        Assert.Empty(_tracker.GetViewers(ChecklistId));
+        Assert.Single(_tracker.GetViewers("checklist-2"));
+    }
+
+    #endregion
+}
@@ -1,3 +1,4 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
 using Microsoft.AspNetCore.SignalR;
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
@@ -244,6 +245,33 @@ public class ChecklistServiceTests : IDisposable
         Assert.Equal(_testUser.Position, result.CreatedByPosition);
     }
 
+    [Fact]
+    public async Task CreateFromTemplateAsync_CopiesItemSections()
+    {
+        // Arrange
+        await SeedTestTemplate();
+        var templateItems = _context.TemplateItems.Where(i => i.TemplateId == _templateId).ToList();
+        templateItems.First(i => i.DisplayOrder == 10).SectionName = "Initial Response";
+        templateItems.First(i => i.DisplayOrder == 20).SectionName = "Initial Response";
+        await _context.SaveChangesAsync();
+
+        var request = new CreateFromTemplateRequest
+        {
+            TemplateId = _templateId,
+            EventId = TestEventTestId,
+            EventName = "Test Event"
+        };
+
+        // Act
+        var result = await _service.CreateFromTemplateAsync(request, _testUser);
+
+        // Assert
+        var items = result.Items.OrderBy(i => i.DisplayOrder).ToList();
+        Assert.Equal("Initial Response", items[0].SectionName);
+        Assert.Equal("Initial Response", items[1].SectionName);
+        Assert.Null(items[2].SectionName);
+    }
+
     [Fact]
     public async Task CreateFromTemplateAsync_InitializesProgressToZero()
     {
@@ -326,6 +354,84 @@ public class ChecklistServiceTests : IDisposable
 
     #endregion
 
+    #region CreateCombinedAsync Tests
+
+    [Fact]
+    public async Task CreateCombinedAsync_MergesTemplatesInBlockOrder_AndSkipsExcludedItems()
+    {
+        // Arrange
+        await SeedTestTemplate();
+        var secondTemplate = await SeedSecondTemplate();
+        var duplicateItem = secondTemplate.Items.First(i => i.ItemText == "Item 1");
+
+        var request = new CreateCombinedChecklistRequest
+        {
+            TemplateIds = new List<Guid> { secondTemplate.Id, _templateId },
+            ExcludedTemplateItemIds = new List<Guid> { duplicateItem.Id },
+            EventId = TestEventTestId,
+            EventName = "Test Event"
+        };
+
+        // Act
+        var result = await _service.CreateCombinedAsync(request, _testUser);
+
+        // Assert
+        var items = result.Items.OrderBy(i => i.DisplayOrder).ToList();
+        Assert.Equal(new[] { "Shelter Check", "Item 1", "Item 2", "Item 3" }, items.Select(i => i.ItemText));
+        Assert.Equal(new[] { 10, 20, 30, 40 }, items.Select(i => i.DisplayOrder));
+        Assert.Equal("Shelter Setup", items[0].SectionName);
+        Assert.Equal("Test Template", items[1].SectionName);
+        Assert.Equal(secondTemplate.Id, result.TemplateId);
+        Assert.Equal(new[] { secondTemplate.Id, _templateId }, result.SourceTemplateIds);
+        Assert.Equal(4, result.TotalItems);
+    }
+
+    [Fact]
+    public async Task CreateCombinedAsync_TracksUsageForEverySourceTemplate()
+    {
+        // Arrange
+        await SeedTestTemplate();
+        var secondTemplate = await SeedSecondTemplate();
+
+        var request = new CreateCombinedChecklistRequest
+        {
+            TemplateIds = new List<Guid> { _templateId, secondTemplate.Id },
+            EventId = TestEventTestId,
+            EventName = "Test Event"
+        };
+
+        // Act
+        await _service.CreateCombinedAsync(request, _testUser);
+
+        // Assert
+        var templates = _context.Templates.ToList();
+        Assert.All(templates, t =>
+        {
+            Assert.Equal(1, t.UsageCount);
+            Assert.NotNull(t.LastUsedAt);
+        });
+    }
+
+    [Fact]
+    public async Task CreateCombinedAsync_ThrowsException_WhenTemplateIsNotAvailable()
+    {
+        // Arrange
+        await SeedTestTemplate();
+        var request = new CreateCombinedChecklistRequest
+        {
+            TemplateIds = new List<Guid> { _templateId, Guid.NewGuid() },
+            EventId = TestEventTestId,
+            EventName = "Test Event"
+        };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(() =>
+            _service.CreateCombinedAsync(request, _testUser));
+        Assert.Empty(_context.ChecklistInstances);
+    }
+
+    #endregion
+
     #region UpdateChecklistAsync Tests
 
     [Fact]
@@ -374,6 +480,283 @@ public class ChecklistServiceTests : IDisposable
         Assert.Null(result);
     }
 
+    [Fact]
+    public async Task UpdateChecklistAsync_RecordsRenameAndPositionChanges()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var request = new UpdateChecklistRequest
+        {
+            Name = "Safety Checklist (Night)",
+            EventId = checklist.EventId,
+            EventName = checklist.EventName,
+            OperationalPeriodId = checklist.OperationalPeriodId,
+            OperationalPeriodName = checklist.OperationalPeriodName,
+            AssignedPositions = "Safety Officer,Operations Section Chief"
+        };
+
+        // Act
+        await _service.UpdateChecklistAsync(checklist.Id, request, _testUser);
+
+        // Assert
+        var entries = _context.ChecklistHistoryEntries
+            .Where(h => h.ChecklistInstanceId == checklist.Id)
+            .OrderBy(h => h.Action)
+            .ToList();
+        Assert.Equal(2, entries.Count);
+        Assert.Equal(ChecklistHistoryAction.Renamed, entries[0].Action);
+        Assert.Equal("Safety Checklist", entries[0].PreviousValue);
+        Assert.Equal("Safety Checklist (Night)", entries[0].NewValue);
+        Assert.Equal(ChecklistHistoryAction.PositionsChanged, entries[1].Action);
+        Assert.Equal("Safety Officer", entries[1].PreviousValue);
+        Assert.Equal(_testUser.Email, entries[1].ChangedBy);
+        Assert.Equal(_testUser.Position, entries[1].ChangedByPosition);
+    }
+
+    [Fact]
+    public async Task UpdateChecklistAsync_RecordsNothing_WhenMetadataUnchanged()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var request = new UpdateChecklistRequest
+        {
+            Name = checklist.Name,
+            EventId = checklist.EventId,
+            EventName = checklist.EventName,
+            OperationalPeriodId = checklist.OperationalPeriodId,
+            OperationalPeriodName = checklist.OperationalPeriodName,
+            AssignedPositions = " Safety Officer "
+        };
+
+        // Act
+        await _service.UpdateChecklistAsync(checklist.Id, request, _testUser);
+
+        // Assert
+        Assert.Empty(_context.ChecklistHistoryEntries.Where(h => h.ChecklistInstanceId == checklist.Id));
+    }
+
+    #endregion
+
+    #region GetChecklistActivityAsync Tests
+
+    [Fact]
+    public async Task GetChecklistActivityAsync_MergesItemAndChecklistHistory_NewestFirst()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var item = _context.ChecklistItems.First(i => i.ChecklistInstanceId == checklist.Id);
+        var start = DateTime.UtcNow.AddHours(-1);
+
+        _context.ChecklistItemHistoryEntries.Add(new ChecklistItemHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            ChecklistItemId = item.Id,
+            Action = ItemHistoryAction.Completed,
+            ChangedBy = "ops@test.com",
+            ChangedByPosition = "Operations Section Chief",
+            ChangedAt = start
+        });
+        _context.ChecklistHistoryEntries.Add(new ChecklistHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            Action = ChecklistHistoryAction.Renamed,
+            PreviousValue = "Old Name",
+            NewValue = checklist.Name,
+            ChangedBy = "test@test.com",
+            ChangedByPosition = "Safety Officer",
+            ChangedAt = start.AddMinutes(10)
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetChecklistActivityAsync(checklist.Id);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(2, result.Count);
+        Assert.Equal("Renamed", result[0].Action);
+        Assert.Null(result[0].ItemId);
+        Assert.Equal("Completed", result[1].Action);
+        Assert.Equal(item.Id, result[1].ItemId);
+        Assert.Equal(item.ItemText, result[1].ItemText);
+    }
+
+    [Fact]
+    public async Task GetChecklistActivityAsync_ReturnsOnlyChangesAfterSince()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var since = DateTime.UtcNow.AddMinutes(-30);
+
+        foreach (var changedAt in new[] { since.AddMinutes(-5), since, since.AddMinutes(5) })
+        {
+            _context.ChecklistHistoryEntries.Add(new ChecklistHistoryEntry
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                Action = ChecklistHistoryAction.PositionsChanged,
+                ChangedBy = "test@test.com",
+                ChangedByPosition = "Safety Officer",
+                ChangedAt = changedAt
+            });
+        }
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetChecklistActivityAsync(checklist.Id, since);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Single(result);
+        Assert.Equal(since.AddMinutes(5), result[0].ChangedAt);
+    }
+
+    [Fact]
+    public async Task GetChecklistActivityAsync_ReturnsNull_WhenChecklistNotFound()
+    {
+        // Act
+        var result = await _service.GetChecklistActivityAsync(Guid.NewGuid());
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region GetChecklistChangesAsync Tests
+
+    [Fact]
+    public async Task GetChecklistChangesAsync_ReturnsItemsChangedSince()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var items = _context.ChecklistItems
+            .Where(i => i.ChecklistInstanceId == checklist.Id)
+            .OrderBy(i => i.DisplayOrder)
+            .ToList();
+        var since = DateTime.UtcNow.AddMinutes(5);
+
+        items[0].LastModifiedAt = since.AddMinutes(1);
+        _context.ChecklistItemHistoryEntries.Add(new ChecklistItemHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            ChecklistItemId = items[1].Id,
+            Action = ItemHistoryAction.NoteAdded,
+            ChangedBy = "ops@test.com",
+            ChangedByPosition = "Operations Section Chief",
+            ChangedAt = since.AddMinutes(2)
+        });
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetChecklistChangesAsync(checklist.Id, since);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(since, result.Since);
+        Assert.Equal(checklist.Name, result.Checklist.Name);
+        Assert.Empty(result.Checklist.Items);
+        Assert.Equal(2, result.ChangedItems.Count);
+        Assert.Contains(result.ChangedItems, i => i.Id == items[0].Id);
+        Assert.Contains(result.ChangedItems, i => i.Id == items[1].Id);
+    }
+
+    [Fact]
+    public async Task GetChecklistChangesAsync_ReturnsRemovedItems_AndAllRemainingItems()
+    {
+        // Arrange
+        await SeedTestData();
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        var items = _context.ChecklistItems
+            .Where(i => i.ChecklistInstanceId == checklist.Id)
+            .OrderBy(i => i.DisplayOrder)
+            .ToList();
+        var since = DateTime.UtcNow.AddMinutes(5);
+
+        items[0].IsDeleted = true;
+        items[0].DeletedBy = "ops@test.com";
+        items[0].DeletedAt = since.AddMinutes(1);
+        _context.ChecklistItemHistoryEntries.Add(new ChecklistItemHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            ChecklistItemId = items[0].Id,
+            Action = ItemHistoryAction.Removed,
+            PreviousValue = items[0].ItemText,
+            ChangedBy = "ops@test.com",
+            ChangedByPosition = "Operations Section Chief",
+            ChangedAt = since.AddMinutes(1)
+        });
+        await _context.SaveChangesAsync();
+        _context.ChangeTracker.Clear();
+
+        // Act
+        var result = await _service.GetChecklistChangesAsync(checklist.Id, since);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(new[] { items[0].Id }, result.RemovedItemIds);
+        Assert.Equal(items.Count - 1, result.ChangedItems.Count);
+        Assert.DoesNotContain(result.ChangedItems, i => i.Id == items[0].Id);
+    }
+
+    [Fact]
+    public async Task GetChecklistChangesAsync_ReturnsNull_WhenChecklistNotFound()
+    {
+        // Act
+        var result = await _service.GetChecklistChangesAsync(Guid.NewGuid(), DateTime.UtcNow);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetMyChecklistsAsync_WithChangedSince_ReturnsOnlyChangedChecklists()
+    {
+        // Arrange
+        await SeedTestData();
+        var since = DateTime.UtcNow.AddMinutes(5);
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        checklist.LastModifiedAt = since.AddMinutes(1);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetMyChecklistsAsync(_adminUser, includeArchived: false, changedSince: since);
+
+        // Assert
+        Assert.Single(result);
+        Assert.Equal(checklist.Id, result[0].Id);
+    }
+
+    [Fact]
+    public async Task GetChecklistsByEventAsync_WithChangedSince_IncludesChecklistsArchivedSince()
+    {
+        // Arrange
+        await SeedTestData();
+        var since = DateTime.UtcNow.AddMinutes(5);
+        var checklist = _context.ChecklistInstances.First(c => c.Name == "Safety Checklist");
+        checklist.IsArchived = true;
+        checklist.ArchivedAt = since.AddMinutes(1);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var result = await _service.GetChecklistsByEventAsync(
+            TestEvent1Id, _adminUser, includeArchived: false, showAll: true, changedSince: since);
+
+        // Assert
+        Assert.Single(result);
+        Assert.Equal(checklist.Id, result[0].Id);
+        Assert.True(result[0].IsArchived);
+    }
+
     #endregion
 
     #region ArchiveChecklistAsync Tests
@@ -769,7 +1152,15 @@ public class ChecklistServiceTests : IDisposable
             item.IsCompleted = true;
             item.CompletedBy = "original@test.com";
             item.CompletedAt = DateTime.UtcNow.AddHours(-1);
-            item.Notes = "Original notes";
+            item.Notes.Add(new ChecklistItemNote
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                ChecklistItemId = item.Id,
+                NoteText = "Original notes",
+                CreatedBy = "original@test.com",
+                CreatedByPosition = "Safety Officer"
+            });
         }
         checklist.CompletedItems = 3;
         checklist.ProgressPercentage = 100;
@@ -784,7 +1175,12 @@ public class ChecklistServiceTests : IDisposable
         Assert.Equal(3, result.CompletedItems);
         Assert.All(result.Items, i => Assert.True(i.IsCompleted));
         Assert.All(result.Items, i => Assert.Equal("original@test.com", i.CompletedBy));
-        Assert.All(result.Items, i => Assert.Equal("Original notes", i.Notes));
+        Assert.All(result.Items, i =>
+        {
+            var note = Assert.Single(i.Notes);
+            Assert.Equal("Original notes", note.NoteText);
+            Assert.Equal("original@test.com", note.CreatedBy);
+        });
     }
 
     [Fact]
@@ -827,6 +1223,56 @@ public class ChecklistServiceTests : IDisposable
         Assert.Equal(original.AssignedPositions, result.AssignedPositions);
     }
 
+    [Fact]
+    public async Task CloneChecklistAsync_PlacesCopyInTargetPeriod_WhenSet()
+    {
+        // Arrange
+        await SeedTestData();
+        var original = _context.ChecklistInstances.First(c => c.OperationalPeriodId != null);
+        var targetPeriodId = Guid.NewGuid();
+
+        // Act
+        var result = await _service.CloneChecklistAsync(
+            original.Id,
+            "Clone For Next Period",
+            preserveStatus: false,
+            _testUser,
+            options: new ChecklistCloneOptions
+            {
+                SetOperationalPeriod = true,
+                OperationalPeriodId = targetPeriodId,
+                OperationalPeriodName = "OP 2"
+            });
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(targetPeriodId, result.OperationalPeriodId);
+        Assert.Equal("OP 2", result.OperationalPeriodName);
+    }
+
+    [Fact]
+    public async Task CloneChecklistAsync_KeepsSourceTemplates_OfCombinedChecklist()
+    {
+        // Arrange
+        await SeedTestTemplate();
+        var secondTemplate = await SeedSecondTemplate();
+        var combined = await _service.CreateCombinedAsync(
+            new CreateCombinedChecklistRequest
+            {
+                TemplateIds = new List<Guid> { secondTemplate.Id, _templateId },
+                EventId = TestEventTestId,
+                EventName = "Test Event"
+            },
+            _testUser);
+
+        // Act
+        var result = await _service.CloneChecklistAsync(combined.Id, "Combined Copy", preserveStatus: false, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(new[] { secondTemplate.Id, _templateId }, result.SourceTemplateIds);
+    }
+
     #endregion
 
     #region GetChecklistsByEventAsync Additional Tests
@@ -1040,6 +1486,43 @@ public class ChecklistServiceTests : IDisposable
         await _context.SaveChangesAsync();
     }
 
+    private async Task<Template> SeedSecondTemplate()
+    {
+        var templateId = Guid.NewGuid();
+        var template = new Template
+        {
+            Id = templateId,
+            Name = "Shelter Template",
+            Category = "Mass Care",
+            IsActive = true,
+            CreatedBy = "admin@test.com",
+            CreatedByPosition = "Admin"
+        };
+
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = templateId,
+            ItemText = "Shelter Check",
+            ItemType = "checkbox",
+            DisplayOrder = 10,
+            SectionName = "Shelter Setup"
+        });
+
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = templateId,
+            ItemText = "Item 1",
+            ItemType = "checkbox",
+            DisplayOrder = 20
+        });
+
+        await _context.Templates.AddAsync(template);
+        await _context.SaveChangesAsync();
+        return template;
+    }
+
     private async Task SeedTestData()
     {
         await SeedTestTemplate();
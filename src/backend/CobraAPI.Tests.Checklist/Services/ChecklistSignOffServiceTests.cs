@@ -0,0 +1,290 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ChecklistSignOffService
+/// Tests the Open → PendingSignOff → SignedOff lifecycle, the required-item
+/// gate, separation of duties, reopening and the read-only lock
+/// </summary>
+public class ChecklistSignOffServiceTests : IDisposable
+{
+    private const string Signature = "data:image/png;base64,iVBORw0KGgo=";
+
+    private readonly CobraDbContext _context;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly Mock<IHubContext<ChecklistHub>> _mockHubContext;
+    private readonly ChecklistSignOffService _service;
+    private readonly UserContext _testUser;
+    private readonly UserContext _managerUser;
+
+    public ChecklistSignOffServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _testUser = TestUserContextFactory.CreateTestUser();
+        _managerUser = TestUserContextFactory.CreateManagerUser();
+
+        _mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.Group(It.IsAny<string>())).Returns(_mockClientProxy.Object);
+        _mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        _service = new ChecklistSignOffService(
+            _context,
+            new Mock<ILogger<ChecklistSignOffService>>().Object,
+            _mockHubContext.Object);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Submit Tests
+
+    [Fact]
+    public async Task SubmitForSignOffAsync_MovesToPendingSignOff_WhenRequiredItemsDone()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+
+        // Act
+        var result = await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(ChecklistSignOffStatus.PendingSignOff, result.SignOffStatus);
+        Assert.Equal(_testUser.Email, result.SubmittedForSignOffBy);
+        Assert.Equal(_testUser.Position, result.SubmittedForSignOffByPosition);
+        Assert.NotNull(result.SubmittedForSignOffAt);
+        Assert.Single(_context.ChecklistHistoryEntries.Where(h =>
+            h.ChecklistInstanceId == checklist.Id && h.Action == ChecklistHistoryAction.SubmittedForSignOff));
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistUpdated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task SubmitForSignOffAsync_Throws_WhenRequiredItemsLeft()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: false);
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _service.SubmitForSignOffAsync(checklist.Id, _testUser));
+        Assert.Contains("1 of 2", ex.Message);
+    }
+
+    [Fact]
+    public async Task SubmitForSignOffAsync_ReturnsNull_WhenChecklistNotFound()
+    {
+        // Act
+        var result = await _service.SubmitForSignOffAsync(Guid.NewGuid(), _testUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region Sign-Off Tests
+
+    [Fact]
+    public async Task SignOffAsync_RecordsSupervisorAndSignature()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+
+        // Act
+        var result = await _service.SignOffAsync(checklist.Id, Signature, _managerUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(ChecklistSignOffStatus.SignedOff, result.SignOffStatus);
+        Assert.Equal(_managerUser.Email, result.SignedOffBy);
+        Assert.Equal(_managerUser.FullName, result.SignedOffByName);
+        Assert.Equal(_managerUser.Position, result.SignedOffByPosition);
+        Assert.NotNull(result.SignedOffAt);
+        Assert.Equal(Signature, result.SignOffSignature);
+    }
+
+    [Fact]
+    public async Task SignOffAsync_Throws_WhenSupervisorSubmitted()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _managerUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<UnauthorizedAccessException>(
+            () => _service.SignOffAsync(checklist.Id, null, _managerUser));
+    }
+
+    [Fact]
+    public async Task SignOffAsync_Throws_WhenNotSubmitted()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _service.SignOffAsync(checklist.Id, null, _managerUser));
+    }
+
+    [Fact]
+    public async Task SignOffAsync_Throws_WhenSignatureIsNotPng()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => _service.SignOffAsync(checklist.Id, "data:image/svg+xml;base64,PHN2Zz4=", _managerUser));
+    }
+
+    [Fact]
+    public async Task SignedOffChecklist_RejectsItemAndMetadataChanges()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+        await _service.SignOffAsync(checklist.Id, null, _managerUser);
+        var itemService = new ChecklistItemService(
+            _context,
+            new Mock<ILogger<ChecklistItemService>>().Object,
+            _mockHubContext.Object);
+        var checklistService = new ChecklistService(
+            _context,
+            new Mock<ILogger<ChecklistService>>().Object,
+            _mockHubContext.Object);
+        var itemId = checklist.Items.First(i => i.IsRequired).Id;
+
+        // Act & Assert
+        var ex = await Assert.ThrowsAsync<InvalidOperationException>(() => itemService.UpdateItemCompletionAsync(
+            checklist.Id,
+            itemId,
+            new UpdateItemCompletionRequest { IsCompleted = false },
+            _testUser));
+        Assert.Equal(ChecklistSignOffHelper.LockedMessage, ex.Message);
+        await Assert.ThrowsAsync<InvalidOperationException>(() => itemService.AddNoteAsync(
+            checklist.Id,
+            itemId,
+            new AddItemNoteRequest { NoteText = "Late note" },
+            _testUser));
+        await Assert.ThrowsAsync<InvalidOperationException>(() => checklistService.UpdateChecklistAsync(
+            checklist.Id,
+            new UpdateChecklistRequest
+            {
+                Name = "Renamed",
+                EventId = checklist.EventId,
+                EventName = checklist.EventName
+            },
+            _managerUser));
+    }
+
+    #endregion
+
+    #region Reopen Tests
+
+    [Fact]
+    public async Task ReopenAsync_ReturnsToOpen_AndRecordsReason()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+        await _service.SignOffAsync(checklist.Id, Signature, _managerUser);
+
+        // Act
+        var result = await _service.ReopenAsync(checklist.Id, "Missed a hazard", _managerUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(ChecklistSignOffStatus.Open, result.SignOffStatus);
+        Assert.Null(result.SignedOffBy);
+        Assert.Null(result.SignOffSignature);
+        var entry = await _context.ChecklistHistoryEntries
+            .SingleAsync(h => h.ChecklistInstanceId == checklist.Id && h.Action == ChecklistHistoryAction.Reopened);
+        Assert.Equal(nameof(ChecklistSignOffStatus.SignedOff), entry.PreviousValue);
+        Assert.Equal("Missed a hazard", entry.NewValue);
+        Assert.Equal(_managerUser.Email, entry.ChangedBy);
+    }
+
+    [Fact]
+    public async Task ReopenAsync_Throws_WhenReasonMissing()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+        await _service.SubmitForSignOffAsync(checklist.Id, _testUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => _service.ReopenAsync(checklist.Id, "  ", _managerUser));
+    }
+
+    [Fact]
+    public async Task ReopenAsync_Throws_WhenAlreadyOpen()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(requiredItemsDone: true);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _service.ReopenAsync(checklist.Id, "Not needed", _managerUser));
+    }
+
+    #endregion
+
+    #region Helpers
+
+    /// <summary>
+    /// Seeds a checklist with two required items (the second done only when
+    /// requiredItemsDone) and one optional item
+    /// </summary>
+    private async Task<ChecklistInstance> SeedChecklist(bool requiredItemsDone)
+    {
+        var checklist = new ChecklistInstance
+        {
+            Id = Guid.NewGuid(),
+            Name = "Safety Briefing",
+            TemplateId = Guid.NewGuid(),
+            EventId = Guid.NewGuid(),
+            EventName = "Hurricane Test",
+            TotalItems = 3,
+            CompletedItems = requiredItemsDone ? 2 : 1,
+            RequiredItems = 2,
+            RequiredItemsCompleted = requiredItemsDone ? 2 : 1,
+            CreatedBy = _testUser.Email,
+            CreatedByPosition = _testUser.Position
+        };
+
+        for (var i = 1; i <= 3; i++)
+        {
+            checklist.Items.Add(new ChecklistItem
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                TemplateItemId = Guid.NewGuid(),
+                ItemText = $"Item {i}",
+                ItemType = "checkbox",
+                DisplayOrder = i * 10,
+                IsRequired = i <= 2,
+                IsCompleted = i == 1 || (i == 2 && requiredItemsDone) ? true : null
+            });
+        }
+
+        _context.ChecklistInstances.Add(checklist);
+        await _context.SaveChangesAsync();
+        return checklist;
+    }
+
+    #endregion
+}
@@ -0,0 +1,333 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for ItemOverdueService and ItemDueTimeHelper
+/// Tests due time calculation on checklist creation and copies, responsible
+/// positions, and that each overdue item is notified exactly once
+/// </summary>
+public class ItemOverdueServiceTests : IDisposable
+{
+    private static readonly DateTime Now = new(2025, 11, 20, 14, 30, 0, DateTimeKind.Utc);
+
+    private const string StatusConfiguration =
+        "[{\"label\":\"Not Started\",\"isCompletion\":false,\"order\":1},{\"label\":\"Complete\",\"isCompletion\":true,\"order\":2}]";
+
+    private readonly CobraDbContext _context;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly ItemOverdueService _service;
+    private readonly UserContext _testUser;
+
+    public ItemOverdueServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _testUser = TestUserContextFactory.CreateTestUser();
+
+        var mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.All).Returns(_mockClientProxy.Object);
+        mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        _service = new ItemOverdueService(
+            _context,
+            new Mock<ILogger<ItemOverdueService>>().Object,
+            mockHubContext.Object);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region ItemDueTimeHelper Tests
+
+    [Fact]
+    public void CalculateDueAt_CountsFromAnchor()
+    {
+        // Arrange
+        var periodStart = Now.AddHours(-3);
+
+        // Act & Assert
+        Assert.Null(ItemDueTimeHelper.CalculateDueAt(null, ItemDueAnchor.ChecklistCreated, Now, periodStart));
+        Assert.Equal(Now.AddMinutes(30), ItemDueTimeHelper.CalculateDueAt(30, ItemDueAnchor.ChecklistCreated, Now, periodStart));
+        Assert.Equal(periodStart.AddMinutes(120), ItemDueTimeHelper.CalculateDueAt(120, ItemDueAnchor.PeriodStart, Now, periodStart));
+    }
+
+    [Fact]
+    public void CalculateDueAt_PeriodStart_FallsBackToCreation_WithoutPeriod()
+    {
+        Assert.Equal(Now.AddMinutes(60), ItemDueTimeHelper.CalculateDueAt(60, ItemDueAnchor.PeriodStart, Now, null));
+    }
+
+    [Theory]
+    [InlineData(null, new string[0])]
+    [InlineData("[\"Safety Officer\",\"Incident Commander\"]", new[] { "Safety Officer", "Incident Commander" })]
+    [InlineData("Safety Officer, Incident Commander", new[] { "Safety Officer", "Incident Commander" })]
+    [InlineData("[not json", new string[0])]
+    public void ParsePositions_ReadsJsonAndCommaLists(string? positions, string[] expected)
+    {
+        Assert.Equal(expected, ItemDueTimeHelper.ParsePositions(positions));
+    }
+
+    [Fact]
+    public void GetResponsiblePositions_FallsBackToChecklistPositions()
+    {
+        // Arrange
+        var checklist = new ChecklistInstance { AssignedPositions = "Operations Section Chief" };
+
+        // Act & Assert
+        Assert.Equal(
+            new[] { "Safety Officer" },
+            ItemDueTimeHelper.GetResponsiblePositions(new ChecklistItem { AllowedPositions = "[\"Safety Officer\"]" }, checklist));
+        Assert.Equal(
+            new[] { "Operations Section Chief" },
+            ItemDueTimeHelper.GetResponsiblePositions(new ChecklistItem(), checklist));
+    }
+
+    #endregion
+
+    #region Due Times on Creation Tests
+
+    [Fact]
+    public async Task CreateFromTemplateAsync_CalculatesDueTimes()
+    {
+        // Arrange
+        var period = new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            EventId = Guid.NewGuid(),
+            Name = "OP 2",
+            StartTime = DateTime.UtcNow.AddHours(-2),
+            CreatedBy = "test@test.com"
+        };
+        _context.OperationalPeriods.Add(period);
+        var template = await SeedTemplate();
+
+        // Act
+        var checklist = await ChecklistCreationHelper.CreateFromTemplateAsync(
+            _context,
+            new Mock<ILogger>().Object,
+            new CreateFromTemplateRequest
+            {
+                TemplateId = template.Id,
+                Name = "Initial Response",
+                EventId = period.EventId,
+                EventName = "Hurricane Test",
+                OperationalPeriodId = period.Id,
+                OperationalPeriodName = period.Name
+            },
+            _testUser);
+
+        // Assert
+        var items = checklist.Items.OrderBy(i => i.DisplayOrder).ToList();
+        Assert.Equal(checklist.CreatedAt.AddMinutes(30), items[0].DueAt);
+        Assert.Equal(period.StartTime.AddMinutes(240), items[1].DueAt);
+        Assert.Equal(ItemDueAnchor.PeriodStart, items[1].DueRelativeTo);
+        Assert.Null(items[2].DueAt);
+    }
+
+    [Fact]
+    public async Task CloneChecklistAsync_CleanCopy_RestartsDueTimes()
+    {
+        // Arrange
+        var original = await SeedChecklist(Now.AddHours(-1));
+        original.Items.First().DueOffsetMinutes = 30;
+        original.Items.First().OverdueNotifiedAt = Now;
+        await _context.SaveChangesAsync();
+
+        // Act
+        var clone = await ChecklistCreationHelper.CloneChecklistAsync(
+            _context,
+            new Mock<ILogger>().Object,
+            original.Id,
+            "Copy",
+            preserveStatus: false,
+            _testUser);
+
+        // Assert
+        var item = clone.Items.First(i => i.DueOffsetMinutes == 30);
+        Assert.Equal(clone.CreatedAt.AddMinutes(30), item.DueAt);
+        Assert.Null(item.OverdueNotifiedAt);
+    }
+
+    #endregion
+
+    #region NotifyOverdueItemsAsync Tests
+
+    [Fact]
+    public async Task NotifyOverdueItemsAsync_NotifiesIncompleteOverdueItemsOnce()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(Now.AddMinutes(-5));
+
+        // Act
+        var firstRun = await _service.NotifyOverdueItemsAsync(Now);
+        var secondRun = await _service.NotifyOverdueItemsAsync(Now.AddMinutes(1));
+
+        // Assert
+        Assert.Equal(2, firstRun); // Incomplete checkbox and status items
+        Assert.Equal(0, secondRun);
+        var notified = await _context.ChecklistItems
+            .Where(i => i.ChecklistInstanceId == checklist.Id && i.OverdueNotifiedAt != null)
+            .Select(i => i.ItemText)
+            .ToListAsync();
+        Assert.Equal(new[] { "Open checkbox", "Open status" }, notified.OrderBy(t => t));
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ItemOverdue", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Exactly(2));
+    }
+
+    [Fact]
+    public async Task NotifyOverdueItemsAsync_IgnoresItemsNotYetDue()
+    {
+        // Arrange
+        await SeedChecklist(Now.AddMinutes(5));
+
+        // Act
+        var notified = await _service.NotifyOverdueItemsAsync(Now);
+
+        // Assert
+        Assert.Equal(0, notified);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync(It.IsAny<string>(), It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    [Fact]
+    public async Task NotifyOverdueItemsAsync_IgnoresArchivedChecklists()
+    {
+        // Arrange
+        await SeedChecklist(Now.AddMinutes(-5), isArchived: true);
+
+        // Act
+        var notified = await _service.NotifyOverdueItemsAsync(Now);
+
+        // Assert
+        Assert.Equal(0, notified);
+    }
+
+    [Fact]
+    public async Task NotifyOverdueItemsAsync_IgnoresSignedOffChecklists()
+    {
+        // Arrange
+        var checklist = await SeedChecklist(Now.AddMinutes(-5));
+        checklist.SignOffStatus = ChecklistSignOffStatus.SignedOff;
+        await _context.SaveChangesAsync();
+
+        // Act
+        var notified = await _service.NotifyOverdueItemsAsync(Now);
+
+        // Assert
+        Assert.Equal(0, notified);
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync(It.IsAny<string>(), It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Never);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private async Task<Template> SeedTemplate()
+    {
+        var template = new Template
+        {
+            Id = Guid.NewGuid(),
+            Name = "Initial Response",
+            Category = "Operations",
+            IsActive = true,
+            CreatedBy = "admin@test.com",
+            CreatedByPosition = "Admin"
+        };
+
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            ItemText = "Establish ICP",
+            ItemType = "checkbox",
+            DisplayOrder = 10,
+            DueOffsetMinutes = 30
+        });
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            ItemText = "Submit ICS-201",
+            ItemType = "checkbox",
+            DisplayOrder = 20,
+            DueOffsetMinutes = 240,
+            DueRelativeTo = ItemDueAnchor.PeriodStart
+        });
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            ItemText = "Routine check",
+            ItemType = "checkbox",
+            DisplayOrder = 30
+        });
+
+        _context.Templates.Add(template);
+        await _context.SaveChangesAsync();
+        return template;
+    }
+
+    /// <summary>
+    /// Seeds a checklist whose four items are all due at dueAt:
+    /// open and completed checkbox items, open and completed status items
+    /// </summary>
+    private async Task<ChecklistInstance> SeedChecklist(DateTime dueAt, bool isArchived = false)
+    {
+        var checklist = new ChecklistInstance
+        {
+            Id = Guid.NewGuid(),
+            Name = "Initial Response",
+            TemplateId = Guid.NewGuid(),
+            EventId = Guid.NewGuid(),
+            EventName = "Hurricane Test",
+            AssignedPositions = "Safety Officer",
+            IsArchived = isArchived,
+            CreatedBy = "test@test.com",
+            CreatedByPosition = "Safety Officer"
+        };
+
+        ChecklistItem Item(string text, string type, int order) => new()
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            TemplateItemId = Guid.NewGuid(),
+            ItemText = text,
+            ItemType = type,
+            DisplayOrder = order,
+            StatusConfiguration = type == "status" ? StatusConfiguration : null,
+            DueAt = dueAt
+        };
+
+        var completedCheckbox = Item("Done checkbox", "checkbox", 20);
+        completedCheckbox.IsCompleted = true;
+        var openStatus = Item("Open status", "status", 30);
+        openStatus.CurrentStatus = "Not Started";
+        var completedStatus = Item("Done status", "status", 40);
+        completedStatus.CurrentStatus = "Complete";
+
+        checklist.Items.Add(Item("Open checkbox", "checkbox", 10));
+        checklist.Items.Add(completedCheckbox);
+        checklist.Items.Add(openStatus);
+        checklist.Items.Add(completedStatus);
+
+        ChecklistProgressHelper.CalculateProgress(checklist);
+        _context.ChecklistInstances.Add(checklist);
+        await _context.SaveChangesAsync();
+        return checklist;
+    }
+
+    #endregion
+}
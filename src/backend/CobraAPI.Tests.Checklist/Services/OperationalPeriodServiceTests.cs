@@ -0,0 +1,266 @@
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for OperationalPeriodService
+/// Tests wall-clock current period detection, the manual current flag and
+/// period validation
+/// </summary>
+public class OperationalPeriodServiceTests : IDisposable
+{
+    private static readonly DateTime Now = new(2025, 11, 20, 14, 30, 0, DateTimeKind.Utc);
+
+    private readonly CobraDbContext _context;
+    private readonly OperationalPeriodService _service;
+    private readonly UserContext _user = TestUserContextFactory.CreateManagerUser();
+
+    public OperationalPeriodServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _service = new OperationalPeriodService(
+            _context,
+            new Mock<ILogger<OperationalPeriodService>>().Object);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region FindCurrent Tests
+
+    [Fact]
+    public void FindCurrent_PrefersPeriodContainingNow_OverFlaggedPeriod()
+    {
+        // Arrange
+        var flagged = CreatePeriod("OP 1", Now.AddHours(-24), Now.AddHours(-12), isCurrent: true);
+        var active = CreatePeriod("OP 2", Now.AddHours(-12), Now);
+        var running = CreatePeriod("OP 3", Now.AddHours(-2), Now.AddHours(10));
+
+        // Act
+        var current = OperationalPeriodService.FindCurrent(new[] { flagged, active, running }, Now);
+
+        // Assert - end time is exclusive, so OP 2 has ended
+        Assert.Equal("OP 3", current?.Name);
+    }
+
+    [Fact]
+    public void FindCurrent_UsesLatestStart_WhenPeriodsOverlap()
+    {
+        // Arrange
+        var openEnded = CreatePeriod("OP 1", Now.AddHours(-24), null);
+        var later = CreatePeriod("OP 2", Now.AddHours(-1), Now.AddHours(11));
+
+        // Act
+        var current = OperationalPeriodService.FindCurrent(new[] { openEnded, later }, Now);
+
+        // Assert
+        Assert.Equal("OP 2", current?.Name);
+    }
+
+    [Fact]
+    public void FindCurrent_FallsBackToFlaggedPeriod_AndIgnoresArchived()
+    {
+        // Arrange
+        var flagged = CreatePeriod("OP 1", Now.AddHours(6), Now.AddHours(18), isCurrent: true);
+        var archived = CreatePeriod("OP 0", Now.AddHours(-6), Now.AddHours(6));
+        archived.IsArchived = true;
+
+        // Act
+        var current = OperationalPeriodService.FindCurrent(new[] { flagged, archived }, Now);
+        var none = OperationalPeriodService.FindCurrent(new[] { archived }, Now);
+
+        // Assert
+        Assert.Equal("OP 1", current?.Name);
+        Assert.Null(none);
+    }
+
+    #endregion
+
+    #region CRUD Tests
+
+    [Fact]
+    public async Task CreatePeriodAsync_SavesObjectives_AndUnsetsOtherCurrentPeriods()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        var first = await _service.CreatePeriodAsync(CreateRequest(evt.Id, "OP 1", isCurrent: true), _user);
+
+        // Act
+        var second = await _service.CreatePeriodAsync(
+            CreateRequest(evt.Id, "OP 2", isCurrent: true) with { Objectives = "Restore power\nOpen shelters" },
+            _user);
+
+        // Assert
+        Assert.Equal("Restore power\nOpen shelters", second.Objectives);
+        Assert.True(second.IsCurrent);
+        Assert.False((await _service.GetPeriodByIdAsync(first.Id))!.IsCurrent);
+        Assert.Equal(_user.FullName, second.CreatedBy);
+    }
+
+    [Fact]
+    public async Task CreatePeriodAsync_Throws_WhenEndIsBeforeStart()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        var request = CreateRequest(evt.Id, "OP 1") with { EndTime = Now.AddHours(-1) };
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(() => _service.CreatePeriodAsync(request, _user));
+    }
+
+    [Fact]
+    public async Task CreatePeriodAsync_Throws_WhenEventNotFound()
+    {
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => _service.CreatePeriodAsync(CreateRequest(Guid.NewGuid(), "OP 1"), _user));
+    }
+
+    [Fact]
+    public async Task UpdatePeriodAsync_UpdatesWindowAndObjectives()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        var period = await _service.CreatePeriodAsync(CreateRequest(evt.Id, "OP 1"), _user);
+
+        // Act
+        var updated = await _service.UpdatePeriodAsync(period.Id, new UpdateOperationalPeriodRequest
+        {
+            Name = "OP 1 - Day",
+            StartTime = Now,
+            EndTime = Now.AddHours(12),
+            Objectives = "Search sector B"
+        }, _user);
+
+        // Assert
+        Assert.Equal("OP 1 - Day", updated.Name);
+        Assert.Equal(Now.AddHours(12), updated.EndTime);
+        Assert.Equal("Search sector B", updated.Objectives);
+        Assert.Equal(_user.FullName, updated.LastModifiedBy);
+    }
+
+    [Fact]
+    public async Task GetPeriodsAsync_ExcludesArchivedAndOtherEvents()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        var otherEvt = await SeedEvent();
+        var archived = await _service.CreatePeriodAsync(CreateRequest(evt.Id, "OP 1"), _user);
+        await _service.CreatePeriodAsync(CreateRequest(evt.Id, "OP 2") with { StartTime = Now.AddHours(12) }, _user);
+        await _service.CreatePeriodAsync(CreateRequest(otherEvt.Id, "Other OP"), _user);
+        await _service.ArchivePeriodAsync(archived.Id, _user);
+
+        // Act
+        var periods = await _service.GetPeriodsAsync(evt.Id);
+        var withArchived = await _service.GetPeriodsAsync(evt.Id, includeArchived: true);
+
+        // Assert
+        Assert.Equal(new[] { "OP 2" }, periods.Select(p => p.Name));
+        Assert.Equal(new[] { "OP 1", "OP 2" }, withArchived.Select(p => p.Name));
+    }
+
+    [Fact]
+    public async Task GetPeriodsAsync_ReturnsTimesAsUtc()
+    {
+        // Arrange - times read back from SQL Server have no kind
+        var evt = await SeedEvent();
+        var period = CreatePeriod(
+            "OP 1",
+            DateTime.SpecifyKind(Now, DateTimeKind.Unspecified),
+            DateTime.SpecifyKind(Now.AddHours(12), DateTimeKind.Unspecified));
+        period.EventId = evt.Id;
+        _context.OperationalPeriods.Add(period);
+        await _context.SaveChangesAsync();
+
+        // Act
+        var dto = Assert.Single(await _service.GetPeriodsAsync(evt.Id));
+
+        // Assert
+        Assert.Equal(DateTimeKind.Utc, dto.StartTime.Kind);
+        Assert.Equal(DateTimeKind.Utc, dto.EndTime?.Kind);
+        Assert.Equal(Now, dto.StartTime);
+    }
+
+    [Fact]
+    public async Task GetCurrentPeriodAsync_DetectsPeriodFromTime()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        await _service.CreatePeriodAsync(
+            CreateRequest(evt.Id, "OP 1") with { StartTime = Now.AddHours(-12), EndTime = Now.AddHours(-1) },
+            _user);
+        await _service.CreatePeriodAsync(
+            CreateRequest(evt.Id, "OP 2") with { StartTime = Now.AddHours(-1), EndTime = Now.AddHours(11) },
+            _user);
+
+        // Act
+        var current = await _service.GetCurrentPeriodAsync(evt.Id, Now);
+
+        // Assert
+        Assert.Equal("OP 2", current?.Name);
+    }
+
+    [Fact]
+    public async Task SetCurrentPeriodAsync_Throws_WhenPeriodArchived()
+    {
+        // Arrange
+        var evt = await SeedEvent();
+        var period = await _service.CreatePeriodAsync(CreateRequest(evt.Id, "OP 1"), _user);
+        await _service.ArchivePeriodAsync(period.Id, _user);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<KeyNotFoundException>(() => _service.SetCurrentPeriodAsync(period.Id, _user));
+        Assert.True((await _context.OperationalPeriods.SingleAsync()).IsArchived);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private static OperationalPeriod CreatePeriod(string name, DateTime start, DateTime? end, bool isCurrent = false)
+    {
+        return new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            Name = name,
+            StartTime = start,
+            EndTime = end,
+            IsCurrent = isCurrent,
+            CreatedBy = "test@test.com"
+        };
+    }
+
+    private static CreateOperationalPeriodRequest CreateRequest(Guid eventId, string name, bool isCurrent = false)
+    {
+        return new CreateOperationalPeriodRequest
+        {
+            EventId = eventId,
+            Name = name,
+            StartTime = Now,
+            IsCurrent = isCurrent
+        };
+    }
+
+    private async Task<Event> SeedEvent()
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            Name = "Hurricane Test",
+            EventType = "Unplanned",
+            PrimaryCategoryId = Guid.NewGuid(),
+            IsActive = true,
+            CreatedBy = "test@test.com"
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    #endregion
+}
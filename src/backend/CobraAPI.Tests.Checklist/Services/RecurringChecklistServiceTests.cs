@@ -0,0 +1,305 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for RecurringChecklistService and RecurrenceScheduleHelper
+/// Tests schedule parsing, due-occurrence math for each frequency, and that
+/// each occurrence creates exactly one checklist per open event
+/// </summary>
+public class RecurringChecklistServiceTests : IDisposable
+{
+    private static readonly DateTime Now = new(2025, 11, 20, 14, 30, 0, DateTimeKind.Utc);
+
+    private readonly CobraDbContext _context;
+    private readonly Mock<IClientProxy> _mockClientProxy;
+    private readonly RecurringChecklistService _service;
+
+    public RecurringChecklistServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+
+        var mockHubContext = new Mock<IHubContext<ChecklistHub>>();
+        var mockClients = new Mock<IHubClients>();
+        _mockClientProxy = new Mock<IClientProxy>();
+        mockClients.Setup(c => c.All).Returns(_mockClientProxy.Object);
+        mockHubContext.Setup(h => h.Clients).Returns(mockClients.Object);
+
+        _service = new RecurringChecklistService(
+            _context,
+            new Mock<ILogger<RecurringChecklistService>>().Object,
+            mockHubContext.Object);
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region RecurrenceScheduleHelper Tests
+
+    [Theory]
+    [InlineData(null)]
+    [InlineData("not json")]
+    [InlineData("{\"frequency\":\"interval\"}")]
+    [InlineData("{\"frequency\":\"interval\",\"intervalHours\":200}")]
+    [InlineData("{\"frequency\":\"daily\",\"timeOfDay\":\"25:00\"}")]
+    [InlineData("{\"frequency\":\"weekly\"}")]
+    [InlineData("{\"frequency\":\"operationalPeriod\",\"startAt\":\"2025-11-20T00:00:00Z\",\"endAt\":\"2025-11-19T00:00:00Z\"}")]
+    public void Parse_ReturnsNull_ForInvalidConfig(string? json)
+    {
+        Assert.Null(RecurrenceScheduleHelper.Parse(json));
+    }
+
+    [Fact]
+    public void Parse_ReadsCamelCaseJson()
+    {
+        // Act
+        var config = RecurrenceScheduleHelper.Parse(
+            "{\"frequency\":\"daily\",\"timeOfDay\":\"06:00\",\"timeZone\":\"UTC\",\"assignedPositions\":[\"Safety Officer\"]}");
+
+        // Assert
+        Assert.NotNull(config);
+        Assert.Equal(RecurrenceFrequency.Daily, config.Frequency);
+        Assert.Equal("06:00", config.TimeOfDay);
+        Assert.Equal(new[] { "Safety Officer" }, config.AssignedPositions);
+    }
+
+    [Fact]
+    public void GetDueOccurrence_OperationalPeriod_UsesCurrentPeriod()
+    {
+        // Arrange
+        var config = new RecurrenceConfig { Frequency = RecurrenceFrequency.OperationalPeriod };
+        var period = new OperationalPeriod { Id = Guid.NewGuid(), Name = "OP 2", StartTime = Now.AddHours(-2) };
+
+        // Act
+        var occurrence = RecurrenceScheduleHelper.GetDueOccurrence(config, Now, period);
+
+        // Assert
+        Assert.NotNull(occurrence);
+        Assert.Equal($"period:{period.Id}", occurrence.Key);
+        Assert.Equal("OP 2", occurrence.Label);
+        Assert.Null(RecurrenceScheduleHelper.GetDueOccurrence(config, Now, null));
+    }
+
+    [Fact]
+    public void GetDueOccurrence_Interval_ReturnsLatestSlotFromStart()
+    {
+        // Arrange
+        var config = new RecurrenceConfig
+        {
+            Frequency = RecurrenceFrequency.Interval,
+            IntervalHours = 4,
+            StartAt = new DateTime(2025, 11, 20, 1, 0, 0, DateTimeKind.Utc)
+        };
+
+        // Act
+        var occurrence = RecurrenceScheduleHelper.GetDueOccurrence(config, Now, null);
+
+        // Assert - slots at 01:00, 05:00, 09:00, 13:00; 14:30 falls in the 13:00 slot
+        Assert.NotNull(occurrence);
+        Assert.Equal(new DateTime(2025, 11, 20, 13, 0, 0, DateTimeKind.Utc), occurrence.ScheduledFor);
+        Assert.Equal("interval:20251120T1300Z", occurrence.Key);
+        Assert.Null(RecurrenceScheduleHelper.GetDueOccurrence(config, config.StartAt!.Value.AddMinutes(-1), null));
+    }
+
+    [Fact]
+    public void GetDueOccurrence_Daily_ReturnsPreviousDayBeforeTimeOfDay()
+    {
+        // Arrange
+        var config = new RecurrenceConfig
+        {
+            Frequency = RecurrenceFrequency.Daily,
+            TimeOfDay = "18:00",
+            TimeZone = "UTC",
+            StartAt = new DateTime(2025, 11, 1, 0, 0, 0, DateTimeKind.Utc)
+        };
+
+        // Act
+        var occurrence = RecurrenceScheduleHelper.GetDueOccurrence(config, Now, null);
+
+        // Assert
+        Assert.NotNull(occurrence);
+        Assert.Equal("daily:2025-11-19", occurrence.Key);
+        Assert.Equal(new DateTime(2025, 11, 19, 18, 0, 0, DateTimeKind.Utc), occurrence.ScheduledFor);
+    }
+
+    [Fact]
+    public void GetDueOccurrence_ReturnsNull_AfterEndAt()
+    {
+        // Arrange
+        var config = new RecurrenceConfig
+        {
+            Frequency = RecurrenceFrequency.Interval,
+            IntervalHours = 1,
+            StartAt = Now.AddDays(-1),
+            EndAt = Now.AddMinutes(-1)
+        };
+
+        // Act & Assert
+        Assert.Null(RecurrenceScheduleHelper.GetDueOccurrence(config, Now, null));
+    }
+
+    #endregion
+
+    #region CreateDueChecklistsAsync Tests
+
+    [Fact]
+    public async Task CreateDueChecklistsAsync_CreatesChecklistWithPeriodAndPositions()
+    {
+        // Arrange
+        var template = await SeedTemplate(
+            "{\"frequency\":\"operationalPeriod\",\"assignedPositions\":[\"Safety Officer\",\"Operations Section Chief\"]}");
+        var evt = await SeedEvent();
+        var period = await SeedCurrentPeriod(evt.Id, "OP 3");
+
+        // Act
+        var created = await _service.CreateDueChecklistsAsync(Now);
+
+        // Assert
+        var checklist = Assert.Single(created);
+        Assert.Equal($"{template.Name} - OP 3", checklist.Name);
+        Assert.Equal(evt.Id, checklist.EventId);
+        Assert.Equal(period.Id, checklist.OperationalPeriodId);
+        Assert.Equal("Safety Officer,Operations Section Chief", checklist.AssignedPositions);
+        Assert.Equal(2, checklist.TotalItems);
+
+        var updatedTemplate = await _context.Templates.AsNoTracking().FirstAsync(t => t.Id == template.Id);
+        Assert.Equal(1, updatedTemplate.UsageCount);
+        Assert.Single(_context.RecurringChecklistRuns);
+    }
+
+    [Fact]
+    public async Task CreateDueChecklistsAsync_BroadcastsChecklistCreated()
+    {
+        // Arrange
+        await SeedTemplate("{\"frequency\":\"interval\",\"intervalHours\":12,\"startAt\":\"2025-11-20T00:00:00Z\"}");
+        await SeedEvent();
+
+        // Act
+        await _service.CreateDueChecklistsAsync(Now);
+
+        // Assert
+        _mockClientProxy.Verify(
+            p => p.SendCoreAsync("ChecklistCreated", It.IsAny<object?[]>(), It.IsAny<CancellationToken>()),
+            Times.Once);
+    }
+
+    [Fact]
+    public async Task CreateDueChecklistsAsync_CreatesEachOccurrenceOnce()
+    {
+        // Arrange
+        await SeedTemplate("{\"frequency\":\"interval\",\"intervalHours\":1,\"startAt\":\"2025-11-20T00:00:00Z\"}");
+        await SeedEvent();
+
+        // Act
+        var first = await _service.CreateDueChecklistsAsync(Now);
+        var sameSlot = await _service.CreateDueChecklistsAsync(Now.AddMinutes(10));
+        var nextSlot = await _service.CreateDueChecklistsAsync(Now.AddHours(1));
+
+        // Assert
+        Assert.Single(first);
+        Assert.Empty(sameSlot);
+        Assert.Single(nextSlot);
+        Assert.Equal(2, await _context.ChecklistInstances.CountAsync());
+    }
+
+    [Fact]
+    public async Task CreateDueChecklistsAsync_SkipsClosedEventsAndUnapprovedTemplates()
+    {
+        // Arrange
+        await SeedTemplate("{\"frequency\":\"interval\",\"intervalHours\":1}", TemplateApprovalStatus.Draft);
+        await SeedTemplate("{\"frequency\":\"interval\",\"intervalHours\":1}");
+        await SeedEvent(isActive: false);
+        await SeedEvent(isArchived: true);
+
+        // Act
+        var created = await _service.CreateDueChecklistsAsync(Now);
+
+        // Assert
+        Assert.Empty(created);
+    }
+
+    [Fact]
+    public async Task CreateDueChecklistsAsync_SkipsInvalidConfig()
+    {
+        // Arrange
+        await SeedTemplate("{\"frequency\":\"daily\"}");
+        await SeedEvent();
+
+        // Act
+        var created = await _service.CreateDueChecklistsAsync(Now);
+
+        // Assert
+        Assert.Empty(created);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private async Task<Template> SeedTemplate(
+        string recurrenceConfig,
+        TemplateApprovalStatus approvalStatus = TemplateApprovalStatus.Approved)
+    {
+        var template = new Template
+        {
+            Id = Guid.NewGuid(),
+            Name = "Shift Safety Check",
+            Category = "Safety",
+            TemplateType = TemplateType.Recurring,
+            RecurrenceConfig = recurrenceConfig,
+            ApprovalStatus = approvalStatus,
+            CreatedBy = "test@test.com",
+            CreatedByPosition = "Safety Officer"
+        };
+        template.Items.Add(new TemplateItem { Id = Guid.NewGuid(), ItemText = "Check PPE", ItemType = "checkbox", DisplayOrder = 10 });
+        template.Items.Add(new TemplateItem { Id = Guid.NewGuid(), ItemText = "Review hazards", ItemType = "checkbox", DisplayOrder = 20 });
+
+        _context.Templates.Add(template);
+        await _context.SaveChangesAsync();
+        return template;
+    }
+
+    private async Task<Event> SeedEvent(bool isActive = true, bool isArchived = false)
+    {
+        var evt = new Event
+        {
+            Id = Guid.NewGuid(),
+            Name = "Hurricane Test",
+            EventType = "Planned",
+            PrimaryCategoryId = Guid.NewGuid(),
+            IsActive = isActive,
+            IsArchived = isArchived,
+            CreatedBy = "test@test.com"
+        };
+
+        _context.Events.Add(evt);
+        await _context.SaveChangesAsync();
+        return evt;
+    }
+
+    private async Task<OperationalPeriod> SeedCurrentPeriod(Guid eventId, string name)
+    {
+        var period = new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            EventId = eventId,
+            Name = name,
+            StartTime = Now.AddHours(-1),
+            IsCurrent = true,
+            CreatedBy = "test@test.com"
+        };
+
+        _context.OperationalPeriods.Add(period);
+        await _context.SaveChangesAsync();
+        return period;
+    }
+
+    #endregion
+}
@@ -0,0 +1,247 @@
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for TemplateApprovalService
+/// Tests the Draft → PendingApproval → Approved/Rejected lifecycle,
+/// separation of duties, the approver queue and approval history
+/// </summary>
+public class TemplateApprovalServiceTests : IDisposable
+{
+    private readonly CobraDbContext _context;
+    private readonly TemplateService _templateService;
+    private readonly TemplateApprovalService _service;
+    private readonly UserContext _testUser;
+    private readonly UserContext _managerUser;
+
+    public TemplateApprovalServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _templateService = new TemplateService(_context, new Mock<ILogger<TemplateService>>().Object);
+        _service = new TemplateApprovalService(_context, new Mock<ILogger<TemplateApprovalService>>().Object);
+        _testUser = TestUserContextFactory.CreateTestUser();
+        _managerUser = TestUserContextFactory.CreateManagerUser();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Lifecycle Tests
+
+    [Fact]
+    public async Task CreateTemplateAsync_StartsAsDraft()
+    {
+        // Arrange & Act
+        var template = await CreateTemplate();
+
+        // Assert
+        Assert.Equal(TemplateApprovalStatus.Draft, template.ApprovalStatus);
+    }
+
+    [Fact]
+    public async Task SubmitForApprovalAsync_MovesToPendingApproval()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+
+        // Act
+        var result = await _service.SubmitForApprovalAsync(template.Id, "Ready for review", _testUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(TemplateApprovalStatus.PendingApproval, result.ApprovalStatus);
+        Assert.Equal(_testUser.Email, result.SubmittedBy);
+        Assert.NotNull(result.SubmittedAt);
+    }
+
+    [Fact]
+    public async Task SubmitForApprovalAsync_Throws_WhenAlreadyPending()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _service.SubmitForApprovalAsync(template.Id, null, _testUser));
+    }
+
+    [Fact]
+    public async Task SubmitForApprovalAsync_ReturnsNull_WhenTemplateNotFound()
+    {
+        // Act
+        var result = await _service.SubmitForApprovalAsync(Guid.NewGuid(), null, _testUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task ApproveAsync_MovesToApproved_AndRecordsReviewer()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+
+        // Act
+        var result = await _service.ApproveAsync(template.Id, "Looks good", _managerUser);
+
+        // Assert
+        Assert.NotNull(result);
+        Assert.Equal(TemplateApprovalStatus.Approved, result.ApprovalStatus);
+        Assert.Equal(_managerUser.Email, result.ReviewedBy);
+        Assert.Equal("Looks good", result.ReviewComment);
+    }
+
+    [Fact]
+    public async Task ApproveAsync_Throws_WhenReviewerSubmittedTemplate()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _managerUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<UnauthorizedAccessException>(
+            () => _service.ApproveAsync(template.Id, null, _managerUser));
+    }
+
+    [Fact]
+    public async Task ApproveAsync_Throws_WhenNotPending()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+
+        // Act & Assert
+        await Assert.ThrowsAsync<InvalidOperationException>(
+            () => _service.ApproveAsync(template.Id, null, _managerUser));
+    }
+
+    [Fact]
+    public async Task RejectAsync_RequiresComment()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+
+        // Act & Assert
+        await Assert.ThrowsAsync<ArgumentException>(
+            () => _service.RejectAsync(template.Id, "  ", _managerUser));
+    }
+
+    [Fact]
+    public async Task RejectAsync_MovesToRejected_AndAllowsResubmission()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+
+        // Act
+        var rejected = await _service.RejectAsync(template.Id, "Missing PPE check", _managerUser);
+        var resubmitted = await _service.SubmitForApprovalAsync(template.Id, "Added PPE check", _testUser);
+
+        // Assert
+        Assert.Equal(TemplateApprovalStatus.Rejected, rejected!.ApprovalStatus);
+        Assert.Equal("Missing PPE check", rejected.ReviewComment);
+        Assert.Equal(TemplateApprovalStatus.PendingApproval, resubmitted!.ApprovalStatus);
+    }
+
+    [Fact]
+    public async Task UpdateTemplateAsync_ReturnsApprovedTemplateToDraft()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+        await _service.ApproveAsync(template.Id, null, _managerUser);
+
+        // Act
+        var updated = await _templateService.UpdateTemplateAsync(template.Id, new UpdateTemplateRequest
+        {
+            Name = "Approval Template (edited)",
+            Category = "Safety",
+            IsActive = true,
+            Items = new List<CreateTemplateItemRequest>
+            {
+                new() { ItemText = "Item A", ItemType = "checkbox", DisplayOrder = 10 }
+            }
+        }, _testUser);
+        var history = await _service.GetApprovalHistoryAsync(template.Id);
+
+        // Assert
+        Assert.Equal(TemplateApprovalStatus.Draft, updated!.ApprovalStatus);
+        Assert.Equal(TemplateApprovalAction.ReturnedToDraft, history![0].Action);
+    }
+
+    #endregion
+
+    #region Queue and History Tests
+
+    [Fact]
+    public async Task GetPendingTemplatesAsync_ReturnsOnlyPendingTemplates()
+    {
+        // Arrange
+        var pending = await CreateTemplate("Pending Template");
+        await CreateTemplate("Draft Template");
+        await _service.SubmitForApprovalAsync(pending.Id, null, _testUser);
+
+        // Act
+        var result = await _service.GetPendingTemplatesAsync();
+
+        // Assert
+        var template = Assert.Single(result);
+        Assert.Equal(pending.Id, template.Id);
+    }
+
+    [Fact]
+    public async Task GetApprovalHistoryAsync_ReturnsNewestFirst()
+    {
+        // Arrange
+        var template = await CreateTemplate();
+        await _service.SubmitForApprovalAsync(template.Id, null, _testUser);
+        await _service.RejectAsync(template.Id, "Needs more detail", _managerUser);
+
+        // Act
+        var history = await _service.GetApprovalHistoryAsync(template.Id);
+
+        // Assert
+        Assert.NotNull(history);
+        Assert.Equal(
+            new[] { TemplateApprovalAction.Rejected, TemplateApprovalAction.Submitted },
+            history.Select(h => h.Action));
+        Assert.Equal(_managerUser.Email, history[0].PerformedBy);
+        Assert.Equal("Needs more detail", history[0].Comment);
+    }
+
+    [Fact]
+    public async Task GetApprovalHistoryAsync_ReturnsNull_WhenTemplateNotFound()
+    {
+        // Act
+        var history = await _service.GetApprovalHistoryAsync(Guid.NewGuid());
+
+        // Assert
+        Assert.Null(history);
+    }
+
+    #endregion
+
+    #region Helpers
+
+    private async Task<TemplateDto> CreateTemplate(string name = "Approval Template")
+    {
+        return await _templateService.CreateTemplateAsync(new CreateTemplateRequest
+        {
+            Name = name,
+            Category = "Safety",
+            Items = new List<CreateTemplateItemRequest>
+            {
+                new() { ItemText = "Item A", ItemType = "checkbox", DisplayOrder = 10 }
+            }
+        }, _testUser);
+    }
+
+    #endregion
+}
@@ -372,6 +372,62 @@ public class TemplateServiceTests : IDisposable
         Assert.Equal("Third", result.Items[2].ItemText);
     }
 
+    [Fact]
+    public async Task CreateTemplateAsync_CopiesItemRequirementPositionsAndNotes()
+    {
+        // Arrange
+        var request = new CreateTemplateRequest
+        {
+            Name = "Imported Template",
+            Category = "Safety",
+            Items = new List<CreateTemplateItemRequest>
+            {
+                new CreateTemplateItemRequest
+                {
+                    ItemText = "Brief safety officer",
+                    ItemType = "checkbox",
+                    DisplayOrder = 1,
+                    IsRequired = true,
+                    AllowedPositions = "[\"Safety Officer\"]",
+                    DefaultNotes = "Record briefing time"
+                }
+            }
+        };
+
+        // Act
+        var result = await _service.CreateTemplateAsync(request, _testUser);
+
+        // Assert
+        var item = Assert.Single(result.Items);
+        Assert.True(item.IsRequired);
+        Assert.Equal("[\"Safety Officer\"]", item.AllowedPositions);
+        Assert.Equal("Record briefing time", item.DefaultNotes);
+    }
+
+    [Fact]
+    public async Task CreateTemplateAsync_KeepsItemSections_AndTreatsBlankAsNone()
+    {
+        // Arrange
+        var request = new CreateTemplateRequest
+        {
+            Name = "Sectioned Template",
+            Category = "Safety",
+            Items = new List<CreateTemplateItemRequest>
+            {
+                new CreateTemplateItemRequest { ItemText = "Establish ICP", ItemType = "checkbox", DisplayOrder = 10, SectionName = "  Initial Response " },
+                new CreateTemplateItemRequest { ItemText = "Brief staff", ItemType = "checkbox", DisplayOrder = 20, SectionName = "   " }
+            }
+        };
+
+        // Act
+        var result = await _service.CreateTemplateAsync(request, _testUser);
+
+        // Assert
+        var items = result.Items.OrderBy(i => i.DisplayOrder).ToList();
+        Assert.Equal("Initial Response", items[0].SectionName);
+        Assert.Null(items[1].SectionName);
+    }
+
     [Fact]
     public async Task CreateTemplateAsync_PersistsToDatabase()
     {
@@ -0,0 +1,236 @@
+using Microsoft.Extensions.Logging;
+using Moq;
+using Xunit;
+
+namespace CobraAPI.Tests.Checklist.Services;
+
+/// <summary>
+/// Unit tests for TemplateVersionService
+/// Tests version recording on save, history listing, snapshots and restore
+/// </summary>
+public class TemplateVersionServiceTests : IDisposable
+{
+    private readonly CobraDbContext _context;
+    private readonly TemplateService _templateService;
+    private readonly TemplateVersionService _service;
+    private readonly UserContext _testUser;
+    private readonly UserContext _managerUser;
+
+    public TemplateVersionServiceTests()
+    {
+        _context = TestDbContextFactory.CreateInMemoryContext();
+        _templateService = new TemplateService(_context, new Mock<ILogger<TemplateService>>().Object);
+        _service = new TemplateVersionService(_context, new Mock<ILogger<TemplateVersionService>>().Object);
+        _testUser = TestUserContextFactory.CreateTestUser();
+        _managerUser = TestUserContextFactory.CreateManagerUser();
+    }
+
+    public void Dispose()
+    {
+        _context.Dispose();
+    }
+
+    #region Version Recording Tests
+
+    [Fact]
+    public async Task CreateTemplateAsync_RecordsVersionOne()
+    {
+        // Arrange & Act
+        var template = await CreateTemplate("Item A", "Item B");
+        var versions = await _service.GetVersionsAsync(template.Id);
+
+        // Assert
+        Assert.Equal(1, template.CurrentVersion);
+        Assert.NotNull(versions);
+        var version = Assert.Single(versions);
+        Assert.Equal(1, version.VersionNumber);
+        Assert.Equal(2, version.ItemCount);
+        Assert.Equal(_testUser.Email, version.CreatedBy);
+    }
+
+    [Fact]
+    public async Task UpdateTemplateAsync_RecordsNewVersion()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A");
+
+        // Act
+        var updated = await UpdateTemplate(template.Id, "Item A", "Item B");
+        var versions = await _service.GetVersionsAsync(template.Id);
+
+        // Assert
+        Assert.Equal(2, updated!.CurrentVersion);
+        Assert.NotNull(versions);
+        Assert.Equal(new[] { 2, 1 }, versions.Select(v => v.VersionNumber)); // Newest first
+        Assert.Equal(_managerUser.Email, versions[0].CreatedBy);
+    }
+
+    [Fact]
+    public async Task UpdateTemplateAsync_RecordsBaseline_ForTemplateWithoutHistory()
+    {
+        // Arrange - template saved before versioning existed
+        var templateId = Guid.NewGuid();
+        var template = new Template
+        {
+            Id = templateId,
+            Name = "Legacy Template",
+            Category = "Safety",
+            IsActive = true,
+            CreatedBy = "legacy@test.com",
+            CreatedByPosition = "Safety Officer"
+        };
+        template.Items.Add(new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = templateId,
+            ItemText = "Legacy Item",
+            ItemType = "checkbox",
+            DisplayOrder = 1
+        });
+        await _context.Templates.AddAsync(template);
+        await _context.SaveChangesAsync();
+
+        // Act
+        await UpdateTemplate(templateId, "New Item");
+        var baseline = await _service.GetVersionAsync(templateId, 1);
+
+        // Assert
+        Assert.NotNull(baseline);
+        Assert.Equal("legacy@test.com", baseline.CreatedBy);
+        Assert.Equal("Legacy Item", Assert.Single(baseline.Template!.Items).ItemText);
+    }
+
+    #endregion
+
+    #region GetVersionsAsync Tests
+
+    [Fact]
+    public async Task GetVersionsAsync_ReturnsNull_WhenTemplateNotFound()
+    {
+        // Act
+        var result = await _service.GetVersionsAsync(Guid.NewGuid());
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    [Fact]
+    public async Task GetVersionsAsync_OmitsSnapshots()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A");
+
+        // Act
+        var versions = await _service.GetVersionsAsync(template.Id);
+
+        // Assert
+        Assert.All(versions!, v => Assert.Null(v.Template));
+    }
+
+    #endregion
+
+    #region GetVersionAsync Tests
+
+    [Fact]
+    public async Task GetVersionAsync_ReturnsSnapshotAsSaved()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A", "Item B");
+        await UpdateTemplate(template.Id, "Item C");
+
+        // Act
+        var version = await _service.GetVersionAsync(template.Id, 1);
+
+        // Assert
+        Assert.NotNull(version);
+        Assert.NotNull(version.Template);
+        Assert.Equal(new[] { "Item A", "Item B" }, version.Template.Items.Select(i => i.ItemText));
+    }
+
+    [Fact]
+    public async Task GetVersionAsync_ReturnsNull_WhenVersionNotFound()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A");
+
+        // Act
+        var result = await _service.GetVersionAsync(template.Id, 99);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region RestoreVersionAsync Tests
+
+    [Fact]
+    public async Task RestoreVersionAsync_RestoresContentAsNewVersion()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A", "Item B");
+        await UpdateTemplate(template.Id, "Bad Edit");
+
+        // Act
+        var restored = await _service.RestoreVersionAsync(template.Id, 1, _managerUser);
+        var versions = await _service.GetVersionsAsync(template.Id);
+
+        // Assert
+        Assert.NotNull(restored);
+        Assert.Equal(3, restored.CurrentVersion);
+        Assert.Equal(new[] { "Item A", "Item B" }, restored.Items.Select(i => i.ItemText));
+        Assert.Equal(3, versions!.Count); // History is kept, not rewritten
+        Assert.Equal(1, versions[0].RestoredFromVersion);
+        Assert.Equal(_managerUser.Email, restored.LastModifiedBy);
+    }
+
+    [Fact]
+    public async Task RestoreVersionAsync_ReturnsNull_WhenVersionNotFound()
+    {
+        // Arrange
+        var template = await CreateTemplate("Item A");
+
+        // Act
+        var result = await _service.RestoreVersionAsync(template.Id, 5, _managerUser);
+
+        // Assert
+        Assert.Null(result);
+    }
+
+    #endregion
+
+    #region Helper Methods
+
+    private async Task<TemplateDto> CreateTemplate(params string[] itemTexts)
+    {
+        return await _templateService.CreateTemplateAsync(new CreateTemplateRequest
+        {
+            Name = "Versioned Template",
+            Category = "Safety",
+            Items = itemTexts.Select((text, index) => new CreateTemplateItemRequest
+            {
+                ItemText = text,
+                ItemType = "checkbox",
+                DisplayOrder = (index + 1) * 10
+            }).ToList()
+        }, _testUser);
+    }
+
+    private async Task<TemplateDto?> UpdateTemplate(Guid templateId, params string[] itemTexts)
+    {
+        return await _templateService.UpdateTemplateAsync(templateId, new UpdateTemplateRequest
+        {
+            Name = "Versioned Template",
+            Category = "Safety",
+            IsActive = true,
+            Items = itemTexts.Select((text, index) => new CreateTemplateItemRequest
+            {
+                ItemText = text,
+                ItemType = "checkbox",
+                DisplayOrder = (index + 1) * 10
+            }).ToList()
+        }, _managerUser);
+    }
+
+    #endregion
+}
@@ -103,4 +103,8 @@ public static class SystemSettingKeys
 
     // System settings
     public const string SystemMaintenanceMode = "System.MaintenanceMode";
+
+    // Checklist settings
+    public const string ChecklistAttachmentMaxSizeMb = "Checklist.AttachmentMaxSizeMb";
+    public const string ChecklistAttachmentAllowedTypes = "Checklist.AttachmentAllowedTypes";
 }
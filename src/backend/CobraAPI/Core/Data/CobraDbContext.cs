@@ -11,8 +11,15 @@ public class CobraDbContext : DbContext
     
     public DbSet<Template> Templates { get; set; }
     public DbSet<TemplateItem> TemplateItems { get; set; }
+    public DbSet<TemplateVersion> TemplateVersions { get; set; }
+    public DbSet<TemplateApprovalEvent> TemplateApprovalEvents { get; set; }
+    public DbSet<RecurringChecklistRun> RecurringChecklistRuns { get; set; }
     public DbSet<ChecklistInstance> ChecklistInstances { get; set; }
     public DbSet<ChecklistItem> ChecklistItems { get; set; }
+    public DbSet<ChecklistItemAttachment> ChecklistItemAttachments { get; set; }
+    public DbSet<ChecklistItemNote> ChecklistItemNotes { get; set; }
+    public DbSet<ChecklistItemHistoryEntry> ChecklistItemHistoryEntries { get; set; }
+    public DbSet<ChecklistHistoryEntry> ChecklistHistoryEntries { get; set; }
     public DbSet<OperationalPeriod> OperationalPeriods { get; set; }
     public DbSet<ItemLibraryEntry> ItemLibraryEntries { get; set; }
     public DbSet<Event> Events { get; set; }
@@ -50,6 +57,13 @@ public class CobraDbContext : DbContext
             entity.HasIndex(e => new { e.IsActive, e.IsArchived });
             entity.HasIndex(e => e.UsageCount); // For sorting by popularity in suggestions
             entity.HasIndex(e => e.LastUsedAt); // For recent template suggestions
+            entity.HasIndex(e => e.ApprovalStatus); // For the approver queue
+
+            entity.Property(e => e.SubmittedBy).HasMaxLength(200);
+            entity.Property(e => e.SubmittedByPosition).HasMaxLength(100);
+            entity.Property(e => e.ReviewedBy).HasMaxLength(200);
+            entity.Property(e => e.ReviewedByPosition).HasMaxLength(100);
+            entity.Property(e => e.ReviewComment).HasMaxLength(2000);
         });
         
         // TemplateItem configuration
@@ -63,10 +77,68 @@ public class CobraDbContext : DbContext
             if (Database.IsRelational())
             {
                 entity.Property(e => e.StatusConfiguration).HasColumnType("nvarchar(max)");
+                entity.Property(e => e.ValueConfiguration).HasColumnType("nvarchar(max)");
             }
 
+            entity.Property(e => e.SectionName).HasMaxLength(200);
+
             entity.HasIndex(e => new { e.TemplateId, e.DisplayOrder });
         });
+
+        // TemplateVersion configuration
+        modelBuilder.Entity<TemplateVersion>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.CreatedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.CreatedByPosition).HasMaxLength(100);
+
+            // Only configure column type for relational databases (not in-memory)
+            if (Database.IsRelational())
+            {
+                entity.Property(e => e.Snapshot).HasColumnType("nvarchar(max)");
+            }
+
+            // Versions are deleted with the template
+            entity.HasOne(e => e.Template)
+                .WithMany(t => t.Versions)
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.TemplateId, e.VersionNumber }).IsUnique();
+        });
+
+        // TemplateApprovalEvent configuration
+        modelBuilder.Entity<TemplateApprovalEvent>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.Comment).HasMaxLength(2000);
+            entity.Property(e => e.PerformedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.PerformedByPosition).HasMaxLength(100);
+
+            // History is deleted with the template
+            entity.HasOne(e => e.Template)
+                .WithMany(t => t.ApprovalEvents)
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.TemplateId, e.PerformedAt });
+        });
+
+        // RecurringChecklistRun configuration
+        modelBuilder.Entity<RecurringChecklistRun>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.OccurrenceKey).IsRequired().HasMaxLength(100);
+
+            // Runs are deleted with the template
+            entity.HasOne(e => e.Template)
+                .WithMany()
+                .HasForeignKey(e => e.TemplateId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            // Guards against creating the same occurrence twice
+            entity.HasIndex(e => new { e.TemplateId, e.EventId, e.OccurrenceKey }).IsUnique();
+        });
         
         // ChecklistInstance configuration
         modelBuilder.Entity<ChecklistInstance>(entity =>
@@ -95,6 +167,12 @@ public class CobraDbContext : DbContext
             entity.HasIndex(e => e.EventId);
             entity.HasIndex(e => e.OperationalPeriodId);
             entity.HasIndex(e => e.IsArchived);
+
+            entity.Property(e => e.SubmittedForSignOffBy).HasMaxLength(200);
+            entity.Property(e => e.SubmittedForSignOffByPosition).HasMaxLength(100);
+            entity.Property(e => e.SignedOffBy).HasMaxLength(200);
+            entity.Property(e => e.SignedOffByName).HasMaxLength(200);
+            entity.Property(e => e.SignedOffByPosition).HasMaxLength(100);
         });
         
         // ChecklistItem configuration
@@ -108,12 +186,91 @@ public class CobraDbContext : DbContext
             if (Database.IsRelational())
             {
                 entity.Property(e => e.StatusConfiguration).HasColumnType("nvarchar(max)");
+                entity.Property(e => e.ValueConfiguration).HasColumnType("nvarchar(max)");
             }
 
-            entity.Property(e => e.Notes).HasMaxLength(2000);
+            entity.Property(e => e.Value).HasMaxLength(1000);
+            entity.Property(e => e.SectionName).HasMaxLength(200);
+
+            // Items removed from a live checklist are soft-deleted; bypass with IgnoreQueryFilters()
+            entity.HasQueryFilter(e => !e.IsDeleted);
 
             entity.HasIndex(e => new { e.ChecklistInstanceId, e.DisplayOrder });
             entity.HasIndex(e => e.LastModifiedAt);
+            entity.HasIndex(e => new { e.DueAt, e.OverdueNotifiedAt }); // For the overdue monitor
+        });
+
+        // ChecklistItemAttachment configuration
+        modelBuilder.Entity<ChecklistItemAttachment>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.FileName).IsRequired().HasMaxLength(255);
+            entity.Property(e => e.ContentType).IsRequired().HasMaxLength(100);
+            entity.Property(e => e.StorageKey).IsRequired().HasMaxLength(500);
+            entity.Property(e => e.UploadedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.UploadedByPosition).HasMaxLength(100);
+
+            // Attachment rows are deleted with the item (files are removed by the service)
+            entity.HasOne(e => e.ChecklistItem)
+                .WithMany()
+                .HasForeignKey(e => e.ChecklistItemId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.ChecklistItemId, e.UploadedAt });
+        });
+
+        // ChecklistItemNote configuration
+        modelBuilder.Entity<ChecklistItemNote>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.NoteText).IsRequired().HasMaxLength(2000);
+            entity.Property(e => e.CreatedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.CreatedByPosition).HasMaxLength(100);
+            entity.Property(e => e.EditedBy).HasMaxLength(200);
+
+            entity.HasOne(e => e.ChecklistItem)
+                .WithMany(i => i.Notes)
+                .HasForeignKey(e => e.ChecklistItemId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.ChecklistItemId, e.CreatedAt });
+        });
+
+        // ChecklistItemHistoryEntry configuration
+        modelBuilder.Entity<ChecklistItemHistoryEntry>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.PreviousValue).HasMaxLength(2000);
+            entity.Property(e => e.NewValue).HasMaxLength(2000);
+            entity.Property(e => e.ChangedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.ChangedByPosition).HasMaxLength(100);
+
+            // History is deleted with the item
+            entity.HasOne(e => e.ChecklistItem)
+                .WithMany(i => i.History)
+                .HasForeignKey(e => e.ChecklistItemId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.ChecklistItemId, e.ChangedAt });
+            entity.HasIndex(e => new { e.ChecklistInstanceId, e.ChangedAt });
+        });
+
+        // ChecklistHistoryEntry configuration
+        modelBuilder.Entity<ChecklistHistoryEntry>(entity =>
+        {
+            entity.HasKey(e => e.Id);
+            entity.Property(e => e.PreviousValue).HasMaxLength(500);
+            entity.Property(e => e.NewValue).HasMaxLength(500);
+            entity.Property(e => e.ChangedBy).IsRequired().HasMaxLength(200);
+            entity.Property(e => e.ChangedByPosition).HasMaxLength(100);
+
+            // History is deleted with the checklist
+            entity.HasOne(e => e.ChecklistInstance)
+                .WithMany(c => c.History)
+                .HasForeignKey(e => e.ChecklistInstanceId)
+                .OnDelete(DeleteBehavior.Cascade);
+
+            entity.HasIndex(e => new { e.ChecklistInstanceId, e.ChangedAt });
         });
 
         // OperationalPeriod configuration
@@ -123,6 +280,7 @@ public class CobraDbContext : DbContext
             entity.Property(e => e.Name).IsRequired().HasMaxLength(200);
             entity.Property(e => e.StartTime).IsRequired();
             entity.Property(e => e.Description).HasMaxLength(1000);
+            entity.Property(e => e.Objectives).HasMaxLength(4000);
 
             // FK to Event - Cascade delete (periods deleted with event)
             entity.HasOne(e => e.Event)
@@ -148,6 +306,7 @@ public class CobraDbContext : DbContext
             if (Database.IsRelational())
             {
                 entity.Property(e => e.StatusConfiguration).HasColumnType("nvarchar(max)");
+                entity.Property(e => e.ValueConfiguration).HasColumnType("nvarchar(max)");
                 entity.Property(e => e.AllowedPositions).HasColumnType("nvarchar(max)");
                 entity.Property(e => e.DefaultNotes).HasColumnType("nvarchar(max)");
                 entity.Property(e => e.Tags).HasColumnType("nvarchar(max)");
@@ -0,0 +1,18 @@
+namespace CobraAPI.Core.Models.Configuration;
+
+/// <summary>
+/// Where checklist item attachments are stored.
+/// Loaded from appsettings.json AttachmentStorage section.
+/// The POC keeps files on local disk; a blob store can replace
+/// LocalDiskAttachmentStorage without changing callers.
+/// </summary>
+public class AttachmentStorageSettings
+{
+    public const string SectionName = "AttachmentStorage";
+
+    /// <summary>
+    /// Folder for attachment files. Relative paths are resolved against the
+    /// application's content root.
+    /// </summary>
+    public string RootPath { get; set; } = "App_Data/attachments";
+}
@@ -8,6 +8,7 @@
 using Microsoft.EntityFrameworkCore;
 using Microsoft.Extensions.Logging;
 using CobraAPI.Core.Data;
+using CobraAPI.Tools.Checklist.Services.Helpers;
 
 namespace CobraAPI.Core.Services;
 
@@ -263,6 +264,38 @@ public class SystemSettingsService : ISystemSettingsService
                 ModifiedBy = modifiedBy,
                 ModifiedAt = DateTime.UtcNow,
                 CreatedAt = DateTime.UtcNow
+            },
+
+            // Checklist item attachment limits
+            new SystemSetting
+            {
+                Id = Guid.NewGuid(),
+                Key = SystemSettingKeys.ChecklistAttachmentMaxSizeMb,
+                Value = AttachmentHelper.DefaultMaxSizeMb.ToString(),
+                Category = SettingCategory.System,
+                DisplayName = "Attachment Size Limit (MB)",
+                Description = "Largest file that can be attached to a checklist item, in megabytes.",
+                IsSecret = false,
+                IsEnabled = true,
+                SortOrder = 10,
+                ModifiedBy = modifiedBy,
+                ModifiedAt = DateTime.UtcNow,
+                CreatedAt = DateTime.UtcNow
+            },
+            new SystemSetting
+            {
+                Id = Guid.NewGuid(),
+                Key = SystemSettingKeys.ChecklistAttachmentAllowedTypes,
+                Value = AttachmentHelper.DefaultAllowedTypes,
+                Category = SettingCategory.System,
+                DisplayName = "Allowed Attachment Types",
+                Description = "Comma-separated MIME types that can be attached to checklist items. Use image/* to allow all images.",
+                IsSecret = false,
+                IsEnabled = true,
+                SortOrder = 11,
+                ModifiedBy = modifiedBy,
+                ModifiedAt = DateTime.UtcNow,
+                CreatedAt = DateTime.UtcNow
             }
         };
 
@@ -0,0 +1,124 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddTemplateApprovalWorkflow : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Existing templates are already in use, so they start out Approved (2)
+            migrationBuilder.AddColumn<int>(
+                name: "ApprovalStatus",
+                table: "Templates",
+                type: "int",
+                nullable: false,
+                defaultValue: 2);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubmittedBy",
+                table: "Templates",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubmittedByPosition",
+                table: "Templates",
+                type: "nvarchar(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SubmittedAt",
+                table: "Templates",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReviewedBy",
+                table: "Templates",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReviewedByPosition",
+                table: "Templates",
+                type: "nvarchar(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "ReviewedAt",
+                table: "Templates",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ReviewComment",
+                table: "Templates",
+                type: "nvarchar(2000)",
+                maxLength: 2000,
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_Templates_ApprovalStatus",
+                table: "Templates",
+                column: "ApprovalStatus");
+
+            migrationBuilder.CreateTable(
+                name: "TemplateApprovalEvents",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    TemplateId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    Action = table.Column<int>(type: "int", nullable: false),
+                    Comment = table.Column<string>(type: "nvarchar(2000)", maxLength: 2000, nullable: true),
+                    TemplateVersion = table.Column<int>(type: "int", nullable: false),
+                    PerformedBy = table.Column<string>(type: "nvarchar(200)", maxLength: 200, nullable: false),
+                    PerformedByPosition = table.Column<string>(type: "nvarchar(100)", maxLength: 100, nullable: false),
+                    PerformedAt = table.Column<DateTime>(type: "datetime2", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_TemplateApprovalEvents", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_TemplateApprovalEvents_Templates_TemplateId",
+                        column: x => x.TemplateId,
+                        principalTable: "Templates",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_TemplateApprovalEvents_TemplateId_PerformedAt",
+                table: "TemplateApprovalEvents",
+                columns: new[] { "TemplateId", "PerformedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "TemplateApprovalEvents");
+
+            migrationBuilder.DropIndex(
+                name: "IX_Templates_ApprovalStatus",
+                table: "Templates");
+
+            migrationBuilder.DropColumn(name: "ApprovalStatus", table: "Templates");
+            migrationBuilder.DropColumn(name: "SubmittedBy", table: "Templates");
+            migrationBuilder.DropColumn(name: "SubmittedByPosition", table: "Templates");
+            migrationBuilder.DropColumn(name: "SubmittedAt", table: "Templates");
+            migrationBuilder.DropColumn(name: "ReviewedBy", table: "Templates");
+            migrationBuilder.DropColumn(name: "ReviewedByPosition", table: "Templates");
+            migrationBuilder.DropColumn(name: "ReviewedAt", table: "Templates");
+            migrationBuilder.DropColumn(name: "ReviewComment", table: "Templates");
+        }
+    }
+}
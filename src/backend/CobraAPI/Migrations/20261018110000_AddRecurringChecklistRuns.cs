@@ -0,0 +1,52 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddRecurringChecklistRuns : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "RecurringChecklistRuns",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    TemplateId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    EventId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    OperationalPeriodId = table.Column<Guid>(type: "uniqueidentifier", nullable: true),
+                    OccurrenceKey = table.Column<string>(type: "nvarchar(100)", maxLength: 100, nullable: false),
+                    ScheduledFor = table.Column<DateTime>(type: "datetime2", nullable: false),
+                    ChecklistInstanceId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "datetime2", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_RecurringChecklistRuns", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_RecurringChecklistRuns_Templates_TemplateId",
+                        column: x => x.TemplateId,
+                        principalTable: "Templates",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_RecurringChecklistRuns_TemplateId_EventId_OccurrenceKey",
+                table: "RecurringChecklistRuns",
+                columns: new[] { "TemplateId", "EventId", "OccurrenceKey" },
+                unique: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "RecurringChecklistRuns");
+        }
+    }
+}
@@ -0,0 +1,90 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddItemDueTimes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<int>(
+                name: "DueOffsetMinutes",
+                table: "TemplateItems",
+                type: "int",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DueRelativeTo",
+                table: "TemplateItems",
+                type: "int",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DueOffsetMinutes",
+                table: "ChecklistItems",
+                type: "int",
+                nullable: true);
+
+            migrationBuilder.AddColumn<int>(
+                name: "DueRelativeTo",
+                table: "ChecklistItems",
+                type: "int",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DueAt",
+                table: "ChecklistItems",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "OverdueNotifiedAt",
+                table: "ChecklistItems",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChecklistItems_DueAt_OverdueNotifiedAt",
+                table: "ChecklistItems",
+                columns: new[] { "DueAt", "OverdueNotifiedAt" });
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropIndex(
+                name: "IX_ChecklistItems_DueAt_OverdueNotifiedAt",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DueOffsetMinutes",
+                table: "TemplateItems");
+
+            migrationBuilder.DropColumn(
+                name: "DueRelativeTo",
+                table: "TemplateItems");
+
+            migrationBuilder.DropColumn(
+                name: "DueOffsetMinutes",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DueRelativeTo",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DueAt",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "OverdueNotifiedAt",
+                table: "ChecklistItems");
+        }
+    }
+}
@@ -0,0 +1,59 @@
+﻿using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddItemValueTypes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "ValueConfiguration",
+                table: "TemplateItems",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ValueConfiguration",
+                table: "ItemLibraryEntries",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "ValueConfiguration",
+                table: "ChecklistItems",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "Value",
+                table: "ChecklistItems",
+                type: "nvarchar(1000)",
+                maxLength: 1000,
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "ValueConfiguration",
+                table: "TemplateItems");
+
+            migrationBuilder.DropColumn(
+                name: "ValueConfiguration",
+                table: "ItemLibraryEntries");
+
+            migrationBuilder.DropColumn(
+                name: "ValueConfiguration",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "Value",
+                table: "ChecklistItems");
+        }
+    }
+}
@@ -0,0 +1,84 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddThreadedItemNotes : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "ChecklistItemNotes",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    ChecklistInstanceId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    ChecklistItemId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    NoteText = table.Column<string>(type: "nvarchar(2000)", maxLength: 2000, nullable: false),
+                    CreatedBy = table.Column<string>(type: "nvarchar(200)", maxLength: 200, nullable: false),
+                    CreatedByPosition = table.Column<string>(type: "nvarchar(100)", maxLength: 100, nullable: false),
+                    CreatedAt = table.Column<DateTime>(type: "datetime2", nullable: false),
+                    EditedBy = table.Column<string>(type: "nvarchar(200)", maxLength: 200, nullable: true),
+                    EditedAt = table.Column<DateTime>(type: "datetime2", nullable: true)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ChecklistItemNotes", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_ChecklistItemNotes_ChecklistItems_ChecklistItemId",
+                        column: x => x.ChecklistItemId,
+                        principalTable: "ChecklistItems",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChecklistItemNotes_ChecklistItemId_CreatedAt",
+                table: "ChecklistItemNotes",
+                columns: new[] { "ChecklistItemId", "CreatedAt" });
+
+            // Existing single notes become the first note of each thread, attributed
+            // to the item's last editor
+            migrationBuilder.Sql(@"
+                INSERT INTO ChecklistItemNotes (Id, ChecklistInstanceId, ChecklistItemId, NoteText, CreatedBy, CreatedByPosition, CreatedAt)
+                SELECT NEWID(), ChecklistInstanceId, Id, Notes,
+                       COALESCE(LastModifiedBy, CompletedBy, 'unknown'),
+                       COALESCE(LastModifiedByPosition, CompletedByPosition, ''),
+                       COALESCE(LastModifiedAt, CreatedAt)
+                FROM ChecklistItems
+                WHERE Notes IS NOT NULL AND LTRIM(RTRIM(Notes)) <> ''");
+
+            migrationBuilder.DropColumn(
+                name: "Notes",
+                table: "ChecklistItems");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<string>(
+                name: "Notes",
+                table: "ChecklistItems",
+                type: "nvarchar(2000)",
+                maxLength: 2000,
+                nullable: true);
+
+            // Keep the most recent note of each thread
+            migrationBuilder.Sql(@"
+                UPDATE i SET Notes = n.NoteText
+                FROM ChecklistItems i
+                CROSS APPLY (
+                    SELECT TOP 1 NoteText FROM ChecklistItemNotes
+                    WHERE ChecklistItemId = i.Id
+                    ORDER BY CreatedAt DESC
+                ) n");
+
+            migrationBuilder.DropTable(
+                name: "ChecklistItemNotes");
+        }
+    }
+}
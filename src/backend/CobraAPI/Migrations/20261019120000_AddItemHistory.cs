@@ -0,0 +1,72 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddItemHistory : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.CreateTable(
+                name: "ChecklistItemHistoryEntries",
+                columns: table => new
+                {
+                    Id = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    ChecklistInstanceId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    ChecklistItemId = table.Column<Guid>(type: "uniqueidentifier", nullable: false),
+                    Action = table.Column<int>(type: "int", nullable: false),
+                    PreviousValue = table.Column<string>(type: "nvarchar(2000)", maxLength: 2000, nullable: true),
+                    NewValue = table.Column<string>(type: "nvarchar(2000)", maxLength: 2000, nullable: true),
+                    ChangedBy = table.Column<string>(type: "nvarchar(200)", maxLength: 200, nullable: false),
+                    ChangedByPosition = table.Column<string>(type: "nvarchar(100)", maxLength: 100, nullable: false),
+                    ChangedAt = table.Column<DateTime>(type: "datetime2", nullable: false)
+                },
+                constraints: table =>
+                {
+                    table.PrimaryKey("PK_ChecklistItemHistoryEntries", x => x.Id);
+                    table.ForeignKey(
+                        name: "FK_ChecklistItemHistoryEntries_ChecklistItems_ChecklistItemId",
+                        column: x => x.ChecklistItemId,
+                        principalTable: "ChecklistItems",
+                        principalColumn: "Id",
+                        onDelete: ReferentialAction.Cascade);
+                });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChecklistItemHistoryEntries_ChecklistInstanceId_ChangedAt",
+                table: "ChecklistItemHistoryEntries",
+                columns: new[] { "ChecklistInstanceId", "ChangedAt" });
+
+            migrationBuilder.CreateIndex(
+                name: "IX_ChecklistItemHistoryEntries_ChecklistItemId_ChangedAt",
+                table: "ChecklistItemHistoryEntries",
+                columns: new[] { "ChecklistItemId", "ChangedAt" });
+
+            // Seed history from what existing items already record: the current
+            // completion (Action 0 = Completed) and each note (Action 4 = NoteAdded)
+            migrationBuilder.Sql(@"
+                INSERT INTO ChecklistItemHistoryEntries (Id, ChecklistInstanceId, ChecklistItemId, Action, PreviousValue, NewValue, ChangedBy, ChangedByPosition, ChangedAt)
+                SELECT NEWID(), ChecklistInstanceId, Id, 0, NULL, NULL,
+                       CompletedBy, COALESCE(CompletedByPosition, ''), CompletedAt
+                FROM ChecklistItems
+                WHERE IsCompleted = 1 AND CompletedBy IS NOT NULL AND CompletedAt IS NOT NULL");
+
+            migrationBuilder.Sql(@"
+                INSERT INTO ChecklistItemHistoryEntries (Id, ChecklistInstanceId, ChecklistItemId, Action, PreviousValue, NewValue, ChangedBy, ChangedByPosition, ChangedAt)
+                SELECT NEWID(), ChecklistInstanceId, ChecklistItemId, 4, NULL, NoteText,
+                       CreatedBy, CreatedByPosition, CreatedAt
+                FROM ChecklistItemNotes");
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropTable(
+                name: "ChecklistItemHistoryEntries");
+        }
+    }
+}
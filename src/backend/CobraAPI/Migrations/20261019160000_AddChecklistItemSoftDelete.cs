@@ -0,0 +1,60 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddChecklistItemSoftDelete : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.AddColumn<bool>(
+                name: "IsDeleted",
+                table: "ChecklistItems",
+                type: "bit",
+                nullable: false,
+                defaultValue: false);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DeletedBy",
+                table: "ChecklistItems",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "DeletedByPosition",
+                table: "ChecklistItems",
+                type: "nvarchar(max)",
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "DeletedAt",
+                table: "ChecklistItems",
+                type: "datetime2",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(
+                name: "IsDeleted",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedBy",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedByPosition",
+                table: "ChecklistItems");
+
+            migrationBuilder.DropColumn(
+                name: "DeletedAt",
+                table: "ChecklistItems");
+        }
+    }
+}
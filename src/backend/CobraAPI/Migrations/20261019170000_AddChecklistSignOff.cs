@@ -0,0 +1,90 @@
+﻿using System;
+using Microsoft.EntityFrameworkCore.Migrations;
+
+#nullable disable
+
+namespace CobraAPI.Migrations
+{
+    /// <inheritdoc />
+    public partial class AddChecklistSignOff : Migration
+    {
+        /// <inheritdoc />
+        protected override void Up(MigrationBuilder migrationBuilder)
+        {
+            // Existing checklists start out Open (0)
+            migrationBuilder.AddColumn<int>(
+                name: "SignOffStatus",
+                table: "ChecklistInstances",
+                type: "int",
+                nullable: false,
+                defaultValue: 0);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubmittedForSignOffBy",
+                table: "ChecklistInstances",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SubmittedForSignOffByPosition",
+                table: "ChecklistInstances",
+                type: "nvarchar(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SubmittedForSignOffAt",
+                table: "ChecklistInstances",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SignedOffBy",
+                table: "ChecklistInstances",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SignedOffByName",
+                table: "ChecklistInstances",
+                type: "nvarchar(200)",
+                maxLength: 200,
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SignedOffByPosition",
+                table: "ChecklistInstances",
+                type: "nvarchar(100)",
+                maxLength: 100,
+                nullable: true);
+
+            migrationBuilder.AddColumn<DateTime>(
+                name: "SignedOffAt",
+                table: "ChecklistInstances",
+                type: "datetime2",
+                nullable: true);
+
+            migrationBuilder.AddColumn<string>(
+                name: "SignOffSignature",
+                table: "ChecklistInstances",
+                type: "nvarchar(max)",
+                nullable: true);
+        }
+
+        /// <inheritdoc />
+        protected override void Down(MigrationBuilder migrationBuilder)
+        {
+            migrationBuilder.DropColumn(name: "SignOffStatus", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SubmittedForSignOffBy", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SubmittedForSignOffByPosition", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SubmittedForSignOffAt", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SignedOffBy", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SignedOffByName", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SignedOffByPosition", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SignedOffAt", table: "ChecklistInstances");
+            migrationBuilder.DropColumn(name: "SignOffSignature", table: "ChecklistInstances");
+        }
+    }
+}
@@ -28,14 +28,37 @@ builder.Services.AddDbContext<CobraDbContext>(options =>
 
 // Register application services
 builder.Services.AddScoped<ITemplateService, TemplateService>();
+builder.Services.AddScoped<ITemplateVersionService, TemplateVersionService>();
+builder.Services.AddScoped<ITemplateApprovalService, TemplateApprovalService>();
+builder.Services.AddScoped<IRecurringChecklistService, RecurringChecklistService>();
+builder.Services.AddScoped<IChecklistCarryForwardService, ChecklistCarryForwardService>();
+builder.Services.AddScoped<IChecklistAutoCreateService, ChecklistAutoCreateService>();
 builder.Services.AddScoped<IChecklistService, ChecklistService>();
+builder.Services.AddScoped<IChecklistSignOffService, ChecklistSignOffService>();
 builder.Services.AddScoped<IChecklistItemService, ChecklistItemService>();
+builder.Services.AddScoped<IChecklistAttachmentService, ChecklistAttachmentService>();
+builder.Services.AddScoped<IItemOverdueService, ItemOverdueService>();
 builder.Services.AddScoped<IItemLibraryService, ItemLibraryService>();
 builder.Services.AddScoped<IAnalyticsService, AnalyticsService>();
 builder.Services.AddScoped<IEventCategoryService, EventCategoryService>();
 builder.Services.AddScoped<IEventService, EventService>();
+builder.Services.AddScoped<IOperationalPeriodService, OperationalPeriodService>();
 builder.Services.AddScoped<IPositionService, PositionService>();
 
+// Item attachment files (local disk stand-in for blob storage)
+builder.Services.Configure<AttachmentStorageSettings>(
+    builder.Configuration.GetSection(AttachmentStorageSettings.SectionName));
+builder.Services.AddSingleton<IAttachmentStorage, LocalDiskAttachmentStorage>();
+
+// Live presence on checklists (who is viewing, whose notes are open)
+builder.Services.AddSingleton<IChecklistPresenceTracker, ChecklistPresenceTracker>();
+
+// Creates checklists from Recurring templates as occurrences become due
+builder.Services.AddHostedService<RecurringChecklistScheduler>();
+
+// Notifies positions when checklist items pass their due time
+builder.Services.AddHostedService<ItemOverdueMonitor>();
+
 // Register chat services
 builder.Services.Configure<GroupMeSettings>(
     builder.Configuration.GetSection(GroupMeSettings.SectionName));
@@ -1,80 +1,69 @@
 using Microsoft.AspNetCore.Mvc;
-using Microsoft.EntityFrameworkCore;
-using CobraAPI.Core.Data;
 
 namespace CobraAPI.Shared.Events.Controllers;
 
 /// <summary>
-/// Operational Periods Controller - FOR POC TESTING ONLY
+/// Operational Periods Controller
+///
+/// Manages the operational periods (time blocks with objectives) of an event.
+/// The current period is detected from wall-clock time; set-current is a
+/// manual fallback for periods without an end time.
+///
+/// Reading periods is open to everyone; creating, editing, setting current
+/// and archiving require the Manage role (403 Forbidden otherwise).
 ///
 /// In production, C5 application will manage operational periods.
-/// These endpoints are for testing period grouping in frontend.
 /// </summary>
 [ApiController]
 [Route("api/operational-periods")]
 [Produces("application/json")]
 public class OperationalPeriodsController : ControllerBase
 {
-    private readonly CobraDbContext _context;
+    private readonly IOperationalPeriodService _service;
     private readonly ILogger<OperationalPeriodsController> _logger;
 
     public OperationalPeriodsController(
-        CobraDbContext context,
+        IOperationalPeriodService service,
         ILogger<OperationalPeriodsController> logger)
     {
-        _context = context;
+        _service = service;
         _logger = logger;
     }
 
     /// <summary>
     /// Get all operational periods for an event
     /// </summary>
+    /// <param name="eventId">The event ID</param>
+    /// <param name="includeArchived">Include archived periods</param>
+    /// <returns>Periods ordered by start time</returns>
     [HttpGet]
     [ProducesResponseType(StatusCodes.Status200OK)]
-    public async Task<ActionResult<List<OperationalPeriod>>> GetOperationalPeriods(
-        [FromQuery] Guid? eventId,
+    public async Task<ActionResult<List<OperationalPeriodDto>>> GetOperationalPeriods(
+        [FromQuery] Guid eventId,
         [FromQuery] bool includeArchived = false)
     {
-        _logger.LogInformation("Fetching operational periods for event: {EventId}, includeArchived: {IncludeArchived}",
+        _logger.LogInformation(
+            "GET /api/operational-periods - EventId: {EventId}, IncludeArchived: {IncludeArchived}",
             eventId, includeArchived);
 
-        var query = _context.OperationalPeriods.AsQueryable();
-
-        // Filter by event
-        if (eventId.HasValue)
-        {
-            query = query.Where(op => op.EventId == eventId.Value);
-        }
-
-        // Filter archived
-        if (!includeArchived)
-        {
-            query = query.Where(op => !op.IsArchived);
-        }
-
-        var periods = await query
-            .OrderBy(op => op.StartTime)
-            .ToListAsync();
-
-        _logger.LogInformation("Returning {Count} operational periods", periods.Count);
+        var periods = await _service.GetPeriodsAsync(eventId, includeArchived);
         return Ok(periods);
     }
 
     /// <summary>
     /// Get a specific operational period by ID
     /// </summary>
+    /// <param name="id">The period ID</param>
+    /// <returns>The period</returns>
     [HttpGet("{id}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult<OperationalPeriod>> GetOperationalPeriod(Guid id)
+    public async Task<ActionResult<OperationalPeriodDto>> GetOperationalPeriod(Guid id)
     {
-        _logger.LogInformation("Fetching operational period: {PeriodId}", id);
-
-        var period = await _context.OperationalPeriods.FindAsync(id);
+        var period = await _service.GetPeriodByIdAsync(id);
 
         if (period == null)
         {
-            _logger.LogWarning("Operational period {PeriodId} not found", id);
             return NotFound(new { message = $"Operational period {id} not found" });
         }
 
@@ -82,165 +71,202 @@ public class OperationalPeriodsController : ControllerBase
     }
 
     /// <summary>
-    /// Get the current operational period for an event
+    /// Get the operational period in effect now for an event
     /// </summary>
+    /// <param name="eventId">The event ID</param>
+    /// <returns>The current period</returns>
     [HttpGet("current")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult<OperationalPeriod>> GetCurrentPeriod([FromQuery] Guid eventId)
+    public async Task<ActionResult<OperationalPeriodDto>> GetCurrentPeriod([FromQuery] Guid eventId)
     {
-        _logger.LogInformation("Fetching current operational period for event: {EventId}", eventId);
+        var period = await _service.GetCurrentPeriodAsync(eventId, DateTime.UtcNow);
 
-        var currentPeriod = await _context.OperationalPeriods
-            .Where(op => op.EventId == eventId && op.IsCurrent && !op.IsArchived)
-            .FirstOrDefaultAsync();
-
-        if (currentPeriod == null)
+        if (period == null)
         {
             _logger.LogInformation("No current operational period for event {EventId}", eventId);
             return NotFound(new { message = $"No current operational period for event {eventId}" });
         }
 
-        return Ok(currentPeriod);
+        return Ok(period);
     }
 
     /// <summary>
-    /// Create a new operational period (TEST ONLY)
+    /// Create a new operational period
     /// </summary>
+    /// <param name="request">The period data</param>
+    /// <returns>The created period</returns>
     [HttpPost]
     [ProducesResponseType(StatusCodes.Status201Created)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
-    public async Task<ActionResult<OperationalPeriod>> CreatePeriod([FromBody] CreateOperationalPeriodRequest request)
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<OperationalPeriodDto>> CreatePeriod([FromBody] CreateOperationalPeriodRequest request)
     {
+        _logger.LogInformation(
+            "POST /api/operational-periods - Creating {Name} for event {EventId}",
+            request.Name, request.EventId);
+
         if (!ModelState.IsValid)
+        {
             return BadRequest(ModelState);
+        }
 
-        _logger.LogInformation("Creating operational period: {Name} for event {EventId}",
-            request.Name, request.EventId);
+        var userContext = GetUserContext();
 
-        var period = new OperationalPeriod
-        {
-            Id = Guid.NewGuid(),
-            EventId = request.EventId,
-            Name = request.Name,
-            StartTime = request.StartTime,
-            EndTime = request.EndTime,
-            IsCurrent = request.IsCurrent,
-            Description = request.Description,
-            CreatedBy = HttpContext.Request.Headers["X-User-FullName"].ToString() ?? "Test User",
-            CreatedAt = DateTime.UtcNow
-        };
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("create operational periods");
+        }
 
-        // If setting as current, unset other current periods for this event
-        if (period.IsCurrent)
+        try
+        {
+            var period = await _service.CreatePeriodAsync(request, userContext);
+            return CreatedAtAction(nameof(GetOperationalPeriod), new { id = period.Id }, period);
+        }
+        catch (ArgumentException ex)
         {
-            var existingCurrent = await _context.OperationalPeriods
-                .Where(op => op.EventId == period.EventId && op.IsCurrent)
-                .ToListAsync();
+            return BadRequest(new { message = ex.Message });
+        }
+    }
 
-            foreach (var existing in existingCurrent)
-            {
-                existing.IsCurrent = false;
-                existing.LastModifiedBy = period.CreatedBy;
-                existing.LastModifiedAt = DateTime.UtcNow;
-            }
+    /// <summary>
+    /// Update an existing operational period
+    /// </summary>
+    /// <param name="id">The period ID</param>
+    /// <param name="request">The updated period data</param>
+    /// <returns>The updated period</returns>
+    [HttpPut("{id}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<OperationalPeriodDto>> UpdatePeriod(
+        Guid id,
+        [FromBody] UpdateOperationalPeriodRequest request)
+    {
+        _logger.LogInformation("PUT /api/operational-periods/{Id}", id);
 
-            _logger.LogInformation("Unset {Count} existing current periods", existingCurrent.Count);
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
         }
 
-        _context.OperationalPeriods.Add(period);
-        await _context.SaveChangesAsync();
+        var userContext = GetUserContext();
 
-        _logger.LogInformation("Created operational period {PeriodId}: {Name}", period.Id, period.Name);
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("edit operational periods");
+        }
 
-        return CreatedAtAction(
-            nameof(GetOperationalPeriod),
-            new { id = period.Id },
-            period);
+        try
+        {
+            var period = await _service.UpdatePeriodAsync(id, request, userContext);
+            return Ok(period);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = $"Operational period {id} not found" });
+        }
+        catch (ArgumentException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
     }
 
     /// <summary>
-    /// Set a period as the current operational period (TEST ONLY)
+    /// Flag a period as the current operational period
     /// Unsets all other current periods for the same event
     /// </summary>
+    /// <param name="id">The period ID</param>
+    /// <returns>The updated period</returns>
     [HttpPost("{id}/set-current")]
     [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult<OperationalPeriod>> SetCurrentPeriod(Guid id)
+    public async Task<ActionResult<OperationalPeriodDto>> SetCurrentPeriod(Guid id)
     {
-        _logger.LogInformation("Setting operational period {PeriodId} as current", id);
+        _logger.LogInformation("POST /api/operational-periods/{Id}/set-current", id);
 
-        var period = await _context.OperationalPeriods.FindAsync(id);
-        if (period == null)
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
         {
-            _logger.LogWarning("Operational period {PeriodId} not found", id);
-            return NotFound(new { message = $"Operational period {id} not found" });
+            return ManageRoleRequired("set the current operational period");
         }
 
-        // Unset all other current periods for this event
-        var otherCurrentPeriods = await _context.OperationalPeriods
-            .Where(op => op.EventId == period.EventId && op.IsCurrent && op.Id != id)
-            .ToListAsync();
-
-        foreach (var other in otherCurrentPeriods)
+        try
         {
-            other.IsCurrent = false;
-            other.LastModifiedBy = HttpContext.Request.Headers["X-User-FullName"].ToString() ?? "Test User";
-            other.LastModifiedAt = DateTime.UtcNow;
+            var period = await _service.SetCurrentPeriodAsync(id, userContext);
+            return Ok(period);
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = $"Operational period {id} not found" });
         }
-
-        // Set this period as current
-        period.IsCurrent = true;
-        period.LastModifiedBy = HttpContext.Request.Headers["X-User-FullName"].ToString() ?? "Test User";
-        period.LastModifiedAt = DateTime.UtcNow;
-
-        await _context.SaveChangesAsync();
-
-        _logger.LogInformation("Set operational period {PeriodId} as current. Unset {Count} other periods.",
-            id, otherCurrentPeriods.Count);
-
-        return Ok(period);
     }
 
     /// <summary>
-    /// Soft delete (archive) an operational period (TEST ONLY)
-    /// Checklists with this period will have their OperationalPeriodId set to NULL
+    /// Archive an operational period (soft delete)
+    /// Checklists with this period show as incident-level in grouping
     /// </summary>
+    /// <param name="id">The period ID</param>
+    /// <returns>No content on success</returns>
     [HttpDelete("{id}")]
-    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
     public async Task<IActionResult> ArchivePeriod(Guid id)
     {
-        _logger.LogInformation("Archiving operational period: {PeriodId}", id);
+        _logger.LogInformation("DELETE /api/operational-periods/{Id} - Archiving", id);
 
-        var period = await _context.OperationalPeriods.FindAsync(id);
-        if (period == null)
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
         {
-            _logger.LogWarning("Operational period {PeriodId} not found", id);
-            return NotFound(new { message = $"Operational period {id} not found" });
+            return ManageRoleRequired("archive operational periods");
         }
 
-        period.IsArchived = true;
-        period.ArchivedBy = HttpContext.Request.Headers["X-User-FullName"].ToString() ?? "Test User";
-        period.ArchivedAt = DateTime.UtcNow;
+        try
+        {
+            await _service.ArchivePeriodAsync(id, userContext);
+            return NoContent();
+        }
+        catch (KeyNotFoundException)
+        {
+            return NotFound(new { message = $"Operational period {id} not found" });
+        }
+    }
 
-        await _context.SaveChangesAsync();
+    /// <summary>
+    /// 403 response for users without the Manage role
+    /// </summary>
+    private ObjectResult ManageRoleRequired(string action)
+    {
+        return StatusCode(StatusCodes.Status403Forbidden, new
+        {
+            message = $"Only users with Manage role can {action}"
+        });
+    }
 
-        _logger.LogInformation("Archived operational period {PeriodId}. Associated checklists will show as incident-level.",
-            id);
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
 
-        return Ok(new { message = $"Operational period '{period.Name}' archived successfully" });
+        // Fallback (should not happen if middleware is configured correctly)
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown"
+        };
     }
 }
-
-/// <summary>
-/// Request model for creating operational periods
-/// </summary>
-public record CreateOperationalPeriodRequest(
-    Guid EventId,
-    string Name,
-    DateTime StartTime,
-    DateTime? EndTime,
-    bool IsCurrent,
-    string? Description
-);
@@ -0,0 +1,64 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Shared.Events.Models.DTOs;
+
+/// <summary>
+/// CreateOperationalPeriodRequest - Request DTO for creating an operational period
+///
+/// Required fields:
+///   - EventId: Event the period belongs to
+///   - Name: Period display name
+///   - StartTime: Period start (UTC)
+///
+/// Optional fields:
+///   - EndTime: Must be after StartTime. NULL = open-ended
+///   - IsCurrent: Flag as the event's current period (unsets others)
+///   - Description, Objectives
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record CreateOperationalPeriodRequest
+{
+    /// <summary>
+    /// Event the period belongs to
+    /// </summary>
+    [Required(ErrorMessage = "Event is required")]
+    public Guid EventId { get; init; }
+
+    /// <summary>
+    /// Period display name
+    /// Example: "OP 1 - 12/20 0600-1800"
+    /// </summary>
+    [Required(ErrorMessage = "Period name is required")]
+    [StringLength(200, MinimumLength = 1, ErrorMessage = "Name must be 1-200 characters")]
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Period start time (UTC)
+    /// </summary>
+    [Required(ErrorMessage = "Start time is required")]
+    public DateTime StartTime { get; init; }
+
+    /// <summary>
+    /// Period end time (UTC). NULL = open-ended
+    /// </summary>
+    public DateTime? EndTime { get; init; }
+
+    /// <summary>
+    /// Flag this period as the event's current period
+    /// </summary>
+    public bool IsCurrent { get; init; }
+
+    /// <summary>
+    /// Optional description/notes
+    /// </summary>
+    [StringLength(1000, ErrorMessage = "Description cannot exceed 1000 characters")]
+    public string? Description { get; init; }
+
+    /// <summary>
+    /// Incident objectives for this period, one per line
+    /// </summary>
+    [StringLength(4000, ErrorMessage = "Objectives cannot exceed 4000 characters")]
+    public string? Objectives { get; init; }
+}
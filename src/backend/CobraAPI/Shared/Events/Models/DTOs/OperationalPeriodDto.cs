@@ -0,0 +1,86 @@
+namespace CobraAPI.Shared.Events.Models.DTOs;
+
+/// <summary>
+/// OperationalPeriodDto - Data transfer object for operational periods
+///
+/// Purpose:
+///   A time block of an event's response (e.g., a 12-hour shift) with the
+///   objectives for that period. Checklists can be created for a period and
+///   are grouped by period in the frontend.
+///
+/// Current period:
+///   IsCurrent is the manual flag set by a planner. The period actually in
+///   effect is detected from wall-clock time - see
+///   OperationalPeriodService.FindCurrent.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record OperationalPeriodDto
+{
+    /// <summary>
+    /// Unique identifier for this period
+    /// </summary>
+    public Guid Id { get; init; }
+
+    /// <summary>
+    /// The event this period belongs to
+    /// </summary>
+    public Guid EventId { get; init; }
+
+    /// <summary>
+    /// Display name
+    /// Example: "OP 1 - 12/20 0600-1800"
+    /// </summary>
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Period start time (UTC)
+    /// </summary>
+    public DateTime StartTime { get; init; }
+
+    /// <summary>
+    /// Period end time (UTC). NULL = open-ended
+    /// </summary>
+    public DateTime? EndTime { get; init; }
+
+    /// <summary>
+    /// Manually flagged as the current period for the event
+    /// </summary>
+    public bool IsCurrent { get; init; }
+
+    /// <summary>
+    /// Optional description/notes
+    /// </summary>
+    public string? Description { get; init; }
+
+    /// <summary>
+    /// Incident objectives for this period, one per line
+    /// </summary>
+    public string? Objectives { get; init; }
+
+    /// <summary>
+    /// Whether this period has been archived
+    /// </summary>
+    public bool IsArchived { get; init; }
+
+    /// <summary>
+    /// User who created this period
+    /// </summary>
+    public string CreatedBy { get; init; } = string.Empty;
+
+    /// <summary>
+    /// When this period was created (UTC)
+    /// </summary>
+    public DateTime CreatedAt { get; init; }
+
+    /// <summary>
+    /// User who last modified this period
+    /// </summary>
+    public string? LastModifiedBy { get; init; }
+
+    /// <summary>
+    /// When this period was last modified (UTC)
+    /// </summary>
+    public DateTime? LastModifiedAt { get; init; }
+}
@@ -0,0 +1,45 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Shared.Events.Models.DTOs;
+
+/// <summary>
+/// UpdateOperationalPeriodRequest - Request DTO for updating an operational period
+///
+/// Note: The event cannot be changed; use set-current to change the
+/// current flag.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record UpdateOperationalPeriodRequest
+{
+    /// <summary>
+    /// Updated display name
+    /// </summary>
+    [Required(ErrorMessage = "Period name is required")]
+    [StringLength(200, MinimumLength = 1, ErrorMessage = "Name must be 1-200 characters")]
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Updated start time (UTC)
+    /// </summary>
+    [Required(ErrorMessage = "Start time is required")]
+    public DateTime StartTime { get; init; }
+
+    /// <summary>
+    /// Updated end time (UTC). NULL = open-ended
+    /// </summary>
+    public DateTime? EndTime { get; init; }
+
+    /// <summary>
+    /// Updated description/notes
+    /// </summary>
+    [StringLength(1000, ErrorMessage = "Description cannot exceed 1000 characters")]
+    public string? Description { get; init; }
+
+    /// <summary>
+    /// Updated objectives, one per line
+    /// </summary>
+    [StringLength(4000, ErrorMessage = "Objectives cannot exceed 4000 characters")]
+    public string? Objectives { get; init; }
+}
@@ -37,7 +37,9 @@ public class OperationalPeriod
 
     /// <summary>
     /// Is this the current operational period for the event?
-    /// Only one period per event should have IsCurrent = true
+    /// Only one period per event should have IsCurrent = true.
+    /// Manual override: the period whose start/end window contains the
+    /// current time takes precedence (see OperationalPeriodService.FindCurrent)
     /// </summary>
     public bool IsCurrent { get; set; } = false;
 
@@ -46,6 +48,11 @@ public class OperationalPeriod
     /// </summary>
     public string? Description { get; set; }
 
+    /// <summary>
+    /// Incident objectives for this period (from the IAP), one per line
+    /// </summary>
+    public string? Objectives { get; set; }
+
     // Soft delete fields
     public bool IsArchived { get; set; } = false;
     public string? ArchivedBy { get; set; }
@@ -0,0 +1,52 @@
+namespace CobraAPI.Shared.Events.Services;
+
+/// <summary>
+/// Service interface for managing operational periods within an event
+///
+/// The current period is detected from wall-clock time: the period whose
+/// start/end window contains now wins, falling back to the period manually
+/// flagged IsCurrent when no window matches.
+/// </summary>
+public interface IOperationalPeriodService
+{
+    /// <summary>
+    /// Get an event's operational periods, ordered by start time
+    /// </summary>
+    /// <param name="eventId">The event ID</param>
+    /// <param name="includeArchived">Include archived periods (default: false)</param>
+    Task<List<OperationalPeriodDto>> GetPeriodsAsync(Guid eventId, bool includeArchived = false);
+
+    /// <summary>
+    /// Get a specific operational period by ID
+    /// </summary>
+    Task<OperationalPeriodDto?> GetPeriodByIdAsync(Guid id);
+
+    /// <summary>
+    /// Get the period in effect for an event at the given time
+    /// </summary>
+    /// <param name="eventId">The event ID</param>
+    /// <param name="utcNow">Current time (UTC)</param>
+    Task<OperationalPeriodDto?> GetCurrentPeriodAsync(Guid eventId, DateTime utcNow);
+
+    /// <summary>
+    /// Create a new operational period
+    /// </summary>
+    Task<OperationalPeriodDto> CreatePeriodAsync(CreateOperationalPeriodRequest request, UserContext userContext);
+
+    /// <summary>
+    /// Update an existing operational period
+    /// </summary>
+    Task<OperationalPeriodDto> UpdatePeriodAsync(Guid id, UpdateOperationalPeriodRequest request, UserContext userContext);
+
+    /// <summary>
+    /// Flag a period as the event's current period
+    /// Unsets all other current periods for the same event
+    /// </summary>
+    Task<OperationalPeriodDto> SetCurrentPeriodAsync(Guid id, UserContext userContext);
+
+    /// <summary>
+    /// Archive an operational period (soft delete)
+    /// Checklists keep their period name and show as incident-level in grouping
+    /// </summary>
+    Task ArchivePeriodAsync(Guid id, UserContext userContext);
+}
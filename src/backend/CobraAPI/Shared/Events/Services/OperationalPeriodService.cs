@@ -0,0 +1,260 @@
+using Microsoft.EntityFrameworkCore;
+using CobraAPI.Core.Data;
+
+namespace CobraAPI.Shared.Events.Services;
+
+/// <summary>
+/// Service for managing operational periods within an event
+/// </summary>
+public class OperationalPeriodService : IOperationalPeriodService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<OperationalPeriodService> _logger;
+
+    public OperationalPeriodService(
+        CobraDbContext context,
+        ILogger<OperationalPeriodService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Pick the period in effect at the given time from an event's periods.
+    /// The period whose window contains utcNow wins (latest start if they
+    /// overlap); otherwise the manually flagged IsCurrent period is used.
+    /// Archived periods are never current.
+    /// </summary>
+    public static OperationalPeriod? FindCurrent(IEnumerable<OperationalPeriod> periods, DateTime utcNow)
+    {
+        var active = periods.Where(p => !p.IsArchived).ToList();
+
+        return active
+                   .Where(p => p.StartTime <= utcNow && (p.EndTime == null || utcNow < p.EndTime))
+                   .OrderByDescending(p => p.StartTime)
+                   .FirstOrDefault()
+               ?? active
+                   .Where(p => p.IsCurrent)
+                   .OrderByDescending(p => p.StartTime)
+                   .FirstOrDefault();
+    }
+
+    public async Task<List<OperationalPeriodDto>> GetPeriodsAsync(Guid eventId, bool includeArchived = false)
+    {
+        _logger.LogInformation(
+            "Getting operational periods for event {EventId}, IncludeArchived: {IncludeArchived}",
+            eventId, includeArchived);
+
+        var query = _context.OperationalPeriods
+            .Where(p => p.EventId == eventId);
+
+        if (!includeArchived)
+        {
+            query = query.Where(p => !p.IsArchived);
+        }
+
+        var periods = await query
+            .OrderBy(p => p.StartTime)
+            .ToListAsync();
+
+        _logger.LogInformation("Found {Count} operational periods", periods.Count);
+
+        return periods.Select(MapToDto).ToList();
+    }
+
+    public async Task<OperationalPeriodDto?> GetPeriodByIdAsync(Guid id)
+    {
+        var period = await _context.OperationalPeriods.FirstOrDefaultAsync(p => p.Id == id);
+
+        if (period == null)
+        {
+            _logger.LogWarning("Operational period not found: {Id}", id);
+            return null;
+        }
+
+        return MapToDto(period);
+    }
+
+    public async Task<OperationalPeriodDto?> GetCurrentPeriodAsync(Guid eventId, DateTime utcNow)
+    {
+        var periods = await _context.OperationalPeriods
+            .Where(p => p.EventId == eventId && !p.IsArchived)
+            .ToListAsync();
+
+        var current = FindCurrent(periods, utcNow);
+        return current == null ? null : MapToDto(current);
+    }
+
+    public async Task<OperationalPeriodDto> CreatePeriodAsync(
+        CreateOperationalPeriodRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Creating operational period {Name} for event {EventId} by {User}",
+            request.Name, request.EventId, userContext.FullName);
+
+        var eventExists = await _context.Events.AnyAsync(e => e.Id == request.EventId && !e.IsArchived);
+        if (!eventExists)
+        {
+            throw new ArgumentException($"Event {request.EventId} not found");
+        }
+
+        ValidateWindow(request.StartTime, request.EndTime);
+
+        var period = new OperationalPeriod
+        {
+            Id = Guid.NewGuid(),
+            EventId = request.EventId,
+            Name = request.Name.Trim(),
+            StartTime = request.StartTime,
+            EndTime = request.EndTime,
+            IsCurrent = request.IsCurrent,
+            Description = request.Description,
+            Objectives = request.Objectives,
+            CreatedBy = userContext.FullName,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        if (period.IsCurrent)
+        {
+            await UnsetCurrentAsync(period.EventId, period.Id, userContext);
+        }
+
+        _context.OperationalPeriods.Add(period);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Created operational period: {Id} - {Name}", period.Id, period.Name);
+
+        return MapToDto(period);
+    }
+
+    public async Task<OperationalPeriodDto> UpdatePeriodAsync(
+        Guid id,
+        UpdateOperationalPeriodRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation("Updating operational period {Id} by {User}", id, userContext.FullName);
+
+        var period = await _context.OperationalPeriods
+            .FirstOrDefaultAsync(p => p.Id == id && !p.IsArchived);
+
+        if (period == null)
+        {
+            throw new KeyNotFoundException($"Operational period {id} not found");
+        }
+
+        ValidateWindow(request.StartTime, request.EndTime);
+
+        period.Name = request.Name.Trim();
+        period.StartTime = request.StartTime;
+        period.EndTime = request.EndTime;
+        period.Description = request.Description;
+        period.Objectives = request.Objectives;
+        period.LastModifiedBy = userContext.FullName;
+        period.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Updated operational period: {Id} - {Name}", period.Id, period.Name);
+
+        return MapToDto(period);
+    }
+
+    public async Task<OperationalPeriodDto> SetCurrentPeriodAsync(Guid id, UserContext userContext)
+    {
+        _logger.LogInformation("Setting operational period {Id} as current by {User}", id, userContext.FullName);
+
+        var period = await _context.OperationalPeriods
+            .FirstOrDefaultAsync(p => p.Id == id && !p.IsArchived);
+
+        if (period == null)
+        {
+            throw new KeyNotFoundException($"Operational period {id} not found");
+        }
+
+        await UnsetCurrentAsync(period.EventId, period.Id, userContext);
+
+        period.IsCurrent = true;
+        period.LastModifiedBy = userContext.FullName;
+        period.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        return MapToDto(period);
+    }
+
+    public async Task ArchivePeriodAsync(Guid id, UserContext userContext)
+    {
+        _logger.LogInformation("Archiving operational period {Id} by {User}", id, userContext.FullName);
+
+        var period = await _context.OperationalPeriods
+            .FirstOrDefaultAsync(p => p.Id == id && !p.IsArchived);
+
+        if (period == null)
+        {
+            throw new KeyNotFoundException($"Operational period {id} not found");
+        }
+
+        period.IsArchived = true;
+        period.IsCurrent = false;
+        period.ArchivedBy = userContext.FullName;
+        period.ArchivedAt = DateTime.UtcNow;
+        period.LastModifiedBy = userContext.FullName;
+        period.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Archived operational period: {Id}", id);
+    }
+
+    private static void ValidateWindow(DateTime startTime, DateTime? endTime)
+    {
+        if (endTime.HasValue && endTime.Value <= startTime)
+        {
+            throw new ArgumentException("End time must be after start time");
+        }
+    }
+
+    private async Task UnsetCurrentAsync(Guid eventId, Guid exceptId, UserContext userContext)
+    {
+        var others = await _context.OperationalPeriods
+            .Where(p => p.EventId == eventId && p.IsCurrent && p.Id != exceptId)
+            .ToListAsync();
+
+        foreach (var other in others)
+        {
+            other.IsCurrent = false;
+            other.LastModifiedBy = userContext.FullName;
+            other.LastModifiedAt = DateTime.UtcNow;
+        }
+    }
+
+    /// <summary>
+    /// Ensures a DateTime is specified as UTC kind for proper JSON serialization.
+    /// EF Core retrieves DateTime from SQL Server without kind specified.
+    /// </summary>
+    private static DateTime SpecifyUtc(DateTime dateTime)
+    {
+        return DateTime.SpecifyKind(dateTime, DateTimeKind.Utc);
+    }
+
+    private static OperationalPeriodDto MapToDto(OperationalPeriod period)
+    {
+        return new OperationalPeriodDto
+        {
+            Id = period.Id,
+            EventId = period.EventId,
+            Name = period.Name,
+            StartTime = SpecifyUtc(period.StartTime),
+            EndTime = period.EndTime.HasValue ? SpecifyUtc(period.EndTime.Value) : null,
+            IsCurrent = period.IsCurrent,
+            Description = period.Description,
+            Objectives = period.Objectives,
+            IsArchived = period.IsArchived,
+            CreatedBy = period.CreatedBy,
+            CreatedAt = SpecifyUtc(period.CreatedAt),
+            LastModifiedBy = period.LastModifiedBy,
+            LastModifiedAt = period.LastModifiedAt.HasValue ? SpecifyUtc(period.LastModifiedAt.Value) : null
+        };
+    }
+}
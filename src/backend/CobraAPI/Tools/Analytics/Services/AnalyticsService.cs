@@ -39,14 +39,15 @@ public class AnalyticsService : IAnalyticsService
                 .Where(i => !i.IsArchived)
                 .CountAsync();
 
-            // Get template usage counts
+            // Get template usage counts (combined checklists count for each source template)
             var templateUsage = await _context.Templates
                 .Where(t => !t.IsArchived)
                 .Select(t => new
                 {
                     Template = t,
                     InstanceCount = _context.ChecklistInstances
-                        .Count(c => c.TemplateId == t.Id && !c.IsArchived)
+                        .Count(c => !c.IsArchived && (c.TemplateId == t.Id ||
+                            (c.SourceTemplateIds != null && c.SourceTemplateIds.Contains(t.Id.ToString()))))
                 })
                 .ToListAsync();
 
@@ -137,6 +138,7 @@ public class AnalyticsService : IAnalyticsService
                         DisplayOrder = i.DisplayOrder,
                         IsRequired = i.IsRequired,
                         StatusConfiguration = i.StatusConfiguration,
+                        ValueConfiguration = i.ValueConfiguration,
                         AllowedPositions = i.AllowedPositions,
                         DefaultNotes = i.DefaultNotes
                     }).ToList()
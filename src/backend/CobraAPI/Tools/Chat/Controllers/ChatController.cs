@@ -302,15 +302,17 @@ public class ChatController : ControllerBase
     /// <param name="threadId">The chat thread ID</param>
     /// <param name="skip">Number of messages to skip</param>
     /// <param name="take">Number of messages to return</param>
+    /// <param name="since">Every message created after this time (UTC), for reconnect catch-up (not paged unless skip/take are given)</param>
     [HttpGet("thread/{threadId:guid}/messages")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     public async Task<ActionResult<List<ChatMessageDto>>> GetMessages(
         Guid eventId,
         Guid threadId,
         [FromQuery] int? skip = null,
-        [FromQuery] int? take = null)
+        [FromQuery] int? take = null,
+        [FromQuery] DateTime? since = null)
     {
-        var messages = await _chatService.GetMessagesAsync(threadId, skip, take);
+        var messages = await _chatService.GetMessagesAsync(threadId, skip, take, since);
         return Ok(messages);
     }
 
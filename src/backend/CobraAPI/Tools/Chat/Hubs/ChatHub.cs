@@ -39,6 +39,12 @@ public class ChatHub : Hub
             Context.ConnectionId, eventId);
     }
 
+    /// <summary>
+    /// Server clock (UTC), read by clients when they connect or reconnect.
+    /// After a reconnect, clients fetch messages created since the newest one they saw.
+    /// </summary>
+    public DateTime GetServerTime() => DateTime.UtcNow;
+
     public override async Task OnConnectedAsync()
     {
         _logger.LogDebug("Client connected: {ConnectionId}", Context.ConnectionId);
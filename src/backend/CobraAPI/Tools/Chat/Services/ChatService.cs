@@ -94,20 +94,43 @@ public class ChatService : IChatService
     /// <summary>
     /// Retrieves messages for a chat thread with pagination.
     /// Returns the most recent messages by default.
+    /// When since is given, every message created after it is returned, oldest
+    /// first, unless skip/take are given (used by clients catching up after a
+    /// real-time reconnect, which must not miss messages older than one page).
     /// </summary>
-    public async Task<List<ChatMessageDto>> GetMessagesAsync(Guid chatThreadId, int? skip = null, int? take = null)
+    public async Task<List<ChatMessageDto>> GetMessagesAsync(Guid chatThreadId, int? skip = null, int? take = null, DateTime? since = null)
     {
         IQueryable<ChatMessage> query = _dbContext.ChatMessages
-            .Where(cm => cm.ChatThreadId == chatThreadId && cm.IsActive)
-            .OrderBy(cm => cm.CreatedAt);
+            .Where(cm => cm.ChatThreadId == chatThreadId && cm.IsActive);
 
-        int totalMessages = await query.CountAsync();
-        int skipCount = skip ?? (totalMessages <= DefaultPageSize ? 0 : totalMessages - DefaultPageSize);
-        int takeCount = take ?? DefaultPageSize;
+        if (since.HasValue)
+        {
+            query = query.Where(cm => cm.CreatedAt > since.Value);
+        }
+
+        query = query.OrderBy(cm => cm.CreatedAt);
+
+        if (since.HasValue)
+        {
+            if (skip.HasValue)
+            {
+                query = query.Skip(skip.Value);
+            }
+            if (take.HasValue)
+            {
+                query = query.Take(take.Value);
+            }
+        }
+        else
+        {
+            int totalMessages = await query.CountAsync();
+            int skipCount = skip ?? (totalMessages <= DefaultPageSize ? 0 : totalMessages - DefaultPageSize);
+            int takeCount = take ?? DefaultPageSize;
+
+            query = query.Skip(skipCount).Take(takeCount);
+        }
 
         var messages = await query
-            .Skip(skipCount)
-            .Take(takeCount)
             .Select(cm => new ChatMessageDto
             {
                 Id = cm.Id,
@@ -12,9 +12,9 @@ public interface IChatService
     Task<ChatThreadDto> GetOrCreateEventChatThreadAsync(Guid eventId);
 
     /// <summary>
-    /// Gets messages for a chat thread with pagination.
+    /// Gets messages for a chat thread with pagination, or every message created after since.
     /// </summary>
-    Task<List<ChatMessageDto>> GetMessagesAsync(Guid chatThreadId, int? skip = null, int? take = null);
+    Task<List<ChatMessageDto>> GetMessagesAsync(Guid chatThreadId, int? skip = null, int? take = null, DateTime? since = null);
 
     /// <summary>
     /// Sends a new chat message.
@@ -0,0 +1,246 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// ChecklistAttachmentsController - API endpoints for checklist item attachments
+///
+/// Purpose:
+///   Upload, list, download and delete evidence files (photos, signed forms) on items.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/checklists/{checklistId}/items/{itemId}/attachments
+///
+/// Endpoints:
+///   GET    /api/checklists/attachment-limits                                        - Size and type limits
+///   GET    /api/checklists/{checklistId}/items/{itemId}/attachments                 - List attachments
+///   POST   /api/checklists/{checklistId}/items/{itemId}/attachments                 - Upload (multipart "file")
+///   GET    /api/checklists/{checklistId}/items/{itemId}/attachments/{id}/content    - Download file
+///   DELETE /api/checklists/{checklistId}/items/{itemId}/attachments/{id}            - Delete (uploader or Manage)
+///
+/// Error Handling:
+///   - 400 Bad Request: File missing, too large or type not allowed
+///   - 403 Forbidden: Readonly users, position not authorized, or not the uploader
+///   - 404 Not Found: Item or attachment doesn't exist
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+[ApiController]
+[Route("api/checklists/{checklistId:guid}/items/{itemId:guid}/attachments")]
+public class ChecklistAttachmentsController : ControllerBase
+{
+    /// <summary>
+    /// Hard ceiling on request size; the configured limit (System Settings) is checked in the service
+    /// </summary>
+    private const long MaxRequestBytes = 100 * 1024 * 1024;
+
+    private readonly IChecklistAttachmentService _attachmentService;
+    private readonly ILogger<ChecklistAttachmentsController> _logger;
+
+    public ChecklistAttachmentsController(
+        IChecklistAttachmentService attachmentService,
+        ILogger<ChecklistAttachmentsController> logger)
+    {
+        _attachmentService = attachmentService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get the current attachment size and type limits
+    /// </summary>
+    [HttpGet("/api/checklists/attachment-limits")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<AttachmentLimitsDto>> GetLimits()
+    {
+        var limits = await _attachmentService.GetLimitsAsync();
+        return Ok(limits);
+    }
+
+    /// <summary>
+    /// Get the attachments of an item, oldest first
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    [HttpGet]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<ItemAttachmentDto>>> GetAttachments(Guid checklistId, Guid itemId)
+    {
+        var attachments = await _attachmentService.GetAttachmentsAsync(checklistId, itemId);
+
+        if (attachments == null)
+        {
+            return NotFound(new { message = $"Item {itemId} not found in checklist {checklistId}" });
+        }
+
+        return Ok(attachments);
+    }
+
+    /// <summary>
+    /// Attach a file to an item
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="file">Uploaded file (multipart form field "file")</param>
+    /// <returns>The new attachment</returns>
+    [HttpPost]
+    [RequestSizeLimit(MaxRequestBytes)]
+    [RequestFormLimits(MultipartBodyLengthLimit = MaxRequestBytes)]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ItemAttachmentDto>> UploadAttachment(
+        Guid checklistId,
+        Guid itemId,
+        IFormFile? file)
+    {
+        var userContext = GetUserContext();
+
+        // Readonly users cannot attach files
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to attach a file to item {ItemId}",
+                userContext.Email,
+                itemId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot attach files"
+            });
+        }
+
+        if (file == null)
+        {
+            return BadRequest(new { message = "No file was uploaded" });
+        }
+
+        try
+        {
+            await using var content = file.OpenReadStream();
+            var attachment = await _attachmentService.UploadAttachmentAsync(
+                checklistId,
+                itemId,
+                file.FileName,
+                file.ContentType,
+                file.Length,
+                content,
+                userContext);
+
+            if (attachment == null)
+            {
+                return NotFound(new { message = $"Item {itemId} not found in checklist {checklistId}" });
+            }
+
+            return CreatedAtAction(
+                nameof(GetAttachmentContent),
+                new { checklistId, itemId, attachmentId = attachment.Id },
+                attachment);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized attachment upload attempt for item {ItemId}", itemId);
+            return Forbid();
+        }
+        catch (InvalidOperationException ex)
+        {
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Download an attachment's file
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="attachmentId">Attachment GUID</param>
+    [HttpGet("{attachmentId:guid}/content")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> GetAttachmentContent(Guid checklistId, Guid itemId, Guid attachmentId)
+    {
+        var content = await _attachmentService.GetAttachmentContentAsync(checklistId, itemId, attachmentId);
+
+        if (content == null)
+        {
+            return NotFound(new { message = $"Attachment {attachmentId} not found" });
+        }
+
+        return File(content.Content, content.ContentType, content.FileName);
+    }
+
+    /// <summary>
+    /// Delete an attachment
+    /// Only the uploader or a Manage user can delete
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="attachmentId">Attachment GUID</param>
+    [HttpDelete("{attachmentId:guid}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteAttachment(Guid checklistId, Guid itemId, Guid attachmentId)
+    {
+        var userContext = GetUserContext();
+
+        // Readonly users cannot delete attachments
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to delete attachment {AttachmentId}",
+                userContext.Email,
+                attachmentId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot delete attachments"
+            });
+        }
+
+        try
+        {
+            var deleted = await _attachmentService.DeleteAttachmentAsync(checklistId, itemId, attachmentId, userContext);
+
+            if (!deleted)
+            {
+                return NotFound(new { message = $"Attachment {attachmentId} not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized attachment delete attempt for {AttachmentId}", attachmentId);
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Attachment {AttachmentId} could not be deleted", attachmentId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
@@ -0,0 +1,116 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// ChecklistAutoCreateController - API endpoints for generating checklists from AutoCreate templates
+///
+/// Purpose:
+///   Previews and generates the checklists for a new event's categories.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/checklists/auto-create
+///
+/// Endpoints:
+///   GET  /api/checklists/auto-create/preview?categoryIds=... - Checklists that would be generated
+///   POST /api/checklists/auto-create                         - Generate checklists (Contributor or Manage role)
+///
+/// Error Handling:
+///   - 400 Bad Request: Validation failures
+///   - 403 Forbidden: Readonly users
+///   - 404 Not Found: Event doesn't exist or is archived
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+[ApiController]
+[Route("api/checklists/auto-create")]
+public class ChecklistAutoCreateController : ControllerBase
+{
+    private readonly IChecklistAutoCreateService _autoCreateService;
+    private readonly ILogger<ChecklistAutoCreateController> _logger;
+
+    public ChecklistAutoCreateController(
+        IChecklistAutoCreateService autoCreateService,
+        ILogger<ChecklistAutoCreateController> logger)
+    {
+        _autoCreateService = autoCreateService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Checklists that would be generated for an event with the given categories
+    /// </summary>
+    /// <param name="categoryIds">Primary and additional event category IDs</param>
+    /// <returns>Matching AutoCreate templates</returns>
+    [HttpGet("preview")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    public async Task<ActionResult<List<AutoCreateChecklistPreviewDto>>> GetPreview(
+        [FromQuery] List<Guid> categoryIds)
+    {
+        var preview = await _autoCreateService.GetPreviewAsync(categoryIds);
+        return Ok(preview);
+    }
+
+    /// <summary>
+    /// Generate checklists for an event from the selected AutoCreate templates
+    /// Templates that can't be used are returned as skipped, with a reason
+    /// </summary>
+    /// <param name="request">Event and templates to generate</param>
+    /// <returns>Created checklists and skipped templates</returns>
+    [HttpPost]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<AutoCreateResultDto>> AutoCreate(
+        [FromBody] AutoCreateChecklistsRequest request)
+    {
+        var userContext = GetUserContext();
+
+        // Readonly users cannot create checklists
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to auto-create checklists",
+                userContext.Email);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot create checklists"
+            });
+        }
+
+        try
+        {
+            var result = await _autoCreateService.AutoCreateAsync(request, userContext);
+            return Ok(result);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
@@ -0,0 +1,101 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// ChecklistCarryForwardController - API endpoint for rolling checklists into another operational period
+///
+/// Purpose:
+///   Copies selected checklists into a target operational period in one call.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/checklists/carry-forward
+///
+/// Endpoints:
+///   POST /api/checklists/carry-forward - Carry checklists forward (Contributor or Manage role)
+///
+/// Error Handling:
+///   - 400 Bad Request: Validation failures
+///   - 403 Forbidden: Readonly users
+///   - 404 Not Found: Target operational period doesn't exist or is archived
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+[ApiController]
+[Route("api/checklists/carry-forward")]
+public class ChecklistCarryForwardController : ControllerBase
+{
+    private readonly IChecklistCarryForwardService _carryForwardService;
+    private readonly ILogger<ChecklistCarryForwardController> _logger;
+
+    public ChecklistCarryForwardController(
+        IChecklistCarryForwardService carryForwardService,
+        ILogger<ChecklistCarryForwardController> logger)
+    {
+        _carryForwardService = carryForwardService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Copy checklists into the target operational period
+    /// Checklists that can't be carried forward are returned as skipped, with a reason
+    /// </summary>
+    /// <param name="request">Checklists, target period and copy options</param>
+    /// <returns>Created and skipped checklists</returns>
+    [HttpPost]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<CarryForwardResultDto>> CarryForward(
+        [FromBody] CarryForwardChecklistsRequest request)
+    {
+        var userContext = GetUserContext();
+
+        // Readonly users cannot create checklists
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to carry forward checklists",
+                userContext.Email);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot carry forward checklists"
+            });
+        }
+
+        try
+        {
+            var result = await _carryForwardService.CarryForwardAsync(request, userContext);
+            return Ok(result);
+        }
+        catch (KeyNotFoundException ex)
+        {
+            return NotFound(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
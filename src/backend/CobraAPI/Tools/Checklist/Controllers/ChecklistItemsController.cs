@@ -8,7 +8,9 @@ namespace CobraAPI.Tools.Checklist.Controllers;
 ///
 /// Purpose:
 ///   Provides RESTful endpoints for individual checklist item operations.
-///   Enables users to mark items complete, update status, and add notes.
+///   Enables users to mark items complete, update status, capture values, and add notes,
+///   one item at a time or many at once.
+///   Managers can add, remove and reorder the items of a live checklist.
 ///   Thin controller pattern: validation and routing only, business logic in service.
 ///
 /// Base Route: /api/checklists/{checklistId}/items
@@ -17,7 +19,16 @@ namespace CobraAPI.Tools.Checklist.Controllers;
 ///   GET   /api/checklists/{checklistId}/items/{itemId}            - Get single item
 ///   PATCH /api/checklists/{checklistId}/items/{itemId}/completion - Update completion status
 ///   PATCH /api/checklists/{checklistId}/items/{itemId}/status     - Update status value
-///   PATCH /api/checklists/{checklistId}/items/{itemId}/notes      - Update notes
+///   PATCH /api/checklists/{checklistId}/items/{itemId}/value      - Capture typed value
+///   POST  /api/checklists/{checklistId}/items/bulk                - Bulk complete/uncomplete/set status
+///   GET    /api/checklists/{checklistId}/items/{itemId}/notes          - Get note thread
+///   POST   /api/checklists/{checklistId}/items/{itemId}/notes          - Add note
+///   PUT    /api/checklists/{checklistId}/items/{itemId}/notes/{noteId} - Edit own note
+///   DELETE /api/checklists/{checklistId}/items/{itemId}/notes/{noteId} - Delete own note
+///   GET    /api/checklists/{checklistId}/items/{itemId}/history        - Get change history
+///   POST   /api/checklists/{checklistId}/items                         - Add item (Manage)
+///   DELETE /api/checklists/{checklistId}/items/{itemId}                - Remove item (Manage)
+///   PUT    /api/checklists/{checklistId}/items/reorder                 - Reorder items (Manage)
 ///
 /// User Context:
 ///   Automatically injected by MockUserMiddleware (POC)
@@ -28,8 +39,9 @@ namespace CobraAPI.Tools.Checklist.Controllers;
 ///   Service throws UnauthorizedAccessException if user position not allowed.
 ///
 /// Progress Tracking:
-///   Completion and status updates automatically trigger progress recalculation.
-///   Notes-only updates do NOT trigger progress recalculation.
+///   Completion, status and value updates automatically trigger progress recalculation.
+///   Adding and removing items also recalculates progress.
+///   Note operations do NOT trigger progress recalculation.
 ///
 /// Error Handling:
 ///   - 400 Bad Request: Validation failures
@@ -38,7 +50,7 @@ namespace CobraAPI.Tools.Checklist.Controllers;
 ///   - 500 Internal Server Error: Unhandled exceptions (logged to App Insights)
 ///
 /// Author: Checklist POC Team
-/// Last Modified: 2025-11-20
+/// Last Modified: 2026-10-19
 /// </summary>
 [ApiController]
 [Route("api/checklists/{checklistId:guid}/items")]
@@ -240,23 +252,23 @@ public class ChecklistItemsController : ControllerBase
     }
 
     /// <summary>
-    /// Update notes on any checklist item
-    /// Works for both checkbox and status items
-    /// Does NOT trigger progress recalculation
+    /// Capture the value of a number, text, datetime or yesno item
+    /// Validates the value (number range, yes/no answers); an empty value clears it
+    /// Triggers progress recalculation (value items count as complete once captured)
     /// </summary>
     /// <param name="checklistId">Checklist GUID</param>
     /// <param name="itemId">Item GUID</param>
-    /// <param name="request">Notes data</param>
+    /// <param name="request">Value data (Value, optional Notes)</param>
     /// <returns>Updated item</returns>
-    [HttpPatch("{itemId:guid}/notes")]
+    [HttpPatch("{itemId:guid}/value")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     [ProducesResponseType(StatusCodes.Status400BadRequest)]
     [ProducesResponseType(StatusCodes.Status403Forbidden)]
     [ProducesResponseType(StatusCodes.Status404NotFound)]
-    public async Task<ActionResult<ChecklistItemDto>> UpdateItemNotes(
+    public async Task<ActionResult<ChecklistItemDto>> UpdateItemValue(
         Guid checklistId,
         Guid itemId,
-        [FromBody] UpdateItemNotesRequest request)
+        [FromBody] UpdateItemValueRequest request)
     {
         if (!ModelState.IsValid)
         {
@@ -269,7 +281,7 @@ public class ChecklistItemsController : ControllerBase
         if (userContext.IsReadonly)
         {
             _logger.LogWarning(
-                "Readonly user {User} attempted to update item notes",
+                "Readonly user {User} attempted to update item value",
                 userContext.Email);
             return StatusCode(StatusCodes.Status403Forbidden, new
             {
@@ -279,7 +291,7 @@ public class ChecklistItemsController : ControllerBase
 
         try
         {
-            var item = await _itemService.UpdateItemNotesAsync(
+            var item = await _itemService.UpdateItemValueAsync(
                 checklistId,
                 itemId,
                 request,
@@ -298,12 +310,17 @@ public class ChecklistItemsController : ControllerBase
             }
 
             _logger.LogInformation(
-                "Item {ItemId} notes updated by {User}",
+                "Item {ItemId} value updated by {User}",
                 itemId,
                 userContext.Email);
 
             return Ok(item);
         }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid operation for item {ItemId}", itemId);
+            return BadRequest(new { message = ex.Message });
+        }
         catch (UnauthorizedAccessException ex)
         {
             _logger.LogWarning(ex, "Unauthorized access attempt for item {ItemId}", itemId);
@@ -311,6 +328,456 @@ public class ChecklistItemsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Mark many items complete/incomplete or set their status in one call
+    /// Items the user may not change (position, prerequisites, wrong type) are
+    /// skipped and listed in FailedItems; the rest are saved
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Selected item IDs, action and target status</param>
+    /// <returns>Updated and rejected items</returns>
+    [HttpPost("bulk")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<BulkUpdateItemsResultDto>> BulkUpdateItems(
+        Guid checklistId,
+        [FromBody] BulkUpdateItemsRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        // Readonly users cannot modify items
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted a bulk item update",
+                userContext.Email);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot modify checklist items"
+            });
+        }
+
+        try
+        {
+            var result = await _itemService.BulkUpdateItemsAsync(checklistId, request, userContext);
+
+            if (result == null)
+            {
+                return NotFound(new { message = $"Checklist {checklistId} not found" });
+            }
+
+            return Ok(result);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid bulk update of checklist {ChecklistId}", checklistId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Get an item's note thread, oldest first
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <returns>Notes with author and edit details</returns>
+    [HttpGet("{itemId:guid}/notes")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<ItemNoteDto>>> GetItemNotes(Guid checklistId, Guid itemId)
+    {
+        var notes = await _itemService.GetNotesAsync(checklistId, itemId);
+
+        if (notes == null)
+        {
+            return NotFound(new
+            {
+                message = $"Item {itemId} not found in checklist {checklistId}"
+            });
+        }
+
+        return Ok(notes);
+    }
+
+    /// <summary>
+    /// Get an item's change history, oldest first
+    /// Includes completion toggles, status and value changes, and notes added,
+    /// edited or deleted, each with user, position and time
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <returns>History entries</returns>
+    [HttpGet("{itemId:guid}/history")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<ItemStatusHistoryDto>>> GetItemHistory(Guid checklistId, Guid itemId)
+    {
+        var history = await _itemService.GetItemHistoryAsync(checklistId, itemId);
+
+        if (history == null)
+        {
+            return NotFound(new
+            {
+                message = $"Item {itemId} not found in checklist {checklistId}"
+            });
+        }
+
+        return Ok(history);
+    }
+
+    /// <summary>
+    /// Add a note to any checklist item
+    /// Does NOT trigger progress recalculation
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="request">Note text</param>
+    /// <returns>Created note</returns>
+    [HttpPost("{itemId:guid}/notes")]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ItemNoteDto>> AddItemNote(
+        Guid checklistId,
+        Guid itemId,
+        [FromBody] AddItemNoteRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        // Readonly users cannot modify items
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to add an item note",
+                userContext.Email);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot modify checklist items"
+            });
+        }
+
+        try
+        {
+            var note = await _itemService.AddNoteAsync(
+                checklistId,
+                itemId,
+                request,
+                userContext);
+
+            if (note == null)
+            {
+                _logger.LogWarning(
+                    "Item {ItemId} not found in checklist {ChecklistId}",
+                    itemId,
+                    checklistId);
+                return NotFound(new
+                {
+                    message = $"Item {itemId} not found in checklist {checklistId}"
+                });
+            }
+
+            return CreatedAtAction(nameof(GetItemNotes), new { checklistId, itemId }, note);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid note for item {ItemId}", itemId);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized access attempt for item {ItemId}", itemId);
+            return Forbid();
+        }
+    }
+
+    /// <summary>
+    /// Edit a note
+    /// Only the note's author can edit it; the note is marked as edited
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="noteId">Note GUID</param>
+    /// <param name="request">New note text</param>
+    /// <returns>Updated note</returns>
+    [HttpPut("{itemId:guid}/notes/{noteId:guid}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ItemNoteDto>> UpdateItemNote(
+        Guid checklistId,
+        Guid itemId,
+        Guid noteId,
+        [FromBody] UpdateItemNoteRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        // Readonly users cannot modify items
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to edit note {NoteId}",
+                userContext.Email,
+                noteId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot modify checklist items"
+            });
+        }
+
+        try
+        {
+            var note = await _itemService.UpdateNoteAsync(
+                checklistId,
+                itemId,
+                noteId,
+                request,
+                userContext);
+
+            if (note == null)
+            {
+                return NotFound(new { message = $"Note {noteId} not found" });
+            }
+
+            return Ok(note);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid edit of note {NoteId}", noteId);
+            return BadRequest(new { message = ex.Message });
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized edit attempt for note {NoteId}", noteId);
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Delete a note
+    /// Only the note's author can delete it
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="noteId">Note GUID</param>
+    [HttpDelete("{itemId:guid}/notes/{noteId:guid}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> DeleteItemNote(Guid checklistId, Guid itemId, Guid noteId)
+    {
+        var userContext = GetUserContext();
+
+        // Readonly users cannot modify items
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to delete note {NoteId}",
+                userContext.Email,
+                noteId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot modify checklist items"
+            });
+        }
+
+        try
+        {
+            var deleted = await _itemService.DeleteNoteAsync(checklistId, itemId, noteId, userContext);
+
+            if (!deleted)
+            {
+                return NotFound(new { message = $"Note {noteId} not found" });
+            }
+
+            return NoContent();
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            _logger.LogWarning(ex, "Unauthorized delete attempt for note {NoteId}", noteId);
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Note {NoteId} could not be deleted", noteId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Add an item to a live checklist (Manage role only)
+    /// Placed after InsertAfterItemId, or at the end
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Item data and position</param>
+    /// <returns>Created item</returns>
+    [HttpPost]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ChecklistItemDto>> AddItem(
+        Guid checklistId,
+        [FromBody] AddChecklistItemRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            _logger.LogWarning(
+                "User {User} with role {Role} attempted to add an item to checklist {ChecklistId}",
+                userContext.Email,
+                userContext.Role,
+                checklistId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Only users with Manage permission can add checklist items"
+            });
+        }
+
+        try
+        {
+            var item = await _itemService.AddItemAsync(checklistId, request, userContext);
+
+            if (item == null)
+            {
+                return NotFound(new { message = $"Checklist {checklistId} not found" });
+            }
+
+            return CreatedAtAction(nameof(GetItem), new { checklistId, itemId = item.Id }, item);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid item for checklist {ChecklistId}", checklistId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Remove an item from a live checklist (Manage role only)
+    /// The item is soft deleted; its history stays in the activity feed
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    [HttpDelete("{itemId:guid}")]
+    [ProducesResponseType(StatusCodes.Status204NoContent)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<IActionResult> RemoveItem(Guid checklistId, Guid itemId)
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            _logger.LogWarning(
+                "User {User} with role {Role} attempted to remove item {ItemId}",
+                userContext.Email,
+                userContext.Role,
+                itemId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Only users with Manage permission can remove checklist items"
+            });
+        }
+
+        try
+        {
+            var removed = await _itemService.RemoveItemAsync(checklistId, itemId, userContext);
+
+            if (!removed)
+            {
+                return NotFound(new
+                {
+                    message = $"Item {itemId} not found in checklist {checklistId}"
+                });
+            }
+
+            return NoContent();
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Cannot remove item {ItemId}", itemId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// Reorder the items of a live checklist (Manage role only)
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Every item ID, in the new order</param>
+    /// <returns>Items in their new order</returns>
+    [HttpPut("reorder")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<ChecklistItemDto>>> ReorderItems(
+        Guid checklistId,
+        [FromBody] ReorderItemsRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            _logger.LogWarning(
+                "User {User} with role {Role} attempted to reorder items of checklist {ChecklistId}",
+                userContext.Email,
+                userContext.Role,
+                checklistId);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Only users with Manage permission can reorder checklist items"
+            });
+        }
+
+        try
+        {
+            var items = await _itemService.ReorderItemsAsync(checklistId, request, userContext);
+
+            if (items == null)
+            {
+                return NotFound(new { message = $"Checklist {checklistId} not found" });
+            }
+
+            return Ok(items);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Invalid reorder of checklist {ChecklistId}", checklistId);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Extract UserContext from HttpContext (injected by middleware)
     /// Falls back to default if not found (should never happen in POC)
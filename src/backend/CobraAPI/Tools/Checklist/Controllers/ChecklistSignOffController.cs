@@ -0,0 +1,215 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// ChecklistSignOffController - API endpoints for the checklist sign-off workflow
+///
+/// Purpose:
+///   Submit a completed checklist for sign-off, sign it off (locking it) and
+///   reopen it. Every step is recorded in the checklist's activity feed.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/checklists/{id}
+///
+/// Endpoints:
+///   POST /api/checklists/{id}/submit-sign-off  - Submit for sign-off (Contributor or Manage role)
+///   POST /api/checklists/{id}/sign-off         - Sign off (Manage role, not the submitter)
+///   POST /api/checklists/{id}/reopen           - Reopen with a reason (Manage role)
+///
+/// Error Handling:
+///   - 400 Bad Request: Invalid transition, required items left, bad signature or missing reason
+///   - 403 Forbidden: Readonly users, missing Manage role, or signing off own submission
+///   - 404 Not Found: Checklist doesn't exist
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+[ApiController]
+[Route("api/checklists/{id:guid}")]
+public class ChecklistSignOffController : ControllerBase
+{
+    private readonly IChecklistSignOffService _signOffService;
+    private readonly ILogger<ChecklistSignOffController> _logger;
+
+    public ChecklistSignOffController(
+        IChecklistSignOffService signOffService,
+        ILogger<ChecklistSignOffController> logger)
+    {
+        _signOffService = signOffService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Submit a checklist for supervisor sign-off once every required item is done
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <returns>Updated checklist</returns>
+    [HttpPost("submit-sign-off")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ChecklistInstanceDto>> SubmitForSignOff(Guid id)
+    {
+        var userContext = GetUserContext();
+
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to submit checklist {ChecklistId} for sign-off",
+                userContext.Email,
+                id);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot submit checklists for sign-off"
+            });
+        }
+
+        return await RunSignOffAction(
+            id,
+            "submitted for sign-off",
+            userContext,
+            () => _signOffService.SubmitForSignOffAsync(id, userContext));
+    }
+
+    /// <summary>
+    /// Sign off a submitted checklist (Manage role, not the submitter)
+    /// Records the supervisor's name, position and time; the checklist becomes read-only
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="request">Optional drawn signature</param>
+    /// <returns>Updated checklist</returns>
+    [HttpPost("sign-off")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ChecklistInstanceDto>> SignOff(
+        Guid id,
+        [FromBody] SignOffChecklistRequest? request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("sign off checklists");
+        }
+
+        return await RunSignOffAction(
+            id,
+            "signed off",
+            userContext,
+            () => _signOffService.SignOffAsync(id, request?.Signature, userContext));
+    }
+
+    /// <summary>
+    /// Reopen a submitted or signed-off checklist (Manage role)
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="request">Reason for reopening (required)</param>
+    /// <returns>Updated checklist</returns>
+    [HttpPost("reopen")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ChecklistInstanceDto>> Reopen(
+        Guid id,
+        [FromBody] ReopenChecklistRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("reopen checklists");
+        }
+
+        return await RunSignOffAction(
+            id,
+            "reopened",
+            userContext,
+            () => _signOffService.ReopenAsync(id, request.Reason, userContext));
+    }
+
+    /// <summary>
+    /// Run a sign-off action and translate service exceptions to HTTP responses
+    /// </summary>
+    private async Task<ActionResult<ChecklistInstanceDto>> RunSignOffAction(
+        Guid id,
+        string actionName,
+        UserContext userContext,
+        Func<Task<ChecklistInstanceDto?>> action)
+    {
+        try
+        {
+            var checklist = await action();
+
+            if (checklist == null)
+            {
+                return NotFound(new { message = $"Checklist {id} not found" });
+            }
+
+            _logger.LogInformation(
+                "Checklist {ChecklistId} {Action} by {User}",
+                id,
+                actionName,
+                userContext.Email);
+
+            return Ok(checklist);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+        catch (Exception ex) when (ex is InvalidOperationException or ArgumentException)
+        {
+            _logger.LogWarning(ex, "Checklist {ChecklistId} could not be {Action}", id, actionName);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// 403 response for users without Manage role
+    /// </summary>
+    private ObjectResult ManageRoleRequired(string action)
+    {
+        return StatusCode(StatusCodes.Status403Forbidden, new
+        {
+            message = $"Only users with Manage role can {action}"
+        });
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
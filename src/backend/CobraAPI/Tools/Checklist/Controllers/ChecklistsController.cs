@@ -1,4 +1,6 @@
+using System.ComponentModel.DataAnnotations;
 using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
 using Microsoft.AspNetCore.Mvc;
 
 namespace CobraAPI.Tools.Checklist.Controllers;
@@ -20,11 +22,12 @@ namespace CobraAPI.Tools.Checklist.Controllers;
 ///   GET    /api/checklists/archived                   - Get all archived checklists (Manage role)
 ///   GET    /api/checklists/event/{eventId}/archived   - Get archived checklists for event (Manage role)
 ///   POST   /api/checklists                            - Create checklist from template
+///   POST   /api/checklists/combined                   - Create one checklist from several templates
 ///   PUT    /api/checklists/{id}                       - Update checklist metadata
 ///   DELETE /api/checklists/{id}                       - Archive checklist (Contributor=own only, Manage=any)
 ///   POST   /api/checklists/{id}/restore               - Restore archived checklist (Manage role)
 ///   DELETE /api/checklists/{id}/permanent             - Permanently delete checklist (Manage role)
-///   POST   /api/checklists/{id}/clone                 - Clone checklist
+///   POST   /api/checklists/{id}/clone                 - Clone checklist (optionally into another operational period)
 ///
 /// User Context:
 ///   Automatically injected by MockUserMiddleware (POC)
@@ -59,14 +62,16 @@ public class ChecklistsController : ControllerBase
     /// Filters by AssignedPositions field (null = visible to all)
     /// </summary>
     /// <param name="includeArchived">Include archived checklists (default: false)</param>
+    /// <param name="changedSince">Only checklists created or changed after this time (UTC), for reconnect catch-up</param>
     /// <returns>List of checklists visible to this user</returns>
     [HttpGet("my-checklists")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     public async Task<ActionResult<List<ChecklistInstanceDto>>> GetMyChecklists(
-        [FromQuery] bool includeArchived = false)
+        [FromQuery] bool includeArchived = false,
+        [FromQuery] DateTime? changedSince = null)
     {
         var userContext = GetUserContext();
-        var checklists = await _checklistService.GetMyChecklistsAsync(userContext, includeArchived);
+        var checklists = await _checklistService.GetMyChecklistsAsync(userContext, includeArchived, changedSince);
         return Ok(checklists);
     }
 
@@ -91,22 +96,73 @@ public class ChecklistsController : ControllerBase
         return Ok(checklist);
     }
 
+    /// <summary>
+    /// Get the checklist's activity feed (item history and metadata changes), newest first
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="since">Only changes made after this time (UTC), for live refresh</param>
+    /// <returns>Activity entries</returns>
+    [HttpGet("{id:guid}/activity")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<ChecklistActivityDto>>> GetChecklistActivity(
+        Guid id,
+        [FromQuery] DateTime? since = null)
+    {
+        var activity = await _checklistService.GetChecklistActivityAsync(id, since);
+
+        if (activity == null)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found for activity", id);
+            return NotFound(new { message = $"Checklist {id} not found" });
+        }
+
+        return Ok(activity);
+    }
+
+    /// <summary>
+    /// Get what changed on a checklist since a time (metadata, progress and changed items)
+    /// Used to catch up after a real-time reconnect without reloading the checklist
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="since">Time (UTC) of the last real-time message the client saw</param>
+    /// <returns>Checklist changes</returns>
+    [HttpGet("{id:guid}/changes")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<ChecklistChangesDto>> GetChecklistChanges(
+        Guid id,
+        [FromQuery] DateTime since)
+    {
+        var changes = await _checklistService.GetChecklistChangesAsync(id, since);
+
+        if (changes == null)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found for changes", id);
+            return NotFound(new { message = $"Checklist {id} not found" });
+        }
+
+        return Ok(changes);
+    }
+
     /// <summary>
     /// Get all checklists for a specific event (filtered by user position)
     /// </summary>
     /// <param name="eventId">Event identifier</param>
     /// <param name="includeArchived">Include archived checklists (default: false)</param>
     /// <param name="showAll">If true and user has Manage role, shows all checklists regardless of position (default: false)</param>
+    /// <param name="changedSince">Only checklists created or changed after this time (UTC), for reconnect catch-up</param>
     /// <returns>List of checklists for this event visible to the current user</returns>
     [HttpGet("event/{eventId}")]
     [ProducesResponseType(StatusCodes.Status200OK)]
     public async Task<ActionResult<List<ChecklistInstanceDto>>> GetChecklistsByEvent(
         Guid eventId,
         [FromQuery] bool includeArchived = false,
-        [FromQuery] bool? showAll = null)
+        [FromQuery] bool? showAll = null,
+        [FromQuery] DateTime? changedSince = null)
     {
         var userContext = GetUserContext();
-        var checklists = await _checklistService.GetChecklistsByEventAsync(eventId, userContext, includeArchived, showAll);
+        var checklists = await _checklistService.GetChecklistsByEventAsync(eventId, userContext, includeArchived, showAll, changedSince);
         return Ok(checklists);
     }
 
@@ -184,6 +240,59 @@ public class ChecklistsController : ControllerBase
         }
     }
 
+    /// <summary>
+    /// Create one checklist from several templates (items merged in template order)
+    /// </summary>
+    /// <param name="request">Templates to combine, items to leave out and event data</param>
+    /// <returns>Newly created checklist</returns>
+    [HttpPost("combined")]
+    [ProducesResponseType(StatusCodes.Status201Created)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<ChecklistInstanceDto>> CreateCombined(
+        [FromBody] CreateCombinedChecklistRequest request)
+    {
+        if (!ModelState.IsValid)
+        {
+            return BadRequest(ModelState);
+        }
+
+        var userContext = GetUserContext();
+
+        // Readonly users cannot create checklists
+        if (userContext.IsReadonly)
+        {
+            _logger.LogWarning(
+                "Readonly user {User} attempted to create combined checklist",
+                userContext.Email);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Readonly users cannot create checklists"
+            });
+        }
+
+        try
+        {
+            var checklist = await _checklistService.CreateCombinedAsync(request, userContext);
+
+            _logger.LogInformation(
+                "Combined checklist {ChecklistId} created from {TemplateCount} templates by {User}",
+                checklist.Id,
+                request.TemplateIds.Count,
+                userContext.Email);
+
+            return CreatedAtAction(
+                nameof(GetChecklist),
+                new { id = checklist.Id },
+                checklist);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Failed to create combined checklist");
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
     /// <summary>
     /// Update checklist metadata (name, event, operational period, positions)
     /// </summary>
@@ -219,20 +328,28 @@ public class ChecklistsController : ControllerBase
             });
         }
 
-        var checklist = await _checklistService.UpdateChecklistAsync(id, request, userContext);
-
-        if (checklist == null)
+        try
         {
-            _logger.LogWarning("Checklist {ChecklistId} not found for update", id);
-            return NotFound(new { message = $"Checklist {id} not found" });
-        }
+            var checklist = await _checklistService.UpdateChecklistAsync(id, request, userContext);
 
-        _logger.LogInformation(
-            "Checklist {ChecklistId} updated by {User}",
-            id,
-            userContext.Email);
+            if (checklist == null)
+            {
+                _logger.LogWarning("Checklist {ChecklistId} not found for update", id);
+                return NotFound(new { message = $"Checklist {id} not found" });
+            }
 
-        return Ok(checklist);
+            _logger.LogInformation(
+                "Checklist {ChecklistId} updated by {User}",
+                id,
+                userContext.Email);
+
+            return Ok(checklist);
+        }
+        catch (InvalidOperationException ex)
+        {
+            _logger.LogWarning(ex, "Checklist {ChecklistId} could not be updated", id);
+            return BadRequest(new { message = ex.Message });
+        }
     }
 
     /// <summary>
@@ -471,7 +588,13 @@ public class ChecklistsController : ControllerBase
             request.NewName,
             request.PreserveStatus,
             userContext,
-            request.AssignedPositions);
+            request.AssignedPositions,
+            new ChecklistCloneOptions
+            {
+                SetOperationalPeriod = request.SetOperationalPeriod,
+                OperationalPeriodId = request.OperationalPeriodId,
+                OperationalPeriodName = request.OperationalPeriodName
+            });
 
         if (clone == null)
         {
@@ -537,4 +660,22 @@ public record CloneChecklistRequest
     /// If null/empty, inherits from original checklist
     /// </summary>
     public string? AssignedPositions { get; init; }
+
+    /// <summary>
+    /// Whether to place the copy in OperationalPeriodId/OperationalPeriodName (default: false)
+    /// - false: inherits the original checklist's operational period
+    /// - true: uses the given period (null OperationalPeriodId = incident-level)
+    /// </summary>
+    public bool SetOperationalPeriod { get; init; } = false;
+
+    /// <summary>
+    /// Operational period for the copy (only used when SetOperationalPeriod is true)
+    /// </summary>
+    public Guid? OperationalPeriodId { get; init; }
+
+    /// <summary>
+    /// Operational period name for the copy (only used when SetOperationalPeriod is true)
+    /// </summary>
+    [MaxLength(200)]
+    public string? OperationalPeriodName { get; init; }
 }
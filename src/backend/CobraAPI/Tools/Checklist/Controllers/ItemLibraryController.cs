@@ -1,5 +1,6 @@
 using Microsoft.AspNetCore.Mvc;
 using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
 
 namespace CobraAPI.Tools.Checklist.Controllers;
 
@@ -25,7 +26,7 @@ public class ItemLibraryController : ControllerBase
     /// Get all library items with optional filtering and sorting
     /// </summary>
     /// <param name="category">Filter by category (e.g., "Safety", "Logistics")</param>
-    /// <param name="itemType">Filter by item type ("checkbox" or "status")</param>
+    /// <param name="itemType">Filter by item type ("checkbox", "status", "number", "text", "datetime" or "yesno")</param>
     /// <param name="searchText">Search in item text and tags</param>
     /// <param name="sortBy">Sort order: "recent", "popular", "alphabetical" (default: "recent")</param>
     /// <returns>List of library items matching the filters</returns>
@@ -87,6 +88,13 @@ public class ItemLibraryController : ControllerBase
             return BadRequest(ModelState);
         }
 
+        var valueConfigurationError = ItemValueHelper.ValidateConfiguration(
+            request.ItemText, request.ItemType, request.ValueConfiguration);
+        if (valueConfigurationError != null)
+        {
+            return BadRequest(new { message = valueConfigurationError });
+        }
+
         try
         {
             var item = await _service.CreateLibraryItemAsync(request);
@@ -124,6 +132,13 @@ public class ItemLibraryController : ControllerBase
             return BadRequest(ModelState);
         }
 
+        var valueConfigurationError = ItemValueHelper.ValidateConfiguration(
+            request.ItemText, request.ItemType, request.ValueConfiguration);
+        if (valueConfigurationError != null)
+        {
+            return BadRequest(new { message = valueConfigurationError });
+        }
+
         try
         {
             var item = await _service.UpdateLibraryItemAsync(id, request);
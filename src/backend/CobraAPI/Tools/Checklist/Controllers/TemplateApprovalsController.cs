@@ -0,0 +1,247 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// TemplateApprovalsController - API endpoints for the template approval workflow
+///
+/// Purpose:
+///   Submit, approve and reject templates, list the approver queue and
+///   show approval history.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/templates
+///
+/// Endpoints:
+///   GET  /api/templates/pending-approval       - Approver queue (Manage role)
+///   POST /api/templates/{id}/submit            - Submit for approval (Manage role)
+///   POST /api/templates/{id}/approve           - Approve (Manage role, not the submitter)
+///   POST /api/templates/{id}/reject            - Reject with comment (Manage role, not the submitter)
+///   GET  /api/templates/{id}/approval-history  - Approval history
+///
+/// Error Handling:
+///   - 400 Bad Request: Invalid lifecycle transition or missing rejection comment
+///   - 403 Forbidden: Missing Manage role, or reviewing own submission
+///   - 404 Not Found: Template doesn't exist
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+[ApiController]
+[Route("api/templates")]
+public class TemplateApprovalsController : ControllerBase
+{
+    private readonly ITemplateApprovalService _approvalService;
+    private readonly ILogger<TemplateApprovalsController> _logger;
+
+    public TemplateApprovalsController(
+        ITemplateApprovalService approvalService,
+        ILogger<TemplateApprovalsController> logger)
+    {
+        _approvalService = approvalService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get templates waiting for approval (Manage role)
+    /// </summary>
+    /// <returns>Pending templates, oldest submission first</returns>
+    [HttpGet("pending-approval")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    public async Task<ActionResult<List<TemplateDto>>> GetPendingTemplates()
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("view the approval queue");
+        }
+
+        var templates = await _approvalService.GetPendingTemplatesAsync();
+        return Ok(templates);
+    }
+
+    /// <summary>
+    /// Submit a draft or rejected template for approval (Manage role)
+    /// </summary>
+    /// <param name="id">Template GUID</param>
+    /// <param name="request">Optional note to the approver</param>
+    /// <returns>Updated template</returns>
+    [HttpPost("{id:guid}/submit")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TemplateDto>> SubmitForApproval(
+        Guid id,
+        [FromBody] TemplateApprovalRequest? request)
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("submit templates for approval");
+        }
+
+        return await RunApprovalAction(
+            id,
+            "submitted",
+            userContext,
+            () => _approvalService.SubmitForApprovalAsync(id, request?.Comment, userContext));
+    }
+
+    /// <summary>
+    /// Approve a pending template (Manage role, not the submitter)
+    /// </summary>
+    /// <param name="id">Template GUID</param>
+    /// <param name="request">Optional approval comment</param>
+    /// <returns>Updated template</returns>
+    [HttpPost("{id:guid}/approve")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TemplateDto>> Approve(
+        Guid id,
+        [FromBody] TemplateApprovalRequest? request)
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("approve templates");
+        }
+
+        return await RunApprovalAction(
+            id,
+            "approved",
+            userContext,
+            () => _approvalService.ApproveAsync(id, request?.Comment, userContext));
+    }
+
+    /// <summary>
+    /// Reject a pending template with a comment (Manage role, not the submitter)
+    /// </summary>
+    /// <param name="id">Template GUID</param>
+    /// <param name="request">Reason for rejection (required)</param>
+    /// <returns>Updated template</returns>
+    [HttpPost("{id:guid}/reject")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status400BadRequest)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TemplateDto>> Reject(
+        Guid id,
+        [FromBody] TemplateApprovalRequest request)
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            return ManageRoleRequired("reject templates");
+        }
+
+        if (string.IsNullOrWhiteSpace(request.Comment))
+        {
+            return BadRequest(new { message = "A comment is required when rejecting a template" });
+        }
+
+        return await RunApprovalAction(
+            id,
+            "rejected",
+            userContext,
+            () => _approvalService.RejectAsync(id, request.Comment, userContext));
+    }
+
+    /// <summary>
+    /// Get approval history for a template
+    /// </summary>
+    /// <param name="id">Template GUID</param>
+    /// <returns>History entries, newest first</returns>
+    [HttpGet("{id:guid}/approval-history")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<TemplateApprovalEventDto>>> GetApprovalHistory(Guid id)
+    {
+        var history = await _approvalService.GetApprovalHistoryAsync(id);
+
+        if (history == null)
+        {
+            return NotFound(new { message = $"Template {id} not found" });
+        }
+
+        return Ok(history);
+    }
+
+    /// <summary>
+    /// Run a lifecycle action and translate service exceptions to HTTP responses
+    /// </summary>
+    private async Task<ActionResult<TemplateDto>> RunApprovalAction(
+        Guid id,
+        string actionName,
+        UserContext userContext,
+        Func<Task<TemplateDto?>> action)
+    {
+        try
+        {
+            var template = await action();
+
+            if (template == null)
+            {
+                return NotFound(new { message = $"Template {id} not found" });
+            }
+
+            _logger.LogInformation(
+                "Template {TemplateId} {Action} by {User}",
+                id,
+                actionName,
+                userContext.Email);
+
+            return Ok(template);
+        }
+        catch (UnauthorizedAccessException ex)
+        {
+            return StatusCode(StatusCodes.Status403Forbidden, new { message = ex.Message });
+        }
+        catch (Exception ex) when (ex is InvalidOperationException or ArgumentException)
+        {
+            _logger.LogWarning(ex, "Template {TemplateId} could not be {Action}", id, actionName);
+            return BadRequest(new { message = ex.Message });
+        }
+    }
+
+    /// <summary>
+    /// 403 response for users without Manage role
+    /// </summary>
+    private ObjectResult ManageRoleRequired(string action)
+    {
+        return StatusCode(StatusCodes.Status403Forbidden, new
+        {
+            message = $"Only users with Manage role can {action}"
+        });
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
@@ -0,0 +1,148 @@
+using CobraAPI.Core.Models;
+using Microsoft.AspNetCore.Mvc;
+
+namespace CobraAPI.Tools.Checklist.Controllers;
+
+/// <summary>
+/// TemplateVersionsController - API endpoints for template version history
+///
+/// Purpose:
+///   Exposes the saved versions of a template and restores an older version.
+///   Thin controller pattern: validation and routing only, business logic in service.
+///
+/// Base Route: /api/templates/{templateId}/versions
+///
+/// Endpoints:
+///   GET  /api/templates/{templateId}/versions                  - List versions (newest first)
+///   GET  /api/templates/{templateId}/versions/{version}        - Get version with snapshot
+///   POST /api/templates/{templateId}/versions/{version}/restore - Restore as new version (Manage role)
+///
+/// Error Handling:
+///   - 403 Forbidden: Restore attempted without Manage role
+///   - 404 Not Found: Template or version doesn't exist
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+[ApiController]
+[Route("api/templates/{templateId:guid}/versions")]
+public class TemplateVersionsController : ControllerBase
+{
+    private readonly ITemplateVersionService _versionService;
+    private readonly ILogger<TemplateVersionsController> _logger;
+
+    public TemplateVersionsController(
+        ITemplateVersionService versionService,
+        ILogger<TemplateVersionsController> logger)
+    {
+        _versionService = versionService;
+        _logger = logger;
+    }
+
+    /// <summary>
+    /// Get version history for a template
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <returns>Versions newest first, without snapshots</returns>
+    [HttpGet]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<List<TemplateVersionDto>>> GetVersions(Guid templateId)
+    {
+        var versions = await _versionService.GetVersionsAsync(templateId);
+
+        if (versions == null)
+        {
+            return NotFound(new { message = $"Template {templateId} not found" });
+        }
+
+        return Ok(versions);
+    }
+
+    /// <summary>
+    /// Get a single version including the template snapshot
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="versionNumber">Version number</param>
+    /// <returns>Version with snapshot</returns>
+    [HttpGet("{versionNumber:int}")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TemplateVersionDto>> GetVersion(Guid templateId, int versionNumber)
+    {
+        var version = await _versionService.GetVersionAsync(templateId, versionNumber);
+
+        if (version == null)
+        {
+            return NotFound(new { message = $"Version {versionNumber} of template {templateId} not found" });
+        }
+
+        return Ok(version);
+    }
+
+    /// <summary>
+    /// Restore a previous version as a new version (Manage role)
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="versionNumber">Version number to restore</param>
+    /// <returns>Updated template</returns>
+    [HttpPost("{versionNumber:int}/restore")]
+    [ProducesResponseType(StatusCodes.Status200OK)]
+    [ProducesResponseType(StatusCodes.Status403Forbidden)]
+    [ProducesResponseType(StatusCodes.Status404NotFound)]
+    public async Task<ActionResult<TemplateDto>> RestoreVersion(Guid templateId, int versionNumber)
+    {
+        var userContext = GetUserContext();
+
+        if (!userContext.CanManage)
+        {
+            _logger.LogWarning(
+                "User {User} with role {Role} attempted to restore template {TemplateId} version {Version}",
+                userContext.Email,
+                userContext.Role,
+                templateId,
+                versionNumber);
+            return StatusCode(StatusCodes.Status403Forbidden, new
+            {
+                message = "Only users with Manage role can restore template versions"
+            });
+        }
+
+        var template = await _versionService.RestoreVersionAsync(templateId, versionNumber, userContext);
+
+        if (template == null)
+        {
+            return NotFound(new { message = $"Version {versionNumber} of template {templateId} not found" });
+        }
+
+        _logger.LogInformation(
+            "Template {TemplateId} version {Version} restored by {User}",
+            templateId,
+            versionNumber,
+            userContext.Email);
+
+        return Ok(template);
+    }
+
+    /// <summary>
+    /// Extract UserContext from HttpContext (injected by middleware)
+    /// Falls back to default if not found (should never happen in POC)
+    /// </summary>
+    private UserContext GetUserContext()
+    {
+        if (HttpContext.Items.TryGetValue("UserContext", out var context) &&
+            context is UserContext userContext)
+        {
+            return userContext;
+        }
+
+        _logger.LogWarning("UserContext not found in HttpContext, using default");
+        return new UserContext
+        {
+            Email = "unknown@cobra.mil",
+            FullName = "Unknown User",
+            Position = "Unknown",
+            IsAdmin = false
+        };
+    }
+}
@@ -1,4 +1,5 @@
 using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
 using Microsoft.AspNetCore.Mvc;
 
 namespace CobraAPI.Tools.Checklist.Controllers;
@@ -161,6 +162,23 @@ public class TemplatesController : ControllerBase
             return BadRequest(ModelState);
         }
 
+        if (!IsValidRecurrence(request.TemplateType, request.RecurrenceConfig))
+        {
+            return BadRequest(new { message = InvalidRecurrenceMessage });
+        }
+
+        var prerequisiteError = ItemPrerequisiteHelper.ValidateTemplatePrerequisites(request.Items);
+        if (prerequisiteError != null)
+        {
+            return BadRequest(new { message = prerequisiteError });
+        }
+
+        var valueConfigurationError = ItemValueHelper.ValidateTemplateItems(request.Items);
+        if (valueConfigurationError != null)
+        {
+            return BadRequest(new { message = valueConfigurationError });
+        }
+
         // Get user context from middleware
         var userContext = GetUserContext();
 
@@ -196,6 +214,23 @@ public class TemplatesController : ControllerBase
             return BadRequest(ModelState);
         }
 
+        if (!IsValidRecurrence(request.TemplateType, request.RecurrenceConfig))
+        {
+            return BadRequest(new { message = InvalidRecurrenceMessage });
+        }
+
+        var prerequisiteError = ItemPrerequisiteHelper.ValidateTemplatePrerequisites(request.Items);
+        if (prerequisiteError != null)
+        {
+            return BadRequest(new { message = prerequisiteError });
+        }
+
+        var valueConfigurationError = ItemValueHelper.ValidateTemplateItems(request.Items);
+        if (valueConfigurationError != null)
+        {
+            return BadRequest(new { message = valueConfigurationError });
+        }
+
         var userContext = GetUserContext();
 
         var template = await _templateService.UpdateTemplateAsync(id, request, userContext);
@@ -394,6 +429,18 @@ public class TemplatesController : ControllerBase
             duplicate);
     }
 
+    private const string InvalidRecurrenceMessage =
+        "Recurring templates need a valid schedule: every operational period, every 1-168 hours, or daily at a time (HH:mm)";
+
+    /// <summary>
+    /// Recurring templates must have a schedule the scheduler can run
+    /// </summary>
+    private static bool IsValidRecurrence(TemplateType? templateType, string? recurrenceConfig)
+    {
+        return templateType != TemplateType.Recurring
+            || RecurrenceScheduleHelper.Parse(recurrenceConfig) != null;
+    }
+
     /// <summary>
     /// Extract UserContext from HttpContext (injected by middleware)
     /// Falls back to default if not found (should never happen in POC)
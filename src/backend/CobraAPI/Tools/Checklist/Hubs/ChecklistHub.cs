@@ -8,10 +8,12 @@ namespace CobraAPI.Tools.Checklist.Hubs;
 public class ChecklistHub : Hub
 {
     private readonly ILogger<ChecklistHub> _logger;
+    private readonly IChecklistPresenceTracker _presence;
 
-    public ChecklistHub(ILogger<ChecklistHub> logger)
+    public ChecklistHub(ILogger<ChecklistHub> logger, IChecklistPresenceTracker presence)
     {
         _logger = logger;
+        _presence = presence;
     }
 
     /// <summary>
@@ -38,8 +40,91 @@ public class ChecklistHub : Hub
             "Connection {ConnectionId} left checklist {ChecklistId}",
             Context.ConnectionId,
             checklistId);
+
+        // Leaving the group also ends presence
+        await LeavePresence(checklistId);
+    }
+
+    /// <summary>
+    /// Announce that the caller is viewing a checklist
+    /// Broadcasts PresenceChanged with the checklist's viewers
+    /// </summary>
+    /// <param name="checklistId">Checklist being viewed</param>
+    /// <param name="email">Viewer's email</param>
+    /// <param name="fullName">Viewer's display name</param>
+    /// <param name="position">Viewer's ICS position</param>
+    public async Task JoinPresence(string checklistId, string email, string fullName, string position)
+    {
+        _presence.Join(checklistId, Context.ConnectionId, email, fullName, position, DateTime.UtcNow);
+        _logger.LogDebug(
+            "{Email} ({Position}) is viewing checklist {ChecklistId}",
+            email,
+            position,
+            checklistId);
+
+        await BroadcastPresenceAsync(checklistId);
     }
 
+    /// <summary>
+    /// Stop announcing presence on a checklist
+    /// </summary>
+    /// <param name="checklistId">Checklist no longer being viewed</param>
+    public async Task LeavePresence(string checklistId)
+    {
+        if (_presence.Leave(checklistId, Context.ConnectionId))
+        {
+            await BroadcastPresenceAsync(checklistId);
+        }
+    }
+
+    /// <summary>
+    /// Keep the caller's presence alive (clients send this every 30 seconds)
+    /// Also drops viewers whose heartbeats stopped.
+    /// </summary>
+    /// <param name="checklistId">Checklist being viewed</param>
+    /// <returns>False if the caller is not known as a viewer and should join again</returns>
+    public async Task<bool> PresenceHeartbeat(string checklistId)
+    {
+        await RemoveStaleViewersAsync();
+        return _presence.Heartbeat(checklistId, Context.ConnectionId, DateTime.UtcNow);
+    }
+
+    /// <summary>
+    /// Record that the caller opened (or closed) an item's notes dialog,
+    /// so others can see someone is already writing notes on it
+    /// </summary>
+    /// <param name="checklistId">Checklist ID</param>
+    /// <param name="itemId">Item whose notes are open, or null when closed</param>
+    public async Task SetNotesOpen(string checklistId, string? itemId)
+    {
+        if (_presence.SetNotesItem(checklistId, Context.ConnectionId, itemId))
+        {
+            await BroadcastPresenceAsync(checklistId);
+        }
+    }
+
+    /// <summary>
+    /// Current viewers of several checklists (checklist cards on list pages)
+    /// </summary>
+    /// <param name="checklistIds">Checklists to look up</param>
+    /// <returns>Viewers by checklist ID (checklists nobody is viewing are omitted)</returns>
+    public async Task<Dictionary<string, List<ChecklistViewerDto>>> GetPresence(List<string> checklistIds)
+    {
+        await RemoveStaleViewersAsync();
+        return checklistIds
+            .Distinct()
+            .Select(id => (Id: id, Viewers: _presence.GetViewers(id)))
+            .Where(entry => entry.Viewers.Count > 0)
+            .ToDictionary(entry => entry.Id, entry => entry.Viewers);
+    }
+
+    /// <summary>
+    /// Server clock (UTC), read by clients when they connect or reconnect.
+    /// Messages carry a sentAt timestamp on the same clock; after a reconnect
+    /// clients fetch changes made since the last message they saw.
+    /// </summary>
+    public DateTime GetServerTime() => DateTime.UtcNow;
+
     /// <summary>
     /// Broadcast item completion change to all users viewing the checklist
     /// </summary>
@@ -62,7 +147,8 @@ public class ChecklistHub : Hub
                 itemId,
                 isCompleted,
                 completedBy,
-                completedAt
+                completedAt,
+                sentAt = DateTime.UtcNow
             });
 
         _logger.LogDebug(
@@ -94,7 +180,8 @@ public class ChecklistHub : Hub
                 itemId,
                 newStatus,
                 changedBy,
-                changedAt
+                changedAt,
+                sentAt = DateTime.UtcNow
             });
 
         _logger.LogDebug(
@@ -104,37 +191,6 @@ public class ChecklistHub : Hub
             newStatus);
     }
 
-    /// <summary>
-    /// Broadcast item notes change to all users viewing the checklist
-    /// </summary>
-    /// <param name="checklistId">Checklist ID</param>
-    /// <param name="itemId">Item ID</param>
-    /// <param name="notes">Updated notes</param>
-    /// <param name="changedBy">User who changed the notes</param>
-    /// <param name="changedAt">Timestamp of change</param>
-    public async Task ItemNotesChanged(
-        string checklistId,
-        string itemId,
-        string notes,
-        string changedBy,
-        DateTime changedAt)
-    {
-        await Clients.Group(GetChecklistGroupName(checklistId))
-            .SendAsync("ItemNotesChanged", new
-            {
-                checklistId,
-                itemId,
-                notes,
-                changedBy,
-                changedAt
-            });
-
-        _logger.LogDebug(
-            "Broadcasted item notes change: Checklist {ChecklistId}, Item {ItemId}",
-            checklistId,
-            itemId);
-    }
-
     /// <summary>
     /// Broadcast checklist update (progress change, metadata change) to all users
     /// </summary>
@@ -146,7 +202,8 @@ public class ChecklistHub : Hub
             .SendAsync("ChecklistUpdated", new
             {
                 checklistId,
-                progressPercentage
+                progressPercentage,
+                sentAt = DateTime.UtcNow
             });
 
         _logger.LogDebug(
@@ -182,7 +239,8 @@ public class ChecklistHub : Hub
             eventName,
             positions,
             createdBy,
-            createdAt = DateTime.UtcNow
+            createdAt = DateTime.UtcNow,
+            sentAt = DateTime.UtcNow
         });
 
         _logger.LogInformation(
@@ -202,9 +260,36 @@ public class ChecklistHub : Hub
             Context.ConnectionId,
             exception?.Message ?? "None");
 
+        foreach (var checklistId in _presence.RemoveConnection(Context.ConnectionId))
+        {
+            await BroadcastPresenceAsync(checklistId);
+        }
+
         await base.OnDisconnectedAsync(exception);
     }
 
+    /// <summary>
+    /// Send a checklist's viewers to all clients (detail page and checklist cards)
+    /// </summary>
+    private async Task BroadcastPresenceAsync(string checklistId)
+    {
+        await Clients.All.SendAsync("PresenceChanged", new
+        {
+            checklistId,
+            viewers = _presence.GetViewers(checklistId),
+            sentAt = DateTime.UtcNow
+        });
+    }
+
+    private async Task RemoveStaleViewersAsync()
+    {
+        var cutoff = DateTime.UtcNow - ChecklistPresenceTracker.PresenceTimeout;
+        foreach (var checklistId in _presence.RemoveStale(cutoff))
+        {
+            await BroadcastPresenceAsync(checklistId);
+        }
+    }
+
     /// <summary>
     /// Get the SignalR group name for a checklist
     /// </summary>
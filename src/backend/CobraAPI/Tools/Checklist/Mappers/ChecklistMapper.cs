@@ -1,3 +1,4 @@
+using CobraAPI.Tools.Checklist.Services.Helpers;
 
 namespace CobraAPI.Tools.Checklist.Mappers;
 
@@ -40,11 +41,14 @@ public static class ChecklistMapper
             Id = checklist.Id,
             Name = checklist.Name,
             TemplateId = checklist.TemplateId,
+            TemplateVersion = checklist.TemplateVersion,
+            SourceTemplateIds = ChecklistCreationHelper.ParseSourceTemplateIds(checklist.SourceTemplateIds),
             EventId = checklist.EventId,
             EventName = checklist.EventName,
             OperationalPeriodId = checklist.OperationalPeriodId,
             OperationalPeriodName = checklist.OperationalPeriodName,
             AssignedPositions = checklist.AssignedPositions,
+            IsAutoCreated = checklist.IsAutoCreated,
             ProgressPercentage = checklist.ProgressPercentage,
             TotalItems = checklist.TotalItems,
             CompletedItems = checklist.CompletedItems,
@@ -53,6 +57,15 @@ public static class ChecklistMapper
             IsArchived = checklist.IsArchived,
             ArchivedBy = checklist.ArchivedBy,
             ArchivedAt = checklist.ArchivedAt,
+            SignOffStatus = checklist.SignOffStatus,
+            SubmittedForSignOffBy = checklist.SubmittedForSignOffBy,
+            SubmittedForSignOffByPosition = checklist.SubmittedForSignOffByPosition,
+            SubmittedForSignOffAt = checklist.SubmittedForSignOffAt,
+            SignedOffBy = checklist.SignedOffBy,
+            SignedOffByName = checklist.SignedOffByName,
+            SignedOffByPosition = checklist.SignedOffByPosition,
+            SignedOffAt = checklist.SignedOffAt,
+            SignOffSignature = checklist.SignOffSignature,
             CreatedBy = checklist.CreatedBy,
             CreatedByPosition = checklist.CreatedByPosition,
             CreatedAt = checklist.CreatedAt,
@@ -89,12 +102,123 @@ public static class ChecklistMapper
             CompletedAt = item.CompletedAt,
             CurrentStatus = item.CurrentStatus,
             StatusConfiguration = item.StatusConfiguration,
+            Value = item.Value,
+            ValueConfiguration = item.ValueConfiguration,
             AllowedPositions = item.AllowedPositions,
-            Notes = item.Notes,
+            DueAt = item.DueAt,
+            DueOffsetMinutes = item.DueOffsetMinutes,
+            DueRelativeTo = item.DueRelativeTo,
+            PrerequisiteItemIds = item.PrerequisiteItemIds,
+            SectionName = item.SectionName,
+            Notes = item.Notes.OrderBy(n => n.CreatedAt).Select(MapNoteToDto).ToList(),
+            AttachmentCount = item.AttachmentCount,
             CreatedAt = item.CreatedAt,
             LastModifiedBy = item.LastModifiedBy,
             LastModifiedByPosition = item.LastModifiedByPosition,
             LastModifiedAt = item.LastModifiedAt
         };
     }
+
+    /// <summary>
+    /// Maps ChecklistItemAttachment entity to ItemAttachmentDto
+    /// </summary>
+    /// <param name="attachment">ChecklistItemAttachment entity from database</param>
+    /// <returns>Immutable ItemAttachmentDto for API response</returns>
+    public static ItemAttachmentDto MapAttachmentToDto(ChecklistItemAttachment attachment)
+    {
+        return new ItemAttachmentDto
+        {
+            Id = attachment.Id,
+            ChecklistItemId = attachment.ChecklistItemId,
+            FileName = attachment.FileName,
+            ContentType = attachment.ContentType,
+            SizeBytes = attachment.SizeBytes,
+            UploadedBy = attachment.UploadedBy,
+            UploadedByPosition = attachment.UploadedByPosition,
+            UploadedAt = attachment.UploadedAt
+        };
+    }
+
+    /// <summary>
+    /// Maps ChecklistItemNote entity to ItemNoteDto
+    /// </summary>
+    /// <param name="note">ChecklistItemNote entity from database</param>
+    /// <returns>Immutable ItemNoteDto for API response</returns>
+    public static ItemNoteDto MapNoteToDto(ChecklistItemNote note)
+    {
+        return new ItemNoteDto
+        {
+            Id = note.Id,
+            ChecklistItemId = note.ChecklistItemId,
+            NoteText = note.NoteText,
+            CreatedBy = note.CreatedBy,
+            CreatedByPosition = note.CreatedByPosition,
+            CreatedAt = note.CreatedAt,
+            EditedBy = note.EditedBy,
+            EditedAt = note.EditedAt
+        };
+    }
+
+    /// <summary>
+    /// Maps ChecklistItemHistoryEntry entity to ItemStatusHistoryDto
+    /// </summary>
+    /// <param name="entry">ChecklistItemHistoryEntry entity from database</param>
+    /// <returns>Immutable ItemStatusHistoryDto for API response</returns>
+    public static ItemStatusHistoryDto MapHistoryEntryToDto(ChecklistItemHistoryEntry entry)
+    {
+        return new ItemStatusHistoryDto
+        {
+            Id = entry.Id,
+            ChecklistItemId = entry.ChecklistItemId,
+            Action = entry.Action,
+            PreviousValue = entry.PreviousValue,
+            NewValue = entry.NewValue,
+            ChangedBy = entry.ChangedBy,
+            ChangedByPosition = entry.ChangedByPosition,
+            ChangedAt = entry.ChangedAt
+        };
+    }
+
+    /// <summary>
+    /// Maps ChecklistItemHistoryEntry entity to a ChecklistActivityDto
+    /// </summary>
+    /// <param name="entry">ChecklistItemHistoryEntry entity from database</param>
+    /// <param name="itemText">Text of the item the entry belongs to</param>
+    /// <returns>Immutable ChecklistActivityDto for API response</returns>
+    public static ChecklistActivityDto MapItemHistoryToActivityDto(ChecklistItemHistoryEntry entry, string? itemText)
+    {
+        return new ChecklistActivityDto
+        {
+            Id = entry.Id,
+            ChecklistId = entry.ChecklistInstanceId,
+            ItemId = entry.ChecklistItemId,
+            ItemText = itemText,
+            Action = entry.Action.ToString(),
+            PreviousValue = entry.PreviousValue,
+            NewValue = entry.NewValue,
+            ChangedBy = entry.ChangedBy,
+            ChangedByPosition = entry.ChangedByPosition,
+            ChangedAt = entry.ChangedAt
+        };
+    }
+
+    /// <summary>
+    /// Maps ChecklistHistoryEntry entity to a ChecklistActivityDto
+    /// </summary>
+    /// <param name="entry">ChecklistHistoryEntry entity from database</param>
+    /// <returns>Immutable ChecklistActivityDto for API response</returns>
+    public static ChecklistActivityDto MapChecklistHistoryToActivityDto(ChecklistHistoryEntry entry)
+    {
+        return new ChecklistActivityDto
+        {
+            Id = entry.Id,
+            ChecklistId = entry.ChecklistInstanceId,
+            Action = entry.Action.ToString(),
+            PreviousValue = entry.PreviousValue,
+            NewValue = entry.NewValue,
+            ChangedBy = entry.ChangedBy,
+            ChangedByPosition = entry.ChangedByPosition,
+            ChangedAt = entry.ChangedAt
+        };
+    }
 }
@@ -51,6 +51,15 @@ public static class TemplateMapper
             EventCategories = template.EventCategories,
             UsageCount = template.UsageCount,
             LastUsedAt = template.LastUsedAt,
+            CurrentVersion = template.CurrentVersion,
+            ApprovalStatus = template.ApprovalStatus,
+            SubmittedBy = template.SubmittedBy,
+            SubmittedByPosition = template.SubmittedByPosition,
+            SubmittedAt = template.SubmittedAt,
+            ReviewedBy = template.ReviewedBy,
+            ReviewedByPosition = template.ReviewedByPosition,
+            ReviewedAt = template.ReviewedAt,
+            ReviewComment = template.ReviewComment,
             CreatedBy = template.CreatedBy,
             CreatedByPosition = template.CreatedByPosition,
             CreatedAt = template.CreatedAt,
@@ -66,6 +75,26 @@ public static class TemplateMapper
         };
     }
 
+    /// <summary>
+    /// Maps TemplateApprovalEvent entity to TemplateApprovalEventDto
+    /// </summary>
+    /// <param name="approvalEvent">Approval history entry from database</param>
+    /// <returns>Immutable TemplateApprovalEventDto for API response</returns>
+    public static TemplateApprovalEventDto MapApprovalEventToDto(TemplateApprovalEvent approvalEvent)
+    {
+        return new TemplateApprovalEventDto
+        {
+            Id = approvalEvent.Id,
+            TemplateId = approvalEvent.TemplateId,
+            Action = approvalEvent.Action,
+            Comment = approvalEvent.Comment,
+            TemplateVersion = approvalEvent.TemplateVersion,
+            PerformedBy = approvalEvent.PerformedBy,
+            PerformedByPosition = approvalEvent.PerformedByPosition,
+            PerformedAt = approvalEvent.PerformedAt
+        };
+    }
+
     /// <summary>
     /// Maps TemplateItem entity to TemplateItemDto
     /// Includes all item configuration and default notes
@@ -83,8 +112,13 @@ public static class TemplateMapper
             DisplayOrder = item.DisplayOrder,
             IsRequired = item.IsRequired,
             StatusConfiguration = item.StatusConfiguration,
+            ValueConfiguration = item.ValueConfiguration,
             AllowedPositions = item.AllowedPositions,
-            DefaultNotes = item.DefaultNotes
+            DefaultNotes = item.DefaultNotes,
+            DueOffsetMinutes = item.DueOffsetMinutes,
+            DueRelativeTo = item.DueRelativeTo,
+            PrerequisiteDisplayOrders = item.PrerequisiteDisplayOrders,
+            SectionName = item.SectionName
         };
     }
 }
@@ -0,0 +1,88 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// AddChecklistItemRequest - Request DTO for adding an item to a live checklist
+///
+/// Purpose:
+///   Adds an ad hoc item to an existing checklist as the incident evolves
+///   (blank, or copied from the item library by the client).
+///   Used by POST /api/checklists/{checklistId}/items endpoint.
+///
+/// Business Rules:
+///   - Requires Manage permission (enforced by the controller)
+///   - Not allowed on archived checklists
+///   - The item has no template item (TemplateItemId = Guid.Empty)
+///   - Placed after InsertAfterItemId, or at the end when not provided
+///   - Recorded in the item's history and broadcast as ChecklistUpdated ("item_added")
+///
+/// Validation Rules:
+///   - ItemText: Required, max 500 characters
+///   - ItemType: "checkbox" (default), "status", "number", "text", "datetime" or "yesno"
+///   - StatusConfiguration: Required for "status" items
+///   - ValueConfiguration: Optional for "number" items; checked by ItemValueHelper
+///   - SectionName: Optional, max 200 characters
+///
+/// User Attribution:
+///   The history entry is attributed from UserContext by the service layer.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record AddChecklistItemRequest
+{
+    /// <summary>
+    /// The text/description of the checklist item
+    /// Example: "Confirm road closure on Route 9 with DOT"
+    /// </summary>
+    [Required(ErrorMessage = "Item text is required")]
+    [MaxLength(500, ErrorMessage = "Item text cannot exceed 500 characters")]
+    public string ItemText { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Type of item: "checkbox", "status", "number", "text", "datetime" or "yesno"
+    /// </summary>
+    [RegularExpression(
+        "^(checkbox|status|number|text|datetime|yesno)$",
+        ErrorMessage = "Item type must be 'checkbox', 'status', 'number', 'text', 'datetime' or 'yesno'")]
+    public string ItemType { get; init; } = "checkbox";
+
+    /// <summary>
+    /// Whether the item must be completed for the checklist to be considered done
+    /// </summary>
+    public bool IsRequired { get; init; }
+
+    /// <summary>
+    /// For "status" type items: JSON array of status configuration objects
+    /// Example: [{"label":"Not Started","isCompletion":false,"order":1}, ...]
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Status configuration cannot exceed 1000 characters")]
+    public string? StatusConfiguration { get; init; }
+
+    /// <summary>
+    /// For "number" type items: JSON unit and range (all optional)
+    /// Example: {"unit":"gal","min":0,"max":500}
+    /// </summary>
+    [MaxLength(500, ErrorMessage = "Value configuration cannot exceed 500 characters")]
+    public string? ValueConfiguration { get; init; }
+
+    /// <summary>
+    /// JSON array of ICS positions allowed to complete this item (null = all positions)
+    /// Example: ["Safety Officer", "Incident Commander"]
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Allowed positions cannot exceed 1000 characters")]
+    public string? AllowedPositions { get; init; }
+
+    /// <summary>
+    /// Section the item belongs to (null = not in a section)
+    /// Example: "Initial Response"
+    /// </summary>
+    [MaxLength(200, ErrorMessage = "Section name cannot exceed 200 characters")]
+    public string? SectionName { get; init; }
+
+    /// <summary>
+    /// Item the new item is placed after (null = at the end of the checklist)
+    /// </summary>
+    public Guid? InsertAfterItemId { get; init; }
+}
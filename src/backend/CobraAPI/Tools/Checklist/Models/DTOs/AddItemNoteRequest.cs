@@ -0,0 +1,37 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// AddItemNoteRequest - Request DTO for adding a note to an item's thread
+///
+/// Purpose:
+///   Appends a note to any checklist item.
+///   Used by POST /api/checklists/{checklistId}/items/{itemId}/notes endpoint.
+///
+/// Business Rules:
+///   - Works for every item type
+///   - Appends (never replaces other notes)
+///   - Requires the item's AllowedPositions, like other item updates
+///   - Does NOT trigger progress recalculation (notes don't affect completion)
+///
+/// Use Cases:
+///   - Adding context: "Item completed at 14:30, supplies restocked"
+///   - Recording issues: "Minor damage observed, will monitor"
+///   - Team communication: "Please verify before signing off"
+///
+/// User Attribution:
+///   CreatedBy and CreatedByPosition auto-populated from UserContext.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record AddItemNoteRequest
+{
+    /// <summary>
+    /// Note text
+    /// </summary>
+    [Required(ErrorMessage = "Note text is required")]
+    [MaxLength(2000, ErrorMessage = "Notes cannot exceed 2000 characters")]
+    public string NoteText { get; init; } = string.Empty;
+}
@@ -0,0 +1,42 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// AutoCreateChecklistPreviewDto - A checklist that will be generated for an event's categories
+///
+/// Purpose:
+///   Listed in the create-event dialog before the event is created, so the
+///   user can see which checklists will be generated and opt out of some.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record AutoCreateChecklistPreviewDto
+{
+    /// <summary>
+    /// AutoCreate template the checklist is generated from
+    /// </summary>
+    public Guid TemplateId { get; init; }
+
+    /// <summary>
+    /// Template name (also the generated checklist's name)
+    /// </summary>
+    public string TemplateName { get; init; } = string.Empty;
+
+    public string Description { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Number of items in the template
+    /// </summary>
+    public int ItemCount { get; init; }
+
+    /// <summary>
+    /// Positions the checklist is assigned to (template's recommended positions)
+    /// Empty = visible to all positions
+    /// </summary>
+    public List<string> Positions { get; init; } = new();
+
+    /// <summary>
+    /// Names of the event categories that matched the template
+    /// </summary>
+    public List<string> MatchedCategories { get; init; } = new();
+}
@@ -0,0 +1,42 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// AutoCreateChecklistsRequest - Request DTO for generating an event's auto-create checklists
+///
+/// Purpose:
+///   After an event is created, generates the checklists from the AutoCreate
+///   templates the user kept in the preview (the rest were opted out).
+///   Used by POST /api/checklists/auto-create.
+///
+/// Business Logic:
+///   1. Event must exist and not be archived
+///   2. Each template must still be an available AutoCreate template matching
+///      one of the event's categories, otherwise it is skipped with a reason
+///   3. A template already auto-created for the event is skipped
+///   4. Checklists are assigned to the template's recommended positions
+///
+/// Validation Rules:
+///   - EventId: Required
+///   - TemplateIds: Required, 1-50 templates
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record AutoCreateChecklistsRequest
+{
+    /// <summary>
+    /// Event the checklists are generated for
+    /// </summary>
+    [Required]
+    public Guid EventId { get; init; }
+
+    /// <summary>
+    /// AutoCreate templates to generate checklists from (opted-out templates left out)
+    /// </summary>
+    [Required]
+    [MinLength(1, ErrorMessage = "Select at least one checklist to generate")]
+    [MaxLength(50, ErrorMessage = "Cannot generate more than 50 checklists at once")]
+    public List<Guid> TemplateIds { get; init; } = new();
+}
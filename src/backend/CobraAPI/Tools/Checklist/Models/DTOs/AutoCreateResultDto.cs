@@ -0,0 +1,42 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// AutoCreateResultDto - Outcome of generating an event's auto-create checklists
+///
+/// Purpose:
+///   Lists the checklists created and the templates skipped, with a reason
+///   for each, so the UI can show a summary.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record AutoCreateResultDto
+{
+    /// <summary>
+    /// Checklists created for the event
+    /// </summary>
+    public List<ChecklistInstanceDto> Created { get; init; } = new();
+
+    /// <summary>
+    /// Templates no checklist was created from
+    /// </summary>
+    public List<AutoCreateSkippedDto> Skipped { get; init; } = new();
+}
+
+/// <summary>
+/// A template no checklist was generated from, and why
+/// </summary>
+public record AutoCreateSkippedDto
+{
+    public Guid TemplateId { get; init; }
+
+    /// <summary>
+    /// Template name (empty if the template was not found)
+    /// </summary>
+    public string TemplateName { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Why it was skipped, for display
+    /// </summary>
+    public string Reason { get; init; } = string.Empty;
+}
@@ -0,0 +1,49 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// BulkUpdateItemsRequest - Request DTO for updating many items in one call
+///
+/// Purpose:
+///   Marks a selection of items complete or incomplete, or sets their status.
+///   Used by POST /api/checklists/{checklistId}/items/bulk endpoint.
+///
+/// Actions:
+///   - mark_complete / mark_incomplete: checkbox items
+///   - change_status: status items that have TargetStatus as an option
+///
+/// Business Rules:
+///   - Each item is checked like a single update (AllowedPositions, prerequisites,
+///     status options); items that fail are skipped and reported, the rest are saved
+///   - Items are applied in display order, so a prerequisite completed in the
+///     same request unblocks the items after it
+///   - Broadcast once as ChecklistUpdated ("items_bulk_updated")
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record BulkUpdateItemsRequest
+{
+    /// <summary>
+    /// IDs of the selected items
+    /// </summary>
+    [Required(ErrorMessage = "Item IDs are required")]
+    [MinLength(1, ErrorMessage = "Select at least one item")]
+    public List<Guid> ItemIds { get; init; } = new();
+
+    /// <summary>
+    /// Action to apply: mark_complete, mark_incomplete or change_status
+    /// </summary>
+    [Required(ErrorMessage = "Action is required")]
+    [RegularExpression("^(mark_complete|mark_incomplete|change_status)$",
+        ErrorMessage = "Action must be 'mark_complete', 'mark_incomplete' or 'change_status'")]
+    public string Action { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Status to set (change_status only)
+    /// Example: "In Progress"
+    /// </summary>
+    [MaxLength(100, ErrorMessage = "Status cannot exceed 100 characters")]
+    public string? TargetStatus { get; init; }
+}
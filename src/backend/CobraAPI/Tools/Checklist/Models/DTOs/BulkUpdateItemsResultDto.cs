@@ -0,0 +1,46 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// BulkUpdateItemsResultDto - Outcome of a bulk item update
+///
+/// Purpose:
+///   Returns the items that were updated and the ones the server rejected,
+///   with a reason for each, so the UI can roll back only the rejected items.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record BulkUpdateItemsResultDto
+{
+    /// <summary>
+    /// Items after the update (includes selected items that already had the change)
+    /// </summary>
+    public List<ChecklistItemDto> UpdatedItems { get; init; } = new();
+
+    /// <summary>
+    /// Items that were not updated
+    /// </summary>
+    public List<BulkItemFailureDto> FailedItems { get; init; } = new();
+
+    /// <summary>
+    /// Checklist progress after the update (0-100)
+    /// </summary>
+    public decimal ProgressPercentage { get; init; }
+}
+
+/// <summary>
+/// An item a bulk update skipped, and why
+/// </summary>
+public record BulkItemFailureDto
+{
+    /// <summary>
+    /// Item GUID
+    /// </summary>
+    public Guid ItemId { get; init; }
+
+    /// <summary>
+    /// Why it was skipped, for display
+    /// Example: Position 'Safety Officer' is not authorized to modify this item
+    /// </summary>
+    public string Reason { get; init; } = string.Empty;
+}
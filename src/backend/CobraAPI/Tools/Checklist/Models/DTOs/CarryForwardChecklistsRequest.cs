@@ -0,0 +1,60 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// CarryForwardChecklistsRequest - Request DTO for rolling checklists into another operational period
+///
+/// Purpose:
+///   Copies a set of checklists into a target operational period in one call,
+///   replacing the one-by-one clone at each period transition.
+///   Used by POST /api/checklists/carry-forward.
+///
+/// Business Logic:
+///   1. Target period must exist and not be archived
+///   2. Each checklist is copied into the target period, or skipped with a reason
+///      (not found, other event, already in the target period, nothing left to do,
+///      or already carried forward)
+///   3. The source period name in a checklist name is replaced by the target period name
+///
+/// Validation Rules:
+///   - ChecklistIds: Required, 1-100 checklists
+///   - TargetOperationalPeriodId: Required, must exist
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record CarryForwardChecklistsRequest
+{
+    /// <summary>
+    /// Checklists to carry forward
+    /// </summary>
+    [Required]
+    [MinLength(1, ErrorMessage = "Select at least one checklist")]
+    [MaxLength(100, ErrorMessage = "Cannot carry forward more than 100 checklists at once")]
+    public List<Guid> ChecklistIds { get; init; } = new();
+
+    /// <summary>
+    /// Operational period the copies are created in
+    /// </summary>
+    [Required]
+    public Guid TargetOperationalPeriodId { get; init; }
+
+    /// <summary>
+    /// Whether copies start with no completion (default: true)
+    /// - true: clean copy - completion and status are reset
+    /// - false: direct copy - completion, status and notes are kept
+    /// </summary>
+    public bool ResetCompletion { get; init; } = true;
+
+    /// <summary>
+    /// Copy only items that are not yet complete (default: false)
+    /// Checklists with every item complete are skipped
+    /// </summary>
+    public bool OnlyIncompleteItems { get; init; } = false;
+
+    /// <summary>
+    /// Keep item notes on a clean copy (default: false)
+    /// </summary>
+    public bool CarryNotes { get; init; } = false;
+}
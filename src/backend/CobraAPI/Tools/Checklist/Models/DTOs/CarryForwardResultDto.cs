@@ -0,0 +1,55 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// CarryForwardResultDto - Outcome of carrying checklists into another operational period
+///
+/// Purpose:
+///   Lists the checklists created in the target period and the ones skipped,
+///   with a reason for each, so the UI can show a summary.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record CarryForwardResultDto
+{
+    /// <summary>
+    /// Target operational period
+    /// </summary>
+    public Guid TargetOperationalPeriodId { get; init; }
+
+    /// <summary>
+    /// Target operational period name
+    /// </summary>
+    public string TargetOperationalPeriodName { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Checklists created in the target period
+    /// </summary>
+    public List<ChecklistInstanceDto> Created { get; init; } = new();
+
+    /// <summary>
+    /// Checklists that were not carried forward
+    /// </summary>
+    public List<CarryForwardSkippedDto> Skipped { get; init; } = new();
+}
+
+/// <summary>
+/// A checklist that was not carried forward, and why
+/// </summary>
+public record CarryForwardSkippedDto
+{
+    /// <summary>
+    /// Source checklist
+    /// </summary>
+    public Guid ChecklistId { get; init; }
+
+    /// <summary>
+    /// Source checklist name (empty if the checklist was not found)
+    /// </summary>
+    public string ChecklistName { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Why it was skipped, for display
+    /// </summary>
+    public string Reason { get; init; } = string.Empty;
+}
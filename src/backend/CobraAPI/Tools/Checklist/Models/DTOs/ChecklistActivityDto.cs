@@ -0,0 +1,77 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ChecklistActivityDto - One entry in a checklist's activity feed
+///
+/// Purpose:
+///   Merges item history (completion, status, value and note changes) with
+///   checklist metadata changes (rename, position reassignment, period moves)
+///   into one chronological feed, so leaders can see what happened on a
+///   checklist without opening each item.
+///
+/// Action:
+///   The enum name of the change. Item entries use ItemHistoryAction names
+///   (e.g. "Completed", "NoteAdded") and carry ItemId/ItemText; checklist
+///   entries use ChecklistHistoryAction names (e.g. "Renamed") and have no item.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ChecklistActivityDto
+{
+    /// <summary>
+    /// Id of the underlying item or checklist history entry
+    /// </summary>
+    public Guid Id { get; init; }
+
+    /// <summary>
+    /// Checklist the entry belongs to
+    /// </summary>
+    public Guid ChecklistId { get; init; }
+
+    /// <summary>
+    /// Item the change was made to (null for checklist-level changes)
+    /// </summary>
+    public Guid? ItemId { get; init; }
+
+    /// <summary>
+    /// Item text at the time of the request (null for checklist-level changes)
+    /// Example: "Verify evacuation routes are clear"
+    /// </summary>
+    public string? ItemText { get; init; }
+
+    /// <summary>
+    /// ItemHistoryAction or ChecklistHistoryAction name
+    /// Example: "StatusChanged", "PositionsChanged"
+    /// </summary>
+    public string Action { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Value before the change
+    /// Example: "Blocked"
+    /// </summary>
+    public string? PreviousValue { get; init; }
+
+    /// <summary>
+    /// Value after the change
+    /// Example: "In Progress"
+    /// </summary>
+    public string? NewValue { get; init; }
+
+    /// <summary>
+    /// User who made the change
+    /// Example: "admin@cobra.mil"
+    /// </summary>
+    public string ChangedBy { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Position of the user who made the change
+    /// Example: "Operations Section Chief"
+    /// </summary>
+    public string ChangedByPosition { get; init; } = string.Empty;
+
+    /// <summary>
+    /// When the change was made (UTC)
+    /// </summary>
+    public DateTime ChangedAt { get; init; }
+}
@@ -0,0 +1,54 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ChecklistChangesDto - What changed on a checklist since a point in time
+///
+/// Purpose:
+///   Lets a client that lost its real-time connection catch up without
+///   reloading the whole checklist. Hub messages carry a sentAt timestamp;
+///   after reconnecting, the client asks for changes since the last message
+///   it saw and merges them into its local copy.
+///
+/// Contents:
+///   - Checklist: metadata and progress as they are now (Items is empty)
+///   - ChangedItems: full current state (including notes) of every item with
+///     completion, status, value, note or attachment changes since Since
+///     (every item when items were added, removed or reordered since)
+///   - RemovedItemIds: items removed from the checklist since Since
+///   - ServerTime: ask for changes since this time on the next catch-up
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ChecklistChangesDto
+{
+    /// <summary>
+    /// Checklist the changes belong to
+    /// </summary>
+    public Guid ChecklistId { get; init; }
+
+    /// <summary>
+    /// Changes made after this time (UTC) are included
+    /// </summary>
+    public DateTime Since { get; init; }
+
+    /// <summary>
+    /// Server time (UTC) when the changes were read
+    /// </summary>
+    public DateTime ServerTime { get; init; }
+
+    /// <summary>
+    /// Current checklist metadata and progress, without items
+    /// </summary>
+    public ChecklistInstanceDto Checklist { get; init; } = null!;
+
+    /// <summary>
+    /// Items changed since Since, in display order
+    /// </summary>
+    public List<ChecklistItemDto> ChangedItems { get; init; } = new();
+
+    /// <summary>
+    /// Items removed since Since (drop them from the local copy)
+    /// </summary>
+    public List<Guid> RemovedItemIds { get; init; } = new();
+}
@@ -12,7 +12,9 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 ///   2. Associated with an Event and optionally an Operational Period
 ///   3. Items are checked off or status updated during incident response
 ///   4. Progress is automatically tracked
-///   5. Can be archived when incident is closed
+///   5. Submitted for sign-off once all required items are done, then
+///      signed off by a supervisor (read-only until a manager reopens it)
+///   6. Can be archived when incident is closed
 ///
 /// Progress Tracking:
 ///   - ProgressPercentage: Overall completion (0-100)
@@ -48,6 +50,24 @@ public record ChecklistInstanceDto
     /// </summary>
     public Guid TemplateId { get; init; }
 
+    /// <summary>
+    /// Template version this checklist was created from
+    /// Null for checklists created before template versioning
+    /// </summary>
+    public int? TemplateVersion { get; init; }
+
+    /// <summary>
+    /// All templates a combined checklist was created from, in block order
+    /// Empty for checklists created from a single template
+    /// </summary>
+    public List<Guid> SourceTemplateIds { get; init; } = new();
+
+    /// <summary>
+    /// Template's current version (only populated on single checklist fetch)
+    /// When greater than TemplateVersion, the template changed after creation
+    /// </summary>
+    public int? TemplateCurrentVersion { get; init; }
+
     /// <summary>
     /// Event this checklist belongs to
     /// </summary>
@@ -79,6 +99,11 @@ public record ChecklistInstanceDto
     /// </summary>
     public string? AssignedPositions { get; init; }
 
+    /// <summary>
+    /// Generated from an AutoCreate template when the event was created
+    /// </summary>
+    public bool IsAutoCreated { get; init; }
+
     /// <summary>
     /// Overall completion percentage (0-100)
     /// Calculated as: (CompletedItems / TotalItems) * 100
@@ -124,6 +149,54 @@ public record ChecklistInstanceDto
     /// </summary>
     public DateTime? ArchivedAt { get; init; }
 
+    /// <summary>
+    /// Sign-off state: Open, PendingSignOff or SignedOff
+    /// Signed-off checklists are read-only
+    /// </summary>
+    public ChecklistSignOffStatus SignOffStatus { get; init; }
+
+    /// <summary>
+    /// User who submitted this checklist for sign-off
+    /// </summary>
+    public string? SubmittedForSignOffBy { get; init; }
+
+    /// <summary>
+    /// Position of the user who submitted for sign-off
+    /// </summary>
+    public string? SubmittedForSignOffByPosition { get; init; }
+
+    /// <summary>
+    /// When this checklist was submitted for sign-off (UTC)
+    /// </summary>
+    public DateTime? SubmittedForSignOffAt { get; init; }
+
+    /// <summary>
+    /// Supervisor who signed off (email)
+    /// </summary>
+    public string? SignedOffBy { get; init; }
+
+    /// <summary>
+    /// Supervisor's name as shown on the sign-off
+    /// Example: "John Smith"
+    /// </summary>
+    public string? SignedOffByName { get; init; }
+
+    /// <summary>
+    /// Supervisor's position at sign-off
+    /// Example: "Operations Section Chief"
+    /// </summary>
+    public string? SignedOffByPosition { get; init; }
+
+    /// <summary>
+    /// When this checklist was signed off (UTC)
+    /// </summary>
+    public DateTime? SignedOffAt { get; init; }
+
+    /// <summary>
+    /// Drawn signature as a PNG data URL (optional)
+    /// </summary>
+    public string? SignOffSignature { get; init; }
+
     /// <summary>
     /// User who created this checklist
     /// Example: "ops.chief@cobra.mil"
@@ -172,6 +245,11 @@ public record ChecklistInstanceDto
     /// </summary>
     public int ItemCount => Items.Count;
 
+    /// <summary>
+    /// Number of files attached to items of this checklist (computed)
+    /// </summary>
+    public int AttachmentCount => Items.Sum(i => i.AttachmentCount);
+
     /// <summary>
     /// Whether all required items are completed (computed)
     /// True if RequiredItemsCompleted == RequiredItems
@@ -11,6 +11,7 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 /// Item Types:
 ///   - "checkbox": Simple yes/no completion (IsCompleted field)
 ///   - "status": Dropdown with multiple status options (CurrentStatus field)
+///   - "number", "text", "datetime", "yesno": Captured value (Value field)
 ///
 /// Checkbox Type Fields:
 ///   - IsCompleted: true/false/null
@@ -23,6 +24,11 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 ///   - StatusConfiguration: JSON array of status options with completion flags
 ///   - Example: [{"label":"Complete","isCompletion":true,"order":1}, ...]
 ///
+/// Value Type Fields:
+///   - Value: Captured value as text (complete once captured)
+///   - ValueConfiguration: Unit and range for number items
+///   - CompletedBy/CompletedByPosition/CompletedAt: Who captured the value
+///
 /// Position-Based Access:
 ///   - AllowedPositions: Comma-separated list of positions that can modify item
 ///   - Null = all positions can modify
@@ -55,9 +61,10 @@ public record ChecklistItemDto
     public string ItemText { get; init; } = string.Empty;
 
     /// <summary>
-    /// Type of item: "checkbox" or "status"
+    /// Type of item: "checkbox", "status", "number", "text", "datetime" or "yesno"
     /// - checkbox: Simple yes/no completion
     /// - status: Dropdown with multiple options
+    /// - number/text/datetime/yesno: Captured value (see Value)
     /// </summary>
     public string ItemType { get; init; } = string.Empty;
 
@@ -110,6 +117,19 @@ public record ChecklistItemDto
     /// </summary>
     public string? StatusConfiguration { get; init; }
 
+    /// <summary>
+    /// Captured value (value items only)
+    /// Number: invariant number ("42.5"); datetime: ISO 8601 UTC; yesno: "Yes", "No" or "N/A"
+    /// Null = not captured yet
+    /// </summary>
+    public string? Value { get; init; }
+
+    /// <summary>
+    /// JSON unit and range for number items
+    /// Example: "{\"unit\":\"%\",\"min\":0,\"max\":100}"
+    /// </summary>
+    public string? ValueConfiguration { get; init; }
+
     /// <summary>
     /// Comma-separated list of positions allowed to modify this item
     /// Example: "Safety Officer,Incident Commander"
@@ -118,10 +138,45 @@ public record ChecklistItemDto
     public string? AllowedPositions { get; init; }
 
     /// <summary>
-    /// Notes or comments about this item
-    /// Example: "Verified with Safety Officer at 14:30"
+    /// When this item must be done (UTC)
+    /// Calculated from the template item's due offset when the checklist is created
+    /// Null = no due time
+    /// </summary>
+    public DateTime? DueAt { get; init; }
+
+    /// <summary>
+    /// Minutes after DueRelativeTo the due time was calculated from (null = no due time)
+    /// </summary>
+    public int? DueOffsetMinutes { get; init; }
+
+    /// <summary>
+    /// What DueOffsetMinutes is counted from: checklist creation or period start
+    /// </summary>
+    public ItemDueAnchor DueRelativeTo { get; init; }
+
+    /// <summary>
+    /// JSON array of IDs of items in this checklist that must be complete first
+    /// Example: "[\"3fa85f64-5717-4562-b3fc-2c963f66afa6\"]"
+    /// Null = no prerequisites
+    /// </summary>
+    public string? PrerequisiteItemIds { get; init; }
+
+    /// <summary>
+    /// Section the item belongs to (copied from the template)
+    /// Null = not in a section
+    /// </summary>
+    public string? SectionName { get; init; }
+
+    /// <summary>
+    /// Note thread, oldest first, each note attributed to its author
+    /// Example: "Verified with Safety Officer at 14:30" - Safety Officer
+    /// </summary>
+    public List<ItemNoteDto> Notes { get; init; } = new();
+
+    /// <summary>
+    /// Number of files (photos, forms) attached to this item
     /// </summary>
-    public string? Notes { get; init; }
+    public int AttachmentCount { get; init; }
 
     /// <summary>
     /// When this item was created (UTC)
@@ -0,0 +1,54 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ChecklistViewerDto - Someone currently viewing a checklist
+///
+/// Purpose:
+///   Live presence: shown as avatars on the checklist detail header and on
+///   checklist cards, and used to flag items whose notes another user has
+///   open. Sent in PresenceChanged hub messages; not persisted.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ChecklistViewerDto
+{
+    /// <summary>
+    /// SignalR connection (one per open browser tab)
+    /// </summary>
+    public string ConnectionId { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Viewer's email
+    /// Example: "ops@cobra.mil"
+    /// </summary>
+    public string Email { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Viewer's display name
+    /// Example: "Jane Smith"
+    /// </summary>
+    public string FullName { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Viewer's ICS position
+    /// Example: "Operations Section Chief"
+    /// </summary>
+    public string Position { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Item whose notes dialog the viewer has open (null when none)
+    /// </summary>
+    public string? NotesItemId { get; init; }
+
+    /// <summary>
+    /// When the viewer opened the checklist (UTC)
+    /// </summary>
+    public DateTime JoinedAt { get; init; }
+
+    /// <summary>
+    /// Last join or heartbeat (UTC); viewers silent longer than the
+    /// presence timeout are dropped
+    /// </summary>
+    public DateTime LastSeenAt { get; init; }
+}
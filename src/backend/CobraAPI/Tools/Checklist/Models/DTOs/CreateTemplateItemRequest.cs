@@ -11,9 +11,16 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 ///
 /// Validation Rules:
 ///   - ItemText: Required, max 500 characters
-///   - ItemType: Required, must be "checkbox" or "status"
+///   - ItemType: Required, "checkbox", "status", "number", "text", "datetime" or "yesno"
 ///   - DisplayOrder: Required, positive integer
 ///   - StatusOptions: Required if ItemType is "status", null otherwise
+///   - ValueConfiguration: Optional for "number" items (unit, min <= max);
+///     checked by ItemValueHelper
+///   - AllowedPositions: Optional JSON array, max 1000 characters
+///   - DueOffsetMinutes: Optional, 1 minute to 7 days
+///   - PrerequisiteDisplayOrders: Optional JSON array of other items' display
+///     orders; checked for unknown items and cycles by ItemPrerequisiteHelper
+///   - SectionName: Optional, max 200 characters
 ///
 /// Author: Checklist POC Team
 /// Last Modified: 2025-11-19
@@ -29,10 +36,12 @@ public record CreateTemplateItemRequest
     public string ItemText { get; init; } = string.Empty;
 
     /// <summary>
-    /// Type of item: "checkbox" or "status"
+    /// Type of item: "checkbox", "status", "number", "text", "datetime" or "yesno"
     /// </summary>
     [Required(ErrorMessage = "Item type is required")]
-    [RegularExpression("^(checkbox|status)$", ErrorMessage = "Item type must be 'checkbox' or 'status'")]
+    [RegularExpression(
+        "^(checkbox|status|number|text|datetime|yesno)$",
+        ErrorMessage = "Item type must be 'checkbox', 'status', 'number', 'text', 'datetime' or 'yesno'")]
     public string ItemType { get; init; } = string.Empty;
 
     /// <summary>
@@ -51,10 +60,64 @@ public record CreateTemplateItemRequest
     [MaxLength(1000, ErrorMessage = "Status configuration cannot exceed 1000 characters")]
     public string? StatusConfiguration { get; init; }
 
+    /// <summary>
+    /// For "number" type items: JSON unit and range (all optional)
+    /// Example: {"unit":"gal","min":0,"max":500}
+    /// </summary>
+    [MaxLength(500, ErrorMessage = "Value configuration cannot exceed 500 characters")]
+    public string? ValueConfiguration { get; init; }
+
+    /// <summary>
+    /// Whether the item must be completed for the checklist to be considered done
+    /// </summary>
+    public bool IsRequired { get; init; }
+
+    /// <summary>
+    /// JSON array of ICS positions allowed to complete this item (null = all positions)
+    /// Example: ["Safety Officer", "Incident Commander"]
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Allowed positions cannot exceed 1000 characters")]
+    public string? AllowedPositions { get; init; }
+
     /// <summary>
     /// Optional notes/instructions for this item
     /// Example: "Check with logistics coordinator before marking complete"
     /// </summary>
     [MaxLength(2000, ErrorMessage = "Notes cannot exceed 2000 characters")]
     public string? Notes { get; init; }
+
+    /// <summary>
+    /// Default notes/instructions for this item (name used by the frontend)
+    /// Takes precedence over Notes when both are sent
+    /// </summary>
+    [MaxLength(2000, ErrorMessage = "Default notes cannot exceed 2000 characters")]
+    public string? DefaultNotes { get; init; }
+
+    /// <summary>
+    /// Minutes after DueRelativeTo by which the item must be done (null = no due time)
+    /// Example: 30 for "Establish ICP within 30 minutes"
+    /// </summary>
+    [Range(1, 10080, ErrorMessage = "Due offset must be between 1 minute and 7 days")]
+    public int? DueOffsetMinutes { get; init; }
+
+    /// <summary>
+    /// What DueOffsetMinutes is counted from (default: checklist creation)
+    /// </summary>
+    public ItemDueAnchor DueRelativeTo { get; init; } = ItemDueAnchor.ChecklistCreated;
+
+    /// <summary>
+    /// JSON array of the display orders of items in the same template that must
+    /// be complete before this one (null = no prerequisites)
+    /// Example: [10, 20]
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Prerequisites cannot exceed 1000 characters")]
+    public string? PrerequisiteDisplayOrders { get; init; }
+
+    /// <summary>
+    /// Section the item belongs to (null = not in a section)
+    /// Items of a section should have consecutive display orders
+    /// Example: "Initial Response"
+    /// </summary>
+    [MaxLength(200, ErrorMessage = "Section name cannot exceed 200 characters")]
+    public string? SectionName { get; init; }
 }
@@ -72,8 +72,8 @@ public record CreateTemplateRequest
 
     /// <summary>
     /// JSON configuration for recurring template schedule
-    /// Only used when TemplateType = Recurring
-    /// Future feature - not yet implemented
+    /// Only used when TemplateType = Recurring (required and validated then)
+    /// See RecurrenceConfig for the format
     /// </summary>
     [MaxLength(2000, ErrorMessage = "RecurrenceConfig cannot exceed 2000 characters")]
     public string? RecurrenceConfig { get; init; }
@@ -0,0 +1,56 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ItemAttachmentDto - File attached to a checklist item
+///
+/// Purpose:
+///   Metadata for listing attachments. The file itself is downloaded from
+///   GET /api/checklists/{checklistId}/items/{itemId}/attachments/{attachmentId}/content
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ItemAttachmentDto
+{
+    public Guid Id { get; init; }
+    public Guid ChecklistItemId { get; init; }
+
+    /// <summary>
+    /// Original file name
+    /// Example: "roof-damage.jpg"
+    /// </summary>
+    public string FileName { get; init; } = string.Empty;
+
+    /// <summary>
+    /// MIME type
+    /// Example: "image/jpeg"
+    /// </summary>
+    public string ContentType { get; init; } = string.Empty;
+
+    public long SizeBytes { get; init; }
+
+    public string UploadedBy { get; init; } = string.Empty;
+    public string UploadedByPosition { get; init; } = string.Empty;
+    public DateTime UploadedAt { get; init; }
+}
+
+/// <summary>
+/// Upload limits for item attachments (configured in System Settings)
+/// </summary>
+public record AttachmentLimitsDto
+{
+    /// <summary>
+    /// Largest file accepted, in bytes
+    /// </summary>
+    public long MaxSizeBytes { get; init; }
+
+    /// <summary>
+    /// Accepted MIME types; entries ending in "/*" accept a whole family (e.g. "image/*")
+    /// </summary>
+    public List<string> AllowedContentTypes { get; init; } = new();
+}
+
+/// <summary>
+/// Attachment file content for download
+/// </summary>
+public record AttachmentContent(string FileName, string ContentType, Stream Content);
@@ -17,7 +17,8 @@ public record ItemLibraryEntryDto(
     string CreatedBy,
     DateTime CreatedAt,
     string? LastModifiedBy,
-    DateTime? LastModifiedAt
+    DateTime? LastModifiedAt,
+    string? ValueConfiguration = null
 );
 
 /// <summary>
@@ -31,7 +32,8 @@ public record CreateItemLibraryEntryRequest(
     string? AllowedPositions,
     string? DefaultNotes,
     string[]? Tags,
-    bool IsRequiredByDefault
+    bool IsRequiredByDefault,
+    string? ValueConfiguration = null
 );
 
 /// <summary>
@@ -45,5 +47,6 @@ public record UpdateItemLibraryEntryRequest(
     string? AllowedPositions,
     string? DefaultNotes,
     string[]? Tags,
-    bool IsRequiredByDefault
+    bool IsRequiredByDefault,
+    string? ValueConfiguration = null
 );
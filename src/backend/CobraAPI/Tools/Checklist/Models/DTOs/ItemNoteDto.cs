@@ -0,0 +1,35 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ItemNoteDto - Note in a checklist item's thread
+///
+/// Purpose:
+///   Notes are appended per author instead of overwriting a single notes field,
+///   so concurrent editors don't clobber each other and every note keeps who wrote it.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ItemNoteDto
+{
+    public Guid Id { get; init; }
+    public Guid ChecklistItemId { get; init; }
+
+    /// <summary>
+    /// Note text
+    /// Example: "Minor damage observed, will monitor"
+    /// </summary>
+    public string NoteText { get; init; } = string.Empty;
+
+    public string CreatedBy { get; init; } = string.Empty;
+    public string CreatedByPosition { get; init; } = string.Empty;
+    public DateTime CreatedAt { get; init; }
+
+    public string? EditedBy { get; init; }
+    public DateTime? EditedAt { get; init; }
+
+    /// <summary>
+    /// True once the author has edited the note
+    /// </summary>
+    public bool IsEdited => EditedAt.HasValue;
+}
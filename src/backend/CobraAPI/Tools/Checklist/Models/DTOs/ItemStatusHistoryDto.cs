@@ -0,0 +1,60 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ItemStatusHistoryDto - One entry in a checklist item's history
+///
+/// Purpose:
+///   Shows the sequence of completion toggles, status and value changes and
+///   notes on an item, with who made each change and when. Displayed in the
+///   item history timeline for after-action reviews.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ItemStatusHistoryDto
+{
+    /// <summary>
+    /// Unique identifier for this history entry
+    /// </summary>
+    public Guid Id { get; init; }
+
+    /// <summary>
+    /// Item the entry belongs to
+    /// </summary>
+    public Guid ChecklistItemId { get; init; }
+
+    /// <summary>
+    /// What happened: Completed, Uncompleted, StatusChanged, ValueChanged,
+    /// NoteAdded, NoteEdited or NoteDeleted
+    /// </summary>
+    public ItemHistoryAction Action { get; init; }
+
+    /// <summary>
+    /// Status, value or note text before the change
+    /// Example: "Blocked"
+    /// </summary>
+    public string? PreviousValue { get; init; }
+
+    /// <summary>
+    /// Status, value or note text after the change
+    /// Example: "In Progress"
+    /// </summary>
+    public string? NewValue { get; init; }
+
+    /// <summary>
+    /// User who made the change
+    /// Example: "admin@cobra.mil"
+    /// </summary>
+    public string ChangedBy { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Position of the user who made the change
+    /// Example: "Operations Section Chief"
+    /// </summary>
+    public string ChangedByPosition { get; init; } = string.Empty;
+
+    /// <summary>
+    /// When the change was made (UTC)
+    /// </summary>
+    public DateTime ChangedAt { get; init; }
+}
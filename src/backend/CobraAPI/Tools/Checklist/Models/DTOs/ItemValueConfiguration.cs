@@ -0,0 +1,28 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ItemValueConfiguration - Unit and range stored as JSON in ValueConfiguration
+/// of "number" items (template, library and checklist items)
+///
+/// Example:
+///   { "unit": "gal", "min": 0, "max": 500 }
+///
+/// All fields are optional. Readings outside Min/Max are rejected.
+/// </summary>
+public record ItemValueConfiguration
+{
+    /// <summary>
+    /// Unit shown after the reading, e.g. "gal", "%", "psi"
+    /// </summary>
+    public string? Unit { get; init; }
+
+    /// <summary>
+    /// Lowest accepted reading (inclusive)
+    /// </summary>
+    public decimal? Min { get; init; }
+
+    /// <summary>
+    /// Highest accepted reading (inclusive)
+    /// </summary>
+    public decimal? Max { get; init; }
+}
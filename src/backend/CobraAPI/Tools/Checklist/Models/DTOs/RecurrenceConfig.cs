@@ -0,0 +1,53 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// RecurrenceConfig - Schedule stored as JSON in Template.RecurrenceConfig
+///
+/// Example:
+///   {
+///     "frequency": "daily",
+///     "timeOfDay": "06:00",
+///     "timeZone": "America/New_York",
+///     "startAt": "2025-11-20T00:00:00Z",
+///     "endAt": null,
+///     "assignedPositions": ["Safety Officer"]
+///   }
+///
+/// Checklists are created for every active event until the event is closed
+/// (deactivated or archived) or EndAt passes, whichever comes first.
+/// </summary>
+public record RecurrenceConfig
+{
+    public RecurrenceFrequency Frequency { get; init; }
+
+    /// <summary>
+    /// Hours between checklists (Interval only, 1-168)
+    /// </summary>
+    public int? IntervalHours { get; init; }
+
+    /// <summary>
+    /// Local time of day in "HH:mm" (Daily only)
+    /// </summary>
+    public string? TimeOfDay { get; init; }
+
+    /// <summary>
+    /// IANA time zone for TimeOfDay and checklist names. Defaults to UTC.
+    /// </summary>
+    public string? TimeZone { get; init; }
+
+    /// <summary>
+    /// Schedule start (UTC). Interval slots are counted from here and no
+    /// occurrence before it is created.
+    /// </summary>
+    public DateTime? StartAt { get; init; }
+
+    /// <summary>
+    /// Optional schedule end (UTC). Null = until the event is closed.
+    /// </summary>
+    public DateTime? EndAt { get; init; }
+
+    /// <summary>
+    /// Positions assigned to each created checklist (empty = all positions)
+    /// </summary>
+    public List<string> AssignedPositions { get; init; } = new();
+}
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ReopenChecklistRequest - Request DTO for reopening a submitted or signed-off checklist
+///
+/// Purpose:
+///   Returns a checklist to Open so its items can be changed again.
+///   Used by POST /api/checklists/{id}/reopen endpoint.
+///
+/// Business Rules:
+///   - Requires Manage permission (enforced by the controller)
+///   - A reason is required; it is recorded in the checklist's history
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ReopenChecklistRequest
+{
+    /// <summary>
+    /// Why the checklist is being reopened
+    /// </summary>
+    [Required(ErrorMessage = "A reason is required to reopen a checklist")]
+    [MaxLength(2000, ErrorMessage = "Reason cannot exceed 2000 characters")]
+    public string Reason { get; init; } = string.Empty;
+}
@@ -0,0 +1,29 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// ReorderItemsRequest - Request DTO for reordering the items of a live checklist
+///
+/// Purpose:
+///   Sets the order of a checklist's items after drag-and-drop.
+///   Used by PUT /api/checklists/{checklistId}/items/reorder endpoint.
+///
+/// Business Rules:
+///   - Requires Manage permission (enforced by the controller)
+///   - ItemIds must list every item of the checklist exactly once
+///   - Display orders are renumbered 10, 20, 30, ... in ItemIds order
+///   - Recorded in the checklist's history and broadcast as ChecklistUpdated ("items_reordered")
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record ReorderItemsRequest
+{
+    /// <summary>
+    /// IDs of all the checklist's items, in their new order
+    /// </summary>
+    [Required(ErrorMessage = "Item IDs are required")]
+    [MinLength(1, ErrorMessage = "Item IDs are required")]
+    public List<Guid> ItemIds { get; init; } = new();
+}
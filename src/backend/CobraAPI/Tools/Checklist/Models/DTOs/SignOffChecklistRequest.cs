@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// SignOffChecklistRequest - Request DTO for a supervisor signing off a checklist
+///
+/// Purpose:
+///   Signs off a checklist waiting for sign-off, locking it.
+///   Used by POST /api/checklists/{id}/sign-off endpoint.
+///
+/// Business Rules:
+///   - Requires Manage permission (enforced by the controller)
+///   - Name, position and time are taken from the signing user
+///   - The signature is optional; when given it must be a PNG data URL
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record SignOffChecklistRequest
+{
+    /// <summary>
+    /// Drawn signature as a PNG data URL ("data:image/png;base64,...")
+    /// </summary>
+    [MaxLength(200000, ErrorMessage = "Signature image is too large")]
+    public string? Signature { get; init; }
+}
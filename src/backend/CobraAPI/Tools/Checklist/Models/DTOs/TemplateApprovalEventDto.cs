@@ -0,0 +1,57 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// TemplateApprovalEventDto - One entry in a template's approval history
+///
+/// Purpose:
+///   Shows who submitted, approved or rejected a template, when, with what
+///   comment, and which template version the decision applied to.
+///   Displayed on the template preview page.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record TemplateApprovalEventDto
+{
+    /// <summary>
+    /// Unique identifier for this history entry
+    /// </summary>
+    public Guid Id { get; init; }
+
+    /// <summary>
+    /// Template the entry belongs to
+    /// </summary>
+    public Guid TemplateId { get; init; }
+
+    /// <summary>
+    /// What happened: Submitted, Approved, Rejected or ReturnedToDraft
+    /// </summary>
+    public TemplateApprovalAction Action { get; init; }
+
+    /// <summary>
+    /// Submitter or reviewer comment (always present for rejections)
+    /// </summary>
+    public string? Comment { get; init; }
+
+    /// <summary>
+    /// Template version the action applied to
+    /// </summary>
+    public int TemplateVersion { get; init; }
+
+    /// <summary>
+    /// User who performed the action
+    /// Example: "admin@cobra.mil"
+    /// </summary>
+    public string PerformedBy { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Position of the user who performed the action
+    /// Example: "Planning Section Chief"
+    /// </summary>
+    public string PerformedByPosition { get; init; } = string.Empty;
+
+    /// <summary>
+    /// When the action was performed (UTC)
+    /// </summary>
+    public DateTime PerformedAt { get; init; }
+}
@@ -0,0 +1,23 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// TemplateApprovalRequest - Body for submit, approve and reject actions
+///
+/// Usage:
+///   POST /api/templates/{id}/submit   - Comment optional (note to approver)
+///   POST /api/templates/{id}/approve  - Comment optional
+///   POST /api/templates/{id}/reject   - Comment required (reason for rejection)
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record TemplateApprovalRequest
+{
+    /// <summary>
+    /// Comment recorded in the approval history
+    /// </summary>
+    [MaxLength(2000)]
+    public string? Comment { get; init; }
+}
@@ -24,7 +24,7 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 /// Template Types:
 ///   - Manual: User manually creates checklist from template library
 ///   - AutoCreate: Automatically creates when event category matches
-///   - Recurring: Creates on schedule (future feature)
+///   - Recurring: Creates on schedule (see RecurrenceConfig)
 ///
 /// Author: Checklist POC Team
 /// Last Modified: 2025-11-20
@@ -136,7 +136,7 @@ public record TemplateDto
     /// <summary>
     /// JSON configuration for recurring template schedule
     /// Only applicable when TemplateType = Recurring
-    /// Future feature - not yet implemented
+    /// See RecurrenceConfig for the format
     /// </summary>
     public string? RecurrenceConfig { get; init; }
 
@@ -170,6 +170,55 @@ public record TemplateDto
     /// </summary>
     public DateTime? LastUsedAt { get; init; }
 
+    /// <summary>
+    /// Current version number (incremented on every save)
+    /// See TemplateVersionDto for the history of previous versions
+    /// </summary>
+    public int CurrentVersion { get; init; }
+
+    /// <summary>
+    /// Approval lifecycle state (Draft, PendingApproval, Approved, Rejected)
+    /// Only Approved templates can be used to create checklists
+    /// </summary>
+    public TemplateApprovalStatus ApprovalStatus { get; init; }
+
+    /// <summary>
+    /// User who submitted the template for approval
+    /// Null if never submitted
+    /// </summary>
+    public string? SubmittedBy { get; init; }
+
+    /// <summary>
+    /// Position of user who submitted the template
+    /// </summary>
+    public string? SubmittedByPosition { get; init; }
+
+    /// <summary>
+    /// When the template was last submitted for approval (UTC)
+    /// </summary>
+    public DateTime? SubmittedAt { get; init; }
+
+    /// <summary>
+    /// Approver who last approved or rejected the template
+    /// Null if never reviewed
+    /// </summary>
+    public string? ReviewedBy { get; init; }
+
+    /// <summary>
+    /// Position of the approver
+    /// </summary>
+    public string? ReviewedByPosition { get; init; }
+
+    /// <summary>
+    /// When the template was last approved or rejected (UTC)
+    /// </summary>
+    public DateTime? ReviewedAt { get; init; }
+
+    /// <summary>
+    /// Comment from the last review (always present for rejections)
+    /// </summary>
+    public string? ReviewComment { get; init; }
+
     /// <summary>
     /// Collection of items in this template
     /// Ordered by DisplayOrder
@@ -10,6 +10,10 @@ namespace CobraAPI.Tools.Checklist.Models.DTOs;
 /// Item Types:
 ///   - "checkbox": Simple yes/no completion
 ///   - "status": Dropdown with custom status options
+///   - "number": Numeric reading with optional unit and min/max
+///   - "text": Short free text
+///   - "datetime": Date and time
+///   - "yesno": Yes / No / N/A
 ///
 /// Display Order:
 ///   Items are sorted by DisplayOrder when presenting to users.
@@ -42,7 +46,7 @@ public record TemplateItemDto
     public string ItemText { get; init; } = string.Empty;
 
     /// <summary>
-    /// Type of item: "checkbox" or "status"
+    /// Type of item: "checkbox", "status", "number", "text", "datetime" or "yesno"
     /// </summary>
     public string ItemType { get; init; } = string.Empty;
 
@@ -63,6 +67,13 @@ public record TemplateItemDto
     /// </summary>
     public string? StatusConfiguration { get; init; }
 
+    /// <summary>
+    /// For "number" type items: JSON unit and range
+    /// Example: {"unit":"gal","min":0,"max":500}
+    /// Null for other item types
+    /// </summary>
+    public string? ValueConfiguration { get; init; }
+
     /// <summary>
     /// Positions allowed to interact with this item (JSON array)
     /// Null means all positions allowed
@@ -73,4 +84,28 @@ public record TemplateItemDto
     /// Optional default notes/instructions for this item
     /// </summary>
     public string? DefaultNotes { get; init; }
+
+    /// <summary>
+    /// Minutes after DueRelativeTo by which the item must be done
+    /// Null means the item has no due time
+    /// </summary>
+    public int? DueOffsetMinutes { get; init; }
+
+    /// <summary>
+    /// What DueOffsetMinutes is counted from: checklist creation or period start
+    /// </summary>
+    public ItemDueAnchor DueRelativeTo { get; init; }
+
+    /// <summary>
+    /// JSON array of the display orders of items that must be complete first
+    /// Example: [10, 20]
+    /// Null means no prerequisites
+    /// </summary>
+    public string? PrerequisiteDisplayOrders { get; init; }
+
+    /// <summary>
+    /// Section the item belongs to
+    /// Null means the item is not in a section
+    /// </summary>
+    public string? SectionName { get; init; }
 }
@@ -0,0 +1,68 @@
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// TemplateVersionDto - Data transfer object for template version history
+///
+/// Purpose:
+///   Represents one saved version of a template. A new version is recorded
+///   on create, every update, and every restore.
+///
+/// Snapshot:
+///   The list endpoint omits Template (summary only). Fetching a single
+///   version includes the full template as it was saved, for diffing.
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public record TemplateVersionDto
+{
+    /// <summary>
+    /// Unique identifier for this version record
+    /// </summary>
+    public Guid Id { get; init; }
+
+    /// <summary>
+    /// Template this version belongs to
+    /// </summary>
+    public Guid TemplateId { get; init; }
+
+    /// <summary>
+    /// Sequential version number (1 = as originally created)
+    /// </summary>
+    public int VersionNumber { get; init; }
+
+    /// <summary>
+    /// Version this one was restored from, null for regular edits
+    /// </summary>
+    public int? RestoredFromVersion { get; init; }
+
+    /// <summary>
+    /// Template name at this version
+    /// </summary>
+    public string Name { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Number of items at this version
+    /// </summary>
+    public int ItemCount { get; init; }
+
+    /// <summary>
+    /// User who saved this version
+    /// </summary>
+    public string CreatedBy { get; init; } = string.Empty;
+
+    /// <summary>
+    /// Position of user who saved this version
+    /// </summary>
+    public string CreatedByPosition { get; init; } = string.Empty;
+
+    /// <summary>
+    /// When this version was saved (UTC)
+    /// </summary>
+    public DateTime CreatedAt { get; init; }
+
+    /// <summary>
+    /// Full template snapshot (single version fetch only)
+    /// </summary>
+    public TemplateDto? Template { get; init; }
+}
@@ -32,7 +32,7 @@ public record UpdateItemCompletionRequest
     public bool IsCompleted { get; init; }
 
     /// <summary>
-    /// Optional notes about the completion
+    /// Optional note about the completion (added to the item's note thread)
     /// Example: "Verified all PPE is properly stored"
     /// </summary>
     [MaxLength(1000, ErrorMessage = "Notes cannot exceed 1000 characters")]
@@ -0,0 +1,27 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// UpdateItemNoteRequest - Request DTO for editing a note
+///
+/// Purpose:
+///   Corrects the text of a note in an item's thread.
+///   Used by PUT /api/checklists/{checklistId}/items/{itemId}/notes/{noteId} endpoint.
+///
+/// Business Rules:
+///   - Only the note's author can edit it
+///   - Sets EditedBy and EditedAt (the note shows as edited)
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record UpdateItemNoteRequest
+{
+    /// <summary>
+    /// New note text
+    /// </summary>
+    [Required(ErrorMessage = "Note text is required")]
+    [MaxLength(2000, ErrorMessage = "Notes cannot exceed 2000 characters")]
+    public string NoteText { get; init; } = string.Empty;
+}
@@ -38,7 +38,7 @@ public record UpdateItemStatusRequest
     public string Status { get; init; } = string.Empty;
 
     /// <summary>
-    /// Optional notes about the status change
+    /// Optional note about the status change (added to the item's note thread)
     /// Example: "Waiting on supply delivery"
     /// </summary>
     [MaxLength(1000, ErrorMessage = "Notes cannot exceed 1000 characters")]
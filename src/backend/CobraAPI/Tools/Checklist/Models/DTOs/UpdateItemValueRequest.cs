@@ -0,0 +1,43 @@
+using System.ComponentModel.DataAnnotations;
+
+namespace CobraAPI.Tools.Checklist.Models.DTOs;
+
+/// <summary>
+/// UpdateItemValueRequest - Request DTO for capturing the value of value-type items
+///
+/// Purpose:
+///   Records the reading, text, date/time or yes/no answer of an item.
+///   Used by PATCH /api/checklists/{checklistId}/items/{itemId}/value endpoint.
+///
+/// Business Rules:
+///   - Only applies to value-type items (ItemType = "number", "text", "datetime", "yesno")
+///   - Number values must be within the item's min/max (ValueConfiguration)
+///   - Capturing a value completes the item; an empty value clears it and
+///     marks the item incomplete again
+///   - Triggers automatic progress recalculation
+///
+/// Value Formats:
+///   - number: "42.5" (invariant culture)
+///   - text: up to 500 characters
+///   - datetime: ISO 8601, e.g. "2026-10-19T14:30:00Z"
+///   - yesno: "Yes", "No" or "N/A"
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public record UpdateItemValueRequest
+{
+    /// <summary>
+    /// Captured value (null or empty to clear it)
+    /// Example: "42.5", "Shelter A opened", "2026-10-19T14:30:00Z", "N/A"
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Value cannot exceed 1000 characters")]
+    public string? Value { get; init; }
+
+    /// <summary>
+    /// Optional note about the value (added to the item's note thread)
+    /// Example: "Gauge reading taken at tank 2"
+    /// </summary>
+    [MaxLength(1000, ErrorMessage = "Notes cannot exceed 1000 characters")]
+    public string? Notes { get; init; }
+}
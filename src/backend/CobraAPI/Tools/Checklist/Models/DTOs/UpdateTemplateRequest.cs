@@ -70,7 +70,7 @@ public record UpdateTemplateRequest
 
     /// <summary>
     /// JSON configuration for recurring template schedule
-    /// Only used when TemplateType = Recurring (future feature)
+    /// Only used when TemplateType = Recurring (required and validated then)
     /// </summary>
     [MaxLength(2000, ErrorMessage = "RecurrenceConfig cannot exceed 2000 characters")]
     public string? RecurrenceConfig { get; init; }
@@ -0,0 +1,33 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// One metadata change on a checklist instance (append-only).
+/// Records renames, position reassignment and operational period moves
+/// made through the checklist update endpoint, with who made them and when.
+/// Shown alongside item history in the checklist activity feed.
+/// </summary>
+public class ChecklistHistoryEntry
+{
+    public Guid Id { get; set; }
+    public Guid ChecklistInstanceId { get; set; }
+
+    public ChecklistHistoryAction Action { get; set; }
+
+    /// <summary>
+    /// Name, positions or period name before the change (null when there was none)
+    /// </summary>
+    public string? PreviousValue { get; set; }
+
+    /// <summary>
+    /// Name, positions or period name after the change (null when cleared)
+    /// </summary>
+    public string? NewValue { get; set; }
+
+    // Audit
+    public string ChangedBy { get; set; } = string.Empty;
+    public string ChangedByPosition { get; set; } = string.Empty;
+    public DateTime ChangedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public ChecklistInstance ChecklistInstance { get; set; } = null!;
+}
@@ -5,6 +5,19 @@ public class ChecklistInstance
     public Guid Id { get; set; }
     public string Name { get; set; } = string.Empty;
     public Guid TemplateId { get; set; }
+
+    /// <summary>
+    /// Template version this checklist was created from.
+    /// NULL for checklists created before template versioning.
+    /// </summary>
+    public int? TemplateVersion { get; set; }
+
+    /// <summary>
+    /// JSON array of the IDs of all templates a combined checklist was created from,
+    /// in block order (TemplateId is the first of them).
+    /// NULL for checklists created from a single template.
+    /// </summary>
+    public string? SourceTemplateIds { get; set; }
     
     // Event context
     public Guid EventId { get; set; }
@@ -25,6 +38,12 @@ public class ChecklistInstance
     public string? OperationalPeriodName { get; set; }
 
     public string? AssignedPositions { get; set; }
+
+    /// <summary>
+    /// Created from an AutoCreate template when the event was created
+    /// (matched on the event's categories), rather than by a user
+    /// </summary>
+    public bool IsAutoCreated { get; set; } = false;
     
     // Progress tracking
     public decimal ProgressPercentage { get; set; } = 0;
@@ -36,6 +55,21 @@ public class ChecklistInstance
     public bool IsArchived { get; set; } = false;
     public string? ArchivedBy { get; set; }
     public DateTime? ArchivedAt { get; set; }
+
+    // Sign-off workflow - a signed-off checklist is read-only until reopened
+    public ChecklistSignOffStatus SignOffStatus { get; set; } = ChecklistSignOffStatus.Open;
+    public string? SubmittedForSignOffBy { get; set; }
+    public string? SubmittedForSignOffByPosition { get; set; }
+    public DateTime? SubmittedForSignOffAt { get; set; }
+    public string? SignedOffBy { get; set; }
+    public string? SignedOffByName { get; set; }
+    public string? SignedOffByPosition { get; set; }
+    public DateTime? SignedOffAt { get; set; }
+
+    /// <summary>
+    /// Drawn signature as a PNG data URL (optional)
+    /// </summary>
+    public string? SignOffSignature { get; set; }
     
     // Audit
     public string CreatedBy { get; set; } = string.Empty;
@@ -50,4 +84,5 @@ public class ChecklistInstance
     public Event Event { get; set; } = null!;
     public OperationalPeriod? OperationalPeriod { get; set; }
     public ICollection<ChecklistItem> Items { get; set; } = new List<ChecklistItem>();
+    public ICollection<ChecklistHistoryEntry> History { get; set; } = new List<ChecklistHistoryEntry>();
 }
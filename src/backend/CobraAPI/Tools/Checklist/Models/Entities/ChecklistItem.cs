@@ -4,7 +4,13 @@ public class ChecklistItem
 {
     public Guid Id { get; set; }
     public Guid ChecklistInstanceId { get; set; }
+
+    /// <summary>
+    /// Template item this item was copied from
+    /// Guid.Empty for items added to the live checklist
+    /// </summary>
     public Guid TemplateItemId { get; set; }
+
     public string ItemText { get; set; } = string.Empty;
     public string ItemType { get; set; } = string.Empty;
     public int DisplayOrder { get; set; }
@@ -26,10 +32,56 @@ public class ChecklistItem
     /// </summary>
     public string? StatusConfiguration { get; set; }
 
+    // Value fields (number, text, datetime, yesno items)
+
+    /// <summary>
+    /// Captured value, stored as text: invariant number ("42.5"), free text,
+    /// ISO 8601 UTC datetime, or "Yes" / "No" / "N/A" (null = not captured)
+    /// </summary>
+    public string? Value { get; set; }
+
+    /// <summary>
+    /// JSON configuration for number items (copied from TemplateItem)
+    /// Format: {"unit":"%","min":0,"max":100}
+    /// </summary>
+    public string? ValueConfiguration { get; set; }
+
     public string? AllowedPositions { get; set; }
 
-    // Notes
-    public string? Notes { get; set; }
+    // Due time (copied from TemplateItem; DueAt is calculated when the checklist is created)
+    public int? DueOffsetMinutes { get; set; }
+    public ItemDueAnchor DueRelativeTo { get; set; } = ItemDueAnchor.ChecklistCreated;
+    public DateTime? DueAt { get; set; }
+
+    /// <summary>
+    /// When the overdue notification was sent (null = not sent yet)
+    /// Set by ItemOverdueService so each item is announced once
+    /// </summary>
+    public DateTime? OverdueNotifiedAt { get; set; }
+
+    /// <summary>
+    /// JSON array of IDs of items in this checklist that must be complete before
+    /// this one can be completed (null = no prerequisites)
+    /// Resolved from TemplateItem.PrerequisiteDisplayOrders when the checklist is created
+    /// </summary>
+    public string? PrerequisiteItemIds { get; set; }
+
+    /// <summary>
+    /// Section the item belongs to, copied from TemplateItem (null = not in a section)
+    /// </summary>
+    public string? SectionName { get; set; }
+
+    /// <summary>
+    /// Number of files attached to this item (kept in step with ChecklistItemAttachments)
+    /// </summary>
+    public int AttachmentCount { get; set; }
+
+    // Soft delete (removed from a live checklist; kept for the audit trail)
+    // Removed items are hidden by a query filter (see CobraDbContext)
+    public bool IsDeleted { get; set; } = false;
+    public string? DeletedBy { get; set; }
+    public string? DeletedByPosition { get; set; }
+    public DateTime? DeletedAt { get; set; }
 
     // Audit
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
@@ -39,4 +91,14 @@ public class ChecklistItem
     
     // Navigation
     public ChecklistInstance ChecklistInstance { get; set; } = null!;
+
+    /// <summary>
+    /// Note thread, one note per author entry (see ChecklistItemNote)
+    /// </summary>
+    public ICollection<ChecklistItemNote> Notes { get; set; } = new List<ChecklistItemNote>();
+
+    /// <summary>
+    /// Change history, oldest first (see ChecklistItemHistoryEntry)
+    /// </summary>
+    public ICollection<ChecklistItemHistoryEntry> History { get; set; } = new List<ChecklistItemHistoryEntry>();
 }
@@ -0,0 +1,38 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// File attached to a checklist item as evidence (damage photo, signed form).
+/// The file itself is kept in attachment storage under StorageKey; this row
+/// holds its metadata and who uploaded it.
+/// </summary>
+public class ChecklistItemAttachment
+{
+    public Guid Id { get; set; }
+    public Guid ChecklistInstanceId { get; set; }
+    public Guid ChecklistItemId { get; set; }
+
+    /// <summary>
+    /// Original file name, e.g. "roof-damage.jpg"
+    /// </summary>
+    public string FileName { get; set; } = string.Empty;
+
+    /// <summary>
+    /// MIME type, e.g. "image/jpeg"
+    /// </summary>
+    public string ContentType { get; set; } = string.Empty;
+
+    public long SizeBytes { get; set; }
+
+    /// <summary>
+    /// Location of the file in attachment storage
+    /// </summary>
+    public string StorageKey { get; set; } = string.Empty;
+
+    // Audit
+    public string UploadedBy { get; set; } = string.Empty;
+    public string UploadedByPosition { get; set; } = string.Empty;
+    public DateTime UploadedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public ChecklistItem ChecklistItem { get; set; } = null!;
+}
@@ -0,0 +1,33 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// One entry in a checklist item's history (append-only).
+/// Records every completion toggle, status or value change and note,
+/// with who made it and when, for after-action review.
+/// </summary>
+public class ChecklistItemHistoryEntry
+{
+    public Guid Id { get; set; }
+    public Guid ChecklistInstanceId { get; set; }
+    public Guid ChecklistItemId { get; set; }
+
+    public ItemHistoryAction Action { get; set; }
+
+    /// <summary>
+    /// Status, value or note text before the change (null when there was none)
+    /// </summary>
+    public string? PreviousValue { get; set; }
+
+    /// <summary>
+    /// Status, value or note text after the change (null when cleared or deleted)
+    /// </summary>
+    public string? NewValue { get; set; }
+
+    // Audit
+    public string ChangedBy { get; set; } = string.Empty;
+    public string ChangedByPosition { get; set; } = string.Empty;
+    public DateTime ChangedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public ChecklistItem ChecklistItem { get; set; } = null!;
+}
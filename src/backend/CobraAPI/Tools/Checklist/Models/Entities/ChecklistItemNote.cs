@@ -0,0 +1,28 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// Note added to a checklist item. Notes are append-only per author: each
+/// note keeps who wrote it, and only its author can edit or delete it.
+/// </summary>
+public class ChecklistItemNote
+{
+    public Guid Id { get; set; }
+    public Guid ChecklistInstanceId { get; set; }
+    public Guid ChecklistItemId { get; set; }
+
+    public string NoteText { get; set; } = string.Empty;
+
+    // Audit
+    public string CreatedBy { get; set; } = string.Empty;
+    public string CreatedByPosition { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    /// <summary>
+    /// Set when the author edits the note (null = never edited)
+    /// </summary>
+    public string? EditedBy { get; set; }
+    public DateTime? EditedAt { get; set; }
+
+    // Navigation
+    public ChecklistItem ChecklistItem { get; set; } = null!;
+}
@@ -17,7 +17,7 @@ public class ItemLibraryEntry
     public string ItemText { get; set; } = string.Empty;
 
     /// <summary>
-    /// Type of item: "checkbox" or "status"
+    /// Type of item: "checkbox", "status", "number", "text", "datetime" or "yesno"
     /// </summary>
     public string ItemType { get; set; } = "checkbox";
 
@@ -33,6 +33,13 @@ public class ItemLibraryEntry
     /// </summary>
     public string? StatusConfiguration { get; set; }
 
+    /// <summary>
+    /// JSON string with the unit and range for number items.
+    /// Format: {"unit":"gal","min":0,"max":500}
+    /// Null for other item types.
+    /// </summary>
+    public string? ValueConfiguration { get; set; }
+
     /// <summary>
     /// JSON string of ICS positions that can use this item
     /// Format: ["Incident Commander", "Safety Officer"]
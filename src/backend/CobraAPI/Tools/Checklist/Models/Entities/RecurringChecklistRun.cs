@@ -0,0 +1,32 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// Record of a checklist created by a recurring template schedule.
+/// One row per template, event and occurrence (operational period, interval
+/// slot or day), so the scheduler never creates the same occurrence twice -
+/// even after a restart or when several API instances are running.
+/// </summary>
+public class RecurringChecklistRun
+{
+    public Guid Id { get; set; }
+    public Guid TemplateId { get; set; }
+    public Guid EventId { get; set; }
+    public Guid? OperationalPeriodId { get; set; }
+
+    /// <summary>
+    /// Identifies the occurrence, e.g. "period:{id}", "interval:20251120T0600Z"
+    /// or "daily:2025-11-20"
+    /// </summary>
+    public string OccurrenceKey { get; set; } = string.Empty;
+
+    /// <summary>
+    /// When the occurrence was due (UTC)
+    /// </summary>
+    public DateTime ScheduledFor { get; set; }
+
+    public Guid ChecklistInstanceId { get; set; }
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public Template Template { get; set; } = null!;
+}
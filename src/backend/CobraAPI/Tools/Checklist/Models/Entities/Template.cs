@@ -16,7 +16,7 @@ public class Template
     // Template type and auto-creation configuration
     public TemplateType TemplateType { get; set; } = TemplateType.Manual;
     public string? AutoCreateForCategories { get; set; } // JSON array of incident categories (e.g., ["Hurricane", "Flood"])
-    public string? RecurrenceConfig { get; set; } // JSON configuration for recurring templates (future feature)
+    public string? RecurrenceConfig { get; set; } // JSON schedule for Recurring templates (see RecurrenceConfig DTO)
 
     // Smart suggestions metadata
     public string? RecommendedPositions { get; set; } // JSON array of ICS positions (e.g., ["Safety Officer", "Ops Chief"])
@@ -24,6 +24,21 @@ public class Template
     public int UsageCount { get; set; } = 0; // Track template popularity
     public DateTime? LastUsedAt { get; set; } // Track recent usage for suggestions
 
+    // Version history - incremented on every save (see TemplateVersion)
+    public int CurrentVersion { get; set; } = 1;
+
+    // Approval workflow - only Approved templates can be instantiated.
+    // Defaults to Approved so seeded/imported templates stay usable;
+    // TemplateService sets Draft on create and duplicate.
+    public TemplateApprovalStatus ApprovalStatus { get; set; } = TemplateApprovalStatus.Approved;
+    public string? SubmittedBy { get; set; }
+    public string? SubmittedByPosition { get; set; }
+    public DateTime? SubmittedAt { get; set; }
+    public string? ReviewedBy { get; set; }
+    public string? ReviewedByPosition { get; set; }
+    public DateTime? ReviewedAt { get; set; }
+    public string? ReviewComment { get; set; }
+
     // Audit fields
     public string CreatedBy { get; set; } = string.Empty;
     public string CreatedByPosition { get; set; } = string.Empty;
@@ -34,4 +49,6 @@ public class Template
     
     // Navigation
     public ICollection<TemplateItem> Items { get; set; } = new List<TemplateItem>();
+    public ICollection<TemplateVersion> Versions { get; set; } = new List<TemplateVersion>();
+    public ICollection<TemplateApprovalEvent> ApprovalEvents { get; set; } = new List<TemplateApprovalEvent>();
 }
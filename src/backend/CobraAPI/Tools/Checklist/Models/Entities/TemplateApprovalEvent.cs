@@ -0,0 +1,32 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// One entry in a template's approval history (append-only).
+/// Records who submitted, approved, rejected or reset the template, when,
+/// and the template version the decision applied to.
+/// </summary>
+public class TemplateApprovalEvent
+{
+    public Guid Id { get; set; }
+    public Guid TemplateId { get; set; }
+
+    public TemplateApprovalAction Action { get; set; }
+
+    /// <summary>
+    /// Reviewer or submitter comment. Required for rejections.
+    /// </summary>
+    public string? Comment { get; set; }
+
+    /// <summary>
+    /// Template version the action applied to
+    /// </summary>
+    public int TemplateVersion { get; set; }
+
+    // Audit
+    public string PerformedBy { get; set; } = string.Empty;
+    public string PerformedByPosition { get; set; } = string.Empty;
+    public DateTime PerformedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public Template Template { get; set; } = null!;
+}
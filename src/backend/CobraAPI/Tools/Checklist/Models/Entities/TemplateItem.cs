@@ -15,8 +15,38 @@ public class TemplateItem
     /// </summary>
     public string? StatusConfiguration { get; set; }
 
+    /// <summary>
+    /// JSON configuration for value items (only used when ItemType = "number")
+    /// Format: {"unit":"%","min":0,"max":100}
+    /// </summary>
+    public string? ValueConfiguration { get; set; }
+
     public string? AllowedPositions { get; set; }
     public string? DefaultNotes { get; set; }
+
+    /// <summary>
+    /// Minutes after DueRelativeTo by which the item must be done (null = no due time)
+    /// Example: 30 for "Establish ICP within 30 minutes"
+    /// </summary>
+    public int? DueOffsetMinutes { get; set; }
+
+    public ItemDueAnchor DueRelativeTo { get; set; } = ItemDueAnchor.ChecklistCreated;
+
+    /// <summary>
+    /// JSON array of the DisplayOrder values of items in this template that must
+    /// be complete before this one (null = no prerequisites)
+    /// Example: [10, 20]
+    /// Display orders are used because item IDs change every time the template is saved
+    /// </summary>
+    public string? PrerequisiteDisplayOrders { get; set; }
+
+    /// <summary>
+    /// Name of the section the item belongs to (null = not in a section)
+    /// Sections are ordered by their first item's DisplayOrder
+    /// Example: "Initial Response"
+    /// </summary>
+    public string? SectionName { get; set; }
+
     public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
 
     // Navigation
@@ -0,0 +1,36 @@
+namespace CobraAPI.Tools.Checklist.Models.Entities;
+
+/// <summary>
+/// Immutable snapshot of a template, saved every time the template is created,
+/// updated or restored. Templates are edited in place (items replaced on every
+/// save), so versions are the only record of what a template looked like when
+/// a checklist was created from it.
+/// </summary>
+public class TemplateVersion
+{
+    public Guid Id { get; set; }
+    public Guid TemplateId { get; set; }
+
+    /// <summary>
+    /// Sequential version number per template (1, 2, 3...)
+    /// </summary>
+    public int VersionNumber { get; set; }
+
+    /// <summary>
+    /// JSON serialized TemplateDto (template fields and items) at this version
+    /// </summary>
+    public string Snapshot { get; set; } = string.Empty;
+
+    /// <summary>
+    /// Version this one was restored from. Null for regular edits.
+    /// </summary>
+    public int? RestoredFromVersion { get; set; }
+
+    // Audit
+    public string CreatedBy { get; set; } = string.Empty;
+    public string CreatedByPosition { get; set; } = string.Empty;
+    public DateTime CreatedAt { get; set; } = DateTime.UtcNow;
+
+    // Navigation
+    public Template Template { get; set; } = null!;
+}
@@ -0,0 +1,43 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// Checklist-level changes recorded in a checklist's activity feed
+/// (item changes are recorded as ItemHistoryAction)
+/// </summary>
+public enum ChecklistHistoryAction
+{
+    /// <summary>
+    /// Checklist name changed
+    /// </summary>
+    Renamed = 0,
+
+    /// <summary>
+    /// Assigned positions changed (who can see the checklist)
+    /// </summary>
+    PositionsChanged = 1,
+
+    /// <summary>
+    /// Checklist moved to another operational period (or to incident-level)
+    /// </summary>
+    OperationalPeriodChanged = 2,
+
+    /// <summary>
+    /// Items were reordered
+    /// </summary>
+    ItemsReordered = 3,
+
+    /// <summary>
+    /// Submitted for supervisor sign-off
+    /// </summary>
+    SubmittedForSignOff = 4,
+
+    /// <summary>
+    /// Signed off by a supervisor (checklist locked)
+    /// </summary>
+    SignedOff = 5,
+
+    /// <summary>
+    /// Reopened by a manager after submission or sign-off (reason in NewValue)
+    /// </summary>
+    Reopened = 6
+}
@@ -0,0 +1,23 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// Checklist sign-off lifecycle - a signed-off checklist is read-only
+/// until a manager reopens it
+/// </summary>
+public enum ChecklistSignOffStatus
+{
+    /// <summary>
+    /// Being worked. New and reopened checklists start here.
+    /// </summary>
+    Open = 0,
+
+    /// <summary>
+    /// All required items done and submitted, waiting for a supervisor
+    /// </summary>
+    PendingSignOff = 1,
+
+    /// <summary>
+    /// Signed off by a supervisor. Items and metadata can no longer be changed.
+    /// </summary>
+    SignedOff = 2
+}
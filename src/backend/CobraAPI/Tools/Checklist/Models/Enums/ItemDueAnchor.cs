@@ -0,0 +1,19 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// What a template item's due offset is counted from when a checklist is
+/// created
+/// </summary>
+public enum ItemDueAnchor
+{
+    /// <summary>
+    /// When the checklist is created, e.g. "within 30 minutes of activation"
+    /// </summary>
+    ChecklistCreated = 0,
+
+    /// <summary>
+    /// Start of the checklist's operational period, e.g. "2 hours into the
+    /// shift". Falls back to checklist creation for incident-level checklists.
+    /// </summary>
+    PeriodStart = 1
+}
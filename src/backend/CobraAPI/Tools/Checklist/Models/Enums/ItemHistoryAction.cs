@@ -0,0 +1,52 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// Changes recorded in a checklist item's history
+/// </summary>
+public enum ItemHistoryAction
+{
+    /// <summary>
+    /// Item was marked complete (checkbox items)
+    /// </summary>
+    Completed = 0,
+
+    /// <summary>
+    /// Item completion was cleared (checkbox items)
+    /// </summary>
+    Uncompleted = 1,
+
+    /// <summary>
+    /// Status changed (status items)
+    /// </summary>
+    StatusChanged = 2,
+
+    /// <summary>
+    /// Value was captured, corrected or cleared (number, text, datetime, yesno items)
+    /// </summary>
+    ValueChanged = 3,
+
+    /// <summary>
+    /// Note added to the item's thread
+    /// </summary>
+    NoteAdded = 4,
+
+    /// <summary>
+    /// Author edited their note
+    /// </summary>
+    NoteEdited = 5,
+
+    /// <summary>
+    /// Author deleted their note
+    /// </summary>
+    NoteDeleted = 6,
+
+    /// <summary>
+    /// Item was added to the live checklist (not from its template)
+    /// </summary>
+    Added = 7,
+
+    /// <summary>
+    /// Item was removed from the checklist (soft delete)
+    /// </summary>
+    Removed = 8
+}
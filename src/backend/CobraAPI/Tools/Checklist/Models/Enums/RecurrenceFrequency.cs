@@ -0,0 +1,23 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// How often a recurring template creates a new checklist
+/// </summary>
+public enum RecurrenceFrequency
+{
+    /// <summary>
+    /// One checklist per operational period, created when the event's
+    /// current period changes
+    /// </summary>
+    OperationalPeriod = 0,
+
+    /// <summary>
+    /// One checklist every N hours, counted from the schedule start
+    /// </summary>
+    Interval = 1,
+
+    /// <summary>
+    /// One checklist per day at a fixed local time
+    /// </summary>
+    Daily = 2
+}
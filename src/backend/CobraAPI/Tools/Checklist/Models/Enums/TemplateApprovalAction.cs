@@ -0,0 +1,28 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// Entries recorded in a template's approval history
+/// </summary>
+public enum TemplateApprovalAction
+{
+    /// <summary>
+    /// Author submitted the template for approval
+    /// </summary>
+    Submitted = 0,
+
+    /// <summary>
+    /// Approver approved the template
+    /// </summary>
+    Approved = 1,
+
+    /// <summary>
+    /// Approver rejected the template (comment required)
+    /// </summary>
+    Rejected = 2,
+
+    /// <summary>
+    /// A pending or approved template was edited or restored and needs
+    /// to be approved again
+    /// </summary>
+    ReturnedToDraft = 3
+}
@@ -0,0 +1,28 @@
+namespace CobraAPI.Tools.Checklist.Models.Enums;
+
+/// <summary>
+/// Template approval lifecycle - only Approved templates can be used to
+/// create checklists
+/// </summary>
+public enum TemplateApprovalStatus
+{
+    /// <summary>
+    /// Being written or edited. New, duplicated and edited templates start here.
+    /// </summary>
+    Draft = 0,
+
+    /// <summary>
+    /// Submitted by the author and waiting in the approver queue
+    /// </summary>
+    PendingApproval = 1,
+
+    /// <summary>
+    /// Reviewed and available in the template picker
+    /// </summary>
+    Approved = 2,
+
+    /// <summary>
+    /// Sent back to the author with a comment. Can be edited and resubmitted.
+    /// </summary>
+    Rejected = 3
+}
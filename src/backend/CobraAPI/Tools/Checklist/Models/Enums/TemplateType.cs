@@ -20,8 +20,9 @@ public enum TemplateType
 
     /// <summary>
     /// Recurring - automatically creates checklists on a schedule
-    /// Future feature for daily, per-shift, or per-operational-period checklists.
-    /// Requires recurrence configuration (frequency, start/end dates).
+    /// Every operational period, every N hours, or daily at a set time,
+    /// for each active event until it is closed (RecurringChecklistScheduler).
+    /// Requires recurrence configuration (see RecurrenceConfig).
     /// </summary>
     Recurring = 2
 }
\ No newline at end of file
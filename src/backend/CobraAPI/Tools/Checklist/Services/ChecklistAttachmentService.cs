@@ -0,0 +1,341 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Tools.Checklist.Mappers;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ChecklistAttachmentService - Implementation of checklist item attachments
+///
+/// Purpose:
+///   Stores evidence files (damage photos, signed forms) against checklist items.
+///   Metadata lives in ChecklistItemAttachments; file content goes to IAttachmentStorage.
+///
+/// Key Business Logic:
+///   - Limits: Size and type checked against System Settings before storing
+///   - Permission Validation: Uploads check AllowedPositions, like other item updates
+///   - Deletion: Uploader or Manage users only
+///   - Counts: ChecklistItem.AttachmentCount updated with each upload/delete
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - IAttachmentStorage: File content
+///   - ISystemSettingsService: Size and type limits
+///   - IHubContext: Real-time ItemAttachmentsChanged broadcasts
+///
+/// Design Decisions:
+///   - File is stored before the row is saved; a failed save removes the file again
+///   - Row is removed before the file on delete, so a missing file never leaves a visible attachment
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class ChecklistAttachmentService : IChecklistAttachmentService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<ChecklistAttachmentService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+    private readonly IAttachmentStorage _storage;
+    private readonly ISystemSettingsService _settingsService;
+
+    public ChecklistAttachmentService(
+        CobraDbContext context,
+        ILogger<ChecklistAttachmentService> logger,
+        IHubContext<ChecklistHub> hubContext,
+        IAttachmentStorage storage,
+        ISystemSettingsService settingsService)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+        _storage = storage;
+        _settingsService = settingsService;
+    }
+
+    public async Task<AttachmentLimitsDto> GetLimitsAsync()
+    {
+        var maxSizeMb = await _settingsService.GetSettingValueAsync(SystemSettingKeys.ChecklistAttachmentMaxSizeMb);
+        var allowedTypes = await _settingsService.GetSettingValueAsync(SystemSettingKeys.ChecklistAttachmentAllowedTypes);
+
+        return AttachmentHelper.BuildLimits(maxSizeMb, allowedTypes);
+    }
+
+    public async Task<List<ItemAttachmentDto>?> GetAttachmentsAsync(Guid checklistId, Guid itemId)
+    {
+        _logger.LogInformation(
+            "Fetching attachments for item {ItemId} in checklist {ChecklistId}",
+            itemId,
+            checklistId);
+
+        var itemExists = await _context.ChecklistItems
+            .AnyAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
+
+        if (!itemExists)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return null;
+        }
+
+        var attachments = await _context.ChecklistItemAttachments
+            .AsNoTracking()
+            .Where(a => a.ChecklistItemId == itemId)
+            .OrderBy(a => a.UploadedAt)
+            .ToListAsync();
+
+        return attachments.Select(ChecklistMapper.MapAttachmentToDto).ToList();
+    }
+
+    public async Task<ItemAttachmentDto?> UploadAttachmentAsync(
+        Guid checklistId,
+        Guid itemId,
+        string fileName,
+        string contentType,
+        long sizeBytes,
+        Stream content,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Uploading attachment {FileName} ({SizeBytes} bytes) to item {ItemId} in checklist {ChecklistId} by {User}",
+            fileName,
+            sizeBytes,
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        var item = await _context.ChecklistItems
+            .FirstOrDefaultAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
+
+        if (item == null)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return null;
+        }
+
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        // Validate position permissions
+        ValidatePositionPermission(item, userContext);
+
+        // Validate size and type against the configured limits
+        var safeFileName = Path.GetFileName(fileName).Trim();
+        var limits = await GetLimitsAsync();
+        var validationError = AttachmentHelper.Validate(safeFileName, contentType, sizeBytes, limits);
+        if (validationError != null)
+        {
+            _logger.LogWarning(
+                "Attachment {FileName} rejected for item {ItemId}: {Reason}",
+                safeFileName,
+                itemId,
+                validationError);
+            throw new InvalidOperationException(validationError);
+        }
+
+        var now = DateTime.UtcNow;
+        var attachment = new ChecklistItemAttachment
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            ChecklistItemId = itemId,
+            FileName = safeFileName,
+            ContentType = contentType.Trim().ToLowerInvariant(),
+            SizeBytes = sizeBytes,
+            UploadedBy = userContext.Email,
+            UploadedByPosition = userContext.Position,
+            UploadedAt = now
+        };
+        attachment.StorageKey = AttachmentHelper.BuildStorageKey(checklistId, itemId, attachment.Id, safeFileName);
+
+        await _storage.SaveAsync(attachment.StorageKey, content);
+
+        _context.ChecklistItemAttachments.Add(attachment);
+        item.AttachmentCount += 1;
+
+        // Update audit fields
+        item.LastModifiedBy = userContext.Email;
+        item.LastModifiedByPosition = userContext.Position;
+        item.LastModifiedAt = now;
+
+        try
+        {
+            await _context.SaveChangesAsync();
+        }
+        catch
+        {
+            // Don't leave an orphaned file behind
+            await _storage.DeleteAsync(attachment.StorageKey);
+            throw;
+        }
+
+        _logger.LogInformation(
+            "Attachment {AttachmentId} added to item {ItemId} by {User}",
+            attachment.Id,
+            itemId,
+            userContext.Email);
+
+        await BroadcastAttachmentsChangedAsync(checklistId, item, userContext);
+
+        return ChecklistMapper.MapAttachmentToDto(attachment);
+    }
+
+    public async Task<AttachmentContent?> GetAttachmentContentAsync(Guid checklistId, Guid itemId, Guid attachmentId)
+    {
+        var attachment = await _context.ChecklistItemAttachments
+            .AsNoTracking()
+            .FirstOrDefaultAsync(a =>
+                a.Id == attachmentId &&
+                a.ChecklistItemId == itemId &&
+                a.ChecklistInstanceId == checklistId);
+
+        if (attachment == null)
+        {
+            _logger.LogWarning(
+                "Attachment {AttachmentId} not found on item {ItemId}",
+                attachmentId,
+                itemId);
+            return null;
+        }
+
+        var stream = await _storage.OpenReadAsync(attachment.StorageKey);
+        if (stream == null)
+        {
+            _logger.LogError(
+                "File for attachment {AttachmentId} is missing from storage ({StorageKey})",
+                attachmentId,
+                attachment.StorageKey);
+            return null;
+        }
+
+        return new AttachmentContent(attachment.FileName, attachment.ContentType, stream);
+    }
+
+    public async Task<bool> DeleteAttachmentAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid attachmentId,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Deleting attachment {AttachmentId} from item {ItemId} in checklist {ChecklistId} by {User}",
+            attachmentId,
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        var attachment = await _context.ChecklistItemAttachments
+            .Include(a => a.ChecklistItem)
+            .FirstOrDefaultAsync(a =>
+                a.Id == attachmentId &&
+                a.ChecklistItemId == itemId &&
+                a.ChecklistInstanceId == checklistId);
+
+        if (attachment == null)
+        {
+            _logger.LogWarning(
+                "Attachment {AttachmentId} not found on item {ItemId}",
+                attachmentId,
+                itemId);
+            return false;
+        }
+
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        var isUploader = string.Equals(attachment.UploadedBy, userContext.Email, StringComparison.OrdinalIgnoreCase);
+        if (!isUploader && !userContext.CanManage)
+        {
+            _logger.LogError(
+                "User {User} is not authorized to delete attachment {AttachmentId} uploaded by {UploadedBy}",
+                userContext.Email,
+                attachmentId,
+                attachment.UploadedBy);
+
+            throw new UnauthorizedAccessException(
+                "Only the person who attached this file or a manager can delete it");
+        }
+
+        var item = attachment.ChecklistItem;
+        _context.ChecklistItemAttachments.Remove(attachment);
+        item.AttachmentCount = Math.Max(0, item.AttachmentCount - 1);
+
+        // Update audit fields
+        item.LastModifiedBy = userContext.Email;
+        item.LastModifiedByPosition = userContext.Position;
+        item.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+        await _storage.DeleteAsync(attachment.StorageKey);
+
+        _logger.LogInformation(
+            "Attachment {AttachmentId} deleted from item {ItemId} by {User}",
+            attachmentId,
+            itemId,
+            userContext.Email);
+
+        await BroadcastAttachmentsChangedAsync(checklistId, item, userContext);
+
+        return true;
+    }
+
+    /// <summary>
+    /// Broadcasts the item's new attachment count to all clients viewing the checklist
+    /// </summary>
+    private async Task BroadcastAttachmentsChangedAsync(
+        Guid checklistId,
+        Models.Entities.ChecklistItem item,
+        UserContext userContext)
+    {
+        await _hubContext.Clients
+            .Group($"checklist-{checklistId}")
+            .SendAsync("ItemAttachmentsChanged", new
+            {
+                checklistId = checklistId.ToString(),
+                itemId = item.Id.ToString(),
+                attachmentCount = item.AttachmentCount,
+                changedBy = userContext.Email,
+                changedByPosition = userContext.Position,
+                changedAt = item.LastModifiedAt,
+                sentAt = DateTime.UtcNow
+            });
+    }
+
+    /// <summary>
+    /// Validates that the user's position is allowed to modify this item
+    /// Throws UnauthorizedAccessException if not allowed
+    /// </summary>
+    /// <param name="item">The item to check permissions for</param>
+    /// <param name="userContext">Current user context</param>
+    /// <exception cref="UnauthorizedAccessException">If user position not in AllowedPositions</exception>
+    private void ValidatePositionPermission(
+        Models.Entities.ChecklistItem item,
+        UserContext userContext)
+    {
+        // Null or empty AllowedPositions = accessible to all positions
+        if (string.IsNullOrEmpty(item.AllowedPositions))
+        {
+            return;
+        }
+
+        var allowedPositions = item.AllowedPositions.Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries);
+
+        if (!allowedPositions.Contains(userContext.Position, StringComparer.OrdinalIgnoreCase))
+        {
+            _logger.LogError(
+                "User {User} with position '{Position}' is not authorized to attach files to item {ItemId} (allowed: {AllowedPositions})",
+                userContext.Email,
+                userContext.Position,
+                item.Id,
+                item.AllowedPositions);
+
+            throw new UnauthorizedAccessException(
+                $"Position '{userContext.Position}' is not authorized to modify this item. Allowed positions: {item.AllowedPositions}");
+        }
+    }
+}
@@ -0,0 +1,231 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ChecklistAutoCreateService - Implementation of generating checklists from AutoCreate templates
+///
+/// Purpose:
+///   Matches AutoCreate templates to event categories (AutoCreateMatchHelper)
+///   and instantiates the selected ones with ChecklistCreationHelper, the same
+///   way a user creating a checklist from a template does.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - IHubContext: ChecklistCreated broadcast so My Checklists updates live
+///   - AutoCreateMatchHelper: Category matching
+///   - ChecklistCreationHelper: Template instantiation
+///
+/// Design Decisions:
+///   - The preview and the creation use the same matching, so a template that
+///     stopped matching (or was archived) since the preview is skipped
+///   - All checklists are saved together; skipped templates are reported, not errors
+///   - Results keep the order of the requested template IDs
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class ChecklistAutoCreateService : IChecklistAutoCreateService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<ChecklistAutoCreateService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+
+    public ChecklistAutoCreateService(
+        CobraDbContext context,
+        ILogger<ChecklistAutoCreateService> logger,
+        IHubContext<ChecklistHub> hubContext)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+    }
+
+    public async Task<List<AutoCreateChecklistPreviewDto>> GetPreviewAsync(List<Guid> categoryIds)
+    {
+        var preview = await BuildPreviewAsync(categoryIds);
+
+        _logger.LogInformation(
+            "Auto-create preview for {CategoryCount} categories: {Count} templates",
+            categoryIds.Count,
+            preview.Count);
+
+        return preview;
+    }
+
+    public async Task<AutoCreateResultDto> AutoCreateAsync(
+        AutoCreateChecklistsRequest request,
+        UserContext userContext)
+    {
+        var evt = await _context.Events
+            .AsNoTracking()
+            .FirstOrDefaultAsync(e => e.Id == request.EventId && !e.IsArchived);
+
+        if (evt == null)
+        {
+            throw new KeyNotFoundException($"Event {request.EventId} not found");
+        }
+
+        _logger.LogInformation(
+            "Auto-creating {Count} checklists for event {EventId} ({EventName}) by {User}",
+            request.TemplateIds.Count,
+            evt.Id,
+            evt.Name,
+            userContext.Email);
+
+        var categoryIds = new List<Guid> { evt.PrimaryCategoryId };
+        categoryIds.AddRange(AutoCreateMatchHelper.ParseCategoryIds(evt.AdditionalCategoryIds));
+        var matching = (await BuildPreviewAsync(categoryIds)).ToDictionary(p => p.TemplateId);
+
+        var alreadyCreated = (await _context.ChecklistInstances
+                .Where(c => c.EventId == evt.Id && c.IsAutoCreated && !c.IsArchived)
+                .Select(c => c.TemplateId)
+                .ToListAsync())
+            .ToHashSet();
+
+        var period = OperationalPeriodService.FindCurrent(
+            await _context.OperationalPeriods
+                .Where(p => p.EventId == evt.Id && !p.IsArchived)
+                .AsNoTracking()
+                .ToListAsync(),
+            DateTime.UtcNow);
+
+        var checklists = new List<ChecklistInstance>();
+        var skipped = new List<AutoCreateSkippedDto>();
+
+        foreach (var templateId in request.TemplateIds.Distinct())
+        {
+            if (!matching.TryGetValue(templateId, out var match))
+            {
+                var name = await _context.Templates
+                    .Where(t => t.Id == templateId)
+                    .Select(t => t.Name)
+                    .FirstOrDefaultAsync();
+                skipped.Add(new AutoCreateSkippedDto
+                {
+                    TemplateId = templateId,
+                    TemplateName = name ?? string.Empty,
+                    Reason = "Not an available auto-create template for this event's categories"
+                });
+                continue;
+            }
+
+            if (!alreadyCreated.Add(templateId))
+            {
+                skipped.Add(new AutoCreateSkippedDto
+                {
+                    TemplateId = templateId,
+                    TemplateName = match.TemplateName,
+                    Reason = "Already created for this event"
+                });
+                continue;
+            }
+
+            var checklist = await ChecklistCreationHelper.CreateFromTemplateAsync(
+                _context,
+                _logger,
+                new CreateFromTemplateRequest
+                {
+                    TemplateId = templateId,
+                    Name = match.TemplateName,
+                    EventId = evt.Id,
+                    EventName = evt.Name,
+                    OperationalPeriodId = period?.Id,
+                    OperationalPeriodName = period?.Name,
+                    AssignedPositions = match.Positions.Count > 0
+                        ? string.Join(",", match.Positions)
+                        : null
+                },
+                userContext);
+            checklist.IsAutoCreated = true;
+
+            _context.ChecklistInstances.Add(checklist);
+            checklists.Add(checklist);
+
+            // Same usage tracking as a manual creation
+            var template = await _context.Templates.FindAsync(templateId);
+            if (template != null)
+            {
+                template.UsageCount++;
+                template.LastUsedAt = DateTime.UtcNow;
+            }
+        }
+
+        if (checklists.Count > 0)
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        _logger.LogInformation(
+            "Auto-created {Created} checklists for event {EventId}, skipped {Skipped}",
+            checklists.Count,
+            evt.Id,
+            skipped.Count);
+
+        var created = checklists.Select(ChecklistMapper.MapToDto).ToList();
+        foreach (var dto in created)
+        {
+            await ChecklistBroadcastHelper.BroadcastChecklistCreatedAsync(_hubContext, _logger, dto, userContext.Email);
+        }
+
+        return new AutoCreateResultDto
+        {
+            Created = created,
+            Skipped = skipped
+        };
+    }
+
+    /// <summary>
+    /// Available AutoCreate templates matching any of the categories, by name
+    /// </summary>
+    private async Task<List<AutoCreateChecklistPreviewDto>> BuildPreviewAsync(List<Guid> categoryIds)
+    {
+        var ids = categoryIds.Distinct().ToList();
+        var categories = (await _context.EventCategories
+                .Where(c => ids.Contains(c.Id))
+                .AsNoTracking()
+                .ToListAsync())
+            .OrderBy(c => ids.IndexOf(c.Id))
+            .ToList();
+
+        if (categories.Count == 0)
+        {
+            return new List<AutoCreateChecklistPreviewDto>();
+        }
+
+        var templates = await _context.Templates
+            .Include(t => t.Items)
+            .Where(t => t.TemplateType == TemplateType.AutoCreate
+                && t.IsActive
+                && !t.IsArchived
+                && t.ApprovalStatus == TemplateApprovalStatus.Approved)
+            .AsNoTracking()
+            .ToListAsync();
+
+        return templates
+            .Select(template => new
+            {
+                Template = template,
+                Categories = AutoCreateMatchHelper.GetMatchingCategories(
+                    AutoCreateMatchHelper.ParseStringList(template.AutoCreateForCategories),
+                    categories)
+            })
+            .Where(x => x.Categories.Count > 0)
+            .OrderBy(x => x.Template.Name)
+            .Select(x => new AutoCreateChecklistPreviewDto
+            {
+                TemplateId = x.Template.Id,
+                TemplateName = x.Template.Name,
+                Description = x.Template.Description,
+                ItemCount = x.Template.Items.Count,
+                Positions = AutoCreateMatchHelper.ParseStringList(x.Template.RecommendedPositions),
+                MatchedCategories = x.Categories.Select(c => c.Name).ToList()
+            })
+            .ToList();
+    }
+}
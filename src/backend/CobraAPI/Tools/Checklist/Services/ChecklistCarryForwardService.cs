@@ -0,0 +1,202 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ChecklistCarryForwardService - Implementation of carrying checklists into another operational period
+///
+/// Purpose:
+///   Validates each source checklist against the target period and copies
+///   it with ChecklistCreationHelper, the same way a single clone does.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - IHubContext: ChecklistCreated broadcast so My Checklists updates live
+///   - ChecklistCreationHelper: Checklist cloning
+///
+/// Design Decisions:
+///   - All copies are saved together; skipped checklists are reported, not errors
+///   - Results keep the order of the requested checklist IDs
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class ChecklistCarryForwardService : IChecklistCarryForwardService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<ChecklistCarryForwardService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+
+    public ChecklistCarryForwardService(
+        CobraDbContext context,
+        ILogger<ChecklistCarryForwardService> logger,
+        IHubContext<ChecklistHub> hubContext)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+    }
+
+    /// <summary>
+    /// Name for the copy: the source period name is swapped for the target period name,
+    /// otherwise the name is kept
+    /// </summary>
+    public static string GetCarriedForwardName(
+        string name,
+        string? sourcePeriodName,
+        string targetPeriodName)
+    {
+        if (string.IsNullOrWhiteSpace(sourcePeriodName) ||
+            !name.Contains(sourcePeriodName, StringComparison.OrdinalIgnoreCase))
+        {
+            return name;
+        }
+
+        return name.Replace(sourcePeriodName, targetPeriodName, StringComparison.OrdinalIgnoreCase);
+    }
+
+    public async Task<CarryForwardResultDto> CarryForwardAsync(
+        CarryForwardChecklistsRequest request,
+        UserContext userContext)
+    {
+        var target = await _context.OperationalPeriods
+            .AsNoTracking()
+            .FirstOrDefaultAsync(p => p.Id == request.TargetOperationalPeriodId && !p.IsArchived);
+
+        if (target == null)
+        {
+            throw new KeyNotFoundException(
+                $"Operational period {request.TargetOperationalPeriodId} not found");
+        }
+
+        _logger.LogInformation(
+            "Carrying forward {Count} checklists into period {PeriodId} ({PeriodName}) by {User}",
+            request.ChecklistIds.Count,
+            target.Id,
+            target.Name,
+            userContext.Email);
+
+        var checklistIds = request.ChecklistIds.Distinct().ToList();
+        var sources = await _context.ChecklistInstances
+            .Include(c => c.Items)
+            .Where(c => checklistIds.Contains(c.Id))
+            .AsNoTracking()
+            .ToDictionaryAsync(c => c.Id);
+
+        var namesInTarget = (await _context.ChecklistInstances
+                .Where(c => c.OperationalPeriodId == target.Id && !c.IsArchived)
+                .Select(c => c.Name)
+                .ToListAsync())
+            .ToHashSet(StringComparer.OrdinalIgnoreCase);
+
+        var options = new ChecklistCloneOptions
+        {
+            SetOperationalPeriod = true,
+            OperationalPeriodId = target.Id,
+            OperationalPeriodName = target.Name,
+            OnlyIncompleteItems = request.OnlyIncompleteItems,
+            CarryNotes = request.CarryNotes
+        };
+
+        var clones = new List<ChecklistInstance>();
+        var skipped = new List<CarryForwardSkippedDto>();
+
+        foreach (var checklistId in checklistIds)
+        {
+            sources.TryGetValue(checklistId, out var source);
+            var reason = GetSkipReason(source, target, request.OnlyIncompleteItems);
+            var newName = source == null
+                ? string.Empty
+                : GetCarriedForwardName(source.Name, source.OperationalPeriodName, target.Name);
+
+            if (reason == null && !namesInTarget.Add(newName))
+            {
+                reason = $"\"{newName}\" already exists in {target.Name}";
+            }
+
+            if (reason != null)
+            {
+                skipped.Add(new CarryForwardSkippedDto
+                {
+                    ChecklistId = checklistId,
+                    ChecklistName = source?.Name ?? string.Empty,
+                    Reason = reason
+                });
+                continue;
+            }
+
+            var clone = await ChecklistCreationHelper.CloneChecklistAsync(
+                _context,
+                _logger,
+                checklistId,
+                newName,
+                preserveStatus: !request.ResetCompletion,
+                userContext,
+                options: options);
+
+            _context.ChecklistInstances.Add(clone);
+            clones.Add(clone);
+        }
+
+        if (clones.Count > 0)
+        {
+            await _context.SaveChangesAsync();
+        }
+
+        _logger.LogInformation(
+            "Carried forward {Created} checklists into period {PeriodId}, skipped {Skipped}",
+            clones.Count,
+            target.Id,
+            skipped.Count);
+
+        var created = clones.Select(ChecklistMapper.MapToDto).ToList();
+        foreach (var dto in created)
+        {
+            await ChecklistBroadcastHelper.BroadcastChecklistCreatedAsync(_hubContext, _logger, dto, userContext.Email);
+        }
+
+        return new CarryForwardResultDto
+        {
+            TargetOperationalPeriodId = target.Id,
+            TargetOperationalPeriodName = target.Name,
+            Created = created,
+            Skipped = skipped
+        };
+    }
+
+    /// <summary>
+    /// Why a checklist can't be carried into the target period, or null if it can
+    /// </summary>
+    private static string? GetSkipReason(
+        ChecklistInstance? source,
+        OperationalPeriod target,
+        bool onlyIncompleteItems)
+    {
+        if (source == null || source.IsArchived)
+        {
+            return "Checklist not found or archived";
+        }
+
+        if (source.EventId != target.EventId)
+        {
+            return "Belongs to a different event";
+        }
+
+        if (source.OperationalPeriodId == target.Id)
+        {
+            return $"Already in {target.Name}";
+        }
+
+        if (onlyIncompleteItems && source.Items.All(ChecklistProgressHelper.IsItemComplete))
+        {
+            return "All items are complete";
+        }
+
+        return null;
+    }
+}
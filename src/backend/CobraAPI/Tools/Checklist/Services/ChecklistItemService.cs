@@ -11,15 +11,20 @@ namespace CobraAPI.Tools.Checklist.Services;
 /// ChecklistItemService - Implementation of checklist item business logic
 ///
 /// Purpose:
-///   Handles individual ChecklistItem operations (completion, status, notes).
+///   Handles individual ChecklistItem operations (completion, status, values, notes).
 ///   Orchestrates item-level updates with permission checks and progress tracking.
 ///
 /// Key Business Logic:
 ///   - Permission Validation: Checks AllowedPositions before any update
 ///   - Item Completion: Updates IsCompleted, CompletedBy, CompletedAt (checkbox items)
 ///   - Status Updates: Validates status against StatusOptions (status items)
-///   - Notes Management: Updates Notes field (any item type)
-///   - Progress Triggering: Auto-calls ChecklistProgressHelper after completion/status changes
+///   - Value Capture: Validates and stores values (number, text, datetime, yesno items)
+///   - Sequential Gating: Items cannot be completed before their prerequisites
+///   - Notes: Append-only thread per item; authors edit or delete only their own notes
+///   - History: Records every completion toggle, status/value change and note (append-only)
+///   - Progress Triggering: Auto-calls ChecklistProgressHelper after completion/status/value changes
+///   - Live Editing: Items can be added, removed (soft delete) and reordered on existing checklists
+///   - Bulk Updates: One save and one broadcast; rejected items are reported, not thrown
 ///
 /// Dependencies:
 ///   - CobraDbContext: Database access via EF Core
@@ -36,7 +41,7 @@ namespace CobraAPI.Tools.Checklist.Services;
 ///   - Position-based permissions enforced before any modification
 ///
 /// Author: Checklist POC Team
-/// Last Modified: 2025-11-20
+/// Last Modified: 2026-10-19
 /// </summary>
 public class ChecklistItemService : IChecklistItemService
 {
@@ -63,6 +68,7 @@ public class ChecklistItemService : IChecklistItemService
 
         var item = await _context.ChecklistItems
             .AsNoTracking()
+            .Include(i => i.Notes)
             .FirstOrDefaultAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
 
         if (item == null)
@@ -102,6 +108,8 @@ public class ChecklistItemService : IChecklistItemService
             return null;
         }
 
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
         // Validate item type
         if (item.ItemType != "checkbox")
         {
@@ -116,17 +124,30 @@ public class ChecklistItemService : IChecklistItemService
         // Validate position permissions
         ValidatePositionPermission(item, userContext);
 
+        // Prerequisites must be complete first
+        if (request.IsCompleted)
+        {
+            await ValidatePrerequisitesAsync(item);
+        }
+
+        if (item.IsCompleted != request.IsCompleted)
+        {
+            RecordHistory(
+                item,
+                request.IsCompleted ? ItemHistoryAction.Completed : ItemHistoryAction.Uncompleted,
+                null,
+                null,
+                userContext);
+        }
+
         // Update completion status
         item.IsCompleted = request.IsCompleted;
         item.CompletedBy = request.IsCompleted ? userContext.Email : null;
         item.CompletedByPosition = request.IsCompleted ? userContext.Position : null;
         item.CompletedAt = request.IsCompleted ? DateTime.UtcNow : null;
 
-        // Update notes if provided
-        if (request.Notes != null)
-        {
-            item.Notes = request.Notes;
-        }
+        // Add the note to the item's thread if provided
+        var note = AppendNote(item, request.Notes, userContext);
 
         // Update audit fields
         item.LastModifiedBy = userContext.Email;
@@ -151,15 +172,22 @@ public class ChecklistItemService : IChecklistItemService
                 isCompleted = item.IsCompleted,
                 completedBy = item.CompletedBy,
                 completedByPosition = item.CompletedByPosition,
-                completedAt = item.CompletedAt
+                completedAt = item.CompletedAt,
+                sentAt = DateTime.UtcNow
             });
 
+        if (note != null)
+        {
+            await BroadcastNoteAddedAsync(checklistId, note, userContext);
+        }
+
         // Trigger progress recalculation
         await ChecklistProgressHelper.RecalculateProgressAsync(_context, _logger, checklistId);
 
         // Reload item for return
         var updatedItem = await _context.ChecklistItems
             .AsNoTracking()
+            .Include(i => i.Notes)
             .FirstOrDefaultAsync(i => i.Id == itemId);
 
         return updatedItem == null ? null : ChecklistMapper.MapItemToDto(updatedItem);
@@ -190,6 +218,8 @@ public class ChecklistItemService : IChecklistItemService
             return null;
         }
 
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
         // Validate item type
         if (item.ItemType != "status")
         {
@@ -205,40 +235,32 @@ public class ChecklistItemService : IChecklistItemService
         ValidatePositionPermission(item, userContext);
 
         // Validate status value against allowed options
-        if (!string.IsNullOrEmpty(item.StatusConfiguration))
-        {
-            var statusOptions = System.Text.Json.JsonSerializer.Deserialize<List<StatusOption>>(
-                item.StatusConfiguration,
-                new System.Text.Json.JsonSerializerOptions { PropertyNameCaseInsensitive = true });
+        ValidateStatusOption(item, request.Status);
 
-            if (statusOptions != null && statusOptions.Count > 0)
-            {
-                var allowedLabels = statusOptions.Select(s => s.Label).ToList();
-                if (!allowedLabels.Contains(request.Status, StringComparer.OrdinalIgnoreCase))
-                {
-                    _logger.LogError(
-                        "Invalid status '{Status}' for item {ItemId}. Allowed: {AllowedStatuses}",
-                        request.Status,
-                        itemId,
-                        string.Join(", ", allowedLabels));
-                    throw new InvalidOperationException(
-                        $"Status '{request.Status}' is not valid. Allowed values: {string.Join(", ", allowedLabels)}");
-                }
-            }
-        }
+        var wasComplete = ChecklistProgressHelper.IsItemComplete(item);
+        var previousStatus = item.CurrentStatus;
 
         // Update status
         item.CurrentStatus = request.Status;
 
+        // Prerequisites must be complete before a completion status is set
+        // (on failure nothing is saved)
+        if (!wasComplete && ChecklistProgressHelper.IsItemComplete(item))
+        {
+            await ValidatePrerequisitesAsync(item);
+        }
+
         // Mark as complete if status is "Complete" (case-insensitive)
         item.IsCompleted = request.Status.Equals("Complete", StringComparison.OrdinalIgnoreCase);
 
-        // Update notes if provided
-        if (request.Notes != null)
+        if (previousStatus != item.CurrentStatus)
         {
-            item.Notes = request.Notes;
+            RecordHistory(item, ItemHistoryAction.StatusChanged, previousStatus, item.CurrentStatus, userContext);
         }
 
+        // Add the note to the item's thread if provided
+        var note = AppendNote(item, request.Notes, userContext);
+
         // Update audit fields
         item.LastModifiedBy = userContext.Email;
         item.LastModifiedByPosition = userContext.Position;
@@ -263,28 +285,35 @@ public class ChecklistItemService : IChecklistItemService
                 isCompleted = item.IsCompleted,
                 changedBy = userContext.Email,
                 changedByPosition = userContext.Position,
-                changedAt = item.LastModifiedAt
+                changedAt = item.LastModifiedAt,
+                sentAt = DateTime.UtcNow
             });
 
+        if (note != null)
+        {
+            await BroadcastNoteAddedAsync(checklistId, note, userContext);
+        }
+
         // Trigger progress recalculation (status items count as complete if status = "Complete")
         await ChecklistProgressHelper.RecalculateProgressAsync(_context, _logger, checklistId);
 
         // Reload item for return
         var updatedItem = await _context.ChecklistItems
             .AsNoTracking()
+            .Include(i => i.Notes)
             .FirstOrDefaultAsync(i => i.Id == itemId);
 
         return updatedItem == null ? null : ChecklistMapper.MapItemToDto(updatedItem);
     }
 
-    public async Task<ChecklistItemDto?> UpdateItemNotesAsync(
+    public async Task<ChecklistItemDto?> UpdateItemValueAsync(
         Guid checklistId,
         Guid itemId,
-        UpdateItemNotesRequest request,
+        UpdateItemValueRequest request,
         UserContext userContext)
     {
         _logger.LogInformation(
-            "Updating notes for item {ItemId} in checklist {ChecklistId} by {User}",
+            "Updating value for item {ItemId} in checklist {ChecklistId} by {User}",
             itemId,
             checklistId,
             userContext.Email);
@@ -301,11 +330,49 @@ public class ChecklistItemService : IChecklistItemService
             return null;
         }
 
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        // Validate item type
+        if (!ItemValueHelper.IsValueType(item.ItemType))
+        {
+            _logger.LogError(
+                "Cannot update value for non-value item {ItemId} (type: {ItemType})",
+                itemId,
+                item.ItemType);
+            throw new InvalidOperationException(
+                $"Item {itemId} does not capture a value. Use UpdateItemCompletionAsync or UpdateItemStatusAsync.");
+        }
+
         // Validate position permissions
         ValidatePositionPermission(item, userContext);
 
-        // Update notes
-        item.Notes = request.Notes;
+        // Validate and normalize the value (null = cleared)
+        var value = ItemValueHelper.NormalizeValue(item, request.Value);
+        var isCompleted = value != null;
+
+        // Prerequisites must be complete before a value is captured
+        if (isCompleted && !item.IsCompleted)
+        {
+            await ValidatePrerequisitesAsync(item);
+        }
+
+        if (item.Value != value)
+        {
+            RecordHistory(item, ItemHistoryAction.ValueChanged, item.Value, value, userContext);
+        }
+
+        // Capturing a value completes the item (keeps the original completion when the value is corrected)
+        item.Value = value;
+        if (isCompleted != item.IsCompleted)
+        {
+            item.IsCompleted = isCompleted;
+            item.CompletedBy = isCompleted ? userContext.Email : null;
+            item.CompletedByPosition = isCompleted ? userContext.Position : null;
+            item.CompletedAt = isCompleted ? DateTime.UtcNow : null;
+        }
+
+        // Add the note to the item's thread if provided
+        var note = AppendNote(item, request.Notes, userContext);
 
         // Update audit fields
         item.LastModifiedBy = userContext.Email;
@@ -315,33 +382,883 @@ public class ChecklistItemService : IChecklistItemService
         await _context.SaveChangesAsync();
 
         _logger.LogInformation(
-            "Notes updated for item {ItemId} by {User}",
+            "Item {ItemId} value {Action} by {User}",
             itemId,
+            isCompleted ? "captured" : "cleared",
             userContext.Email);
 
         // Broadcast real-time update to all connected clients viewing this checklist
         await _hubContext.Clients
             .Group($"checklist-{checklistId}")
-            .SendAsync("ItemNotesChanged", new
+            .SendAsync("ItemValueChanged", new
             {
                 checklistId = checklistId.ToString(),
                 itemId = itemId.ToString(),
-                notes = item.Notes,
+                value = item.Value,
+                isCompleted = item.IsCompleted,
+                completedBy = item.CompletedBy,
+                completedByPosition = item.CompletedByPosition,
+                completedAt = item.CompletedAt,
                 changedBy = userContext.Email,
                 changedByPosition = userContext.Position,
-                changedAt = item.LastModifiedAt
+                changedAt = item.LastModifiedAt,
+                sentAt = DateTime.UtcNow
             });
 
-        // Note: Does NOT trigger progress recalculation (notes-only changes don't affect progress)
+        if (note != null)
+        {
+            await BroadcastNoteAddedAsync(checklistId, note, userContext);
+        }
+
+        // Trigger progress recalculation (value items count as complete once a value is captured)
+        await ChecklistProgressHelper.RecalculateProgressAsync(_context, _logger, checklistId);
 
         // Reload item for return
         var updatedItem = await _context.ChecklistItems
             .AsNoTracking()
+            .Include(i => i.Notes)
             .FirstOrDefaultAsync(i => i.Id == itemId);
 
         return updatedItem == null ? null : ChecklistMapper.MapItemToDto(updatedItem);
     }
 
+    public async Task<BulkUpdateItemsResultDto?> BulkUpdateItemsAsync(
+        Guid checklistId,
+        BulkUpdateItemsRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Bulk {Action} of {Count} items in checklist {ChecklistId} by {User} ({Position})",
+            request.Action,
+            request.ItemIds.Count,
+            checklistId,
+            userContext.Email,
+            userContext.Position);
+
+        if (request.Action == "change_status" && string.IsNullOrWhiteSpace(request.TargetStatus))
+        {
+            throw new InvalidOperationException("Choose the status to set.");
+        }
+
+        var checklist = await FindEditableChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        var selectedIds = request.ItemIds.ToHashSet();
+        var updatedItems = new List<Models.Entities.ChecklistItem>();
+        var failedItems = selectedIds
+            .Where(id => checklist.Items.All(i => i.Id != id))
+            .Select(id => new BulkItemFailureDto { ItemId = id, Reason = "Item not found in this checklist" })
+            .ToList();
+        var changedCount = 0;
+
+        // Display order, so a prerequisite completed here unblocks the items after it
+        foreach (var item in checklist.Items.Where(i => selectedIds.Contains(i.Id)).OrderBy(i => i.DisplayOrder))
+        {
+            try
+            {
+                if (ApplyBulkAction(item, checklist.Items, request, userContext))
+                {
+                    changedCount++;
+                }
+                updatedItems.Add(item);
+            }
+            catch (Exception ex) when (ex is InvalidOperationException or UnauthorizedAccessException)
+            {
+                failedItems.Add(new BulkItemFailureDto { ItemId = item.Id, Reason = ex.Message });
+            }
+        }
+
+        if (changedCount > 0)
+        {
+            ChecklistProgressHelper.CalculateProgress(checklist);
+            checklist.LastModifiedBy = userContext.Email;
+            checklist.LastModifiedByPosition = userContext.Position;
+            checklist.LastModifiedAt = DateTime.UtcNow;
+
+            await _context.SaveChangesAsync();
+
+            await BroadcastChecklistUpdatedAsync(checklist, "items_bulk_updated", null, userContext);
+        }
+
+        _logger.LogInformation(
+            "Bulk {Action} in checklist {ChecklistId} by {User}: {Changed} changed, {Failed} rejected",
+            request.Action,
+            checklistId,
+            userContext.Email,
+            changedCount,
+            failedItems.Count);
+
+        return new BulkUpdateItemsResultDto
+        {
+            UpdatedItems = updatedItems.Select(ChecklistMapper.MapItemToDto).ToList(),
+            FailedItems = failedItems,
+            ProgressPercentage = checklist.ProgressPercentage
+        };
+    }
+
+    public async Task<List<ItemNoteDto>?> GetNotesAsync(Guid checklistId, Guid itemId)
+    {
+        var itemExists = await _context.ChecklistItems
+            .AnyAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
+
+        if (!itemExists)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return null;
+        }
+
+        var notes = await _context.ChecklistItemNotes
+            .AsNoTracking()
+            .Where(n => n.ChecklistItemId == itemId)
+            .OrderBy(n => n.CreatedAt)
+            .ToListAsync();
+
+        return notes.Select(ChecklistMapper.MapNoteToDto).ToList();
+    }
+
+    public async Task<ItemNoteDto?> AddNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        AddItemNoteRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Adding note to item {ItemId} in checklist {ChecklistId} by {User}",
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        var item = await _context.ChecklistItems
+            .FirstOrDefaultAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
+
+        if (item == null)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return null;
+        }
+
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        // Validate position permissions
+        ValidatePositionPermission(item, userContext);
+
+        var note = AppendNote(item, request.NoteText, userContext)
+            ?? throw new InvalidOperationException("Note text is required.");
+
+        // Note: Does NOT touch the item's LastModified fields - notes carry their own
+        // attribution, and adding one must not conflict with someone else's item update
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Note {NoteId} added to item {ItemId} by {User}",
+            note.Id,
+            itemId,
+            userContext.Email);
+
+        await BroadcastNoteAddedAsync(checklistId, note, userContext);
+
+        return ChecklistMapper.MapNoteToDto(note);
+    }
+
+    public async Task<ItemNoteDto?> UpdateNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid noteId,
+        UpdateItemNoteRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Updating note {NoteId} on item {ItemId} in checklist {ChecklistId} by {User}",
+            noteId,
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        var note = await FindNoteAsync(checklistId, itemId, noteId);
+        if (note == null)
+        {
+            return null;
+        }
+
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        ValidateNoteAuthor(note, userContext, "edit");
+
+        var noteText = request.NoteText.Trim();
+        if (noteText.Length == 0)
+        {
+            throw new InvalidOperationException("Note text is required.");
+        }
+
+        if (note.NoteText != noteText)
+        {
+            RecordHistory(note, ItemHistoryAction.NoteEdited, note.NoteText, noteText, userContext);
+        }
+
+        note.NoteText = noteText;
+        note.EditedBy = userContext.Email;
+        note.EditedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Note {NoteId} edited by {User}", noteId, userContext.Email);
+
+        var noteDto = ChecklistMapper.MapNoteToDto(note);
+
+        // Broadcast real-time update to all connected clients viewing this checklist
+        await _hubContext.Clients
+            .Group($"checklist-{checklistId}")
+            .SendAsync("ItemNoteUpdated", new
+            {
+                checklistId = checklistId.ToString(),
+                itemId = itemId.ToString(),
+                note = noteDto,
+                changedBy = userContext.Email,
+                changedByPosition = userContext.Position,
+                changedAt = note.EditedAt,
+                sentAt = DateTime.UtcNow
+            });
+
+        return noteDto;
+    }
+
+    public async Task<bool> DeleteNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid noteId,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Deleting note {NoteId} from item {ItemId} in checklist {ChecklistId} by {User}",
+            noteId,
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        var note = await FindNoteAsync(checklistId, itemId, noteId);
+        if (note == null)
+        {
+            return false;
+        }
+
+        await ChecklistSignOffHelper.EnsureNotSignedOffAsync(_context, checklistId);
+
+        ValidateNoteAuthor(note, userContext, "delete");
+
+        RecordHistory(note, ItemHistoryAction.NoteDeleted, note.NoteText, null, userContext);
+
+        _context.ChecklistItemNotes.Remove(note);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("Note {NoteId} deleted by {User}", noteId, userContext.Email);
+
+        // Broadcast real-time update to all connected clients viewing this checklist
+        await _hubContext.Clients
+            .Group($"checklist-{checklistId}")
+            .SendAsync("ItemNoteDeleted", new
+            {
+                checklistId = checklistId.ToString(),
+                itemId = itemId.ToString(),
+                noteId = noteId.ToString(),
+                changedBy = userContext.Email,
+                changedByPosition = userContext.Position,
+                changedAt = DateTime.UtcNow,
+                sentAt = DateTime.UtcNow
+            });
+
+        return true;
+    }
+
+    public async Task<List<ItemStatusHistoryDto>?> GetItemHistoryAsync(Guid checklistId, Guid itemId)
+    {
+        _logger.LogInformation(
+            "Fetching history for item {ItemId} in checklist {ChecklistId}",
+            itemId,
+            checklistId);
+
+        var itemExists = await _context.ChecklistItems
+            .AnyAsync(i => i.Id == itemId && i.ChecklistInstanceId == checklistId);
+
+        if (!itemExists)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return null;
+        }
+
+        var entries = await _context.ChecklistItemHistoryEntries
+            .AsNoTracking()
+            .Where(h => h.ChecklistItemId == itemId)
+            .OrderBy(h => h.ChangedAt)
+            .ToListAsync();
+
+        return entries.Select(ChecklistMapper.MapHistoryEntryToDto).ToList();
+    }
+
+    public async Task<ChecklistItemDto?> AddItemAsync(
+        Guid checklistId,
+        AddChecklistItemRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Adding item to checklist {ChecklistId} by {User} ({Position})",
+            checklistId,
+            userContext.Email,
+            userContext.Position);
+
+        var checklist = await FindEditableChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        var itemText = request.ItemText.Trim();
+        if (itemText.Length == 0)
+        {
+            throw new InvalidOperationException("Item text is required.");
+        }
+
+        if (request.ItemType == "status" && string.IsNullOrWhiteSpace(request.StatusConfiguration))
+        {
+            throw new InvalidOperationException($"Status item \"{itemText}\" needs status options");
+        }
+
+        var configurationError = ItemValueHelper.ValidateConfiguration(itemText, request.ItemType, request.ValueConfiguration);
+        if (configurationError != null)
+        {
+            throw new InvalidOperationException(configurationError);
+        }
+
+        var items = checklist.Items.OrderBy(i => i.DisplayOrder).ToList();
+        var insertAt = items.Count;
+        if (request.InsertAfterItemId.HasValue)
+        {
+            var afterIndex = items.FindIndex(i => i.Id == request.InsertAfterItemId.Value);
+            if (afterIndex < 0)
+            {
+                throw new InvalidOperationException(
+                    $"Item {request.InsertAfterItemId.Value} is not in this checklist");
+            }
+            insertAt = afterIndex + 1;
+        }
+
+        var item = new Models.Entities.ChecklistItem
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            TemplateItemId = Guid.Empty,
+            ItemText = itemText,
+            ItemType = request.ItemType,
+            IsRequired = request.IsRequired,
+            StatusConfiguration = request.ItemType == "status" ? request.StatusConfiguration : null,
+            ValueConfiguration = request.ValueConfiguration,
+            AllowedPositions = string.IsNullOrWhiteSpace(request.AllowedPositions) ? null : request.AllowedPositions,
+            SectionName = TemplateCreationHelper.NormalizeSectionName(request.SectionName),
+            CreatedAt = DateTime.UtcNow
+        };
+
+        items.Insert(insertAt, item);
+        RenumberItems(items);
+
+        _context.ChecklistItems.Add(item);
+        RecordHistory(item, ItemHistoryAction.Added, null, item.ItemText, userContext);
+
+        ChecklistProgressHelper.CalculateProgress(checklist);
+        checklist.LastModifiedBy = userContext.Email;
+        checklist.LastModifiedByPosition = userContext.Position;
+        checklist.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Item {ItemId} added to checklist {ChecklistId} by {User}",
+            item.Id,
+            checklistId,
+            userContext.Email);
+
+        await BroadcastChecklistUpdatedAsync(checklist, "item_added", item.Id, userContext);
+
+        return ChecklistMapper.MapItemToDto(item);
+    }
+
+    public async Task<bool> RemoveItemAsync(
+        Guid checklistId,
+        Guid itemId,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Removing item {ItemId} from checklist {ChecklistId} by {User} ({Position})",
+            itemId,
+            checklistId,
+            userContext.Email,
+            userContext.Position);
+
+        var checklist = await FindEditableChecklistAsync(checklistId);
+        var item = checklist?.Items.FirstOrDefault(i => i.Id == itemId);
+
+        if (checklist == null || item == null)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} not found in checklist {ChecklistId}",
+                itemId,
+                checklistId);
+            return false;
+        }
+
+        // Soft delete: the item and its history stay for the audit trail
+        item.IsDeleted = true;
+        item.DeletedBy = userContext.Email;
+        item.DeletedByPosition = userContext.Position;
+        item.DeletedAt = DateTime.UtcNow;
+        RecordHistory(item, ItemHistoryAction.Removed, item.ItemText, null, userContext);
+
+        // Items that waited on the removed item no longer do
+        ItemPrerequisiteHelper.RemovePrerequisite(checklist.Items.Where(i => i.Id != itemId), itemId);
+
+        ChecklistProgressHelper.CalculateProgress(checklist);
+        checklist.LastModifiedBy = userContext.Email;
+        checklist.LastModifiedByPosition = userContext.Position;
+        checklist.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Item {ItemId} removed from checklist {ChecklistId} by {User}",
+            itemId,
+            checklistId,
+            userContext.Email);
+
+        await BroadcastChecklistUpdatedAsync(checklist, "item_removed", itemId, userContext);
+
+        return true;
+    }
+
+    public async Task<List<ChecklistItemDto>?> ReorderItemsAsync(
+        Guid checklistId,
+        ReorderItemsRequest request,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Reordering items of checklist {ChecklistId} by {User} ({Position})",
+            checklistId,
+            userContext.Email,
+            userContext.Position);
+
+        var checklist = await FindEditableChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        var itemsById = checklist.Items.ToDictionary(i => i.Id);
+        if (request.ItemIds.Count != itemsById.Count
+            || request.ItemIds.Distinct().Count() != request.ItemIds.Count
+            || request.ItemIds.Any(id => !itemsById.ContainsKey(id)))
+        {
+            throw new InvalidOperationException(
+                "The new order must list every item of the checklist once. Reload the checklist and try again.");
+        }
+
+        var items = request.ItemIds.Select(id => itemsById[id]).ToList();
+        if (!RenumberItems(items))
+        {
+            return items.Select(ChecklistMapper.MapItemToDto).ToList();
+        }
+
+        _context.ChecklistHistoryEntries.Add(new ChecklistHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            Action = ChecklistHistoryAction.ItemsReordered,
+            ChangedBy = userContext.Email,
+            ChangedByPosition = userContext.Position,
+            ChangedAt = DateTime.UtcNow
+        });
+
+        checklist.LastModifiedBy = userContext.Email;
+        checklist.LastModifiedByPosition = userContext.Position;
+        checklist.LastModifiedAt = DateTime.UtcNow;
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Items of checklist {ChecklistId} reordered by {User}",
+            checklistId,
+            userContext.Email);
+
+        await BroadcastChecklistUpdatedAsync(checklist, "items_reordered", null, userContext);
+
+        return items.Select(ChecklistMapper.MapItemToDto).ToList();
+    }
+
+    /// <summary>
+    /// Adds a note to the item's thread (tracked, saved with the caller's changes)
+    /// Returns null when the text is empty
+    /// </summary>
+    private ChecklistItemNote? AppendNote(
+        Models.Entities.ChecklistItem item,
+        string? noteText,
+        UserContext userContext)
+    {
+        if (string.IsNullOrWhiteSpace(noteText))
+        {
+            return null;
+        }
+
+        var note = new ChecklistItemNote
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = item.ChecklistInstanceId,
+            ChecklistItemId = item.Id,
+            NoteText = noteText.Trim(),
+            CreatedBy = userContext.Email,
+            CreatedByPosition = userContext.Position,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        _context.ChecklistItemNotes.Add(note);
+        RecordHistory(note, ItemHistoryAction.NoteAdded, null, note.NoteText, userContext);
+        return note;
+    }
+
+    /// <summary>
+    /// Adds a history entry for a change to the item (tracked, saved with the change)
+    /// </summary>
+    private void RecordHistory(
+        Models.Entities.ChecklistItem item,
+        ItemHistoryAction action,
+        string? previousValue,
+        string? newValue,
+        UserContext userContext)
+    {
+        AddHistoryEntry(item.ChecklistInstanceId, item.Id, action, previousValue, newValue, userContext);
+    }
+
+    /// <summary>
+    /// Adds a history entry for a change to one of the item's notes
+    /// </summary>
+    private void RecordHistory(
+        ChecklistItemNote note,
+        ItemHistoryAction action,
+        string? previousValue,
+        string? newValue,
+        UserContext userContext)
+    {
+        AddHistoryEntry(note.ChecklistInstanceId, note.ChecklistItemId, action, previousValue, newValue, userContext);
+    }
+
+    private void AddHistoryEntry(
+        Guid checklistId,
+        Guid itemId,
+        ItemHistoryAction action,
+        string? previousValue,
+        string? newValue,
+        UserContext userContext)
+    {
+        _context.ChecklistItemHistoryEntries.Add(new ChecklistItemHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            ChecklistItemId = itemId,
+            Action = action,
+            PreviousValue = previousValue,
+            NewValue = newValue,
+            ChangedBy = userContext.Email,
+            ChangedByPosition = userContext.Position,
+            ChangedAt = DateTime.UtcNow
+        });
+    }
+
+    /// <summary>
+    /// Broadcasts a single added note (not the whole thread) to the checklist group
+    /// </summary>
+    private async Task BroadcastNoteAddedAsync(Guid checklistId, ChecklistItemNote note, UserContext userContext)
+    {
+        await _hubContext.Clients
+            .Group($"checklist-{checklistId}")
+            .SendAsync("ItemNoteAdded", new
+            {
+                checklistId = checklistId.ToString(),
+                itemId = note.ChecklistItemId.ToString(),
+                note = ChecklistMapper.MapNoteToDto(note),
+                changedBy = userContext.Email,
+                changedByPosition = userContext.Position,
+                changedAt = note.CreatedAt,
+                sentAt = DateTime.UtcNow
+            });
+    }
+
+    /// <summary>
+    /// Applies a bulk action to one item (tracked, saved with the other items)
+    /// Nothing is changed when validation fails
+    /// Returns false if the item already had the change
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the item has the wrong type, the status is not an option or prerequisites are incomplete</exception>
+    /// <exception cref="UnauthorizedAccessException">If user position not allowed</exception>
+    private bool ApplyBulkAction(
+        Models.Entities.ChecklistItem item,
+        IReadOnlyCollection<Models.Entities.ChecklistItem> checklistItems,
+        BulkUpdateItemsRequest request,
+        UserContext userContext)
+    {
+        ValidatePositionPermission(item, userContext);
+
+        if (request.Action == "change_status")
+        {
+            if (item.ItemType != "status")
+            {
+                throw new InvalidOperationException($"\"{item.ItemText}\" is not a status item");
+            }
+
+            var status = request.TargetStatus!;
+            ValidateStatusOption(item, status);
+
+            var previousStatus = item.CurrentStatus;
+            if (previousStatus == status)
+            {
+                return false;
+            }
+
+            var wasComplete = ChecklistProgressHelper.IsItemComplete(item);
+            item.CurrentStatus = status;
+
+            if (!wasComplete && ChecklistProgressHelper.IsItemComplete(item))
+            {
+                var incomplete = ItemPrerequisiteHelper.GetIncompletePrerequisites(item, checklistItems);
+                if (incomplete.Count > 0)
+                {
+                    item.CurrentStatus = previousStatus;
+                    throw new InvalidOperationException(ItemPrerequisiteHelper.DescribeBlocked(item, incomplete));
+                }
+            }
+
+            item.IsCompleted = status.Equals("Complete", StringComparison.OrdinalIgnoreCase);
+            RecordHistory(item, ItemHistoryAction.StatusChanged, previousStatus, status, userContext);
+        }
+        else
+        {
+            if (item.ItemType != "checkbox")
+            {
+                throw new InvalidOperationException($"\"{item.ItemText}\" is not a checkbox item");
+            }
+
+            var isCompleted = request.Action == "mark_complete";
+            if ((item.IsCompleted == true) == isCompleted)
+            {
+                return false;
+            }
+
+            if (isCompleted)
+            {
+                var incomplete = ItemPrerequisiteHelper.GetIncompletePrerequisites(item, checklistItems);
+                if (incomplete.Count > 0)
+                {
+                    throw new InvalidOperationException(ItemPrerequisiteHelper.DescribeBlocked(item, incomplete));
+                }
+            }
+
+            RecordHistory(
+                item,
+                isCompleted ? ItemHistoryAction.Completed : ItemHistoryAction.Uncompleted,
+                null,
+                null,
+                userContext);
+
+            item.IsCompleted = isCompleted;
+            item.CompletedBy = isCompleted ? userContext.Email : null;
+            item.CompletedByPosition = isCompleted ? userContext.Position : null;
+            item.CompletedAt = isCompleted ? DateTime.UtcNow : null;
+        }
+
+        item.LastModifiedBy = userContext.Email;
+        item.LastModifiedByPosition = userContext.Position;
+        item.LastModifiedAt = DateTime.UtcNow;
+        return true;
+    }
+
+    /// <summary>
+    /// Loads a checklist with its items (tracked) for adding, removing, reordering or bulk updating items
+    /// Returns null when not found
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the checklist is archived</exception>
+    private async Task<ChecklistInstance?> FindEditableChecklistAsync(Guid checklistId)
+    {
+        var checklist = await _context.ChecklistInstances
+            .Include(c => c.Items)
+                .ThenInclude(i => i.Notes)
+            .FirstOrDefaultAsync(c => c.Id == checklistId);
+
+        if (checklist == null)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found", checklistId);
+            return null;
+        }
+
+        if (checklist.IsArchived)
+        {
+            throw new InvalidOperationException("Items of an archived checklist cannot be changed. Restore it first.");
+        }
+
+        ChecklistSignOffHelper.EnsureNotSignedOff(checklist);
+
+        return checklist;
+    }
+
+    /// <summary>
+    /// Sets display orders 10, 20, 30, ... in list order
+    /// Returns true if any item moved
+    /// </summary>
+    private static bool RenumberItems(IReadOnlyList<Models.Entities.ChecklistItem> items)
+    {
+        var changed = false;
+        for (var index = 0; index < items.Count; index++)
+        {
+            var displayOrder = (index + 1) * 10;
+            if (items[index].DisplayOrder != displayOrder)
+            {
+                items[index].DisplayOrder = displayOrder;
+                changed = true;
+            }
+        }
+        return changed;
+    }
+
+    /// <summary>
+    /// Broadcasts items added, removed, reordered or bulk updated to the checklist group,
+    /// so open copies reload the items
+    /// </summary>
+    private async Task BroadcastChecklistUpdatedAsync(
+        ChecklistInstance checklist,
+        string updateType,
+        Guid? itemId,
+        UserContext userContext)
+    {
+        await _hubContext.Clients
+            .Group($"checklist-{checklist.Id}")
+            .SendAsync("ChecklistUpdated", new
+            {
+                checklistId = checklist.Id.ToString(),
+                updateType,
+                itemId = itemId?.ToString(),
+                progressPercentage = checklist.ProgressPercentage,
+                updatedBy = userContext.Email,
+                updatedByPosition = userContext.Position,
+                sentAt = DateTime.UtcNow
+            });
+    }
+
+    private async Task<ChecklistItemNote?> FindNoteAsync(Guid checklistId, Guid itemId, Guid noteId)
+    {
+        var note = await _context.ChecklistItemNotes
+            .FirstOrDefaultAsync(n => n.Id == noteId
+                && n.ChecklistItemId == itemId
+                && n.ChecklistInstanceId == checklistId);
+
+        if (note == null)
+        {
+            _logger.LogWarning(
+                "Note {NoteId} not found on item {ItemId} in checklist {ChecklistId}",
+                noteId,
+                itemId,
+                checklistId);
+        }
+
+        return note;
+    }
+
+    /// <summary>
+    /// Validates that the user wrote the note
+    /// Throws UnauthorizedAccessException if not
+    /// </summary>
+    /// <exception cref="UnauthorizedAccessException">If the user is not the note's author</exception>
+    private void ValidateNoteAuthor(ChecklistItemNote note, UserContext userContext, string action)
+    {
+        if (!note.CreatedBy.Equals(userContext.Email, StringComparison.OrdinalIgnoreCase))
+        {
+            _logger.LogWarning(
+                "User {User} cannot {Action} note {NoteId} written by {Author}",
+                userContext.Email,
+                action,
+                note.Id,
+                note.CreatedBy);
+
+            throw new UnauthorizedAccessException($"You can only {action} your own notes");
+        }
+    }
+
+    /// <summary>
+    /// Validates that the status is one of the item's status options
+    /// (items without options accept any status)
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the status is not an option</exception>
+    private void ValidateStatusOption(Models.Entities.ChecklistItem item, string status)
+    {
+        if (string.IsNullOrEmpty(item.StatusConfiguration))
+        {
+            return;
+        }
+
+        var statusOptions = System.Text.Json.JsonSerializer.Deserialize<List<StatusOption>>(
+            item.StatusConfiguration,
+            new System.Text.Json.JsonSerializerOptions { PropertyNameCaseInsensitive = true });
+
+        if (statusOptions != null && statusOptions.Count > 0)
+        {
+            var allowedLabels = statusOptions.Select(s => s.Label).ToList();
+            if (!allowedLabels.Contains(status, StringComparer.OrdinalIgnoreCase))
+            {
+                _logger.LogError(
+                    "Invalid status '{Status}' for item {ItemId}. Allowed: {AllowedStatuses}",
+                    status,
+                    item.Id,
+                    string.Join(", ", allowedLabels));
+                throw new InvalidOperationException(
+                    $"Status '{status}' is not valid. Allowed values: {string.Join(", ", allowedLabels)}");
+            }
+        }
+    }
+
+    /// <summary>
+    /// Validates that all prerequisites of the item are complete
+    /// Throws InvalidOperationException naming the incomplete prerequisites
+    /// </summary>
+    /// <param name="item">The item being completed</param>
+    /// <exception cref="InvalidOperationException">If any prerequisite is incomplete</exception>
+    private async Task ValidatePrerequisitesAsync(Models.Entities.ChecklistItem item)
+    {
+        var prerequisiteIds = ItemPrerequisiteHelper.ParseItemIds(item.PrerequisiteItemIds);
+        if (prerequisiteIds.Count == 0)
+        {
+            return;
+        }
+
+        var prerequisites = await _context.ChecklistItems
+            .AsNoTracking()
+            .Where(i => i.ChecklistInstanceId == item.ChecklistInstanceId && prerequisiteIds.Contains(i.Id))
+            .ToListAsync();
+
+        var incomplete = ItemPrerequisiteHelper.GetIncompletePrerequisites(item, prerequisites);
+        if (incomplete.Count > 0)
+        {
+            _logger.LogWarning(
+                "Item {ItemId} cannot be completed before prerequisites {PrerequisiteIds}",
+                item.Id,
+                string.Join(", ", incomplete.Select(i => i.Id)));
+            throw new InvalidOperationException(ItemPrerequisiteHelper.DescribeBlocked(item, incomplete));
+        }
+    }
+
     /// <summary>
     /// Validates that the user's position is allowed to modify this item
     /// Throws UnauthorizedAccessException if not allowed
@@ -0,0 +1,169 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ChecklistPresenceTracker - In-memory implementation of live checklist presence
+///
+/// Design Decisions:
+///   - Presence is transient, so it is kept in memory rather than the database
+///     (after a restart clients re-join on their next heartbeat)
+///   - A single lock guards all state; presence changes are small and infrequent
+///   - Single-instance only; a scaled-out deployment would need a shared store
+///     (e.g. Redis) behind the same interface
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class ChecklistPresenceTracker : IChecklistPresenceTracker
+{
+    /// <summary>
+    /// Viewers not seen for this long are dropped (clients heartbeat every 30 seconds)
+    /// </summary>
+    public static readonly TimeSpan PresenceTimeout = TimeSpan.FromSeconds(90);
+
+    private readonly object _lock = new();
+
+    // checklistId -> connectionId -> viewer
+    private readonly Dictionary<string, Dictionary<string, ChecklistViewerDto>> _viewers = new();
+
+    public List<ChecklistViewerDto> Join(
+        string checklistId,
+        string connectionId,
+        string email,
+        string fullName,
+        string position,
+        DateTime utcNow)
+    {
+        lock (_lock)
+        {
+            if (!_viewers.TryGetValue(checklistId, out var viewers))
+            {
+                viewers = new Dictionary<string, ChecklistViewerDto>();
+                _viewers[checklistId] = viewers;
+            }
+
+            viewers.TryGetValue(connectionId, out var existing);
+            viewers[connectionId] = new ChecklistViewerDto
+            {
+                ConnectionId = connectionId,
+                Email = email,
+                FullName = fullName,
+                Position = position,
+                NotesItemId = existing?.NotesItemId,
+                JoinedAt = existing?.JoinedAt ?? utcNow,
+                LastSeenAt = utcNow
+            };
+
+            return SortViewers(viewers);
+        }
+    }
+
+    public bool Leave(string checklistId, string connectionId)
+    {
+        lock (_lock)
+        {
+            return RemoveViewer(checklistId, connectionId);
+        }
+    }
+
+    public bool Heartbeat(string checklistId, string connectionId, DateTime utcNow)
+    {
+        lock (_lock)
+        {
+            if (!TryGetViewer(checklistId, connectionId, out var viewer))
+            {
+                return false;
+            }
+
+            _viewers[checklistId][connectionId] = viewer with { LastSeenAt = utcNow };
+            return true;
+        }
+    }
+
+    public bool SetNotesItem(string checklistId, string connectionId, string? itemId)
+    {
+        lock (_lock)
+        {
+            if (!TryGetViewer(checklistId, connectionId, out var viewer))
+            {
+                return false;
+            }
+
+            _viewers[checklistId][connectionId] = viewer with { NotesItemId = itemId };
+            return true;
+        }
+    }
+
+    public List<string> RemoveConnection(string connectionId)
+    {
+        lock (_lock)
+        {
+            var checklistIds = _viewers
+                .Where(entry => entry.Value.ContainsKey(connectionId))
+                .Select(entry => entry.Key)
+                .ToList();
+
+            foreach (var checklistId in checklistIds)
+            {
+                RemoveViewer(checklistId, connectionId);
+            }
+
+            return checklistIds;
+        }
+    }
+
+    public List<string> RemoveStale(DateTime cutoff)
+    {
+        lock (_lock)
+        {
+            var stale = _viewers
+                .SelectMany(entry => entry.Value.Values
+                    .Where(v => v.LastSeenAt < cutoff)
+                    .Select(v => (ChecklistId: entry.Key, v.ConnectionId)))
+                .ToList();
+
+            foreach (var (checklistId, connectionId) in stale)
+            {
+                RemoveViewer(checklistId, connectionId);
+            }
+
+            return stale.Select(s => s.ChecklistId).Distinct().ToList();
+        }
+    }
+
+    public List<ChecklistViewerDto> GetViewers(string checklistId)
+    {
+        lock (_lock)
+        {
+            return _viewers.TryGetValue(checklistId, out var viewers)
+                ? SortViewers(viewers)
+                : new List<ChecklistViewerDto>();
+        }
+    }
+
+    private bool TryGetViewer(string checklistId, string connectionId, out ChecklistViewerDto viewer)
+    {
+        viewer = null!;
+        return _viewers.TryGetValue(checklistId, out var viewers)
+            && viewers.TryGetValue(connectionId, out viewer!);
+    }
+
+    private bool RemoveViewer(string checklistId, string connectionId)
+    {
+        if (!_viewers.TryGetValue(checklistId, out var viewers) || !viewers.Remove(connectionId))
+        {
+            return false;
+        }
+
+        if (viewers.Count == 0)
+        {
+            _viewers.Remove(checklistId);
+        }
+
+        return true;
+    }
+
+    private static List<ChecklistViewerDto> SortViewers(Dictionary<string, ChecklistViewerDto> viewers)
+    {
+        return viewers.Values.OrderBy(v => v.JoinedAt).ToList();
+    }
+}
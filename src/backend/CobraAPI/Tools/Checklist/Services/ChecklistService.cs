@@ -55,26 +55,31 @@ public class ChecklistService : IChecklistService
 
     public async Task<List<ChecklistInstanceDto>> GetMyChecklistsAsync(
         UserContext userContext,
-        bool includeArchived = false)
+        bool includeArchived = false,
+        DateTime? changedSince = null)
     {
         var userPositions = userContext.Positions.Count > 0
             ? userContext.Positions
             : new List<string> { userContext.Position };
 
         _logger.LogInformation(
-            "Fetching checklists for positions: {Positions}, role: {Role} (includeArchived: {IncludeArchived})",
+            "Fetching checklists for positions: {Positions}, role: {Role} (includeArchived: {IncludeArchived}, changedSince: {ChangedSince})",
             string.Join(", ", userPositions),
             userContext.Role,
-            includeArchived);
+            includeArchived,
+            changedSince);
 
         var query = _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .AsQueryable();
 
         // Filter by archived status at DB level
-        if (!includeArchived)
+        query = FilterArchived(query, includeArchived, changedSince);
+
+        if (changedSince.HasValue)
         {
-            query = query.Where(c => !c.IsArchived);
+            query = WhereChangedSince(query, changedSince.Value);
         }
 
         // Get all non-archived checklists, then filter by position in-memory
@@ -139,6 +144,7 @@ public class ChecklistService : IChecklistService
 
         var checklist = await _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .AsNoTracking()
             .FirstOrDefaultAsync(c => c.Id == id);
 
@@ -148,34 +154,49 @@ public class ChecklistService : IChecklistService
             return null;
         }
 
-        return ChecklistMapper.MapToDto(checklist);
+        // Report the template's current version so the UI can flag
+        // checklists created from an older version
+        var templateCurrentVersion = await _context.Templates
+            .Where(t => t.Id == checklist.TemplateId)
+            .Select(t => (int?)t.CurrentVersion)
+            .FirstOrDefaultAsync();
+
+        return ChecklistMapper.MapToDto(checklist) with
+        {
+            TemplateCurrentVersion = templateCurrentVersion
+        };
     }
 
     public async Task<List<ChecklistInstanceDto>> GetChecklistsByEventAsync(
         Guid eventId,
         UserContext userContext,
         bool includeArchived = false,
-        bool? showAll = null)
+        bool? showAll = null,
+        DateTime? changedSince = null)
     {
         var userPositions = userContext.Positions.Count > 0
             ? userContext.Positions
             : new List<string> { userContext.Position };
 
         _logger.LogInformation(
-            "Fetching checklists for event: {EventId}, positions: {Positions}, role: {Role} (includeArchived: {IncludeArchived}, showAll: {ShowAll})",
+            "Fetching checklists for event: {EventId}, positions: {Positions}, role: {Role} (includeArchived: {IncludeArchived}, showAll: {ShowAll}, changedSince: {ChangedSince})",
             eventId,
             string.Join(", ", userPositions),
             userContext.Role,
             includeArchived,
-            showAll);
+            showAll,
+            changedSince);
 
         var query = _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .Where(c => c.EventId == eventId);
 
-        if (!includeArchived)
+        query = FilterArchived(query, includeArchived, changedSince);
+
+        if (changedSince.HasValue)
         {
-            query = query.Where(c => !c.IsArchived);
+            query = WhereChangedSince(query, changedSince.Value);
         }
 
         var allChecklists = await query
@@ -237,6 +258,7 @@ public class ChecklistService : IChecklistService
 
         var query = _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .Where(c => c.EventId == eventId && c.OperationalPeriodId == operationalPeriodId);
 
         if (!includeArchived)
@@ -293,35 +315,38 @@ public class ChecklistService : IChecklistService
         await _context.SaveChangesAsync();
 
         var dto = ChecklistMapper.MapToDto(checklist);
+        await ChecklistBroadcastHelper.BroadcastChecklistCreatedAsync(_hubContext, _logger, dto, userContext.Email);
 
-        // Broadcast checklist creation to all connected clients via SignalR
-        try
-        {
-            await _hubContext.Clients.All.SendAsync("ChecklistCreated", new
-            {
-                checklistId = dto.Id,
-                checklistName = dto.Name,
-                eventId = dto.EventId,
-                eventName = dto.EventName,
-                positions = dto.AssignedPositions,
-                createdBy = userContext.Email,
-                createdAt = dto.CreatedAt
-            });
+        return dto;
+    }
 
-            _logger.LogInformation(
-                "Broadcasted checklist creation via SignalR: {ChecklistId} ({ChecklistName})",
-                dto.Id,
-                dto.Name);
-        }
-        catch (Exception ex)
+    public async Task<ChecklistInstanceDto> CreateCombinedAsync(
+        CreateCombinedChecklistRequest request,
+        UserContext userContext)
+    {
+        var checklist = await ChecklistCreationHelper.CreateCombinedAsync(
+            _context,
+            _logger,
+            request,
+            userContext);
+
+        _context.ChecklistInstances.Add(checklist);
+
+        // Every source template gets credit for the checklist
+        var templates = await _context.Templates
+            .Where(t => request.TemplateIds.Contains(t.Id))
+            .ToListAsync();
+        foreach (var template in templates)
         {
-            // Don't fail the request if SignalR broadcast fails
-            _logger.LogWarning(
-                ex,
-                "Failed to broadcast checklist creation via SignalR for {ChecklistId}",
-                dto.Id);
+            template.UsageCount++;
+            template.LastUsedAt = DateTime.UtcNow;
         }
 
+        await _context.SaveChangesAsync();
+
+        var dto = ChecklistMapper.MapToDto(checklist);
+        await ChecklistBroadcastHelper.BroadcastChecklistCreatedAsync(_hubContext, _logger, dto, userContext.Email);
+
         return dto;
     }
 
@@ -340,6 +365,11 @@ public class ChecklistService : IChecklistService
             return null;
         }
 
+        ChecklistSignOffHelper.EnsureNotSignedOff(checklist);
+
+        // Record what changed before overwriting it
+        RecordMetadataChanges(checklist, request, userContext);
+
         // Update metadata
         checklist.Name = request.Name;
         checklist.EventId = request.EventId;
@@ -355,15 +385,248 @@ public class ChecklistService : IChecklistService
 
         _logger.LogInformation("Updated checklist {ChecklistId}", id);
 
+        // Let open copies of the checklist pick up the new metadata
+        try
+        {
+            await _hubContext.Clients.Group($"checklist-{id}").SendAsync("ChecklistUpdated", new
+            {
+                checklistId = id,
+                updateType = "metadata_changed",
+                progressPercentage = checklist.ProgressPercentage,
+                sentAt = DateTime.UtcNow
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to broadcast update of checklist {ChecklistId}", id);
+        }
+
         // Reload with items for return
         var updated = await _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .AsNoTracking()
             .FirstOrDefaultAsync(c => c.Id == id);
 
         return updated == null ? null : ChecklistMapper.MapToDto(updated);
     }
 
+    public async Task<List<ChecklistActivityDto>?> GetChecklistActivityAsync(Guid id, DateTime? since = null)
+    {
+        _logger.LogInformation(
+            "Fetching activity for checklist {ChecklistId} (since: {Since})",
+            id,
+            since);
+
+        var checklistExists = await _context.ChecklistInstances.AnyAsync(c => c.Id == id);
+
+        if (!checklistExists)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found for activity", id);
+            return null;
+        }
+
+        // Removed items keep their history, so include them for the item text
+        var itemQuery = _context.ChecklistItemHistoryEntries
+            .AsNoTracking()
+            .IgnoreQueryFilters()
+            .Where(h => h.ChecklistInstanceId == id);
+        var checklistQuery = _context.ChecklistHistoryEntries
+            .AsNoTracking()
+            .Where(h => h.ChecklistInstanceId == id);
+
+        if (since.HasValue)
+        {
+            itemQuery = itemQuery.Where(h => h.ChangedAt > since.Value);
+            checklistQuery = checklistQuery.Where(h => h.ChangedAt > since.Value);
+        }
+
+        var itemEntries = await itemQuery
+            .Select(h => new { Entry = h, h.ChecklistItem.ItemText })
+            .ToListAsync();
+        var checklistEntries = await checklistQuery.ToListAsync();
+
+        return itemEntries
+            .Select(e => ChecklistMapper.MapItemHistoryToActivityDto(e.Entry, e.ItemText))
+            .Concat(checklistEntries.Select(ChecklistMapper.MapChecklistHistoryToActivityDto))
+            .OrderByDescending(a => a.ChangedAt)
+            .ToList();
+    }
+
+    public async Task<ChecklistChangesDto?> GetChecklistChangesAsync(Guid id, DateTime since)
+    {
+        _logger.LogInformation(
+            "Fetching changes for checklist {ChecklistId} since {Since}",
+            id,
+            since);
+
+        // Read before the queries so the next catch-up can't miss anything saved meanwhile
+        var serverTime = DateTime.UtcNow;
+
+        var checklist = await _context.ChecklistInstances
+            .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
+            .AsNoTracking()
+            .FirstOrDefaultAsync(c => c.Id == id);
+
+        if (checklist == null)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found for changes", id);
+            return null;
+        }
+
+        // Note edits and deletes only show up in item history
+        var historyItemIds = await _context.ChecklistItemHistoryEntries
+            .Where(h => h.ChecklistInstanceId == id && h.ChangedAt > since)
+            .Select(h => h.ChecklistItemId)
+            .Distinct()
+            .ToListAsync();
+
+        var changedItemIds = checklist.Items
+            .Where(i => i.CreatedAt > since || i.LastModifiedAt > since)
+            .Select(i => i.Id)
+            .Concat(historyItemIds)
+            .ToHashSet();
+
+        var removedItemIds = await _context.ChecklistItems
+            .IgnoreQueryFilters()
+            .Where(i => i.ChecklistInstanceId == id && i.IsDeleted && i.DeletedAt > since)
+            .Select(i => i.Id)
+            .ToListAsync();
+
+        // Reordering or adding items renumbers display orders, and removing one can
+        // unlock the items that waited on it, so those send every item
+        var itemsReordered = await _context.ChecklistHistoryEntries
+                .AnyAsync(h => h.ChecklistInstanceId == id
+                    && h.Action == ChecklistHistoryAction.ItemsReordered
+                    && h.ChangedAt > since)
+            || await _context.ChecklistItemHistoryEntries
+                .AnyAsync(h => h.ChecklistInstanceId == id
+                    && (h.Action == ItemHistoryAction.Added || h.Action == ItemHistoryAction.Removed)
+                    && h.ChangedAt > since);
+
+        var templateCurrentVersion = await _context.Templates
+            .Where(t => t.Id == checklist.TemplateId)
+            .Select(t => (int?)t.CurrentVersion)
+            .FirstOrDefaultAsync();
+
+        var dto = ChecklistMapper.MapToDto(checklist);
+
+        return new ChecklistChangesDto
+        {
+            ChecklistId = id,
+            Since = since,
+            ServerTime = serverTime,
+            Checklist = dto with
+            {
+                TemplateCurrentVersion = templateCurrentVersion,
+                Items = new List<ChecklistItemDto>()
+            },
+            ChangedItems = itemsReordered
+                ? dto.Items
+                : dto.Items.Where(i => changedItemIds.Contains(i.Id)).ToList(),
+            RemovedItemIds = removedItemIds
+        };
+    }
+
+    /// <summary>
+    /// Hides archived checklists unless requested. When catching up on changes,
+    /// checklists archived since then are kept so clients can drop them.
+    /// </summary>
+    private static IQueryable<ChecklistInstance> FilterArchived(
+        IQueryable<ChecklistInstance> query,
+        bool includeArchived,
+        DateTime? changedSince)
+    {
+        if (includeArchived)
+        {
+            return query;
+        }
+
+        return changedSince.HasValue
+            ? query.Where(c => !c.IsArchived || c.ArchivedAt > changedSince.Value)
+            : query.Where(c => !c.IsArchived);
+    }
+
+    /// <summary>
+    /// Narrows a query to checklists created or changed after a time:
+    /// metadata, archive state, or any item change recorded in item history
+    /// </summary>
+    private IQueryable<ChecklistInstance> WhereChangedSince(IQueryable<ChecklistInstance> query, DateTime since)
+    {
+        return query.Where(c =>
+            c.CreatedAt > since
+            || c.LastModifiedAt > since
+            || c.ArchivedAt > since
+            || c.Items.Any(i => i.LastModifiedAt > since)
+            || _context.ChecklistItemHistoryEntries.Any(h => h.ChecklistInstanceId == c.Id && h.ChangedAt > since));
+    }
+
+    /// <summary>
+    /// Adds checklist history entries for the name, positions and operational
+    /// period the request changes (tracked, saved with the update)
+    /// </summary>
+    private void RecordMetadataChanges(
+        ChecklistInstance checklist,
+        UpdateChecklistRequest request,
+        UserContext userContext)
+    {
+        if (checklist.Name != request.Name)
+        {
+            AddHistoryEntry(checklist.Id, ChecklistHistoryAction.Renamed, checklist.Name, request.Name, userContext);
+        }
+
+        if (NormalizePositions(checklist.AssignedPositions) != NormalizePositions(request.AssignedPositions))
+        {
+            AddHistoryEntry(
+                checklist.Id,
+                ChecklistHistoryAction.PositionsChanged,
+                checklist.AssignedPositions,
+                request.AssignedPositions,
+                userContext);
+        }
+
+        if (checklist.OperationalPeriodId != request.OperationalPeriodId)
+        {
+            AddHistoryEntry(
+                checklist.Id,
+                ChecklistHistoryAction.OperationalPeriodChanged,
+                checklist.OperationalPeriodName,
+                request.OperationalPeriodName,
+                userContext);
+        }
+    }
+
+    private void AddHistoryEntry(
+        Guid checklistId,
+        ChecklistHistoryAction action,
+        string? previousValue,
+        string? newValue,
+        UserContext userContext)
+    {
+        _context.ChecklistHistoryEntries.Add(new ChecklistHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklistId,
+            Action = action,
+            PreviousValue = previousValue,
+            NewValue = newValue,
+            ChangedBy = userContext.Email,
+            ChangedByPosition = userContext.Position,
+            ChangedAt = DateTime.UtcNow
+        });
+    }
+
+    /// <summary>
+    /// Positions as a comparable set ("A, B" equals "B,A"; empty equals null)
+    /// </summary>
+    private static string NormalizePositions(string? positions)
+    {
+        return string.Join(",", (positions ?? string.Empty)
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .OrderBy(p => p, StringComparer.OrdinalIgnoreCase));
+    }
+
     public async Task<bool?> ArchiveChecklistAsync(Guid id, UserContext userContext)
     {
         _logger.LogInformation("Archiving checklist {ChecklistId} by {User}", id, userContext.Email);
@@ -431,6 +694,7 @@ public class ChecklistService : IChecklistService
 
         var checklists = await _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .Where(c => c.IsArchived)
             .OrderByDescending(c => c.ArchivedAt)
             .AsNoTracking()
@@ -447,6 +711,7 @@ public class ChecklistService : IChecklistService
 
         var checklists = await _context.ChecklistInstances
             .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
             .Where(c => c.IsArchived && c.EventId == eventId)
             .OrderByDescending(c => c.ArchivedAt)
             .AsNoTracking()
@@ -515,7 +780,8 @@ public class ChecklistService : IChecklistService
         string newName,
         bool preserveStatus,
         UserContext userContext,
-        string? assignedPositions = null)
+        string? assignedPositions = null,
+        ChecklistCloneOptions? options = null)
     {
         try
         {
@@ -526,7 +792,8 @@ public class ChecklistService : IChecklistService
                 newName,
                 preserveStatus,
                 userContext,
-                assignedPositions);
+                assignedPositions,
+                options);
 
             _context.ChecklistInstances.Add(clone);
             await _context.SaveChangesAsync();
@@ -0,0 +1,266 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ChecklistSignOffService - Implementation of the checklist sign-off workflow
+///
+/// Purpose:
+///   Validates sign-off transitions, stamps submitter/supervisor details on
+///   the checklist, appends a checklist history entry for every step and
+///   tells open copies of the checklist through the hub.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - IHubContext&lt;ChecklistHub&gt;: ChecklistUpdated ("sign_off_changed") broadcasts
+///   - ChecklistSignOffHelper: Signature validation
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class ChecklistSignOffService : IChecklistSignOffService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<ChecklistSignOffService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+
+    public ChecklistSignOffService(
+        CobraDbContext context,
+        ILogger<ChecklistSignOffService> logger,
+        IHubContext<ChecklistHub> hubContext)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+    }
+
+    public async Task<ChecklistInstanceDto?> SubmitForSignOffAsync(Guid checklistId, UserContext userContext)
+    {
+        var checklist = await LoadChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        if (checklist.SignOffStatus != ChecklistSignOffStatus.Open)
+        {
+            throw new InvalidOperationException(
+                $"Only open checklists can be submitted for sign-off (checklist is {checklist.SignOffStatus})");
+        }
+
+        EnsureRequiredItemsCompleted(checklist, "submitted for sign-off");
+
+        var now = DateTime.UtcNow;
+        checklist.SignOffStatus = ChecklistSignOffStatus.PendingSignOff;
+        checklist.SubmittedForSignOffBy = userContext.Email;
+        checklist.SubmittedForSignOffByPosition = userContext.Position;
+        checklist.SubmittedForSignOffAt = now;
+        StampModified(checklist, userContext, now);
+
+        AddHistoryEntry(checklist, ChecklistHistoryAction.SubmittedForSignOff, null, null, userContext, now);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Checklist {ChecklistId} submitted for sign-off by {User}",
+            checklistId,
+            userContext.Email);
+
+        await BroadcastSignOffChangedAsync(checklist, userContext);
+        return ChecklistMapper.MapToDto(checklist);
+    }
+
+    public async Task<ChecklistInstanceDto?> SignOffAsync(Guid checklistId, string? signature, UserContext userContext)
+    {
+        var normalizedSignature = ChecklistSignOffHelper.NormalizeSignature(signature);
+
+        var checklist = await LoadChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        if (checklist.SignOffStatus != ChecklistSignOffStatus.PendingSignOff)
+        {
+            throw new InvalidOperationException(
+                $"Only checklists waiting for sign-off can be signed off (checklist is {checklist.SignOffStatus})");
+        }
+
+        if (string.Equals(checklist.SubmittedForSignOffBy, userContext.Email, StringComparison.OrdinalIgnoreCase))
+        {
+            _logger.LogWarning(
+                "User {User} attempted to sign off checklist {ChecklistId} they submitted",
+                userContext.Email,
+                checklistId);
+            throw new UnauthorizedAccessException("You cannot sign off a checklist you submitted");
+        }
+
+        // Items can still change while the checklist waits for sign-off
+        EnsureRequiredItemsCompleted(checklist, "signed off");
+
+        var now = DateTime.UtcNow;
+        var signerName = string.IsNullOrWhiteSpace(userContext.FullName) ? userContext.Email : userContext.FullName;
+        checklist.SignOffStatus = ChecklistSignOffStatus.SignedOff;
+        checklist.SignedOffBy = userContext.Email;
+        checklist.SignedOffByName = signerName;
+        checklist.SignedOffByPosition = userContext.Position;
+        checklist.SignedOffAt = now;
+        checklist.SignOffSignature = normalizedSignature;
+        StampModified(checklist, userContext, now);
+
+        AddHistoryEntry(checklist, ChecklistHistoryAction.SignedOff, null, signerName, userContext, now);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Checklist {ChecklistId} signed off by {User} ({Position})",
+            checklistId,
+            userContext.Email,
+            userContext.Position);
+
+        await BroadcastSignOffChangedAsync(checklist, userContext);
+        return ChecklistMapper.MapToDto(checklist);
+    }
+
+    public async Task<ChecklistInstanceDto?> ReopenAsync(Guid checklistId, string reason, UserContext userContext)
+    {
+        if (string.IsNullOrWhiteSpace(reason))
+        {
+            throw new ArgumentException("A reason is required to reopen a checklist");
+        }
+
+        var checklist = await LoadChecklistAsync(checklistId);
+        if (checklist == null)
+        {
+            return null;
+        }
+
+        if (checklist.SignOffStatus == ChecklistSignOffStatus.Open)
+        {
+            throw new InvalidOperationException("Only submitted or signed-off checklists can be reopened");
+        }
+
+        var now = DateTime.UtcNow;
+        var previousStatus = checklist.SignOffStatus;
+        checklist.SignOffStatus = ChecklistSignOffStatus.Open;
+        checklist.SubmittedForSignOffBy = null;
+        checklist.SubmittedForSignOffByPosition = null;
+        checklist.SubmittedForSignOffAt = null;
+        checklist.SignedOffBy = null;
+        checklist.SignedOffByName = null;
+        checklist.SignedOffByPosition = null;
+        checklist.SignedOffAt = null;
+        checklist.SignOffSignature = null;
+        StampModified(checklist, userContext, now);
+
+        AddHistoryEntry(
+            checklist,
+            ChecklistHistoryAction.Reopened,
+            previousStatus.ToString(),
+            reason.Trim(),
+            userContext,
+            now);
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Checklist {ChecklistId} reopened from {PreviousStatus} by {User}",
+            checklistId,
+            previousStatus,
+            userContext.Email);
+
+        await BroadcastSignOffChangedAsync(checklist, userContext);
+        return ChecklistMapper.MapToDto(checklist);
+    }
+
+    /// <summary>
+    /// Load a checklist with items for a sign-off action
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the checklist is archived</exception>
+    private async Task<ChecklistInstance?> LoadChecklistAsync(Guid checklistId)
+    {
+        var checklist = await _context.ChecklistInstances
+            .Include(c => c.Items.OrderBy(i => i.DisplayOrder))
+                .ThenInclude(i => i.Notes)
+            .FirstOrDefaultAsync(c => c.Id == checklistId);
+
+        if (checklist == null)
+        {
+            _logger.LogWarning("Checklist {ChecklistId} not found for sign-off action", checklistId);
+            return null;
+        }
+
+        if (checklist.IsArchived)
+        {
+            throw new InvalidOperationException("Archived checklists cannot be signed off. Restore it first.");
+        }
+
+        return checklist;
+    }
+
+    /// <summary>
+    /// Throws unless every required item is done
+    /// </summary>
+    private static void EnsureRequiredItemsCompleted(ChecklistInstance checklist, string action)
+    {
+        if (checklist.RequiredItemsCompleted < checklist.RequiredItems)
+        {
+            throw new InvalidOperationException(
+                $"All required items must be completed before the checklist can be {action} " +
+                $"({checklist.RequiredItemsCompleted} of {checklist.RequiredItems} done)");
+        }
+    }
+
+    private static void StampModified(ChecklistInstance checklist, UserContext userContext, DateTime now)
+    {
+        checklist.LastModifiedBy = userContext.Email;
+        checklist.LastModifiedByPosition = userContext.Position;
+        checklist.LastModifiedAt = now;
+    }
+
+    private void AddHistoryEntry(
+        ChecklistInstance checklist,
+        ChecklistHistoryAction action,
+        string? previousValue,
+        string? newValue,
+        UserContext userContext,
+        DateTime now)
+    {
+        _context.ChecklistHistoryEntries.Add(new ChecklistHistoryEntry
+        {
+            Id = Guid.NewGuid(),
+            ChecklistInstanceId = checklist.Id,
+            Action = action,
+            PreviousValue = previousValue,
+            NewValue = newValue,
+            ChangedBy = userContext.Email,
+            ChangedByPosition = userContext.Position,
+            ChangedAt = now
+        });
+    }
+
+    /// <summary>
+    /// Lets open copies of the checklist pick up the new sign-off state
+    /// </summary>
+    private async Task BroadcastSignOffChangedAsync(ChecklistInstance checklist, UserContext userContext)
+    {
+        try
+        {
+            await _hubContext.Clients.Group($"checklist-{checklist.Id}").SendAsync("ChecklistUpdated", new
+            {
+                checklistId = checklist.Id.ToString(),
+                updateType = "sign_off_changed",
+                progressPercentage = checklist.ProgressPercentage,
+                updatedBy = userContext.Email,
+                updatedByPosition = userContext.Position,
+                sentAt = DateTime.UtcNow
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogError(ex, "Failed to broadcast sign-off change of checklist {ChecklistId}", checklist.Id);
+        }
+    }
+}
@@ -0,0 +1,115 @@
+using System.Globalization;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// AttachmentHelper - Helper for checklist item attachment limits and storage keys
+///
+/// Purpose:
+///   Responders attach evidence (damage photos, signed forms) to items.
+///   Size and type limits come from System Settings and are checked before
+///   anything is written to storage.
+///
+/// Settings:
+///   - Checklist.AttachmentMaxSizeMb: largest file, in MB (default 10)
+///   - Checklist.AttachmentAllowedTypes: comma-separated MIME types,
+///     "image/*" allows a whole family (default "image/*,application/pdf")
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Called by ChecklistAttachmentService
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public static class AttachmentHelper
+{
+    public const int DefaultMaxSizeMb = 10;
+    public const string DefaultAllowedTypes = "image/*,application/pdf";
+
+    /// <summary>
+    /// Builds the upload limits from the setting values, falling back to the
+    /// defaults for missing or invalid values
+    /// </summary>
+    public static AttachmentLimitsDto BuildLimits(string? maxSizeMb, string? allowedTypes)
+    {
+        var sizeMb = double.TryParse(maxSizeMb, NumberStyles.Float, CultureInfo.InvariantCulture, out var parsed) && parsed > 0
+            ? parsed
+            : DefaultMaxSizeMb;
+
+        var types = (string.IsNullOrWhiteSpace(allowedTypes) ? DefaultAllowedTypes : allowedTypes)
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .Select(t => t.ToLowerInvariant())
+            .Distinct()
+            .ToList();
+
+        return new AttachmentLimitsDto
+        {
+            MaxSizeBytes = (long)(sizeMb * 1024 * 1024),
+            AllowedContentTypes = types
+        };
+    }
+
+    /// <summary>
+    /// Whether the MIME type is accepted ("image/*" accepts any "image/..." type)
+    /// </summary>
+    public static bool IsContentTypeAllowed(string contentType, AttachmentLimitsDto limits)
+    {
+        var type = contentType.Trim().ToLowerInvariant();
+        return limits.AllowedContentTypes.Any(allowed =>
+            allowed.EndsWith("/*")
+                ? type.StartsWith(allowed[..^1], StringComparison.Ordinal)
+                : type == allowed);
+    }
+
+    /// <summary>
+    /// Validation message for a file being uploaded, or null when it's accepted
+    /// </summary>
+    public static string? Validate(string fileName, string contentType, long sizeBytes, AttachmentLimitsDto limits)
+    {
+        if (string.IsNullOrWhiteSpace(fileName) || sizeBytes <= 0)
+        {
+            return "The file is empty";
+        }
+
+        if (sizeBytes > limits.MaxSizeBytes)
+        {
+            return $"\"{fileName}\" is {DescribeSize(sizeBytes)}; attachments can be at most {DescribeSize(limits.MaxSizeBytes)}";
+        }
+
+        if (!IsContentTypeAllowed(contentType, limits))
+        {
+            return $"\"{fileName}\" can't be attached. Allowed types: {string.Join(", ", limits.AllowedContentTypes)}";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Storage location for an attachment: "{checklistId}/{itemId}/{attachmentId}{extension}"
+    /// Only the extension of the original name is kept, so user file names never reach the file system.
+    /// </summary>
+    public static string BuildStorageKey(Guid checklistId, Guid itemId, Guid attachmentId, string fileName)
+    {
+        var extension = Path.GetExtension(fileName).ToLowerInvariant();
+        if (extension.Length > 10 || extension.Skip(1).Any(c => !char.IsLetterOrDigit(c)))
+        {
+            extension = string.Empty;
+        }
+
+        return $"{checklistId}/{itemId}/{attachmentId}{extension}";
+    }
+
+    /// <summary>
+    /// File size for messages, e.g. "512 KB", "2.5 MB"
+    /// </summary>
+    public static string DescribeSize(long bytes)
+    {
+        if (bytes < 1024 * 1024)
+        {
+            return $"{Math.Max(1, bytes / 1024)} KB";
+        }
+
+        return $"{(bytes / (1024d * 1024)).ToString("0.#", CultureInfo.InvariantCulture)} MB";
+    }
+}
@@ -0,0 +1,106 @@
+using System.Text.Json;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// AutoCreateMatchHelper - Matches AutoCreate templates to an event's categories
+///
+/// Purpose:
+///   AutoCreate templates store incident types (e.g. ["Hurricane", "Hazmat"]),
+///   while events reference FEMA/NIMS event categories (e.g. code "HURRICANE",
+///   name "Hurricane / Tropical Storm"). This decides whether they match.
+///
+/// Matching Rules (case-insensitive, underscores treated as spaces):
+///   - Incident type equals the category code ("Winter Storm" = WINTER_STORM)
+///   - Incident type equals the category name
+///   - Incident type equals one part of a "/"-separated category name
+///     ("Hurricane" = "Hurricane / Tropical Storm")
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Called by ChecklistAutoCreateService
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public static class AutoCreateMatchHelper
+{
+    /// <summary>
+    /// Parse a JSON array of strings (AutoCreateForCategories, RecommendedPositions)
+    /// Returns an empty list for null or malformed JSON
+    /// </summary>
+    public static List<string> ParseStringList(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return new List<string>();
+        }
+
+        try
+        {
+            return (JsonSerializer.Deserialize<List<string>>(json) ?? new List<string>())
+                .Where(value => !string.IsNullOrWhiteSpace(value))
+                .Select(value => value.Trim())
+                .Distinct(StringComparer.OrdinalIgnoreCase)
+                .ToList();
+        }
+        catch (JsonException)
+        {
+            return new List<string>();
+        }
+    }
+
+    /// <summary>
+    /// Parse an event's additional category IDs (JSON array of GUIDs)
+    /// Returns an empty list for null or malformed JSON
+    /// </summary>
+    public static List<Guid> ParseCategoryIds(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return new List<Guid>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<Guid>>(json) ?? new List<Guid>();
+        }
+        catch (JsonException)
+        {
+            return new List<Guid>();
+        }
+    }
+
+    /// <summary>
+    /// Event categories (in the given order) that any of the template's incident types match
+    /// </summary>
+    public static List<EventCategory> GetMatchingCategories(
+        IEnumerable<string> incidentTypes,
+        IEnumerable<EventCategory> categories)
+    {
+        var types = incidentTypes.Select(Normalize).Where(t => t.Length > 0).ToHashSet();
+        if (types.Count == 0)
+        {
+            return new List<EventCategory>();
+        }
+
+        return categories
+            .Where(category => GetCategoryKeys(category).Any(types.Contains))
+            .ToList();
+    }
+
+    private static IEnumerable<string> GetCategoryKeys(EventCategory category)
+    {
+        yield return Normalize(category.Code);
+        yield return Normalize(category.Name);
+
+        foreach (var part in category.Name.Split('/'))
+        {
+            yield return Normalize(part);
+        }
+    }
+
+    private static string Normalize(string value) =>
+        string.Join(' ', value.Replace('_', ' ').Split(' ', StringSplitOptions.RemoveEmptyEntries))
+            .ToLowerInvariant();
+}
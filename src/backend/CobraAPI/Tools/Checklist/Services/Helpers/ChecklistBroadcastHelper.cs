@@ -0,0 +1,64 @@
+using Microsoft.AspNetCore.SignalR;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// ChecklistBroadcastHelper - Helper for the ChecklistCreated SignalR broadcast
+///
+/// Purpose:
+///   Every way of creating a checklist (from a template, combined,
+///   carry-forward, recurring schedule, auto-create) notifies clients with the
+///   same ChecklistCreated payload, built here once.
+///
+/// Dependencies:
+///   - IHubContext: ChecklistHub broadcast
+///   - ILogger: Logging
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Broadcast failures are logged, never thrown: the checklist is already
+///     saved and clients pick it up on their next refresh
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public static class ChecklistBroadcastHelper
+{
+    /// <summary>
+    /// Broadcasts ChecklistCreated to all clients (clients filter by position)
+    /// </summary>
+    /// <param name="createdBy">Email of the user (or schedule) that created the checklist</param>
+    public static async Task BroadcastChecklistCreatedAsync(
+        IHubContext<ChecklistHub> hubContext,
+        ILogger logger,
+        ChecklistInstanceDto dto,
+        string createdBy)
+    {
+        try
+        {
+            await hubContext.Clients.All.SendAsync("ChecklistCreated", new
+            {
+                checklistId = dto.Id,
+                checklistName = dto.Name,
+                eventId = dto.EventId,
+                eventName = dto.EventName,
+                positions = dto.AssignedPositions,
+                createdBy,
+                createdAt = dto.CreatedAt,
+                sentAt = DateTime.UtcNow
+            });
+
+            logger.LogInformation(
+                "Broadcasted checklist creation via SignalR: {ChecklistId} ({ChecklistName})",
+                dto.Id,
+                dto.Name);
+        }
+        catch (Exception ex)
+        {
+            logger.LogWarning(
+                ex,
+                "Failed to broadcast checklist creation via SignalR for {ChecklistId}",
+                dto.Id);
+        }
+    }
+}
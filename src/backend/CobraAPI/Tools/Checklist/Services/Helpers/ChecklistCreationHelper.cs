@@ -1,3 +1,4 @@
+using System.Text.Json;
 using CobraAPI.Core.Data;
 using CobraAPI.Core.Models;
 using Microsoft.EntityFrameworkCore;
@@ -8,7 +9,7 @@ namespace CobraAPI.Tools.Checklist.Services.Helpers;
 /// ChecklistCreationHelper - Helper for complex checklist creation logic
 ///
 /// Purpose:
-///   Handles template instantiation and checklist cloning.
+///   Handles template instantiation (single or combined) and checklist cloning.
 ///   Extracted from ChecklistService to keep files under 250 lines.
 ///
 /// Single Responsibility:
@@ -25,13 +26,13 @@ namespace CobraAPI.Tools.Checklist.Services.Helpers;
 ///   - Returns entities (not DTOs) for service to save
 ///
 /// Author: Checklist POC Team
-/// Last Modified: 2025-11-20
+/// Last Modified: 2026-10-19
 /// </summary>
 public static class ChecklistCreationHelper
 {
     /// <summary>
     /// Creates a checklist instance from a template
-    /// Copies all template items to checklist items
+    /// Copies all template items to checklist items and calculates their due times
     /// </summary>
     public static async Task<ChecklistInstance> CreateFromTemplateAsync(
         CobraDbContext context,
@@ -56,6 +57,12 @@ public static class ChecklistCreationHelper
                 $"Template {request.TemplateId} not found or not available");
         }
 
+        if (template.ApprovalStatus != TemplateApprovalStatus.Approved)
+        {
+            throw new InvalidOperationException(
+                $"Template '{template.Name}' has not been approved for use");
+        }
+
         // Create checklist instance
         // Use defaults for EventId/EventName if not provided (POC mode)
         var checklist = new ChecklistInstance
@@ -63,6 +70,7 @@ public static class ChecklistCreationHelper
             Id = Guid.NewGuid(),
             Name = request.Name ?? $"{template.Name} - {DateTime.UtcNow:yyyy-MM-dd}",
             TemplateId = template.Id,
+            TemplateVersion = template.CurrentVersion,
             EventId = request.EventId ?? Guid.Empty,
             EventName = request.EventName ?? "POC Demo Event",
             OperationalPeriodId = request.OperationalPeriodId,
@@ -86,11 +94,21 @@ public static class ChecklistCreationHelper
                 DisplayOrder = templateItem.DisplayOrder,
                 IsRequired = templateItem.IsRequired,
                 StatusConfiguration = templateItem.StatusConfiguration,
+                ValueConfiguration = templateItem.ValueConfiguration,
                 AllowedPositions = templateItem.AllowedPositions,
+                DueOffsetMinutes = templateItem.DueOffsetMinutes,
+                DueRelativeTo = templateItem.DueRelativeTo,
+                SectionName = templateItem.SectionName,
                 CreatedAt = DateTime.UtcNow
             });
         }
 
+        // Prerequisites by display order become links to the new items
+        ItemPrerequisiteHelper.ResolveFromTemplate(template.Items, checklist.Items.ToList());
+
+        // Due offsets become absolute due times (from now or the period start)
+        await ItemDueTimeHelper.ApplyDueTimesAsync(context, checklist);
+
         // Initialize progress tracking
         InitializeProgress(checklist);
 
@@ -103,12 +121,156 @@ public static class ChecklistCreationHelper
         return checklist;
     }
 
+    /// <summary>
+    /// Creates one checklist from several templates
+    /// Each template becomes a block of items (in request order); items without a
+    /// section are put in a section named after their template. Excluded items are
+    /// skipped, and prerequisites on them are dropped.
+    /// </summary>
+    public static async Task<ChecklistInstance> CreateCombinedAsync(
+        CobraDbContext context,
+        ILogger logger,
+        CreateCombinedChecklistRequest request,
+        UserContext userContext)
+    {
+        logger.LogInformation(
+            "Creating combined checklist from templates {TemplateIds} by {User}",
+            string.Join(", ", request.TemplateIds),
+            userContext.Email);
+
+        if (request.TemplateIds.Distinct().Count() != request.TemplateIds.Count)
+        {
+            throw new InvalidOperationException("Each template can only be combined once");
+        }
+
+        var templates = await context.Templates
+            .Include(t => t.Items)
+            .AsNoTracking()
+            .Where(t => request.TemplateIds.Contains(t.Id))
+            .ToListAsync();
+
+        // Blocks follow the requested order
+        var orderedTemplates = new List<Template>();
+        foreach (var templateId in request.TemplateIds)
+        {
+            var template = templates.FirstOrDefault(t => t.Id == templateId);
+            if (template == null || !template.IsActive || template.IsArchived)
+            {
+                throw new InvalidOperationException(
+                    $"Template {templateId} not found or not available");
+            }
+
+            if (template.ApprovalStatus != TemplateApprovalStatus.Approved)
+            {
+                throw new InvalidOperationException(
+                    $"Template '{template.Name}' has not been approved for use");
+            }
+
+            orderedTemplates.Add(template);
+        }
+
+        var excludedItemIds = request.ExcludedTemplateItemIds.ToHashSet();
+        var firstTemplate = orderedTemplates[0];
+
+        var checklist = new ChecklistInstance
+        {
+            Id = Guid.NewGuid(),
+            Name = request.Name ?? $"{string.Join(" + ", orderedTemplates.Select(t => t.Name))} - {DateTime.UtcNow:yyyy-MM-dd}",
+            TemplateId = firstTemplate.Id,
+            TemplateVersion = firstTemplate.CurrentVersion,
+            SourceTemplateIds = JsonSerializer.Serialize(orderedTemplates.Select(t => t.Id)),
+            EventId = request.EventId ?? Guid.Empty,
+            EventName = request.EventName ?? "POC Demo Event",
+            OperationalPeriodId = request.OperationalPeriodId,
+            OperationalPeriodName = request.OperationalPeriodName,
+            AssignedPositions = request.AssignedPositions,
+            CreatedBy = userContext.Email,
+            CreatedByPosition = userContext.Position,
+            CreatedAt = DateTime.UtcNow
+        };
+
+        var nextDisplayOrder = 10;
+        foreach (var template in orderedTemplates)
+        {
+            var templateItems = template.Items
+                .Where(i => !excludedItemIds.Contains(i.Id))
+                .OrderBy(i => i.DisplayOrder)
+                .ToList();
+
+            // Items keep the template's display orders until its prerequisites are resolved
+            var blockItems = templateItems.Select(templateItem => new ChecklistItem
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = checklist.Id,
+                TemplateItemId = templateItem.Id,
+                ItemText = templateItem.ItemText,
+                ItemType = templateItem.ItemType,
+                DisplayOrder = templateItem.DisplayOrder,
+                IsRequired = templateItem.IsRequired,
+                StatusConfiguration = templateItem.StatusConfiguration,
+                ValueConfiguration = templateItem.ValueConfiguration,
+                AllowedPositions = templateItem.AllowedPositions,
+                DueOffsetMinutes = templateItem.DueOffsetMinutes,
+                DueRelativeTo = templateItem.DueRelativeTo,
+                SectionName = templateItem.SectionName ?? TemplateCreationHelper.NormalizeSectionName(template.Name),
+                CreatedAt = DateTime.UtcNow
+            }).ToList();
+
+            ItemPrerequisiteHelper.ResolveFromTemplate(templateItems, blockItems);
+
+            foreach (var item in blockItems)
+            {
+                item.DisplayOrder = nextDisplayOrder;
+                nextDisplayOrder += 10;
+                checklist.Items.Add(item);
+            }
+        }
+
+        if (checklist.Items.Count == 0)
+        {
+            throw new InvalidOperationException("The combined checklist would have no items");
+        }
+
+        await ItemDueTimeHelper.ApplyDueTimesAsync(context, checklist);
+
+        InitializeProgress(checklist);
+
+        logger.LogInformation(
+            "Created combined checklist {ChecklistId} with {ItemCount} items from {TemplateCount} templates",
+            checklist.Id,
+            checklist.Items.Count,
+            orderedTemplates.Count);
+
+        return checklist;
+    }
+
+    /// <summary>
+    /// Reads ChecklistInstance.SourceTemplateIds (null or invalid JSON = not a combined checklist)
+    /// </summary>
+    public static List<Guid> ParseSourceTemplateIds(string? sourceTemplateIds)
+    {
+        if (string.IsNullOrWhiteSpace(sourceTemplateIds))
+        {
+            return new List<Guid>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<Guid>>(sourceTemplateIds) ?? new List<Guid>();
+        }
+        catch (JsonException)
+        {
+            return new List<Guid>();
+        }
+    }
+
     /// <summary>
     /// Clones an existing checklist with a new name
     /// Supports both "clean copy" (reset status) and "direct copy" (preserve status)
     /// </summary>
     /// <param name="preserveStatus">If true, preserves completion status and notes; if false, resets to fresh checklist</param>
     /// <param name="assignedPositions">Optional comma-separated positions; if null, inherits from original</param>
+    /// <param name="options">Optional target period, item filtering and notes handling; if null, a plain copy in the original's period</param>
     public static async Task<ChecklistInstance> CloneChecklistAsync(
         CobraDbContext context,
         ILogger logger,
@@ -116,8 +278,11 @@ public static class ChecklistCreationHelper
         string newName,
         bool preserveStatus,
         UserContext userContext,
-        string? assignedPositions = null)
+        string? assignedPositions = null,
+        ChecklistCloneOptions? options = null)
     {
+        options ??= new ChecklistCloneOptions();
+
         logger.LogInformation(
             "Cloning checklist {ChecklistId} as '{NewName}' ({Mode})",
             checklistId,
@@ -126,6 +291,7 @@ public static class ChecklistCreationHelper
 
         var original = await context.ChecklistInstances
             .Include(c => c.Items)
+                .ThenInclude(i => i.Notes)
             .AsNoTracking()
             .FirstOrDefaultAsync(c => c.Id == checklistId);
 
@@ -140,10 +306,17 @@ public static class ChecklistCreationHelper
             Id = Guid.NewGuid(),
             Name = newName,
             TemplateId = original.TemplateId,
+            TemplateVersion = original.TemplateVersion,
+            // Combined checklists keep all of their source templates
+            SourceTemplateIds = original.SourceTemplateIds,
             EventId = original.EventId,
             EventName = original.EventName,
-            OperationalPeriodId = original.OperationalPeriodId,
-            OperationalPeriodName = original.OperationalPeriodName,
+            OperationalPeriodId = options.SetOperationalPeriod
+                ? options.OperationalPeriodId
+                : original.OperationalPeriodId,
+            OperationalPeriodName = options.SetOperationalPeriod
+                ? options.OperationalPeriodName
+                : original.OperationalPeriodName,
             // Use provided assignedPositions if specified, otherwise inherit from original
             AssignedPositions = !string.IsNullOrWhiteSpace(assignedPositions)
                 ? assignedPositions
@@ -153,8 +326,13 @@ public static class ChecklistCreationHelper
             CreatedAt = DateTime.UtcNow
         };
 
-        // Copy items
-        foreach (var item in original.Items)
+        // Copy items (optionally only those not yet complete)
+        var itemsToCopy = options.OnlyIncompleteItems
+            ? original.Items.Where(i => !ChecklistProgressHelper.IsItemComplete(i))
+            : original.Items;
+
+        var newIdByOriginalId = new Dictionary<Guid, Guid>();
+        foreach (var item in itemsToCopy)
         {
             var newItem = new ChecklistItem
             {
@@ -166,9 +344,15 @@ public static class ChecklistCreationHelper
                 DisplayOrder = item.DisplayOrder,
                 IsRequired = item.IsRequired,
                 StatusConfiguration = item.StatusConfiguration,
+                ValueConfiguration = item.ValueConfiguration,
                 AllowedPositions = item.AllowedPositions,
+                DueOffsetMinutes = item.DueOffsetMinutes,
+                DueRelativeTo = item.DueRelativeTo,
+                PrerequisiteItemIds = item.PrerequisiteItemIds,
+                SectionName = item.SectionName,
                 CreatedAt = DateTime.UtcNow
             };
+            newIdByOriginalId[item.Id] = newItem.Id;
 
             // Preserve status if requested (direct copy)
             if (preserveStatus)
@@ -178,18 +362,39 @@ public static class ChecklistCreationHelper
                 newItem.CompletedBy = item.CompletedBy;
                 newItem.CompletedByPosition = item.CompletedByPosition;
                 newItem.CurrentStatus = item.CurrentStatus;
-                newItem.Notes = item.Notes;
+                newItem.Value = item.Value;
+                newItem.DueAt = item.DueAt;
+                newItem.OverdueNotifiedAt = item.OverdueNotifiedAt;
+                CopyNotes(item, newItem);
                 newItem.LastModifiedAt = item.LastModifiedAt;
                 newItem.LastModifiedBy = item.LastModifiedBy;
                 newItem.LastModifiedByPosition = item.LastModifiedByPosition;
             }
             // Otherwise reset (clean copy) - already done by default
+            else if (options.CarryNotes)
+            {
+                CopyNotes(item, newItem);
+            }
 
             clone.Items.Add(newItem);
         }
 
+        // Prerequisites point at the copied items
+        ItemPrerequisiteHelper.RemapItemIds(clone.Items, newIdByOriginalId);
+
+        // A clean copy starts the clock again (a direct copy keeps the original due times)
+        if (!preserveStatus)
+        {
+            await ItemDueTimeHelper.ApplyDueTimesAsync(context, clone);
+        }
+
         // Initialize or copy progress tracking
-        if (preserveStatus)
+        if (preserveStatus && options.OnlyIncompleteItems)
+        {
+            // Item set changed - recalculate from the copied items
+            ChecklistProgressHelper.CalculateProgress(clone);
+        }
+        else if (preserveStatus)
         {
             // Copy progress from original
             clone.TotalItems = original.TotalItems;
@@ -224,4 +429,53 @@ public static class ChecklistCreationHelper
         checklist.RequiredItemsCompleted = 0;
         checklist.ProgressPercentage = 0;
     }
+
+    /// <summary>
+    /// Copies an item's note thread onto its copy (authors and timestamps are kept)
+    /// </summary>
+    private static void CopyNotes(ChecklistItem source, ChecklistItem copy)
+    {
+        foreach (var note in source.Notes.OrderBy(n => n.CreatedAt))
+        {
+            copy.Notes.Add(new ChecklistItemNote
+            {
+                Id = Guid.NewGuid(),
+                ChecklistInstanceId = copy.ChecklistInstanceId,
+                ChecklistItemId = copy.Id,
+                NoteText = note.NoteText,
+                CreatedBy = note.CreatedBy,
+                CreatedByPosition = note.CreatedByPosition,
+                CreatedAt = note.CreatedAt,
+                EditedBy = note.EditedBy,
+                EditedAt = note.EditedAt
+            });
+        }
+    }
+}
+
+/// <summary>
+/// Options for ChecklistCreationHelper.CloneChecklistAsync beyond a plain copy
+/// Used by the clone endpoint (target period) and by carry-forward
+/// </summary>
+public record ChecklistCloneOptions
+{
+    /// <summary>
+    /// Place the copy in OperationalPeriodId/OperationalPeriodName instead of the original's period
+    /// (a null OperationalPeriodId makes it incident-level)
+    /// </summary>
+    public bool SetOperationalPeriod { get; init; }
+
+    public Guid? OperationalPeriodId { get; init; }
+
+    public string? OperationalPeriodName { get; init; }
+
+    /// <summary>
+    /// Copy only items that are not complete in the original
+    /// </summary>
+    public bool OnlyIncompleteItems { get; init; }
+
+    /// <summary>
+    /// Keep item notes on a clean copy (a direct copy always keeps them)
+    /// </summary>
+    public bool CarryNotes { get; init; }
 }
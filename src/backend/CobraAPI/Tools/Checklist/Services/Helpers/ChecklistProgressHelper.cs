@@ -22,7 +22,7 @@ namespace CobraAPI.Tools.Checklist.Services.Helpers;
 ///
 /// Design Pattern:
 ///   - Static methods (no state)
-///   - Called by ChecklistService and item completion endpoints
+///   - Called by ChecklistService, item completion endpoints and checklist cloning
 ///   - Updates entity in-place
 ///
 /// Calculation Rules:
@@ -30,6 +30,7 @@ namespace CobraAPI.Tools.Checklist.Services.Helpers;
 ///   - CompletedItems = count of completed items (checkbox or status)
 ///     * Checkbox items: IsCompleted == true
 ///     * Status items: CurrentStatus matches a status with isCompletion == true in StatusConfiguration
+///     * Value items (number, text, datetime, yesno): a value has been captured
 ///   - RequiredItemsCompleted = count of required items that are complete
 ///
 /// Author: Checklist POC Team
@@ -84,11 +85,15 @@ public static class ChecklistProgressHelper
     /// <param name="checklist">Checklist entity to calculate progress for</param>
     public static void CalculateProgress(ChecklistInstance checklist)
     {
+        // Removed items may still be tracked in the collection (the query filter
+        // only applies when loading)
+        var items = checklist.Items.Where(i => !i.IsDeleted).ToList();
+
         // Calculate progress metrics
-        checklist.TotalItems = checklist.Items.Count;
-        checklist.CompletedItems = checklist.Items.Count(i => IsItemComplete(i));
-        checklist.RequiredItems = checklist.Items.Count(i => i.IsRequired);
-        checklist.RequiredItemsCompleted = checklist.Items.Count(
+        checklist.TotalItems = items.Count;
+        checklist.CompletedItems = items.Count(i => IsItemComplete(i));
+        checklist.RequiredItems = items.Count(i => i.IsRequired);
+        checklist.RequiredItemsCompleted = items.Count(
             i => i.IsRequired && IsItemComplete(i));
 
         // Calculate percentage (0-100, rounded to 2 decimal places)
@@ -99,11 +104,11 @@ public static class ChecklistProgressHelper
 
     /// <summary>
     /// Determines if a checklist item is complete
-    /// Handles both checkbox and status item types
+    /// Handles checkbox, status and value item types
     /// </summary>
     /// <param name="item">The checklist item to check</param>
     /// <returns>True if item is complete, false otherwise</returns>
-    private static bool IsItemComplete(ChecklistItem item)
+    public static bool IsItemComplete(ChecklistItem item)
     {
         // Checkbox items: check IsCompleted flag
         if (item.ItemType == "checkbox")
@@ -152,6 +157,12 @@ public static class ChecklistProgressHelper
             }
         }
 
+        // Value items: complete once a value is captured
+        if (ItemValueHelper.IsValueType(item.ItemType))
+        {
+            return !string.IsNullOrWhiteSpace(item.Value);
+        }
+
         // Unknown item type - not complete
         return false;
     }
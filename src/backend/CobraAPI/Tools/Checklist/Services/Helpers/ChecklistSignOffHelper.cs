@@ -0,0 +1,78 @@
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// ChecklistSignOffHelper - Helper for the read-only lock of signed-off checklists
+///
+/// Purpose:
+///   A signed-off checklist cannot be changed until a manager reopens it.
+///   Every service that changes a checklist or its items checks the lock here:
+///   ChecklistService (metadata), ChecklistItemService (items and notes) and
+///   ChecklistAttachmentService (attachments).
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Throws InvalidOperationException (controllers return 400)
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public static class ChecklistSignOffHelper
+{
+    private const string SignaturePrefix = "data:image/png;base64,";
+
+    /// <summary>
+    /// Message for changes rejected because the checklist is signed off
+    /// </summary>
+    public const string LockedMessage =
+        "This checklist has been signed off and is read-only. A manager must reopen it first.";
+
+    /// <summary>
+    /// Throws when the checklist is signed off
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the checklist is signed off</exception>
+    public static void EnsureNotSignedOff(ChecklistInstance checklist)
+    {
+        if (checklist.SignOffStatus == ChecklistSignOffStatus.SignedOff)
+        {
+            throw new InvalidOperationException(LockedMessage);
+        }
+    }
+
+    /// <summary>
+    /// Throws when the checklist is signed off (for callers that only loaded an item)
+    /// </summary>
+    /// <exception cref="InvalidOperationException">If the checklist is signed off</exception>
+    public static async Task EnsureNotSignedOffAsync(CobraDbContext context, Guid checklistId)
+    {
+        var signedOff = await context.ChecklistInstances
+            .AnyAsync(c => c.Id == checklistId && c.SignOffStatus == ChecklistSignOffStatus.SignedOff);
+
+        if (signedOff)
+        {
+            throw new InvalidOperationException(LockedMessage);
+        }
+    }
+
+    /// <summary>
+    /// Returns the trimmed signature, or null when none was drawn
+    /// </summary>
+    /// <exception cref="ArgumentException">If the signature is not a PNG data URL</exception>
+    public static string? NormalizeSignature(string? signature)
+    {
+        if (string.IsNullOrWhiteSpace(signature))
+        {
+            return null;
+        }
+
+        var trimmed = signature.Trim();
+        if (!trimmed.StartsWith(SignaturePrefix, StringComparison.Ordinal) ||
+            trimmed.Length == SignaturePrefix.Length)
+        {
+            throw new ArgumentException("Signature must be a PNG image");
+        }
+
+        return trimmed;
+    }
+}
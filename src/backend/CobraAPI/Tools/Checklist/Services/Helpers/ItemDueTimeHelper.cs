@@ -0,0 +1,119 @@
+using System.Text.Json;
+using CobraAPI.Core.Data;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// ItemDueTimeHelper - Helper for checklist item due times
+///
+/// Purpose:
+///   Turns a template item's due offset ("within 30 minutes", "2 hours into
+///   the period") into an absolute DueAt on the checklist item, and works out
+///   which positions to notify when an item goes overdue.
+///   Shared by ChecklistCreationHelper (create and clone) and ItemOverdueService.
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Offsets are copied onto checklist items, so copies can recalculate their
+///     due times even after the template has changed
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public static class ItemDueTimeHelper
+{
+    /// <summary>
+    /// Calculates when an item is due
+    /// PeriodStart offsets fall back to checklist creation when there is no period
+    /// </summary>
+    /// <param name="dueOffsetMinutes">Offset from the anchor (null = no due time)</param>
+    /// <param name="dueRelativeTo">What the offset is counted from</param>
+    /// <param name="checklistCreatedAt">When the checklist was created (UTC)</param>
+    /// <param name="periodStart">Start of the checklist's operational period (UTC), if any</param>
+    public static DateTime? CalculateDueAt(
+        int? dueOffsetMinutes,
+        ItemDueAnchor dueRelativeTo,
+        DateTime checklistCreatedAt,
+        DateTime? periodStart)
+    {
+        if (dueOffsetMinutes == null)
+        {
+            return null;
+        }
+
+        var anchor = dueRelativeTo == ItemDueAnchor.PeriodStart && periodStart.HasValue
+            ? periodStart.Value
+            : checklistCreatedAt;
+
+        return anchor.AddMinutes(dueOffsetMinutes.Value);
+    }
+
+    /// <summary>
+    /// Sets DueAt on every item of a new checklist and clears overdue notifications
+    /// Looks up the start of the checklist's operational period for PeriodStart offsets
+    /// </summary>
+    public static async Task ApplyDueTimesAsync(CobraDbContext context, ChecklistInstance checklist)
+    {
+        if (!checklist.Items.Any(i => i.DueOffsetMinutes.HasValue))
+        {
+            return;
+        }
+
+        DateTime? periodStart = null;
+        if (checklist.OperationalPeriodId.HasValue)
+        {
+            periodStart = await context.OperationalPeriods
+                .Where(p => p.Id == checklist.OperationalPeriodId.Value)
+                .Select(p => (DateTime?)p.StartTime)
+                .FirstOrDefaultAsync();
+        }
+
+        foreach (var item in checklist.Items)
+        {
+            item.DueAt = CalculateDueAt(item.DueOffsetMinutes, item.DueRelativeTo, checklist.CreatedAt, periodStart);
+            item.OverdueNotifiedAt = null;
+        }
+    }
+
+    /// <summary>
+    /// Positions responsible for an item: its allowed positions, otherwise the
+    /// checklist's assigned positions. Empty means everyone.
+    /// Accepts JSON arrays (template format) and comma-separated lists.
+    /// </summary>
+    public static List<string> GetResponsiblePositions(ChecklistItem item, ChecklistInstance checklist)
+    {
+        var itemPositions = ParsePositions(item.AllowedPositions);
+        return itemPositions.Count > 0 ? itemPositions : ParsePositions(checklist.AssignedPositions);
+    }
+
+    /// <summary>
+    /// Reads a position list stored as a JSON array or comma-separated string
+    /// </summary>
+    public static List<string> ParsePositions(string? positions)
+    {
+        if (string.IsNullOrWhiteSpace(positions))
+        {
+            return new List<string>();
+        }
+
+        if (positions.TrimStart().StartsWith('['))
+        {
+            try
+            {
+                return (JsonSerializer.Deserialize<List<string>>(positions) ?? new List<string>())
+                    .Where(p => !string.IsNullOrWhiteSpace(p))
+                    .Select(p => p.Trim())
+                    .ToList();
+            }
+            catch (JsonException)
+            {
+                return new List<string>();
+            }
+        }
+
+        return positions
+            .Split(',', StringSplitOptions.RemoveEmptyEntries | StringSplitOptions.TrimEntries)
+            .ToList();
+    }
+}
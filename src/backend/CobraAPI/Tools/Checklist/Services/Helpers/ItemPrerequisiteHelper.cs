@@ -0,0 +1,263 @@
+using System.Text.Json;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// ItemPrerequisiteHelper - Helper for sequential gating between checklist items
+///
+/// Purpose:
+///   Some procedures must be done in order ("Verify power isolated" before
+///   "Begin entry"). Template items name their prerequisites by display order;
+///   checklist items hold the IDs of the prerequisite items in the same checklist.
+///
+/// Rules:
+///   - A template prerequisite must be another item of the same template
+///   - Prerequisites cannot form a cycle (the items could never be completed)
+///   - A checklist item cannot be completed while any prerequisite is incomplete
+///   - Un-completing a prerequisite does not affect items already completed
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Called by TemplatesController (validation), ChecklistCreationHelper
+///     (create and clone) and ChecklistItemService (completion checks)
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public static class ItemPrerequisiteHelper
+{
+    /// <summary>
+    /// Reads a JSON array of display orders (invalid JSON = no prerequisites)
+    /// </summary>
+    public static List<int> ParseDisplayOrders(string? prerequisiteDisplayOrders)
+    {
+        if (string.IsNullOrWhiteSpace(prerequisiteDisplayOrders))
+        {
+            return new List<int>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<int>>(prerequisiteDisplayOrders) ?? new List<int>();
+        }
+        catch (JsonException)
+        {
+            return new List<int>();
+        }
+    }
+
+    /// <summary>
+    /// Reads a JSON array of checklist item IDs (invalid JSON = no prerequisites)
+    /// </summary>
+    public static List<Guid> ParseItemIds(string? prerequisiteItemIds)
+    {
+        if (string.IsNullOrWhiteSpace(prerequisiteItemIds))
+        {
+            return new List<Guid>();
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<List<Guid>>(prerequisiteItemIds) ?? new List<Guid>();
+        }
+        catch (JsonException)
+        {
+            return new List<Guid>();
+        }
+    }
+
+    /// <summary>
+    /// Checks the prerequisites of a template's items
+    /// </summary>
+    /// <returns>Error message, or null when the prerequisites are valid</returns>
+    public static string? ValidateTemplatePrerequisites(IReadOnlyList<CreateTemplateItemRequest> items)
+    {
+        var displayOrders = items.Select(i => i.DisplayOrder).ToHashSet();
+        var prerequisites = new Dictionary<int, List<int>>();
+
+        foreach (var item in items)
+        {
+            if (string.IsNullOrWhiteSpace(item.PrerequisiteDisplayOrders))
+            {
+                continue;
+            }
+
+            List<int>? orders;
+            try
+            {
+                orders = JsonSerializer.Deserialize<List<int>>(item.PrerequisiteDisplayOrders);
+            }
+            catch (JsonException)
+            {
+                return $"Prerequisites of \"{item.ItemText}\" must be a JSON array of display orders";
+            }
+
+            orders ??= new List<int>();
+            if (orders.Contains(item.DisplayOrder))
+            {
+                return $"\"{item.ItemText}\" cannot be its own prerequisite";
+            }
+            if (orders.Any(order => !displayOrders.Contains(order)))
+            {
+                return $"A prerequisite of \"{item.ItemText}\" is not an item in this template";
+            }
+
+            prerequisites[item.DisplayOrder] = orders;
+        }
+
+        var cycleItem = FindCycle(prerequisites);
+        if (cycleItem != null)
+        {
+            var itemText = items.First(i => i.DisplayOrder == cycleItem.Value).ItemText;
+            return $"Prerequisites of \"{itemText}\" form a loop, so the items could never be completed";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Sets PrerequisiteItemIds on the items of a checklist created from a template
+    /// </summary>
+    /// <param name="templateItems">Template items the checklist items were copied from</param>
+    /// <param name="checklistItems">Checklist items (TemplateItemId set)</param>
+    public static void ResolveFromTemplate(
+        IEnumerable<TemplateItem> templateItems,
+        IReadOnlyCollection<ChecklistItem> checklistItems)
+    {
+        var itemIdByDisplayOrder = checklistItems
+            .GroupBy(i => i.DisplayOrder)
+            .ToDictionary(g => g.Key, g => g.First().Id);
+
+        foreach (var templateItem in templateItems)
+        {
+            var orders = ParseDisplayOrders(templateItem.PrerequisiteDisplayOrders);
+            if (orders.Count == 0)
+            {
+                continue;
+            }
+
+            var item = checklistItems.First(i => i.TemplateItemId == templateItem.Id);
+            item.PrerequisiteItemIds = SerializeItemIds(orders
+                .Where(itemIdByDisplayOrder.ContainsKey)
+                .Select(order => itemIdByDisplayOrder[order]));
+        }
+    }
+
+    /// <summary>
+    /// Points copied prerequisites at the copies of the original items
+    /// Prerequisites that were not copied (already complete) are dropped
+    /// </summary>
+    /// <param name="copiedItems">Copied items (PrerequisiteItemIds still holds original IDs)</param>
+    /// <param name="newIdByOriginalId">Copy ID for each copied original item</param>
+    public static void RemapItemIds(
+        IEnumerable<ChecklistItem> copiedItems,
+        IReadOnlyDictionary<Guid, Guid> newIdByOriginalId)
+    {
+        foreach (var item in copiedItems)
+        {
+            var originalIds = ParseItemIds(item.PrerequisiteItemIds);
+            if (originalIds.Count == 0)
+            {
+                continue;
+            }
+
+            item.PrerequisiteItemIds = SerializeItemIds(originalIds
+                .Where(newIdByOriginalId.ContainsKey)
+                .Select(id => newIdByOriginalId[id]));
+        }
+    }
+
+    /// <summary>
+    /// Drops a removed item from the prerequisites of the other items
+    /// </summary>
+    /// <param name="checklistItems">Items of the checklist the item was removed from</param>
+    /// <param name="removedItemId">ID of the removed item</param>
+    public static void RemovePrerequisite(IEnumerable<ChecklistItem> checklistItems, Guid removedItemId)
+    {
+        foreach (var item in checklistItems)
+        {
+            var prerequisiteIds = ParseItemIds(item.PrerequisiteItemIds);
+            if (prerequisiteIds.Remove(removedItemId))
+            {
+                item.PrerequisiteItemIds = SerializeItemIds(prerequisiteIds);
+            }
+        }
+    }
+
+    /// <summary>
+    /// Prerequisites of an item that are not complete yet, in display order
+    /// </summary>
+    /// <param name="item">Item being completed</param>
+    /// <param name="checklistItems">All items of the same checklist</param>
+    public static List<ChecklistItem> GetIncompletePrerequisites(
+        ChecklistItem item,
+        IEnumerable<ChecklistItem> checklistItems)
+    {
+        var prerequisiteIds = ParseItemIds(item.PrerequisiteItemIds);
+        if (prerequisiteIds.Count == 0)
+        {
+            return new List<ChecklistItem>();
+        }
+
+        return checklistItems
+            .Where(i => prerequisiteIds.Contains(i.Id) && !ChecklistProgressHelper.IsItemComplete(i))
+            .OrderBy(i => i.DisplayOrder)
+            .ToList();
+    }
+
+    /// <summary>
+    /// Explains why an item is locked, e.g.
+    /// Complete "Verify power isolated" before "Begin entry"
+    /// </summary>
+    public static string DescribeBlocked(ChecklistItem item, IReadOnlyList<ChecklistItem> incompletePrerequisites)
+    {
+        var names = string.Join(", ", incompletePrerequisites.Select(i => $"\"{i.ItemText}\""));
+        return $"Complete {names} before \"{item.ItemText}\"";
+    }
+
+    private static string? SerializeItemIds(IEnumerable<Guid> ids)
+    {
+        var list = ids.Distinct().ToList();
+        return list.Count > 0 ? JsonSerializer.Serialize(list) : null;
+    }
+
+    /// <summary>
+    /// Depth-first search for a prerequisite loop
+    /// </summary>
+    /// <returns>Display order of an item on the loop, or null if there is none</returns>
+    private static int? FindCycle(IReadOnlyDictionary<int, List<int>> prerequisites)
+    {
+        var visiting = new HashSet<int>();
+        var done = new HashSet<int>();
+        int? loopItem = null;
+
+        bool Visit(int order)
+        {
+            if (done.Contains(order)) return false;
+            if (!visiting.Add(order))
+            {
+                loopItem = order;
+                return true;
+            }
+
+            if (prerequisites.TryGetValue(order, out var next) && next.Any(Visit))
+            {
+                return true;
+            }
+
+            visiting.Remove(order);
+            done.Add(order);
+            return false;
+        }
+
+        foreach (var order in prerequisites.Keys)
+        {
+            if (Visit(order))
+            {
+                return loopItem;
+            }
+        }
+
+        return null;
+    }
+}
@@ -0,0 +1,198 @@
+using System.Globalization;
+using System.Text.Json;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// ItemValueHelper - Helper for items that capture a typed value
+///
+/// Purpose:
+///   Items like "Record generator fuel level" or "Time shelter opened" capture
+///   a value instead of being ticked. The value is stored as text in
+///   ChecklistItem.Value and the item counts as complete once it is captured.
+///
+/// Item Types:
+///   - "number": Numeric reading, optional unit and min/max (ValueConfiguration)
+///   - "text": Short free text (up to 500 characters)
+///   - "datetime": Date and time, stored as ISO 8601 UTC
+///   - "yesno": "Yes", "No" or "N/A"
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Called by TemplatesController and ItemLibraryController (configuration
+///     validation) and ChecklistItemService (value validation)
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public static class ItemValueHelper
+{
+    public const string NumberType = "number";
+    public const string TextType = "text";
+    public const string DateTimeType = "datetime";
+    public const string YesNoType = "yesno";
+
+    /// <summary>
+    /// Longest value a "text" item accepts
+    /// </summary>
+    public const int MaxTextLength = 500;
+
+    /// <summary>
+    /// Accepted values of "yesno" items
+    /// </summary>
+    public static readonly IReadOnlyList<string> YesNoValues = new[] { "Yes", "No", "N/A" };
+
+    private static readonly HashSet<string> ValueTypes = new() { NumberType, TextType, DateTimeType, YesNoType };
+
+    private static readonly JsonSerializerOptions JsonOptions = new() { PropertyNameCaseInsensitive = true };
+
+    /// <summary>
+    /// Whether items of this type capture a value (rather than a checkbox or status)
+    /// </summary>
+    public static bool IsValueType(string itemType) => ValueTypes.Contains(itemType);
+
+    /// <summary>
+    /// Reads the unit and range of a number item (null or invalid JSON = none)
+    /// </summary>
+    public static ItemValueConfiguration? ParseConfiguration(string? valueConfiguration)
+    {
+        if (string.IsNullOrWhiteSpace(valueConfiguration))
+        {
+            return null;
+        }
+
+        try
+        {
+            return JsonSerializer.Deserialize<ItemValueConfiguration>(valueConfiguration, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+    }
+
+    /// <summary>
+    /// Checks the value configuration of an item being saved to a template or the library
+    /// </summary>
+    /// <returns>Error message, or null when the configuration is valid</returns>
+    public static string? ValidateConfiguration(string itemText, string itemType, string? valueConfiguration)
+    {
+        if (string.IsNullOrWhiteSpace(valueConfiguration))
+        {
+            return null;
+        }
+
+        if (itemType != NumberType)
+        {
+            return $"Only number items can have a unit and range (\"{itemText}\")";
+        }
+
+        ItemValueConfiguration? configuration;
+        try
+        {
+            configuration = JsonSerializer.Deserialize<ItemValueConfiguration>(valueConfiguration, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return $"The unit and range of \"{itemText}\" must be a JSON object";
+        }
+
+        if (configuration?.Min > configuration?.Max)
+        {
+            return $"The minimum of \"{itemText}\" cannot be greater than its maximum";
+        }
+
+        return null;
+    }
+
+    /// <summary>
+    /// Checks the value configuration of all items of a template
+    /// </summary>
+    /// <returns>Error message for the first invalid item, or null when all are valid</returns>
+    public static string? ValidateTemplateItems(IEnumerable<CreateTemplateItemRequest> items)
+    {
+        return items
+            .Select(item => ValidateConfiguration(item.ItemText, item.ItemType, item.ValueConfiguration))
+            .FirstOrDefault(error => error != null);
+    }
+
+    /// <summary>
+    /// Validates a captured value and returns it in its stored form
+    /// (invariant number, ISO 8601 UTC datetime, canonical Yes/No/N/A)
+    /// </summary>
+    /// <param name="item">Value item the value is captured for</param>
+    /// <param name="value">Value as entered (null or blank = clear the value)</param>
+    /// <returns>Value to store, or null to clear it</returns>
+    /// <exception cref="InvalidOperationException">If the value is not valid for the item</exception>
+    public static string? NormalizeValue(ChecklistItem item, string? value)
+    {
+        if (string.IsNullOrWhiteSpace(value))
+        {
+            return null;
+        }
+
+        var trimmed = value.Trim();
+
+        switch (item.ItemType)
+        {
+            case NumberType:
+                if (!decimal.TryParse(trimmed, NumberStyles.Number, CultureInfo.InvariantCulture, out var number))
+                {
+                    throw new InvalidOperationException($"\"{trimmed}\" is not a number");
+                }
+
+                var configuration = ParseConfiguration(item.ValueConfiguration);
+                if (configuration != null && (number < configuration.Min || number > configuration.Max))
+                {
+                    throw new InvalidOperationException($"Reading must be {DescribeRange(configuration)}");
+                }
+
+                return number.ToString(CultureInfo.InvariantCulture);
+
+            case TextType:
+                if (trimmed.Length > MaxTextLength)
+                {
+                    throw new InvalidOperationException($"Text cannot exceed {MaxTextLength} characters");
+                }
+
+                return trimmed;
+
+            case DateTimeType:
+                if (!DateTimeOffset.TryParse(
+                        trimmed,
+                        CultureInfo.InvariantCulture,
+                        DateTimeStyles.AssumeUniversal,
+                        out var timestamp))
+                {
+                    throw new InvalidOperationException($"\"{trimmed}\" is not a date and time");
+                }
+
+                return timestamp.UtcDateTime.ToString("yyyy-MM-ddTHH:mm:ssZ", CultureInfo.InvariantCulture);
+
+            case YesNoType:
+                return YesNoValues.FirstOrDefault(v => v.Equals(trimmed, StringComparison.OrdinalIgnoreCase))
+                    ?? throw new InvalidOperationException(
+                        $"Answer must be one of: {string.Join(", ", YesNoValues)}");
+
+            default:
+                throw new InvalidOperationException($"Items of type '{item.ItemType}' do not capture a value");
+        }
+    }
+
+    /// <summary>
+    /// Accepted range of a number item, e.g. "between 0 and 500 gal" or "at least 0 %"
+    /// </summary>
+    private static string DescribeRange(ItemValueConfiguration configuration)
+    {
+        var unit = string.IsNullOrWhiteSpace(configuration.Unit) ? string.Empty : $" {configuration.Unit}";
+        var min = configuration.Min?.ToString(CultureInfo.InvariantCulture);
+        var max = configuration.Max?.ToString(CultureInfo.InvariantCulture);
+
+        if (min != null && max != null)
+        {
+            return $"between {min} and {max}{unit}";
+        }
+
+        return min != null ? $"at least {min}{unit}" : $"at most {max}{unit}";
+    }
+}
@@ -0,0 +1,187 @@
+using System.Globalization;
+using System.Text.Json;
+using System.Text.Json.Serialization;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// A single scheduled occurrence of a recurring template
+/// </summary>
+/// <param name="Key">Stable identifier used to avoid creating the occurrence twice</param>
+/// <param name="ScheduledFor">When the occurrence became due (UTC)</param>
+/// <param name="Label">Appended to the template name for the checklist name</param>
+public record RecurrenceOccurrence(string Key, DateTime ScheduledFor, string Label);
+
+/// <summary>
+/// RecurrenceScheduleHelper - Parses recurrence configuration and works out
+/// which occurrence of a recurring template is currently due
+///
+/// Purpose:
+///   Keeps schedule math out of RecurringChecklistService so it can be
+///   tested without a database or clock.
+///
+/// Behavior:
+///   - Only the latest due occurrence is returned. Missed occurrences are not
+///     backfilled (a checklist for yesterday's shift isn't useful today).
+///   - OperationalPeriod: the event's current period is the occurrence
+///   - Interval: slots every N hours counted from StartAt
+///   - Daily: the most recent TimeOfDay in the configured time zone
+///   - Nothing is due after EndAt
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Called by RecurringChecklistService and TemplatesController (validation)
+/// </summary>
+public static class RecurrenceScheduleHelper
+{
+    public const int MaxIntervalHours = 168;
+
+    private static readonly JsonSerializerOptions JsonOptions = new()
+    {
+        PropertyNameCaseInsensitive = true,
+        Converters = { new JsonStringEnumConverter(JsonNamingPolicy.CamelCase) }
+    };
+
+    /// <summary>
+    /// Parses and validates a template's RecurrenceConfig JSON
+    /// </summary>
+    /// <returns>The configuration, or null if missing or invalid</returns>
+    public static RecurrenceConfig? Parse(string? json)
+    {
+        if (string.IsNullOrWhiteSpace(json))
+        {
+            return null;
+        }
+
+        RecurrenceConfig? config;
+        try
+        {
+            config = JsonSerializer.Deserialize<RecurrenceConfig>(json, JsonOptions);
+        }
+        catch (JsonException)
+        {
+            return null;
+        }
+
+        if (config == null || !Enum.IsDefined(config.Frequency))
+        {
+            return null;
+        }
+
+        if (config.StartAt.HasValue && config.EndAt.HasValue && config.EndAt <= config.StartAt)
+        {
+            return null;
+        }
+
+        return config.Frequency switch
+        {
+            RecurrenceFrequency.Interval when config.IntervalHours is not (>= 1 and <= MaxIntervalHours) => null,
+            RecurrenceFrequency.Daily when !TryParseTimeOfDay(config.TimeOfDay, out _) => null,
+            _ => config
+        };
+    }
+
+    /// <summary>
+    /// Returns the occurrence that is due at utcNow, if any
+    /// </summary>
+    /// <param name="config">Parsed configuration</param>
+    /// <param name="utcNow">Current time (UTC)</param>
+    /// <param name="currentPeriod">The event's current operational period, if any</param>
+    public static RecurrenceOccurrence? GetDueOccurrence(
+        RecurrenceConfig config,
+        DateTime utcNow,
+        OperationalPeriod? currentPeriod)
+    {
+        if (config.EndAt.HasValue && utcNow >= config.EndAt.Value)
+        {
+            return null;
+        }
+
+        return config.Frequency switch
+        {
+            RecurrenceFrequency.OperationalPeriod => currentPeriod == null
+                ? null
+                : new RecurrenceOccurrence($"period:{currentPeriod.Id}", currentPeriod.StartTime, currentPeriod.Name),
+            RecurrenceFrequency.Interval => GetIntervalOccurrence(config, utcNow),
+            RecurrenceFrequency.Daily => GetDailyOccurrence(config, utcNow),
+            _ => null
+        };
+    }
+
+    private static RecurrenceOccurrence? GetIntervalOccurrence(RecurrenceConfig config, DateTime utcNow)
+    {
+        var hours = config.IntervalHours ?? 0;
+        if (hours < 1)
+        {
+            return null;
+        }
+
+        var anchor = config.StartAt ?? DateTime.UnixEpoch;
+        if (utcNow < anchor)
+        {
+            return null;
+        }
+
+        var slotNumber = (long)Math.Floor((utcNow - anchor).TotalHours / hours);
+        var slot = DateTime.SpecifyKind(anchor.AddHours(slotNumber * hours), DateTimeKind.Utc);
+        var local = TimeZoneInfo.ConvertTimeFromUtc(slot, ResolveTimeZone(config.TimeZone));
+
+        return new RecurrenceOccurrence(
+            $"interval:{slot.ToString("yyyyMMdd'T'HHmm", CultureInfo.InvariantCulture)}Z",
+            slot,
+            local.ToString("yyyy-MM-dd HH:mm", CultureInfo.InvariantCulture));
+    }
+
+    private static RecurrenceOccurrence? GetDailyOccurrence(RecurrenceConfig config, DateTime utcNow)
+    {
+        if (!TryParseTimeOfDay(config.TimeOfDay, out var timeOfDay))
+        {
+            return null;
+        }
+
+        var timeZone = ResolveTimeZone(config.TimeZone);
+        var localNow = TimeZoneInfo.ConvertTimeFromUtc(DateTime.SpecifyKind(utcNow, DateTimeKind.Utc), timeZone);
+
+        var localSlot = localNow.Date + timeOfDay;
+        if (localSlot > localNow)
+        {
+            localSlot = localSlot.AddDays(-1);
+        }
+
+        // A time skipped by a daylight saving change runs an hour later that day
+        var slot = timeZone.IsInvalidTime(localSlot)
+            ? TimeZoneInfo.ConvertTimeToUtc(localSlot.AddHours(1), timeZone)
+            : TimeZoneInfo.ConvertTimeToUtc(localSlot, timeZone);
+
+        if (config.StartAt.HasValue && slot < config.StartAt.Value)
+        {
+            return null;
+        }
+
+        var date = localSlot.ToString("yyyy-MM-dd", CultureInfo.InvariantCulture);
+        return new RecurrenceOccurrence($"daily:{date}", slot, date);
+    }
+
+    private static bool TryParseTimeOfDay(string? value, out TimeSpan timeOfDay)
+    {
+        return TimeSpan.TryParseExact(value, @"hh\:mm", CultureInfo.InvariantCulture, out timeOfDay)
+            && timeOfDay < TimeSpan.FromDays(1);
+    }
+
+    private static TimeZoneInfo ResolveTimeZone(string? timeZoneId)
+    {
+        if (string.IsNullOrWhiteSpace(timeZoneId))
+        {
+            return TimeZoneInfo.Utc;
+        }
+
+        try
+        {
+            return TimeZoneInfo.FindSystemTimeZoneById(timeZoneId);
+        }
+        catch (Exception ex) when (ex is TimeZoneNotFoundException or InvalidTimeZoneException)
+        {
+            return TimeZoneInfo.Utc;
+        }
+    }
+}
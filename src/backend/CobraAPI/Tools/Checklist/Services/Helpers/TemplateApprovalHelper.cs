@@ -0,0 +1,76 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// TemplateApprovalHelper - Helper for template approval state changes
+///
+/// Purpose:
+///   Creates approval history entries and resets templates to Draft when
+///   their content changes.
+///   Shared by TemplateApprovalService (submit/approve/reject),
+///   TemplateService (edits) and TemplateVersionService (restores).
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Mutates the tracked template and returns history entities for the
+///     caller to add and save
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public static class TemplateApprovalHelper
+{
+    /// <summary>
+    /// Creates an approval history entry for the template's current version
+    /// </summary>
+    public static TemplateApprovalEvent CreateEvent(
+        Template template,
+        TemplateApprovalAction action,
+        string? comment,
+        UserContext userContext)
+    {
+        return new TemplateApprovalEvent
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            Action = action,
+            Comment = string.IsNullOrWhiteSpace(comment) ? null : comment.Trim(),
+            TemplateVersion = template.CurrentVersion,
+            PerformedBy = userContext.Email,
+            PerformedByPosition = userContext.Position,
+            PerformedAt = DateTime.UtcNow
+        };
+    }
+
+    /// <summary>
+    /// Moves a template back to Draft after its content changed
+    /// Pending and approved templates must be approved again, so a history
+    /// entry is returned for them. Drafts are left alone (returns null);
+    /// rejected templates become drafts silently since the rejection is
+    /// already recorded.
+    /// </summary>
+    public static TemplateApprovalEvent? ReturnToDraft(Template template, UserContext userContext)
+    {
+        var previousStatus = template.ApprovalStatus;
+        if (previousStatus == TemplateApprovalStatus.Draft)
+        {
+            return null;
+        }
+
+        template.ApprovalStatus = TemplateApprovalStatus.Draft;
+
+        if (previousStatus == TemplateApprovalStatus.Rejected)
+        {
+            return null;
+        }
+
+        return CreateEvent(
+            template,
+            TemplateApprovalAction.ReturnedToDraft,
+            previousStatus == TemplateApprovalStatus.Approved
+                ? "Edited after approval"
+                : "Edited while pending approval",
+            userContext);
+    }
+}
@@ -29,6 +29,14 @@ namespace CobraAPI.Tools.Checklist.Services.Helpers;
 /// </summary>
 public static class TemplateCreationHelper
 {
+    /// <summary>
+    /// Trims a section name; blank names mean "not in a section"
+    /// </summary>
+    public static string? NormalizeSectionName(string? sectionName)
+    {
+        return string.IsNullOrWhiteSpace(sectionName) ? null : sectionName.Trim();
+    }
+
     /// <summary>
     /// Creates a new template from a request
     /// Adds all requested items with proper ordering
@@ -76,7 +84,14 @@ public static class TemplateCreationHelper
                 ItemType = itemRequest.ItemType,
                 DisplayOrder = itemRequest.DisplayOrder,
                 StatusConfiguration = itemRequest.StatusConfiguration,
-                DefaultNotes = itemRequest.Notes,
+                ValueConfiguration = itemRequest.ValueConfiguration,
+                AllowedPositions = itemRequest.AllowedPositions,
+                DefaultNotes = itemRequest.DefaultNotes ?? itemRequest.Notes,
+                DueOffsetMinutes = itemRequest.DueOffsetMinutes,
+                DueRelativeTo = itemRequest.DueRelativeTo,
+                PrerequisiteDisplayOrders = itemRequest.PrerequisiteDisplayOrders,
+                SectionName = NormalizeSectionName(itemRequest.SectionName),
+                IsRequired = itemRequest.IsRequired,
                 CreatedAt = DateTime.UtcNow
             });
         }
@@ -148,7 +163,13 @@ public static class TemplateCreationHelper
                 ItemType = item.ItemType,
                 DisplayOrder = item.DisplayOrder,
                 StatusConfiguration = item.StatusConfiguration,
+                ValueConfiguration = item.ValueConfiguration,
+                AllowedPositions = item.AllowedPositions,
                 DefaultNotes = item.DefaultNotes,
+                DueOffsetMinutes = item.DueOffsetMinutes,
+                DueRelativeTo = item.DueRelativeTo,
+                PrerequisiteDisplayOrders = item.PrerequisiteDisplayOrders,
+                SectionName = item.SectionName,
                 IsRequired = item.IsRequired,
                 CreatedAt = DateTime.UtcNow
             });
@@ -0,0 +1,118 @@
+using System.Text.Json;
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services.Helpers;
+
+/// <summary>
+/// TemplateVersionHelper - Helper for template version snapshots
+///
+/// Purpose:
+///   Creates TemplateVersion records from templates and applies saved
+///   snapshots back onto templates (restore).
+///   Shared by TemplateService (record on save) and TemplateVersionService
+///   (history and restore).
+///
+/// Design Pattern:
+///   - Static methods (no state)
+///   - Snapshots are the TemplateDto serialized as JSON, so the history shows
+///     exactly what the API returned for that version
+///   - Returns entities (not DTOs) for services to save
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public static class TemplateVersionHelper
+{
+    private static readonly JsonSerializerOptions SnapshotOptions = new(JsonSerializerDefaults.Web);
+
+    /// <summary>
+    /// Creates a version record for the template's current state
+    /// Template must have its items loaded
+    /// </summary>
+    public static TemplateVersion CreateVersion(
+        Template template,
+        UserContext userContext,
+        int? restoredFromVersion = null)
+    {
+        return new TemplateVersion
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            VersionNumber = template.CurrentVersion,
+            Snapshot = JsonSerializer.Serialize(TemplateMapper.MapToDto(template), SnapshotOptions),
+            RestoredFromVersion = restoredFromVersion,
+            CreatedBy = userContext.Email,
+            CreatedByPosition = userContext.Position,
+            CreatedAt = DateTime.UtcNow
+        };
+    }
+
+    /// <summary>
+    /// Creates a version record for a template saved before versioning existed
+    /// Attributed to whoever last saved the template, not the current user
+    /// </summary>
+    public static TemplateVersion CreateBaselineVersion(Template template)
+    {
+        return new TemplateVersion
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            VersionNumber = template.CurrentVersion,
+            Snapshot = JsonSerializer.Serialize(TemplateMapper.MapToDto(template), SnapshotOptions),
+            CreatedBy = template.LastModifiedBy ?? template.CreatedBy,
+            CreatedByPosition = template.LastModifiedByPosition ?? template.CreatedByPosition,
+            CreatedAt = template.LastModifiedAt ?? template.CreatedAt
+        };
+    }
+
+    /// <summary>
+    /// Reads the template snapshot stored on a version
+    /// </summary>
+    public static TemplateDto? ReadSnapshot(TemplateVersion version)
+    {
+        return JsonSerializer.Deserialize<TemplateDto>(version.Snapshot, SnapshotOptions);
+    }
+
+    /// <summary>
+    /// Applies a snapshot's fields to a template and returns replacement items
+    /// Caller removes the existing items and adds the returned ones.
+    /// IsActive/IsArchived and usage metadata are left as they are now.
+    /// </summary>
+    public static List<TemplateItem> ApplySnapshot(
+        Template template,
+        TemplateDto snapshot,
+        UserContext userContext)
+    {
+        template.Name = snapshot.Name;
+        template.Description = snapshot.Description;
+        template.Category = snapshot.Category;
+        template.Tags = snapshot.Tags;
+        template.TemplateType = snapshot.TemplateType;
+        template.AutoCreateForCategories = snapshot.AutoCreateForCategories;
+        template.RecurrenceConfig = snapshot.RecurrenceConfig;
+        template.RecommendedPositions = snapshot.RecommendedPositions;
+        template.EventCategories = snapshot.EventCategories;
+        template.LastModifiedBy = userContext.Email;
+        template.LastModifiedByPosition = userContext.Position;
+        template.LastModifiedAt = DateTime.UtcNow;
+
+        return snapshot.Items.Select(item => new TemplateItem
+        {
+            Id = Guid.NewGuid(),
+            TemplateId = template.Id,
+            ItemText = item.ItemText,
+            ItemType = item.ItemType,
+            DisplayOrder = item.DisplayOrder,
+            IsRequired = item.IsRequired,
+            StatusConfiguration = item.StatusConfiguration,
+            ValueConfiguration = item.ValueConfiguration,
+            AllowedPositions = item.AllowedPositions,
+            DefaultNotes = item.DefaultNotes,
+            DueOffsetMinutes = item.DueOffsetMinutes,
+            DueRelativeTo = item.DueRelativeTo,
+            PrerequisiteDisplayOrders = item.PrerequisiteDisplayOrders,
+            SectionName = item.SectionName,
+            CreatedAt = DateTime.UtcNow
+        }).ToList();
+    }
+}
@@ -0,0 +1,37 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IAttachmentStorage - Storage for checklist item attachment files
+///
+/// Purpose:
+///   Keeps attachment files apart from their metadata (ChecklistItemAttachments
+///   table). Files are addressed by a storage key built by AttachmentHelper.
+///
+/// Implementations:
+///   - LocalDiskAttachmentStorage: files under AttachmentStorage:RootPath (POC stand-in for blob storage)
+///
+/// Dependency Injection:
+///   Registered as singleton in Program.cs:
+///   builder.Services.AddSingleton<IAttachmentStorage, LocalDiskAttachmentStorage>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public interface IAttachmentStorage
+{
+    /// <summary>
+    /// Store a file under the key, replacing any existing file
+    /// </summary>
+    Task SaveAsync(string storageKey, Stream content, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Open a stored file for reading
+    /// </summary>
+    /// <returns>File stream (caller disposes), or null if the file doesn't exist</returns>
+    Task<Stream?> OpenReadAsync(string storageKey, CancellationToken cancellationToken = default);
+
+    /// <summary>
+    /// Delete a stored file (no-op if it doesn't exist)
+    /// </summary>
+    Task DeleteAsync(string storageKey, CancellationToken cancellationToken = default);
+}
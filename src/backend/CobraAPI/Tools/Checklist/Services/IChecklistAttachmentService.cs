@@ -0,0 +1,79 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IChecklistAttachmentService - Interface for checklist item attachments
+///
+/// Purpose:
+///   Responders attach evidence (damage photos, signed forms) to checklist items.
+///   Handles upload, listing, download and deletion of item attachments.
+///
+/// Business Rules:
+///   - Size and type limits come from System Settings (see AttachmentHelper)
+///   - Uploading requires the item's AllowedPositions, like any item update
+///   - Attachments can be deleted by their uploader or by Manage users
+///   - ChecklistItem.AttachmentCount is kept in step, for counts on cards and rows
+///   - Uploads and deletions are broadcast as ItemAttachmentsChanged
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IChecklistAttachmentService, ChecklistAttachmentService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public interface IChecklistAttachmentService
+{
+    /// <summary>
+    /// Current upload limits (size and allowed types)
+    /// </summary>
+    Task<AttachmentLimitsDto> GetLimitsAsync();
+
+    /// <summary>
+    /// Attachments of an item, oldest first
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <returns>Attachments, or null if the item doesn't exist</returns>
+    Task<List<ItemAttachmentDto>?> GetAttachmentsAsync(Guid checklistId, Guid itemId);
+
+    /// <summary>
+    /// Attach a file to an item
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="fileName">Original file name</param>
+    /// <param name="contentType">MIME type of the file</param>
+    /// <param name="sizeBytes">File size</param>
+    /// <param name="content">File content</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>The new attachment, or null if the item doesn't exist</returns>
+    /// <exception cref="InvalidOperationException">File too large or type not allowed</exception>
+    /// <exception cref="UnauthorizedAccessException">Position not allowed to modify the item</exception>
+    Task<ItemAttachmentDto?> UploadAttachmentAsync(
+        Guid checklistId,
+        Guid itemId,
+        string fileName,
+        string contentType,
+        long sizeBytes,
+        Stream content,
+        UserContext userContext);
+
+    /// <summary>
+    /// Open an attachment's file for download
+    /// </summary>
+    /// <returns>File content (caller disposes the stream), or null if not found</returns>
+    Task<AttachmentContent?> GetAttachmentContentAsync(Guid checklistId, Guid itemId, Guid attachmentId);
+
+    /// <summary>
+    /// Delete an attachment and its file
+    /// </summary>
+    /// <returns>True if deleted, false if not found</returns>
+    /// <exception cref="UnauthorizedAccessException">User is neither the uploader nor a Manage user</exception>
+    Task<bool> DeleteAttachmentAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid attachmentId,
+        UserContext userContext);
+}
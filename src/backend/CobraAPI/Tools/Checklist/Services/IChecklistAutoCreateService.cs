@@ -0,0 +1,49 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IChecklistAutoCreateService - Interface for generating checklists from AutoCreate templates
+///
+/// Purpose:
+///   When an event is created, the AutoCreate templates whose incident types
+///   match the event's primary or additional categories are instantiated.
+///   The create-event dialog previews them first so the user can opt out.
+///
+/// Business Rules:
+///   - Only active, non-archived, approved AutoCreate templates are used
+///   - Categories match on code, name or part of a "/"-separated name
+///     (see AutoCreateMatchHelper)
+///   - One checklist per template, named after the template and assigned to its
+///     recommended positions (no recommended positions = visible to all)
+///   - Checklists go into the event's current operational period, if any
+///   - A template is auto-created at most once per event
+///   - Each checklist is broadcast as ChecklistCreated
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IChecklistAutoCreateService, ChecklistAutoCreateService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public interface IChecklistAutoCreateService
+{
+    /// <summary>
+    /// Checklists that would be generated for an event with the given categories
+    /// </summary>
+    /// <param name="categoryIds">Event's primary and additional category IDs</param>
+    /// <returns>Matching AutoCreate templates, by name</returns>
+    Task<List<AutoCreateChecklistPreviewDto>> GetPreviewAsync(List<Guid> categoryIds);
+
+    /// <summary>
+    /// Generate checklists for an event from the selected AutoCreate templates
+    /// </summary>
+    /// <param name="request">Event and the templates kept in the preview</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Created checklists and skipped templates with reasons</returns>
+    /// <exception cref="KeyNotFoundException">Event not found or archived</exception>
+    Task<AutoCreateResultDto> AutoCreateAsync(
+        AutoCreateChecklistsRequest request,
+        UserContext userContext);
+}
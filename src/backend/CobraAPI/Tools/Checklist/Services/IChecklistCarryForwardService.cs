@@ -0,0 +1,41 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IChecklistCarryForwardService - Interface for rolling checklists into another operational period
+///
+/// Purpose:
+///   At a period transition, planning copies the previous period's checklists
+///   into the next one. This does it for a set of checklists in one call.
+///
+/// Business Rules:
+///   - Target period must exist and not be archived
+///   - Only active checklists of the target period's event are copied
+///   - Checklists already in the target period are skipped
+///   - A copy is skipped if the target period already has an active checklist
+///     with the same name (so running it twice doesn't duplicate)
+///   - With OnlyIncompleteItems, fully complete checklists are skipped
+///   - The source period name in a checklist name becomes the target period name
+///   - Each copy is broadcast as ChecklistCreated
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IChecklistCarryForwardService, ChecklistCarryForwardService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public interface IChecklistCarryForwardService
+{
+    /// <summary>
+    /// Copy checklists into the target operational period
+    /// </summary>
+    /// <param name="request">Checklists, target period and copy options</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Created checklists and skipped checklists with reasons</returns>
+    /// <exception cref="KeyNotFoundException">Target period not found or archived</exception>
+    Task<CarryForwardResultDto> CarryForwardAsync(
+        CarryForwardChecklistsRequest request,
+        UserContext userContext);
+}
@@ -16,9 +16,13 @@ namespace CobraAPI.Tools.Checklist.Services;
 /// Key Business Logic:
 ///   - Item Completion: Mark checkbox items complete/incomplete
 ///   - Status Updates: Update status-type items
-///   - Notes Management: Add/update item notes
+///   - Value Capture: Record number, text, date/time and yes/no values
+///   - Bulk Updates: Complete, uncomplete or set the status of many items at once
+///   - Notes: Append-only note thread per item (authors edit/delete their own)
+///   - History: Every completion toggle, status/value change and note is recorded
 ///   - Progress Tracking: Auto-trigger checklist progress recalculation
 ///   - Position Permissions: Validate AllowedPositions before updates
+///   - Live Editing: Add, remove (soft delete) and reorder items of an existing checklist
 ///
 /// Dependency Injection:
 ///   Registered as scoped service in Program.cs:
@@ -31,7 +35,7 @@ namespace CobraAPI.Tools.Checklist.Services;
 ///   - All async for database operations
 ///
 /// Author: Checklist POC Team
-/// Last Modified: 2025-11-20
+/// Last Modified: 2026-10-19
 /// </summary>
 public interface IChecklistItemService
 {
@@ -81,19 +85,147 @@ public interface IChecklistItemService
         UserContext userContext);
 
     /// <summary>
-    /// Update notes on any checklist item
-    /// Works for both checkbox and status items
-    /// Does NOT trigger progress recalculation
+    /// Capture the value of a number, text, datetime or yesno item
+    /// Validates the value (number range, yes/no answers) and stores it normalized
+    /// Capturing a value completes the item; clearing it marks the item incomplete
+    /// Triggers progress recalculation for the parent checklist
     /// </summary>
     /// <param name="checklistId">Checklist GUID</param>
     /// <param name="itemId">Item GUID</param>
-    /// <param name="request">Notes data</param>
+    /// <param name="request">Value data (Value, optional Notes)</param>
     /// <param name="userContext">Current user context for audit trail</param>
     /// <returns>Updated item, or null if not found</returns>
+    /// <exception cref="InvalidOperationException">If item is not a value type or value invalid</exception>
+    /// <exception cref="UnauthorizedAccessException">If user position not allowed</exception>
+    Task<ChecklistItemDto?> UpdateItemValueAsync(
+        Guid checklistId,
+        Guid itemId,
+        UpdateItemValueRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Mark many items complete/incomplete or set their status in one call
+    /// Each item is validated like a single update; items that fail are skipped
+    /// and reported, the rest are saved together
+    /// Triggers progress recalculation and broadcasts ChecklistUpdated ("items_bulk_updated")
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Selected item IDs, action and target status</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Updated and rejected items, or null if the checklist is not found</returns>
+    /// <exception cref="InvalidOperationException">If the checklist is archived or change_status has no target status</exception>
+    Task<BulkUpdateItemsResultDto?> BulkUpdateItemsAsync(
+        Guid checklistId,
+        BulkUpdateItemsRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Get an item's note thread, oldest first
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <returns>Notes, or null if the item is not found</returns>
+    Task<List<ItemNoteDto>?> GetNotesAsync(Guid checklistId, Guid itemId);
+
+    /// <summary>
+    /// Add a note to any checklist item's thread
+    /// Broadcasts ItemNoteAdded with the single note
+    /// Does NOT trigger progress recalculation
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="request">Note text</param>
+    /// <param name="userContext">Current user context (note author)</param>
+    /// <returns>Created note, or null if the item is not found</returns>
     /// <exception cref="UnauthorizedAccessException">If user position not allowed</exception>
-    Task<ChecklistItemDto?> UpdateItemNotesAsync(
+    Task<ItemNoteDto?> AddNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        AddItemNoteRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Edit a note (author only); the note is marked as edited
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="noteId">Note GUID</param>
+    /// <param name="request">New note text</param>
+    /// <param name="userContext">Current user context</param>
+    /// <returns>Updated note, or null if not found</returns>
+    /// <exception cref="UnauthorizedAccessException">If the user did not write the note</exception>
+    Task<ItemNoteDto?> UpdateNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid noteId,
+        UpdateItemNoteRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Delete a note (author only)
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="noteId">Note GUID</param>
+    /// <param name="userContext">Current user context</param>
+    /// <returns>True if deleted, false if not found</returns>
+    /// <exception cref="UnauthorizedAccessException">If the user did not write the note</exception>
+    Task<bool> DeleteNoteAsync(
+        Guid checklistId,
+        Guid itemId,
+        Guid noteId,
+        UserContext userContext);
+
+    /// <summary>
+    /// Get an item's change history, oldest first
+    /// (completion toggles, status and value changes, notes)
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <returns>History entries, or null if the item is not found</returns>
+    Task<List<ItemStatusHistoryDto>?> GetItemHistoryAsync(Guid checklistId, Guid itemId);
+
+    /// <summary>
+    /// Add an item to a live checklist (not from its template)
+    /// Placed after InsertAfterItemId or at the end; display orders are renumbered
+    /// Triggers progress recalculation and broadcasts ChecklistUpdated ("item_added")
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Item data and position</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Created item, or null if the checklist is not found</returns>
+    /// <exception cref="InvalidOperationException">If the checklist is archived or the item is invalid</exception>
+    Task<ChecklistItemDto?> AddItemAsync(
+        Guid checklistId,
+        AddChecklistItemRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Remove an item from a live checklist (soft delete; its history is kept)
+    /// Other items no longer wait on it as a prerequisite
+    /// Triggers progress recalculation and broadcasts ChecklistUpdated ("item_removed")
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="itemId">Item GUID</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>True if removed, false if not found</returns>
+    /// <exception cref="InvalidOperationException">If the checklist is archived</exception>
+    Task<bool> RemoveItemAsync(
         Guid checklistId,
         Guid itemId,
-        UpdateItemNotesRequest request,
+        UserContext userContext);
+
+    /// <summary>
+    /// Reorder all items of a live checklist
+    /// Broadcasts ChecklistUpdated ("items_reordered")
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="request">Every item ID, in the new order</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Items in their new order, or null if the checklist is not found</returns>
+    /// <exception cref="InvalidOperationException">If the checklist is archived or the IDs don't match its items</exception>
+    Task<List<ChecklistItemDto>?> ReorderItemsAsync(
+        Guid checklistId,
+        ReorderItemsRequest request,
         UserContext userContext);
 }
@@ -0,0 +1,74 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IChecklistPresenceTracker - Interface for live checklist presence
+///
+/// Purpose:
+///   Keeps track of who is viewing each checklist (per SignalR connection)
+///   and which item's notes they have open. Used by ChecklistHub to answer
+///   presence requests and broadcast PresenceChanged.
+///
+/// Business Rules:
+///   - One entry per connection per checklist (a user with two tabs open
+///     has two entries; clients show them once)
+///   - Clients send a heartbeat; entries not seen within the timeout are
+///     dropped, covering connections that vanish without a disconnect
+///   - A disconnect removes the connection from every checklist
+///
+/// Dependency Injection:
+///   Registered as singleton in Program.cs (state is in memory and shared
+///   by all hub instances):
+///   builder.Services.AddSingleton<IChecklistPresenceTracker, ChecklistPresenceTracker>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public interface IChecklistPresenceTracker
+{
+    /// <summary>
+    /// Add (or refresh) a viewer of a checklist
+    /// </summary>
+    /// <returns>Current viewers of the checklist</returns>
+    List<ChecklistViewerDto> Join(
+        string checklistId,
+        string connectionId,
+        string email,
+        string fullName,
+        string position,
+        DateTime utcNow);
+
+    /// <summary>
+    /// Remove a viewer from a checklist
+    /// </summary>
+    /// <returns>True if the connection was viewing the checklist</returns>
+    bool Leave(string checklistId, string connectionId);
+
+    /// <summary>
+    /// Record that a viewer is still there
+    /// </summary>
+    /// <returns>False if the connection is not viewing the checklist (it should join again)</returns>
+    bool Heartbeat(string checklistId, string connectionId, DateTime utcNow);
+
+    /// <summary>
+    /// Record which item's notes the viewer has open (null when closed)
+    /// </summary>
+    /// <returns>False if the connection is not viewing the checklist</returns>
+    bool SetNotesItem(string checklistId, string connectionId, string? itemId);
+
+    /// <summary>
+    /// Remove a connection from every checklist (on disconnect)
+    /// </summary>
+    /// <returns>Checklists whose viewers changed</returns>
+    List<string> RemoveConnection(string connectionId);
+
+    /// <summary>
+    /// Drop viewers not seen since the cutoff
+    /// </summary>
+    /// <returns>Checklists whose viewers changed</returns>
+    List<string> RemoveStale(DateTime cutoff);
+
+    /// <summary>
+    /// Current viewers of a checklist, earliest first
+    /// </summary>
+    List<ChecklistViewerDto> GetViewers(string checklistId);
+}
@@ -1,4 +1,5 @@
 using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
 
 namespace CobraAPI.Tools.Checklist.Services;
 
@@ -42,10 +43,12 @@ public interface IChecklistService
     /// </summary>
     /// <param name="userContext">Current user context (position used for filtering)</param>
     /// <param name="includeArchived">If true, includes archived checklists (default: false)</param>
+    /// <param name="changedSince">Only checklists created or changed after this time (UTC), for reconnect catch-up; checklists archived since then are included</param>
     /// <returns>List of checklists visible to this user's position</returns>
     Task<List<ChecklistInstanceDto>> GetMyChecklistsAsync(
         UserContext userContext,
-        bool includeArchived = false);
+        bool includeArchived = false,
+        DateTime? changedSince = null);
 
     /// <summary>
     /// Get a single checklist by ID with all its items
@@ -63,12 +66,14 @@ public interface IChecklistService
     /// <param name="userContext">Current user context (position and email used for filtering)</param>
     /// <param name="includeArchived">If true, includes archived checklists (default: false)</param>
     /// <param name="showAll">If true and user has Manage role, bypasses position filtering (default: null - uses role-based default)</param>
+    /// <param name="changedSince">Only checklists created or changed after this time (UTC), for reconnect catch-up; checklists archived since then are included</param>
     /// <returns>List of checklists for this event visible to the user</returns>
     Task<List<ChecklistInstanceDto>> GetChecklistsByEventAsync(
         Guid eventId,
         UserContext userContext,
         bool includeArchived = false,
-        bool? showAll = null);
+        bool? showAll = null,
+        DateTime? changedSince = null);
 
     /// <summary>
     /// Get all checklists for a specific operational period
@@ -97,20 +102,55 @@ public interface IChecklistService
         CreateFromTemplateRequest request,
         UserContext userContext);
 
+    /// <summary>
+    /// Create one checklist from several templates
+    /// Each template's items become a block (in request order), excluded items are skipped
+    /// Tracks usage for every source template
+    /// </summary>
+    /// <param name="request">Templates, excluded items and event data</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Newly created checklist with all items</returns>
+    /// <exception cref="InvalidOperationException">If a template is not available or no items remain</exception>
+    Task<ChecklistInstanceDto> CreateCombinedAsync(
+        CreateCombinedChecklistRequest request,
+        UserContext userContext);
+
     /// <summary>
     /// Update checklist metadata (name, event, operational period, positions)
     /// Does NOT update items (use item-specific endpoints)
     /// Automatically sets LastModifiedBy/LastModifiedByPosition
+    /// Records renames, position and period changes in the checklist history
     /// </summary>
     /// <param name="id">Checklist ID to update</param>
     /// <param name="request">Updated checklist metadata</param>
     /// <param name="userContext">Current user context for audit trail</param>
     /// <returns>Updated checklist, or null if not found</returns>
+    /// <exception cref="InvalidOperationException">If the checklist is signed off</exception>
     Task<ChecklistInstanceDto?> UpdateChecklistAsync(
         Guid id,
         UpdateChecklistRequest request,
         UserContext userContext);
 
+    /// <summary>
+    /// Get the checklist's activity feed: item history and checklist metadata
+    /// changes merged, newest first
+    /// Used by the activity panel on the Checklist Detail page
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="since">Only return changes made after this time (UTC), for live refresh</param>
+    /// <returns>Activity entries, or null if the checklist is not found</returns>
+    Task<List<ChecklistActivityDto>?> GetChecklistActivityAsync(Guid id, DateTime? since = null);
+
+    /// <summary>
+    /// Get what changed on a checklist since a time: current metadata and
+    /// progress plus every item changed since then
+    /// Used by the Checklist Detail page to catch up after a real-time reconnect
+    /// </summary>
+    /// <param name="id">Checklist GUID</param>
+    /// <param name="since">Time (UTC) of the last real-time message the client saw</param>
+    /// <returns>Changes, or null if the checklist is not found</returns>
+    Task<ChecklistChangesDto?> GetChecklistChangesAsync(Guid id, DateTime since);
+
     /// <summary>
     /// Soft delete a checklist (set IsArchived = true)
     /// Archived checklists are hidden from all lists
@@ -176,11 +216,13 @@ public interface IChecklistService
     /// <param name="preserveStatus">If true, preserves completion status and notes; if false, resets to fresh checklist</param>
     /// <param name="userContext">Current user context for audit trail</param>
     /// <param name="assignedPositions">Optional comma-separated positions; if null, inherits from original</param>
+    /// <param name="options">Optional target operational period, item filtering and notes handling</param>
     /// <returns>Newly created cloned checklist</returns>
     Task<ChecklistInstanceDto?> CloneChecklistAsync(
         Guid id,
         string newName,
         bool preserveStatus,
         UserContext userContext,
-        string? assignedPositions = null);
+        string? assignedPositions = null,
+        ChecklistCloneOptions? options = null);
 }
@@ -0,0 +1,62 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IChecklistSignOffService - Interface for the checklist sign-off workflow
+///
+/// Purpose:
+///   Moves checklists through Open → PendingSignOff → SignedOff and back to
+///   Open when a manager reopens them. Signed-off checklists are read-only
+///   (ChecklistSignOffHelper).
+///
+/// Business Rules:
+///   - Open checklists can be submitted once every required item is done
+///   - Only PendingSignOff checklists can be signed off, and only while
+///     every required item is still done
+///   - Supervisors cannot sign off a checklist they submitted
+///   - Reopening requires a reason; every step is recorded in the checklist history
+///   - Archived checklists cannot be submitted or signed off
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IChecklistSignOffService, ChecklistSignOffService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public interface IChecklistSignOffService
+{
+    /// <summary>
+    /// Submit an open checklist for supervisor sign-off
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Updated checklist, or null if not found</returns>
+    /// <exception cref="InvalidOperationException">Checklist is not open, is archived, or has required items left</exception>
+    Task<ChecklistInstanceDto?> SubmitForSignOffAsync(Guid checklistId, UserContext userContext);
+
+    /// <summary>
+    /// Sign off a submitted checklist, recording the supervisor's name, position,
+    /// time and optional drawn signature. The checklist becomes read-only.
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="signature">Drawn signature as a PNG data URL (optional)</param>
+    /// <param name="userContext">Current user context (supervisor)</param>
+    /// <returns>Updated checklist, or null if not found</returns>
+    /// <exception cref="ArgumentException">Signature is not a PNG data URL</exception>
+    /// <exception cref="InvalidOperationException">Checklist is not pending sign-off, is archived, or has required items left</exception>
+    /// <exception cref="UnauthorizedAccessException">Supervisor submitted the checklist</exception>
+    Task<ChecklistInstanceDto?> SignOffAsync(Guid checklistId, string? signature, UserContext userContext);
+
+    /// <summary>
+    /// Reopen a submitted or signed-off checklist so it can be changed again
+    /// </summary>
+    /// <param name="checklistId">Checklist GUID</param>
+    /// <param name="reason">Why it is reopened (required, recorded in the history)</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Updated checklist, or null if not found</returns>
+    /// <exception cref="ArgumentException">Reason is missing</exception>
+    /// <exception cref="InvalidOperationException">Checklist is already open</exception>
+    Task<ChecklistInstanceDto?> ReopenAsync(Guid checklistId, string reason, UserContext userContext);
+}
@@ -0,0 +1,33 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IItemOverdueService - Interface for overdue item notifications
+///
+/// Purpose:
+///   Finds checklist items that have passed their due time without being
+///   completed and notifies the positions responsible for them.
+///   Called every minute by ItemOverdueMonitor.
+///
+/// Business Rules:
+///   - Only incomplete items on non-archived checklists are notified
+///   - Each item is notified once (ChecklistItem.OverdueNotifiedAt)
+///   - Notifications are broadcast as ItemOverdue with the responsible
+///     positions: the item's allowed positions, otherwise the checklist's
+///     assigned positions (null = everyone)
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IItemOverdueService, ItemOverdueService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public interface IItemOverdueService
+{
+    /// <summary>
+    /// Notify all items that became overdue at or before the given time
+    /// </summary>
+    /// <param name="utcNow">Current time (UTC)</param>
+    /// <returns>Number of items notified by this run</returns>
+    Task<int> NotifyOverdueItemsAsync(DateTime utcNow);
+}
@@ -0,0 +1,33 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// IRecurringChecklistService - Interface for recurring template scheduling
+///
+/// Purpose:
+///   Creates checklists from Recurring templates for every open event when
+///   an occurrence (operational period, interval slot or day) becomes due.
+///   Called every minute by RecurringChecklistScheduler.
+///
+/// Business Rules:
+///   - Only active, approved Recurring templates with a valid schedule run
+///   - Only active, non-archived events receive checklists
+///   - Each occurrence is created at most once per template and event
+///   - Created checklists get the event's current operational period and the
+///     schedule's assigned positions, and are broadcast as ChecklistCreated
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<IRecurringChecklistService, RecurringChecklistService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public interface IRecurringChecklistService
+{
+    /// <summary>
+    /// Create checklists for all recurring occurrences due at the given time
+    /// </summary>
+    /// <param name="utcNow">Current time (UTC)</param>
+    /// <returns>Checklists created by this run</returns>
+    Task<List<ChecklistInstanceDto>> CreateDueChecklistsAsync(DateTime utcNow);
+}
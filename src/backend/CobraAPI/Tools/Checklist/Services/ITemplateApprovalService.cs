@@ -0,0 +1,83 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ITemplateApprovalService - Interface for the template approval workflow
+///
+/// Purpose:
+///   Moves templates through Draft → PendingApproval → Approved/Rejected
+///   and exposes the approver queue and approval history.
+///   Only Approved templates can be used to create checklists.
+///
+/// Business Rules:
+///   - Draft and Rejected templates can be submitted
+///   - Only PendingApproval templates can be approved or rejected
+///   - Approvers cannot approve or reject their own submission
+///   - Rejections require a comment
+///   - Editing or restoring a template sends it back to Draft (TemplateService)
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<ITemplateApprovalService, TemplateApprovalService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public interface ITemplateApprovalService
+{
+    /// <summary>
+    /// Get templates waiting for approval, oldest submission first
+    /// </summary>
+    /// <returns>Templates in PendingApproval state</returns>
+    Task<List<TemplateDto>> GetPendingTemplatesAsync();
+
+    /// <summary>
+    /// Submit a Draft or Rejected template for approval
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="comment">Optional note to the approver</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Updated template, or null if not found</returns>
+    /// <exception cref="InvalidOperationException">Template is not Draft or Rejected</exception>
+    Task<TemplateDto?> SubmitForApprovalAsync(
+        Guid templateId,
+        string? comment,
+        UserContext userContext);
+
+    /// <summary>
+    /// Approve a pending template, making it available in the template picker
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="comment">Optional approval comment</param>
+    /// <param name="userContext">Current user context (approver)</param>
+    /// <returns>Updated template, or null if not found</returns>
+    /// <exception cref="InvalidOperationException">Template is not pending approval</exception>
+    /// <exception cref="UnauthorizedAccessException">Approver submitted the template</exception>
+    Task<TemplateDto?> ApproveAsync(
+        Guid templateId,
+        string? comment,
+        UserContext userContext);
+
+    /// <summary>
+    /// Reject a pending template with a comment for the author
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="comment">Reason for rejection (required)</param>
+    /// <param name="userContext">Current user context (approver)</param>
+    /// <returns>Updated template, or null if not found</returns>
+    /// <exception cref="ArgumentException">Comment is missing</exception>
+    /// <exception cref="InvalidOperationException">Template is not pending approval</exception>
+    /// <exception cref="UnauthorizedAccessException">Approver submitted the template</exception>
+    Task<TemplateDto?> RejectAsync(
+        Guid templateId,
+        string comment,
+        UserContext userContext);
+
+    /// <summary>
+    /// Get approval history for a template, newest first
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <returns>History entries, or null if the template does not exist</returns>
+    Task<List<TemplateApprovalEventDto>?> GetApprovalHistoryAsync(Guid templateId);
+}
@@ -0,0 +1,50 @@
+using CobraAPI.Core.Models;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ITemplateVersionService - Interface for template version history
+///
+/// Purpose:
+///   Lists and retrieves saved template versions and restores an older
+///   version as a new one. Versions themselves are recorded by
+///   TemplateService whenever a template is saved.
+///
+/// Dependency Injection:
+///   Registered as scoped service in Program.cs:
+///   builder.Services.AddScoped<ITemplateVersionService, TemplateVersionService>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public interface ITemplateVersionService
+{
+    /// <summary>
+    /// Get version history for a template, newest first (without snapshots)
+    /// Templates saved before versioning get their current state recorded as a baseline
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <returns>Versions, or null if the template does not exist</returns>
+    Task<List<TemplateVersionDto>?> GetVersionsAsync(Guid templateId);
+
+    /// <summary>
+    /// Get a single version including the full template snapshot
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="versionNumber">Version number</param>
+    /// <returns>Version with snapshot, or null if not found</returns>
+    Task<TemplateVersionDto?> GetVersionAsync(Guid templateId, int versionNumber);
+
+    /// <summary>
+    /// Restore a previous version by saving its snapshot as a new version
+    /// History is never rewritten - the restored content becomes the latest version
+    /// </summary>
+    /// <param name="templateId">Template GUID</param>
+    /// <param name="versionNumber">Version number to restore</param>
+    /// <param name="userContext">Current user context for audit trail</param>
+    /// <returns>Updated template, or null if template or version not found</returns>
+    Task<TemplateDto?> RestoreVersionAsync(
+        Guid templateId,
+        int versionNumber,
+        UserContext userContext);
+}
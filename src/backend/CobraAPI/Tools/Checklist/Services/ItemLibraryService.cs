@@ -105,6 +105,7 @@ public class ItemLibraryService : IItemLibraryService
             ItemType = request.ItemType,
             Category = request.Category.Trim(),
             StatusConfiguration = request.StatusConfiguration,
+            ValueConfiguration = request.ValueConfiguration,
             AllowedPositions = request.AllowedPositions,
             DefaultNotes = request.DefaultNotes,
             Tags = request.Tags != null && request.Tags.Length > 0
@@ -144,6 +145,7 @@ public class ItemLibraryService : IItemLibraryService
         item.ItemType = request.ItemType;
         item.Category = request.Category.Trim();
         item.StatusConfiguration = request.StatusConfiguration;
+        item.ValueConfiguration = request.ValueConfiguration;
         item.AllowedPositions = request.AllowedPositions;
         item.DefaultNotes = request.DefaultNotes;
         item.Tags = request.Tags != null && request.Tags.Length > 0
@@ -271,7 +273,8 @@ public class ItemLibraryService : IItemLibraryService
             item.CreatedBy,
             item.CreatedAt,
             item.LastModifiedBy,
-            item.LastModifiedAt
+            item.LastModifiedAt,
+            item.ValueConfiguration
         );
     }
 }
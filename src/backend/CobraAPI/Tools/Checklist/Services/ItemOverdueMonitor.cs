@@ -0,0 +1,56 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ItemOverdueMonitor - Background service that announces overdue items
+///
+/// Purpose:
+///   Calls IItemOverdueService once a minute so positions hear about an item
+///   shortly after it passes its due time.
+///
+/// Design Decisions:
+///   - Hosted services are singletons, so each run gets its own DI scope
+///     (CobraDbContext and the service are scoped)
+///   - Errors are logged and the next run tries again; the monitor never stops
+///
+/// Registration (Program.cs):
+///   builder.Services.AddHostedService<ItemOverdueMonitor>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class ItemOverdueMonitor : BackgroundService
+{
+    private static readonly TimeSpan RunInterval = TimeSpan.FromMinutes(1);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<ItemOverdueMonitor> _logger;
+
+    public ItemOverdueMonitor(
+        IServiceScopeFactory scopeFactory,
+        ILogger<ItemOverdueMonitor> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Item overdue monitor started (every {Interval})", RunInterval);
+
+        using var timer = new PeriodicTimer(RunInterval);
+        do
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var service = scope.ServiceProvider.GetRequiredService<IItemOverdueService>();
+                await service.NotifyOverdueItemsAsync(DateTime.UtcNow);
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Overdue item check failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
@@ -0,0 +1,115 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// ItemOverdueService - Implementation of overdue item notifications
+///
+/// Purpose:
+///   Marks items that crossed their due time as notified and broadcasts
+///   ItemOverdue so the responsible positions see it right away.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - IHubContext: ItemOverdue broadcast
+///   - ChecklistProgressHelper: Completion rules for status items
+///   - ItemDueTimeHelper: Responsible positions
+///
+/// Design Decisions:
+///   - Items are marked before broadcasting, so a failed broadcast is not
+///     retried every minute (clients still see the overdue styling on refresh)
+///   - Broadcast to all clients, like ChecklistCreated; clients filter by position
+///   - Signed-off checklists are locked, so their open items are not reported
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class ItemOverdueService : IItemOverdueService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<ItemOverdueService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+
+    public ItemOverdueService(
+        CobraDbContext context,
+        ILogger<ItemOverdueService> logger,
+        IHubContext<ChecklistHub> hubContext)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+    }
+
+    public async Task<int> NotifyOverdueItemsAsync(DateTime utcNow)
+    {
+        // Completed checkboxes are excluded in the query; status completion needs
+        // the item's status configuration, so it is checked after loading
+        var candidates = await _context.ChecklistItems
+            .Include(i => i.ChecklistInstance)
+            .Where(i => i.DueAt != null
+                && i.DueAt <= utcNow
+                && i.OverdueNotifiedAt == null
+                && i.IsCompleted != true
+                && !i.ChecklistInstance.IsArchived
+                && i.ChecklistInstance.SignOffStatus != ChecklistSignOffStatus.SignedOff)
+            .ToListAsync();
+
+        var overdue = candidates
+            .Where(i => !ChecklistProgressHelper.IsItemComplete(i))
+            .ToList();
+
+        if (overdue.Count == 0)
+        {
+            return 0;
+        }
+
+        foreach (var item in overdue)
+        {
+            item.OverdueNotifiedAt = utcNow;
+        }
+
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation("{Count} checklist items are overdue", overdue.Count);
+
+        foreach (var item in overdue)
+        {
+            await BroadcastOverdueAsync(item);
+        }
+
+        return overdue.Count;
+    }
+
+    private async Task BroadcastOverdueAsync(ChecklistItem item)
+    {
+        var checklist = item.ChecklistInstance;
+        var positions = ItemDueTimeHelper.GetResponsiblePositions(item, checklist);
+
+        try
+        {
+            await _hubContext.Clients.All.SendAsync("ItemOverdue", new
+            {
+                checklistId = checklist.Id,
+                checklistName = checklist.Name,
+                eventId = checklist.EventId,
+                itemId = item.Id,
+                itemText = item.ItemText,
+                dueAt = item.DueAt,
+                positions = positions.Count > 0 ? string.Join(",", positions) : null,
+                sentAt = DateTime.UtcNow
+            });
+        }
+        catch (Exception ex)
+        {
+            _logger.LogWarning(
+                ex,
+                "Failed to broadcast overdue item {ItemId} on checklist {ChecklistId} via SignalR",
+                item.Id,
+                checklist.Id);
+        }
+    }
+}
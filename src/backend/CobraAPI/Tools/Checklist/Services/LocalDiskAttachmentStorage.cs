@@ -0,0 +1,95 @@
+using Microsoft.Extensions.Options;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// LocalDiskAttachmentStorage - Attachment files on the local file system
+///
+/// Purpose:
+///   POC stand-in for blob storage. Files are written under
+///   AttachmentStorage:RootPath using their storage key as relative path.
+///
+/// Design Decisions:
+///   - Keys resolving outside the root folder are rejected
+///   - Files are written to a temporary name first, so a failed upload never
+///     leaves a partial file behind
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-19
+/// </summary>
+public class LocalDiskAttachmentStorage : IAttachmentStorage
+{
+    private readonly string _rootPath;
+    private readonly ILogger<LocalDiskAttachmentStorage> _logger;
+
+    public LocalDiskAttachmentStorage(
+        IOptions<AttachmentStorageSettings> settings,
+        IWebHostEnvironment environment,
+        ILogger<LocalDiskAttachmentStorage> logger)
+    {
+        _rootPath = Path.GetFullPath(Path.Combine(environment.ContentRootPath, settings.Value.RootPath));
+        _logger = logger;
+    }
+
+    public async Task SaveAsync(string storageKey, Stream content, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(storageKey);
+        Directory.CreateDirectory(Path.GetDirectoryName(path)!);
+
+        var tempPath = $"{path}.{Guid.NewGuid():N}.tmp";
+        try
+        {
+            await using (var file = File.Create(tempPath))
+            {
+                await content.CopyToAsync(file, cancellationToken);
+            }
+
+            File.Move(tempPath, path, overwrite: true);
+        }
+        catch
+        {
+            File.Delete(tempPath);
+            throw;
+        }
+
+        _logger.LogInformation("Stored attachment {StorageKey}", storageKey);
+    }
+
+    public Task<Stream?> OpenReadAsync(string storageKey, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(storageKey);
+        if (!File.Exists(path))
+        {
+            _logger.LogWarning("Attachment file {StorageKey} not found", storageKey);
+            return Task.FromResult<Stream?>(null);
+        }
+
+        return Task.FromResult<Stream?>(File.OpenRead(path));
+    }
+
+    public Task DeleteAsync(string storageKey, CancellationToken cancellationToken = default)
+    {
+        var path = ResolvePath(storageKey);
+        if (File.Exists(path))
+        {
+            File.Delete(path);
+            _logger.LogInformation("Deleted attachment {StorageKey}", storageKey);
+        }
+
+        return Task.CompletedTask;
+    }
+
+    /// <summary>
+    /// Full path of a storage key, rejecting keys that escape the root folder
+    /// </summary>
+    private string ResolvePath(string storageKey)
+    {
+        var path = Path.GetFullPath(Path.Combine(_rootPath, storageKey));
+        if (!path.StartsWith(_rootPath + Path.DirectorySeparatorChar, StringComparison.Ordinal))
+        {
+            throw new InvalidOperationException($"Invalid attachment storage key '{storageKey}'");
+        }
+
+        return path;
+    }
+}
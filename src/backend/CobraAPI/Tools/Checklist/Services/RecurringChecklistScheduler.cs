@@ -0,0 +1,62 @@
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// RecurringChecklistScheduler - Background service that runs recurring templates
+///
+/// Purpose:
+///   Calls IRecurringChecklistService once a minute so checklists for a new
+///   operational period, interval slot or day appear shortly after they
+///   become due.
+///
+/// Design Decisions:
+///   - Hosted services are singletons, so each run gets its own DI scope
+///     (CobraDbContext and the service are scoped)
+///   - Errors are logged and the next run tries again; the scheduler never stops
+///
+/// Registration (Program.cs):
+///   builder.Services.AddHostedService<RecurringChecklistScheduler>();
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class RecurringChecklistScheduler : BackgroundService
+{
+    private static readonly TimeSpan RunInterval = TimeSpan.FromMinutes(1);
+
+    private readonly IServiceScopeFactory _scopeFactory;
+    private readonly ILogger<RecurringChecklistScheduler> _logger;
+
+    public RecurringChecklistScheduler(
+        IServiceScopeFactory scopeFactory,
+        ILogger<RecurringChecklistScheduler> logger)
+    {
+        _scopeFactory = scopeFactory;
+        _logger = logger;
+    }
+
+    protected override async Task ExecuteAsync(CancellationToken stoppingToken)
+    {
+        _logger.LogInformation("Recurring checklist scheduler started (every {Interval})", RunInterval);
+
+        using var timer = new PeriodicTimer(RunInterval);
+        do
+        {
+            try
+            {
+                using var scope = _scopeFactory.CreateScope();
+                var service = scope.ServiceProvider.GetRequiredService<IRecurringChecklistService>();
+                var created = await service.CreateDueChecklistsAsync(DateTime.UtcNow);
+
+                if (created.Count > 0)
+                {
+                    _logger.LogInformation("Recurring schedules created {Count} checklists", created.Count);
+                }
+            }
+            catch (Exception ex) when (ex is not OperationCanceledException)
+            {
+                _logger.LogError(ex, "Recurring checklist run failed");
+            }
+        }
+        while (await timer.WaitForNextTickAsync(stoppingToken));
+    }
+}
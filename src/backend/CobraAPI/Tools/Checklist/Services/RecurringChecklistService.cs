@@ -0,0 +1,208 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.AspNetCore.SignalR;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// RecurringChecklistService - Implementation of recurring template scheduling
+///
+/// Purpose:
+///   Finds due occurrences of Recurring templates and creates the checklists
+///   the same way a user would (ChecklistCreationHelper), attributed to the
+///   recurring schedule instead of a user.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - IHubContext: ChecklistCreated broadcast so My Checklists updates live
+///   - RecurrenceScheduleHelper: Schedule math
+///   - ChecklistCreationHelper: Template instantiation
+///
+/// Design Decisions:
+///   - Each checklist is saved on its own, so one failure doesn't block the rest
+///   - RecurringChecklistRun has a unique (template, event, occurrence) index;
+///     if another instance of the API created the occurrence first, the save
+///     fails and the occurrence is skipped
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class RecurringChecklistService : IRecurringChecklistService
+{
+    private static readonly UserContext ScheduleUser = new()
+    {
+        Email = "recurring-schedule@cobra.system",
+        FullName = "Recurring Schedule",
+        Position = "System"
+    };
+
+    private readonly CobraDbContext _context;
+    private readonly ILogger<RecurringChecklistService> _logger;
+    private readonly IHubContext<ChecklistHub> _hubContext;
+
+    public RecurringChecklistService(
+        CobraDbContext context,
+        ILogger<RecurringChecklistService> logger,
+        IHubContext<ChecklistHub> hubContext)
+    {
+        _context = context;
+        _logger = logger;
+        _hubContext = hubContext;
+    }
+
+    public async Task<List<ChecklistInstanceDto>> CreateDueChecklistsAsync(DateTime utcNow)
+    {
+        var created = new List<ChecklistInstanceDto>();
+
+        var templates = await _context.Templates
+            .Where(t => t.TemplateType == TemplateType.Recurring
+                && t.IsActive
+                && !t.IsArchived
+                && t.ApprovalStatus == TemplateApprovalStatus.Approved)
+            .AsNoTracking()
+            .ToListAsync();
+
+        if (templates.Count == 0)
+        {
+            return created;
+        }
+
+        var events = await _context.Events
+            .Where(e => e.IsActive && !e.IsArchived)
+            .AsNoTracking()
+            .ToListAsync();
+
+        if (events.Count == 0)
+        {
+            return created;
+        }
+
+        var eventIds = events.Select(e => e.Id).ToList();
+        var currentPeriods = (await _context.OperationalPeriods
+                .Where(p => eventIds.Contains(p.EventId) && !p.IsArchived)
+                .AsNoTracking()
+                .ToListAsync())
+            .GroupBy(p => p.EventId)
+            .Select(g => OperationalPeriodService.FindCurrent(g, utcNow))
+            .Where(p => p != null)
+            .ToDictionary(p => p!.EventId, p => p!);
+
+        var templateIds = templates.Select(t => t.Id).ToList();
+        var completedRuns = (await _context.RecurringChecklistRuns
+                .Where(r => templateIds.Contains(r.TemplateId))
+                .Select(r => new { r.TemplateId, r.EventId, r.OccurrenceKey })
+                .ToListAsync())
+            .Select(r => (r.TemplateId, r.EventId, r.OccurrenceKey))
+            .ToHashSet();
+
+        foreach (var template in templates)
+        {
+            var config = RecurrenceScheduleHelper.Parse(template.RecurrenceConfig);
+            if (config == null)
+            {
+                _logger.LogWarning(
+                    "Recurring template {TemplateId} ({Name}) has no valid recurrence configuration",
+                    template.Id,
+                    template.Name);
+                continue;
+            }
+
+            foreach (var evt in events)
+            {
+                currentPeriods.TryGetValue(evt.Id, out var period);
+                var occurrence = RecurrenceScheduleHelper.GetDueOccurrence(config, utcNow, period);
+                if (occurrence == null || completedRuns.Contains((template.Id, evt.Id, occurrence.Key)))
+                {
+                    continue;
+                }
+
+                var dto = await CreateOccurrenceAsync(template, config, evt, period, occurrence, utcNow);
+                if (dto != null)
+                {
+                    created.Add(dto);
+                }
+            }
+        }
+
+        return created;
+    }
+
+    private async Task<ChecklistInstanceDto?> CreateOccurrenceAsync(
+        Template template,
+        RecurrenceConfig config,
+        Event evt,
+        OperationalPeriod? period,
+        RecurrenceOccurrence occurrence,
+        DateTime utcNow)
+    {
+        try
+        {
+            var checklist = await ChecklistCreationHelper.CreateFromTemplateAsync(
+                _context,
+                _logger,
+                new CreateFromTemplateRequest
+                {
+                    TemplateId = template.Id,
+                    Name = $"{template.Name} - {occurrence.Label}",
+                    EventId = evt.Id,
+                    EventName = evt.Name,
+                    OperationalPeriodId = period?.Id,
+                    OperationalPeriodName = period?.Name,
+                    AssignedPositions = config.AssignedPositions.Count > 0
+                        ? string.Join(",", config.AssignedPositions)
+                        : null
+                },
+                ScheduleUser);
+
+            _context.ChecklistInstances.Add(checklist);
+            _context.RecurringChecklistRuns.Add(new RecurringChecklistRun
+            {
+                Id = Guid.NewGuid(),
+                TemplateId = template.Id,
+                EventId = evt.Id,
+                OperationalPeriodId = period?.Id,
+                OccurrenceKey = occurrence.Key,
+                ScheduledFor = occurrence.ScheduledFor,
+                ChecklistInstanceId = checklist.Id,
+                CreatedAt = utcNow
+            });
+
+            // Same usage tracking as a manual creation
+            var trackedTemplate = await _context.Templates.FindAsync(template.Id);
+            if (trackedTemplate != null)
+            {
+                trackedTemplate.UsageCount++;
+                trackedTemplate.LastUsedAt = utcNow;
+            }
+
+            await _context.SaveChangesAsync();
+
+            _logger.LogInformation(
+                "Recurring template {TemplateId} created checklist {ChecklistId} for event {EventId} ({OccurrenceKey})",
+                template.Id,
+                checklist.Id,
+                evt.Id,
+                occurrence.Key);
+
+            var dto = ChecklistMapper.MapToDto(checklist);
+            await ChecklistBroadcastHelper.BroadcastChecklistCreatedAsync(_hubContext, _logger, dto, ScheduleUser.Email);
+            return dto;
+        }
+        catch (Exception ex) when (ex is DbUpdateException or InvalidOperationException)
+        {
+            _logger.LogWarning(
+                ex,
+                "Failed to create recurring checklist for template {TemplateId}, event {EventId} ({OccurrenceKey})",
+                template.Id,
+                evt.Id,
+                occurrence.Key);
+
+            // Drop the failed entities so later occurrences can still be saved
+            _context.ChangeTracker.Clear();
+            return null;
+        }
+    }
+}
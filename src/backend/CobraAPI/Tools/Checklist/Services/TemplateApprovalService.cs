@@ -0,0 +1,232 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// TemplateApprovalService - Implementation of the template approval workflow
+///
+/// Purpose:
+///   Validates lifecycle transitions, stamps submitter/reviewer details on
+///   the template and appends an approval history entry for every action.
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - TemplateApprovalHelper: History entries
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class TemplateApprovalService : ITemplateApprovalService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<TemplateApprovalService> _logger;
+
+    public TemplateApprovalService(
+        CobraDbContext context,
+        ILogger<TemplateApprovalService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<List<TemplateDto>> GetPendingTemplatesAsync()
+    {
+        _logger.LogInformation("Fetching templates pending approval");
+
+        var templates = await _context.Templates
+            .Include(t => t.Items.OrderBy(i => i.DisplayOrder))
+            .Where(t => !t.IsArchived && t.ApprovalStatus == TemplateApprovalStatus.PendingApproval)
+            .OrderBy(t => t.SubmittedAt)
+            .AsNoTracking()
+            .ToListAsync();
+
+        _logger.LogInformation("Retrieved {Count} templates pending approval", templates.Count);
+
+        return templates.Select(TemplateMapper.MapToDto).ToList();
+    }
+
+    public async Task<TemplateDto?> SubmitForApprovalAsync(
+        Guid templateId,
+        string? comment,
+        UserContext userContext)
+    {
+        var template = await LoadTemplateAsync(templateId);
+        if (template == null)
+        {
+            return null;
+        }
+
+        if (template.ApprovalStatus != TemplateApprovalStatus.Draft &&
+            template.ApprovalStatus != TemplateApprovalStatus.Rejected)
+        {
+            throw new InvalidOperationException(
+                $"Only draft or rejected templates can be submitted (template is {template.ApprovalStatus})");
+        }
+
+        template.ApprovalStatus = TemplateApprovalStatus.PendingApproval;
+        template.SubmittedBy = userContext.Email;
+        template.SubmittedByPosition = userContext.Position;
+        template.SubmittedAt = DateTime.UtcNow;
+
+        _context.TemplateApprovalEvents.Add(TemplateApprovalHelper.CreateEvent(
+            template,
+            TemplateApprovalAction.Submitted,
+            comment,
+            userContext));
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Template {TemplateId} version {Version} submitted for approval by {User}",
+            templateId,
+            template.CurrentVersion,
+            userContext.Email);
+
+        return TemplateMapper.MapToDto(template);
+    }
+
+    public async Task<TemplateDto?> ApproveAsync(
+        Guid templateId,
+        string? comment,
+        UserContext userContext)
+    {
+        var template = await LoadTemplateForReviewAsync(templateId, userContext);
+        if (template == null)
+        {
+            return null;
+        }
+
+        RecordReview(template, TemplateApprovalStatus.Approved, comment, userContext);
+        _context.TemplateApprovalEvents.Add(TemplateApprovalHelper.CreateEvent(
+            template,
+            TemplateApprovalAction.Approved,
+            comment,
+            userContext));
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Template {TemplateId} version {Version} approved by {User}",
+            templateId,
+            template.CurrentVersion,
+            userContext.Email);
+
+        return TemplateMapper.MapToDto(template);
+    }
+
+    public async Task<TemplateDto?> RejectAsync(
+        Guid templateId,
+        string comment,
+        UserContext userContext)
+    {
+        if (string.IsNullOrWhiteSpace(comment))
+        {
+            throw new ArgumentException("A comment is required when rejecting a template");
+        }
+
+        var template = await LoadTemplateForReviewAsync(templateId, userContext);
+        if (template == null)
+        {
+            return null;
+        }
+
+        RecordReview(template, TemplateApprovalStatus.Rejected, comment, userContext);
+        _context.TemplateApprovalEvents.Add(TemplateApprovalHelper.CreateEvent(
+            template,
+            TemplateApprovalAction.Rejected,
+            comment,
+            userContext));
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Template {TemplateId} version {Version} rejected by {User}",
+            templateId,
+            template.CurrentVersion,
+            userContext.Email);
+
+        return TemplateMapper.MapToDto(template);
+    }
+
+    public async Task<List<TemplateApprovalEventDto>?> GetApprovalHistoryAsync(Guid templateId)
+    {
+        _logger.LogInformation("Fetching approval history for template {TemplateId}", templateId);
+
+        if (!await _context.Templates.AnyAsync(t => t.Id == templateId))
+        {
+            _logger.LogWarning("Template {TemplateId} not found", templateId);
+            return null;
+        }
+
+        var history = await _context.TemplateApprovalEvents
+            .Where(e => e.TemplateId == templateId)
+            .OrderByDescending(e => e.PerformedAt)
+            .AsNoTracking()
+            .ToListAsync();
+
+        return history.Select(TemplateMapper.MapApprovalEventToDto).ToList();
+    }
+
+    /// <summary>
+    /// Load a template with items for an approval action
+    /// </summary>
+    private async Task<Template?> LoadTemplateAsync(Guid templateId)
+    {
+        var template = await _context.Templates
+            .Include(t => t.Items.OrderBy(i => i.DisplayOrder))
+            .FirstOrDefaultAsync(t => t.Id == templateId && !t.IsArchived);
+
+        if (template == null)
+        {
+            _logger.LogWarning("Template {TemplateId} not found for approval action", templateId);
+        }
+
+        return template;
+    }
+
+    /// <summary>
+    /// Load a pending template and check the reviewer is not the submitter
+    /// </summary>
+    private async Task<Template?> LoadTemplateForReviewAsync(Guid templateId, UserContext userContext)
+    {
+        var template = await LoadTemplateAsync(templateId);
+        if (template == null)
+        {
+            return null;
+        }
+
+        if (template.ApprovalStatus != TemplateApprovalStatus.PendingApproval)
+        {
+            throw new InvalidOperationException(
+                $"Only templates pending approval can be reviewed (template is {template.ApprovalStatus})");
+        }
+
+        if (string.Equals(template.SubmittedBy, userContext.Email, StringComparison.OrdinalIgnoreCase))
+        {
+            _logger.LogWarning(
+                "User {User} attempted to review their own submission of template {TemplateId}",
+                userContext.Email,
+                templateId);
+            throw new UnauthorizedAccessException("You cannot review a template you submitted");
+        }
+
+        return template;
+    }
+
+    /// <summary>
+    /// Stamp the review decision on the template
+    /// </summary>
+    private static void RecordReview(
+        Template template,
+        TemplateApprovalStatus decision,
+        string? comment,
+        UserContext userContext)
+    {
+        template.ApprovalStatus = decision;
+        template.ReviewedBy = userContext.Email;
+        template.ReviewedByPosition = userContext.Position;
+        template.ReviewedAt = DateTime.UtcNow;
+        template.ReviewComment = string.IsNullOrWhiteSpace(comment) ? null : comment.Trim();
+    }
+}
@@ -18,6 +18,8 @@ namespace CobraAPI.Tools.Checklist.Services;
 ///   - ILogger: Application Insights and console logging
 ///   - TemplateMapper: Entity-to-DTO mapping
 ///   - TemplateCreationHelper: Creation and duplication logic
+///   - TemplateVersionHelper: Version snapshot on every save
+///   - TemplateApprovalHelper: Edits send templates back to Draft
 ///
 /// Design Decisions:
 ///   - All methods are async for database I/O
@@ -109,6 +111,8 @@ public class TemplateService : ITemplateService
         UserContext userContext)
     {
         var template = TemplateCreationHelper.CreateTemplate(request, userContext, _logger);
+        template.ApprovalStatus = TemplateApprovalStatus.Draft;
+        template.Versions.Add(TemplateVersionHelper.CreateVersion(template, userContext));
 
         _context.Templates.Add(template);
         await _context.SaveChangesAsync();
@@ -136,6 +140,13 @@ public class TemplateService : ITemplateService
             return null;
         }
 
+        // Templates saved before versioning get their current state recorded
+        // first so the history includes what this update replaces
+        if (!await _context.TemplateVersions.AnyAsync(v => v.TemplateId == id))
+        {
+            _context.TemplateVersions.Add(TemplateVersionHelper.CreateBaselineVersion(template));
+        }
+
         // Update template properties
         template.Name = request.Name;
         template.Description = request.Description;
@@ -150,6 +161,14 @@ public class TemplateService : ITemplateService
         template.LastModifiedBy = userContext.Email;
         template.LastModifiedByPosition = userContext.Position;
         template.LastModifiedAt = DateTime.UtcNow;
+        template.CurrentVersion += 1;
+
+        // Changed content must be approved again before it can be used
+        var returnedToDraft = TemplateApprovalHelper.ReturnToDraft(template, userContext);
+        if (returnedToDraft != null)
+        {
+            _context.TemplateApprovalEvents.Add(returnedToDraft);
+        }
 
         // Replace all items (PUT semantics)
         // Remove existing items
@@ -164,7 +183,14 @@ public class TemplateService : ITemplateService
             ItemType = itemRequest.ItemType,
             DisplayOrder = itemRequest.DisplayOrder,
             StatusConfiguration = itemRequest.StatusConfiguration,
-            DefaultNotes = itemRequest.Notes,
+            ValueConfiguration = itemRequest.ValueConfiguration,
+            AllowedPositions = itemRequest.AllowedPositions,
+            DefaultNotes = itemRequest.DefaultNotes ?? itemRequest.Notes,
+            DueOffsetMinutes = itemRequest.DueOffsetMinutes,
+            DueRelativeTo = itemRequest.DueRelativeTo,
+            PrerequisiteDisplayOrders = itemRequest.PrerequisiteDisplayOrders,
+            SectionName = TemplateCreationHelper.NormalizeSectionName(itemRequest.SectionName),
+            IsRequired = itemRequest.IsRequired,
             CreatedAt = DateTime.UtcNow
         }).ToList();
 
@@ -183,7 +209,16 @@ public class TemplateService : ITemplateService
             .AsNoTracking()
             .FirstOrDefaultAsync(t => t.Id == id);
 
-        return template == null ? null : TemplateMapper.MapToDto(template);
+        if (template == null)
+        {
+            return null;
+        }
+
+        // Record the saved state in version history
+        _context.TemplateVersions.Add(TemplateVersionHelper.CreateVersion(template, userContext));
+        await _context.SaveChangesAsync();
+
+        return TemplateMapper.MapToDto(template);
     }
 
     public async Task<bool> ArchiveTemplateAsync(Guid id, UserContext userContext)
@@ -310,10 +345,12 @@ public class TemplateService : ITemplateService
             eventCategory ?? "(none)",
             limit);
 
-        // Get all active, non-archived templates with their items
+        // Get all active, non-archived, approved templates with their items
         var templates = await _context.Templates
             .Include(t => t.Items)
-            .Where(t => t.IsActive && !t.IsArchived)
+            .Where(t => t.IsActive
+                     && !t.IsArchived
+                     && t.ApprovalStatus == TemplateApprovalStatus.Approved)
             .AsNoTracking()
             .ToListAsync();
 
@@ -448,6 +485,8 @@ public class TemplateService : ITemplateService
                 id,
                 newName,
                 userContext);
+            duplicate.ApprovalStatus = TemplateApprovalStatus.Draft;
+            duplicate.Versions.Add(TemplateVersionHelper.CreateVersion(duplicate, userContext));
 
             _context.Templates.Add(duplicate);
             await _context.SaveChangesAsync();
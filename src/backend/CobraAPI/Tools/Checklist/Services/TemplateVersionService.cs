@@ -0,0 +1,179 @@
+using CobraAPI.Core.Data;
+using CobraAPI.Core.Models;
+using CobraAPI.Tools.Checklist.Services.Helpers;
+using Microsoft.EntityFrameworkCore;
+
+namespace CobraAPI.Tools.Checklist.Services;
+
+/// <summary>
+/// TemplateVersionService - Implementation of template version history
+///
+/// Purpose:
+///   Reads version snapshots recorded by TemplateService and restores
+///   an older version as a new version (restore never deletes history).
+///
+/// Dependencies:
+///   - CobraDbContext: Database access via EF Core
+///   - ILogger: Application Insights and console logging
+///   - TemplateVersionHelper: Snapshot serialization and restore
+///   - TemplateApprovalHelper: Restored content needs approval again
+///
+/// Author: Checklist POC Team
+/// Last Modified: 2026-10-18
+/// </summary>
+public class TemplateVersionService : ITemplateVersionService
+{
+    private readonly CobraDbContext _context;
+    private readonly ILogger<TemplateVersionService> _logger;
+
+    public TemplateVersionService(
+        CobraDbContext context,
+        ILogger<TemplateVersionService> logger)
+    {
+        _context = context;
+        _logger = logger;
+    }
+
+    public async Task<List<TemplateVersionDto>?> GetVersionsAsync(Guid templateId)
+    {
+        _logger.LogInformation("Fetching version history for template {TemplateId}", templateId);
+
+        var template = await _context.Templates
+            .Include(t => t.Items)
+            .FirstOrDefaultAsync(t => t.Id == templateId);
+
+        if (template == null)
+        {
+            _logger.LogWarning("Template {TemplateId} not found", templateId);
+            return null;
+        }
+
+        var versions = await _context.TemplateVersions
+            .Where(v => v.TemplateId == templateId)
+            .OrderByDescending(v => v.VersionNumber)
+            .ToListAsync();
+
+        // Templates created before versioning have no history yet
+        if (versions.Count == 0)
+        {
+            var baseline = TemplateVersionHelper.CreateBaselineVersion(template);
+            _context.TemplateVersions.Add(baseline);
+            await _context.SaveChangesAsync();
+            versions.Add(baseline);
+
+            _logger.LogInformation(
+                "Recorded baseline version {Version} for template {TemplateId}",
+                baseline.VersionNumber,
+                templateId);
+        }
+
+        return versions.Select(v => MapToDto(v, includeSnapshot: false)).ToList();
+    }
+
+    public async Task<TemplateVersionDto?> GetVersionAsync(Guid templateId, int versionNumber)
+    {
+        _logger.LogInformation(
+            "Fetching version {Version} of template {TemplateId}",
+            versionNumber,
+            templateId);
+
+        var version = await _context.TemplateVersions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(v => v.TemplateId == templateId && v.VersionNumber == versionNumber);
+
+        if (version == null)
+        {
+            _logger.LogWarning(
+                "Version {Version} of template {TemplateId} not found",
+                versionNumber,
+                templateId);
+            return null;
+        }
+
+        return MapToDto(version, includeSnapshot: true);
+    }
+
+    public async Task<TemplateDto?> RestoreVersionAsync(
+        Guid templateId,
+        int versionNumber,
+        UserContext userContext)
+    {
+        _logger.LogInformation(
+            "Restoring version {Version} of template {TemplateId} by {User}",
+            versionNumber,
+            templateId,
+            userContext.Email);
+
+        var template = await _context.Templates
+            .Include(t => t.Items)
+            .FirstOrDefaultAsync(t => t.Id == templateId);
+
+        var version = await _context.TemplateVersions
+            .AsNoTracking()
+            .FirstOrDefaultAsync(v => v.TemplateId == templateId && v.VersionNumber == versionNumber);
+
+        var snapshot = version == null ? null : TemplateVersionHelper.ReadSnapshot(version);
+
+        if (template == null || snapshot == null)
+        {
+            _logger.LogWarning(
+                "Template {TemplateId} or version {Version} not found for restore",
+                templateId,
+                versionNumber);
+            return null;
+        }
+
+        var restoredItems = TemplateVersionHelper.ApplySnapshot(template, snapshot, userContext);
+        template.CurrentVersion += 1;
+
+        var returnedToDraft = TemplateApprovalHelper.ReturnToDraft(template, userContext);
+        if (returnedToDraft != null)
+        {
+            _context.TemplateApprovalEvents.Add(returnedToDraft);
+        }
+
+        _context.TemplateItems.RemoveRange(template.Items);
+        _context.TemplateItems.AddRange(restoredItems);
+        await _context.SaveChangesAsync();
+
+        // Reload and record the restored state as the new latest version
+        var restored = await _context.Templates
+            .Include(t => t.Items.OrderBy(i => i.DisplayOrder))
+            .AsNoTracking()
+            .FirstAsync(t => t.Id == templateId);
+
+        _context.TemplateVersions.Add(
+            TemplateVersionHelper.CreateVersion(restored, userContext, restoredFromVersion: versionNumber));
+        await _context.SaveChangesAsync();
+
+        _logger.LogInformation(
+            "Restored template {TemplateId} to version {Version} as version {NewVersion}",
+            templateId,
+            versionNumber,
+            restored.CurrentVersion);
+
+        return TemplateMapper.MapToDto(restored);
+    }
+
+    /// <summary>
+    /// Maps a version entity to DTO, optionally including the full snapshot
+    /// </summary>
+    private static TemplateVersionDto MapToDto(TemplateVersion version, bool includeSnapshot)
+    {
+        var snapshot = TemplateVersionHelper.ReadSnapshot(version);
+
+        return new TemplateVersionDto
+        {
+            Id = version.Id,
+            TemplateId = version.TemplateId,
+            VersionNumber = version.VersionNumber,
+            RestoredFromVersion = version.RestoredFromVersion,
+            Name = snapshot?.Name ?? string.Empty,
+            ItemCount = snapshot?.Items.Count ?? 0,
+            CreatedBy = version.CreatedBy,
+            CreatedByPosition = version.CreatedByPosition,
+            CreatedAt = version.CreatedAt,
+            Template = includeSnapshot ? snapshot : null
+        };
+    }
+}
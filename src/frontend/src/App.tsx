@@ -12,7 +12,8 @@
  * - /checklists - Checklist tool landing (Dashboard, Manage, Analytics)
  * - /checklists/dashboard - My Checklists (Dashboard)
  * - /checklists/:checklistId - Checklist detail
- * - /checklists/manage - Templates & Item Library (Manage role)
+ * - /checklists/manage - Templates, Item Library & Approvals (Manage role)
+ * - /checklists/manage/approvals - Template approval queue (Manage role)
  * - /checklists/manage/templates/new - Create Template
  * - /checklists/manage/templates/:id/edit - Edit Template
  * - /checklists/manage/templates/:id/preview - Preview Template
@@ -329,6 +330,10 @@ function App() {
 
           {/* Manage Section (Templates & Item Library) */}
           <Route path="/checklists/manage" element={<ManagePageWrapper />} />
+          <Route
+            path="/checklists/manage/approvals"
+            element={<Navigate to="/checklists/manage?tab=approvals" replace />}
+          />
 
           {/* Template Management Routes */}
           <Route
@@ -36,6 +36,8 @@ import {
   faCopy,
   faCircleCheck,
   faCircleXmark,
+  faPaperclip,
+  faFileCircleCheck,
 } from '@fortawesome/free-solid-svg-icons';
 import type { IconDefinition } from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
@@ -66,6 +68,8 @@ const settingIcons: Record<string, IconDefinition> = {
   'OpenAI.ApiKey': faKey,
   'AzureOpenAI.ApiKey': faKey,
   'AzureOpenAI.Endpoint': faGlobe,
+  'Checklist.AttachmentMaxSizeMb': faPaperclip,
+  'Checklist.AttachmentAllowedTypes': faFileCircleCheck,
 };
 
 interface SettingRowProps {
@@ -71,6 +71,10 @@ export const SystemSettingKeys = {
 
   // System settings
   SystemMaintenanceMode: 'System.MaintenanceMode',
+
+  // Checklist settings
+  ChecklistAttachmentMaxSizeMb: 'Checklist.AttachmentMaxSizeMb',
+  ChecklistAttachmentAllowedTypes: 'Checklist.AttachmentAllowedTypes',
 } as const;
 
 /**
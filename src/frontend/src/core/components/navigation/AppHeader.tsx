@@ -4,6 +4,7 @@
  * Implements C5-style header with:
  * - App branding (left)
  * - Event selector (left, after branding)
+ * - Operational period selector (left, after event selector)
  * - Chat sidebar toggle (right)
  * - Profile menu (right)
  * - Mobile menu toggle
@@ -24,7 +25,11 @@ import { useTheme } from "@mui/material/styles";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import { faBars, faComments } from "@fortawesome/free-solid-svg-icons";
 import { ProfileMenu } from "../ProfileMenu";
-import { EventSelector, CreateEventDialog } from "../../../shared/events";
+import {
+  EventSelector,
+  CreateEventDialog,
+  OperationalPeriodSelector,
+} from "../../../shared/events";
 import { PermissionRole } from "../../../types";
 import { useChatSidebar } from "../../../tools/chat";
 import { useFeatureFlags } from "../../../admin";
@@ -97,6 +102,9 @@ export const AppHeader: React.FC<AppHeaderProps> = ({
           {/* Event Selector - Left aligned */}
           <EventSelector onCreateEventClick={() => setCreateEventOpen(true)} />
 
+          {/* Operational Period Selector - next to the event */}
+          <OperationalPeriodSelector />
+
           {/* Spacer */}
           <Box sx={{ flexGrow: 1 }} />
 
@@ -27,5 +27,6 @@ export {
   getCurrentUser,
   getErrorMessage,
   isApiError,
+  isNetworkError,
 } from './services/api';
 export type { MockUserContext, PermissionRoleType } from './services/api';
@@ -8,12 +8,25 @@
  * - Mock authentication headers (POC only)
  * - Error handling and logging
  * - HTTPS certificate acceptance for development
+ * - Offline-aware requests (callers that queue or cache opt out of the
+ *   "unable to reach server" toast via the offlineCapable config flag)
  */
 
 import axios, { AxiosError, AxiosInstance } from 'axios';
 import { toast } from 'react-toastify';
 import { getSysAdminStatus } from '../../admin/contexts/SysAdminContext';
 
+declare module 'axios' {
+  interface AxiosRequestConfig {
+    /**
+     * Caller handles connectivity failures itself (offline queue or cache),
+     * so the response interceptor should not show the global
+     * "Unable to reach server" toast.
+     */
+    offlineCapable?: boolean;
+  }
+}
+
 /**
  * Base API URL from environment variable
  * - Production: empty string (relative URLs like /api/events)
@@ -273,6 +286,10 @@ apiClient.interceptors.response.use(
     } else if (error.request) {
       // Request made but no response
       console.error('[API] No response received:', error.request);
+      if (error.config?.offlineCapable) {
+        // Caller falls back to offline queue/cache and informs the user
+        return Promise.reject(error);
+      }
       toast.error(
         'Unable to reach server. Please check your connection and ensure the backend is running.',
         { autoClose: false }
@@ -313,3 +330,16 @@ export const getErrorMessage = (error: unknown): string => {
 export const isApiError = (error: unknown): error is AxiosError => {
   return axios.isAxiosError(error);
 };
+
+
+/**
+ * Detect connectivity failures (request sent but no response received,
+ * or the browser reports it is offline). Used by the offline queue to
+ * distinguish "try again later" from errors the server actually returned.
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (axios.isAxiosError(error)) {
+    return !error.response && (!!error.request || !navigator.onLine);
+  }
+  return typeof navigator !== 'undefined' && !navigator.onLine;
+};
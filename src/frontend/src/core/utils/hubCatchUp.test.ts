@@ -0,0 +1,110 @@
+/**
+ * Hub Catch-Up Utility Tests
+ *
+ * Tests last-seen tracking, catch-up times and merging fetched records.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  CATCH_UP_OVERLAP_MS,
+  createLastSeenTracker,
+  parseServerTime,
+  upsertById,
+} from './hubCatchUp';
+
+const serverTime = '2026-10-19T12:00:00.000Z';
+
+const minutesAfter = (minutes: number): string =>
+  new Date(Date.parse(serverTime) + minutes * 60 * 1000).toISOString();
+
+const withOverlap = (iso: string): string =>
+  new Date(Date.parse(iso) - CATCH_UP_OVERLAP_MS).toISOString();
+
+describe('parseServerTime', () => {
+  it('treats times without a zone as UTC', () => {
+    expect(parseServerTime('2026-10-19T12:00:00.1234567')).toBe(parseServerTime('2026-10-19T12:00:00.123Z'));
+  });
+
+  it('keeps explicit offsets', () => {
+    expect(parseServerTime('2026-10-19T14:00:00+02:00')).toBe(Date.parse(serverTime));
+  });
+
+  it('returns null for missing or invalid values', () => {
+    expect(parseServerTime(null)).toBeNull();
+    expect(parseServerTime('not a time')).toBeNull();
+  });
+});
+
+describe('createLastSeenTracker', () => {
+  it('has no catch-up time before connecting', () => {
+    const tracker = createLastSeenTracker();
+    tracker.record('checklist-1', minutesAfter(1));
+
+    expect(tracker.since('checklist-1')).toBeNull();
+  });
+
+  it('uses the connection time for keys without messages', () => {
+    const tracker = createLastSeenTracker();
+    tracker.reset(serverTime);
+
+    expect(tracker.since('checklist-1')).toBe(withOverlap(serverTime));
+  });
+
+  it('uses the newest message seen per key', () => {
+    const tracker = createLastSeenTracker();
+    tracker.reset(serverTime);
+    tracker.record('checklist-1', minutesAfter(5));
+    tracker.record('checklist-1', minutesAfter(2));
+    tracker.record('checklist-2', minutesAfter(8));
+
+    expect(tracker.since('checklist-1')).toBe(withOverlap(minutesAfter(5)));
+    expect(tracker.since('checklist-2')).toBe(withOverlap(minutesAfter(8)));
+    expect(tracker.since()).toBe(withOverlap(minutesAfter(8)));
+  });
+
+  it('ignores messages older than the connection time', () => {
+    const tracker = createLastSeenTracker();
+    tracker.reset(serverTime);
+    tracker.record('checklist-1', minutesAfter(-10));
+
+    expect(tracker.since('checklist-1')).toBe(withOverlap(serverTime));
+  });
+
+  it('keeps snapshot times after a reset', () => {
+    const tracker = createLastSeenTracker();
+    tracker.reset(serverTime);
+    tracker.record('checklist-1', minutesAfter(5));
+
+    const since = tracker.snapshot();
+    tracker.reset(minutesAfter(30));
+
+    expect(since('checklist-1')).toBe(withOverlap(minutesAfter(5)));
+    expect(tracker.since('checklist-1')).toBe(withOverlap(minutesAfter(30)));
+  });
+});
+
+describe('upsertById', () => {
+  it('replaces existing records in place and appends new ones', () => {
+    const list = [
+      { id: 'a', value: 1 },
+      { id: 'b', value: 2 },
+    ];
+
+    const result = upsertById(list, [
+      { id: 'c', value: 3 },
+      { id: 'a', value: 10 },
+    ]);
+
+    expect(result).toEqual([
+      { id: 'a', value: 10 },
+      { id: 'b', value: 2 },
+      { id: 'c', value: 3 },
+    ]);
+  });
+
+  it('returns the same list when there is nothing to merge', () => {
+    const list = [{ id: 'a' }];
+    expect(upsertById(list, [])).toBe(list);
+  });
+});
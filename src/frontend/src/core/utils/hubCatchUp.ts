@@ -0,0 +1,96 @@
+/**
+ * Hub Catch-Up Utilities
+ *
+ * Shared by the checklist and chat hubs to recover what was missed while a
+ * SignalR connection was down. Hub messages carry the server time they were
+ * sent (chat messages use their createdAt), and the client remembers the
+ * newest one seen per key (checklist or chat thread). After a reconnect,
+ * consumers fetch only what changed since then instead of reloading.
+ */
+
+/**
+ * Subtracted from catch-up times so messages sent while a save was in flight
+ * aren't missed (duplicates are merged away by ID)
+ */
+export const CATCH_UP_OVERLAP_MS = 5000;
+
+/**
+ * Time (ISO, UTC) to fetch changes since for a key, or null when unknown
+ * (the caller should fall back to a full reload)
+ */
+export type CatchUpSince = (key?: string) => string | null;
+
+/**
+ * Newest message time seen per key, plus the server time of the last (re)connect
+ */
+export interface LastSeenTracker {
+  /** Start over from the server clock (after connecting or reconnecting) */
+  reset: (serverTime: string) => void;
+  /** Note a message for a key (older than what was already seen = ignored) */
+  record: (key: string, sentAt: string | null | undefined) => void;
+  /** Catch-up time for a key, or for everything when no key is given */
+  since: CatchUpSince;
+  /** Freeze the current catch-up times (taken before reset on reconnect) */
+  snapshot: () => CatchUpSince;
+}
+
+/**
+ * Parse a server timestamp. Times read back from the database can lack the
+ * UTC designator; they are UTC, not local time.
+ */
+export const parseServerTime = (value: string | null | undefined): number | null => {
+  if (!value) return null;
+  const hasZone = /(?:[zZ]|[+-]\d{2}:?\d{2})$/.test(value);
+  const time = Date.parse(hasZone ? value : `${value}Z`);
+  return Number.isNaN(time) ? null : time;
+};
+
+const toSince = (time: number | null): string | null =>
+  time === null ? null : new Date(time - CATCH_UP_OVERLAP_MS).toISOString();
+
+/**
+ * Create a tracker for one hub connection
+ */
+export const createLastSeenTracker = (): LastSeenTracker => {
+  let baseline: number | null = null;
+  let lastSeen = new Map<string, number>();
+
+  const sinceFrom = (base: number | null, seen: Map<string, number>): CatchUpSince => (key) => {
+    if (base === null) return null;
+    const times = key === undefined ? [...seen.values()] : [seen.get(key) ?? base];
+    return toSince(Math.max(base, ...times));
+  };
+
+  return {
+    reset: (serverTime) => {
+      baseline = parseServerTime(serverTime);
+      lastSeen = new Map();
+    },
+    record: (key, sentAt) => {
+      const time = parseServerTime(sentAt);
+      if (time === null) return;
+      if (time > (lastSeen.get(key) ?? -Infinity)) {
+        lastSeen.set(key, time);
+      }
+    },
+    since: (key) => sinceFrom(baseline, lastSeen)(key),
+    snapshot: () => sinceFrom(baseline, new Map(lastSeen)),
+  };
+};
+
+/**
+ * Merge fetched records into a list by ID: existing ones are replaced in
+ * place, new ones are appended
+ */
+export const upsertById = <T extends { id: string }>(list: T[], updates: T[]): T[] => {
+  if (updates.length === 0) return list;
+
+  const updatesById = new Map(updates.map((update) => [update.id, update]));
+  const merged = list.map((entry) => {
+    const update = updatesById.get(entry.id);
+    if (!update) return entry;
+    updatesById.delete(entry.id);
+    return update;
+  });
+  return [...merged, ...updatesById.values()];
+};
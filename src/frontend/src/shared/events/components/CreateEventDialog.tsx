@@ -8,6 +8,8 @@
  * - Event type selection (Planned/Unplanned)
  * - Category selection driven by event type
  * - Optional additional categories
+ * - Preview of the checklists auto-created for the categories, with
+ *   checkboxes to opt out (second step, only when any match)
  */
 
 import React, { useState, useEffect } from 'react';
@@ -27,18 +29,29 @@ import {
   Chip,
   Autocomplete,
   CircularProgress,
+  List,
+  ListItem,
 } from '@mui/material';
+import { toast } from 'react-toastify';
 import {
   CobraDialog,
   CobraTextField,
   CobraSaveButton,
   CobraLinkButton,
+  CobraPrimaryButton,
+  CobraCheckbox,
 } from '../../../theme/styledComponents';
 import CobraStyles from '../../../theme/CobraStyles';
 import { useEvents } from '../hooks/useEvents';
 import { eventCategoryService } from '../services/eventService';
+import {
+  checklistService,
+  type AutoCreateChecklistPreview,
+} from '../../../tools/checklist/services/checklistService';
 import type { EventType, EventCategory, CreateEventRequest } from '../types';
 
+type DialogStep = 'details' | 'checklists';
+
 interface CreateEventDialogProps {
   open: boolean;
   onClose: () => void;
@@ -66,7 +79,13 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
   const [allCategories, setAllCategories] = useState<EventCategory[]>([]);
   const [loadingCategories, setLoadingCategories] = useState(false);
 
+  // Auto-create checklists for the selected categories (opted-out templates excluded)
+  const [autoCreatePreview, setAutoCreatePreview] = useState<AutoCreateChecklistPreview[]>([]);
+  const [excludedTemplateIds, setExcludedTemplateIds] = useState<string[]>([]);
+  const [loadingPreview, setLoadingPreview] = useState(false);
+
   // UI state
+  const [step, setStep] = useState<DialogStep>('details');
   const [saving, setSaving] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -117,10 +136,40 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
       setEventType('Unplanned');
       setPrimaryCategoryId('');
       setAdditionalCategoryIds([]);
+      setExcludedTemplateIds([]);
+      setStep('details');
       setError(null);
     }
   }, [open]);
 
+  // Load the checklists that will be auto-created for the selected categories
+  useEffect(() => {
+    if (!open || !primaryCategoryId) {
+      setAutoCreatePreview([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadPreview = async () => {
+      setLoadingPreview(true);
+      try {
+        const data = await checklistService.getAutoCreatePreview([primaryCategoryId, ...additionalCategoryIds]);
+        if (!cancelled) setAutoCreatePreview(data);
+      } catch (err) {
+        // Not fatal - the event is created without auto-created checklists
+        console.error('Error loading auto-create checklists:', err);
+        if (!cancelled) setAutoCreatePreview([]);
+      } finally {
+        if (!cancelled) setLoadingPreview(false);
+      }
+    };
+
+    loadPreview();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, primaryCategoryId, additionalCategoryIds]);
+
   // Group primary categories by SubGroup for display
   const primaryCategoriesByGroup = primaryCategories.reduce((acc, cat) => {
     if (!acc[cat.subGroup]) {
@@ -137,16 +186,63 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
     setEventType(e.target.value as EventType);
   };
 
-  const handleSubmit = async () => {
-    // Validation
+  const toggleTemplate = (templateId: string, checked: boolean) => {
+    setExcludedTemplateIds((prev) =>
+      checked ? prev.filter((id) => id !== templateId) : [...prev, templateId]
+    );
+  };
+
+  const selectedTemplateIds = autoCreatePreview
+    .map((p) => p.templateId)
+    .filter((id) => !excludedTemplateIds.includes(id));
+
+  const validate = (): boolean => {
     if (!name.trim()) {
       setError('Event name is required');
-      return;
+      return false;
     }
     if (!primaryCategoryId) {
       setError('Primary category is required');
-      return;
+      return false;
     }
+    return true;
+  };
+
+  const handleNext = () => {
+    if (!validate()) return;
+    setError(null);
+    setStep('checklists');
+  };
+
+  /**
+   * Generate the kept checklists for the new event. Failures are reported
+   * but don't undo the event.
+   */
+  const autoCreateChecklists = async (eventId: string) => {
+    if (selectedTemplateIds.length === 0) return;
+
+    try {
+      const result = await checklistService.autoCreateChecklists({
+        eventId,
+        templateIds: selectedTemplateIds,
+      });
+      if (result.created.length > 0) {
+        toast.success(
+          `Created ${result.created.length} checklist${result.created.length === 1 ? '' : 's'} for the event`
+        );
+      }
+      if (result.skipped.length > 0) {
+        toast.warning(
+          `Skipped ${result.skipped.map((s) => `${s.templateName || 'template'} (${s.reason})`).join(', ')}`
+        );
+      }
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to create checklists for the event');
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!validate()) return;
 
     setSaving(true);
     setError(null);
@@ -164,6 +260,8 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
       // Select the new event as current
       selectEvent(newEvent);
 
+      await autoCreateChecklists(newEvent.id);
+
       if (onEventCreated) {
         onEventCreated(newEvent.id);
       }
@@ -191,127 +289,194 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
       contentWidth="500px"
     >
       <Stack spacing={CobraStyles.Spacing.FormFields}>
-        {/* Event Name */}
-        <CobraTextField
-          label="Event Name"
-          value={name}
-          onChange={(e) => setName(e.target.value)}
-          fullWidth
-          required
-          placeholder="e.g., Hurricane Milton Response"
-          error={!!error && !name.trim()}
-          helperText={error && !name.trim() ? 'Event name is required' : ''}
-        />
-
-        {/* Event Type */}
-        <FormControl component="fieldset">
-          <FormLabel
-            component="legend"
-            sx={{ fontSize: '0.875rem', fontWeight: 'bold', mb: 1 }}
-          >
-            Event Type *
-          </FormLabel>
-          <RadioGroup
-            row
-            value={eventType}
-            onChange={handleEventTypeChange}
-          >
-            <FormControlLabel
-              value="Unplanned"
-              control={<Radio size="small" />}
-              label={
-                <Box>
-                  <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                    Unplanned
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    Emergency incidents
-                  </Typography>
-                </Box>
-              }
-              sx={{ mr: 4 }}
+        {step === 'details' && (
+          <>
+            {/* Event Name */}
+            <CobraTextField
+              label="Event Name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              fullWidth
+              required
+              placeholder="e.g., Hurricane Milton Response"
+              error={!!error && !name.trim()}
+              helperText={error && !name.trim() ? 'Event name is required' : ''}
             />
-            <FormControlLabel
-              value="Planned"
-              control={<Radio size="small" />}
-              label={
-                <Box>
-                  <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-                    Planned
-                  </Typography>
-                  <Typography variant="caption" color="text.secondary">
-                    Scheduled events
-                  </Typography>
-                </Box>
+
+            {/* Event Type */}
+            <FormControl component="fieldset">
+              <FormLabel
+                component="legend"
+                sx={{ fontSize: '0.875rem', fontWeight: 'bold', mb: 1 }}
+              >
+                Event Type *
+              </FormLabel>
+              <RadioGroup
+                row
+                value={eventType}
+                onChange={handleEventTypeChange}
+              >
+                <FormControlLabel
+                  value="Unplanned"
+                  control={<Radio size="small" />}
+                  label={
+                    <Box>
+                      <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                        Unplanned
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        Emergency incidents
+                      </Typography>
+                    </Box>
+                  }
+                  sx={{ mr: 4 }}
+                />
+                <FormControlLabel
+                  value="Planned"
+                  control={<Radio size="small" />}
+                  label={
+                    <Box>
+                      <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                        Planned
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        Scheduled events
+                      </Typography>
+                    </Box>
+                  }
+                />
+              </RadioGroup>
+            </FormControl>
+
+            {/* Primary Category */}
+            <FormControl fullWidth required error={!!error && !primaryCategoryId}>
+              <InputLabel id="primary-category-label">Primary Category</InputLabel>
+              <Select
+                labelId="primary-category-label"
+                value={primaryCategoryId}
+                label="Primary Category"
+                onChange={(e) => setPrimaryCategoryId(e.target.value)}
+                disabled={loadingCategories}
+                sx={{ backgroundColor: 'white' }}
+              >
+                {loadingCategories && (
+                  <MenuItem disabled>
+                    <CircularProgress size={16} sx={{ mr: 1 }} />
+                    Loading categories...
+                  </MenuItem>
+                )}
+                {Object.entries(primaryCategoriesByGroup).map(([group, cats]) => [
+                  <MenuItem key={`header-${group}`} disabled sx={{ fontWeight: 'bold', opacity: 1 }}>
+                    {group}
+                  </MenuItem>,
+                  ...cats.map((cat) => (
+                    <MenuItem key={cat.id} value={cat.id} sx={{ pl: 3 }}>
+                      {cat.name}
+                    </MenuItem>
+                  )),
+                ])}
+              </Select>
+              {error && !primaryCategoryId && (
+                <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
+                  Primary category is required
+                </Typography>
+              )}
+            </FormControl>
+
+            {/* Additional Categories */}
+            <Autocomplete
+              multiple
+              options={additionalOptions}
+              getOptionLabel={(option) => option.name}
+              value={allCategories.filter(c => additionalCategoryIds.includes(c.id))}
+              onChange={(_, newValue) => {
+                setAdditionalCategoryIds(newValue.map(v => v.id));
+              }}
+              groupBy={(option) => option.subGroup}
+              disabled={loadingCategories || !primaryCategoryId}
+              renderInput={(params) => (
+                <CobraTextField
+                  {...params}
+                  label="Additional Categories (Optional)"
+                  placeholder="Select additional categories..."
+                />
+              )}
+              renderTags={(value, getTagProps) =>
+                value.map((option, index) => (
+                  <Chip
+                    label={option.name}
+                    size="small"
+                    {...getTagProps({ index })}
+                    key={option.id}
+                  />
+                ))
               }
             />
-          </RadioGroup>
-        </FormControl>
-
-        {/* Primary Category */}
-        <FormControl fullWidth required error={!!error && !primaryCategoryId}>
-          <InputLabel id="primary-category-label">Primary Category</InputLabel>
-          <Select
-            labelId="primary-category-label"
-            value={primaryCategoryId}
-            label="Primary Category"
-            onChange={(e) => setPrimaryCategoryId(e.target.value)}
-            disabled={loadingCategories}
-            sx={{ backgroundColor: 'white' }}
-          >
-            {loadingCategories && (
-              <MenuItem disabled>
-                <CircularProgress size={16} sx={{ mr: 1 }} />
-                Loading categories...
-              </MenuItem>
+
+            {/* Preview */}
+            {name.trim() && primaryCategory && (
+              <Box
+                sx={{
+                  p: 1.5,
+                  backgroundColor: 'rgba(0, 32, 194, 0.05)',
+                  borderRadius: 1,
+                  border: '1px solid rgba(0, 32, 194, 0.2)',
+                }}
+              >
+                <Typography variant="caption" color="text.secondary">
+                  Preview:
+                </Typography>
+                <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                  {name}
+                </Typography>
+                <Typography variant="caption">
+                  {eventType} - {primaryCategory.name}
+                  {additionalCategoryIds.length > 0 && (
+                    <> + {additionalCategoryIds.length} more</>
+                  )}
+                </Typography>
+                {autoCreatePreview.length > 0 && (
+                  <Typography variant="caption" display="block" color="text.secondary">
+                    {autoCreatePreview.length} checklist{autoCreatePreview.length === 1 ? '' : 's'} will be
+                    auto-created for these categories
+                  </Typography>
+                )}
+              </Box>
             )}
-            {Object.entries(primaryCategoriesByGroup).map(([group, cats]) => [
-              <MenuItem key={`header-${group}`} disabled sx={{ fontWeight: 'bold', opacity: 1 }}>
-                {group}
-              </MenuItem>,
-              ...cats.map((cat) => (
-                <MenuItem key={cat.id} value={cat.id} sx={{ pl: 3 }}>
-                  {cat.name}
-                </MenuItem>
-              )),
-            ])}
-          </Select>
-          {error && !primaryCategoryId && (
-            <Typography variant="caption" color="error" sx={{ mt: 0.5 }}>
-              Primary category is required
+          </>
+        )}
+
+        {/* Auto-created checklists (opt out by unchecking) */}
+        {step === 'checklists' && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              These checklists will be created for <strong>{name.trim()}</strong> from templates set to
+              auto-create for its categories. Uncheck any you don&apos;t need.
             </Typography>
-          )}
-        </FormControl>
-
-        {/* Additional Categories */}
-        <Autocomplete
-          multiple
-          options={additionalOptions}
-          getOptionLabel={(option) => option.name}
-          value={allCategories.filter(c => additionalCategoryIds.includes(c.id))}
-          onChange={(_, newValue) => {
-            setAdditionalCategoryIds(newValue.map(v => v.id));
-          }}
-          groupBy={(option) => option.subGroup}
-          disabled={loadingCategories || !primaryCategoryId}
-          renderInput={(params) => (
-            <CobraTextField
-              {...params}
-              label="Additional Categories (Optional)"
-              placeholder="Select additional categories..."
-            />
-          )}
-          renderTags={(value, getTagProps) =>
-            value.map((option, index) => (
-              <Chip
-                label={option.name}
-                size="small"
-                {...getTagProps({ index })}
-                key={option.id}
-              />
-            ))
-          }
-        />
+            <List dense disablePadding>
+              {autoCreatePreview.map((preview) => (
+                <ListItem key={preview.templateId} disableGutters sx={{ display: 'block' }}>
+                  <CobraCheckbox
+                    label={preview.templateName}
+                    checked={!excludedTemplateIds.includes(preview.templateId)}
+                    onChange={(e) => toggleTemplate(preview.templateId, e.target.checked)}
+                    disabled={saving}
+                  />
+                  <Typography variant="caption" color="text.secondary" display="block" sx={{ pl: 4 }}>
+                    {preview.itemCount} item{preview.itemCount === 1 ? '' : 's'}
+                    {' · '}
+                    {preview.positions.length > 0 ? preview.positions.join(', ') : 'All positions'}
+                    {' · '}
+                    Matches {preview.matchedCategories.join(', ')}
+                  </Typography>
+                </ListItem>
+              ))}
+            </List>
+            <Typography variant="caption" color="text.secondary">
+              {selectedTemplateIds.length} of {autoCreatePreview.length} checklists selected
+            </Typography>
+          </>
+        )}
 
         {/* Error message */}
         {error && name.trim() && primaryCategoryId && (
@@ -320,41 +485,28 @@ export const CreateEventDialog: React.FC<CreateEventDialogProps> = ({
           </Typography>
         )}
 
-        {/* Preview */}
-        {name.trim() && primaryCategory && (
-          <Box
-            sx={{
-              p: 1.5,
-              backgroundColor: 'rgba(0, 32, 194, 0.05)',
-              borderRadius: 1,
-              border: '1px solid rgba(0, 32, 194, 0.2)',
-            }}
-          >
-            <Typography variant="caption" color="text.secondary">
-              Preview:
-            </Typography>
-            <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
-              {name}
-            </Typography>
-            <Typography variant="caption">
-              {eventType} - {primaryCategory.name}
-              {additionalCategoryIds.length > 0 && (
-                <> + {additionalCategoryIds.length} more</>
-              )}
-            </Typography>
-          </Box>
-        )}
-
         {/* Actions */}
         <DialogActions sx={{ px: 0, pb: 0 }}>
-          <CobraLinkButton onClick={onClose}>Cancel</CobraLinkButton>
-          <CobraSaveButton
-            onClick={handleSubmit}
-            isSaving={saving}
-            disabled={!name.trim() || !primaryCategoryId || saving}
-          >
-            Create Event
-          </CobraSaveButton>
+          {step === 'checklists' ? (
+            <CobraLinkButton onClick={() => setStep('details')} disabled={saving}>
+              Back
+            </CobraLinkButton>
+          ) : (
+            <CobraLinkButton onClick={onClose}>Cancel</CobraLinkButton>
+          )}
+          {step === 'details' && autoCreatePreview.length > 0 ? (
+            <CobraPrimaryButton onClick={handleNext} disabled={!name.trim() || !primaryCategoryId}>
+              Next
+            </CobraPrimaryButton>
+          ) : (
+            <CobraSaveButton
+              onClick={handleSubmit}
+              isSaving={saving}
+              disabled={!name.trim() || !primaryCategoryId || saving || loadingPreview}
+            >
+              Create Event
+            </CobraSaveButton>
+          )}
         </DialogActions>
       </Stack>
     </CobraDialog>
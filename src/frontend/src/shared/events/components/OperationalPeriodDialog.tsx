@@ -0,0 +1,186 @@
+/**
+ * OperationalPeriodDialog Component
+ *
+ * Dialog for creating or editing an operational period of the current event:
+ * - Name, start and end time (end optional = open-ended)
+ * - Objectives for the period, one per line
+ *
+ * New periods default to starting when the latest period ends, for 12 hours.
+ */
+
+import React, { useState, useEffect } from 'react';
+import { Alert, DialogActions, Stack } from '@mui/material';
+import { addHours, format, startOfHour } from 'date-fns';
+import {
+  CobraDialog,
+  CobraTextField,
+  CobraSaveButton,
+  CobraLinkButton,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { useOperationalPeriods } from '../hooks/useOperationalPeriods';
+import { parsePeriodTime, validatePeriodForm } from '../utils/operationalPeriods';
+import type { OperationalPeriod } from '../types';
+
+const DEFAULT_PERIOD_HOURS = 12;
+
+/**
+ * Value for a datetime-local input
+ */
+const toInputDateTime = (value?: string | Date | null): string =>
+  value ? format(typeof value === 'string' ? parsePeriodTime(value) : value, "yyyy-MM-dd'T'HH:mm") : '';
+
+/**
+ * ISO string from a datetime-local input (null when cleared)
+ */
+const fromInputDateTime = (value: string): string | null =>
+  value ? new Date(value).toISOString() : null;
+
+interface OperationalPeriodDialogProps {
+  open: boolean;
+  onClose: () => void;
+  eventId: string;
+  /** Period to edit; omit to create a new period */
+  period?: OperationalPeriod | null;
+  onSaved?: (period: OperationalPeriod) => void;
+}
+
+/**
+ * OperationalPeriodDialog Component
+ */
+export const OperationalPeriodDialog: React.FC<OperationalPeriodDialogProps> = ({
+  open,
+  onClose,
+  eventId,
+  period,
+  onSaved,
+}) => {
+  const { periods, createPeriod, updatePeriod } = useOperationalPeriods(eventId);
+
+  // Form state (datetime-local values)
+  const [name, setName] = useState('');
+  const [startTime, setStartTime] = useState('');
+  const [endTime, setEndTime] = useState('');
+  const [objectives, setObjectives] = useState('');
+
+  // UI state
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Initialize form when dialog opens
+  useEffect(() => {
+    if (!open) return;
+
+    setError(null);
+    if (period) {
+      setName(period.name);
+      setStartTime(toInputDateTime(period.startTime));
+      setEndTime(toInputDateTime(period.endTime));
+      setObjectives(period.objectives ?? '');
+      return;
+    }
+
+    // Follow on from the latest period
+    const latest = periods[periods.length - 1];
+    const start = latest?.endTime ? parsePeriodTime(latest.endTime) : startOfHour(new Date());
+    setName(`OP ${periods.length + 1}`);
+    setStartTime(toInputDateTime(start));
+    setEndTime(toInputDateTime(addHours(start, DEFAULT_PERIOD_HOURS)));
+    setObjectives('');
+    // Only re-initialize on open, not when other instances refresh periods
+  }, [open, period]);
+
+  const handleSubmit = async () => {
+    const form = {
+      name: name.trim(),
+      startTime: fromInputDateTime(startTime) ?? '',
+      endTime: fromInputDateTime(endTime),
+      objectives: objectives.trim() || null,
+    };
+
+    const validationError = validatePeriodForm(form);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+
+    try {
+      setSaving(true);
+      setError(null);
+      const saved = period
+        ? await updatePeriod(period.id, { ...form, description: period.description })
+        : await createPeriod({ ...form, eventId });
+      onSaved?.(saved);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save operational period');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <CobraDialog
+      open={open}
+      onClose={onClose}
+      title={period ? 'Edit Operational Period' : 'New Operational Period'}
+      contentWidth="500px"
+    >
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)}>
+            {error}
+          </Alert>
+        )}
+
+        <CobraTextField
+          label="Period Name"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          fullWidth
+          required
+          autoFocus
+          placeholder="e.g., OP 3 - 12/20 0600-1800"
+        />
+
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+          <CobraTextField
+            label="Start"
+            type="datetime-local"
+            value={startTime}
+            onChange={(e) => setStartTime(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            required
+          />
+          <CobraTextField
+            label="End"
+            type="datetime-local"
+            value={endTime}
+            onChange={(e) => setEndTime(e.target.value)}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+            helperText="Leave blank if the end is not yet known"
+          />
+        </Stack>
+
+        <CobraTextField
+          label="Objectives"
+          value={objectives}
+          onChange={(e) => setObjectives(e.target.value)}
+          fullWidth
+          multiline
+          minRows={3}
+          helperText="One objective per line"
+        />
+
+        <DialogActions sx={{ px: 0, pb: 0 }}>
+          <CobraLinkButton onClick={onClose}>Cancel</CobraLinkButton>
+          <CobraSaveButton onClick={handleSubmit} isSaving={saving} disabled={!name.trim() || saving}>
+            {period ? 'Save Period' : 'Create Period'}
+          </CobraSaveButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -0,0 +1,263 @@
+/**
+ * OperationalPeriodSelector Component
+ *
+ * Displays the current operational period in the header, next to the
+ * event selector, with a dropdown to:
+ * - Follow the period in effect now (detected from wall-clock time)
+ * - Pin a different period of the event
+ * - View the current period's objectives
+ * - Create or edit periods (Manage role)
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Menu,
+  MenuItem,
+  Typography,
+  Divider,
+  ListItemIcon,
+  ListItemText,
+  Chip,
+  CircularProgress,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faChevronDown,
+  faClock,
+  faCheck,
+  faPlus,
+  faPen,
+  faRotate,
+} from '@fortawesome/free-solid-svg-icons';
+import { useEvents } from '../hooks/useEvents';
+import { useOperationalPeriods } from '../hooks/useOperationalPeriods';
+import { usePermissions } from '../../hooks/usePermissions';
+import { formatPeriodWindow, parseObjectives } from '../utils/operationalPeriods';
+import { OperationalPeriodDialog } from './OperationalPeriodDialog';
+import type { OperationalPeriod } from '../types';
+
+/**
+ * OperationalPeriodSelector Component
+ */
+export const OperationalPeriodSelector: React.FC = () => {
+  const { currentEvent } = useEvents();
+  const {
+    periods,
+    currentPeriod,
+    detectedPeriod,
+    isAutoSelected,
+    loading,
+    selectPeriod,
+  } = useOperationalPeriods();
+  const permissions = usePermissions();
+  const [anchorEl, setAnchorEl] = useState<null | HTMLElement>(null);
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingPeriod, setEditingPeriod] = useState<OperationalPeriod | null>(null);
+
+  // Periods belong to an event
+  if (!currentEvent) {
+    return null;
+  }
+
+  const open = Boolean(anchorEl);
+  const objectives = parseObjectives(currentPeriod?.objectives);
+
+  const handleClose = () => {
+    setAnchorEl(null);
+  };
+
+  const handleSelect = (periodId: string | null) => {
+    selectPeriod(periodId);
+    handleClose();
+  };
+
+  const handleOpenDialog = (period: OperationalPeriod | null) => {
+    handleClose();
+    setEditingPeriod(period);
+    setDialogOpen(true);
+  };
+
+  return (
+    <>
+      <Button
+        onClick={(e) => setAnchorEl(e.currentTarget)}
+        sx={{
+          color: '#FFFACD',
+          textTransform: 'none',
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          ml: 1,
+          py: 0.5,
+          px: 1.5,
+          borderRadius: 1,
+          backgroundColor: 'rgba(255, 255, 255, 0.1)',
+          '&:hover': {
+            backgroundColor: 'rgba(255, 255, 255, 0.2)',
+          },
+        }}
+      >
+        <FontAwesomeIcon icon={faClock} />
+        <Box sx={{ display: { xs: 'none', md: 'flex' }, flexDirection: 'column', alignItems: 'flex-start' }}>
+          <Typography
+            variant="body2"
+            sx={{
+              fontWeight: 'bold',
+              lineHeight: 1.2,
+              maxWidth: 180,
+              overflow: 'hidden',
+              textOverflow: 'ellipsis',
+              whiteSpace: 'nowrap',
+            }}
+          >
+            {currentPeriod?.name || 'No Operational Period'}
+          </Typography>
+          {currentPeriod && (
+            <Typography variant="caption" sx={{ opacity: 0.8, lineHeight: 1.2 }}>
+              {isAutoSelected ? formatPeriodWindow(currentPeriod) : 'Pinned'}
+            </Typography>
+          )}
+        </Box>
+        <FontAwesomeIcon icon={faChevronDown} size="sm" />
+      </Button>
+
+      <Menu
+        anchorEl={anchorEl}
+        open={open}
+        onClose={handleClose}
+        PaperProps={{
+          sx: {
+            minWidth: 320,
+            maxWidth: 400,
+            maxHeight: 560,
+          },
+        }}
+      >
+        {/* Header */}
+        <Box sx={{ px: 2, py: 1.5 }}>
+          <Typography variant="h6" sx={{ fontSize: '1rem', fontWeight: 'bold' }}>
+            Operational Period
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            New checklists default to the current period
+          </Typography>
+        </Box>
+
+        <Divider />
+
+        {/* Loading state */}
+        {loading && periods.length === 0 && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {/* Follow the detected period */}
+        {periods.length > 0 && (
+          <MenuItem onClick={() => handleSelect(null)} selected={isAutoSelected} sx={{ py: 1.5 }}>
+            <ListItemIcon sx={{ minWidth: 36 }}>
+              <FontAwesomeIcon icon={faRotate} />
+            </ListItemIcon>
+            <ListItemText
+              primary={<Typography variant="body2">Follow current period</Typography>}
+              secondary={detectedPeriod ? `Now: ${detectedPeriod.name}` : 'No period in effect'}
+            />
+          </MenuItem>
+        )}
+
+        {/* Periods list */}
+        <Box sx={{ maxHeight: 260, overflowY: 'auto' }}>
+          {periods.map((period) => {
+            const isPinned = !isAutoSelected && currentPeriod?.id === period.id;
+            return (
+              <MenuItem key={period.id} onClick={() => handleSelect(period.id)} selected={isPinned}>
+                <ListItemIcon sx={{ minWidth: 36 }}>
+                  {isPinned && <FontAwesomeIcon icon={faCheck} />}
+                </ListItemIcon>
+                <ListItemText
+                  primary={
+                    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                      <Typography variant="body2" sx={{ fontWeight: isPinned ? 'bold' : 'normal' }}>
+                        {period.name}
+                      </Typography>
+                      {detectedPeriod?.id === period.id && (
+                        <Chip label="Now" size="small" color="success" sx={{ height: 18, fontSize: '0.65rem' }} />
+                      )}
+                    </Box>
+                  }
+                  secondary={formatPeriodWindow(period)}
+                />
+              </MenuItem>
+            );
+          })}
+        </Box>
+
+        {/* No periods message */}
+        {!loading && periods.length === 0 && (
+          <Box sx={{ px: 2, py: 3, textAlign: 'center' }}>
+            <Typography variant="body2" color="text.secondary">
+              This event has no operational periods. Checklists are incident-level.
+            </Typography>
+          </Box>
+        )}
+
+        {/* Current period objectives */}
+        {objectives.length > 0 && (
+          <Box sx={{ px: 2, py: 1.5 }}>
+            <Divider sx={{ mb: 1.5 }} />
+            <Typography variant="caption" sx={{ fontWeight: 'bold' }}>
+              {currentPeriod?.name} Objectives
+            </Typography>
+            <Box component="ol" sx={{ m: 0, pl: 2.5 }}>
+              {objectives.map((objective, index) => (
+                <Typography component="li" variant="body2" key={index}>
+                  {objective}
+                </Typography>
+              ))}
+            </Box>
+          </Box>
+        )}
+
+        {/* Manage periods */}
+        {permissions.canManageOperationalPeriods && [
+          <Divider key="divider" />,
+          <MenuItem key="create" onClick={() => handleOpenDialog(null)} sx={{ py: 1.5 }}>
+            <ListItemIcon sx={{ minWidth: 36 }}>
+              <FontAwesomeIcon icon={faPlus} style={{ color: '#0020C2' }} />
+            </ListItemIcon>
+            <ListItemText
+              primary={
+                <Typography variant="body2" sx={{ fontWeight: 'bold', color: '#0020C2' }}>
+                  New Operational Period
+                </Typography>
+              }
+            />
+          </MenuItem>,
+          currentPeriod && (
+            <MenuItem key="edit" onClick={() => handleOpenDialog(currentPeriod)} sx={{ py: 1.5 }}>
+              <ListItemIcon sx={{ minWidth: 36 }}>
+                <FontAwesomeIcon icon={faPen} style={{ color: '#0020C2' }} />
+              </ListItemIcon>
+              <ListItemText
+                primary={
+                  <Typography variant="body2" sx={{ color: '#0020C2' }}>
+                    Edit {currentPeriod.name}
+                  </Typography>
+                }
+              />
+            </MenuItem>
+          ),
+        ]}
+      </Menu>
+
+      <OperationalPeriodDialog
+        open={dialogOpen}
+        onClose={() => setDialogOpen(false)}
+        eventId={currentEvent.id}
+        period={editingPeriod}
+      />
+    </>
+  );
+};
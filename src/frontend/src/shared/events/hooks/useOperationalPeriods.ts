@@ -0,0 +1,275 @@
+/**
+ * useOperationalPeriods Hook
+ *
+ * Provides an event's operational periods throughout the application.
+ * - Fetches periods for the current event (or a given event)
+ * - Detects the current period from wall-clock time and re-detects when a
+ *   period starts or ends
+ * - Lets the user pin a different period (persisted per event to
+ *   localStorage); unpinned, the detected period is used
+ *
+ * Like useEvents, hook instances stay in sync through window events.
+ */
+
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { toast } from 'react-toastify';
+import { useEvents } from './useEvents';
+import { operationalPeriodService } from '../services/operationalPeriodService';
+import { findCurrentPeriod, getNextPeriodBoundary } from '../utils/operationalPeriods';
+import type {
+  OperationalPeriod,
+  CreateOperationalPeriodRequest,
+  UpdateOperationalPeriodRequest,
+} from '../types';
+
+// Module-level request deduplication per event (React StrictMode protection)
+const fetchPeriodsInFlight = new Map<string, Promise<OperationalPeriod[]>>();
+
+interface UseOperationalPeriodsResult {
+  // State
+  periods: OperationalPeriod[];
+  /** Pinned period, or the detected period when nothing is pinned */
+  currentPeriod: OperationalPeriod | null;
+  /** Period in effect now, from wall-clock time */
+  detectedPeriod: OperationalPeriod | null;
+  /** True when following the detected period (nothing pinned) */
+  isAutoSelected: boolean;
+  loading: boolean;
+  error: string | null;
+
+  // Actions
+  fetchPeriods: () => Promise<void>;
+  selectPeriod: (periodId: string | null) => void;
+  createPeriod: (request: CreateOperationalPeriodRequest) => Promise<OperationalPeriod>;
+  updatePeriod: (id: string, request: UpdateOperationalPeriodRequest) => Promise<OperationalPeriod>;
+  archivePeriod: (id: string) => Promise<void>;
+}
+
+const SELECTED_PERIODS_KEY = 'selectedOperationalPeriods';
+
+/** Re-detect at least hourly, in case the clock jumped (sleep, time change) */
+const MAX_REDETECT_DELAY_MS = 60 * 60 * 1000;
+
+/**
+ * Get pinned period IDs by event ID from localStorage
+ */
+const getStoredSelections = (): Record<string, string> => {
+  try {
+    const stored = localStorage.getItem(SELECTED_PERIODS_KEY);
+    if (stored) {
+      return JSON.parse(stored);
+    }
+  } catch (error) {
+    console.error('Failed to load selected operational periods:', error);
+  }
+  return {};
+};
+
+/**
+ * Store the pinned period for an event (null = follow the detected period)
+ */
+const storeSelection = (eventId: string, periodId: string | null) => {
+  try {
+    const selections = getStoredSelections();
+    if (periodId) {
+      selections[eventId] = periodId;
+    } else {
+      delete selections[eventId];
+    }
+    localStorage.setItem(SELECTED_PERIODS_KEY, JSON.stringify(selections));
+    // Dispatch event for cross-component updates
+    window.dispatchEvent(new Event('operationalPeriodChanged'));
+  } catch (error) {
+    console.error('Failed to store selected operational period:', error);
+  }
+};
+
+/**
+ * useOperationalPeriods Hook
+ * @param eventId Event to load periods for (defaults to the current event)
+ */
+export const useOperationalPeriods = (eventId?: string): UseOperationalPeriodsResult => {
+  const { currentEvent } = useEvents();
+  const targetEventId = eventId ?? currentEvent?.id;
+
+  const [periods, setPeriods] = useState<OperationalPeriod[]>([]);
+  const [pinnedPeriodId, setPinnedPeriodId] = useState<string | null>(null);
+  const [now, setNow] = useState(() => new Date());
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Fetch the event's periods from API
+   * Uses module-level deduplication so mounting several pickers at once
+   * makes one request per event
+   */
+  const fetchPeriods = useCallback(async () => {
+    if (!targetEventId) {
+      setPeriods([]);
+      return;
+    }
+
+    try {
+      setLoading(true);
+      setError(null);
+
+      let request = fetchPeriodsInFlight.get(targetEventId);
+      if (!request) {
+        request = operationalPeriodService.getPeriods(targetEventId);
+        fetchPeriodsInFlight.set(targetEventId, request);
+        // Clear after a short delay so concurrent callers share the result
+        request
+          .catch(() => undefined)
+          .finally(() => setTimeout(() => fetchPeriodsInFlight.delete(targetEventId), 100));
+      }
+
+      const data = await request;
+      setPeriods(Array.isArray(data) ? data : []);
+      setNow(new Date());
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load operational periods';
+      setError(message);
+      console.error('Error fetching operational periods:', err);
+    } finally {
+      setLoading(false);
+    }
+  }, [targetEventId]);
+
+  // Load periods and the pinned selection when the event changes
+  useEffect(() => {
+    setPinnedPeriodId(targetEventId ? getStoredSelections()[targetEventId] ?? null : null);
+    fetchPeriods();
+  }, [targetEventId, fetchPeriods]);
+
+  // Re-detect the current period when the next period starts or ends
+  useEffect(() => {
+    const boundary = getNextPeriodBoundary(periods, now);
+    const delay = boundary
+      ? Math.min(boundary.getTime() - now.getTime(), MAX_REDETECT_DELAY_MS)
+      : MAX_REDETECT_DELAY_MS;
+
+    const timer = setTimeout(() => setNow(new Date()), delay);
+    return () => clearTimeout(timer);
+  }, [periods, now]);
+
+  // Listen for selection and list changes from other components
+  useEffect(() => {
+    const handleSelectionChange = () => {
+      setPinnedPeriodId(targetEventId ? getStoredSelections()[targetEventId] ?? null : null);
+    };
+
+    const handleListChange = () => {
+      fetchPeriods();
+    };
+
+    window.addEventListener('operationalPeriodChanged', handleSelectionChange);
+    window.addEventListener('storage', handleSelectionChange);
+    window.addEventListener('operationalPeriodsListChanged', handleListChange);
+
+    return () => {
+      window.removeEventListener('operationalPeriodChanged', handleSelectionChange);
+      window.removeEventListener('storage', handleSelectionChange);
+      window.removeEventListener('operationalPeriodsListChanged', handleListChange);
+    };
+  }, [targetEventId, fetchPeriods]);
+
+  const detectedPeriod = useMemo(() => findCurrentPeriod(periods, now), [periods, now]);
+  const pinnedPeriod = periods.find((p) => p.id === pinnedPeriodId) ?? null;
+
+  /**
+   * Pin a period as current, or pass null to follow the detected period
+   */
+  const selectPeriod = useCallback(
+    (periodId: string | null) => {
+      if (!targetEventId) return;
+
+      setPinnedPeriodId(periodId);
+      storeSelection(targetEventId, periodId);
+
+      const period = periods.find((p) => p.id === periodId);
+      toast.info(period ? `Switched to: ${period.name}` : 'Following the current operational period');
+    },
+    [targetEventId, periods]
+  );
+
+  /**
+   * Create a new operational period
+   */
+  const createPeriod = useCallback(async (request: CreateOperationalPeriodRequest) => {
+    try {
+      const period = await operationalPeriodService.createPeriod(request);
+      setPeriods((prev) =>
+        [...prev, period].sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+      );
+      toast.success(`Created operational period: ${period.name}`);
+      // Notify other hook instances to refresh their periods
+      window.dispatchEvent(new Event('operationalPeriodsListChanged'));
+      return period;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create operational period';
+      toast.error(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Update an existing operational period
+   */
+  const updatePeriod = useCallback(async (id: string, request: UpdateOperationalPeriodRequest) => {
+    try {
+      const period = await operationalPeriodService.updatePeriod(id, request);
+      setPeriods((prev) =>
+        prev
+          .map((p) => (p.id === id ? period : p))
+          .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime())
+      );
+      toast.success(`Updated operational period: ${period.name}`);
+      window.dispatchEvent(new Event('operationalPeriodsListChanged'));
+      return period;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to update operational period';
+      toast.error(message);
+      throw err;
+    }
+  }, []);
+
+  /**
+   * Archive an operational period (soft delete)
+   */
+  const archivePeriod = useCallback(
+    async (id: string) => {
+      try {
+        await operationalPeriodService.archivePeriod(id);
+        setPeriods((prev) => prev.filter((p) => p.id !== id));
+
+        // An archived period can't stay pinned
+        if (targetEventId && pinnedPeriodId === id) {
+          setPinnedPeriodId(null);
+          storeSelection(targetEventId, null);
+        }
+
+        toast.success('Operational period archived');
+        window.dispatchEvent(new Event('operationalPeriodsListChanged'));
+      } catch (err) {
+        const message = err instanceof Error ? err.message : 'Failed to archive operational period';
+        toast.error(message);
+        throw err;
+      }
+    },
+    [targetEventId, pinnedPeriodId]
+  );
+
+  return {
+    periods,
+    currentPeriod: pinnedPeriod ?? detectedPeriod,
+    detectedPeriod,
+    isAutoSelected: pinnedPeriod === null,
+    loading,
+    error,
+    fetchPeriods,
+    selectPeriod,
+    createPeriod,
+    updatePeriod,
+    archivePeriod,
+  };
+};
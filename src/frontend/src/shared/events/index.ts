@@ -5,6 +5,7 @@
  * - Event listing and selection
  * - Event creation
  * - Event categories
+ * - Operational periods (current period detection and selection)
  *
  * This module is shared because events are the top-level container
  * for all POC tools.
@@ -13,12 +14,19 @@
 // Components
 export { EventSelector } from './components/EventSelector';
 export { CreateEventDialog } from './components/CreateEventDialog';
+export { OperationalPeriodSelector } from './components/OperationalPeriodSelector';
+export { OperationalPeriodDialog } from './components/OperationalPeriodDialog';
 
 // Hooks
 export { useEvents, getCurrentEvent, triggerEventChange } from './hooks/useEvents';
+export { useOperationalPeriods } from './hooks/useOperationalPeriods';
 
 // Services
 export { eventService, eventCategoryService } from './services/eventService';
+export { operationalPeriodService } from './services/operationalPeriodService';
+
+// Utils
+export { findCurrentPeriod, formatPeriodWindow, parseObjectives } from './utils/operationalPeriods';
 
 // Pages
 export { EventsListPage } from './pages/EventsListPage';
@@ -32,4 +40,7 @@ export type {
   EventCategorySubGroup,
   CreateEventRequest,
   UpdateEventRequest,
+  OperationalPeriod,
+  CreateOperationalPeriodRequest,
+  UpdateOperationalPeriodRequest,
 } from './types';
@@ -1,14 +1,14 @@
 /**
  * Event Landing Page
  *
- * Displays details about the current event and provides
- * navigation to event-specific tools.
+ * Displays details about the current event, the checklists auto-created
+ * for its categories, and navigation to event-specific tools.
  *
  * Route: /events/:eventId
  * Breadcrumb: Home / Events / [Event Name]
  */
 
-import React, { useEffect } from "react";
+import React, { useEffect, useState } from "react";
 import { useParams, useNavigate } from "react-router-dom";
 import {
   Container,
@@ -22,6 +22,7 @@ import {
   Stack,
   Divider,
   CircularProgress,
+  LinearProgress,
 } from "@mui/material";
 import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
 import {
@@ -36,6 +37,7 @@ import {
   faListCheck,
   faBrain,
   faFileLines,
+  faWandMagicSparkles,
 } from "@fortawesome/free-solid-svg-icons";
 import { useEvents } from "../hooks/useEvents";
 import { useFeatureFlags } from "../../../admin/contexts/FeatureFlagsContext";
@@ -43,6 +45,10 @@ import { getIconFromName, getEventTypeColor } from "../utils/iconMapping";
 import CobraStyles from "../../../theme/CobraStyles";
 import { useTheme } from "@mui/material/styles";
 import type { FeatureFlags } from "../../../admin/types/featureFlags";
+import {
+  checklistService,
+  type ChecklistInstanceDto,
+} from "../../../tools/checklist/services/checklistService";
 
 interface ToolCardProps {
   icon: typeof faClipboardList;
@@ -106,6 +112,32 @@ const ToolCard: React.FC<ToolCardProps> = ({ icon, title, description, path, dis
   );
 };
 
+/**
+ * Card for a checklist auto-created for the event's categories
+ */
+const AutoCreatedChecklistCard: React.FC<{ checklist: ChecklistInstanceDto }> = ({ checklist }) => {
+  const navigate = useNavigate();
+
+  return (
+    <Card sx={{ height: "100%", "&:hover": { boxShadow: 4 } }}>
+      <CardActionArea onClick={() => navigate(`/checklists/${checklist.id}`)} sx={{ height: "100%", p: 2 }}>
+        <Typography variant="subtitle1" fontWeight={600}>
+          {checklist.name}
+        </Typography>
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {checklist.assignedPositions
+            ? checklist.assignedPositions.split(",").map((p) => p.trim()).join(", ")
+            : "All positions"}
+        </Typography>
+        <LinearProgress variant="determinate" value={Number(checklist.progressPercentage)} />
+        <Typography variant="caption" color="text.secondary">
+          {checklist.completedItems} / {checklist.totalItems} items
+        </Typography>
+      </CardActionArea>
+    </Card>
+  );
+};
+
 /**
  * Event Landing Page Component
  */
@@ -113,6 +145,7 @@ export const EventLandingPage: React.FC = () => {
   const { eventId } = useParams<{ eventId: string }>();
   const { events, currentEvent, loading, selectEvent } = useEvents();
   const { isVisible, isComingSoon } = useFeatureFlags();
+  const [autoCreatedChecklists, setAutoCreatedChecklists] = useState<ChecklistInstanceDto[]>([]);
 
   // Select the event based on URL param if not already selected
   useEffect(() => {
@@ -124,6 +157,32 @@ export const EventLandingPage: React.FC = () => {
     }
   }, [eventId, events, currentEvent, selectEvent]);
 
+  // Checklists generated from auto-create templates when the event was created
+  useEffect(() => {
+    const currentEventId = currentEvent?.id;
+    if (!currentEventId || !isVisible("checklist")) {
+      setAutoCreatedChecklists([]);
+      return;
+    }
+
+    let cancelled = false;
+    checklistService
+      .getChecklistsByEvent(currentEventId, false, true)
+      .then((checklists) => {
+        if (!cancelled) {
+          setAutoCreatedChecklists(checklists.filter((c) => c.isAutoCreated));
+        }
+      })
+      .catch((err) => {
+        // The landing page still works without them
+        console.error("Error loading auto-created checklists:", err);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [currentEvent?.id, isVisible]);
+
   if (loading) {
     return (
       <Container maxWidth={false} disableGutters>
@@ -296,6 +355,26 @@ export const EventLandingPage: React.FC = () => {
           </CardContent>
         </Card>
 
+        {/* Auto-created Checklists */}
+        {autoCreatedChecklists.length > 0 && (
+          <Box>
+            <Typography variant="h5" sx={{ mb: 1, display: "flex", alignItems: "center", gap: 1 }}>
+              <FontAwesomeIcon icon={faWandMagicSparkles} />
+              Auto-created Checklists
+            </Typography>
+            <Typography variant="body2" color="text.secondary" sx={{ mb: 2 }}>
+              Generated for this event's categories when it was created
+            </Typography>
+            <Grid container spacing={2}>
+              {autoCreatedChecklists.map((checklist) => (
+                <Grid item xs={12} sm={6} md={4} key={checklist.id}>
+                  <AutoCreatedChecklistCard checklist={checklist} />
+                </Grid>
+              ))}
+            </Grid>
+          </Box>
+        )}
+
         <Divider />
 
         {/* Tools Section */}
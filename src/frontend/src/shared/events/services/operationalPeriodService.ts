@@ -0,0 +1,68 @@
+/**
+ * Operational Period Service - API client for operational periods
+ *
+ * Operational periods divide an event's response into time blocks
+ * (e.g., 12-hour shifts), each with its own objectives. Checklists can be
+ * created for a period and are grouped by period.
+ */
+
+import { apiClient } from '../../../core/services/api';
+import type {
+  OperationalPeriod,
+  CreateOperationalPeriodRequest,
+  UpdateOperationalPeriodRequest,
+} from '../types';
+
+/**
+ * Operational Periods API
+ */
+export const operationalPeriodService = {
+  /**
+   * Get an event's operational periods, ordered by start time
+   */
+  getPeriods: async (eventId: string, includeArchived: boolean = false): Promise<OperationalPeriod[]> => {
+    const response = await apiClient.get<OperationalPeriod[]>('/api/operational-periods', {
+      params: { eventId, includeArchived },
+    });
+    return response.data;
+  },
+
+  /**
+   * Get a specific operational period by ID
+   */
+  getPeriodById: async (id: string): Promise<OperationalPeriod> => {
+    const response = await apiClient.get<OperationalPeriod>(`/api/operational-periods/${id}`);
+    return response.data;
+  },
+
+  /**
+   * Create a new operational period
+   */
+  createPeriod: async (request: CreateOperationalPeriodRequest): Promise<OperationalPeriod> => {
+    const response = await apiClient.post<OperationalPeriod>('/api/operational-periods', request);
+    return response.data;
+  },
+
+  /**
+   * Update an existing operational period
+   */
+  updatePeriod: async (id: string, request: UpdateOperationalPeriodRequest): Promise<OperationalPeriod> => {
+    const response = await apiClient.put<OperationalPeriod>(`/api/operational-periods/${id}`, request);
+    return response.data;
+  },
+
+  /**
+   * Flag a period as the event's current period
+   */
+  setCurrentPeriod: async (id: string): Promise<OperationalPeriod> => {
+    const response = await apiClient.post<OperationalPeriod>(`/api/operational-periods/${id}/set-current`);
+    return response.data;
+  },
+
+  /**
+   * Archive an operational period (soft delete)
+   */
+  archivePeriod: async (id: string): Promise<void> => {
+    await apiClient.delete(`/api/operational-periods/${id}`);
+  },
+};
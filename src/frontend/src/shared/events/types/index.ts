@@ -77,3 +77,50 @@ export interface UpdateEventRequest {
   additionalCategoryIds?: string[];
   isActive: boolean;
 }
+
+/**
+ * Operational period - a time block of an event's response (e.g., a
+ * 12-hour shift) with the objectives for that period
+ */
+export interface OperationalPeriod {
+  id: string;
+  eventId: string;
+  name: string;
+  startTime: string;
+  /** NULL = open-ended */
+  endTime?: string | null;
+  /** Manually flagged as current; the period in effect is detected from time */
+  isCurrent: boolean;
+  description?: string | null;
+  /** Objectives for the period, one per line */
+  objectives?: string | null;
+  isArchived: boolean;
+  createdBy: string;
+  createdAt: string;
+  lastModifiedBy?: string | null;
+  lastModifiedAt?: string | null;
+}
+
+/**
+ * Request to create an operational period
+ */
+export interface CreateOperationalPeriodRequest {
+  eventId: string;
+  name: string;
+  startTime: string;
+  endTime?: string | null;
+  isCurrent?: boolean;
+  description?: string | null;
+  objectives?: string | null;
+}
+
+/**
+ * Request to update an operational period
+ */
+export interface UpdateOperationalPeriodRequest {
+  name: string;
+  startTime: string;
+  endTime?: string | null;
+  description?: string | null;
+  objectives?: string | null;
+}
@@ -0,0 +1,131 @@
+/**
+ * Operational Period Utility Tests
+ *
+ * Tests current period detection, boundaries, formatting and validation.
+ * These are pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  findCurrentPeriod,
+  formatPeriodWindow,
+  getNextPeriodBoundary,
+  parseObjectives,
+  parsePeriodTime,
+  validatePeriodForm,
+} from './operationalPeriods';
+import type { OperationalPeriod } from '../types';
+
+const now = new Date(2025, 10, 20, 14, 30);
+
+const hoursFromNow = (hours: number): string =>
+  new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+const createPeriod = (overrides: Partial<OperationalPeriod> = {}): OperationalPeriod => ({
+  id: 'op-1',
+  eventId: 'event-1',
+  name: 'OP 1',
+  startTime: hoursFromNow(-2),
+  endTime: hoursFromNow(10),
+  isCurrent: false,
+  isArchived: false,
+  createdBy: 'Planning Chief',
+  createdAt: hoursFromNow(-24),
+  ...overrides,
+});
+
+describe('findCurrentPeriod', () => {
+  it('prefers the period containing now over the flagged period', () => {
+    const periods = [
+      createPeriod({ id: 'op-1', startTime: hoursFromNow(-24), endTime: hoursFromNow(-12), isCurrent: true }),
+      createPeriod({ id: 'op-2', startTime: hoursFromNow(-12), endTime: now.toISOString() }),
+      createPeriod({ id: 'op-3' }),
+    ];
+
+    // End time is exclusive, so OP 2 has just ended
+    expect(findCurrentPeriod(periods, now)?.id).toBe('op-3');
+  });
+
+  it('uses the latest start when periods overlap', () => {
+    const periods = [
+      createPeriod({ id: 'open', startTime: hoursFromNow(-24), endTime: null }),
+      createPeriod({ id: 'later', startTime: hoursFromNow(-1) }),
+    ];
+
+    expect(findCurrentPeriod(periods, now)?.id).toBe('later');
+  });
+
+  it('falls back to the flagged period and ignores archived periods', () => {
+    const flagged = createPeriod({ id: 'flagged', startTime: hoursFromNow(6), endTime: hoursFromNow(18), isCurrent: true });
+    const archived = createPeriod({ id: 'archived', isArchived: true });
+
+    expect(findCurrentPeriod([flagged, archived], now)?.id).toBe('flagged');
+    expect(findCurrentPeriod([archived], now)).toBeNull();
+  });
+
+  it('reads period times without a zone as UTC', () => {
+    const withoutZone = (hours: number) => hoursFromNow(hours).replace('Z', '');
+    const periods = [
+      createPeriod({ id: 'earlier', startTime: withoutZone(-14), endTime: withoutZone(-1) }),
+      createPeriod({ id: 'active', startTime: withoutZone(-1), endTime: withoutZone(11) }),
+    ];
+
+    expect(parsePeriodTime(withoutZone(-1)).getTime()).toBe(now.getTime() - 60 * 60 * 1000);
+    expect(findCurrentPeriod(periods, now)?.id).toBe('active');
+    expect(getNextPeriodBoundary(periods, now)?.toISOString()).toBe(hoursFromNow(11));
+  });
+});
+
+describe('getNextPeriodBoundary', () => {
+  it('returns the earliest upcoming start or end', () => {
+    const periods = [
+      createPeriod({ endTime: hoursFromNow(10) }),
+      createPeriod({ id: 'op-2', startTime: hoursFromNow(3), endTime: null }),
+    ];
+
+    expect(getNextPeriodBoundary(periods, now)?.toISOString()).toBe(hoursFromNow(3));
+  });
+
+  it('returns null when nothing changes later', () => {
+    expect(getNextPeriodBoundary([createPeriod({ endTime: null })], now)).toBeNull();
+  });
+});
+
+describe('formatPeriodWindow', () => {
+  it('shows the end time only when the period ends the same day', () => {
+    expect(
+      formatPeriodWindow({
+        startTime: new Date(2025, 10, 20, 6, 0).toISOString(),
+        endTime: new Date(2025, 10, 20, 18, 0).toISOString(),
+      })
+    ).toBe('Nov 20 06:00 - 18:00');
+    expect(
+      formatPeriodWindow({
+        startTime: new Date(2025, 10, 20, 18, 0).toISOString(),
+        endTime: new Date(2025, 10, 21, 6, 0).toISOString(),
+      })
+    ).toBe('Nov 20 18:00 - Nov 21 06:00');
+  });
+
+  it('shows open-ended periods', () => {
+    expect(formatPeriodWindow({ startTime: new Date(2025, 10, 20, 6, 0).toISOString() })).toBe('From Nov 20 06:00');
+  });
+});
+
+describe('parseObjectives', () => {
+  it('splits objectives into trimmed non-empty lines', () => {
+    expect(parseObjectives(' Restore power \n\nOpen shelters')).toEqual(['Restore power', 'Open shelters']);
+    expect(parseObjectives(null)).toEqual([]);
+  });
+});
+
+describe('validatePeriodForm', () => {
+  it('requires a name and a start time before the end time', () => {
+    expect(validatePeriodForm({ name: ' ', startTime: hoursFromNow(0) })).toBe('Period name is required');
+    expect(validatePeriodForm({ name: 'OP 1', startTime: '' })).toBe('Start time is required');
+    expect(validatePeriodForm({ name: 'OP 1', startTime: hoursFromNow(0), endTime: hoursFromNow(-1) })).toBe(
+      'End time must be after start time'
+    );
+    expect(validatePeriodForm({ name: 'OP 1', startTime: hoursFromNow(0), endTime: null })).toBeNull();
+  });
+});
@@ -0,0 +1,114 @@
+/**
+ * Operational Period Utilities
+ *
+ * Pure helpers for operational periods:
+ * - Current period detection from wall-clock time (matches the backend's
+ *   OperationalPeriodService.FindCurrent)
+ * - The next start/end boundary, so callers can re-detect exactly when the
+ *   period changes
+ * - Display formatting and form validation
+ *
+ * Period times can come back from the database without a UTC designator, so
+ * they are always read with parsePeriodTime.
+ */
+
+import { format, isSameDay } from 'date-fns';
+import { parseServerTime } from '../../../core/utils/hubCatchUp';
+import type { OperationalPeriod } from '../types';
+
+/**
+ * Parse a period start/end time from the server (UTC, with or without a zone)
+ */
+export const parsePeriodTime = (value: string): Date => new Date(parseServerTime(value) ?? NaN);
+
+/**
+ * Whether the period's start/end window contains the given time.
+ * End time is exclusive; an open-ended period runs until another starts.
+ */
+export const isPeriodActiveAt = (period: OperationalPeriod, now: Date): boolean => {
+  const time = now.getTime();
+  return (
+    parsePeriodTime(period.startTime).getTime() <= time &&
+    (!period.endTime || time < parsePeriodTime(period.endTime).getTime())
+  );
+};
+
+/**
+ * Pick the period in effect at the given time.
+ * The period whose window contains now wins (latest start if they overlap);
+ * otherwise the period manually flagged isCurrent. Archived periods are
+ * never current.
+ */
+export const findCurrentPeriod = (
+  periods: OperationalPeriod[],
+  now: Date = new Date()
+): OperationalPeriod | null => {
+  const byLatestStart = periods
+    .filter((p) => !p.isArchived)
+    .sort((a, b) => parsePeriodTime(b.startTime).getTime() - parsePeriodTime(a.startTime).getTime());
+
+  return (
+    byLatestStart.find((p) => isPeriodActiveAt(p, now)) ??
+    byLatestStart.find((p) => p.isCurrent) ??
+    null
+  );
+};
+
+/**
+ * The next time after now at which a period starts or ends, or null if none.
+ */
+export const getNextPeriodBoundary = (periods: OperationalPeriod[], now: Date = new Date()): Date | null => {
+  const time = now.getTime();
+  const upcoming = periods
+    .filter((p) => !p.isArchived)
+    .flatMap((p) => [p.startTime, p.endTime])
+    .filter((value): value is string => Boolean(value))
+    .map((value) => parsePeriodTime(value).getTime())
+    .filter((boundary) => boundary > time);
+
+  return upcoming.length > 0 ? new Date(Math.min(...upcoming)) : null;
+};
+
+/**
+ * Display the period window, e.g. "Nov 20 06:00 - 18:00",
+ * "Nov 20 18:00 - Nov 21 06:00" or "From Nov 20 06:00"
+ */
+export const formatPeriodWindow = (period: Pick<OperationalPeriod, 'startTime' | 'endTime'>): string => {
+  const start = parsePeriodTime(period.startTime);
+  const startText = format(start, 'MMM d HH:mm');
+  if (!period.endTime) {
+    return `From ${startText}`;
+  }
+
+  const end = parsePeriodTime(period.endTime);
+  return `${startText} - ${format(end, isSameDay(start, end) ? 'HH:mm' : 'MMM d HH:mm')}`;
+};
+
+/**
+ * Split objectives text into one objective per non-empty line
+ */
+export const parseObjectives = (objectives?: string | null): string[] =>
+  (objectives ?? '')
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Validate the period form; returns an error message or null
+ */
+export const validatePeriodForm = (form: {
+  name: string;
+  startTime: string;
+  endTime?: string | null;
+}): string | null => {
+  if (!form.name.trim()) {
+    return 'Period name is required';
+  }
+  if (!form.startTime || Number.isNaN(new Date(form.startTime).getTime())) {
+    return 'Start time is required';
+  }
+  if (form.endTime && new Date(form.endTime).getTime() <= new Date(form.startTime).getTime()) {
+    return 'End time must be after start time';
+  }
+  return null;
+};
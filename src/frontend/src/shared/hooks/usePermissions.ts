@@ -14,6 +14,7 @@ interface PermissionChecks {
   // Template permissions
   canCreateTemplate: boolean;
   canEditTemplate: boolean;
+  canApproveTemplates: boolean; // Approve/reject templates submitted by others
   canViewTemplateLibrary: boolean;
   canAccessItemLibrary: boolean;
   canViewAnalytics: boolean;
@@ -26,6 +27,7 @@ interface PermissionChecks {
   // Checklist item permissions
   canInteractWithItems: boolean; // Toggle completion, change status, add notes
   canEditItems: boolean; // Edit item text, add/remove items
+  canSignOffChecklists: boolean; // Sign off and reopen checklists (Manage role)
 
   // Archive management permissions
   canArchiveOwnChecklists: boolean; // Contributor+ can archive their own checklists
@@ -34,6 +36,9 @@ interface PermissionChecks {
   canPermanentlyDeleteChecklists: boolean; // Manage role only
   canManageArchivedChecklists: boolean; // Access to archived checklists management page (Manage role)
 
+  // Event permissions
+  canManageOperationalPeriods: boolean; // Create and edit operational periods (Manage role)
+
   // System Admin permissions (customer-level configuration)
   canAccessSystemAdmin: boolean; // Access to system-level admin features
   canManageFeatureFlags: boolean; // Modify feature flags
@@ -107,6 +112,7 @@ export const usePermissions = (): PermissionChecks => {
     // Template permissions
     canCreateTemplate: isManage,
     canEditTemplate: isManage,
+    canApproveTemplates: isManage,
     canViewTemplateLibrary: isManage,
     canAccessItemLibrary: isManage,
     canViewAnalytics: isManage,
@@ -119,6 +125,7 @@ export const usePermissions = (): PermissionChecks => {
     // Checklist item permissions
     canInteractWithItems: isContributor || isManage,
     canEditItems: isManage,
+    canSignOffChecklists: isManage,
 
     // Archive management permissions
     canArchiveOwnChecklists: isContributor || isManage, // Contributors can archive their own
@@ -127,6 +134,9 @@ export const usePermissions = (): PermissionChecks => {
     canPermanentlyDeleteChecklists: isManage,
     canManageArchivedChecklists: isManage,
 
+    // Event permissions
+    canManageOperationalPeriods: isManage,
+
     // System Admin permissions (requires SysAdmin authentication)
     canAccessSystemAdmin: isSysAdmin,
     canManageFeatureFlags: isSysAdmin,
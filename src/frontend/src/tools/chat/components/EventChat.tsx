@@ -26,6 +26,8 @@ import { CobraTextField } from '../../../theme/styledComponents';
 import { ChatMessage } from './ChatMessage';
 import { chatService } from '../services/chatService';
 import { getCurrentUser } from '../../../core/services/api';
+import { parseServerTime, upsertById } from '../../../core/utils/hubCatchUp';
+import type { CatchUpSince } from '../../../core/utils/hubCatchUp';
 import { useChatHub } from '../hooks/useChatHub';
 import { usePermissions } from '../../../shared/hooks';
 import type { ChatMessageDto, ChatThreadDto } from '../types/chat';
@@ -89,16 +91,32 @@ export const EventChat: React.FC<EventChatProps> = ({
     [thread?.id]
   );
 
-  // Handle SignalR reconnection - refresh messages to catch any missed during disconnect
-  const handleReconnected = useCallback(() => {
-    if (thread?.id) {
+  // Handle SignalR reconnection - fetch only messages missed during disconnect
+  // (the whole thread when we don't know what we missed)
+  const handleReconnected = useCallback((since: CatchUpSince) => {
+    if (!thread?.id) return;
+
+    const threadSince = since(thread.id);
+    if (!threadSince) {
       console.log('[EventChat] SignalR reconnected, refreshing messages');
       chatService.getMessages(eventId, thread.id).then((messagesData) => {
         setMessages(messagesData || []);
       }).catch((err) => {
         console.error('Failed to refresh messages on reconnect:', err);
       });
+      return;
     }
+
+    console.log('[EventChat] SignalR reconnected, fetching missed messages since', threadSince);
+    chatService.getMessagesSince(eventId, thread.id, threadSince).then((missed) => {
+      setMessages((prev) =>
+        upsertById(prev, missed || []).sort(
+          (a, b) => (parseServerTime(a.createdAt) ?? 0) - (parseServerTime(b.createdAt) ?? 0)
+        )
+      );
+    }).catch((err) => {
+      console.error('Failed to fetch missed messages on reconnect:', err);
+    });
   }, [eventId, thread?.id]);
 
   // SignalR connection
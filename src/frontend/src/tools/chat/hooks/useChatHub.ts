@@ -1,5 +1,7 @@
 import { useEffect, useRef, useCallback, useState } from 'react';
 import * as signalR from '@microsoft/signalr';
+import { createLastSeenTracker } from '../../../core/utils/hubCatchUp';
+import type { CatchUpSince } from '../../../core/utils/hubCatchUp';
 import type { ChatMessageDto, ExternalChannelMappingDto, ChatThreadDto } from '../types/chat';
 
 /**
@@ -22,8 +24,12 @@ export interface ChatHubHandlers {
   onChannelRestored?: (channel: ChatThreadDto) => void;
   /** Called when a channel is permanently deleted */
   onChannelDeleted?: (channelId: string) => void;
-  /** Called when connection is restored after being lost - use to refresh data */
-  onReconnected?: () => void;
+  /**
+   * Called when connection is restored after being lost (event groups are
+   * joined again first). `since(threadId)` is when to fetch missed messages
+   * from, or null when unknown (reload instead).
+   */
+  onReconnected?: (since: CatchUpSince) => void;
 }
 
 /**
@@ -32,7 +38,8 @@ export interface ChatHubHandlers {
  * Features:
  * - Auto-connect to SignalR ChatHub
  * - Join event-specific group for scoped updates
- * - Auto-reconnect on connection loss
+ * - Auto-reconnect on connection loss, then re-join event groups and report
+ *   the newest message seen per thread so only missed messages are fetched
  * - Clean disconnect on unmount
  * - Event handlers for messages and channel updates
  * - Browser offline/online detection for faster UX feedback
@@ -42,6 +49,8 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
   const handlersRef = useRef(handlers);
   const hasConnectedOnceRef = useRef(false);
   const isConnectingRef = useRef(false);
+  const joinedEventsRef = useRef(new Set<string>()); // Event groups we joined
+  const lastSeenRef = useRef(createLastSeenTracker()); // Newest message time per thread
 
   // UI connection state - this is what we show to users
   // It can be set by: SignalR callbacks, browser offline events, or API failures
@@ -56,6 +65,34 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
     handlersRef.current = handlers;
   }, [handlers]);
 
+  /**
+   * Read the server clock as the catch-up baseline (after connecting or reconnecting)
+   */
+  const syncServerTime = useCallback(async (connection: signalR.HubConnection) => {
+    try {
+      lastSeenRef.current.reset(await connection.invoke<string>('GetServerTime'));
+    } catch (error) {
+      console.error('[ChatHub] Error reading server time:', error);
+    }
+  }, []);
+
+  /**
+   * A new connection has no groups: join them again, then let consumers
+   * fetch messages sent while we were offline
+   */
+  const resumeAfterReconnect = useCallback(async (connection: signalR.HubConnection) => {
+    const since = lastSeenRef.current.snapshot();
+    try {
+      await Promise.all(
+        [...joinedEventsRef.current].map((eventId) => connection.invoke('JoinEventChat', eventId))
+      );
+    } catch (error) {
+      console.error('[ChatHub] Error joining event chats after reconnect:', error);
+    }
+    await syncServerTime(connection);
+    handlersRef.current.onReconnected?.(since);
+  }, [syncServerTime]);
+
   /**
    * Attempt to restart the SignalR connection
    * Called when browser comes back online or when we want to retry
@@ -73,13 +110,13 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
         console.log('[ChatHub] Connection restarted successfully');
         setConnectionState('connected');
         isManuallyOfflineRef.current = false;
-        handlersRef.current.onReconnected?.();
+        await resumeAfterReconnect(connection);
       } catch (error) {
         console.error('[ChatHub] Failed to restart connection:', error);
         setConnectionState('disconnected');
       }
     }
-  }, []);
+  }, [resumeAfterReconnect]);
 
   // Initialize SignalR connection
   useEffect(() => {
@@ -113,6 +150,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
     // Register event handlers
     connection.on('ReceiveChatMessage', (message: ChatMessageDto) => {
       console.log('[ChatHub] ReceiveChatMessage:', message);
+      lastSeenRef.current.record(message.chatThreadId, message.createdAt);
       handlersRef.current.onReceiveChatMessage?.(message);
     });
 
@@ -159,7 +197,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
       console.log('[ChatHub] SignalR reconnected:', connectionId);
       setConnectionState('connected');
       isManuallyOfflineRef.current = false;
-      handlersRef.current.onReconnected?.();
+      resumeAfterReconnect(connection);
     });
 
     connection.onclose((error) => {
@@ -180,6 +218,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
         console.log('[ChatHub] Connected');
         hasConnectedOnceRef.current = true;
         setConnectionState('connected');
+        return syncServerTime(connection);
       })
       .catch((error) => {
         setConnectionState('disconnected');
@@ -201,7 +240,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
             console.log('[ChatHub] Reconnected successfully');
             setConnectionState('connected');
             isManuallyOfflineRef.current = false;
-            handlersRef.current.onReconnected?.();
+            return resumeAfterReconnect(conn);
           })
           .catch((err) => {
             console.error('[ChatHub] Failed to reconnect:', err);
@@ -270,6 +309,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
       console.warn('[ChatHub] Cannot join event: connection not initialized');
       return;
     }
+    joinedEventsRef.current.add(eventId);
 
     try {
       // Wait for connection if still connecting
@@ -300,6 +340,7 @@ export const useChatHub = (handlers: ChatHubHandlers = {}) => {
    */
   const leaveEventChat = useCallback(async (eventId: string) => {
     const connection = connectionRef.current;
+    joinedEventsRef.current.delete(eventId);
     if (!connection) {
       return;
     }
@@ -230,6 +230,21 @@ export const chatService = {
     return response.data;
   },
 
+  /**
+   * Gets messages created after a time (catch-up after a real-time reconnect).
+   */
+  getMessagesSince: async (
+    eventId: string,
+    threadId: string,
+    since: string
+  ): Promise<ChatMessageDto[]> => {
+    const response = await apiClient.get<ChatMessageDto[]>(
+      `/api/events/${eventId}/chat/thread/${threadId}/messages`,
+      { params: { since } }
+    );
+    return response.data;
+  },
+
   /**
    * Sends a new chat message.
    */
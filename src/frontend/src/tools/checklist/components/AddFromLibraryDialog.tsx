@@ -1,9 +1,15 @@
 import React, { useState } from 'react';
 import {
   DialogActions,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
   Stack,
 } from '@mui/material';
 import { LibraryItemBrowser } from './LibraryItemBrowser';
+import type { TemplateSectionFormData } from './TemplateSectionEditor';
 import type { ItemLibraryEntry } from '../../../types';
 import {
   CobraDialog,
@@ -15,25 +21,32 @@ import CobraStyles from '../../../theme/CobraStyles';
 interface AddFromLibraryDialogProps {
   open: boolean;
   onClose: () => void;
-  onAdd: (items: ItemLibraryEntry[]) => void;
+  /** Adds the items to the chosen section (null = no section) */
+  onAdd: (items: ItemLibraryEntry[], sectionId: string | null) => void;
+  /** Sections of the template being edited */
+  sections?: TemplateSectionFormData[];
 }
 
 /**
  * AddFromLibraryDialog Component
  *
  * Modal dialog for browsing and selecting items from the library.
- * Allows multi-select and batch adding to templates.
+ * Allows multi-select and batch adding to templates, into a chosen section.
  */
 export const AddFromLibraryDialog: React.FC<AddFromLibraryDialogProps> = ({
   open,
   onClose,
   onAdd,
+  sections = [],
 }) => {
   const [selectedItems, setSelectedItems] = useState<ItemLibraryEntry[]>([]);
+  const [targetSectionId, setTargetSectionId] = useState<string>('');
+  // The chosen section may have been removed since the dialog was last open
+  const selectedSectionId = sections.some((section) => section.id === targetSectionId) ? targetSectionId : '';
 
   const handleAdd = () => {
     if (selectedItems.length > 0) {
-      onAdd(selectedItems);
+      onAdd(selectedItems, selectedSectionId || null);
       setSelectedItems([]);
       onClose();
     }
@@ -57,6 +70,29 @@ export const AddFromLibraryDialog: React.FC<AddFromLibraryDialogProps> = ({
           showSelectAll={true}
         />
 
+        {sections.length > 0 && (
+          <FormControl fullWidth size="small">
+            <InputLabel id="library-target-section-label">Add to Section</InputLabel>
+            <Select
+              labelId="library-target-section-label"
+              value={selectedSectionId}
+              label="Add to Section"
+              onChange={(e) => setTargetSectionId(e.target.value)}
+              displayEmpty
+            >
+              <MenuItem value="">
+                <em>No section</em>
+              </MenuItem>
+              {sections.map((section) => (
+                <MenuItem key={section.id} value={section.id}>
+                  {section.name.trim() || '(Unnamed section)'}
+                </MenuItem>
+              ))}
+            </Select>
+            <FormHelperText>Items are added at the end of the section</FormHelperText>
+          </FormControl>
+        )}
+
         <DialogActions>
           <CobraLinkButton onClick={handleClose}>
             Cancel
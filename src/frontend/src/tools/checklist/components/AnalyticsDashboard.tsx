@@ -29,6 +29,7 @@ import { toast } from 'react-toastify';
 import { analyticsService } from '../services/analyticsService';
 import type { AnalyticsDashboard as AnalyticsDashboardData } from '../../../types';
 import { cobraTheme } from '../../../theme/cobraTheme';
+import { getItemTypeLabel } from '../utils/itemValue';
 
 /**
  * Analytics Dashboard Component
@@ -221,7 +222,7 @@ export const AnalyticsDashboard: React.FC = () => {
                     </TableCell>
                     <TableCell>
                       <Chip
-                        label={item.itemType === 'checkbox' ? 'Checkbox' : 'Status'}
+                        label={getItemTypeLabel(item.itemType)}
                         size="small"
                         variant="outlined"
                       />
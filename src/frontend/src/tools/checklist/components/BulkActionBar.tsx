@@ -0,0 +1,188 @@
+/**
+ * Bulk Action Bar Component
+ *
+ * Selection mode for the checklist detail page (all variants):
+ * - "Select Items" turns selection mode on (rows get a selection checkbox)
+ * - Select all, none, a section, or items by completion / current status
+ * - Mark the selection complete or incomplete, or set its status, in one request
+ *
+ * Action buttons count only the selected items the action applies to
+ * (checkbox items for complete/incomplete, status items offering the status).
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Divider,
+  FormControl,
+  InputLabel,
+  ListSubheader,
+  Menu,
+  MenuItem,
+  Paper,
+  Select,
+  Typography,
+  type SxProps,
+  type Theme,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCaretDown, faCheck, faListCheck, faRotateLeft } from '@fortawesome/free-solid-svg-icons';
+import { CobraLinkButton, CobraPrimaryButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { BulkAction } from '../types';
+import {
+  getAllItemIds,
+  getBulkActionLabel,
+  getBulkActionTargets,
+  getBulkStatusOptions,
+  getCurrentStatuses,
+  getItemIdsByStatus,
+  getSectionItemIds,
+} from '../utils/bulkItemActions';
+import { groupItemsBySection, hasItemSections } from '../utils/itemSections';
+
+interface BulkActionBarProps {
+  items: ChecklistItemDto[];
+  selectionMode: boolean;
+  onSelectionModeChange: (selectionMode: boolean) => void;
+  selectedItemIds: ReadonlySet<string>;
+  onSelectionChange: (selectedItemIds: Set<string>) => void;
+  /** Apply an action to the selection */
+  onApply: (action: BulkAction, targetStatus?: string) => Promise<void>;
+  /** A bulk update is in progress */
+  busy?: boolean;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * Bulk Action Bar Component
+ */
+export const BulkActionBar: React.FC<BulkActionBarProps> = ({
+  items,
+  selectionMode,
+  onSelectionModeChange,
+  selectedItemIds,
+  onSelectionChange,
+  onApply,
+  busy = false,
+  sx,
+}) => {
+  const [selectMenuAnchor, setSelectMenuAnchor] = useState<null | HTMLElement>(null);
+
+  if (!selectionMode) {
+    return (
+      <Box sx={[{ display: 'flex', justifyContent: 'flex-end', mb: 1 }, ...(Array.isArray(sx) ? sx : [sx])]}>
+        <Button
+          variant="outlined"
+          size="small"
+          startIcon={<FontAwesomeIcon icon={faListCheck} />}
+          onClick={() => onSelectionModeChange(true)}
+          disabled={items.length === 0}
+        >
+          Select Items
+        </Button>
+      </Box>
+    );
+  }
+
+  const selectedCount = items.filter((item) => selectedItemIds.has(item.id)).length;
+  const completeTargets = getBulkActionTargets(items, selectedItemIds, BulkAction.MARK_COMPLETE);
+  const incompleteTargets = getBulkActionTargets(items, selectedItemIds, BulkAction.MARK_INCOMPLETE);
+  const statusOptions = getBulkStatusOptions(items, selectedItemIds);
+  const sectionNames = hasItemSections(items) ? groupItemsBySection(items).map((section) => section.name) : [];
+  const currentStatuses = getCurrentStatuses(items);
+
+  const select = (itemIds: string[]) => {
+    onSelectionChange(new Set(itemIds));
+    setSelectMenuAnchor(null);
+  };
+
+  return (
+    <Paper
+      variant="outlined"
+      sx={[
+        { p: 1, mb: 2, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+      data-testid="bulk-action-bar"
+    >
+      <Typography variant="body2" sx={{ fontWeight: 'bold', mr: 1 }}>
+        {selectedCount} selected
+      </Typography>
+
+      <Button
+        size="small"
+        endIcon={<FontAwesomeIcon icon={faCaretDown} />}
+        onClick={(e) => setSelectMenuAnchor(e.currentTarget)}
+        disabled={busy}
+      >
+        Select
+      </Button>
+      <Menu anchorEl={selectMenuAnchor} open={Boolean(selectMenuAnchor)} onClose={() => setSelectMenuAnchor(null)}>
+        <MenuItem onClick={() => select(getAllItemIds(items))}>All items</MenuItem>
+        <MenuItem onClick={() => select([])}>None</MenuItem>
+        {sectionNames.length > 0 && <Divider />}
+        {sectionNames.length > 0 && <ListSubheader>By section</ListSubheader>}
+        {sectionNames.map((name) => (
+          <MenuItem key={name ?? ''} onClick={() => select(getSectionItemIds(items, name))}>
+            {name ?? 'No section'}
+          </MenuItem>
+        ))}
+        <Divider />
+        <ListSubheader>By status</ListSubheader>
+        <MenuItem onClick={() => select(getItemIdsByStatus(items, { completed: false }))}>Incomplete</MenuItem>
+        <MenuItem onClick={() => select(getItemIdsByStatus(items, { completed: true }))}>Complete</MenuItem>
+        {currentStatuses.map((status) => (
+          <MenuItem key={status} onClick={() => select(getItemIdsByStatus(items, { status }))}>
+            {status}
+          </MenuItem>
+        ))}
+      </Menu>
+
+      <Box sx={{ flex: 1 }} />
+
+      <CobraPrimaryButton
+        size="small"
+        startIcon={<FontAwesomeIcon icon={faCheck} />}
+        onClick={() => onApply(BulkAction.MARK_COMPLETE)}
+        disabled={busy || completeTargets.length === 0}
+      >
+        {getBulkActionLabel(BulkAction.MARK_COMPLETE, completeTargets.length)}
+      </CobraPrimaryButton>
+      <CobraSecondaryButton
+        size="small"
+        startIcon={<FontAwesomeIcon icon={faRotateLeft} />}
+        onClick={() => onApply(BulkAction.MARK_INCOMPLETE)}
+        disabled={busy || incompleteTargets.length === 0}
+      >
+        {getBulkActionLabel(BulkAction.MARK_INCOMPLETE, incompleteTargets.length)}
+      </CobraSecondaryButton>
+      {statusOptions.length > 0 && (
+        <FormControl size="small" sx={{ minWidth: 160 }}>
+          <InputLabel id="bulk-status-label">Set status</InputLabel>
+          <Select
+            labelId="bulk-status-label"
+            label="Set status"
+            value=""
+            onChange={(e) => onApply(BulkAction.CHANGE_STATUS, e.target.value)}
+            disabled={busy}
+          >
+            {statusOptions.map((status) => {
+              const count = getBulkActionTargets(items, selectedItemIds, BulkAction.CHANGE_STATUS, status).length;
+              return (
+                <MenuItem key={status} value={status} disabled={count === 0}>
+                  {getBulkActionLabel(BulkAction.CHANGE_STATUS, count, status)}
+                </MenuItem>
+              );
+            })}
+          </Select>
+        </FormControl>
+      )}
+
+      <CobraLinkButton size="small" onClick={() => onSelectionModeChange(false)} disabled={busy}>
+        Done
+      </CobraLinkButton>
+    </Paper>
+  );
+};
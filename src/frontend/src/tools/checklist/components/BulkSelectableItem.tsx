@@ -0,0 +1,47 @@
+/**
+ * Bulk Selectable Item Component
+ *
+ * Wraps an item row with a selection checkbox while the checklist is in
+ * selection mode (bulk actions). Outside selection mode it renders the row
+ * unchanged, so every checklist variant can wrap its rows.
+ */
+
+import React from 'react';
+import { Box, Checkbox } from '@mui/material';
+
+interface BulkSelectableItemProps {
+  itemId: string;
+  itemText: string;
+  /** Selected items; selection mode is off when not set */
+  selectedItemIds?: ReadonlySet<string>;
+  onToggleSelected?: (itemId: string) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Bulk Selectable Item Component
+ */
+export const BulkSelectableItem: React.FC<BulkSelectableItemProps> = ({
+  itemId,
+  itemText,
+  selectedItemIds,
+  onToggleSelected,
+  children,
+}) => {
+  if (!selectedItemIds || !onToggleSelected) {
+    return <>{children}</>;
+  }
+
+  return (
+    <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 0.5 }} data-testid="bulk-selectable-item">
+      <Checkbox
+        checked={selectedItemIds.has(itemId)}
+        onChange={() => onToggleSelected(itemId)}
+        size="small"
+        inputProps={{ 'aria-label': `Select "${itemText}"` }}
+        sx={{ mt: 0.5 }}
+      />
+      <Box sx={{ flex: 1, minWidth: 0 }}>{children}</Box>
+    </Box>
+  );
+};
@@ -0,0 +1,359 @@
+/**
+ * CarryForwardDialog Component
+ *
+ * Rolls checklists into another operational period in one step:
+ * 1. Choose the target period, the checklists (incomplete ones are
+ *    preselected) and how they are copied - reset completion, only
+ *    incomplete items, carry notes
+ * 2. Summary of the checklists created and the ones skipped, with reasons
+ *
+ * Copies are named after the target period when the source name includes
+ * the source period's name.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Checkbox,
+  Chip,
+  DialogActions,
+  FormControl,
+  FormControlLabel,
+  FormGroup,
+  FormHelperText,
+  InputLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  MenuItem,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faForward, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { useNavigate } from 'react-router-dom';
+import { toast } from 'react-toastify';
+import {
+  CobraDialog,
+  CobraLinkButton,
+  CobraPrimaryButton,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { useOperationalPeriods, formatPeriodWindow } from '../../../shared/events';
+import {
+  checklistService,
+  type CarryForwardResult,
+  type ChecklistInstanceDto,
+} from '../services/checklistService';
+import {
+  describeCarryForwardResult,
+  getDefaultCarryForwardSelection,
+  getDefaultTargetPeriod,
+  isChecklistIncomplete,
+} from '../utils/carryForward';
+
+/**
+ * Props for CarryForwardDialog
+ */
+interface CarryForwardDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Event whose operational periods are offered as targets */
+  eventId: string;
+  /** Checklists that can be carried forward */
+  checklists: ChecklistInstanceDto[];
+  /** Called after a carry-forward that created checklists */
+  onCarriedForward?: (result: CarryForwardResult) => void;
+}
+
+/**
+ * CarryForwardDialog Component
+ */
+export const CarryForwardDialog: React.FC<CarryForwardDialogProps> = ({
+  open,
+  onClose,
+  eventId,
+  checklists,
+  onCarriedForward,
+}) => {
+  const navigate = useNavigate();
+  const { periods, currentPeriod } = useOperationalPeriods(eventId);
+  const [targetPeriodId, setTargetPeriodId] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [resetCompletion, setResetCompletion] = useState(true);
+  const [onlyIncompleteItems, setOnlyIncompleteItems] = useState(false);
+  const [carryNotes, setCarryNotes] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<CarryForwardResult | null>(null);
+
+  const defaultTarget = useMemo(
+    () =>
+      getDefaultTargetPeriod(
+        periods,
+        currentPeriod?.id,
+        checklists.map((c) => c.operationalPeriodId)
+      ),
+    [periods, currentPeriod?.id, checklists]
+  );
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setTargetPeriodId('');
+      setSelectedIds(new Set());
+      setResetCompletion(true);
+      setOnlyIncompleteItems(false);
+      setCarryNotes(false);
+      setError(null);
+      setResult(null);
+    }
+  }, [open]);
+
+  // Default target and selection once the periods have loaded
+  useEffect(() => {
+    if (open && !targetPeriodId && defaultTarget) {
+      setTargetPeriodId(defaultTarget.id);
+      setSelectedIds(new Set(getDefaultCarryForwardSelection(checklists, defaultTarget.id)));
+    }
+  }, [open, targetPeriodId, defaultTarget, checklists]);
+
+  const activePeriods = periods.filter((p) => !p.isArchived);
+  const allSelected = checklists.length > 0 && selectedIds.size === checklists.length;
+
+  const handleToggle = (checklistId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(checklistId)) {
+        next.delete(checklistId);
+      } else {
+        next.add(checklistId);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(checklists.map((c) => c.id)));
+  };
+
+  const handleCarryForward = async () => {
+    try {
+      setSaving(true);
+      setError(null);
+      const carryResult = await checklistService.carryForwardChecklists({
+        checklistIds: checklists.filter((c) => selectedIds.has(c.id)).map((c) => c.id),
+        targetOperationalPeriodId: targetPeriodId,
+        resetCompletion,
+        onlyIncompleteItems,
+        carryNotes: resetCompletion && carryNotes,
+      });
+      setResult(carryResult);
+      if (carryResult.created.length > 0) {
+        toast.success(describeCarryForwardResult(carryResult));
+        onCarriedForward?.(carryResult);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to carry forward checklists');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleOpenChecklist = (checklistId: string) => {
+    onClose();
+    navigate(`/checklists/${checklistId}`);
+  };
+
+  return (
+    <CobraDialog
+      open={open}
+      onClose={() => !saving && onClose()}
+      title="Carry Forward Checklists"
+      contentWidth="700px"
+    >
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        {!result && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              Copy checklists into another operational period. The originals are not changed.
+            </Typography>
+
+            {activePeriods.length === 0 ? (
+              <Alert severity="info">
+                This event has no operational periods to carry checklists into.
+              </Alert>
+            ) : (
+              <FormControl fullWidth disabled={saving}>
+                <InputLabel>Target Operational Period</InputLabel>
+                <Select
+                  value={targetPeriodId}
+                  onChange={(e) => setTargetPeriodId(e.target.value)}
+                  label="Target Operational Period"
+                >
+                  {activePeriods.map((period) => (
+                    <MenuItem key={period.id} value={period.id}>
+                      <Box>
+                        <Typography variant="body2">
+                          {period.name}
+                          {period.id === currentPeriod?.id && ' (current)'}
+                        </Typography>
+                        <Typography variant="caption" color="text.secondary">
+                          {formatPeriodWindow(period)}
+                        </Typography>
+                      </Box>
+                    </MenuItem>
+                  ))}
+                </Select>
+              </FormControl>
+            )}
+
+            <FormGroup>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={resetCompletion}
+                    onChange={(e) => setResetCompletion(e.target.checked)}
+                    disabled={saving}
+                  />
+                }
+                label="Reset completion (start each copy fresh)"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={onlyIncompleteItems}
+                    onChange={(e) => setOnlyIncompleteItems(e.target.checked)}
+                    disabled={saving}
+                  />
+                }
+                label="Only copy items that are not complete"
+              />
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={!resetCompletion || carryNotes}
+                    onChange={(e) => setCarryNotes(e.target.checked)}
+                    disabled={saving || !resetCompletion}
+                  />
+                }
+                label="Carry item notes"
+              />
+              {!resetCompletion && (
+                <FormHelperText>Completion, status and notes are kept on each copy</FormHelperText>
+              )}
+            </FormGroup>
+
+            <Box>
+              <FormControlLabel
+                control={
+                  <Checkbox
+                    checked={allSelected}
+                    indeterminate={selectedIds.size > 0 && !allSelected}
+                    onChange={handleToggleAll}
+                    disabled={saving}
+                  />
+                }
+                label={`Select all (${selectedIds.size} of ${checklists.length} selected)`}
+              />
+              <List
+                dense
+                sx={{ maxHeight: 300, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}
+              >
+                {checklists.map((checklist) => (
+                  <ListItem key={checklist.id} disablePadding>
+                    <ListItemButton onClick={() => handleToggle(checklist.id)} disabled={saving}>
+                      <ListItemIcon sx={{ minWidth: 40 }}>
+                        <Checkbox
+                          edge="start"
+                          checked={selectedIds.has(checklist.id)}
+                          tabIndex={-1}
+                          disableRipple
+                        />
+                      </ListItemIcon>
+                      <ListItemText
+                        primary={checklist.name}
+                        secondary={`${checklist.operationalPeriodName ?? 'Incident-level'} • ${
+                          checklist.completedItems
+                        }/${checklist.totalItems} items complete`}
+                      />
+                      {!isChecklistIncomplete(checklist) && (
+                        <Chip label="Complete" size="small" color="success" variant="outlined" />
+                      )}
+                    </ListItemButton>
+                  </ListItem>
+                ))}
+              </List>
+            </Box>
+          </>
+        )}
+
+        {result && (
+          <Stack spacing={1}>
+            {result.created.length > 0 ? (
+              <Alert severity="success">
+                {describeCarryForwardResult(result)}:
+                <List dense disablePadding>
+                  {result.created.map((checklist) => (
+                    <ListItem key={checklist.id} disablePadding>
+                      <ListItemButton onClick={() => handleOpenChecklist(checklist.id)} sx={{ py: 0 }}>
+                        <ListItemText
+                          primary={checklist.name}
+                          secondary={`${checklist.totalItems} item${checklist.totalItems === 1 ? '' : 's'}`}
+                        />
+                      </ListItemButton>
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            ) : (
+              <Alert severity="info">
+                No checklists were created in {result.targetOperationalPeriodName}.
+              </Alert>
+            )}
+            {result.skipped.length > 0 && (
+              <Alert severity="warning">
+                Skipped {result.skipped.length} checklist{result.skipped.length === 1 ? '' : 's'}:
+                <List dense disablePadding>
+                  {result.skipped.map((skipped) => (
+                    <ListItem key={skipped.checklistId} disablePadding>
+                      <ListItemText
+                        primary={skipped.checklistName || 'Unknown checklist'}
+                        secondary={skipped.reason}
+                      />
+                    </ListItem>
+                  ))}
+                </List>
+              </Alert>
+            )}
+          </Stack>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <DialogActions>
+          {result ? (
+            <CobraPrimaryButton onClick={onClose}>Close</CobraPrimaryButton>
+          ) : (
+            <>
+              <CobraLinkButton onClick={onClose} disabled={saving}>
+                Cancel
+              </CobraLinkButton>
+              <CobraPrimaryButton
+                onClick={handleCarryForward}
+                disabled={saving || !targetPeriodId || selectedIds.size === 0}
+                startIcon={<FontAwesomeIcon icon={saving ? faSpinner : faForward} spin={saving} />}
+              >
+                Carry Forward {selectedIds.size} Checklist{selectedIds.size === 1 ? '' : 's'}
+              </CobraPrimaryButton>
+            </>
+          )}
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -0,0 +1,372 @@
+/**
+ * ChecklistActivityPanel Component
+ *
+ * Side drawer with the checklist-wide activity feed: every item's completion,
+ * status, value and note changes plus checklist renames, position reassignment
+ * and operational period moves, newest first, with who made them and when.
+ * Lets leaders see what happened on a checklist without opening each item.
+ *
+ * Features:
+ * - Filters by position, action type and time window ("Last hour")
+ * - CSV export of the filtered entries
+ * - Live: the full feed loads when opened; when refreshKey changes (hub events
+ *   or your own changes updating the checklist) only newer entries are fetched
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  Drawer,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Select,
+  Stack,
+  Tooltip,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faArrowsRotate,
+  faCircleCheck,
+  faCircleXmark,
+  faClipboardList,
+  faFileCsv,
+  faListUl,
+  faNoteSticky,
+  faPenToSquare,
+  faXmark,
+} from '@fortawesome/free-solid-svg-icons';
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import { format } from 'date-fns';
+import { toast } from 'react-toastify';
+import { CobraLinkButton } from '../../../theme/styledComponents';
+import { c5Colors } from '../../../theme/c5Theme';
+import { checklistService, type ChecklistInstanceDto } from '../services/checklistService';
+import { ItemHistoryAction, type ChecklistActivity } from '../types';
+import { useCurrentTime } from '../hooks/useCurrentTime';
+import { formatHistoryAuthor } from '../utils/itemHistory';
+import {
+  ACTIVITY_ACTION_TYPES,
+  ACTIVITY_TIME_WINDOWS,
+  activityToCsv,
+  describeActivity,
+  filterActivity,
+  getActivityActionType,
+  getActivityPositions,
+  getLatestActivityTime,
+  mergeActivity,
+  type ActivityActionType,
+} from '../utils/checklistActivity';
+
+/**
+ * Props for ChecklistActivityPanel
+ */
+interface ChecklistActivityPanelProps {
+  open: boolean;
+  checklist: Pick<ChecklistInstanceDto, 'id' | 'name' | 'items'>;
+  /** Newer entries are fetched when this changes */
+  refreshKey?: string | number;
+  onClose: () => void;
+}
+
+const ACTION_TYPE_COLORS: Record<ActivityActionType, string> = {
+  completion: c5Colors.green,
+  status: c5Colors.cobaltBlue,
+  value: c5Colors.cobaltBlue,
+  note: '#757575',
+  checklist: '#757575',
+};
+
+const getEntryIcon = (entry: ChecklistActivity): IconDefinition => {
+  switch (entry.action) {
+    case ItemHistoryAction.COMPLETED:
+      return faCircleCheck;
+    case ItemHistoryAction.UNCOMPLETED:
+      return faCircleXmark;
+    case ItemHistoryAction.STATUS_CHANGED:
+      return faArrowsRotate;
+    case ItemHistoryAction.VALUE_CHANGED:
+      return faPenToSquare;
+    case ItemHistoryAction.NOTE_ADDED:
+    case ItemHistoryAction.NOTE_EDITED:
+    case ItemHistoryAction.NOTE_DELETED:
+      return faNoteSticky;
+    default:
+      return faClipboardList;
+  }
+};
+
+/**
+ * File-system friendly name for the CSV export
+ */
+const toFileName = (checklistName: string): string =>
+  `Activity ${checklistName} ${format(new Date(), 'yyyy-MM-dd HHmm')}`
+    .replace(/[^a-zA-Z0-9 _-]+/g, '')
+    .trim()
+    .replace(/\s+/g, '_') + '.csv';
+
+/**
+ * ChecklistActivityPanel Component
+ */
+export const ChecklistActivityPanel: React.FC<ChecklistActivityPanelProps> = ({
+  open,
+  checklist,
+  refreshKey,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const now = useCurrentTime();
+
+  const [entries, setEntries] = useState<ChecklistActivity[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [position, setPosition] = useState('');
+  const [actionType, setActionType] = useState<ActivityActionType | ''>('');
+  const [windowMinutes, setWindowMinutes] = useState<number | ''>('');
+
+  // Latest entries and the refresh key they reflect, for fetching only newer changes
+  const entriesRef = useRef<ChecklistActivity[]>([]);
+  const refreshKeyRef = useRef(refreshKey);
+  const loadedRefreshKeyRef = useRef<string | number | undefined>(undefined);
+  entriesRef.current = entries;
+  refreshKeyRef.current = refreshKey;
+
+  const checklistId = checklist.id;
+
+  const loadActivity = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(await checklistService.getChecklistActivity(checklistId));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load checklist activity');
+    } finally {
+      setLoading(false);
+    }
+  }, [checklistId]);
+
+  const fetchNewActivity = useCallback(async () => {
+    const since = getLatestActivityTime(entriesRef.current);
+    if (!since) {
+      await loadActivity();
+      return;
+    }
+    try {
+      const incoming = await checklistService.getChecklistActivity(checklistId, since);
+      if (incoming.length > 0) {
+        setEntries((current) => mergeActivity(current, incoming));
+      }
+    } catch (err) {
+      // The feed catches up on the next change or when reopened
+      console.error('Failed to refresh checklist activity:', err);
+    }
+  }, [checklistId, loadActivity]);
+
+  // Full load when opened
+  useEffect(() => {
+    if (open) {
+      loadedRefreshKeyRef.current = refreshKeyRef.current;
+      loadActivity();
+    }
+  }, [open, loadActivity]);
+
+  // Newer entries only while open
+  useEffect(() => {
+    if (!open || loadedRefreshKeyRef.current === refreshKey) return;
+    loadedRefreshKeyRef.current = refreshKey;
+    fetchNewActivity();
+  }, [open, refreshKey, fetchNewActivity]);
+
+  const positions = useMemo(() => getActivityPositions(entries), [entries]);
+  const itemsById = useMemo(() => new Map(checklist.items.map((item) => [item.id, item])), [checklist.items]);
+
+  const filtered = filterActivity(entries, {
+    position: position || undefined,
+    actionType: actionType || undefined,
+    since: windowMinutes ? new Date(now - windowMinutes * 60 * 1000).toISOString() : undefined,
+  });
+
+  const handleExport = () => {
+    const csv = activityToCsv(filtered, checklist.items);
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv;charset=utf-8' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(checklist.name);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+    toast.success(`Exported ${filtered.length} entr${filtered.length === 1 ? 'y' : 'ies'}`);
+  };
+
+  const renderFeed = () => {
+    if (loading && entries.length === 0) {
+      return (
+        <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+          <CircularProgress size={24} />
+        </Box>
+      );
+    }
+
+    if (error) {
+      return <Alert severity="error">{error}</Alert>;
+    }
+
+    if (filtered.length === 0) {
+      return (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+          {entries.length === 0 ? 'No activity recorded yet' : 'No activity matches the filters'}
+        </Typography>
+      );
+    }
+
+    return (
+      <Stack spacing={1.5} data-testid="checklist-activity-feed">
+        {filtered.map((entry) => {
+          const { summary, detail } = describeActivity(
+            entry,
+            entry.itemId ? itemsById.get(entry.itemId) : undefined
+          );
+          const color = ACTION_TYPE_COLORS[getActivityActionType(entry)];
+
+          return (
+            <Box key={entry.id} sx={{ display: 'flex', gap: 1.5 }}>
+              <Box sx={{ width: 20, display: 'flex', justifyContent: 'center' }}>
+                <FontAwesomeIcon icon={getEntryIcon(entry)} style={{ color, fontSize: 16, marginTop: 2 }} />
+              </Box>
+              <Box sx={{ minWidth: 0, flexGrow: 1 }}>
+                {entry.itemText && (
+                  <Typography variant="caption" color="text.secondary" sx={{ display: 'block' }} noWrap>
+                    {entry.itemText}
+                  </Typography>
+                )}
+                <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                  {summary}
+                </Typography>
+                {detail && (
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-word',
+                      fontStyle: 'italic',
+                      textDecoration: entry.action === ItemHistoryAction.NOTE_DELETED ? 'line-through' : 'none',
+                    }}
+                  >
+                    "{detail}"
+                  </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  <Tooltip title={entry.changedBy}>
+                    <span>{formatHistoryAuthor(entry)}</span>
+                  </Tooltip>
+                  {' · '}
+                  {format(new Date(entry.changedAt), 'MMM d, yyyy HH:mm:ss')}
+                </Typography>
+              </Box>
+            </Box>
+          );
+        })}
+      </Stack>
+    );
+  };
+
+  return (
+    <Drawer anchor="right" open={open} onClose={onClose} PaperProps={{ sx: { width: isMobile ? '100%' : 480 } }}>
+      <Box sx={{ p: 2 }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+          <FontAwesomeIcon icon={faListUl} />
+          <Typography variant="h6" sx={{ flexGrow: 1 }}>
+            Checklist Activity
+          </Typography>
+          <IconButton onClick={onClose} aria-label="Close activity">
+            <FontAwesomeIcon icon={faXmark} />
+          </IconButton>
+        </Box>
+
+        {/* Filters */}
+        <Stack spacing={1.5} sx={{ mb: 2 }}>
+          <FormControl fullWidth size="small">
+            <InputLabel id="activity-window-label" shrink>Time</InputLabel>
+            <Select
+              labelId="activity-window-label"
+              label="Time"
+              value={windowMinutes}
+              onChange={(e) => setWindowMinutes(e.target.value === '' ? '' : Number(e.target.value))}
+              displayEmpty
+              notched
+            >
+              <MenuItem value="">All time</MenuItem>
+              {ACTIVITY_TIME_WINDOWS.map((window) => (
+                <MenuItem key={window.minutes} value={window.minutes}>
+                  {window.label}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+          <Box sx={{ display: 'flex', gap: 1.5 }}>
+            <FormControl fullWidth size="small">
+              <InputLabel id="activity-position-label" shrink>Position</InputLabel>
+              <Select
+                labelId="activity-position-label"
+                label="Position"
+                value={position}
+                onChange={(e) => setPosition(e.target.value)}
+                displayEmpty
+                notched
+              >
+                <MenuItem value="">All positions</MenuItem>
+                {positions.map((p) => (
+                  <MenuItem key={p} value={p}>
+                    {p}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+            <FormControl fullWidth size="small">
+              <InputLabel id="activity-action-label" shrink>Action</InputLabel>
+              <Select
+                labelId="activity-action-label"
+                label="Action"
+                value={actionType}
+                onChange={(e) => setActionType(e.target.value as ActivityActionType | '')}
+                displayEmpty
+                notched
+              >
+                <MenuItem value="">All actions</MenuItem>
+                {ACTIVITY_ACTION_TYPES.map((type) => (
+                  <MenuItem key={type.value} value={type.value}>
+                    {type.label}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          </Box>
+          <Box sx={{ display: 'flex', alignItems: 'center' }}>
+            <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+              {filtered.length} of {entries.length} entries
+            </Typography>
+            <CobraLinkButton
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faFileCsv} />}
+              onClick={handleExport}
+              disabled={filtered.length === 0}
+            >
+              Export CSV
+            </CobraLinkButton>
+          </Box>
+        </Stack>
+
+        {renderFeed()}
+      </Box>
+    </Drawer>
+  );
+};
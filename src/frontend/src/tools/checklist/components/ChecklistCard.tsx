@@ -7,6 +7,8 @@
  * - Progress bar with C5 color coding
  * - Text ellipsis for long content
  * - Assigned positions with overflow handling
+ * - Attachment count (photos and files across all items)
+ * - Avatars of other people viewing the checklist (live presence)
  */
 
 import React from 'react';
@@ -24,8 +26,11 @@ import {
   faArrowsRotate,
   faClipboardList,
   faExclamationTriangle,
+  faPaperclip,
 } from '@fortawesome/free-solid-svg-icons';
 import type { ChecklistInstanceDto } from '../services/checklistService';
+import type { ChecklistViewer } from '../hooks/useChecklistHub';
+import { ViewerAvatars } from './ViewerAvatars';
 import { cobraTheme } from '../../../theme/cobraTheme';
 
 /**
@@ -39,6 +44,8 @@ type TemplateType = 'recurring' | 'one-time' | 'urgent';
 interface ChecklistCardProps {
   checklist: ChecklistInstanceDto;
   templateType?: TemplateType; // Optional: inferred from name patterns or explicit field
+  /** Other people viewing the checklist right now */
+  viewers?: ChecklistViewer[];
 }
 
 /**
@@ -115,6 +122,7 @@ const inferTemplateType = (name: string): TemplateType => {
 export const ChecklistCard: React.FC<ChecklistCardProps> = ({
   checklist,
   templateType,
+  viewers = [],
 }) => {
   const navigate = useNavigate();
 
@@ -303,15 +311,29 @@ export const ChecklistCard: React.FC<ChecklistCardProps> = ({
           )}
         </Box>
 
-        {/* Created by - always at bottom */}
-        <Typography
-          variant="caption"
-          color="text.secondary"
-          sx={{ mt: 1 }}
-          noWrap
-        >
-          Created by {checklist.createdBy}
-        </Typography>
+        {/* Created by + attachment count + viewers - always at bottom */}
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+          <Typography
+            variant="caption"
+            color="text.secondary"
+            sx={{ flexGrow: 1, minWidth: 0 }}
+            noWrap
+          >
+            Created by {checklist.createdBy}
+          </Typography>
+          {!!checklist.attachmentCount && (
+            <Typography
+              variant="caption"
+              color="text.secondary"
+              title={`${checklist.attachmentCount} attachment${checklist.attachmentCount === 1 ? '' : 's'}`}
+              sx={{ display: 'flex', alignItems: 'center', gap: 0.5, flexShrink: 0 }}
+            >
+              <FontAwesomeIcon icon={faPaperclip} style={{ fontSize: 10 }} />
+              {checklist.attachmentCount}
+            </Typography>
+          )}
+          <ViewerAvatars viewers={viewers} max={3} size={20} />
+        </Box>
       </CardContent>
     </Card>
   );
@@ -6,6 +6,7 @@
  * - Filters hidden behind button with badge showing active count
  * - Click to expand/collapse filter panel
  * - "Clear All" button for quick reset
+ * - "Overdue only" toggle for checklists with items past their due time
  *
  * Filters are applied client-side for responsive UX.
  */
@@ -28,6 +29,7 @@ import {
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faFilter, faSearch, faXmark, faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons';
 import type { ChecklistInstanceDto } from '../services/checklistService';
+import { hasOverdueItems } from '../utils/itemDue';
 import {
   CobraTextField,
   CobraSecondaryButton,
@@ -47,10 +49,14 @@ interface ChecklistFiltersProps {
   selectedOperationalPeriod: string | null;
   selectedCompletionStatus: CompletionStatusFilter;
   showArchived: boolean;
+  showOverdueOnly: boolean;
   searchQuery: string;
+  /** Current time (ms since epoch) used to count overdue checklists */
+  now: number;
   onOperationalPeriodChange: (periodId: string | null) => void;
   onCompletionStatusChange: (status: CompletionStatusFilter) => void;
   onShowArchivedChange: (show: boolean) => void;
+  onShowOverdueOnlyChange: (show: boolean) => void;
   onSearchQueryChange: (query: string) => void;
 }
 
@@ -88,14 +94,18 @@ export const ChecklistFilters: React.FC<ChecklistFiltersProps> = ({
   selectedOperationalPeriod,
   selectedCompletionStatus,
   showArchived,
+  showOverdueOnly,
   searchQuery,
+  now,
   onOperationalPeriodChange,
   onCompletionStatusChange,
   onShowArchivedChange,
+  onShowOverdueOnlyChange,
   onSearchQueryChange,
 }) => {
   const [filtersExpanded, setFiltersExpanded] = useState(false);
   const operationalPeriods = getOperationalPeriods(checklists);
+  const overdueCount = checklists.filter((c) => hasOverdueItems(c, now)).length;
 
   // Handle operational period change
   const handlePeriodChange = (event: SelectChangeEvent<string>) => {
@@ -118,6 +128,7 @@ export const ChecklistFilters: React.FC<ChecklistFiltersProps> = ({
     onOperationalPeriodChange(null);
     onCompletionStatusChange('all');
     onShowArchivedChange(false);
+    onShowOverdueOnlyChange(false);
     onSearchQueryChange('');
   };
 
@@ -125,7 +136,8 @@ export const ChecklistFilters: React.FC<ChecklistFiltersProps> = ({
   const activeFilterCount =
     (selectedOperationalPeriod !== null ? 1 : 0) +
     (selectedCompletionStatus !== 'all' ? 1 : 0) +
-    (showArchived ? 1 : 0);
+    (showArchived ? 1 : 0) +
+    (showOverdueOnly ? 1 : 0);
 
   const hasActiveFilters = activeFilterCount > 0 || searchQuery.length > 0;
   const periodCount = operationalPeriods.length;
@@ -254,6 +266,19 @@ export const ChecklistFilters: React.FC<ChecklistFiltersProps> = ({
               </Select>
             </FormControl>
 
+            {/* Overdue only toggle */}
+            <FormControlLabel
+              control={
+                <Switch
+                  checked={showOverdueOnly}
+                  onChange={(e) => onShowOverdueOnlyChange(e.target.checked)}
+                  size="small"
+                  color="error"
+                />
+              }
+              label={`Overdue Items Only (${overdueCount})`}
+            />
+
             {/* Show Archived toggle */}
             <FormControlLabel
               control={
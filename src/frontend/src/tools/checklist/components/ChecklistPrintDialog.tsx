@@ -0,0 +1,278 @@
+/**
+ * ChecklistPrintDialog Component
+ *
+ * Prints checklists for paper fallback during outages (or saves them as PDF
+ * from the print dialog).
+ *
+ * Scope:
+ * - A single checklist (when opened from a checklist)
+ * - Every checklist of the event, of one position, or of one operational
+ *   period (batch, one checklist per page)
+ *
+ * Copy: filled with current completion, who/when and notes, or blank to
+ * complete by hand.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  DialogActions,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPrint, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { CobraDialog, CobraLinkButton, CobraPrimaryButton } from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { getCurrentUser } from '../../../core/services/api';
+import { checklistPrintService } from '../services/checklistPrintService';
+import type { ChecklistInstanceDto } from '../services/checklistService';
+import {
+  checklistToPrintable,
+  filterChecklistsForPrint,
+  getPrintPeriods,
+  getPrintPositions,
+  type ChecklistPrintMode,
+} from '../utils/checklistPrint';
+
+type ScopeKind = 'checklist' | 'all' | 'position' | 'operationalPeriod';
+
+/**
+ * Props for ChecklistPrintDialog
+ */
+interface ChecklistPrintDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Event whose checklists can be batch printed */
+  eventId?: string;
+  eventName: string;
+  /** Checklist to print on its own (enables the single-checklist scope) */
+  checklist?: ChecklistInstanceDto;
+}
+
+/**
+ * ChecklistPrintDialog Component
+ */
+export const ChecklistPrintDialog: React.FC<ChecklistPrintDialogProps> = ({
+  open,
+  onClose,
+  eventId,
+  eventName,
+  checklist,
+}) => {
+  const [scopeKind, setScopeKind] = useState<ScopeKind>(checklist ? 'checklist' : 'all');
+  const [position, setPosition] = useState('');
+  const [operationalPeriodId, setOperationalPeriodId] = useState('');
+  const [mode, setMode] = useState<ChecklistPrintMode>('filled');
+  const [eventChecklists, setEventChecklists] = useState<ChecklistInstanceDto[] | null>(null);
+  const [loadingEvent, setLoadingEvent] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setScopeKind(checklist ? 'checklist' : 'all');
+    setMode('filled');
+    setError(null);
+    setEventChecklists(null);
+  }, [open, checklist?.id]);
+
+  // Event checklists are needed for the batch scopes
+  useEffect(() => {
+    if (!open || scopeKind === 'checklist' || eventChecklists || !eventId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoadingEvent(true);
+        const data = await checklistPrintService.loadEventChecklists(eventId);
+        if (!cancelled) setEventChecklists(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load checklists');
+      } finally {
+        if (!cancelled) setLoadingEvent(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, scopeKind, eventChecklists, eventId]);
+
+  const positions = useMemo(() => getPrintPositions(eventChecklists ?? []), [eventChecklists]);
+  const periods = useMemo(() => getPrintPeriods(eventChecklists ?? []), [eventChecklists]);
+
+  // Default to the first position / period once they are known
+  useEffect(() => {
+    if (positions.length > 0 && !positions.includes(position)) {
+      setPosition(positions[0]);
+    }
+  }, [positions, position]);
+
+  useEffect(() => {
+    if (periods.length > 0 && !periods.some((p) => p.id === operationalPeriodId)) {
+      setOperationalPeriodId(periods[0].id);
+    }
+  }, [periods, operationalPeriodId]);
+
+  const selectedChecklists = useMemo((): ChecklistInstanceDto[] => {
+    switch (scopeKind) {
+      case 'checklist':
+        return checklist ? [checklist] : [];
+      case 'position':
+        return position ? filterChecklistsForPrint(eventChecklists ?? [], { position }) : [];
+      case 'operationalPeriod':
+        return operationalPeriodId
+          ? filterChecklistsForPrint(eventChecklists ?? [], { operationalPeriodId })
+          : [];
+      default:
+        return filterChecklistsForPrint(eventChecklists ?? [], {});
+    }
+  }, [scopeKind, checklist, eventChecklists, position, operationalPeriodId]);
+
+  const handlePrint = () => {
+    if (selectedChecklists.length === 0) {
+      setError('No checklists in the selected scope');
+      return;
+    }
+
+    const user = getCurrentUser();
+    const name = user.fullName || user.email;
+    try {
+      setError(null);
+      checklistPrintService.print(
+        selectedChecklists.map((c) => checklistToPrintable(c, mode)),
+        { printedBy: user.position ? `${name} (${user.position})` : name }
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to print checklists');
+    }
+  };
+
+  const batchLoading = scopeKind !== 'checklist' && loadingEvent;
+
+  return (
+    <CobraDialog open={open} onClose={onClose} title="Print Checklists" contentWidth="600px">
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Typography variant="body2" color="text.secondary">
+          Prints a paper copy for <strong>{eventName}</strong>, one checklist per page. Choose
+          &ldquo;Save as PDF&rdquo; in the print dialog for a PDF.
+        </Typography>
+
+        <FormControl component="fieldset">
+          <FormLabel component="legend">Include</FormLabel>
+          <RadioGroup value={scopeKind} onChange={(e) => setScopeKind(e.target.value as ScopeKind)}>
+            {checklist && (
+              <FormControlLabel
+                value="checklist"
+                control={<Radio />}
+                label={`This checklist (${checklist.name})`}
+              />
+            )}
+            <FormControlLabel value="all" control={<Radio />} label="All checklists in the event" disabled={!eventId} />
+            <FormControlLabel
+              value="position"
+              control={<Radio />}
+              label="All checklists for a position"
+              disabled={!eventId}
+            />
+            <FormControlLabel
+              value="operationalPeriod"
+              control={<Radio />}
+              label="All checklists in an operational period"
+              disabled={!eventId}
+            />
+          </RadioGroup>
+        </FormControl>
+
+        {batchLoading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {scopeKind === 'position' && !loadingEvent && eventChecklists && (
+          positions.length > 0 ? (
+            <FormControl fullWidth size="small">
+              <InputLabel id="print-position-label">Position</InputLabel>
+              <Select
+                labelId="print-position-label"
+                label="Position"
+                value={position}
+                onChange={(e) => setPosition(e.target.value)}
+              >
+                {positions.map((p) => (
+                  <MenuItem key={p} value={p}>
+                    {p}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ) : (
+            <Alert severity="info">No checklists in this event are assigned to a position.</Alert>
+          )
+        )}
+
+        {scopeKind === 'operationalPeriod' && !loadingEvent && eventChecklists && (
+          periods.length > 0 ? (
+            <FormControl fullWidth size="small">
+              <InputLabel id="print-period-label">Operational Period</InputLabel>
+              <Select
+                labelId="print-period-label"
+                label="Operational Period"
+                value={operationalPeriodId}
+                onChange={(e) => setOperationalPeriodId(e.target.value)}
+              >
+                {periods.map((period) => (
+                  <MenuItem key={period.id} value={period.id}>
+                    {period.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ) : (
+            <Alert severity="info">No checklists in this event are assigned to an operational period.</Alert>
+          )
+        )}
+
+        <FormControl component="fieldset">
+          <FormLabel component="legend">Copy</FormLabel>
+          <RadioGroup row value={mode} onChange={(e) => setMode(e.target.value as ChecklistPrintMode)}>
+            <FormControlLabel value="filled" control={<Radio />} label="Filled (current progress and notes)" />
+            <FormControlLabel value="blank" control={<Radio />} label="Blank (complete by hand)" />
+          </RadioGroup>
+        </FormControl>
+
+        {scopeKind !== 'checklist' && eventChecklists && (
+          <Typography variant="body2" color="text.secondary">
+            {selectedChecklists.length} checklist{selectedChecklists.length === 1 ? '' : 's'} will print
+          </Typography>
+        )}
+
+        {error && <Alert severity="warning">{error}</Alert>}
+
+        <DialogActions>
+          <CobraLinkButton onClick={onClose}>Cancel</CobraLinkButton>
+          <CobraPrimaryButton
+            onClick={handlePrint}
+            disabled={batchLoading}
+            startIcon={<FontAwesomeIcon icon={batchLoading ? faSpinner : faPrint} spin={batchLoading} />}
+          >
+            Print
+          </CobraPrimaryButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
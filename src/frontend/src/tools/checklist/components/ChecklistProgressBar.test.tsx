@@ -43,6 +43,28 @@ describe('ChecklistProgressBar', () => {
     });
   });
 
+  describe('blocked items', () => {
+    it('shows the blocked count and segment', () => {
+      render(
+        <ChecklistProgressBar
+          value={25}
+          showCount={true}
+          completedItems={1}
+          totalItems={4}
+          blockedItems={2}
+        />
+      );
+      expect(screen.getByText('1 / 4 items · 2 blocked')).toBeInTheDocument();
+      expect(screen.getByTestId('progress-bar-blocked')).toHaveStyle({ left: '25%', width: '50%' });
+    });
+
+    it('omits the blocked segment when no items are blocked', () => {
+      render(<ChecklistProgressBar value={25} showCount={true} completedItems={1} totalItems={4} />);
+      expect(screen.getByText('1 / 4 items')).toBeInTheDocument();
+      expect(screen.queryByTestId('progress-bar-blocked')).not.toBeInTheDocument();
+    });
+  });
+
   describe('value clamping', () => {
     it('clamps values above 100 to 100', () => {
       render(<ChecklistProgressBar value={150} />);
@@ -9,10 +9,13 @@
  * - Color-coded progress: red < 34%, yellow < 67%, blue < 100%, green = 100%
  * - Clear visual border/outline for visibility
  * - Percentage text inside bar for compact display
+ * - Optional hatched segment for blocked items (waiting on a prerequisite),
+ *   so they are distinguishable from items not started
  */
 
 import React from 'react';
 import { Box, Typography } from '@mui/material';
+import { alpha } from '@mui/material/styles';
 import { c5Colors } from '../../../theme/c5Theme';
 
 interface ChecklistProgressBarProps {
@@ -28,6 +31,8 @@ interface ChecklistProgressBarProps {
   completedItems?: number;
   /** Total items count */
   totalItems?: number;
+  /** Items locked by an incomplete prerequisite (shown as a hatched segment) */
+  blockedItems?: number;
   /** Whether the progress bar should stick to the top when scrolling */
   sticky?: boolean;
 }
@@ -42,6 +47,11 @@ const getProgressColor = (percentage: number): string => {
   return c5Colors.lavaRed;
 };
 
+/**
+ * Stripe color of the blocked segment
+ */
+const hatchColor = alpha(c5Colors.darkGray, 0.25);
+
 /**
  * Get contrasting text color for the progress bar
  */
@@ -62,11 +72,15 @@ export const ChecklistProgressBar: React.FC<ChecklistProgressBarProps> = ({
   showCount = false,
   completedItems,
   totalItems,
+  blockedItems = 0,
   sticky = false,
 }) => {
   // Clamp value between 0 and 100
   const percentage = Math.min(100, Math.max(0, value));
   const fillColor = getProgressColor(percentage);
+  const blockedPercentage = totalItems
+    ? Math.min(100 - percentage, (blockedItems / totalItems) * 100)
+    : 0;
 
   return (
     <Box
@@ -118,6 +132,22 @@ export const ChecklistProgressBar: React.FC<ChecklistProgressBarProps> = ({
           }}
         />
 
+        {/* Blocked segment - hatched, after the completed fill */}
+        {blockedPercentage > 0 && (
+          <Box
+            data-testid="progress-bar-blocked"
+            sx={{
+              position: 'absolute',
+              top: 0,
+              left: `${percentage}%`,
+              height: '100%',
+              width: `${blockedPercentage}%`,
+              backgroundImage: `repeating-linear-gradient(45deg, ${hatchColor} 0, ${hatchColor} 4px, transparent 4px, transparent 8px)`,
+              transition: 'left 0.4s ease-out, width 0.4s ease-out',
+            }}
+          />
+        )}
+
         {/* Percentage text - positioned inside the bar */}
         {showPercentage && (
           <Box
@@ -163,6 +193,7 @@ export const ChecklistProgressBar: React.FC<ChecklistProgressBarProps> = ({
           sx={{ display: 'block', mt: 0.5, textAlign: 'right' }}
         >
           {completedItems} / {totalItems} items
+          {blockedItems > 0 && ` · ${blockedItems} blocked`}
         </Typography>
       )}
     </Box>
@@ -0,0 +1,192 @@
+/**
+ * ChecklistSignOffBanner Component
+ *
+ * Sign-off state of a checklist, shown above the items in every variant:
+ * - Open: "Submit for Sign-Off" once all required items are complete
+ * - Pending: who submitted it; "Sign Off" for managers other than the submitter
+ * - Signed off: supervisor name, position, time and signature; "Reopen" for managers
+ *
+ * Nothing is shown for an open checklist that cannot be submitted yet.
+ */
+
+import React, { useState } from 'react';
+import { Alert, AlertTitle, Box, type SxProps, type Theme } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLock, faLockOpen, faPaperPlane, faSignature } from '@fortawesome/free-solid-svg-icons';
+import { format } from 'date-fns';
+import { toast } from 'react-toastify';
+import { CobraPrimaryButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import { getCurrentUser } from '../../../core/services/api';
+import { usePermissions } from '../../../shared/hooks/usePermissions';
+import { checklistService, type ChecklistInstanceDto } from '../services/checklistService';
+import { ChecklistSignOffStatus } from '../types';
+import {
+  canSubmitForSignOff,
+  formatSignedOffBy,
+  getSignOffStatus,
+  isOwnSignOffSubmission,
+} from '../utils/checklistSignOff';
+import {
+  ChecklistSignOffDialog,
+  type ChecklistSignOffDialogMode,
+  type ChecklistSignOffInput,
+} from './ChecklistSignOffDialog';
+
+/**
+ * Props for ChecklistSignOffBanner
+ */
+interface ChecklistSignOffBannerProps {
+  checklist: ChecklistInstanceDto;
+  /** Called with the updated checklist after a sign-off action */
+  onChanged?: (checklist: ChecklistInstanceDto) => void;
+  sx?: SxProps<Theme>;
+}
+
+const formatTime = (value?: string) => (value ? format(new Date(value), 'MMM d, yyyy h:mm a') : '');
+
+/**
+ * ChecklistSignOffBanner Component
+ */
+export const ChecklistSignOffBanner: React.FC<ChecklistSignOffBannerProps> = ({ checklist, onChanged, sx }) => {
+  const { canInteractWithItems, canSignOffChecklists } = usePermissions();
+  const [dialogMode, setDialogMode] = useState<ChecklistSignOffDialogMode | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const status = getSignOffStatus(checklist);
+  const isOwnSubmission = isOwnSignOffSubmission(checklist, getCurrentUser().email);
+
+  const handleConfirm = async (input: ChecklistSignOffInput) => {
+    if (!dialogMode) return;
+
+    try {
+      setSaving(true);
+      let updated: ChecklistInstanceDto;
+      if (dialogMode === 'submit') {
+        updated = await checklistService.submitForSignOff(checklist.id);
+        toast.success(`"${checklist.name}" submitted for sign-off`);
+      } else if (dialogMode === 'signOff') {
+        updated = await checklistService.signOff(checklist.id, input.signature);
+        toast.success(`"${checklist.name}" signed off`);
+      } else {
+        updated = await checklistService.reopenChecklist(checklist.id, input.reason ?? '');
+        toast.success(`"${checklist.name}" reopened`);
+      }
+      setDialogMode(null);
+      onChanged?.(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderBanner = () => {
+    switch (status) {
+      case ChecklistSignOffStatus.OPEN:
+        return (
+          canInteractWithItems &&
+          canSubmitForSignOff(checklist) && (
+            <Alert
+              severity="success"
+              action={
+                <CobraPrimaryButton
+                  size="small"
+                  startIcon={<FontAwesomeIcon icon={faPaperPlane} />}
+                  onClick={() => setDialogMode('submit')}
+                >
+                  Submit for Sign-Off
+                </CobraPrimaryButton>
+              }
+            >
+              All required items are complete. Submit the checklist for supervisor sign-off.
+            </Alert>
+          )
+        );
+      case ChecklistSignOffStatus.PENDING_SIGN_OFF:
+        return (
+          <Alert
+            severity="info"
+            action={
+              canSignOffChecklists &&
+              !checklist.isArchived && (
+                <Box sx={{ display: 'flex', gap: 1 }}>
+                  <CobraSecondaryButton
+                    size="small"
+                    startIcon={<FontAwesomeIcon icon={faLockOpen} />}
+                    onClick={() => setDialogMode('reopen')}
+                  >
+                    Reopen
+                  </CobraSecondaryButton>
+                  {!isOwnSubmission && (
+                    <CobraPrimaryButton
+                      size="small"
+                      startIcon={<FontAwesomeIcon icon={faSignature} />}
+                      onClick={() => setDialogMode('signOff')}
+                    >
+                      Sign Off
+                    </CobraPrimaryButton>
+                  )}
+                </Box>
+              )
+            }
+          >
+            <AlertTitle>Awaiting sign-off</AlertTitle>
+            Submitted by {checklist.submittedForSignOffByPosition || checklist.submittedForSignOffBy}
+            {checklist.submittedForSignOffAt && ` on ${formatTime(checklist.submittedForSignOffAt)}`}
+            {isOwnSubmission && canSignOffChecklists && ' · Another manager must sign off your submission'}
+          </Alert>
+        );
+      case ChecklistSignOffStatus.SIGNED_OFF:
+        return (
+          <Alert
+            severity="success"
+            icon={<FontAwesomeIcon icon={faLock} />}
+            action={
+              canSignOffChecklists &&
+              !checklist.isArchived && (
+                <CobraSecondaryButton
+                  size="small"
+                  startIcon={<FontAwesomeIcon icon={faLockOpen} />}
+                  onClick={() => setDialogMode('reopen')}
+                >
+                  Reopen
+                </CobraSecondaryButton>
+              )
+            }
+            data-testid="checklist-signed-off"
+          >
+            <AlertTitle>Signed off</AlertTitle>
+            Signed off by {formatSignedOffBy(checklist)}
+            {checklist.signedOffAt && ` on ${formatTime(checklist.signedOffAt)}`}. This checklist is read-only.
+            {checklist.signOffSignature && (
+              <Box
+                component="img"
+                src={checklist.signOffSignature}
+                alt={`Signature of ${formatSignedOffBy(checklist)}`}
+                sx={{ display: 'block', mt: 1, maxHeight: 60, maxWidth: 240, backgroundColor: '#FFFFFF' }}
+              />
+            )}
+          </Alert>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const banner = renderBanner();
+  if (!banner) return null;
+
+  return (
+    <Box sx={sx} data-testid="checklist-sign-off-banner">
+      {banner}
+      {dialogMode && (
+        <ChecklistSignOffDialog
+          open={!!dialogMode}
+          mode={dialogMode}
+          checklistName={checklist.name}
+          onConfirm={handleConfirm}
+          onCancel={() => setDialogMode(null)}
+          saving={saving}
+        />
+      )}
+    </Box>
+  );
+};
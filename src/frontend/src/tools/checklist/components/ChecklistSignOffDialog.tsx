@@ -0,0 +1,186 @@
+/**
+ * ChecklistSignOffDialog Component
+ *
+ * Confirmation dialog for the checklist sign-off workflow:
+ * - submit: confirm submitting a completed checklist for supervisor sign-off
+ * - signOff: the supervisor's name and position, with an optional drawn signature
+ * - reopen: required reason (recorded in the activity feed)
+ *
+ * Used by the sign-off banner on the checklist detail page.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DialogActions, Stack, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLockOpen, faPaperPlane, faSignature, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import {
+  CobraDialog,
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { getCurrentUser } from '../../../core/services/api';
+import { SignaturePad } from './SignaturePad';
+
+/**
+ * Sign-off action performed by the dialog
+ */
+export type ChecklistSignOffDialogMode = 'submit' | 'signOff' | 'reopen';
+
+/**
+ * What the user entered (signature for signOff, reason for reopen)
+ */
+export interface ChecklistSignOffInput {
+  signature?: string;
+  reason?: string;
+}
+
+/**
+ * Props for ChecklistSignOffDialog
+ */
+interface ChecklistSignOffDialogProps {
+  open: boolean;
+  mode: ChecklistSignOffDialogMode;
+  checklistName: string;
+  onConfirm: (input: ChecklistSignOffInput) => Promise<void>;
+  onCancel: () => void;
+  saving?: boolean;
+}
+
+/**
+ * Maximum reopen reason length (matches backend)
+ */
+const MAX_REASON_LENGTH = 2000;
+
+/**
+ * Per-mode labels
+ */
+const MODE_CONFIG: Record<ChecklistSignOffDialogMode, { title: string; confirmLabel: string }> = {
+  submit: { title: 'Submit for Sign-Off', confirmLabel: 'Submit' },
+  signOff: { title: 'Sign Off Checklist', confirmLabel: 'Sign Off' },
+  reopen: { title: 'Reopen Checklist', confirmLabel: 'Reopen' },
+};
+
+const MODE_ICONS = {
+  submit: faPaperPlane,
+  signOff: faSignature,
+  reopen: faLockOpen,
+};
+
+/**
+ * ChecklistSignOffDialog Component
+ */
+export const ChecklistSignOffDialog: React.FC<ChecklistSignOffDialogProps> = ({
+  open,
+  mode,
+  checklistName,
+  onConfirm,
+  onCancel,
+  saving = false,
+}) => {
+  const [reason, setReason] = useState('');
+  const [signature, setSignature] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const config = MODE_CONFIG[mode];
+  const currentUser = getCurrentUser();
+
+  // Reset when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setSignature(null);
+      setError(null);
+    }
+  }, [open, mode]);
+
+  const isOverLimit = reason.length > MAX_REASON_LENGTH;
+
+  const handleConfirm = async () => {
+    if (mode === 'reopen' && reason.trim().length === 0) {
+      setError('A reason is required to reopen a signed-off checklist');
+      return;
+    }
+
+    try {
+      await onConfirm(
+        mode === 'reopen' ? { reason: reason.trim() } : mode === 'signOff' ? { signature: signature ?? undefined } : {}
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed. Please try again.');
+    }
+  };
+
+  return (
+    <CobraDialog open={open} onClose={onCancel} title={config.title} contentWidth="600px">
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Typography variant="body2" color="text.secondary">
+          Checklist: <strong>{checklistName}</strong>
+        </Typography>
+
+        {mode === 'submit' && (
+          <Typography variant="body2">
+            All required items are complete. A supervisor will review and sign off the checklist; once signed
+            off it becomes read-only.
+          </Typography>
+        )}
+
+        {mode === 'signOff' && (
+          <>
+            <Typography variant="body2">
+              Signing as <strong>{currentUser.fullName || currentUser.email}</strong>
+              {currentUser.position && ` (${currentUser.position})`}. The checklist will become read-only until a
+              manager reopens it.
+            </Typography>
+            <Typography variant="subtitle2">Signature (optional)</Typography>
+            <SignaturePad onChange={setSignature} disabled={saving} />
+          </>
+        )}
+
+        {mode === 'reopen' && (
+          <CobraTextField
+            label="Reason for reopening"
+            multiline
+            rows={4}
+            fullWidth
+            value={reason}
+            onChange={(e) => {
+              setReason(e.target.value);
+              setError(null);
+            }}
+            required
+            error={isOverLimit || !!error}
+            helperText={
+              error ||
+              (isOverLimit
+                ? `Character limit exceeded (${MAX_REASON_LENGTH} max)`
+                : `${reason.length} / ${MAX_REASON_LENGTH}`)
+            }
+            placeholder="Explain what needs to change..."
+            autoFocus
+            disabled={saving}
+          />
+        )}
+
+        {mode !== 'reopen' && error && (
+          <Typography variant="body2" color="error">
+            {error}
+          </Typography>
+        )}
+
+        <DialogActions>
+          <CobraLinkButton onClick={onCancel} disabled={saving}>
+            Cancel
+          </CobraLinkButton>
+          <CobraPrimaryButton
+            onClick={handleConfirm}
+            disabled={saving || isOverLimit}
+            startIcon={<FontAwesomeIcon icon={saving ? faSpinner : MODE_ICONS[mode]} spin={saving} />}
+          >
+            {config.confirmLabel}
+          </CobraPrimaryButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -0,0 +1,128 @@
+/**
+ * CombinedChecklistPreview Component
+ *
+ * Merge preview step of TemplatePickerDialog when combining templates:
+ * - One block per template, in the order they will appear in the checklist
+ * - Move blocks up/down
+ * - Items with the same text in several templates are flagged; each can be
+ *   kept or left out, and duplicates can be removed or kept in one click
+ */
+
+import React from 'react';
+import { Box, Checkbox, Chip, IconButton, Paper, Stack, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowDown, faArrowUp, faClone } from '@fortawesome/free-solid-svg-icons';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import { CobraLinkButton } from '../../../theme/styledComponents';
+import type { MergePreview } from '../utils/combinedChecklist';
+
+interface CombinedChecklistPreviewProps {
+  preview: MergePreview;
+  onMoveBlock: (index: number, direction: -1 | 1) => void;
+  onToggleItem: (itemId: string) => void;
+  onRemoveDuplicates: () => void;
+  onKeepAll: () => void;
+}
+
+/**
+ * CombinedChecklistPreview Component
+ */
+export const CombinedChecklistPreview: React.FC<CombinedChecklistPreviewProps> = ({
+  preview,
+  onMoveBlock,
+  onToggleItem,
+  onRemoveDuplicates,
+  onKeepAll,
+}) => (
+  <Stack spacing={2}>
+    {/* Summary */}
+    <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+      <Typography variant="body2" sx={{ flex: 1 }}>
+        {preview.totalItems} item{preview.totalItems === 1 ? '' : 's'} from {preview.blocks.length} templates
+        {preview.excludedCount > 0 && ` (${preview.excludedCount} left out)`}
+      </Typography>
+      {preview.duplicateCount > 0 && (
+        <>
+          <CobraLinkButton size="small" onClick={onRemoveDuplicates}>
+            Remove Duplicates
+          </CobraLinkButton>
+          <CobraLinkButton size="small" onClick={onKeepAll}>
+            Keep All
+          </CobraLinkButton>
+        </>
+      )}
+    </Box>
+
+    {/* Template blocks */}
+    {preview.blocks.map((block, index) => (
+      <Paper key={block.template.id} variant="outlined" sx={{ p: 1.5 }} data-testid="merge-block">
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+          <Chip label={index + 1} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+          <Typography variant="subtitle2" sx={{ fontWeight: 'bold', flex: 1 }}>
+            {block.template.name}
+          </Typography>
+          <Typography variant="caption" color="text.secondary">
+            {block.includedCount}/{block.items.length} items
+          </Typography>
+          <IconButton
+            size="small"
+            onClick={() => onMoveBlock(index, -1)}
+            disabled={index === 0}
+            title="Move template up"
+          >
+            <FontAwesomeIcon icon={faArrowUp} size="sm" />
+          </IconButton>
+          <IconButton
+            size="small"
+            onClick={() => onMoveBlock(index, 1)}
+            disabled={index === preview.blocks.length - 1}
+            title="Move template down"
+          >
+            <FontAwesomeIcon icon={faArrowDown} size="sm" />
+          </IconButton>
+        </Box>
+
+        {block.items.map(({ item, excluded, isDuplicate, duplicateOf }) => (
+          <Box
+            key={item.id}
+            sx={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: 1,
+              pl: isDuplicate ? 0 : 1,
+              py: isDuplicate ? 0 : 0.5,
+              opacity: excluded ? 0.5 : 1,
+            }}
+          >
+            {isDuplicate && (
+              <Checkbox
+                size="small"
+                checked={!excluded}
+                onChange={() => onToggleItem(item.id)}
+                inputProps={{ 'aria-label': `Keep "${item.itemText}" from ${block.template.name}` }}
+              />
+            )}
+            <Typography
+              variant="body2"
+              sx={{ flex: 1, textDecoration: excluded ? 'line-through' : 'none' }}
+            >
+              {item.itemText}
+            </Typography>
+            {isDuplicate && (
+              <Chip
+                icon={<FontAwesomeIcon icon={faClone} style={{ fontSize: '0.6rem', marginLeft: 4 }} />}
+                label={duplicateOf ? `Also in ${duplicateOf}` : 'Duplicate'}
+                size="small"
+                sx={{
+                  height: 20,
+                  fontSize: '0.7rem',
+                  backgroundColor: excluded ? undefined : cobraTheme.palette.action.selected,
+                }}
+              />
+            )}
+          </Box>
+        ))}
+      </Paper>
+    ))}
+  </Stack>
+);
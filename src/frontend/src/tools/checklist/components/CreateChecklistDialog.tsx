@@ -9,6 +9,8 @@
  * Smart defaults minimize user friction:
  * - Event ID/Name pulled from C5 context (not user input)
  * - Pre-fills name with sensible defaults
+ * - Operational period picked from the event's periods, defaulting to the
+ *   current period (or the source checklist's period when copying)
  * - Hides advanced options (positions) unless needed
  *
  * User Stories:
@@ -28,6 +30,11 @@ import {
   Checkbox,
   FormGroup,
   FormLabel,
+  FormControl,
+  FormHelperText,
+  InputLabel,
+  MenuItem,
+  Select,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import { faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons';
@@ -40,6 +47,7 @@ import {
 } from '../../../theme/styledComponents';
 import CobraStyles from '../../../theme/CobraStyles';
 import { ICS_POSITIONS } from '../../../types';
+import { useOperationalPeriods, formatPeriodWindow } from '../../../shared/events';
 
 /**
  * Mode of checklist creation
@@ -112,9 +120,12 @@ export const CreateChecklistDialog: React.FC<CreateChecklistDialogProps> = ({
   onCancel,
   saving = false,
 }) => {
+  const { periods, currentPeriod } = useOperationalPeriods(eventId);
+
   // Form state
   const [name, setName] = useState('');
-  const [operationalPeriodName, setOperationalPeriodName] = useState(defaultOperationalPeriodName || '');
+  const [operationalPeriodId, setOperationalPeriodId] = useState('');
+  const [periodTouched, setPeriodTouched] = useState(false);
   const [selectedPositions, setSelectedPositions] = useState<string[]>([]);
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -133,11 +144,33 @@ export const CreateChecklistDialog: React.FC<CreateChecklistDialogProps> = ({
       }
 
       // Set defaults
-      setOperationalPeriodName(defaultOperationalPeriodName || '');
+      setPeriodTouched(false);
       setSelectedPositions([]);
       setShowAdvanced(false);
     }
-  }, [open, mode, templateName, sourceChecklistName, defaultOperationalPeriodName]);
+  }, [open, mode, templateName, sourceChecklistName]);
+
+  // Default the period until the user picks one (periods may still be loading)
+  // Copies keep the source's period; new checklists use the current period
+  useEffect(() => {
+    if (open && !periodTouched) {
+      setOperationalPeriodId(
+        mode === 'from-template'
+          ? defaultOperationalPeriodId ?? currentPeriod?.id ?? ''
+          : defaultOperationalPeriodId ?? ''
+      );
+    }
+  }, [open, periodTouched, mode, defaultOperationalPeriodId, currentPeriod?.id]);
+
+  // The source's period may since have been archived - keep it selectable
+  const missingDefaultPeriod =
+    defaultOperationalPeriodId && !periods.some((p) => p.id === defaultOperationalPeriodId)
+      ? { id: defaultOperationalPeriodId, name: defaultOperationalPeriodName || 'Previous period' }
+      : null;
+
+  const selectedPeriodName =
+    periods.find((p) => p.id === operationalPeriodId)?.name ??
+    (operationalPeriodId === missingDefaultPeriod?.id ? missingDefaultPeriod.name : undefined);
 
   // Handle save
   const handleSave = async () => {
@@ -163,8 +196,8 @@ export const CreateChecklistDialog: React.FC<CreateChecklistDialogProps> = ({
       name: name.trim(),
       eventId,
       eventName,
-      operationalPeriodId: defaultOperationalPeriodId,
-      operationalPeriodName: operationalPeriodName.trim() || undefined,
+      operationalPeriodId: operationalPeriodId || undefined,
+      operationalPeriodName: operationalPeriodId ? selectedPeriodName : undefined,
       assignedPositions: selectedPositions.length > 0 ? selectedPositions.join(', ') : undefined,
     };
 
@@ -259,14 +292,43 @@ export const CreateChecklistDialog: React.FC<CreateChecklistDialogProps> = ({
         />
 
         {/* Operational Period (Optional) */}
-        <CobraTextField
-          fullWidth
-          label="Operational Period Name (Optional)"
-          value={operationalPeriodName}
-          onChange={(e) => setOperationalPeriodName(e.target.value)}
-          disabled={saving}
-          helperText="Leave blank for incident-level checklist"
-        />
+        <FormControl fullWidth disabled={saving}>
+          <InputLabel shrink>Operational Period</InputLabel>
+          <Select
+            value={operationalPeriodId}
+            notched
+            onChange={(e) => {
+              setOperationalPeriodId(e.target.value);
+              setPeriodTouched(true);
+            }}
+            label="Operational Period"
+            displayEmpty
+            renderValue={(value) => (value ? selectedPeriodName : 'None (incident-level)')}
+          >
+            <MenuItem value="">None (incident-level)</MenuItem>
+            {periods.map((period) => (
+              <MenuItem key={period.id} value={period.id}>
+                <Box>
+                  <Typography variant="body2">
+                    {period.name}
+                    {period.id === currentPeriod?.id && ' (current)'}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    {formatPeriodWindow(period)}
+                  </Typography>
+                </Box>
+              </MenuItem>
+            ))}
+            {missingDefaultPeriod && (
+              <MenuItem value={missingDefaultPeriod.id}>{missingDefaultPeriod.name} (archived)</MenuItem>
+            )}
+          </Select>
+          <FormHelperText>
+            {periods.length === 0
+              ? 'This event has no operational periods - the checklist will be incident-level'
+              : 'Incident-level checklists stay visible across all periods'}
+          </FormHelperText>
+        </FormControl>
 
         {/* Advanced Options */}
         <Box>
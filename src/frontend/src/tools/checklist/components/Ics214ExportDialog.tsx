@@ -0,0 +1,323 @@
+/**
+ * Ics214ExportDialog Component
+ *
+ * Exports checklist activity as ICS-214 Activity Logs (one per operational
+ * period and ICS position) for Finance/Admin cost recovery.
+ *
+ * Scope:
+ * - A single checklist (when opened from a checklist)
+ * - All checklists in an operational period of the event
+ * - All activity in a date range for the event
+ *
+ * Formats: printable PDF (browser print dialog), CSV, XLSX.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  CircularProgress,
+  DialogActions,
+  FormControl,
+  FormControlLabel,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFileExport, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { format, startOfDay } from 'date-fns';
+import { toast } from 'react-toastify';
+import {
+  CobraDialog,
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { getCurrentUser } from '../../../core/services/api';
+import { ics214ExportService, type Ics214ExportFormat } from '../services/ics214ExportService';
+import type { ChecklistInstanceDto } from '../services/checklistService';
+import { buildIcs214Report, type Ics214Scope } from '../utils/ics214';
+
+type ScopeKind = Ics214Scope['kind'];
+
+/**
+ * Props for Ics214ExportDialog
+ */
+interface Ics214ExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Event whose checklists can be exported */
+  eventId?: string;
+  eventName: string;
+  /** Checklist to export on its own (enables the single-checklist scope) */
+  checklist?: Pick<ChecklistInstanceDto, 'id' | 'name' | 'operationalPeriodId'>;
+}
+
+/**
+ * Value for a datetime-local input
+ */
+const toInputDateTime = (date: Date): string => format(date, "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * Ics214ExportDialog Component
+ */
+export const Ics214ExportDialog: React.FC<Ics214ExportDialogProps> = ({
+  open,
+  onClose,
+  eventId,
+  eventName,
+  checklist,
+}) => {
+  const [scopeKind, setScopeKind] = useState<ScopeKind>(checklist ? 'checklist' : 'operationalPeriod');
+  const [operationalPeriodId, setOperationalPeriodId] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [exportFormat, setExportFormat] = useState<Ics214ExportFormat>('pdf');
+  const [eventChecklists, setEventChecklists] = useState<ChecklistInstanceDto[] | null>(null);
+  const [loadingEvent, setLoadingEvent] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    const now = new Date();
+    setScopeKind(checklist ? 'checklist' : 'operationalPeriod');
+    setOperationalPeriodId(checklist?.operationalPeriodId ?? '');
+    setFrom(toInputDateTime(startOfDay(now)));
+    setTo(toInputDateTime(now));
+    setError(null);
+    setEventChecklists(null);
+  }, [open, checklist?.id, checklist?.operationalPeriodId]);
+
+  // Event checklists are needed for period and date range scopes
+  useEffect(() => {
+    if (!open || scopeKind === 'checklist' || eventChecklists || !eventId) return;
+
+    let cancelled = false;
+    const load = async () => {
+      try {
+        setLoadingEvent(true);
+        const data = await ics214ExportService.loadEventChecklists(eventId);
+        if (!cancelled) setEventChecklists(data);
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load checklists');
+      } finally {
+        if (!cancelled) setLoadingEvent(false);
+      }
+    };
+    load();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, scopeKind, eventChecklists, eventId]);
+
+  // Distinct operational periods across the event's checklists
+  const periods = useMemo(() => {
+    const seen = new Map<string, string>();
+    (eventChecklists ?? []).forEach((c) => {
+      if (c.operationalPeriodId && !seen.has(c.operationalPeriodId)) {
+        seen.set(c.operationalPeriodId, c.operationalPeriodName || c.operationalPeriodId);
+      }
+    });
+    return [...seen.entries()].map(([id, name]) => ({ id, name }));
+  }, [eventChecklists]);
+
+  // Default to the first period once periods are known
+  useEffect(() => {
+    if (periods.length > 0 && !periods.some((p) => p.id === operationalPeriodId)) {
+      setOperationalPeriodId(periods[0].id);
+    }
+  }, [periods, operationalPeriodId]);
+
+  const buildScope = (): { scope: Ics214Scope; label: string } | null => {
+    switch (scopeKind) {
+      case 'checklist':
+        return checklist
+          ? { scope: { kind: 'checklist', checklistId: checklist.id }, label: checklist.name }
+          : null;
+      case 'operationalPeriod': {
+        const period = periods.find((p) => p.id === operationalPeriodId);
+        return period
+          ? { scope: { kind: 'operationalPeriod', operationalPeriodId: period.id }, label: period.name }
+          : null;
+      }
+      case 'dateRange': {
+        if (!from || !to || new Date(from) > new Date(to)) return null;
+        return {
+          scope: {
+            kind: 'dateRange',
+            from: new Date(from).toISOString(),
+            to: new Date(to).toISOString(),
+          },
+          label: `${format(new Date(from), 'MMM d HH:mm')} to ${format(new Date(to), 'MMM d HH:mm')}`,
+        };
+      }
+    }
+  };
+
+  const handleExport = async () => {
+    const selected = buildScope();
+    if (!selected) {
+      setError(
+        scopeKind === 'dateRange'
+          ? 'Enter a start time before the end time'
+          : 'Select an operational period'
+      );
+      return;
+    }
+
+    const user = getCurrentUser();
+    const reportOptions = {
+      incidentName: eventName,
+      scopeLabel: selected.label,
+      preparedBy: { name: user.fullName || user.email, position: user.position },
+    };
+
+    try {
+      setExporting(true);
+      setError(null);
+      const report =
+        selected.scope.kind === 'checklist' || !eventChecklists
+          ? await ics214ExportService.buildReport(selected.scope, eventId, reportOptions)
+          : buildIcs214Report(eventChecklists, selected.scope, reportOptions);
+
+      if (report.entryCount === 0) {
+        setError('No recorded activity in the selected scope');
+        return;
+      }
+
+      ics214ExportService.exportReport(report, exportFormat);
+      toast.success(
+        `ICS-214 exported: ${report.logs.length} log${report.logs.length === 1 ? '' : 's'}, ${
+          report.entryCount
+        } entr${report.entryCount === 1 ? 'y' : 'ies'}`
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export ICS-214');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <CobraDialog open={open} onClose={onClose} title="Export ICS-214 Activity Log" contentWidth="600px">
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Typography variant="body2" color="text.secondary">
+          Builds one activity log per operational period and ICS position from completed items,
+          status changes and notes for <strong>{eventName}</strong>.
+        </Typography>
+
+        <FormControl component="fieldset">
+          <FormLabel component="legend">Include</FormLabel>
+          <RadioGroup value={scopeKind} onChange={(e) => setScopeKind(e.target.value as ScopeKind)}>
+            {checklist && (
+              <FormControlLabel
+                value="checklist"
+                control={<Radio />}
+                label={`This checklist (${checklist.name})`}
+              />
+            )}
+            <FormControlLabel
+              value="operationalPeriod"
+              control={<Radio />}
+              label="All checklists in an operational period"
+              disabled={!eventId}
+            />
+            <FormControlLabel
+              value="dateRange"
+              control={<Radio />}
+              label="All activity in a date range"
+              disabled={!eventId}
+            />
+          </RadioGroup>
+        </FormControl>
+
+        {scopeKind !== 'checklist' && loadingEvent && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 1 }}>
+            <CircularProgress size={24} />
+          </Box>
+        )}
+
+        {scopeKind === 'operationalPeriod' && !loadingEvent && eventChecklists && (
+          periods.length > 0 ? (
+            <FormControl fullWidth size="small">
+              <InputLabel id="ics214-period-label">Operational Period</InputLabel>
+              <Select
+                labelId="ics214-period-label"
+                label="Operational Period"
+                value={operationalPeriodId}
+                onChange={(e) => setOperationalPeriodId(e.target.value)}
+              >
+                {periods.map((period) => (
+                  <MenuItem key={period.id} value={period.id}>
+                    {period.name}
+                  </MenuItem>
+                ))}
+              </Select>
+            </FormControl>
+          ) : (
+            <Alert severity="info">No checklists in this event are assigned to an operational period.</Alert>
+          )
+        )}
+
+        {scopeKind === 'dateRange' && (
+          <Box sx={{ display: 'flex', gap: 2 }}>
+            <CobraTextField
+              label="From"
+              type="datetime-local"
+              value={from}
+              onChange={(e) => setFrom(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+            <CobraTextField
+              label="To"
+              type="datetime-local"
+              value={to}
+              onChange={(e) => setTo(e.target.value)}
+              InputLabelProps={{ shrink: true }}
+              fullWidth
+            />
+          </Box>
+        )}
+
+        <FormControl component="fieldset">
+          <FormLabel component="legend">Format</FormLabel>
+          <RadioGroup
+            row
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as Ics214ExportFormat)}
+          >
+            <FormControlLabel value="pdf" control={<Radio />} label="PDF (print)" />
+            <FormControlLabel value="csv" control={<Radio />} label="CSV" />
+            <FormControlLabel value="xlsx" control={<Radio />} label="Excel (XLSX)" />
+          </RadioGroup>
+        </FormControl>
+
+        {error && <Alert severity="warning">{error}</Alert>}
+
+        <DialogActions>
+          <CobraLinkButton onClick={onClose} disabled={exporting}>
+            Cancel
+          </CobraLinkButton>
+          <CobraPrimaryButton
+            onClick={handleExport}
+            disabled={exporting || (scopeKind !== 'checklist' && loadingEvent)}
+            startIcon={<FontAwesomeIcon icon={exporting ? faSpinner : faFileExport} spin={exporting} />}
+          >
+            Export
+          </CobraPrimaryButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -0,0 +1,316 @@
+/**
+ * ItemAttachments Component
+ *
+ * Photos and files attached to a checklist item (damage photos, signed forms):
+ * - Thumbnails for images, file icon + name for documents; click to open
+ * - Attach button: file picker on desktop; on mobile a BottomSheet offering
+ *   "Take Photo" (device camera) or "Choose File"
+ * - Delete for the uploader or Manage users, after confirmation
+ *
+ * Used in ItemNotesDialog (full panel) and the item rows of ChecklistDetailPage
+ * (readOnly thumbnail strip). File content is fetched through apiClient because
+ * <img src> can't send the user headers.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Box,
+  ButtonBase,
+  CircularProgress,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Tooltip,
+  Typography,
+  useMediaQuery,
+  useTheme,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCamera, faFile, faFilePdf, faFolderOpen, faPaperclip, faXmark } from '@fortawesome/free-solid-svg-icons';
+import { toast } from 'react-toastify';
+import { CobraDeleteButton, CobraLinkButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import { getCurrentUser } from '../../../core/services/api';
+import { usePermissions } from '../../../shared/hooks/usePermissions';
+import { itemService } from '../services/itemService';
+import { useItemAttachments } from '../hooks/useItemAttachments';
+import type { ItemAttachment } from '../types';
+import { allowsPhotos, buildAcceptAttribute, formatFileSize, isImageAttachment } from '../utils/attachments';
+import { BottomSheet } from './BottomSheet';
+
+interface ItemAttachmentsProps {
+  checklistId: string;
+  itemId: string;
+  /** Item's attachment count (a change reloads the list) */
+  attachmentCount: number;
+  /** Called with the new count after an upload or delete */
+  onCountChange?: (count: number) => void;
+  /** Thumbnails only: no attach or delete */
+  readOnly?: boolean;
+  /** Thumbnail size in px */
+  size?: number;
+}
+
+interface AttachmentThumbnailProps {
+  checklistId: string;
+  attachment: ItemAttachment;
+  size: number;
+  onDelete?: () => void;
+}
+
+/**
+ * Single attachment: image preview or file icon
+ */
+const AttachmentThumbnail: React.FC<AttachmentThumbnailProps> = ({ checklistId, attachment, size, onDelete }) => {
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const isImage = isImageAttachment(attachment);
+
+  // Load image previews as blobs (revoked on unmount)
+  useEffect(() => {
+    if (!isImage) return;
+    let url: string | null = null;
+    let cancelled = false;
+    itemService
+      .getAttachmentBlob(checklistId, attachment.checklistItemId, attachment.id)
+      .then((blob) => {
+        if (cancelled) return;
+        url = URL.createObjectURL(blob);
+        setPreviewUrl(url);
+      })
+      .catch((error) => console.error(`Failed to load preview of ${attachment.fileName}:`, error));
+    return () => {
+      cancelled = true;
+      if (url) URL.revokeObjectURL(url);
+    };
+  }, [checklistId, attachment.checklistItemId, attachment.id, attachment.fileName, isImage]);
+
+  const handleOpen = async () => {
+    try {
+      const blob = await itemService.getAttachmentBlob(checklistId, attachment.checklistItemId, attachment.id);
+      const url = URL.createObjectURL(blob);
+      window.open(url, '_blank', 'noopener');
+      // Give the new tab time to load before releasing the file
+      setTimeout(() => URL.revokeObjectURL(url), 60_000);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Failed to open attachment';
+      toast.error(message);
+    }
+  };
+
+  const uploaded = new Date(attachment.uploadedAt).toLocaleString();
+
+  return (
+    <Box sx={{ position: 'relative', width: size, flexShrink: 0 }}>
+      <Tooltip
+        title={`${attachment.fileName} (${formatFileSize(attachment.sizeBytes)}) - ${attachment.uploadedByPosition || attachment.uploadedBy}, ${uploaded}`}
+      >
+        <ButtonBase
+          onClick={handleOpen}
+          aria-label={`Open ${attachment.fileName}`}
+          sx={{
+            width: size,
+            height: size,
+            borderRadius: 1,
+            overflow: 'hidden',
+            border: '1px solid',
+            borderColor: 'divider',
+            backgroundColor: 'background.default',
+            display: 'flex',
+            flexDirection: 'column',
+            gap: 0.5,
+          }}
+        >
+          {isImage && previewUrl ? (
+            <Box
+              component="img"
+              src={previewUrl}
+              alt={attachment.fileName}
+              sx={{ width: '100%', height: '100%', objectFit: 'cover' }}
+            />
+          ) : isImage ? (
+            <CircularProgress size={16} />
+          ) : (
+            <>
+              <FontAwesomeIcon
+                icon={attachment.contentType === 'application/pdf' ? faFilePdf : faFile}
+                style={{ fontSize: size / 3 }}
+              />
+              <Typography variant="caption" noWrap sx={{ maxWidth: size - 8, fontSize: '0.625rem' }}>
+                {attachment.fileName}
+              </Typography>
+            </>
+          )}
+        </ButtonBase>
+      </Tooltip>
+      {onDelete && (
+        <IconButton
+          size="small"
+          onClick={onDelete}
+          aria-label={`Delete ${attachment.fileName}`}
+          sx={{
+            position: 'absolute',
+            top: -8,
+            right: -8,
+            width: 22,
+            height: 22,
+            backgroundColor: 'background.paper',
+            border: '1px solid',
+            borderColor: 'divider',
+            '&:hover': { backgroundColor: 'background.paper' },
+          }}
+        >
+          <FontAwesomeIcon icon={faXmark} style={{ fontSize: 11 }} />
+        </IconButton>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * ItemAttachments Component
+ */
+export const ItemAttachments: React.FC<ItemAttachmentsProps> = ({
+  checklistId,
+  itemId,
+  attachmentCount,
+  onCountChange,
+  readOnly = false,
+  size = 72,
+}) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+  const { canInteractWithItems, isManage } = usePermissions();
+  const { attachments, limits, loading, uploading, upload, remove } = useItemAttachments(
+    checklistId,
+    itemId,
+    attachmentCount,
+    onCountChange
+  );
+  const [sheetOpen, setSheetOpen] = useState(false);
+  const [deleting, setDeleting] = useState<ItemAttachment | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const cameraInputRef = useRef<HTMLInputElement>(null);
+
+  const canAttach = !readOnly && canInteractWithItems;
+  const currentUserEmail = getCurrentUser().email.toLowerCase();
+  const canDelete = (attachment: ItemAttachment) =>
+    canAttach && (isManage || attachment.uploadedBy.toLowerCase() === currentUserEmail);
+
+  const handleFilesSelected = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = ''; // Allow picking the same file again
+    setSheetOpen(false);
+    await upload(files);
+  };
+
+  const handleAttachClick = () => {
+    if (isMobile && allowsPhotos(limits)) {
+      setSheetOpen(true);
+    } else {
+      fileInputRef.current?.click();
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleting) return;
+    await remove(deleting);
+    setDeleting(null);
+  };
+
+  if (readOnly && attachments.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box>
+      <Box sx={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1.5, pt: 1 }}>
+        {attachments.map((attachment) => (
+          <AttachmentThumbnail
+            key={attachment.id}
+            checklistId={checklistId}
+            attachment={attachment}
+            size={size}
+            onDelete={canDelete(attachment) ? () => setDeleting(attachment) : undefined}
+          />
+        ))}
+        {loading && attachments.length === 0 && <CircularProgress size={20} />}
+        {!readOnly && !loading && attachments.length === 0 && (
+          <Typography variant="body2" color="text.secondary">
+            No photos or files attached
+          </Typography>
+        )}
+      </Box>
+
+      {canAttach && (
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1.5 }}>
+          <CobraSecondaryButton
+            size="small"
+            startIcon={uploading ? <CircularProgress size={14} color="inherit" /> : <FontAwesomeIcon icon={faPaperclip} />}
+            onClick={handleAttachClick}
+            disabled={uploading}
+          >
+            {uploading ? 'Attaching...' : 'Attach Photo or File'}
+          </CobraSecondaryButton>
+          <Typography variant="caption" color="text.secondary">
+            Up to {formatFileSize(limits.maxSizeBytes)}
+          </Typography>
+          <input
+            ref={fileInputRef}
+            type="file"
+            multiple
+            hidden
+            accept={buildAcceptAttribute(limits)}
+            onChange={handleFilesSelected}
+            data-testid="attachment-file-input"
+          />
+          <input
+            ref={cameraInputRef}
+            type="file"
+            hidden
+            accept="image/*"
+            capture="environment"
+            onChange={handleFilesSelected}
+          />
+        </Box>
+      )}
+
+      {/* Mobile: choose between the camera and a file */}
+      <BottomSheet open={sheetOpen} onClose={() => setSheetOpen(false)} title="Attach to Item">
+        <List disablePadding>
+          <ListItemButton onClick={() => cameraInputRef.current?.click()} sx={{ minHeight: 56 }}>
+            <ListItemIcon>
+              <FontAwesomeIcon icon={faCamera} />
+            </ListItemIcon>
+            <ListItemText primary="Take Photo" secondary="Use the device camera" />
+          </ListItemButton>
+          <ListItemButton onClick={() => fileInputRef.current?.click()} sx={{ minHeight: 56 }}>
+            <ListItemIcon>
+              <FontAwesomeIcon icon={faFolderOpen} />
+            </ListItemIcon>
+            <ListItemText primary="Choose File" secondary="Photos, signed forms and documents" />
+          </ListItemButton>
+        </List>
+      </BottomSheet>
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deleting} onClose={() => setDeleting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Attachment?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            <strong>{deleting?.fileName}</strong> will be removed from this item for everyone.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <CobraLinkButton onClick={() => setDeleting(null)}>Cancel</CobraLinkButton>
+          <CobraDeleteButton onClick={handleConfirmDelete}>Delete</CobraDeleteButton>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
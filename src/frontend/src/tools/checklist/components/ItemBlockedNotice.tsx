@@ -0,0 +1,46 @@
+/**
+ * ItemBlockedNotice Component
+ *
+ * Shows why a checklist item is locked, used by every checklist variant:
+ * lock icon + 'Complete "Verify power isolated" first'.
+ *
+ * Items are locked while a prerequisite item is incomplete (see
+ * utils/itemPrerequisites); the backend rejects completing them.
+ * blockedItemSx gives the matching row styling for locked items.
+ */
+
+import React from 'react';
+import { Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faLock } from '@fortawesome/free-solid-svg-icons';
+
+/**
+ * Row styling for a locked item: dashed accent bar, muted text
+ */
+export const blockedItemSx = {
+  borderLeft: '4px dashed',
+  borderLeftColor: 'text.disabled',
+};
+
+interface ItemBlockedNoticeProps {
+  /** Reason from getBlockedReason (renders nothing when null) */
+  reason: string | null;
+}
+
+/**
+ * ItemBlockedNotice Component
+ */
+export const ItemBlockedNotice: React.FC<ItemBlockedNoticeProps> = ({ reason }) => {
+  if (!reason) return null;
+
+  return (
+    <Typography
+      variant="caption"
+      color="text.secondary"
+      sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+    >
+      <FontAwesomeIcon icon={faLock} style={{ fontSize: 10 }} />
+      {reason}
+    </Typography>
+  );
+};
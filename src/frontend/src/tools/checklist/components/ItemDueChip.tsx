@@ -0,0 +1,62 @@
+/**
+ * ItemDueChip Component
+ *
+ * Shows when a checklist item is due, used by every checklist variant:
+ * - Upcoming: outlined "Due 14:30"
+ * - Due within 15 minutes: outlined warning
+ * - Overdue: filled error "Overdue 12 min"
+ *
+ * Renders nothing for items without a due time or already complete.
+ * overdueItemSx gives the matching row styling for overdue items.
+ */
+
+import React from 'react';
+import { Chip, Tooltip } from '@mui/material';
+import { alpha } from '@mui/material/styles';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faClock, faTriangleExclamation } from '@fortawesome/free-solid-svg-icons';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { formatItemDue, getItemDueState, getItemDueTime } from '../utils/itemDue';
+
+/**
+ * Row styling for an overdue item: red accent bar and tint
+ */
+export const overdueItemSx = {
+  borderLeft: `4px solid ${cobraTheme.palette.error.main}`,
+  backgroundColor: alpha(cobraTheme.palette.error.main, 0.08),
+};
+
+interface ItemDueChipProps {
+  item: ChecklistItemDto;
+  /** Current time (ms since epoch), from useCurrentTime */
+  now: number;
+}
+
+/**
+ * ItemDueChip Component
+ */
+export const ItemDueChip: React.FC<ItemDueChipProps> = ({ item, now }) => {
+  const label = formatItemDue(item, now);
+  if (!label) return null;
+
+  const state = getItemDueState(item, now);
+
+  return (
+    <Tooltip title={`Due ${new Date(getItemDueTime(item)!).toLocaleString()}`}>
+      <Chip
+        size="small"
+        label={label}
+        color={state === 'overdue' ? 'error' : state === 'dueSoon' ? 'warning' : 'default'}
+        variant={state === 'overdue' ? 'filled' : 'outlined'}
+        icon={
+          <FontAwesomeIcon
+            icon={state === 'overdue' ? faTriangleExclamation : faClock}
+            style={{ fontSize: 11 }}
+          />
+        }
+        sx={{ height: 22, fontSize: '0.75rem', fontWeight: state === 'overdue' ? 600 : 400, flexShrink: 0 }}
+      />
+    </Tooltip>
+  );
+};
@@ -0,0 +1,84 @@
+/**
+ * ItemHistoryDrawer Component
+ *
+ * Side drawer showing the full history timeline of one checklist item.
+ * Opened from the item actions in every checklist variant.
+ */
+
+import React from 'react';
+import { Box, Drawer, IconButton, Typography, useMediaQuery, useTheme } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faClockRotateLeft, faXmark } from '@fortawesome/free-solid-svg-icons';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemHistoryTimeline } from './ItemHistoryTimeline';
+
+/**
+ * Props for ItemHistoryDrawer
+ */
+interface ItemHistoryDrawerProps {
+  open: boolean;
+  checklistId: string;
+  /** Item to show history for (the drawer stays closed while null) */
+  item: ChecklistItemDto | null;
+  onClose: () => void;
+}
+
+/**
+ * Reload the timeline when the item changes (including hub updates)
+ */
+const getRefreshKey = (item: ChecklistItemDto): string => {
+  const notesKey = (item.notes ?? []).map((note) => `${note.id}:${note.editedAt ?? ''}`).join(',');
+  return `${item.lastModifiedAt ?? ''}|${notesKey}`;
+};
+
+/**
+ * ItemHistoryDrawer Component
+ */
+export const ItemHistoryDrawer: React.FC<ItemHistoryDrawerProps> = ({
+  open,
+  checklistId,
+  item,
+  onClose,
+}) => {
+  const theme = useTheme();
+  const isMobile = useMediaQuery(theme.breakpoints.down('sm'));
+
+  return (
+    <Drawer
+      anchor="right"
+      open={open && !!item}
+      onClose={onClose}
+      PaperProps={{ sx: { width: isMobile ? '100%' : 420 } }}
+    >
+      {item && (
+        <Box sx={{ p: 2 }}>
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+            <FontAwesomeIcon icon={faClockRotateLeft} />
+            <Typography variant="h6" sx={{ flexGrow: 1 }}>
+              Item History
+            </Typography>
+            <IconButton onClick={onClose} aria-label="Close history">
+              <FontAwesomeIcon icon={faXmark} />
+            </IconButton>
+          </Box>
+
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{
+              p: 1.5,
+              mb: 2,
+              backgroundColor: (t) => t.palette.background.default,
+              borderRadius: 1,
+              fontStyle: 'italic',
+            }}
+          >
+            Item: "{item.itemText}"
+          </Typography>
+
+          <ItemHistoryTimeline checklistId={checklistId} item={item} refreshKey={getRefreshKey(item)} />
+        </Box>
+      )}
+    </Drawer>
+  );
+};
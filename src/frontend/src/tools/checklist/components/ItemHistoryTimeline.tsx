@@ -0,0 +1,173 @@
+/**
+ * ItemHistoryTimeline Component
+ *
+ * Chronological timeline of a checklist item's changes: completion toggles,
+ * status and value changes and notes, each with user, position and time.
+ * Used in ItemHistoryDrawer and ItemStatusDialog for after-action review.
+ *
+ * History is loaded on mount and reloaded whenever refreshKey changes
+ * (e.g. the item's last modified time or note count).
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { Alert, Box, CircularProgress, Stack, Tooltip, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faCircleCheck,
+  faCircleXmark,
+  faArrowsRotate,
+  faPenToSquare,
+  faNoteSticky,
+} from '@fortawesome/free-solid-svg-icons';
+import type { IconDefinition } from '@fortawesome/fontawesome-svg-core';
+import { format } from 'date-fns';
+import { itemService } from '../services/itemService';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemHistoryAction, type ItemStatusHistory } from '../types';
+import {
+  describeHistoryEntry,
+  formatHistoryAuthor,
+  getHistoryEntryKind,
+  type HistoryEntryKind,
+} from '../utils/itemHistory';
+import { c5Colors } from '../../../theme/c5Theme';
+
+/**
+ * Props for ItemHistoryTimeline
+ */
+interface ItemHistoryTimelineProps {
+  checklistId: string;
+  item: Pick<ChecklistItemDto, 'id' | 'itemType' | 'valueConfiguration'>;
+  /** History reloads when this changes */
+  refreshKey?: string | number;
+  /** Show only the most recent entries */
+  limit?: number;
+}
+
+const KIND_COLORS: Record<HistoryEntryKind, string> = {
+  completion: c5Colors.green,
+  status: c5Colors.cobaltBlue,
+  value: c5Colors.cobaltBlue,
+  note: '#757575',
+};
+
+const getEntryIcon = (entry: ItemStatusHistory): IconDefinition => {
+  switch (entry.action) {
+    case ItemHistoryAction.COMPLETED:
+      return faCircleCheck;
+    case ItemHistoryAction.UNCOMPLETED:
+      return faCircleXmark;
+    case ItemHistoryAction.STATUS_CHANGED:
+      return faArrowsRotate;
+    case ItemHistoryAction.VALUE_CHANGED:
+      return faPenToSquare;
+    default:
+      return faNoteSticky;
+  }
+};
+
+/**
+ * ItemHistoryTimeline Component
+ */
+export const ItemHistoryTimeline: React.FC<ItemHistoryTimelineProps> = ({
+  checklistId,
+  item,
+  refreshKey,
+  limit,
+}) => {
+  const [entries, setEntries] = useState<ItemStatusHistory[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      setEntries(await itemService.getItemHistory(checklistId, item.id));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load item history');
+    } finally {
+      setLoading(false);
+    }
+  }, [checklistId, item.id]);
+
+  useEffect(() => {
+    loadHistory();
+  }, [loadHistory, refreshKey]);
+
+  if (loading && entries.length === 0) {
+    return (
+      <Box sx={{ display: 'flex', justifyContent: 'center', py: 3 }}>
+        <CircularProgress size={24} />
+      </Box>
+    );
+  }
+
+  if (error) {
+    return <Alert severity="error">{error}</Alert>;
+  }
+
+  if (entries.length === 0) {
+    return (
+      <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+        No changes recorded yet
+      </Typography>
+    );
+  }
+
+  const shown = limit ? entries.slice(-limit) : entries;
+
+  return (
+    <Box data-testid="item-history-timeline">
+      {limit && entries.length > limit && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 1 }}>
+          Showing the latest {limit} of {entries.length} changes
+        </Typography>
+      )}
+      <Stack spacing={0}>
+        {shown.map((entry, index) => {
+          const { summary, detail } = describeHistoryEntry(entry, item);
+          const color = KIND_COLORS[getHistoryEntryKind(entry.action)];
+          const isLast = index === shown.length - 1;
+
+          return (
+            <Box key={entry.id} sx={{ display: 'flex', gap: 1.5 }}>
+              {/* Marker and connecting line */}
+              <Box sx={{ display: 'flex', flexDirection: 'column', alignItems: 'center', width: 20 }}>
+                <FontAwesomeIcon icon={getEntryIcon(entry)} style={{ color, fontSize: 16, marginTop: 2 }} />
+                {!isLast && <Box sx={{ flexGrow: 1, width: 2, backgroundColor: 'divider', my: 0.5 }} />}
+              </Box>
+
+              <Box sx={{ pb: isLast ? 0 : 2, minWidth: 0, flexGrow: 1 }}>
+                <Typography variant="body2" sx={{ fontWeight: 500 }}>
+                  {summary}
+                </Typography>
+                {detail && (
+                  <Typography
+                    variant="body2"
+                    color="text.secondary"
+                    sx={{
+                      whiteSpace: 'pre-wrap',
+                      wordBreak: 'break-word',
+                      fontStyle: 'italic',
+                      textDecoration: entry.action === ItemHistoryAction.NOTE_DELETED ? 'line-through' : 'none',
+                    }}
+                  >
+                    "{detail}"
+                  </Typography>
+                )}
+                <Typography variant="caption" color="text.secondary">
+                  <Tooltip title={entry.changedBy}>
+                    <span>{formatHistoryAuthor(entry)}</span>
+                  </Tooltip>
+                  {' · '}
+                  {format(new Date(entry.changedAt), 'MMM d, yyyy HH:mm:ss')}
+                </Typography>
+              </Box>
+            </Box>
+          );
+        })}
+      </Stack>
+    </Box>
+  );
+};
@@ -13,12 +13,23 @@ import {
   Box,
   Typography,
   Stack,
+  InputAdornment,
 } from '@mui/material';
 import { toast } from 'react-toastify';
 import { itemLibraryService } from '../services/itemLibraryService';
 import { StatusConfigurationBuilder } from './StatusConfigurationBuilder';
-import type { ItemLibraryEntry, CreateItemLibraryEntryRequest, StatusOption } from '../../../types';
+import type {
+  ItemLibraryEntry,
+  CreateItemLibraryEntryRequest,
+  ItemValueConfiguration,
+  StatusOption,
+} from '../../../types';
 import { ItemType, DEFAULT_STATUS_OPTIONS } from '../../../types';
+import {
+  parseValueConfiguration,
+  serializeValueConfiguration,
+  validateValueConfiguration,
+} from '../utils/itemValue';
 import {
   CobraDialog,
   CobraTextField,
@@ -39,7 +50,8 @@ interface ItemLibraryItemDialogProps {
  * ItemLibraryItemDialog Component
  *
  * Dialog for creating new library items or editing existing ones.
- * Supports both checkbox and status dropdown items with full configuration.
+ * Supports checkbox, status dropdown and value (number, text, date/time,
+ * yes/no) items with full configuration.
  */
 export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
   open,
@@ -56,6 +68,7 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
   const [tags, setTags] = useState('');
   const [isRequiredByDefault, setIsRequiredByDefault] = useState(false);
   const [statusConfiguration, setStatusConfiguration] = useState<StatusOption[]>(DEFAULT_STATUS_OPTIONS);
+  const [valueConfiguration, setValueConfiguration] = useState<ItemValueConfiguration>({});
   const [defaultNotes, setDefaultNotes] = useState('');
 
   const [saving, setSaving] = useState(false);
@@ -75,6 +88,7 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
             ? JSON.parse(existingItem.statusConfiguration)
             : DEFAULT_STATUS_OPTIONS
         );
+        setValueConfiguration(parseValueConfiguration(existingItem.valueConfiguration) ?? {});
         setDefaultNotes(existingItem.defaultNotes || '');
       } else {
         // Create mode - reset to defaults
@@ -84,6 +98,7 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
         setTags('');
         setIsRequiredByDefault(false);
         setStatusConfiguration(DEFAULT_STATUS_OPTIONS);
+        setValueConfiguration({});
         setDefaultNotes('');
       }
     }
@@ -103,6 +118,12 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
       toast.error('Status items must have at least one status option');
       return;
     }
+    const valueConfigurationError =
+      itemType === ItemType.NUMBER ? validateValueConfiguration(valueConfiguration) : null;
+    if (valueConfigurationError) {
+      toast.error(valueConfigurationError);
+      return;
+    }
 
     try {
       setSaving(true);
@@ -121,6 +142,10 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
           itemType === 'status' && statusConfiguration.length > 0
             ? JSON.stringify(statusConfiguration)
             : undefined,
+        valueConfiguration:
+          itemType === ItemType.NUMBER
+            ? serializeValueConfiguration(valueConfiguration) ?? undefined
+            : undefined,
         allowedPositions: undefined, // Not exposed in this simple dialog
         defaultNotes: defaultNotes.trim() || undefined,
         tags: tagArray.length > 0 ? tagArray : undefined,
@@ -197,6 +222,10 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
           >
             <FormControlLabel value="checkbox" control={<Radio />} label="Checkbox" />
             <FormControlLabel value="status" control={<Radio />} label="Status Dropdown" />
+            <FormControlLabel value={ItemType.NUMBER} control={<Radio />} label="Number" />
+            <FormControlLabel value={ItemType.TEXT} control={<Radio />} label="Text" />
+            <FormControlLabel value={ItemType.DATETIME} control={<Radio />} label="Date/Time" />
+            <FormControlLabel value={ItemType.YESNO} control={<Radio />} label="Yes/No/N-A" />
           </RadioGroup>
         </FormControl>
 
@@ -213,6 +242,52 @@ export const ItemLibraryItemDialog: React.FC<ItemLibraryItemDialogProps> = ({
           </Box>
         )}
 
+        {/* Unit and Range (only for number items) */}
+        {itemType === ItemType.NUMBER && (
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Unit and Range (optional)
+            </Typography>
+            <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+              <CobraTextField
+                label="Unit"
+                placeholder="e.g., gal, psi, %"
+                value={valueConfiguration.unit ?? ''}
+                onChange={(e) => setValueConfiguration({ ...valueConfiguration, unit: e.target.value })}
+                inputProps={{ maxLength: 20 }}
+                sx={{ width: 160 }}
+              />
+              {(['min', 'max'] as const).map((bound) => (
+                <CobraTextField
+                  key={bound}
+                  label={bound === 'min' ? 'Minimum' : 'Maximum'}
+                  type="number"
+                  value={valueConfiguration[bound] ?? ''}
+                  onChange={(e) =>
+                    setValueConfiguration({
+                      ...valueConfiguration,
+                      [bound]: e.target.value === '' ? undefined : Number(e.target.value),
+                    })
+                  }
+                  error={!!validateValueConfiguration(valueConfiguration)}
+                  InputProps={
+                    valueConfiguration.unit
+                      ? { endAdornment: <InputAdornment position="end">{valueConfiguration.unit}</InputAdornment> }
+                      : undefined
+                  }
+                  sx={{ width: 160 }}
+                />
+              ))}
+            </Box>
+            <Typography
+              variant="caption"
+              color={validateValueConfiguration(valueConfiguration) ? 'error' : 'text.secondary'}
+            >
+              {validateValueConfiguration(valueConfiguration) ?? 'Readings outside the range are rejected'}
+            </Typography>
+          </Box>
+        )}
+
         {/* Category */}
         <FormControl fullWidth required>
           <InputLabel>Category</InputLabel>
@@ -0,0 +1,281 @@
+/**
+ * ItemNoteThread Component
+ *
+ * Attributed note thread for a checklist item:
+ * - Notes oldest first with author position, time and "edited" marker
+ * - Edit and delete on your own notes (after confirmation for delete)
+ * - New note input with a 2000 character limit
+ *
+ * Notes are append-only per author, so people adding notes at the same time
+ * don't overwrite each other. Used in ItemNotesDialog and inline in the
+ * progressive variant.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  IconButton,
+  Stack,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faPen, faTrash } from '@fortawesome/free-solid-svg-icons';
+import {
+  CobraDeleteButton,
+  CobraLinkButton,
+  CobraSaveButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import { getCurrentUser } from '../../../core/services/api';
+import { usePermissions } from '../../../shared/hooks/usePermissions';
+import type { ItemNote } from '../types';
+import {
+  MAX_NOTE_LENGTH,
+  canModifyNote,
+  formatNoteAuthor,
+  isPendingNote,
+  sortNotes,
+} from '../utils/itemNotes';
+
+/**
+ * Props for ItemNoteThread
+ */
+interface ItemNoteThreadProps {
+  notes: ItemNote[];
+  /** Resolves true when the note was added (omit to hide the input) */
+  onAddNote?: (noteText: string) => Promise<boolean>;
+  onEditNote?: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote?: (note: ItemNote) => Promise<boolean>;
+  /** Focus the new note input on mount */
+  autoFocus?: boolean;
+  /** Show the notes only: no add, edit or delete (signed-off checklist) */
+  readOnly?: boolean;
+}
+
+/**
+ * Character counter shown under note inputs
+ */
+const CharacterCount: React.FC<{ length: number }> = ({ length }) => {
+  const isNearLimit = length > MAX_NOTE_LENGTH * 0.9; // 90% threshold
+  const isOverLimit = length > MAX_NOTE_LENGTH;
+
+  return (
+    <Typography
+      variant="caption"
+      sx={{
+        color: isOverLimit ? 'error.main' : isNearLimit ? 'warning.main' : 'text.secondary',
+        fontWeight: isNearLimit ? 'bold' : 'normal',
+      }}
+    >
+      {length.toLocaleString()} / {MAX_NOTE_LENGTH.toLocaleString()} characters
+    </Typography>
+  );
+};
+
+/**
+ * ItemNoteThread Component
+ */
+export const ItemNoteThread: React.FC<ItemNoteThreadProps> = ({
+  notes,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+  autoFocus = false,
+  readOnly = false,
+}) => {
+  const { canInteractWithItems } = usePermissions();
+  const [newNote, setNewNote] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [editingNoteId, setEditingNoteId] = useState<string | null>(null);
+  const [editText, setEditText] = useState('');
+  const [savingEdit, setSavingEdit] = useState(false);
+  const [deleting, setDeleting] = useState<ItemNote | null>(null);
+
+  const currentUserEmail = getCurrentUser().email;
+  const canAdd = canInteractWithItems && !readOnly && !!onAddNote;
+  const canModify = (note: ItemNote) =>
+    canInteractWithItems && !readOnly && canModifyNote(note, currentUserEmail);
+
+  const handleAdd = async () => {
+    const text = newNote.trim();
+    if (!onAddNote || !text || text.length > MAX_NOTE_LENGTH) return;
+
+    setAdding(true);
+    const added = await onAddNote(text);
+    setAdding(false);
+    if (added) {
+      setNewNote('');
+    }
+  };
+
+  const handleStartEdit = (note: ItemNote) => {
+    setEditingNoteId(note.id);
+    setEditText(note.noteText);
+  };
+
+  const handleSaveEdit = async (note: ItemNote) => {
+    const text = editText.trim();
+    if (!onEditNote || !text || text.length > MAX_NOTE_LENGTH) return;
+
+    if (text !== note.noteText) {
+      setSavingEdit(true);
+      const saved = await onEditNote(note, text);
+      setSavingEdit(false);
+      if (!saved) return;
+    }
+    setEditingNoteId(null);
+  };
+
+  const handleConfirmDelete = async () => {
+    if (!deleting || !onDeleteNote) return;
+    await onDeleteNote(deleting);
+    setDeleting(null);
+  };
+
+  return (
+    <Box>
+      {/* Thread */}
+      {notes.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ py: 1 }}>
+          No notes yet
+        </Typography>
+      ) : (
+        <Stack spacing={1} data-testid="item-note-thread">
+          {sortNotes(notes).map((note) => (
+            <Box
+              key={note.id}
+              sx={{
+                p: 1.5,
+                borderRadius: 1,
+                border: '1px solid',
+                borderColor: 'divider',
+                backgroundColor: 'background.default',
+                opacity: isPendingNote(note) ? 0.7 : 1,
+              }}
+            >
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+                <Tooltip title={note.createdBy}>
+                  <Typography variant="subtitle2" component="span">
+                    {formatNoteAuthor(note)}
+                  </Typography>
+                </Tooltip>
+                <Typography variant="caption" color="text.secondary" sx={{ flexGrow: 1 }}>
+                  {isPendingNote(note) ? 'Sending...' : new Date(note.createdAt).toLocaleString()}
+                  {note.isEdited && note.editedAt && (
+                    <Tooltip title={`Edited ${new Date(note.editedAt).toLocaleString()}`}>
+                      <span> (edited)</span>
+                    </Tooltip>
+                  )}
+                </Typography>
+                {canModify(note) && editingNoteId !== note.id && (
+                  <>
+                    {onEditNote && (
+                      <IconButton size="small" onClick={() => handleStartEdit(note)} aria-label="Edit note">
+                        <FontAwesomeIcon icon={faPen} style={{ fontSize: 12 }} />
+                      </IconButton>
+                    )}
+                    {onDeleteNote && (
+                      <IconButton size="small" onClick={() => setDeleting(note)} aria-label="Delete note">
+                        <FontAwesomeIcon icon={faTrash} style={{ fontSize: 12 }} />
+                      </IconButton>
+                    )}
+                  </>
+                )}
+              </Box>
+
+              {editingNoteId === note.id ? (
+                <Box sx={{ mt: 1 }}>
+                  <CobraTextField
+                    multiline
+                    minRows={2}
+                    fullWidth
+                    size="small"
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    error={editText.length > MAX_NOTE_LENGTH}
+                    disabled={savingEdit}
+                    autoFocus
+                  />
+                  <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 0.5 }}>
+                    <Box sx={{ flexGrow: 1 }}>
+                      <CharacterCount length={editText.length} />
+                    </Box>
+                    <CobraLinkButton size="small" onClick={() => setEditingNoteId(null)} disabled={savingEdit}>
+                      Cancel
+                    </CobraLinkButton>
+                    <CobraSaveButton
+                      size="small"
+                      onClick={() => handleSaveEdit(note)}
+                      disabled={!editText.trim() || editText.length > MAX_NOTE_LENGTH}
+                      isSaving={savingEdit}
+                    >
+                      Save
+                    </CobraSaveButton>
+                  </Box>
+                </Box>
+              ) : (
+                <Typography variant="body2" sx={{ mt: 0.5, whiteSpace: 'pre-wrap', wordBreak: 'break-word' }}>
+                  {note.noteText}
+                </Typography>
+              )}
+            </Box>
+          ))}
+        </Stack>
+      )}
+
+      {/* New note */}
+      {canAdd && (
+        <Box sx={{ mt: 2 }}>
+          <CobraTextField
+            label="Add a note"
+            multiline
+            rows={3}
+            fullWidth
+            value={newNote}
+            onChange={(e) => setNewNote(e.target.value)}
+            error={newNote.length > MAX_NOTE_LENGTH}
+            helperText={
+              newNote.length > MAX_NOTE_LENGTH
+                ? `Character limit exceeded (${MAX_NOTE_LENGTH} max)`
+                : undefined
+            }
+            placeholder="Add observations or additional details..."
+            autoFocus={autoFocus}
+            disabled={adding}
+          />
+          <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mt: 1 }}>
+            <Box sx={{ flexGrow: 1 }}>
+              <CharacterCount length={newNote.length} />
+            </Box>
+            <CobraSaveButton
+              size="small"
+              onClick={handleAdd}
+              disabled={!newNote.trim() || newNote.length > MAX_NOTE_LENGTH}
+              isSaving={adding}
+            >
+              Add Note
+            </CobraSaveButton>
+          </Box>
+        </Box>
+      )}
+
+      {/* Delete confirmation */}
+      <Dialog open={!!deleting} onClose={() => setDeleting(null)} maxWidth="xs" fullWidth>
+        <DialogTitle>Delete Note?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>Your note will be removed from this item for everyone.</DialogContentText>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <CobraLinkButton onClick={() => setDeleting(null)}>Cancel</CobraLinkButton>
+          <CobraDeleteButton onClick={handleConfirmDelete}>Delete</CobraDeleteButton>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
@@ -1,18 +1,22 @@
 /**
  * ItemNotesDialog Component
  *
- * Modal dialog for adding or editing notes on checklist items.
+ * Modal dialog showing the note thread of a checklist item.
  * Features:
- * - Multiline text input with 2000 character limit
- * - Character counter
- * - Save/Cancel buttons (48x48px minimum per C5 standards)
- * - Validation and error handling
+ * - Attributed notes, oldest first (ItemNoteThread)
+ * - Add a note; edit or delete your own notes
+ * - Close button (48x48px minimum per C5 standards)
+ * - Photos and files attached to the item (when checklistId/itemId are given)
+ * - Notice when other people have the same item's notes open
+ *
+ * Notes and attachments save immediately; the dialog has nothing to submit.
  *
  * User Story 3.3: Add Notes to Items
  */
 
-import React, { useState, useEffect } from 'react';
+import React from 'react';
 import {
+  Alert,
   DialogActions,
   Typography,
   Box,
@@ -20,11 +24,14 @@ import {
 } from '@mui/material';
 import {
   CobraDialog,
-  CobraTextField,
-  CobraSaveButton,
   CobraLinkButton,
 } from '../../../theme/styledComponents';
 import CobraStyles from '../../../theme/CobraStyles';
+import type { ItemNote } from '../types';
+import type { ChecklistViewer } from '../hooks/useChecklistHub';
+import { formatNotesEditors } from '../utils/presence';
+import { ItemAttachments } from './ItemAttachments';
+import { ItemNoteThread } from './ItemNoteThread';
 
 /**
  * Props for ItemNotesDialog
@@ -32,78 +39,46 @@ import CobraStyles from '../../../theme/CobraStyles';
 interface ItemNotesDialogProps {
   open: boolean;
   itemText: string;
-  currentNotes?: string | null;
-  onSave: (notes: string) => Promise<void>;
-  onCancel: () => void;
-  saving?: boolean;
+  notes?: ItemNote[];
+  /** Resolves true when the note was added */
+  onAddNote: (noteText: string) => Promise<boolean>;
+  onEditNote: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote: (note: ItemNote) => Promise<boolean>;
+  onClose: () => void;
+  /** Checklist and item to show attachments for (omit to hide attachments) */
+  checklistId?: string;
+  itemId?: string;
+  attachmentCount?: number;
+  onAttachmentCountChange?: (count: number) => void;
+  /** Other people with this item's notes open (see getNotesEditors) */
+  otherEditors?: ChecklistViewer[];
+  /** Checklist is signed off: view notes and attachments only */
+  readOnly?: boolean;
 }
 
-/**
- * Maximum character limit for notes (matches backend)
- */
-const MAX_NOTES_LENGTH = 2000;
-
 /**
  * ItemNotesDialog Component
  */
 export const ItemNotesDialog: React.FC<ItemNotesDialogProps> = ({
   open,
   itemText,
-  currentNotes,
-  onSave,
-  onCancel,
-  saving = false,
+  notes = [],
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+  onClose,
+  checklistId,
+  itemId,
+  attachmentCount = 0,
+  onAttachmentCountChange,
+  otherEditors = [],
+  readOnly = false,
 }) => {
-  const [notes, setNotes] = useState<string>('');
-  const [error, setError] = useState<string | null>(null);
-
-  // Initialize notes when dialog opens
-  useEffect(() => {
-    if (open) {
-      setNotes(currentNotes || '');
-      setError(null);
-    }
-  }, [open, currentNotes]);
-
-  // Handle save
-  const handleSave = async () => {
-    // Validate length
-    if (notes.length > MAX_NOTES_LENGTH) {
-      setError(`Notes cannot exceed ${MAX_NOTES_LENGTH} characters`);
-      return;
-    }
-
-    try {
-      await onSave(notes.trim());
-      // Dialog will close via parent component state change
-    } catch (err) {
-      // Error already handled by hook, just show generic message
-      setError('Failed to save notes. Please try again.');
-    }
-  };
-
-  // Handle cancel
-  const handleCancel = () => {
-    setNotes('');
-    setError(null);
-    onCancel();
-  };
-
-  // Calculate character count and color
-  const charCount = notes.length;
-  const isNearLimit = charCount > MAX_NOTES_LENGTH * 0.9; // 90% threshold
-  const isOverLimit = charCount > MAX_NOTES_LENGTH;
-  const charCountColor = isOverLimit
-    ? 'error'
-    : isNearLimit
-      ? 'warning.main'
-      : 'text.secondary';
-
   return (
     <CobraDialog
       open={open}
-      onClose={handleCancel}
-      title={currentNotes ? 'Edit Note' : 'Add Note'}
+      onClose={onClose}
+      title={notes.length > 0 ? `Notes (${notes.length})` : 'Notes'}
       contentWidth="600px"
     >
       <Stack spacing={CobraStyles.Spacing.FormFields}>
@@ -121,43 +96,41 @@ export const ItemNotesDialog: React.FC<ItemNotesDialogProps> = ({
           Item: "{itemText}"
         </Typography>
 
-        {/* Notes input */}
-        <CobraTextField
-          label="Notes"
-          multiline
-          rows={6}
-          fullWidth
-          value={notes}
-          onChange={(e) => setNotes(e.target.value)}
-          error={isOverLimit || !!error}
-          helperText={
-            error || (isOverLimit && `Character limit exceeded (${MAX_NOTES_LENGTH} max)`)
-          }
-          placeholder="Add notes, observations, or additional details..."
+        {/* Someone else is working on the same notes */}
+        {otherEditors.length > 0 && (
+          <Alert severity="info" data-testid="notes-other-editors">
+            {formatNotesEditors(otherEditors)}
+          </Alert>
+        )}
+
+        {/* Note thread */}
+        <ItemNoteThread
+          notes={notes}
+          onAddNote={onAddNote}
+          onEditNote={onEditNote}
+          onDeleteNote={onDeleteNote}
           autoFocus
-          disabled={saving}
+          readOnly={readOnly}
         />
 
-        {/* Character counter */}
-        <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
-          <Typography
-            variant="caption"
-            sx={{
-              color: charCountColor,
-              fontWeight: isNearLimit ? 'bold' : 'normal',
-            }}
-          >
-            {charCount.toLocaleString()} / {MAX_NOTES_LENGTH.toLocaleString()} characters
-          </Typography>
-        </Box>
+        {/* Attachments */}
+        {checklistId && itemId && (
+          <Box>
+            <Typography variant="subtitle2">Photos & Files</Typography>
+            <ItemAttachments
+              checklistId={checklistId}
+              itemId={itemId}
+              attachmentCount={attachmentCount}
+              onCountChange={onAttachmentCountChange}
+              readOnly={readOnly}
+            />
+          </Box>
+        )}
 
         <DialogActions>
-          <CobraLinkButton onClick={handleCancel} disabled={saving}>
-            Cancel
+          <CobraLinkButton onClick={onClose}>
+            Close
           </CobraLinkButton>
-          <CobraSaveButton onClick={handleSave} disabled={isOverLimit} isSaving={saving}>
-            Save
-          </CobraSaveButton>
         </DialogActions>
       </Stack>
     </CobraDialog>
@@ -0,0 +1,106 @@
+/**
+ * ItemSectionGroup Component
+ *
+ * Collapsible named section of checklist items, used by the classic, compact
+ * and progressive checklist variants: chevron + section name + "3/5" count
+ * and a slim progress bar for the section's items.
+ *
+ * Items without a section (name null) render as-is, without a header.
+ * Sections open on their own when they contain the highlighted item.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Box, Collapse, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faChevronDown, faChevronRight } from '@fortawesome/free-solid-svg-icons';
+import { ChecklistProgressBar } from './ChecklistProgressBar';
+import { isItemBlocked } from '../utils/itemPrerequisites';
+import { getSectionProgress } from '../utils/itemSections';
+import type { ChecklistItemDto } from '../services/checklistService';
+
+interface ItemSectionGroupProps {
+  /** Section name (null = items without a section) */
+  name: string | null;
+  /** Items in this section, for the progress */
+  items: ChecklistItemDto[];
+  /** All items of the checklist (prerequisites can be in other sections) */
+  allItems: ChecklistItemDto[];
+  /** Keep the section open (e.g. it contains the highlighted item) */
+  forceExpanded?: boolean;
+  /** Tighter header for the compact variant */
+  dense?: boolean;
+  children: React.ReactNode;
+}
+
+/**
+ * ItemSectionGroup Component
+ */
+export const ItemSectionGroup: React.FC<ItemSectionGroupProps> = ({
+  name,
+  items,
+  allItems,
+  forceExpanded = false,
+  dense = false,
+  children,
+}) => {
+  const [expanded, setExpanded] = useState(true);
+
+  useEffect(() => {
+    if (forceExpanded) {
+      setExpanded(true);
+    }
+  }, [forceExpanded]);
+
+  if (name === null) {
+    return <>{children}</>;
+  }
+
+  const progress = getSectionProgress(items);
+
+  return (
+    <Box data-testid="item-section">
+      <Box
+        component="button"
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        aria-expanded={expanded}
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          width: '100%',
+          py: dense ? 0.75 : 1,
+          px: dense ? 1 : 2,
+          border: 'none',
+          borderBottom: '1px solid',
+          borderColor: 'divider',
+          backgroundColor: 'action.selected',
+          cursor: 'pointer',
+          textAlign: 'left',
+          font: 'inherit',
+          color: 'inherit',
+        }}
+      >
+        <FontAwesomeIcon icon={expanded ? faChevronDown : faChevronRight} style={{ fontSize: 12, width: 12 }} />
+        <Typography variant="subtitle2" sx={{ fontWeight: 600, flex: 1 }}>
+          {name}
+        </Typography>
+        <Box sx={{ width: dense ? 80 : 120 }}>
+          <ChecklistProgressBar
+            value={progress.percentage}
+            height={8}
+            showPercentage={false}
+            totalItems={progress.total}
+            blockedItems={items.filter((item) => isItemBlocked(item, allItems)).length}
+          />
+        </Box>
+        <Typography variant="caption" color="text.secondary" sx={{ minWidth: 36, textAlign: 'right' }}>
+          {progress.completed}/{progress.total}
+        </Typography>
+      </Box>
+      <Collapse in={expanded}>
+        <Box sx={{ pt: dense ? 1 : 0 }}>{children}</Box>
+      </Collapse>
+    </Box>
+  );
+};
@@ -7,6 +7,7 @@
  * - Validation of status against allowed options
  * - Save/Cancel buttons (48x48px minimum per C5 standards)
  * - Error handling for invalid or missing status options
+ * - Recent status history (when checklistId/itemId are given)
  *
  * User Story 3.2: Update Status Items
  */
@@ -21,6 +22,7 @@ import {
   Typography,
   Alert,
   Stack,
+  Box,
 } from '@mui/material';
 import type { StatusOption } from '../../../types';
 import { cobraTheme } from '../../../theme/cobraTheme';
@@ -30,6 +32,7 @@ import {
   CobraLinkButton,
 } from '../../../theme/styledComponents';
 import CobraStyles from '../../../theme/CobraStyles';
+import { ItemHistoryTimeline } from './ItemHistoryTimeline';
 
 /**
  * Props for ItemStatusDialog
@@ -42,8 +45,16 @@ interface ItemStatusDialogProps {
   onSave: (status: string) => Promise<void>;
   onCancel: () => void;
   saving?: boolean;
+  /** Checklist and item to show recent history for (omit to hide history) */
+  checklistId?: string;
+  itemId?: string;
 }
 
+/**
+ * Number of history entries shown in the dialog (the drawer shows all)
+ */
+const RECENT_HISTORY_LIMIT = 5;
+
 /**
  * Parse status configuration from JSON string
  * Handles both simple string arrays and full StatusOption objects
@@ -86,6 +97,8 @@ export const ItemStatusDialog: React.FC<ItemStatusDialogProps> = ({
   onSave,
   onCancel,
   saving = false,
+  checklistId,
+  itemId,
 }) => {
   const [selectedStatus, setSelectedStatus] = useState<string>('');
   const [error, setError] = useState<string | null>(null);
@@ -248,6 +261,21 @@ export const ItemStatusDialog: React.FC<ItemStatusDialogProps> = ({
           </Typography>
         )}
 
+        {/* Recent history */}
+        {open && checklistId && itemId && (
+          <Box>
+            <Typography variant="subtitle2" sx={{ mb: 1 }}>
+              Recent Changes
+            </Typography>
+            <ItemHistoryTimeline
+              checklistId={checklistId}
+              item={{ id: itemId, itemType: 'status' }}
+              refreshKey={currentStatus ?? ''}
+              limit={RECENT_HISTORY_LIMIT}
+            />
+          </Box>
+        )}
+
         <DialogActions>
           <CobraLinkButton onClick={handleCancel} disabled={saving}>
             Cancel
@@ -0,0 +1,173 @@
+/**
+ * ItemValueInput Component
+ *
+ * Captures the value of a number, text, date/time or yes/no item, used by
+ * every checklist variant:
+ * - Number: reading with the unit as adornment; min/max checked before saving
+ * - Text: short free text
+ * - Date/Time: local date and time, plus a "Now" shortcut
+ * - Yes/No/N-A: toggle buttons (click the selected answer again to clear it)
+ *
+ * Text inputs save on blur or Enter; clearing the input clears the value,
+ * which marks the item incomplete again.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { Box, InputAdornment, ToggleButton, ToggleButtonGroup, type SxProps, type Theme } from '@mui/material';
+import { useTheme } from '@mui/material/styles';
+import { CobraLinkButton, CobraTextField } from '../../../theme/styledComponents';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemType } from '../types';
+import {
+  MAX_TEXT_VALUE_LENGTH,
+  YES_NO_VALUES,
+  describeValueConfiguration,
+  fromDateTimeInputValue,
+  parseValueConfiguration,
+  toDateTimeInputValue,
+  validateItemValue,
+} from '../utils/itemValue';
+
+interface ItemValueInputProps {
+  item: ChecklistItemDto;
+  /** Called with the new value (null = cleared) */
+  onChange: (value: string | null) => void;
+  disabled?: boolean;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * Input text for the item's stored value
+ */
+const toDraft = (item: ChecklistItemDto): string =>
+  item.itemType === ItemType.DATETIME ? toDateTimeInputValue(item.value) : item.value ?? '';
+
+/**
+ * ItemValueInput Component
+ */
+export const ItemValueInput: React.FC<ItemValueInputProps> = ({ item, onChange, disabled = false, sx }) => {
+  const theme = useTheme();
+  const storedDraft = toDraft(item);
+  const [draft, setDraft] = useState(storedDraft);
+  const [error, setError] = useState<string | null>(null);
+
+  // Follow value changes from the server (save, rollback, real-time updates)
+  useEffect(() => {
+    setDraft(storedDraft);
+    setError(null);
+  }, [storedDraft]);
+
+  const save = (input: string) => {
+    setDraft(input);
+    if (input === storedDraft) {
+      setError(null);
+      return;
+    }
+
+    const value = item.itemType === ItemType.DATETIME ? fromDateTimeInputValue(input) : input.trim();
+    const validationError = validateItemValue(item, value);
+    setError(validationError);
+    if (!validationError) {
+      onChange(value || null);
+    }
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLDivElement>) => {
+    if (event.key === 'Enter') {
+      (event.target as HTMLElement).blur();
+    }
+  };
+
+  if (item.itemType === ItemType.YESNO) {
+    return (
+      <ToggleButtonGroup
+        value={item.value ?? null}
+        exclusive
+        size="small"
+        disabled={disabled}
+        onChange={(_, answer: string | null) => onChange(answer)}
+        aria-label={item.itemText}
+        sx={[
+          {
+            '& .MuiToggleButton-root': {
+              px: 1.25,
+              py: 0.25,
+              textTransform: 'none',
+              '&.Mui-selected': {
+                backgroundColor: theme.palette.buttonPrimary.main,
+                color: theme.palette.buttonPrimary.contrastText,
+                '&:hover': {
+                  backgroundColor: theme.palette.buttonPrimary.dark,
+                },
+              },
+            },
+          },
+          ...(Array.isArray(sx) ? sx : [sx]),
+        ]}
+      >
+        {YES_NO_VALUES.map((answer) => (
+          <ToggleButton key={answer} value={answer}>
+            {answer}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+    );
+  }
+
+  if (item.itemType === ItemType.DATETIME) {
+    return (
+      <Box sx={[{ display: 'flex', alignItems: 'center', gap: 0.5 }, ...(Array.isArray(sx) ? sx : [sx])]}>
+        <CobraTextField
+          type="datetime-local"
+          size="small"
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onBlur={() => save(draft)}
+          onKeyDown={handleKeyDown}
+          disabled={disabled}
+          error={!!error}
+          helperText={error}
+          inputProps={{ 'aria-label': item.itemText }}
+        />
+        {!draft && (
+          <CobraLinkButton
+            size="small"
+            disabled={disabled}
+            onClick={() => save(toDateTimeInputValue(new Date().toISOString()))}
+          >
+            Now
+          </CobraLinkButton>
+        )}
+      </Box>
+    );
+  }
+
+  const configuration = item.itemType === ItemType.NUMBER ? parseValueConfiguration(item.valueConfiguration) : null;
+  const range = configuration ? describeValueConfiguration({ min: configuration.min, max: configuration.max }) : '';
+
+  return (
+    <CobraTextField
+      size="small"
+      value={draft}
+      onChange={(e) => setDraft(e.target.value)}
+      onBlur={() => save(draft)}
+      onKeyDown={handleKeyDown}
+      disabled={disabled}
+      error={!!error}
+      helperText={error}
+      placeholder={item.itemType === ItemType.NUMBER ? range || 'Reading' : 'Enter text'}
+      inputProps={{
+        'aria-label': item.itemText,
+        ...(item.itemType === ItemType.NUMBER
+          ? { inputMode: 'decimal' as const }
+          : { maxLength: MAX_TEXT_VALUE_LENGTH }),
+      }}
+      InputProps={
+        configuration?.unit
+          ? { endAdornment: <InputAdornment position="end">{configuration.unit}</InputAdornment> }
+          : undefined
+      }
+      sx={sx}
+    />
+  );
+};
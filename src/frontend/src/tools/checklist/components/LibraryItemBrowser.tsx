@@ -15,10 +15,21 @@ import {
   Typography,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faSearch, faCheckSquare, faListCheck, faStar } from '@fortawesome/free-solid-svg-icons';
+import {
+  faSearch,
+  faCheckSquare,
+  faListCheck,
+  faStar,
+  faHashtag,
+  faFont,
+  faCalendarDays,
+  faCircleQuestion,
+} from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
 import { itemLibraryService } from '../services/itemLibraryService';
-import type { ItemLibraryEntry, ItemType } from '../../../types';
+import type { ItemLibraryEntry } from '../../../types';
+import { ItemType } from '../../../types';
+import { getItemTypeLabel } from '../utils/itemValue';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import { CobraTextField } from '../../../theme/styledComponents';
 
@@ -121,7 +132,20 @@ export const LibraryItemBrowser: React.FC<LibraryItemBrowserProps> = ({
   };
 
   const getItemTypeIcon = (type: ItemType) => {
-    return type === 'checkbox' ? faCheckSquare : faListCheck;
+    switch (type) {
+      case ItemType.STATUS:
+        return faListCheck;
+      case ItemType.NUMBER:
+        return faHashtag;
+      case ItemType.TEXT:
+        return faFont;
+      case ItemType.DATETIME:
+        return faCalendarDays;
+      case ItemType.YESNO:
+        return faCircleQuestion;
+      default:
+        return faCheckSquare;
+    }
   };
 
   // Get unique categories from items
@@ -175,6 +199,10 @@ export const LibraryItemBrowser: React.FC<LibraryItemBrowserProps> = ({
               <MenuItem value="">All</MenuItem>
               <MenuItem value="checkbox">Checkbox</MenuItem>
               <MenuItem value="status">Status</MenuItem>
+              <MenuItem value={ItemType.NUMBER}>Number</MenuItem>
+              <MenuItem value={ItemType.TEXT}>Text</MenuItem>
+              <MenuItem value={ItemType.DATETIME}>Date/Time</MenuItem>
+              <MenuItem value={ItemType.YESNO}>Yes/No/N-A</MenuItem>
             </Select>
           </FormControl>
         </Grid>
@@ -275,7 +303,7 @@ export const LibraryItemBrowser: React.FC<LibraryItemBrowserProps> = ({
                         <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
                           <Chip
                             icon={<FontAwesomeIcon icon={getItemTypeIcon(item.itemType)} />}
-                            label={item.itemType === 'checkbox' ? 'Checkbox' : 'Status'}
+                            label={getItemTypeLabel(item.itemType)}
                             size="small"
                             variant="outlined"
                           />
@@ -0,0 +1,358 @@
+/**
+ * Live Item Editor Component
+ *
+ * Edits the items of an existing checklist on ChecklistDetailPage (Manage role).
+ * Features:
+ * - Drag-and-drop reordering within each section
+ * - Remove an item (with confirmation; it stays in the activity feed)
+ * - Add a blank item, or items from the item library, to a section
+ *
+ * Each change is saved as it is made; other viewers hear about it through
+ * the hub's ChecklistUpdated message.
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogContentText,
+  DialogTitle,
+  FormControl,
+  IconButton,
+  InputLabel,
+  MenuItem,
+  Paper,
+  Select,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faBook, faGripVertical, faLayerGroup, faPlus, faTrash } from '@fortawesome/free-solid-svg-icons';
+import {
+  DndContext,
+  KeyboardSensor,
+  PointerSensor,
+  closestCenter,
+  useSensor,
+  useSensors,
+  type DragEndEvent,
+} from '@dnd-kit/core';
+import {
+  SortableContext,
+  sortableKeyboardCoordinates,
+  useSortable,
+  verticalListSortingStrategy,
+} from '@dnd-kit/sortable';
+import { CSS } from '@dnd-kit/utilities';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import {
+  CobraCheckbox,
+  CobraDeleteButton,
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import { AddFromLibraryDialog } from './AddFromLibraryDialog';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemType, type AddChecklistItemRequest, type ItemLibraryEntry } from '../types';
+import { groupItemsBySection } from '../utils/itemSections';
+import { getItemTypeLabel, VALUE_ITEM_TYPES } from '../utils/itemValue';
+import { getDisplayOrderedItems, getInsertAfterItemId, getSectionNames } from '../utils/liveItemEditing';
+
+/**
+ * Item types that can be added without further configuration
+ * (status items need status options - add them from the library)
+ */
+const BLANK_ITEM_TYPES: ItemType[] = [ItemType.CHECKBOX, ...VALUE_ITEM_TYPES];
+
+const MAX_ITEM_TEXT_LENGTH = 500;
+
+interface LiveItemEditorProps {
+  items: ChecklistItemDto[];
+  /** Adds one item; resolves true when it was saved */
+  onAddItem: (request: AddChecklistItemRequest) => Promise<boolean>;
+  /** Adds copies of library items to a section (null = no section) */
+  onAddFromLibrary: (entries: ItemLibraryEntry[], sectionName: string | null) => Promise<void>;
+  /** Removes an item; resolves true when it was removed */
+  onRemoveItem: (item: ChecklistItemDto) => Promise<boolean>;
+  /** An item was dropped onto another one */
+  onMoveItem: (activeId: string, overId: string) => void;
+  disabled?: boolean;
+}
+
+interface SortableLiveItemProps {
+  item: ChecklistItemDto;
+  disabled: boolean;
+  onRemove: (item: ChecklistItemDto) => void;
+}
+
+/**
+ * One draggable item row
+ */
+const SortableLiveItem: React.FC<SortableLiveItemProps> = ({ item, disabled, onRemove }) => {
+  const { attributes, listeners, setNodeRef, transform, transition, isDragging } = useSortable({
+    id: item.id,
+    disabled,
+  });
+
+  return (
+    <Paper
+      ref={setNodeRef}
+      variant="outlined"
+      style={{ transform: CSS.Transform.toString(transform), transition, opacity: isDragging ? 0.5 : 1 }}
+      sx={{ display: 'flex', alignItems: 'center', gap: 1, p: 1, mb: 1 }}
+      data-testid="live-item-row"
+    >
+      <Box
+        {...attributes}
+        {...listeners}
+        aria-label={`Drag "${item.itemText}"`}
+        sx={{
+          cursor: disabled ? 'default' : 'grab',
+          color: cobraTheme.palette.text.secondary,
+          display: 'flex',
+          alignItems: 'center',
+          px: 0.5,
+          '&:active': { cursor: disabled ? 'default' : 'grabbing' },
+        }}
+      >
+        <FontAwesomeIcon icon={faGripVertical} />
+      </Box>
+      <Typography variant="body2" sx={{ flex: 1 }}>
+        {item.itemText}
+        {item.isRequired && (
+          <Typography component="span" color="error" sx={{ ml: 1 }}>
+            *
+          </Typography>
+        )}
+      </Typography>
+      <Chip label={getItemTypeLabel(item.itemType)} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
+      <Tooltip title="Remove item">
+        <span>
+          <IconButton
+            size="small"
+            onClick={() => onRemove(item)}
+            disabled={disabled}
+            aria-label={`Remove "${item.itemText}"`}
+            sx={{ color: cobraTheme.palette.buttonDelete.main }}
+          >
+            <FontAwesomeIcon icon={faTrash} size="sm" />
+          </IconButton>
+        </span>
+      </Tooltip>
+    </Paper>
+  );
+};
+
+/**
+ * Live Item Editor Component
+ */
+export const LiveItemEditor: React.FC<LiveItemEditorProps> = ({
+  items,
+  onAddItem,
+  onAddFromLibrary,
+  onRemoveItem,
+  onMoveItem,
+  disabled = false,
+}) => {
+  const [itemText, setItemText] = useState('');
+  const [itemType, setItemType] = useState<ItemType>(ItemType.CHECKBOX);
+  const [isRequired, setIsRequired] = useState(false);
+  const [sectionName, setSectionName] = useState('');
+  const [adding, setAdding] = useState(false);
+  const [libraryOpen, setLibraryOpen] = useState(false);
+  const [itemToRemove, setItemToRemove] = useState<ChecklistItemDto | null>(null);
+  const [removing, setRemoving] = useState(false);
+
+  const sensors = useSensors(
+    useSensor(PointerSensor),
+    useSensor(KeyboardSensor, {
+      coordinateGetter: sortableKeyboardCoordinates,
+    })
+  );
+
+  const sectionNames = getSectionNames(items);
+  const sections = groupItemsBySection(getDisplayOrderedItems(items));
+  // The chosen section may have lost its last item since
+  const selectedSection = sectionNames.includes(sectionName) ? sectionName : '';
+
+  const handleDragEnd = (event: DragEndEvent) => {
+    const { active, over } = event;
+    if (over && active.id !== over.id) {
+      onMoveItem(String(active.id), String(over.id));
+    }
+  };
+
+  const handleAdd = async () => {
+    const text = itemText.trim();
+    if (!text) return;
+
+    setAdding(true);
+    const added = await onAddItem({
+      itemText: text,
+      itemType,
+      isRequired,
+      sectionName: selectedSection || null,
+      insertAfterItemId: getInsertAfterItemId(items, selectedSection || null),
+    });
+    setAdding(false);
+
+    if (added) {
+      setItemText('');
+      setIsRequired(false);
+    }
+  };
+
+  const handleConfirmRemove = async () => {
+    if (!itemToRemove) return;
+
+    setRemoving(true);
+    const removed = await onRemoveItem(itemToRemove);
+    setRemoving(false);
+
+    if (removed) {
+      setItemToRemove(null);
+    }
+  };
+
+  return (
+    <Box data-testid="live-item-editor">
+      {/* Items, draggable within their section */}
+      {items.length === 0 ? (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 2 }}>
+          No items yet. Add one below.
+        </Typography>
+      ) : (
+        <DndContext sensors={sensors} collisionDetection={closestCenter} onDragEnd={handleDragEnd}>
+          {sections.map((section) => (
+            <Box key={section.name ?? ''} sx={{ mb: 2 }}>
+              {section.name !== null && (
+                <Typography
+                  variant="subtitle2"
+                  sx={{ display: 'flex', alignItems: 'center', gap: 1, fontWeight: 'bold', mb: 1 }}
+                >
+                  <FontAwesomeIcon icon={faLayerGroup} style={{ color: cobraTheme.palette.buttonPrimary.main }} />
+                  {section.name}
+                </Typography>
+              )}
+              <SortableContext items={section.items.map((item) => item.id)} strategy={verticalListSortingStrategy}>
+                {section.items.map((item) => (
+                  <SortableLiveItem key={item.id} item={item} disabled={disabled} onRemove={setItemToRemove} />
+                ))}
+              </SortableContext>
+            </Box>
+          ))}
+        </DndContext>
+      )}
+
+      {/* Add item */}
+      <Paper variant="outlined" sx={{ p: 2, display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 1 }}>
+        <CobraTextField
+          size="small"
+          label="New item"
+          value={itemText}
+          onChange={(e) => setItemText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') handleAdd();
+          }}
+          inputProps={{ maxLength: MAX_ITEM_TEXT_LENGTH }}
+          disabled={disabled || adding}
+          sx={{ flex: 1, minWidth: 240 }}
+        />
+        <FormControl size="small" sx={{ minWidth: 140 }}>
+          <InputLabel id="live-item-type-label">Type</InputLabel>
+          <Select
+            labelId="live-item-type-label"
+            label="Type"
+            value={itemType}
+            onChange={(e) => setItemType(e.target.value as ItemType)}
+            disabled={disabled || adding}
+          >
+            {BLANK_ITEM_TYPES.map((type) => (
+              <MenuItem key={type} value={type}>
+                {getItemTypeLabel(type)}
+              </MenuItem>
+            ))}
+          </Select>
+        </FormControl>
+        {sectionNames.length > 0 && (
+          <FormControl size="small" sx={{ minWidth: 160 }}>
+            <InputLabel id="live-item-section-label">Section</InputLabel>
+            <Select
+              labelId="live-item-section-label"
+              label="Section"
+              value={selectedSection}
+              onChange={(e) => setSectionName(e.target.value)}
+              disabled={disabled || adding}
+            >
+              <MenuItem value="">
+                <em>No section</em>
+              </MenuItem>
+              {sectionNames.map((name) => (
+                <MenuItem key={name} value={name}>
+                  {name}
+                </MenuItem>
+              ))}
+            </Select>
+          </FormControl>
+        )}
+        <CobraCheckbox
+          label="Required"
+          checked={isRequired}
+          onChange={(e) => setIsRequired(e.target.checked)}
+          disabled={disabled || adding}
+        />
+        <CobraPrimaryButton
+          startIcon={<FontAwesomeIcon icon={faPlus} />}
+          onClick={handleAdd}
+          disabled={disabled || adding || !itemText.trim()}
+        >
+          Add Item
+        </CobraPrimaryButton>
+        <CobraLinkButton
+          startIcon={<FontAwesomeIcon icon={faBook} />}
+          onClick={() => setLibraryOpen(true)}
+          disabled={disabled || adding}
+        >
+          Add from Library
+        </CobraLinkButton>
+      </Paper>
+
+      <AddFromLibraryDialog
+        open={libraryOpen}
+        onClose={() => setLibraryOpen(false)}
+        onAdd={(entries, sectionId) => onAddFromLibrary(entries, sectionId)}
+        sections={sectionNames.map((name) => ({ id: name, name }))}
+      />
+
+      {/* Remove confirmation */}
+      <Dialog
+        open={!!itemToRemove}
+        onClose={() => !removing && setItemToRemove(null)}
+        maxWidth="sm"
+        fullWidth
+      >
+        <DialogTitle>Remove Item?</DialogTitle>
+        <DialogContent>
+          <DialogContentText>
+            Remove <strong>"{itemToRemove?.itemText}"</strong> from this checklist?
+          </DialogContentText>
+          <DialogContentText sx={{ mt: 2 }}>
+            Everyone viewing the checklist will see it disappear. Its history stays in the activity feed.
+          </DialogContentText>
+        </DialogContent>
+        <DialogActions sx={{ px: 3, pb: 2 }}>
+          <CobraLinkButton onClick={() => setItemToRemove(null)} disabled={removing}>
+            Cancel
+          </CobraLinkButton>
+          <CobraDeleteButton onClick={handleConfirmRemove} disabled={removing}>
+            {removing ? 'Removing...' : 'Remove Item'}
+          </CobraDeleteButton>
+        </DialogActions>
+      </Dialog>
+    </Box>
+  );
+};
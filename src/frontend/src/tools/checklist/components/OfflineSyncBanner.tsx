@@ -0,0 +1,190 @@
+/**
+ * OfflineSyncBanner Component
+ *
+ * Shows offline execution state on the checklist detail page:
+ * - Offline notice with the age of the cached copy
+ * - Number of changes waiting to sync
+ * - One row per item whose offline change conflicts with a newer server
+ *   update, with "Keep Mine" / "Use Theirs" resolution
+ *
+ * Renders nothing when online with an empty queue.
+ */
+
+import React from 'react';
+import { Alert, AlertTitle, Box, Stack, Typography, type SxProps, type Theme } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faWifi, faRotate } from '@fortawesome/free-solid-svg-icons';
+import { formatDistanceToNow } from 'date-fns';
+import {
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraSecondaryButton,
+} from '../../../theme/styledComponents';
+import type { QueuedItemMutation } from '../services/offlineStore';
+import type { ChecklistItemDto } from '../services/checklistService';
+import type { ConflictResolution } from '../services/offlineQueueService';
+import { formatItemValue, isValueItemType } from '../utils/itemValue';
+
+/**
+ * Props for OfflineSyncBanner
+ */
+interface OfflineSyncBannerProps {
+  isOnline: boolean;
+  isOfflineCopy: boolean;
+  cachedAt: string | null;
+  syncing: boolean;
+  pendingCount: number;
+  conflicts: QueuedItemMutation[];
+  onSyncNow: () => void;
+  onResolveConflict: (sequence: number, resolution: ConflictResolution) => void;
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * Describe the user's queued change
+ */
+const describeQueuedChange = (mutation: QueuedItemMutation): string => {
+  switch (mutation.kind) {
+    case 'completion':
+      return mutation.request.isCompleted ? 'Marked complete' : 'Marked incomplete';
+    case 'status':
+      return `Status set to "${mutation.request.status}"`;
+    case 'value':
+      return mutation.request.value ? `Value set to "${mutation.request.value}"` : 'Value cleared';
+    case 'note':
+      return `Note added: "${mutation.request.noteText}"`;
+  }
+};
+
+/**
+ * Describe the current server state of the item
+ */
+const describeServerItem = (item?: ChecklistItemDto): string => {
+  if (!item) return 'Changed on server';
+
+  const state =
+    item.itemType === 'status'
+      ? `Status "${item.currentStatus || 'Not set'}"`
+      : isValueItemType(item.itemType)
+        ? `Value "${formatItemValue(item) ?? 'Not set'}"`
+        : item.isCompleted
+          ? 'Complete'
+          : 'Incomplete';
+  const by = item.lastModifiedBy
+    ? ` (by ${item.lastModifiedByPosition || item.lastModifiedBy})`
+    : '';
+  return `${state}${by}`;
+};
+
+/**
+ * OfflineSyncBanner Component
+ */
+export const OfflineSyncBanner: React.FC<OfflineSyncBannerProps> = ({
+  isOnline,
+  isOfflineCopy,
+  cachedAt,
+  syncing,
+  pendingCount,
+  conflicts,
+  onSyncNow,
+  onResolveConflict,
+  sx,
+}) => {
+  const offline = !isOnline || isOfflineCopy;
+
+  if (!offline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <Stack
+      spacing={1}
+      sx={[{ mb: 2 }, ...(Array.isArray(sx) ? sx : [sx])]}
+      data-testid="offline-sync-banner"
+    >
+      {(offline || pendingCount > 0) && (
+        <Alert
+          severity={offline ? 'warning' : 'info'}
+          icon={<FontAwesomeIcon icon={offline ? faWifi : faRotate} spin={syncing} />}
+          action={
+            !offline && pendingCount > 0 ? (
+              <CobraLinkButton onClick={onSyncNow} disabled={syncing}>
+                {syncing ? 'Syncing...' : 'Sync Now'}
+              </CobraLinkButton>
+            ) : undefined
+          }
+        >
+          {offline ? (
+            <>
+              <AlertTitle>Working offline</AlertTitle>
+              {cachedAt
+                ? `Showing the copy saved ${formatDistanceToNow(new Date(cachedAt), { addSuffix: true })}. `
+                : ''}
+              Changes are saved on this device and will sync when the connection returns.
+            </>
+          ) : (
+            'Syncing changes made while offline.'
+          )}
+          {pendingCount > 0 && (
+            <Typography variant="body2" sx={{ fontWeight: 'bold', mt: 0.5 }}>
+              {pendingCount} change{pendingCount === 1 ? '' : 's'} waiting to sync
+            </Typography>
+          )}
+        </Alert>
+      )}
+
+      {conflicts.length > 0 && (
+        <Alert severity="error">
+          <AlertTitle>
+            {conflicts.length} offline change{conflicts.length === 1 ? '' : 's'} need review
+          </AlertTitle>
+          <Typography variant="body2" sx={{ mb: 1 }}>
+            These items were updated by someone else while you were offline.
+          </Typography>
+          <Stack spacing={1}>
+            {conflicts.map((conflict) => (
+              <Box
+                key={conflict.sequence}
+                sx={{
+                  display: 'flex',
+                  flexWrap: 'wrap',
+                  alignItems: 'center',
+                  gap: 1,
+                  p: 1,
+                  borderRadius: 1,
+                  backgroundColor: 'background.paper',
+                }}
+              >
+                <Box sx={{ flex: 1, minWidth: 200 }}>
+                  <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                    {conflict.itemText}
+                  </Typography>
+                  <Typography variant="caption" display="block">
+                    Yours: {describeQueuedChange(conflict)}
+                  </Typography>
+                  <Typography variant="caption" display="block">
+                    Theirs: {describeServerItem(conflict.serverItem)}
+                  </Typography>
+                </Box>
+                <CobraSecondaryButton
+                  size="small"
+                  onClick={() => onResolveConflict(conflict.sequence!, 'use-server')}
+                  disabled={syncing}
+                >
+                  Use Theirs
+                </CobraSecondaryButton>
+                <CobraPrimaryButton
+                  size="small"
+                  onClick={() => onResolveConflict(conflict.sequence!, 'keep-mine')}
+                  disabled={syncing}
+                >
+                  Keep Mine
+                </CobraPrimaryButton>
+              </Box>
+            ))}
+          </Stack>
+        </Alert>
+      )}
+    </Stack>
+  );
+};
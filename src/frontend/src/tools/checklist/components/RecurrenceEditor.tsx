@@ -0,0 +1,182 @@
+/**
+ * Recurrence Editor Component
+ *
+ * Edits the schedule of a RECURRING template:
+ * - Frequency: every operational period, every N hours, or daily at a time
+ * - Positions assigned to each created checklist
+ * - End: when the event is closed, or at a specific time
+ *
+ * Checklists are created by the backend scheduler for the active event and
+ * appear live in My Checklists.
+ */
+
+import React from 'react';
+import {
+  Alert,
+  Autocomplete,
+  Chip,
+  FormControl,
+  FormControlLabel,
+  FormHelperText,
+  FormLabel,
+  InputLabel,
+  MenuItem,
+  Radio,
+  RadioGroup,
+  Select,
+  Stack,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import { CobraTextField } from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { ICS_POSITIONS, RecurrenceFrequency, type RecurrenceConfig } from '../../../types';
+import { MAX_INTERVAL_HOURS, describeRecurrence } from '../utils/recurrence';
+
+/**
+ * Value for a datetime-local input
+ */
+const toInputDateTime = (iso?: string | null): string =>
+  iso ? format(new Date(iso), "yyyy-MM-dd'T'HH:mm") : '';
+
+/**
+ * ISO string from a datetime-local input (undefined when cleared)
+ */
+const fromInputDateTime = (value: string): string | undefined =>
+  value ? new Date(value).toISOString() : undefined;
+
+/**
+ * Props for RecurrenceEditor
+ */
+interface RecurrenceEditorProps {
+  value: RecurrenceConfig;
+  onChange: (config: RecurrenceConfig) => void;
+  /** Validation error from validateRecurrenceConfig */
+  error?: string;
+}
+
+/**
+ * Recurrence Editor Component
+ */
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, error }) => {
+  const update = (changes: Partial<RecurrenceConfig>) => onChange({ ...value, ...changes });
+
+  return (
+    <Stack spacing={CobraStyles.Spacing.FormFields}>
+      <FormControl fullWidth>
+        <InputLabel>Create a checklist</InputLabel>
+        <Select
+          value={value.frequency}
+          onChange={(e) => update({ frequency: e.target.value as RecurrenceFrequency })}
+          label="Create a checklist"
+        >
+          <MenuItem value={RecurrenceFrequency.OPERATIONAL_PERIOD}>Every operational period</MenuItem>
+          <MenuItem value={RecurrenceFrequency.INTERVAL}>Every N hours</MenuItem>
+          <MenuItem value={RecurrenceFrequency.DAILY}>Daily at a set time</MenuItem>
+        </Select>
+        <FormHelperText>
+          {value.frequency === RecurrenceFrequency.OPERATIONAL_PERIOD &&
+            'A new checklist is created each time the event moves to a new operational period.'}
+          {value.frequency === RecurrenceFrequency.INTERVAL &&
+            'A new checklist is created every N hours, counted from the start time.'}
+          {value.frequency === RecurrenceFrequency.DAILY &&
+            `A new checklist is created every day at this time (${value.timeZone ?? 'UTC'}).`}
+        </FormHelperText>
+      </FormControl>
+
+      {value.frequency === RecurrenceFrequency.INTERVAL && (
+        <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2}>
+          <CobraTextField
+            label="Every (hours)"
+            type="number"
+            value={value.intervalHours ?? ''}
+            onChange={(e) =>
+              update({ intervalHours: e.target.value === '' ? undefined : Number(e.target.value) })
+            }
+            inputProps={{ min: 1, max: MAX_INTERVAL_HOURS, step: 1 }}
+            sx={{ minWidth: 160 }}
+          />
+          <CobraTextField
+            label="Starting"
+            type="datetime-local"
+            value={toInputDateTime(value.startAt)}
+            onChange={(e) => update({ startAt: fromInputDateTime(e.target.value) })}
+            InputLabelProps={{ shrink: true }}
+            fullWidth
+          />
+        </Stack>
+      )}
+
+      {value.frequency === RecurrenceFrequency.DAILY && (
+        <CobraTextField
+          label="Time of day"
+          type="time"
+          value={value.timeOfDay ?? ''}
+          onChange={(e) => update({ timeOfDay: e.target.value })}
+          InputLabelProps={{ shrink: true }}
+          sx={{ maxWidth: 200 }}
+        />
+      )}
+
+      <Autocomplete
+        multiple
+        options={ICS_POSITIONS as unknown as string[]}
+        value={value.assignedPositions}
+        onChange={(_, newValue) => update({ assignedPositions: newValue })}
+        renderInput={(params) => (
+          <CobraTextField
+            {...params}
+            label="Assign to Positions (Optional)"
+            placeholder="Select positions..."
+            helperText="Leave empty to make each checklist visible to all positions"
+          />
+        )}
+        renderTags={(tags, getTagProps) =>
+          tags.map((option, index) => (
+            <Chip
+              label={option}
+              {...getTagProps({ index })}
+              sx={{ backgroundColor: cobraTheme.palette.action.selected }}
+            />
+          ))
+        }
+      />
+
+      <FormControl>
+        <FormLabel>Stop creating checklists</FormLabel>
+        <RadioGroup
+          value={value.endAt ? 'date' : 'eventClosed'}
+          onChange={(e) =>
+            update({
+              endAt:
+                e.target.value === 'date'
+                  ? new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+                  : null,
+            })
+          }
+        >
+          <FormControlLabel value="eventClosed" control={<Radio />} label="When the event is closed" />
+          <FormControlLabel value="date" control={<Radio />} label="At a specific time" />
+        </RadioGroup>
+      </FormControl>
+
+      {value.endAt && (
+        <CobraTextField
+          label="End"
+          type="datetime-local"
+          value={toInputDateTime(value.endAt)}
+          onChange={(e) => update({ endAt: fromInputDateTime(e.target.value) ?? null })}
+          InputLabelProps={{ shrink: true }}
+          helperText="Checklists also stop when the event is closed"
+          sx={{ maxWidth: 300 }}
+        />
+      )}
+
+      {error ? (
+        <Alert severity="error">{error}</Alert>
+      ) : (
+        <Alert severity="info">{describeRecurrence(value)}.</Alert>
+      )}
+    </Stack>
+  );
+};
@@ -16,6 +16,11 @@ import { toast } from 'react-toastify';
 import { itemLibraryService } from '../services/itemLibraryService';
 import type { TemplateItemFormData } from './TemplateItemEditor';
 import { ItemType } from '../../../types';
+import {
+  describeValueConfiguration,
+  getItemTypeLabel,
+  serializeValueConfiguration,
+} from '../utils/itemValue';
 import {
   CobraDialog,
   CobraTextField,
@@ -87,6 +92,10 @@ export const SaveToLibraryDialog: React.FC<SaveToLibraryDialogProps> = ({
           itemData.itemType === ItemType.STATUS && itemData.statusConfiguration.length > 0
             ? JSON.stringify(itemData.statusConfiguration)
             : undefined,
+        valueConfiguration:
+          itemData.itemType === ItemType.NUMBER
+            ? serializeValueConfiguration(itemData.valueConfiguration) ?? undefined
+            : undefined,
         allowedPositions:
           itemData.allowedPositions.length > 0
             ? JSON.stringify(itemData.allowedPositions)
@@ -155,7 +164,7 @@ export const SaveToLibraryDialog: React.FC<SaveToLibraryDialogProps> = ({
             Item Type
           </Typography>
           <Chip
-            label={itemData.itemType === ItemType.CHECKBOX ? 'Checkbox' : 'Status Dropdown'}
+            label={itemData.itemType === ItemType.STATUS ? 'Status Dropdown' : getItemTypeLabel(itemData.itemType)}
             size="small"
             color="primary"
           />
@@ -211,6 +220,13 @@ export const SaveToLibraryDialog: React.FC<SaveToLibraryDialogProps> = ({
                 </Typography>
               </li>
             )}
+            {itemData.itemType === ItemType.NUMBER && describeValueConfiguration(itemData.valueConfiguration) && (
+              <li>
+                <Typography variant="caption">
+                  Unit and range ({describeValueConfiguration(itemData.valueConfiguration)})
+                </Typography>
+              </li>
+            )}
             {itemData.allowedPositions.length > 0 && (
               <li>
                 <Typography variant="caption">
@@ -223,8 +239,9 @@ export const SaveToLibraryDialog: React.FC<SaveToLibraryDialogProps> = ({
                 <Typography variant="caption">Default notes</Typography>
               </li>
             )}
-            {itemData.itemType === ItemType.CHECKBOX &&
-              itemData.statusConfiguration.length === 0 &&
+            {itemData.itemType !== ItemType.STATUS &&
+              !describeValueConfiguration(itemData.valueConfiguration) &&
+              itemData.allowedPositions.length === 0 &&
               itemData.allowedPositions.length === 0 &&
               !itemData.defaultNotes && (
                 <li>
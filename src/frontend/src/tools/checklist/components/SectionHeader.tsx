@@ -28,6 +28,8 @@ interface SectionHeaderProps {
   subtitle?: string;
   checklistCount: number;
   averageProgress?: number;
+  /** Optional action shown before the metadata chips (e.g. Carry Forward) */
+  action?: React.ReactNode;
 }
 
 /**
@@ -85,6 +87,7 @@ export const SectionHeader: React.FC<SectionHeaderProps> = ({
   subtitle,
   checklistCount,
   averageProgress,
+  action,
 }) => {
   const style = getSectionStyle(type);
   const label = getSectionLabel(type);
@@ -149,8 +152,10 @@ export const SectionHeader: React.FC<SectionHeaderProps> = ({
         </Box>
       </Box>
 
-      {/* Right side: Metadata chips */}
+      {/* Right side: Action and metadata chips */}
       <Box sx={{ display: 'flex', gap: 1, alignItems: 'center' }}>
+        {action}
+
         {/* Checklist count */}
         <Chip
           label={`${checklistCount} checklist${checklistCount !== 1 ? 's' : ''}`}
@@ -0,0 +1,126 @@
+/**
+ * SignaturePad Component
+ *
+ * Draw-to-sign canvas for checklist sign-off. Works with mouse, pen and touch
+ * (pointer events). Reports the drawing as a PNG data URL, or null when the
+ * pad is empty or cleared.
+ */
+
+import React, { useRef, useState } from 'react';
+import { Box, Typography } from '@mui/material';
+import { CobraLinkButton } from '../../../theme/styledComponents';
+
+interface SignaturePadProps {
+  /** Called with the PNG data URL after each stroke, or null when cleared */
+  onChange: (signature: string | null) => void;
+  disabled?: boolean;
+  width?: number;
+  height?: number;
+}
+
+/**
+ * SignaturePad Component
+ */
+export const SignaturePad: React.FC<SignaturePadProps> = ({
+  onChange,
+  disabled = false,
+  width = 480,
+  height = 160,
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawingRef = useRef(false);
+  const [hasSignature, setHasSignature] = useState(false);
+
+  const getContext = () => canvasRef.current?.getContext('2d') ?? null;
+
+  // Pointer position in canvas pixels (the canvas may be scaled by CSS)
+  const getPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) * canvas.width) / (rect.width || canvas.width),
+      y: ((e.clientY - rect.top) * canvas.height) / (rect.height || canvas.height),
+    };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (disabled || !ctx) return;
+
+    e.currentTarget.setPointerCapture?.(e.pointerId);
+    const { x, y } = getPoint(e);
+    ctx.lineWidth = 2;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#000000';
+    ctx.beginPath();
+    ctx.moveTo(x, y);
+    drawingRef.current = true;
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = getContext();
+    if (!drawingRef.current || !ctx) return;
+
+    const { x, y } = getPoint(e);
+    ctx.lineTo(x, y);
+    ctx.stroke();
+  };
+
+  const handlePointerUp = () => {
+    if (!drawingRef.current) return;
+
+    drawingRef.current = false;
+    setHasSignature(true);
+    onChange(canvasRef.current?.toDataURL('image/png') ?? null);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    getContext()?.clearRect(0, 0, canvas?.width ?? width, canvas?.height ?? height);
+    setHasSignature(false);
+    onChange(null);
+  };
+
+  return (
+    <Box>
+      <Box
+        sx={{
+          position: 'relative',
+          border: 1,
+          borderColor: 'divider',
+          borderRadius: 1,
+          backgroundColor: '#FFFFFF',
+          opacity: disabled ? 0.6 : 1,
+        }}
+      >
+        <canvas
+          ref={canvasRef}
+          width={width}
+          height={height}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerLeave={handlePointerUp}
+          style={{ display: 'block', width: '100%', height, touchAction: 'none', cursor: 'crosshair' }}
+          aria-label="Signature pad"
+          data-testid="signature-pad"
+        />
+        {!hasSignature && (
+          <Typography
+            variant="body2"
+            color="text.disabled"
+            sx={{ position: 'absolute', left: 12, bottom: 8, pointerEvents: 'none' }}
+          >
+            Sign here
+          </Typography>
+        )}
+      </Box>
+      <Box sx={{ display: 'flex', justifyContent: 'flex-end' }}>
+        <CobraLinkButton size="small" onClick={handleClear} disabled={disabled || !hasSignature}>
+          Clear
+        </CobraLinkButton>
+      </Box>
+    </Box>
+  );
+};
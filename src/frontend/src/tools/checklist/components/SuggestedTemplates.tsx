@@ -0,0 +1,73 @@
+/**
+ * SuggestedTemplates Component
+ *
+ * Landing page panel with the best template suggestions for the current
+ * user and event, each with the reasons it is suggested (see
+ * utils/templateRecommendations). Selecting one opens the template picker
+ * with that template selected.
+ *
+ * Renders nothing while loading or when nothing is suggested.
+ */
+
+import React, { useMemo } from 'react';
+import { Box, Divider, List, ListItem, ListItemButton, ListItemText, Paper, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faChevronRight, faLightbulb } from '@fortawesome/free-solid-svg-icons';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import type { Template } from '../types';
+import { useTemplateRecommendations } from '../hooks/useTemplateRecommendations';
+import { getSuggestions } from '../utils/templateRecommendations';
+
+interface SuggestedTemplatesProps {
+  /** Called with the template the user picked */
+  onSelect: (template: Template) => void;
+  /** Number of suggestions shown (default 3) */
+  limit?: number;
+}
+
+export const SuggestedTemplates: React.FC<SuggestedTemplatesProps> = ({ onSelect, limit = 3 }) => {
+  const { ranked, loading } = useTemplateRecommendations(true);
+  const suggestions = useMemo(() => getSuggestions(ranked, limit), [ranked, limit]);
+
+  if (loading || suggestions.length === 0) {
+    return null;
+  }
+
+  return (
+    <Paper variant="outlined" sx={{ overflow: 'hidden' }}>
+      <Box
+        sx={{
+          display: 'flex',
+          alignItems: 'center',
+          gap: 1,
+          px: 2,
+          py: 1,
+          borderBottom: `1px solid ${cobraTheme.palette.divider}`,
+        }}
+      >
+        <FontAwesomeIcon icon={faLightbulb} style={{ color: cobraTheme.palette.buttonPrimary.main }} />
+        <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+          Suggested Templates
+        </Typography>
+      </Box>
+      <List disablePadding>
+        {suggestions.map(({ template, reasons }, index) => (
+          <React.Fragment key={template.id}>
+            {index > 0 && <Divider />}
+            <ListItem disablePadding>
+              <ListItemButton onClick={() => onSelect(template)} sx={{ py: 1.5 }}>
+                <ListItemText
+                  primary={template.name}
+                  secondary={reasons.map((reason) => reason.label).join(' · ')}
+                  primaryTypographyProps={{ variant: 'body1', sx: { fontWeight: 500 } }}
+                  secondaryTypographyProps={{ variant: 'caption' }}
+                />
+                <FontAwesomeIcon icon={faChevronRight} style={{ color: cobraTheme.palette.text.secondary }} />
+              </ListItemButton>
+            </ListItem>
+          </React.Fragment>
+        ))}
+      </List>
+    </Paper>
+  );
+};
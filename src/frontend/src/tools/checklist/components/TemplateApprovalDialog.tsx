@@ -0,0 +1,161 @@
+/**
+ * TemplateApprovalDialog Component
+ *
+ * Comment dialog for the template approval workflow:
+ * - submit: optional note to the approver
+ * - approve: optional approval comment
+ * - reject: required comment explaining what needs to change
+ *
+ * Used by the approval panel (editor/preview pages) and the approver queue.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { DialogActions, Stack, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faCheck, faPaperPlane, faSpinner, faXmark } from '@fortawesome/free-solid-svg-icons';
+import {
+  CobraDialog,
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+
+/**
+ * Approval action performed by the dialog
+ */
+export type TemplateApprovalDialogMode = 'submit' | 'approve' | 'reject';
+
+/**
+ * Props for TemplateApprovalDialog
+ */
+interface TemplateApprovalDialogProps {
+  open: boolean;
+  mode: TemplateApprovalDialogMode;
+  templateName: string;
+  onConfirm: (comment: string) => Promise<void>;
+  onCancel: () => void;
+  saving?: boolean;
+}
+
+/**
+ * Maximum comment length (matches backend)
+ */
+const MAX_COMMENT_LENGTH = 2000;
+
+/**
+ * Per-mode labels
+ */
+const MODE_CONFIG: Record<
+  TemplateApprovalDialogMode,
+  { title: string; label: string; placeholder: string; confirmLabel: string }
+> = {
+  submit: {
+    title: 'Submit for Approval',
+    label: 'Note to approver (optional)',
+    placeholder: 'Summarize what changed or what should be reviewed...',
+    confirmLabel: 'Submit',
+  },
+  approve: {
+    title: 'Approve Template',
+    label: 'Comment (optional)',
+    placeholder: 'Add an approval comment...',
+    confirmLabel: 'Approve',
+  },
+  reject: {
+    title: 'Reject Template',
+    label: 'Reason for rejection',
+    placeholder: 'Explain what needs to change before this template can be approved...',
+    confirmLabel: 'Reject',
+  },
+};
+
+/**
+ * TemplateApprovalDialog Component
+ */
+export const TemplateApprovalDialog: React.FC<TemplateApprovalDialogProps> = ({
+  open,
+  mode,
+  templateName,
+  onConfirm,
+  onCancel,
+  saving = false,
+}) => {
+  const [comment, setComment] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const config = MODE_CONFIG[mode];
+
+  // Reset when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setComment('');
+      setError(null);
+    }
+  }, [open, mode]);
+
+  const isOverLimit = comment.length > MAX_COMMENT_LENGTH;
+  const isMissingRequired = mode === 'reject' && comment.trim().length === 0;
+
+  const handleConfirm = async () => {
+    if (isMissingRequired) {
+      setError('A comment is required when rejecting a template');
+      return;
+    }
+
+    try {
+      await onConfirm(comment.trim());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Action failed. Please try again.');
+    }
+  };
+
+  const icon = saving
+    ? <FontAwesomeIcon icon={faSpinner} spin />
+    : <FontAwesomeIcon icon={mode === 'reject' ? faXmark : mode === 'approve' ? faCheck : faPaperPlane} />;
+
+  return (
+    <CobraDialog open={open} onClose={onCancel} title={config.title} contentWidth="600px">
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Typography variant="body2" color="text.secondary">
+          Template: <strong>{templateName}</strong>
+        </Typography>
+
+        <CobraTextField
+          label={config.label}
+          multiline
+          rows={4}
+          fullWidth
+          value={comment}
+          onChange={(e) => {
+            setComment(e.target.value);
+            setError(null);
+          }}
+          required={mode === 'reject'}
+          error={isOverLimit || !!error}
+          helperText={
+            error ||
+            (isOverLimit
+              ? `Character limit exceeded (${MAX_COMMENT_LENGTH} max)`
+              : `${comment.length} / ${MAX_COMMENT_LENGTH}`)
+          }
+          placeholder={config.placeholder}
+          autoFocus
+          disabled={saving}
+        />
+
+        <DialogActions>
+          <CobraLinkButton onClick={onCancel} disabled={saving}>
+            Cancel
+          </CobraLinkButton>
+          <CobraPrimaryButton
+            onClick={handleConfirm}
+            disabled={saving || isOverLimit}
+            startIcon={icon}
+          >
+            {config.confirmLabel}
+          </CobraPrimaryButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
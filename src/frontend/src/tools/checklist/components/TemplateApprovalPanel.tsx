@@ -0,0 +1,306 @@
+/**
+ * TemplateApprovalPanel Component
+ *
+ * Approval status and history for a template, shown on the template editor
+ * and preview pages.
+ * - Current status with the latest submission and review
+ * - "Submit for Approval" for Draft or Rejected templates (template editors)
+ * - Approve / Reject for pending templates (approvers other than the submitter)
+ * - Collapsible history of who submitted, approved, rejected or edited the
+ *   template, with comments
+ *
+ * Only Approved templates appear in the template picker.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Divider,
+  List,
+  ListItem,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faCheck,
+  faChevronDown,
+  faChevronUp,
+  faPaperPlane,
+  faStamp,
+  faXmark,
+} from '@fortawesome/free-solid-svg-icons';
+import { format } from 'date-fns';
+import { toast } from 'react-toastify';
+import { CobraLinkButton, CobraPrimaryButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import { getCurrentUser } from '../../../core/services/api';
+import { templateApprovalService } from '../services/templateApprovalService';
+import { TemplateApprovalStatusChip } from './TemplateApprovalStatusChip';
+import { TemplateApprovalDialog, type TemplateApprovalDialogMode } from './TemplateApprovalDialog';
+import {
+  TemplateApprovalAction,
+  TemplateApprovalStatus,
+  type Template,
+  type TemplateApprovalEvent,
+} from '../../../types';
+
+/**
+ * Labels for history entries
+ */
+const ACTION_LABELS: Record<TemplateApprovalAction, string> = {
+  [TemplateApprovalAction.SUBMITTED]: 'Submitted',
+  [TemplateApprovalAction.APPROVED]: 'Approved',
+  [TemplateApprovalAction.REJECTED]: 'Rejected',
+  [TemplateApprovalAction.RETURNED_TO_DRAFT]: 'Returned to draft',
+};
+
+const ACTION_COLORS: Record<TemplateApprovalAction, 'default' | 'warning' | 'success' | 'error'> = {
+  [TemplateApprovalAction.SUBMITTED]: 'warning',
+  [TemplateApprovalAction.APPROVED]: 'success',
+  [TemplateApprovalAction.REJECTED]: 'error',
+  [TemplateApprovalAction.RETURNED_TO_DRAFT]: 'default',
+};
+
+/**
+ * Props for TemplateApprovalPanel
+ */
+interface TemplateApprovalPanelProps {
+  template: Template;
+  /** Show "Submit for Approval" (template editors) */
+  canSubmit: boolean;
+  /** Show Approve / Reject (approvers) */
+  canReview: boolean;
+  /** Called with the updated template after an approval action */
+  onChanged?: (template: Template) => void;
+  /** Start with history expanded */
+  defaultExpanded?: boolean;
+}
+
+/**
+ * TemplateApprovalPanel Component
+ */
+export const TemplateApprovalPanel: React.FC<TemplateApprovalPanelProps> = ({
+  template,
+  canSubmit,
+  canReview,
+  onChanged,
+  defaultExpanded = false,
+}) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const [history, setHistory] = useState<TemplateApprovalEvent[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [dialogMode, setDialogMode] = useState<TemplateApprovalDialogMode | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const status = template.approvalStatus;
+  const isOwnSubmission =
+    !!template.submittedBy &&
+    template.submittedBy.toLowerCase() === getCurrentUser().email.toLowerCase();
+
+  const loadHistory = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await templateApprovalService.getApprovalHistory(template.id);
+      setHistory(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load approval history');
+    } finally {
+      setLoading(false);
+    }
+  }, [template.id]);
+
+  // Reload when the status changes (including edits that return the template to draft)
+  useEffect(() => {
+    if (expanded) {
+      loadHistory();
+    }
+  }, [expanded, loadHistory, status, template.currentVersion]);
+
+  const handleConfirm = async (comment: string) => {
+    if (!dialogMode) return;
+
+    try {
+      setSaving(true);
+      let updated: Template;
+      if (dialogMode === 'submit') {
+        updated = await templateApprovalService.submitForApproval(template.id, comment || undefined);
+        toast.success(`"${template.name}" submitted for approval`);
+      } else if (dialogMode === 'approve') {
+        updated = await templateApprovalService.approve(template.id, comment || undefined);
+        toast.success(`"${template.name}" approved`);
+      } else {
+        updated = await templateApprovalService.reject(template.id, comment);
+        toast.success(`"${template.name}" rejected`);
+      }
+      setDialogMode(null);
+      onChanged?.(updated);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const renderStatusDetail = () => {
+    switch (status) {
+      case TemplateApprovalStatus.DRAFT:
+        return (
+          <Typography variant="body2" color="text.secondary">
+            This template must be approved before checklists can be created from it.
+          </Typography>
+        );
+      case TemplateApprovalStatus.PENDING_APPROVAL:
+        return (
+          <Typography variant="body2" color="text.secondary">
+            Submitted by {template.submittedByPosition || template.submittedBy}
+            {template.submittedAt && ` on ${format(new Date(template.submittedAt), 'MMM d, yyyy h:mm a')}`}
+            {isOwnSubmission && canReview && ' · Another approver must review your submission'}
+          </Typography>
+        );
+      case TemplateApprovalStatus.APPROVED:
+        return (
+          template.reviewedBy && (
+            <Typography variant="body2" color="text.secondary">
+              Approved by {template.reviewedByPosition || template.reviewedBy}
+              {template.reviewedAt && ` on ${format(new Date(template.reviewedAt), 'MMM d, yyyy h:mm a')}`}
+            </Typography>
+          )
+        );
+      case TemplateApprovalStatus.REJECTED:
+        return (
+          <Alert severity="error" sx={{ mt: 1 }}>
+            Rejected by {template.reviewedByPosition || template.reviewedBy}
+            {template.reviewComment && <>: &ldquo;{template.reviewComment}&rdquo;</>}
+          </Alert>
+        );
+      default:
+        return null;
+    }
+  };
+
+  const canSubmitNow =
+    canSubmit &&
+    (status === TemplateApprovalStatus.DRAFT || status === TemplateApprovalStatus.REJECTED);
+  const canReviewNow =
+    canReview && status === TemplateApprovalStatus.PENDING_APPROVAL && !isOwnSubmission;
+
+  return (
+    <Paper elevation={2} sx={{ p: 3 }} data-testid="template-approval-panel">
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexWrap: 'wrap' }}>
+        <FontAwesomeIcon icon={faStamp} />
+        <Typography variant="h6">Approval</Typography>
+        <TemplateApprovalStatusChip status={status} />
+        <Box sx={{ flexGrow: 1 }} />
+        {canSubmitNow && (
+          <CobraPrimaryButton
+            size="small"
+            startIcon={<FontAwesomeIcon icon={faPaperPlane} />}
+            onClick={() => setDialogMode('submit')}
+          >
+            Submit for Approval
+          </CobraPrimaryButton>
+        )}
+        {canReviewNow && (
+          <>
+            <CobraSecondaryButton
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faXmark} />}
+              onClick={() => setDialogMode('reject')}
+            >
+              Reject
+            </CobraSecondaryButton>
+            <CobraPrimaryButton
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faCheck} />}
+              onClick={() => setDialogMode('approve')}
+            >
+              Approve
+            </CobraPrimaryButton>
+          </>
+        )}
+        <CobraLinkButton
+          size="small"
+          onClick={() => setExpanded(!expanded)}
+          endIcon={<FontAwesomeIcon icon={expanded ? faChevronUp : faChevronDown} />}
+        >
+          {expanded ? 'Hide History' : 'Show History'}
+        </CobraLinkButton>
+      </Box>
+
+      <Box sx={{ mt: 1 }}>{renderStatusDetail()}</Box>
+
+      <Collapse in={expanded}>
+        <Box sx={{ mt: 2 }}>
+          {loading && history.length === 0 && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {!loading && !error && history.length === 0 && (
+            <Typography variant="body2" color="text.secondary">
+              No approval activity yet.
+            </Typography>
+          )}
+
+          {history.length > 0 && (
+            <List sx={{ p: 0 }} data-testid="template-approval-history">
+              {history.map((entry, index) => (
+                <React.Fragment key={entry.id}>
+                  {index > 0 && <Divider />}
+                  <ListItem sx={{ px: 0, gap: 1, alignItems: 'flex-start' }}>
+                    <Chip
+                      label={ACTION_LABELS[entry.action] ?? entry.action}
+                      size="small"
+                      color={ACTION_COLORS[entry.action] ?? 'default'}
+                      sx={{ minWidth: 96 }}
+                    />
+                    <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                      <Typography variant="body2">
+                        {entry.performedByPosition || 'Unknown position'}
+                        <Typography component="span" variant="body2" color="text.secondary">
+                          {' '}
+                          &middot; {entry.performedBy}
+                        </Typography>
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {format(new Date(entry.performedAt), 'MMM d, yyyy h:mm a')} &middot; v
+                        {entry.templateVersion}
+                      </Typography>
+                      {entry.comment && (
+                        <Typography
+                          variant="body2"
+                          color="text.secondary"
+                          sx={{ fontStyle: 'italic', mt: 0.5, wordBreak: 'break-word' }}
+                        >
+                          &ldquo;{entry.comment}&rdquo;
+                        </Typography>
+                      )}
+                    </Box>
+                  </ListItem>
+                </React.Fragment>
+              ))}
+            </List>
+          )}
+        </Box>
+      </Collapse>
+
+      {dialogMode && (
+        <TemplateApprovalDialog
+          open={!!dialogMode}
+          mode={dialogMode}
+          templateName={template.name}
+          onConfirm={handleConfirm}
+          onCancel={() => setDialogMode(null)}
+          saving={saving}
+        />
+      )}
+    </Paper>
+  );
+};
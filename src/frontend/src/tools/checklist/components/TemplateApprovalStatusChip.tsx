@@ -0,0 +1,64 @@
+/**
+ * TemplateApprovalStatusChip Component
+ *
+ * Small chip showing a template's approval status
+ * (Draft, Pending Approval, Approved, Rejected).
+ */
+
+import React from 'react';
+import { Chip, type ChipProps } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faCircleCheck,
+  faCircleXmark,
+  faHourglassHalf,
+  faPenToSquare,
+  type IconDefinition,
+} from '@fortawesome/free-solid-svg-icons';
+import { TemplateApprovalStatus } from '../../../types';
+
+/**
+ * Display configuration per status
+ */
+const STATUS_CONFIG: Record<
+  TemplateApprovalStatus,
+  { label: string; color: ChipProps['color']; icon: IconDefinition }
+> = {
+  [TemplateApprovalStatus.DRAFT]: { label: 'Draft', color: 'default', icon: faPenToSquare },
+  [TemplateApprovalStatus.PENDING_APPROVAL]: {
+    label: 'Pending Approval',
+    color: 'warning',
+    icon: faHourglassHalf,
+  },
+  [TemplateApprovalStatus.APPROVED]: { label: 'Approved', color: 'success', icon: faCircleCheck },
+  [TemplateApprovalStatus.REJECTED]: { label: 'Rejected', color: 'error', icon: faCircleXmark },
+};
+
+/**
+ * Props for TemplateApprovalStatusChip
+ */
+interface TemplateApprovalStatusChipProps {
+  status: TemplateApprovalStatus;
+  size?: ChipProps['size'];
+}
+
+/**
+ * TemplateApprovalStatusChip Component
+ */
+export const TemplateApprovalStatusChip: React.FC<TemplateApprovalStatusChipProps> = ({
+  status,
+  size = 'small',
+}) => {
+  const config = STATUS_CONFIG[status] ?? STATUS_CONFIG[TemplateApprovalStatus.DRAFT];
+
+  return (
+    <Chip
+      icon={<FontAwesomeIcon icon={config.icon} />}
+      label={config.label}
+      color={config.color}
+      size={size}
+      variant={status === TemplateApprovalStatus.APPROVED ? 'outlined' : 'filled'}
+      data-testid="template-approval-status"
+    />
+  );
+};
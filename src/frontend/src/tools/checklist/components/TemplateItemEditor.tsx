@@ -3,9 +3,10 @@
  *
  * Edits a single template item with all its configuration.
  * Features:
- * - Item text, type (checkbox/status), required flag
+ * - Item text, type (checkbox/status/number/text/date-time/yes-no), required flag
  * - Status configuration builder (for status items)
- * - Advanced options: position restrictions, default notes
+ * - Unit and min/max range (for number items)
+ * - Advanced options: position restrictions, default notes, due time, prerequisites
  * - Drag handle for reordering
  * - Delete button
  */
@@ -25,6 +26,10 @@ import {
   Collapse,
   Autocomplete,
   Chip,
+  InputLabel,
+  Select,
+  MenuItem,
+  InputAdornment,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
@@ -35,13 +40,32 @@ import {
   faArrowUp,
   faArrowDown,
   faSave,
+  faClock,
+  faLock,
 } from '@fortawesome/free-solid-svg-icons';
 import { useSortable } from '@dnd-kit/sortable';
 import { CSS } from '@dnd-kit/utilities';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import { CobraTextField, CobraSecondaryButton } from '../../../theme/styledComponents';
 import { StatusConfigurationBuilder } from './StatusConfigurationBuilder';
-import { ItemType, DEFAULT_STATUS_OPTIONS, ICS_POSITIONS, type StatusOption } from '../../../types';
+import {
+  ItemType,
+  ItemDueAnchor,
+  DEFAULT_STATUS_OPTIONS,
+  ICS_POSITIONS,
+  type ItemValueConfiguration,
+  type StatusOption,
+} from '../../../types';
+import {
+  describeDueOffset,
+  formatDuration,
+  splitDueOffset,
+  toDueOffsetMinutes,
+  validateDueOffset,
+  type DueOffsetUnit,
+} from '../utils/itemDue';
+import { validatePrerequisites } from '../utils/itemPrerequisites';
+import { describeValueConfiguration, getItemTypeLabel, validateValueConfiguration } from '../utils/itemValue';
 
 export interface TemplateItemFormData {
   id: string; // Temporary ID for new items (guid for existing)
@@ -50,14 +74,23 @@ export interface TemplateItemFormData {
   displayOrder: number;
   isRequired: boolean;
   statusConfiguration: StatusOption[];
+  valueConfiguration: ItemValueConfiguration; // Unit and range (number items)
   allowedPositions: string[];
   defaultNotes: string;
+  dueOffsetMinutes: number | null; // null = no due time
+  dueRelativeTo: ItemDueAnchor;
+  prerequisiteIds: string[]; // IDs of items (in this form) that must be completed first
+  sectionId: string | null; // Editor ID of the item's section (null = no section)
 }
 
 interface TemplateItemEditorProps {
   item: TemplateItemFormData;
   index: number;
-  totalItems: number;
+  /** Items move up/down within their section */
+  canMoveUp: boolean;
+  canMoveDown: boolean;
+  /** All items of the template, for picking prerequisites */
+  allItems: TemplateItemFormData[];
   onUpdate: (id: string, updates: Partial<TemplateItemFormData>) => void;
   onRemove: (id: string) => void;
   onMoveUp: (id: string) => void;
@@ -73,7 +106,9 @@ interface TemplateItemEditorProps {
 export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
   item,
   index,
-  totalItems,
+  canMoveUp,
+  canMoveDown,
+  allItems,
   onUpdate,
   onRemove,
   onMoveUp,
@@ -83,6 +118,9 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
   onSaveToLibrary,
 }) => {
   const [showAdvanced, setShowAdvanced] = useState(false);
+  const [dueUnit, setDueUnit] = useState<DueOffsetUnit>(
+    item.dueOffsetMinutes ? splitDueOffset(item.dueOffsetMinutes).unit : 'minutes'
+  );
 
   const {
     attributes,
@@ -110,13 +148,53 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
     }
 
     // If switching away from status, clear status config
-    if (newType === ItemType.CHECKBOX) {
+    if (newType !== ItemType.STATUS) {
       updates.statusConfiguration = [];
     }
 
+    // Unit and range only apply to number items
+    if (newType !== ItemType.NUMBER) {
+      updates.valueConfiguration = {};
+    }
+
     onUpdate(item.id, updates);
   };
 
+  const valueConfigurationError = validateValueConfiguration(item.valueConfiguration);
+
+  const handleRangeChange = (bound: 'min' | 'max', value: string) => {
+    onUpdate(item.id, {
+      valueConfiguration: { ...item.valueConfiguration, [bound]: value === '' ? undefined : Number(value) },
+    });
+  };
+
+  const dueValue = item.dueOffsetMinutes
+    ? item.dueOffsetMinutes / toDueOffsetMinutes(1, dueUnit)
+    : '';
+  const dueOffsetError = validateDueOffset(item.dueOffsetMinutes);
+
+  const prerequisiteOptions = allItems.filter((other) => other.id !== item.id);
+  const prerequisites = prerequisiteOptions.filter((other) => item.prerequisiteIds.includes(other.id));
+  const prerequisiteError = validatePrerequisites(item, allItems);
+  const describeItem = (other: TemplateItemFormData) =>
+    `#${allItems.indexOf(other) + 1} ${other.itemText || '(No text)'}`;
+
+  const handleDueEnabledChange = (enabled: boolean) => {
+    setDueUnit('minutes');
+    onUpdate(item.id, { dueOffsetMinutes: enabled ? 30 : null });
+  };
+
+  const handleDueValueChange = (value: string) => {
+    onUpdate(item.id, { dueOffsetMinutes: toDueOffsetMinutes(Number(value), dueUnit) });
+  };
+
+  const handleDueUnitChange = (unit: DueOffsetUnit) => {
+    setDueUnit(unit);
+    if (item.dueOffsetMinutes) {
+      onUpdate(item.id, { dueOffsetMinutes: toDueOffsetMinutes(Number(dueValue), unit) });
+    }
+  };
+
   return (
     <Paper
       ref={setNodeRef}
@@ -187,7 +265,11 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
               {item.itemText || '(No text)'}
               {' • '}
               <Chip
-                label={item.itemType === ItemType.CHECKBOX ? 'Checkbox' : 'Status'}
+                label={
+                  item.itemType === ItemType.NUMBER && describeValueConfiguration(item.valueConfiguration)
+                    ? `Number (${describeValueConfiguration(item.valueConfiguration)})`
+                    : getItemTypeLabel(item.itemType)
+                }
                 size="small"
                 sx={{ height: '20px', fontSize: '0.7rem' }}
               />
@@ -199,6 +281,22 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
                   sx={{ height: '20px', fontSize: '0.7rem', ml: 0.5 }}
                 />
               )}
+              {!!item.dueOffsetMinutes && (
+                <Chip
+                  label={`Due ${formatDuration(item.dueOffsetMinutes)}`}
+                  size="small"
+                  icon={<FontAwesomeIcon icon={faClock} style={{ fontSize: 10 }} />}
+                  sx={{ height: '20px', fontSize: '0.7rem', ml: 0.5 }}
+                />
+              )}
+              {prerequisites.length > 0 && (
+                <Chip
+                  label={`After ${prerequisites.map((other) => `#${allItems.indexOf(other) + 1}`).join(', ')}`}
+                  size="small"
+                  icon={<FontAwesomeIcon icon={faLock} style={{ fontSize: 10 }} />}
+                  sx={{ height: '20px', fontSize: '0.7rem', ml: 0.5 }}
+                />
+              )}
             </Typography>
           )}
         </Box>
@@ -208,7 +306,7 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
           <IconButton
             size="small"
             onClick={() => onMoveUp(item.id)}
-            disabled={index === 0}
+            disabled={!canMoveUp}
             title="Move up"
           >
             <FontAwesomeIcon icon={faArrowUp} size="sm" />
@@ -216,7 +314,7 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
           <IconButton
             size="small"
             onClick={() => onMoveDown(item.id)}
-            disabled={index === totalItems - 1}
+            disabled={!canMoveDown}
             title="Move down"
           >
             <FontAwesomeIcon icon={faArrowDown} size="sm" />
@@ -281,6 +379,26 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
             control={<Radio />}
             label="Status (Multiple status options)"
           />
+          <FormControlLabel
+            value={ItemType.NUMBER}
+            control={<Radio />}
+            label="Number (Reading with unit)"
+          />
+          <FormControlLabel
+            value={ItemType.TEXT}
+            control={<Radio />}
+            label="Text (Short answer)"
+          />
+          <FormControlLabel
+            value={ItemType.DATETIME}
+            control={<Radio />}
+            label="Date/Time"
+          />
+          <FormControlLabel
+            value={ItemType.YESNO}
+            control={<Radio />}
+            label="Yes/No/N-A"
+          />
         </RadioGroup>
       </FormControl>
 
@@ -311,6 +429,54 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
         </Box>
       )}
 
+      {/* Unit and Range (only for number type) */}
+      {item.itemType === ItemType.NUMBER && (
+        <Box sx={{ mb: 2, p: 2, backgroundColor: '#F5F5F5', borderRadius: 1 }}>
+          <Typography variant="subtitle2" sx={{ mb: 1 }}>
+            Unit and Range (Optional)
+          </Typography>
+          <Box sx={{ display: 'flex', gap: 2, flexWrap: 'wrap' }}>
+            <CobraTextField
+              label="Unit"
+              placeholder="e.g., gal, psi, %"
+              value={item.valueConfiguration.unit ?? ''}
+              onChange={(e) =>
+                onUpdate(item.id, { valueConfiguration: { ...item.valueConfiguration, unit: e.target.value } })
+              }
+              inputProps={{ maxLength: 20 }}
+              sx={{ width: 160 }}
+            />
+            <CobraTextField
+              label="Minimum"
+              type="number"
+              value={item.valueConfiguration.min ?? ''}
+              onChange={(e) => handleRangeChange('min', e.target.value)}
+              error={!!valueConfigurationError}
+              InputProps={
+                item.valueConfiguration.unit
+                  ? { endAdornment: <InputAdornment position="end">{item.valueConfiguration.unit}</InputAdornment> }
+                  : undefined
+              }
+              sx={{ width: 160 }}
+            />
+            <CobraTextField
+              label="Maximum"
+              type="number"
+              value={item.valueConfiguration.max ?? ''}
+              onChange={(e) => handleRangeChange('max', e.target.value)}
+              error={!!valueConfigurationError}
+              helperText={valueConfigurationError ?? 'Readings outside the range are rejected'}
+              InputProps={
+                item.valueConfiguration.unit
+                  ? { endAdornment: <InputAdornment position="end">{item.valueConfiguration.unit}</InputAdornment> }
+                  : undefined
+              }
+              sx={{ width: 200 }}
+            />
+          </Box>
+        </Box>
+      )}
+
       {/* Advanced Options Toggle */}
       <CobraSecondaryButton
         size="small"
@@ -363,6 +529,93 @@ export const TemplateItemEditor: React.FC<TemplateItemEditorProps> = ({
             onChange={(e) => onUpdate(item.id, { defaultNotes: e.target.value })}
             helperText="These notes will appear on checklist items by default"
           />
+
+          {/* Due Time */}
+          <Box sx={{ mt: 2 }}>
+            <FormControlLabel
+              control={
+                <Checkbox
+                  checked={item.dueOffsetMinutes !== null}
+                  onChange={(e) => handleDueEnabledChange(e.target.checked)}
+                />
+              }
+              label="This item must be done within a set time"
+            />
+            {item.dueOffsetMinutes !== null && (
+              <Box sx={{ display: 'flex', gap: 2, alignItems: 'flex-start', mt: 1 }}>
+                <CobraTextField
+                  type="number"
+                  label="Due Within"
+                  size="small"
+                  value={dueValue}
+                  onChange={(e) => handleDueValueChange(e.target.value)}
+                  error={!!dueOffsetError}
+                  helperText={dueOffsetError ?? describeDueOffset(item.dueOffsetMinutes, item.dueRelativeTo)}
+                  inputProps={{ min: 1 }}
+                  sx={{ width: 200 }}
+                />
+                <FormControl size="small" sx={{ minWidth: 120 }}>
+                  <InputLabel id={`due-unit-${item.id}-label`}>Unit</InputLabel>
+                  <Select
+                    labelId={`due-unit-${item.id}-label`}
+                    value={dueUnit}
+                    label="Unit"
+                    onChange={(e) => handleDueUnitChange(e.target.value as DueOffsetUnit)}
+                  >
+                    <MenuItem value="minutes">Minutes</MenuItem>
+                    <MenuItem value="hours">Hours</MenuItem>
+                    <MenuItem value="days">Days</MenuItem>
+                  </Select>
+                </FormControl>
+                <FormControl size="small" sx={{ minWidth: 240 }}>
+                  <InputLabel id={`due-anchor-${item.id}-label`}>Counted From</InputLabel>
+                  <Select
+                    labelId={`due-anchor-${item.id}-label`}
+                    value={item.dueRelativeTo}
+                    label="Counted From"
+                    onChange={(e) =>
+                      onUpdate(item.id, { dueRelativeTo: e.target.value as ItemDueAnchor })
+                    }
+                  >
+                    <MenuItem value={ItemDueAnchor.CHECKLIST_CREATED}>Checklist creation</MenuItem>
+                    <MenuItem value={ItemDueAnchor.PERIOD_START}>Operational period start</MenuItem>
+                  </Select>
+                </FormControl>
+              </Box>
+            )}
+          </Box>
+
+          {/* Prerequisites */}
+          <Autocomplete
+            multiple
+            options={prerequisiteOptions}
+            value={prerequisites}
+            getOptionLabel={describeItem}
+            isOptionEqualToValue={(option, value) => option.id === value.id}
+            onChange={(_, newValue) => onUpdate(item.id, { prerequisiteIds: newValue.map((other) => other.id) })}
+            renderInput={(params) => (
+              <CobraTextField
+                {...params}
+                label="Must Be Completed After (Optional)"
+                placeholder="Select items..."
+                error={!!prerequisiteError}
+                helperText={
+                  prerequisiteError ??
+                  'This item stays locked on checklists until the selected items are complete'
+                }
+              />
+            )}
+            renderTags={(value, getTagProps) =>
+              value.map((option, index) => (
+                <Chip
+                  label={describeItem(option)}
+                  {...getTagProps({ index })}
+                  sx={{ backgroundColor: cobraTheme.palette.action.selected }}
+                />
+              ))
+            }
+            sx={{ mt: 2 }}
+          />
         </Box>
       </Collapse>
       </Collapse>
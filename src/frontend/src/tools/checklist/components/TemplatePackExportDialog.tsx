@@ -0,0 +1,156 @@
+/**
+ * TemplatePackExportDialog Component
+ *
+ * Selects templates to download as a JSON template pack.
+ * The pack includes each template's items and the item library entries
+ * they came from, so it can be imported into another deployment.
+ */
+
+import React, { useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Checkbox,
+  DialogActions,
+  FormControlLabel,
+  List,
+  ListItem,
+  ListItemButton,
+  ListItemIcon,
+  ListItemText,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFileExport, faSpinner } from '@fortawesome/free-solid-svg-icons';
+import { toast } from 'react-toastify';
+import { CobraDialog, CobraLinkButton, CobraPrimaryButton } from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { getCurrentUser } from '../../../core/services/api';
+import { templatePackService } from '../services/templatePackService';
+import type { Template } from '../types';
+
+/**
+ * Props for TemplatePackExportDialog
+ */
+interface TemplatePackExportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Templates that can be exported */
+  templates: Template[];
+}
+
+/**
+ * TemplatePackExportDialog Component
+ */
+export const TemplatePackExportDialog: React.FC<TemplatePackExportDialogProps> = ({
+  open,
+  onClose,
+  templates,
+}) => {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset selection when the dialog opens
+  useEffect(() => {
+    if (open) {
+      setSelectedIds(new Set());
+      setError(null);
+    }
+  }, [open]);
+
+  const allSelected = templates.length > 0 && selectedIds.size === templates.length;
+
+  const handleToggle = (templateId: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(templateId)) {
+        next.delete(templateId);
+      } else {
+        next.add(templateId);
+      }
+      return next;
+    });
+  };
+
+  const handleToggleAll = () => {
+    setSelectedIds(allSelected ? new Set() : new Set(templates.map((t) => t.id)));
+  };
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+      setError(null);
+      const ids = templates.filter((t) => selectedIds.has(t.id)).map((t) => t.id);
+      const pack = await templatePackService.buildPack(ids, getCurrentUser().email);
+      templatePackService.downloadPack(pack);
+      toast.success(
+        `Exported ${pack.templates.length} template${pack.templates.length === 1 ? '' : 's'} and ${
+          pack.libraryItems.length
+        } library item${pack.libraryItems.length === 1 ? '' : 's'}`
+      );
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export templates');
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  return (
+    <CobraDialog open={open} onClose={onClose} title="Export Template Pack" contentWidth="600px">
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Typography variant="body2" color="text.secondary">
+          Download the selected templates as a JSON template pack. Items, status options, positions
+          and event categories are included, along with matching item library entries.
+        </Typography>
+
+        <Box>
+          <FormControlLabel
+            control={
+              <Checkbox
+                checked={allSelected}
+                indeterminate={selectedIds.size > 0 && !allSelected}
+                onChange={handleToggleAll}
+              />
+            }
+            label={`Select all (${selectedIds.size} of ${templates.length} selected)`}
+          />
+          <List dense sx={{ maxHeight: 360, overflow: 'auto', border: 1, borderColor: 'divider', borderRadius: 1 }}>
+            {templates.map((template) => (
+              <ListItem key={template.id} disablePadding>
+                <ListItemButton onClick={() => handleToggle(template.id)}>
+                  <ListItemIcon sx={{ minWidth: 40 }}>
+                    <Checkbox edge="start" checked={selectedIds.has(template.id)} tabIndex={-1} disableRipple />
+                  </ListItemIcon>
+                  <ListItemText
+                    primary={template.name}
+                    secondary={`${template.category} • ${template.items?.length || 0} item${
+                      template.items?.length !== 1 ? 's' : ''
+                    }`}
+                  />
+                </ListItemButton>
+              </ListItem>
+            ))}
+          </List>
+        </Box>
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <DialogActions>
+          <CobraLinkButton onClick={onClose} disabled={exporting}>
+            Cancel
+          </CobraLinkButton>
+          <CobraPrimaryButton
+            onClick={handleExport}
+            disabled={exporting || selectedIds.size === 0}
+            startIcon={<FontAwesomeIcon icon={exporting ? faSpinner : faFileExport} spin={exporting} />}
+          >
+            Export
+          </CobraPrimaryButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
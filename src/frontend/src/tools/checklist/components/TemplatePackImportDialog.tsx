@@ -0,0 +1,383 @@
+/**
+ * TemplatePackImportDialog Component
+ *
+ * Wizard for importing a JSON template pack:
+ * 1. Choose a pack file (validated on load)
+ * 2. Review - preview templates, resolve name collisions (rename,
+ *    overwrite or skip) and see which library items already exist
+ * 3. Summary of what was imported
+ *
+ * Nothing is saved until the user confirms the review step.
+ */
+
+import React, { useEffect, useRef, useState } from 'react';
+import {
+  Alert,
+  Chip,
+  DialogActions,
+  MenuItem,
+  Select,
+  Stack,
+  Step,
+  StepLabel,
+  Stepper,
+  Table,
+  TableBody,
+  TableCell,
+  TableContainer,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faFileImport, faSpinner, faUpload } from '@fortawesome/free-solid-svg-icons';
+import { format } from 'date-fns';
+import { toast } from 'react-toastify';
+import {
+  CobraDialog,
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraSecondaryButton,
+  CobraTextField,
+} from '../../../theme/styledComponents';
+import CobraStyles from '../../../theme/CobraStyles';
+import { templateService } from '../services/templateService';
+import { itemLibraryService } from '../services/itemLibraryService';
+import {
+  templatePackService,
+  type TemplatePackImportResult,
+} from '../services/templatePackService';
+import {
+  defaultImportDecisions,
+  parseTemplatePack,
+  planTemplatePackImport,
+  validateImportDecisions,
+  type TemplateImportAction,
+  type TemplateImportDecision,
+  type TemplatePack,
+  type TemplatePackImportPlan,
+} from '../utils/templatePack';
+import type { Template } from '../types';
+
+type WizardStep = 'select' | 'review' | 'done';
+
+const STEPS: { key: WizardStep; label: string }[] = [
+  { key: 'select', label: 'Choose pack' },
+  { key: 'review', label: 'Review' },
+  { key: 'done', label: 'Done' },
+];
+
+const ACTION_LABELS: Record<TemplateImportAction, string> = {
+  import: 'Import',
+  rename: 'Import as new name',
+  overwrite: 'Overwrite existing',
+  skip: 'Skip',
+};
+
+/**
+ * Props for TemplatePackImportDialog
+ */
+interface TemplatePackImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+  /** Called after an import that created or changed templates */
+  onImported: () => void;
+}
+
+/**
+ * TemplatePackImportDialog Component
+ */
+export const TemplatePackImportDialog: React.FC<TemplatePackImportDialogProps> = ({
+  open,
+  onClose,
+  onImported,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [step, setStep] = useState<WizardStep>('select');
+  const [fileName, setFileName] = useState('');
+  const [pack, setPack] = useState<TemplatePack | null>(null);
+  const [plan, setPlan] = useState<TemplatePackImportPlan | null>(null);
+  const [existingTemplates, setExistingTemplates] = useState<Template[]>([]);
+  const [decisions, setDecisions] = useState<TemplateImportDecision[]>([]);
+  const [result, setResult] = useState<TemplatePackImportResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Start over each time the dialog opens
+  useEffect(() => {
+    if (open) {
+      setStep('select');
+      setFileName('');
+      setPack(null);
+      setPlan(null);
+      setDecisions([]);
+      setResult(null);
+      setError(null);
+    }
+  }, [open]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setLoading(true);
+      setError(null);
+      setFileName(file.name);
+      const parsed = parseTemplatePack(await file.text());
+      const [templates, libraryEntries] = await Promise.all([
+        templateService.getAllTemplates(true),
+        itemLibraryService.getLibraryItems(),
+      ]);
+      const importPlan = planTemplatePackImport(parsed, templates, libraryEntries);
+      setPack(parsed);
+      setExistingTemplates(templates);
+      setPlan(importPlan);
+      setDecisions(defaultImportDecisions(importPlan));
+      setStep('review');
+    } catch (err) {
+      setPack(null);
+      setError(err instanceof Error ? err.message : 'Failed to read template pack');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateDecision = (index: number, update: Partial<TemplateImportDecision>) => {
+    setDecisions((prev) => prev.map((d, i) => (i === index ? { ...d, ...update } : d)));
+  };
+
+  const handleActionChange = (index: number, action: TemplateImportAction) => {
+    if (!plan) return;
+    const entry = plan.templates[index];
+    const name =
+      action === 'rename'
+        ? decisions[index].action === 'rename'
+          ? decisions[index].name
+          : entry.suggestedName
+        : entry.existing?.name ?? entry.template.name;
+    updateDecision(index, { action, name });
+  };
+
+  const decisionErrors = plan ? validateImportDecisions(plan, decisions, existingTemplates) : [];
+  const hasErrors = decisionErrors.some(Boolean);
+  const importCount = decisions.filter((d) => d.action !== 'skip').length;
+
+  const handleImport = async () => {
+    if (!plan || hasErrors) return;
+    try {
+      setLoading(true);
+      setError(null);
+      const importResult = await templatePackService.importPack(plan, decisions);
+      setResult(importResult);
+      setStep('done');
+      if (importResult.created.length + importResult.overwritten.length > 0) {
+        toast.success('Template pack imported');
+        onImported();
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import template pack');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const newLibraryCount = plan?.libraryItems.filter((item) => !item.duplicateOfId).length ?? 0;
+
+  return (
+    <CobraDialog
+      open={open}
+      onClose={() => !loading && onClose()}
+      title="Import Template Pack"
+      contentWidth="900px"
+    >
+      <Stack spacing={CobraStyles.Spacing.FormFields}>
+        <Stepper activeStep={STEPS.findIndex((s) => s.key === step)}>
+          {STEPS.map((s) => (
+            <Step key={s.key}>
+              <StepLabel>{s.label}</StepLabel>
+            </Step>
+          ))}
+        </Stepper>
+
+        {step === 'select' && (
+          <Stack spacing={2} alignItems="flex-start">
+            <Typography variant="body2" color="text.secondary">
+              Choose a template pack (.json) exported from this or another COBRA deployment. You
+              can review the templates and resolve name conflicts before anything is saved.
+            </Typography>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="application/json,.json"
+              hidden
+              onChange={handleFileChange}
+              data-testid="template-pack-file-input"
+            />
+            <CobraSecondaryButton
+              startIcon={<FontAwesomeIcon icon={loading ? faSpinner : faUpload} spin={loading} />}
+              onClick={() => fileInputRef.current?.click()}
+              disabled={loading}
+            >
+              Choose File
+            </CobraSecondaryButton>
+            {fileName && (
+              <Typography variant="caption" color="text.secondary">
+                {fileName}
+              </Typography>
+            )}
+          </Stack>
+        )}
+
+        {step === 'review' && pack && plan && (
+          <>
+            <Typography variant="body2" color="text.secondary">
+              <strong>{fileName}</strong>
+              {pack.exportedBy && ` • exported by ${pack.exportedBy}`}
+              {pack.exportedAt && ` on ${format(new Date(pack.exportedAt), 'MMM d, yyyy HH:mm')}`}
+            </Typography>
+
+            <TableContainer sx={{ maxHeight: 400, border: 1, borderColor: 'divider', borderRadius: 1 }}>
+              <Table size="small" stickyHeader>
+                <TableHead>
+                  <TableRow>
+                    <TableCell>Template</TableCell>
+                    <TableCell>Items</TableCell>
+                    <TableCell>Status</TableCell>
+                    <TableCell sx={{ width: 320 }}>Action</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {plan.templates.map((entry, index) => {
+                    const decision = decisions[index];
+                    const actions: TemplateImportAction[] = entry.existing
+                      ? ['rename', 'overwrite', 'skip']
+                      : ['import', 'skip'];
+                    return (
+                      <TableRow key={index}>
+                        <TableCell>
+                          <Typography variant="body2" sx={{ fontWeight: 600 }}>
+                            {entry.template.name}
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {entry.template.category}
+                          </Typography>
+                        </TableCell>
+                        <TableCell>{entry.template.items.length}</TableCell>
+                        <TableCell>
+                          {entry.existing ? (
+                            <Chip label="Name exists" color="warning" size="small" />
+                          ) : (
+                            <Chip label="New" color="success" size="small" variant="outlined" />
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          <Stack spacing={1}>
+                            <Select
+                              size="small"
+                              value={decision.action}
+                              onChange={(e) => handleActionChange(index, e.target.value as TemplateImportAction)}
+                              fullWidth
+                            >
+                              {actions.map((action) => (
+                                <MenuItem key={action} value={action}>
+                                  {ACTION_LABELS[action]}
+                                </MenuItem>
+                              ))}
+                            </Select>
+                            {(decision.action === 'rename' || (decision.action === 'import' && decisionErrors[index])) && (
+                              <CobraTextField
+                                size="small"
+                                label="Name"
+                                value={decision.name}
+                                onChange={(e) => updateDecision(index, { name: e.target.value })}
+                                error={Boolean(decisionErrors[index])}
+                                helperText={decisionErrors[index] ?? undefined}
+                                fullWidth
+                              />
+                            )}
+                          </Stack>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </TableContainer>
+
+            <Typography variant="body2">
+              Item library: {newLibraryCount} new entr{newLibraryCount === 1 ? 'y' : 'ies'} will be
+              added
+              {plan.libraryItems.length - newLibraryCount > 0 &&
+                `, ${plan.libraryItems.length - newLibraryCount} already in the library will be reused`}
+              .
+            </Typography>
+
+            <Alert severity="info">
+              Imported and overwritten templates are saved as Draft and must be approved before they
+              can be used to create checklists.
+            </Alert>
+          </>
+        )}
+
+        {step === 'done' && result && (
+          <Stack spacing={1}>
+            {result.created.length > 0 && (
+              <Alert severity="success">
+                Imported {result.created.length} template{result.created.length === 1 ? '' : 's'}:{' '}
+                {result.created.join(', ')}
+              </Alert>
+            )}
+            {result.overwritten.length > 0 && (
+              <Alert severity="success">
+                Overwrote {result.overwritten.length} template{result.overwritten.length === 1 ? '' : 's'}:{' '}
+                {result.overwritten.join(', ')}
+              </Alert>
+            )}
+            {result.skipped.length > 0 && (
+              <Alert severity="info">Skipped: {result.skipped.join(', ')}</Alert>
+            )}
+            {result.failed.map((failure) => (
+              <Alert severity="error" key={failure.name}>
+                {failure.name}: {failure.error}
+              </Alert>
+            ))}
+            <Typography variant="body2" color="text.secondary">
+              Item library: {result.libraryCreated} added, {result.libraryReused} reused
+              {result.libraryFailed > 0 && `, ${result.libraryFailed} failed`}.
+            </Typography>
+          </Stack>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        <DialogActions>
+          {step === 'done' ? (
+            <CobraPrimaryButton onClick={onClose}>Close</CobraPrimaryButton>
+          ) : (
+            <>
+              <CobraLinkButton onClick={onClose} disabled={loading}>
+                Cancel
+              </CobraLinkButton>
+              {step === 'review' && (
+                <>
+                  <CobraSecondaryButton onClick={() => setStep('select')} disabled={loading}>
+                    Back
+                  </CobraSecondaryButton>
+                  <CobraPrimaryButton
+                    onClick={handleImport}
+                    disabled={loading || hasErrors || importCount === 0}
+                    startIcon={<FontAwesomeIcon icon={loading ? faSpinner : faFileImport} spin={loading} />}
+                  >
+                    Import {importCount} Template{importCount === 1 ? '' : 's'}
+                  </CobraPrimaryButton>
+                </>
+              )}
+            </>
+          )}
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -1,23 +1,29 @@
 /**
  * TemplatePickerDialog Component
  *
- * Phase 2: Smart template suggestions
- * - Position-based recommendations
- * - Event category matching (future)
- * - Recently used templates
- * - Usage statistics and popularity
+ * Phase 2: Smart template suggestions (see utils/templateRecommendations)
+ * - Ranked by the user's positions, the current event's categories, use by
+ *   other positions in this event, recency and popularity
+ * - Each suggestion shows why it is suggested
  * - Template type indicators (MANUAL, AUTO_CREATE, RECURRING)
+ * - Only Approved templates are offered (see template approval workflow)
  *
  * Phase 3: Mobile optimization
  * - Bottom sheet on mobile devices
  * - Standard dialog on desktop
  * - Touch-optimized UI elements
  * - Responsive layouts
+ *
+ * Combined checklists (when onCreateCombinedChecklist is provided)
+ * - Multi-select templates, then a merge preview step
+ * - Order the template blocks and dedupe items found in several templates
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   DialogActions,
+  FormControlLabel,
+  Switch,
   List,
   ListItemButton,
   ListItemText,
@@ -32,10 +38,19 @@ import {
   Stack,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faCheck, faChevronDown, faChevronUp, faStar, faClock } from '@fortawesome/free-solid-svg-icons';
+import { faCheck, faChevronDown, faChevronUp, faStar, faClock, faUsers } from '@fortawesome/free-solid-svg-icons';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import { TemplateType, type Template } from '../../../types';
+import { useTemplateRecommendations } from '../hooks/useTemplateRecommendations';
+import { getSuggestions, type RecommendationReason } from '../utils/templateRecommendations';
+import {
+  buildMergePreview,
+  getCombinedChecklistName,
+  getDuplicateItemIds,
+  moveBlock,
+} from '../utils/combinedChecklist';
 import { BottomSheet } from './BottomSheet';
+import { CombinedChecklistPreview } from './CombinedChecklistPreview';
 import {
   CobraDialog,
   CobraTextField,
@@ -49,8 +64,18 @@ interface TemplatePickerDialogProps {
   open: boolean;
   onClose: () => void;
   onCreateChecklist: (templateId: string, checklistName: string) => Promise<void>;
+  /** Create one checklist from several templates (enables multi-select when provided) */
+  onCreateCombinedChecklist?: (
+    templateIds: string[],
+    checklistName: string,
+    excludedTemplateItemIds: string[]
+  ) => Promise<void>;
+  /** Template to select when the dialog opens (e.g. a landing page suggestion) */
+  initialTemplateId?: string;
 }
 
+const MAX_SUGGESTIONS = 10;
+
 /**
  * TemplatePickerDialog Component with Smart Suggestions and Responsive Design
  */
@@ -58,32 +83,56 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
   open,
   onClose,
   onCreateChecklist,
+  onCreateCombinedChecklist,
+  initialTemplateId,
 }) => {
   const theme = useTheme();
   const isMobile = useMediaQuery(theme.breakpoints.down('sm')); // <600px
 
-  const [suggestedTemplates, setSuggestedTemplates] = useState<Template[]>([]);
-  const [allTemplates, setAllTemplates] = useState<Template[]>([]);
-  const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const {
+    templates: allTemplates,
+    ranked,
+    loading,
+    error,
+    reload: fetchTemplates,
+  } = useTemplateRecommendations(open);
   const [selectedTemplate, setSelectedTemplate] = useState<Template | null>(null);
   const [checklistName, setChecklistName] = useState('');
   const [creating, setCreating] = useState(false);
   const [showAllTemplates, setShowAllTemplates] = useState(false);
+  const [combineMode, setCombineMode] = useState(false);
+  const [selectedTemplates, setSelectedTemplates] = useState<Template[]>([]); // Block order
+  const [showMergePreview, setShowMergePreview] = useState(false);
+  const [excludedItemIds, setExcludedItemIds] = useState<Set<string>>(new Set());
 
-  // Fetch templates when dialog opens
+  // Reset state when dialog closes
   useEffect(() => {
-    if (open) {
-      fetchTemplates();
-    } else {
-      // Reset state when dialog closes
+    if (!open) {
       setSelectedTemplate(null);
       setChecklistName('');
-      setError(null);
       setShowAllTemplates(false);
+      setCombineMode(false);
+      setSelectedTemplates([]);
+      setShowMergePreview(false);
+      setExcludedItemIds(new Set());
     }
   }, [open]);
 
+  const suggestions = useMemo(() => getSuggestions(ranked, MAX_SUGGESTIONS), [ranked]);
+  const recommendationsById = useMemo(() => new Map(ranked.map(r => [r.template.id, r])), [ranked]);
+
+  // Once loaded: select the requested template, and show all templates when nothing is suggested
+  useEffect(() => {
+    if (!open || loading || allTemplates.length === 0) return;
+    if (suggestions.length === 0) {
+      setShowAllTemplates(true);
+    }
+    const initial = initialTemplateId && allTemplates.find(t => t.id === initialTemplateId);
+    if (initial && !selectedTemplate) {
+      setSelectedTemplate(initial);
+    }
+  }, [open, loading, allTemplates, suggestions.length, initialTemplateId]);
+
   // Auto-populate checklist name when template is selected
   useEffect(() => {
     if (selectedTemplate && !checklistName) {
@@ -91,63 +140,67 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
     }
   }, [selectedTemplate]);
 
-  const fetchTemplates = async () => {
-    try {
-      setLoading(true);
-      setError(null);
-
-      // Get user position from localStorage (ProfileMenu)
-      const storedProfile = localStorage.getItem('mockUserProfile');
-      const profile = storedProfile ? JSON.parse(storedProfile) : null;
-      const position = profile?.positions?.[0] || 'Unknown';
-
-      // Fetch smart suggestions based on position
-      const suggestionsResponse = await fetch(
-        `${import.meta.env.VITE_API_URL}/api/templates/suggestions?position=${encodeURIComponent(position)}&limit=10`
-      );
-
-      if (suggestionsResponse.ok) {
-        const suggestions: Template[] = await suggestionsResponse.json();
-        setSuggestedTemplates(suggestions.filter(t => t.templateType === TemplateType.MANUAL));
-      } else {
-        console.warn('Failed to fetch suggestions, falling back to all templates');
-      }
+  const mergePreview = useMemo(
+    () => buildMergePreview(selectedTemplates, excludedItemIds),
+    [selectedTemplates, excludedItemIds]
+  );
 
-      // Fetch all templates as fallback
-      const allResponse = await fetch(
-        `${import.meta.env.VITE_API_URL}/api/templates?includeArchived=false`
-      );
+  const handleToggleCombineMode = (enabled: boolean) => {
+    setCombineMode(enabled);
+    setSelectedTemplate(null);
+    setSelectedTemplates(enabled && selectedTemplate ? [selectedTemplate] : []);
+    setShowMergePreview(false);
+    setChecklistName('');
+  };
 
-      if (!allResponse.ok) {
-        throw new Error('Failed to load templates');
-      }
+  const handleTemplateClick = (template: Template) => {
+    if (!combineMode) {
+      setSelectedTemplate(template);
+      return;
+    }
+    setSelectedTemplates(prev =>
+      prev.some(t => t.id === template.id) ? prev.filter(t => t.id !== template.id) : [...prev, template]
+    );
+  };
 
-      const allData: Template[] = await allResponse.json();
-      const manualTemplates = allData.filter(
-        t => t.isActive && !t.isArchived && t.templateType === TemplateType.MANUAL
-      );
-      setAllTemplates(manualTemplates);
+  const handleReviewMerge = () => {
+    setExcludedItemIds(new Set(getDuplicateItemIds(selectedTemplates)));
+    setChecklistName(getCombinedChecklistName(selectedTemplates));
+    setShowMergePreview(true);
+  };
 
-      // If suggestions failed or empty, show all templates expanded
-      if (suggestedTemplates.length === 0) {
-        setShowAllTemplates(true);
+  const handleToggleItem = (itemId: string) => {
+    setExcludedItemIds(prev => {
+      const next = new Set(prev);
+      if (next.has(itemId)) {
+        next.delete(itemId);
+      } else {
+        next.add(itemId);
       }
-    } catch (err) {
-      const message = err instanceof Error ? err.message : 'Failed to load templates';
-      setError(message);
-    } finally {
-      setLoading(false);
-    }
+      return next;
+    });
   };
 
+  const canCreate = combineMode
+    ? showMergePreview && mergePreview.totalItems > 0 && !!checklistName.trim()
+    : !!selectedTemplate && !!checklistName.trim();
+
   const handleCreate = async () => {
-    if (!selectedTemplate || !checklistName.trim()) {
+    if (!canCreate) {
       return;
     }
 
     try {
       setCreating(true);
-      await onCreateChecklist(selectedTemplate.id, checklistName.trim());
+      if (combineMode && onCreateCombinedChecklist) {
+        await onCreateCombinedChecklist(
+          selectedTemplates.map(t => t.id),
+          checklistName.trim(),
+          [...excludedItemIds]
+        );
+      } else if (selectedTemplate) {
+        await onCreateChecklist(selectedTemplate.id, checklistName.trim());
+      }
       onClose();
     } catch (err) {
       // Error handling is done in parent component
@@ -164,71 +217,75 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
   };
 
   /**
-   * Check if template matches user's position
+   * Chip explaining why a template is suggested
    */
-  const matchesPosition = (template: Template): boolean => {
-    if (!template.recommendedPositions) return false;
-
-    try {
-      const storedProfile = localStorage.getItem('mockUserProfile');
-      const profile = storedProfile ? JSON.parse(storedProfile) : null;
-      const userPosition = profile?.positions?.[0] || '';
-
-      const positions: string[] = JSON.parse(template.recommendedPositions);
-      return positions.some(p => p.toLowerCase() === userPosition.toLowerCase());
-    } catch {
-      return false;
+  const renderReasonChip = (reason: RecommendationReason) => {
+    const chipSx = { height: 20, fontSize: '0.7rem' };
+    const iconStyle = { fontSize: '0.6rem', marginLeft: 4 };
+
+    switch (reason.kind) {
+      case 'position':
+        return (
+          <Chip
+            key={reason.kind}
+            label={reason.label}
+            size="small"
+            sx={{ ...chipSx, backgroundColor: cobraTheme.palette.success.main, color: 'white', fontWeight: 'bold' }}
+          />
+        );
+      case 'eventCategory':
+        return (
+          <Chip
+            key={reason.kind}
+            label={reason.label}
+            size="small"
+            sx={{ ...chipSx, backgroundColor: cobraTheme.palette.buttonPrimary.main, color: 'white', fontWeight: 'bold' }}
+          />
+        );
+      case 'usedInEvent':
+        return (
+          <Chip
+            key={reason.kind}
+            icon={<FontAwesomeIcon icon={faUsers} style={iconStyle} />}
+            label={reason.label}
+            size="small"
+            sx={chipSx}
+          />
+        );
+      default:
+        return (
+          <Chip
+            key={reason.kind}
+            icon={<FontAwesomeIcon icon={reason.kind === 'recent' ? faClock : faStar} style={iconStyle} />}
+            label={reason.label}
+            size="small"
+            sx={chipSx}
+          />
+        );
     }
   };
 
-  /**
-   * Check if template was recently used (within 30 days)
-   */
-  const isRecentlyUsed = (template: Template): boolean => {
-    if (!template.lastUsedAt) return false;
-
-    const lastUsed = new Date(template.lastUsedAt);
-    const daysAgo = (Date.now() - lastUsed.getTime()) / (1000 * 60 * 60 * 24);
-    return daysAgo <= 30;
-  };
-
-  /**
-   * Format relative time for last used
-   */
-  const formatLastUsed = (template: Template): string => {
-    if (!template.lastUsedAt) return '';
-
-    const lastUsed = new Date(template.lastUsedAt);
-    const daysAgo = Math.floor((Date.now() - lastUsed.getTime()) / (1000 * 60 * 60 * 24));
-
-    if (daysAgo === 0) return 'today';
-    if (daysAgo === 1) return 'yesterday';
-    if (daysAgo < 7) return `${daysAgo} days ago`;
-    if (daysAgo < 30) return `${Math.floor(daysAgo / 7)} weeks ago`;
-    return `${Math.floor(daysAgo / 30)} months ago`;
-  };
-
   /**
    * Render a single template item
    */
   const renderTemplateItem = (template: Template) => {
-    const positionMatch = matchesPosition(template);
-    const recentlyUsed = isRecentlyUsed(template);
-    const isPopular = template.usageCount >= 5;
+    const reasons = recommendationsById.get(template.id)?.reasons ?? [];
+    const blockIndex = selectedTemplates.findIndex(t => t.id === template.id);
+    const isSelected = combineMode ? blockIndex >= 0 : selectedTemplate?.id === template.id;
 
     return (
       <ListItemButton
         key={template.id}
-        selected={selectedTemplate?.id === template.id}
-        onClick={() => setSelectedTemplate(template)}
+        selected={isSelected}
+        onClick={() => handleTemplateClick(template)}
         sx={{
           border: '1px solid',
-          borderColor: selectedTemplate?.id === template.id ? cobraTheme.palette.buttonPrimary.main : 'divider',
+          borderColor: isSelected ? cobraTheme.palette.buttonPrimary.main : 'divider',
           borderRadius: 1,
           mb: 1,
-          backgroundColor: selectedTemplate?.id === template.id ? cobraTheme.palette.action.selected : 'transparent',
+          backgroundColor: isSelected ? cobraTheme.palette.action.selected : 'transparent',
           '&:hover': {
-            backgroundColor: selectedTemplate?.id === template.id ? cobraTheme.palette.action.selected : 'action.hover',
+            backgroundColor: isSelected ? cobraTheme.palette.action.selected : 'action.hover',
           },
         }}
       >
@@ -238,7 +295,19 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
               <Typography variant="body1" sx={{ fontWeight: 'bold' }}>
                 {template.name}
               </Typography>
-              {selectedTemplate?.id === template.id && (
+              {isSelected && combineMode && (
+                <Chip
+                  label={blockIndex + 1}
+                  size="small"
+                  sx={{
+                    height: 20,
+                    fontSize: '0.7rem',
+                    backgroundColor: cobraTheme.palette.buttonPrimary.main,
+                    color: 'white',
+                  }}
+                />
+              )}
+              {isSelected && !combineMode && (
                 <FontAwesomeIcon icon={faCheck} color={cobraTheme.palette.buttonPrimary.main} />
               )}
             </Box>
@@ -249,20 +318,8 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
                 {template.description || 'No description'}
               </Typography>
               <Box sx={{ display: 'flex', gap: 0.5, flexWrap: 'wrap', mt: 0.5 }}>
-                {/* Position match badge */}
-                {positionMatch && (
-                  <Chip
-                    label="Matches your position"
-                    size="small"
-                    sx={{
-                      height: 20,
-                      fontSize: '0.7rem',
-                      backgroundColor: cobraTheme.palette.success.main,
-                      color: 'white',
-                      fontWeight: 'bold',
-                    }}
-                  />
-                )}
+                {/* Why the template is suggested */}
+                {reasons.map(renderReasonChip)}
 
                 {/* Category badge */}
                 {template.category && (
@@ -272,26 +329,6 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
                 {/* Item count */}
                 <Chip label={`${template.items.length} items`} size="small" sx={{ height: 20, fontSize: '0.7rem' }} />
 
-                {/* Popularity indicator */}
-                {isPopular && (
-                  <Chip
-                    icon={<FontAwesomeIcon icon={faStar} style={{ fontSize: '0.6rem', marginLeft: 4 }} />}
-                    label={`Used ${template.usageCount}x`}
-                    size="small"
-                    sx={{ height: 20, fontSize: '0.7rem' }}
-                  />
-                )}
-
-                {/* Recently used indicator */}
-                {recentlyUsed && (
-                  <Chip
-                    icon={<FontAwesomeIcon icon={faClock} style={{ fontSize: '0.6rem', marginLeft: 4 }} />}
-                    label={`Used ${formatLastUsed(template)}`}
-                    size="small"
-                    sx={{ height: 20, fontSize: '0.7rem' }}
-                  />
-                )}
-
                 {/* Template type badge (for non-manual) */}
                 {template.templateType === TemplateType.AUTO_CREATE && (
                   <Chip
@@ -327,11 +364,6 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
     );
   };
 
-  // Separate suggested templates into categories
-  const recommendedTemplates = suggestedTemplates.filter(t => matchesPosition(t));
-  const recentlyUsedTemplates = suggestedTemplates.filter(t => isRecentlyUsed(t) && !matchesPosition(t));
-  const otherSuggestions = suggestedTemplates.filter(t => !matchesPosition(t) && !isRecentlyUsed(t));
-
   /**
    * Render template list only (shared by both mobile and desktop)
    */
@@ -359,38 +391,34 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
       {/* Template List */}
       {!loading && !error && (
         <>
-          {/* Recommended for You Section */}
-          {recommendedTemplates.length > 0 && (
-            <Box sx={{ mb: 3 }}>
-              <Typography variant="subtitle1" sx={{ mb: 1, fontWeight: 'bold', color: cobraTheme.palette.buttonPrimary.main }}>
-                ⭐ Recommended for You ({recommendedTemplates.length})
-              </Typography>
-              <List sx={{ maxHeight: isMobile ? 200 : 250, overflowY: 'auto' }}>
-                {recommendedTemplates.map(renderTemplateItem)}
-              </List>
+          {/* Combine toggle */}
+          {onCreateCombinedChecklist && allTemplates.length > 1 && (
+            <Box sx={{ mb: 2 }}>
+              <FormControlLabel
+                control={
+                  <Switch
+                    checked={combineMode}
+                    onChange={(e) => handleToggleCombineMode(e.target.checked)}
+                  />
+                }
+                label="Combine several templates into one checklist"
+              />
+              {combineMode && (
+                <Typography variant="body2" color="text.secondary">
+                  {selectedTemplates.length} selected. Templates are combined in the order you select them.
+                </Typography>
+              )}
             </Box>
           )}
 
-          {/* Recently Used Section */}
-          {recentlyUsedTemplates.length > 0 && (
+          {/* Recommended for You Section (best first) */}
+          {suggestions.length > 0 && (
             <Box sx={{ mb: 3 }}>
-              <Typography variant="subtitle1" sx={{ mb: 1, fontWeight: 'bold' }}>
-                🕐 Recently Used ({recentlyUsedTemplates.length})
-              </Typography>
-              <List sx={{ maxHeight: isMobile ? 150 : 200, overflowY: 'auto' }}>
-                {recentlyUsedTemplates.map(renderTemplateItem)}
-              </List>
-            </Box>
-          )}
-
-          {/* Other Suggestions Section */}
-          {otherSuggestions.length > 0 && (
-            <Box sx={{ mb: 2 }}>
-              <Typography variant="subtitle1" sx={{ mb: 1, fontWeight: 'bold' }}>
-                Other Suggestions ({otherSuggestions.length})
+              <Typography variant="subtitle1" sx={{ mb: 1, fontWeight: 'bold', color: cobraTheme.palette.buttonPrimary.main }}>
+                ⭐ Recommended for You ({suggestions.length})
               </Typography>
-              <List sx={{ maxHeight: isMobile ? 150 : 200, overflowY: 'auto' }}>
-                {otherSuggestions.map(renderTemplateItem)}
+              <List sx={{ maxHeight: isMobile ? 250 : 350, overflowY: 'auto' }}>
+                {suggestions.map(recommendation => renderTemplateItem(recommendation.template))}
               </List>
             </Box>
           )}
@@ -424,6 +452,58 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
     </Box>
   );
 
+  /**
+   * Template list, or the merge preview when combining templates
+   */
+  const renderStepContent = () =>
+    showMergePreview ? (
+      <CombinedChecklistPreview
+        preview={mergePreview}
+        onMoveBlock={(index, direction) => setSelectedTemplates(prev => moveBlock(prev, index, direction))}
+        onToggleItem={handleToggleItem}
+        onRemoveDuplicates={() => setExcludedItemIds(new Set(getDuplicateItemIds(selectedTemplates)))}
+        onKeepAll={() => setExcludedItemIds(new Set())}
+      />
+    ) : (
+      renderTemplateList()
+    );
+
+  const showNameInput = combineMode ? showMergePreview : !!selectedTemplate;
+  const nameHelperText = combineMode
+    ? 'You can customize the name or keep the template names'
+    : 'You can customize the name or keep the template name';
+
+  /**
+   * Render action buttons (shared by mobile and desktop)
+   */
+  const renderActionButtons = () => (
+    <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
+      {showMergePreview && (
+        <CobraSecondaryButton onClick={() => setShowMergePreview(false)} disabled={creating}>
+          Back
+        </CobraSecondaryButton>
+      )}
+      <CobraLinkButton
+        onClick={handleCancel}
+        disabled={creating}
+      >
+        Cancel
+      </CobraLinkButton>
+      {combineMode && !showMergePreview ? (
+        <CobraPrimaryButton onClick={handleReviewMerge} disabled={selectedTemplates.length < 2}>
+          Review Merge
+        </CobraPrimaryButton>
+      ) : (
+        <CobraPrimaryButton
+          onClick={handleCreate}
+          disabled={!canCreate || creating}
+        >
+          {creating ? <CircularProgress size={24} color="inherit" /> : combineMode ? 'Create Combined Checklist' : 'Create Checklist'}
+        </CobraPrimaryButton>
+      )}
+    </Box>
+  );
+
   /**
    * Render sticky footer with name input and actions (mobile only)
    */
@@ -439,7 +519,7 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
       }}
     >
       {/* Checklist Name Input */}
-      {selectedTemplate && (
+      {showNameInput && (
         <Box sx={{ mb: 2 }}>
           <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 'bold' }}>
             Checklist Name
@@ -450,7 +530,7 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
             onChange={(e) => setChecklistName(e.target.value)}
             placeholder="Enter checklist name"
             autoFocus={false} // Never auto-focus on mobile
-            helperText="You can customize the name or keep the template name"
+            helperText={nameHelperText}
             inputProps={{
               style: {
                 minHeight: 48, // Touch-friendly
@@ -461,20 +541,7 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
       )}
 
       {/* Action Buttons */}
-      <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
-        <CobraLinkButton
-          onClick={handleCancel}
-          disabled={creating}
-        >
-          Cancel
-        </CobraLinkButton>
-        <CobraPrimaryButton
-          onClick={handleCreate}
-          disabled={!selectedTemplate || !checklistName.trim() || creating}
-        >
-          {creating ? <CircularProgress size={24} color="inherit" /> : 'Create Checklist'}
-        </CobraPrimaryButton>
-      </Box>
+      {renderActionButtons()}
     </Box>
   );
 
@@ -483,10 +550,10 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
    */
   const renderDesktopContent = () => (
     <Box>
-      {renderTemplateList()}
+      {renderStepContent()}
 
       {/* Checklist Name Input for Desktop */}
-      {selectedTemplate && !loading && !error && (
+      {showNameInput && !loading && !error && (
         <>
           <Divider sx={{ my: 2 }} />
           <Typography variant="subtitle2" sx={{ mb: 1, fontWeight: 'bold' }}>
@@ -498,7 +565,7 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
             onChange={(e) => setChecklistName(e.target.value)}
             placeholder="Enter checklist name"
             autoFocus={true} // Auto-focus on desktop
-            helperText="You can customize the name or keep the template name"
+            helperText={nameHelperText}
             sx={{ mb: 1 }}
             inputProps={{
               style: {
@@ -511,25 +578,12 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
     </Box>
   );
 
-  /**
-   * Render action buttons for Desktop Dialog
-   */
-  const renderDesktopActions = () => (
-    <Box sx={{ display: 'flex', gap: 1, justifyContent: 'flex-end' }}>
-      <CobraLinkButton
-        onClick={handleCancel}
-        disabled={creating}
-      >
-        Cancel
-      </CobraLinkButton>
-      <CobraPrimaryButton
-        onClick={handleCreate}
-        disabled={!selectedTemplate || !checklistName.trim() || creating}
-      >
-        {creating ? <CircularProgress size={24} color="inherit" /> : 'Create Checklist'}
-      </CobraPrimaryButton>
-    </Box>
-  );
+  const title = combineMode ? 'Create Combined Checklist' : 'Create Checklist from Template';
+  const subtitle = showMergePreview
+    ? 'Order the templates, choose which duplicate items to keep and name your checklist'
+    : combineMode
+      ? 'Select the templates to combine'
+      : 'Select a template and give your checklist a name';
 
   // Mobile: Render as BottomSheet with scrollable content + sticky footer
   if (isMobile) {
@@ -542,10 +596,10 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
           title={
             <Box>
               <Typography variant="h6" sx={{ fontWeight: 'bold' }}>
-                Create Checklist from Template
+                {title}
               </Typography>
               <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
-                Select a template and give your checklist a name
+                {subtitle}
               </Typography>
             </Box>
           }
@@ -558,7 +612,7 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
               px: 2,
             }}
           >
-            {renderTemplateList()}
+            {renderStepContent()}
           </Box>
 
           {/* Sticky footer with name input and actions */}
@@ -573,18 +627,18 @@ export const TemplatePickerDialog: React.FC<TemplatePickerDialogProps> = ({
     <CobraDialog
       open={open}
       onClose={handleCancel}
-      title="Create Checklist from Template"
+      title={title}
       contentWidth="600px"
     >
       <Stack spacing={CobraStyles.Spacing.FormFields}>
         <Typography variant="body2" color="text.secondary">
-          Select a template and give your checklist a name
+          {subtitle}
         </Typography>
 
         {renderDesktopContent()}
 
         <DialogActions>
-          {renderDesktopActions()}
+          {renderActionButtons()}
         </DialogActions>
       </Stack>
     </CobraDialog>
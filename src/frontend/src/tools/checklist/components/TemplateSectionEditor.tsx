@@ -0,0 +1,167 @@
+/**
+ * Template Section Editor Component
+ *
+ * A named section of items in TemplateEditorPage.
+ * Features:
+ * - Section name, item count, move up/down, add item, remove section
+ * - Drop target, so items can be dragged in from other sections (even when empty)
+ *
+ * Items without a section are shown in the same container without a header
+ * (section = null); once sections exist it accepts drops to take items out of one.
+ */
+
+import React from 'react';
+import { Box, Chip, IconButton, Paper, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faArrowDown, faArrowUp, faLayerGroup, faPlus, faTrash } from '@fortawesome/free-solid-svg-icons';
+import { useDroppable } from '@dnd-kit/core';
+import { cobraTheme } from '../../../theme/cobraTheme';
+import { CobraTextField } from '../../../theme/styledComponents';
+import { MAX_SECTION_NAME_LENGTH } from '../utils/itemSections';
+
+export interface TemplateSectionFormData {
+  id: string; // Editor-only ID (sections are saved as each item's section name)
+  name: string;
+}
+
+const SECTION_DROP_PREFIX = 'section:';
+const NO_SECTION_DROP_ID = `${SECTION_DROP_PREFIX}none`;
+
+/**
+ * Drag-and-drop ID of a section container (null = items without a section)
+ */
+export const getSectionDropId = (sectionId: string | null): string =>
+  sectionId === null ? NO_SECTION_DROP_ID : `${SECTION_DROP_PREFIX}${sectionId}`;
+
+/**
+ * Section ID from a drag-and-drop ID: null = no section, undefined = not a section container
+ */
+export const parseSectionDropId = (dropId: string): string | null | undefined => {
+  if (dropId === NO_SECTION_DROP_ID) return null;
+  return dropId.startsWith(SECTION_DROP_PREFIX) ? dropId.slice(SECTION_DROP_PREFIX.length) : undefined;
+};
+
+interface TemplateSectionEditorProps {
+  /** Section being edited (null = items without a section) */
+  section: TemplateSectionFormData | null;
+  index: number;
+  totalSections: number;
+  itemCount: number;
+  /** Show the drop hint when there are no items (unsectioned container only) */
+  showEmptyDropZone?: boolean;
+  onRename?: (id: string, name: string) => void;
+  onRemove?: (id: string) => void;
+  onMoveUp?: (id: string) => void;
+  onMoveDown?: (id: string) => void;
+  onAddItem?: (id: string) => void;
+  children: React.ReactNode;
+}
+
+/**
+ * Template Section Editor Component
+ */
+export const TemplateSectionEditor: React.FC<TemplateSectionEditorProps> = ({
+  section,
+  index,
+  totalSections,
+  itemCount,
+  showEmptyDropZone = false,
+  onRename,
+  onRemove,
+  onMoveUp,
+  onMoveDown,
+  onAddItem,
+  children,
+}) => {
+  const { setNodeRef, isOver } = useDroppable({ id: getSectionDropId(section?.id ?? null) });
+
+  if (section === null) {
+    return (
+      <Box ref={setNodeRef} sx={{ mb: showEmptyDropZone || itemCount > 0 ? 2 : 0 }}>
+        {children}
+        {showEmptyDropZone && itemCount === 0 && (
+          <Box
+            sx={{
+              p: 2,
+              border: '2px dashed',
+              borderColor: isOver ? cobraTheme.palette.buttonPrimary.main : 'divider',
+              borderRadius: 1,
+              textAlign: 'center',
+            }}
+          >
+            <Typography variant="body2" color="text.secondary">
+              Drag items here to take them out of a section
+            </Typography>
+          </Box>
+        )}
+      </Box>
+    );
+  }
+
+  const nameError = section.name.trim() === '' ? 'Section name is required' : undefined;
+
+  return (
+    <Paper
+      ref={setNodeRef}
+      variant="outlined"
+      sx={{
+        p: 2,
+        mb: 2,
+        borderWidth: 2,
+        borderColor: isOver ? cobraTheme.palette.buttonPrimary.main : 'divider',
+        backgroundColor: cobraTheme.palette.background.default,
+      }}
+    >
+      {/* Section Header */}
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 2 }}>
+        <FontAwesomeIcon icon={faLayerGroup} style={{ color: cobraTheme.palette.buttonPrimary.main }} />
+        <CobraTextField
+          size="small"
+          label="Section Name"
+          value={section.name}
+          onChange={(e) => onRename?.(section.id, e.target.value)}
+          error={!!nameError}
+          helperText={nameError}
+          inputProps={{ maxLength: MAX_SECTION_NAME_LENGTH }}
+          sx={{ flexGrow: 1 }}
+        />
+        <Chip label={`${itemCount} item${itemCount === 1 ? '' : 's'}`} size="small" />
+        <IconButton size="small" onClick={() => onAddItem?.(section.id)} title="Add item to section">
+          <FontAwesomeIcon icon={faPlus} size="sm" />
+        </IconButton>
+        <IconButton
+          size="small"
+          onClick={() => onMoveUp?.(section.id)}
+          disabled={index === 0}
+          title="Move section up"
+        >
+          <FontAwesomeIcon icon={faArrowUp} size="sm" />
+        </IconButton>
+        <IconButton
+          size="small"
+          onClick={() => onMoveDown?.(section.id)}
+          disabled={index === totalSections - 1}
+          title="Move section down"
+        >
+          <FontAwesomeIcon icon={faArrowDown} size="sm" />
+        </IconButton>
+        <IconButton
+          size="small"
+          onClick={() => onRemove?.(section.id)}
+          sx={{ color: cobraTheme.palette.buttonDelete.main }}
+          title="Remove section (its items are kept)"
+        >
+          <FontAwesomeIcon icon={faTrash} />
+        </IconButton>
+      </Box>
+
+      {children}
+
+      {itemCount === 0 && (
+        <Typography variant="body2" color="text.secondary" sx={{ textAlign: 'center', py: 1 }}>
+          Drag items here or add one. Empty sections are not saved.
+        </Typography>
+      )}
+    </Paper>
+  );
+};
@@ -0,0 +1,273 @@
+/**
+ * TemplateVersionDiffDialog Component
+ *
+ * Side-by-side, item-level comparison of two template versions:
+ * - Older version on the left, newer version on the right
+ * - Added items (green), removed items (red), changed items (amber)
+ * - Moved items show their previous position
+ * - Changed fields (text, required, status options, positions, notes)
+ *   listed under the item
+ *
+ * Snapshots are fetched when the dialog opens.
+ */
+
+import React, { useEffect, useMemo, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Chip,
+  CircularProgress,
+  DialogActions,
+  Stack,
+  Typography,
+} from '@mui/material';
+import { format } from 'date-fns';
+import { CobraDialog, CobraLinkButton } from '../../../theme/styledComponents';
+import { templateVersionService } from '../services/templateVersionService';
+import {
+  diffTemplateVersions,
+  type TemplateFieldChange,
+  type TemplateItemDiff,
+} from '../utils/templateVersionDiff';
+import type { TemplateItem, TemplateVersion } from '../../../types';
+
+/**
+ * Props for TemplateVersionDiffDialog
+ */
+interface TemplateVersionDiffDialogProps {
+  open: boolean;
+  templateId: string;
+  fromVersion: number;
+  toVersion: number;
+  onClose: () => void;
+}
+
+/**
+ * Background colors per change kind (left cell, right cell)
+ */
+const ROW_COLORS: Record<TemplateItemDiff['kind'], { before?: string; after?: string }> = {
+  added: { after: '#e8f5e9' },
+  removed: { before: '#ffebee' },
+  changed: { before: '#fff8e1', after: '#fff8e1' },
+  unchanged: {},
+};
+
+/**
+ * Version column heading
+ */
+const VersionHeading: React.FC<{ version: TemplateVersion }> = ({ version }) => (
+  <Box>
+    <Typography variant="subtitle2" sx={{ fontWeight: 'bold' }}>
+      Version {version.versionNumber}
+    </Typography>
+    <Typography variant="caption" color="text.secondary">
+      {version.createdByPosition || version.createdBy} &middot;{' '}
+      {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+    </Typography>
+  </Box>
+);
+
+/**
+ * One side of a diff row
+ */
+const ItemCell: React.FC<{
+  item?: TemplateItem;
+  position?: number;
+  backgroundColor?: string;
+  label?: string;
+}> = ({ item, position, backgroundColor, label }) => (
+  <Box
+    sx={{
+      flex: 1,
+      minWidth: 0,
+      p: 1,
+      borderRadius: 1,
+      backgroundColor: item ? backgroundColor : 'transparent',
+      border: item ? undefined : '1px dashed',
+      borderColor: 'divider',
+    }}
+  >
+    {item ? (
+      <Box sx={{ display: 'flex', alignItems: 'flex-start', gap: 1 }}>
+        <Chip label={`#${position}`} size="small" sx={{ fontWeight: 'bold' }} />
+        <Box sx={{ flex: 1, minWidth: 0 }}>
+          <Typography
+            variant="body2"
+            sx={{
+              fontWeight: item.isRequired ? 'bold' : 'normal',
+              textDecoration: label === 'Removed' ? 'line-through' : 'none',
+              wordBreak: 'break-word',
+            }}
+          >
+            {item.itemText}
+          </Typography>
+          {label && (
+            <Typography variant="caption" color="text.secondary">
+              {label}
+            </Typography>
+          )}
+        </Box>
+      </Box>
+    ) : (
+      <Typography variant="caption" color="text.disabled">
+        &mdash;
+      </Typography>
+    )}
+  </Box>
+);
+
+/**
+ * Field-level change list
+ */
+const FieldChanges: React.FC<{ changes: TemplateFieldChange[] }> = ({ changes }) => (
+  <Box sx={{ pl: 1, pt: 0.5 }}>
+    {changes.map((change) => (
+      <Typography key={change.field} variant="caption" display="block" color="text.secondary">
+        <strong>{change.label}:</strong> {change.before || '(none)'} &rarr; {change.after || '(none)'}
+      </Typography>
+    ))}
+  </Box>
+);
+
+/**
+ * TemplateVersionDiffDialog Component
+ */
+export const TemplateVersionDiffDialog: React.FC<TemplateVersionDiffDialogProps> = ({
+  open,
+  templateId,
+  fromVersion,
+  toVersion,
+  onClose,
+}) => {
+  const [versions, setVersions] = useState<[TemplateVersion, TemplateVersion] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    let cancelled = false;
+    const [older, newer] = [Math.min(fromVersion, toVersion), Math.max(fromVersion, toVersion)];
+
+    const fetchVersions = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+        const result = await Promise.all([
+          templateVersionService.getVersion(templateId, older),
+          templateVersionService.getVersion(templateId, newer),
+        ]);
+        if (!cancelled) setVersions(result);
+      } catch (err) {
+        if (!cancelled) {
+          setError(err instanceof Error ? err.message : 'Failed to load versions');
+        }
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchVersions();
+    return () => {
+      cancelled = true;
+    };
+  }, [open, templateId, fromVersion, toVersion]);
+
+  const diff = useMemo(() => {
+    if (!versions || !versions[0].template || !versions[1].template) return null;
+    return diffTemplateVersions(versions[0].template, versions[1].template);
+  }, [versions]);
+
+  const renderSummary = () => {
+    if (!diff) return null;
+    if (!diff.hasChanges) {
+      return <Alert severity="info">These versions have the same content.</Alert>;
+    }
+
+    const parts = [
+      diff.addedCount > 0 && `${diff.addedCount} added`,
+      diff.removedCount > 0 && `${diff.removedCount} removed`,
+      diff.changedCount > 0 && `${diff.changedCount} changed`,
+      diff.reorderedCount > 0 && `${diff.reorderedCount} moved`,
+    ].filter(Boolean);
+
+    return (
+      <Typography variant="body2" color="text.secondary">
+        {parts.length > 0 ? `Items: ${parts.join(', ')}` : 'No item changes'}
+      </Typography>
+    );
+  };
+
+  return (
+    <CobraDialog
+      open={open}
+      onClose={onClose}
+      title={`Compare Versions ${Math.min(fromVersion, toVersion)} and ${Math.max(fromVersion, toVersion)}`}
+      contentWidth="900px"
+    >
+      <Stack spacing={2}>
+        {loading && (
+          <Box sx={{ display: 'flex', justifyContent: 'center', py: 4 }}>
+            <CircularProgress />
+          </Box>
+        )}
+
+        {error && <Alert severity="error">{error}</Alert>}
+
+        {!loading && versions && diff && (
+          <>
+            {renderSummary()}
+
+            {diff.metadataChanges.length > 0 && (
+              <Box sx={{ p: 1, borderRadius: 1, backgroundColor: '#fff8e1' }}>
+                <Typography variant="subtitle2">Template details</Typography>
+                <FieldChanges changes={diff.metadataChanges} />
+              </Box>
+            )}
+
+            <Box sx={{ display: 'flex', gap: 1 }}>
+              <Box sx={{ flex: 1 }}>
+                <VersionHeading version={versions[0]} />
+              </Box>
+              <Box sx={{ flex: 1 }}>
+                <VersionHeading version={versions[1]} />
+              </Box>
+            </Box>
+
+            <Stack spacing={1} data-testid="template-version-diff">
+              {diff.rows.map((row, index) => (
+                <Box key={`${row.kind}-${row.before?.id ?? ''}-${row.after?.id ?? ''}-${index}`}>
+                  <Box sx={{ display: 'flex', gap: 1 }}>
+                    <ItemCell
+                      item={row.before}
+                      position={row.beforePosition}
+                      backgroundColor={ROW_COLORS[row.kind].before}
+                      label={row.kind === 'removed' ? 'Removed' : undefined}
+                    />
+                    <ItemCell
+                      item={row.after}
+                      position={row.afterPosition}
+                      backgroundColor={ROW_COLORS[row.kind].after}
+                      label={
+                        row.kind === 'added'
+                          ? 'Added'
+                          : row.reordered
+                            ? `Moved from #${row.beforePosition}`
+                            : undefined
+                      }
+                    />
+                  </Box>
+                  {row.changes.length > 0 && <FieldChanges changes={row.changes} />}
+                </Box>
+              ))}
+            </Stack>
+          </>
+        )}
+
+        <DialogActions>
+          <CobraLinkButton onClick={onClose}>Close</CobraLinkButton>
+        </DialogActions>
+      </Stack>
+    </CobraDialog>
+  );
+};
@@ -0,0 +1,254 @@
+/**
+ * TemplateVersionHistoryPanel Component
+ *
+ * Collapsible version history for a template, shown on the template editor
+ * and preview pages.
+ * - Lists every saved version with author, position and timestamp
+ * - Select any two versions to open a side-by-side item diff
+ * - "Restore as new version" (Manage role) re-saves an older version as the
+ *   latest one, so history is never rewritten
+ *
+ * Versions are loaded the first time the panel is expanded and reloaded
+ * whenever the template's current version changes.
+ */
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Checkbox,
+  Chip,
+  CircularProgress,
+  Collapse,
+  Divider,
+  List,
+  ListItem,
+  Paper,
+  Typography,
+} from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import {
+  faChevronDown,
+  faChevronUp,
+  faClockRotateLeft,
+  faCodeCompare,
+  faRotateLeft,
+} from '@fortawesome/free-solid-svg-icons';
+import { format } from 'date-fns';
+import { toast } from 'react-toastify';
+import { CobraLinkButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import { templateVersionService } from '../services/templateVersionService';
+import { TemplateVersionDiffDialog } from './TemplateVersionDiffDialog';
+import type { Template, TemplateVersion } from '../../../types';
+
+/**
+ * Props for TemplateVersionHistoryPanel
+ */
+interface TemplateVersionHistoryPanelProps {
+  templateId: string;
+  /** Template's current version - history reloads when this changes */
+  currentVersion?: number;
+  /** Show "Restore as new version" (Manage role) */
+  canRestore: boolean;
+  /** Called with the updated template after a restore */
+  onRestored?: (template: Template) => void;
+  /** Start expanded */
+  defaultExpanded?: boolean;
+}
+
+/**
+ * TemplateVersionHistoryPanel Component
+ */
+export const TemplateVersionHistoryPanel: React.FC<TemplateVersionHistoryPanelProps> = ({
+  templateId,
+  currentVersion,
+  canRestore,
+  onRestored,
+  defaultExpanded = false,
+}) => {
+  const [expanded, setExpanded] = useState(defaultExpanded);
+  const [versions, setVersions] = useState<TemplateVersion[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<number[]>([]);
+  const [compareOpen, setCompareOpen] = useState(false);
+  const [restoring, setRestoring] = useState<number | null>(null);
+
+  const loadVersions = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await templateVersionService.getVersions(templateId);
+      setVersions(data);
+      // Default comparison: latest against the one before it
+      setSelected(data.length >= 2 ? [data[1].versionNumber, data[0].versionNumber] : []);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load version history');
+    } finally {
+      setLoading(false);
+    }
+  }, [templateId]);
+
+  useEffect(() => {
+    if (expanded) {
+      loadVersions();
+    }
+  }, [expanded, loadVersions, currentVersion]);
+
+  const latestVersion = versions.length > 0 ? versions[0].versionNumber : currentVersion;
+
+  const handleToggleSelected = (versionNumber: number) => {
+    setSelected((prev) => {
+      if (prev.includes(versionNumber)) {
+        return prev.filter((v) => v !== versionNumber);
+      }
+      // Keep the most recent two selections
+      return [...prev, versionNumber].slice(-2);
+    });
+  };
+
+  const handleRestore = async (version: TemplateVersion) => {
+    if (
+      !confirm(
+        `Restore version ${version.versionNumber}? Its content will be saved as a new version. Existing checklists are not changed.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setRestoring(version.versionNumber);
+      const template = await templateVersionService.restoreVersion(templateId, version.versionNumber);
+      toast.success(
+        `Version ${version.versionNumber} restored as version ${template.currentVersion}`
+      );
+      onRestored?.(template);
+      await loadVersions();
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to restore version');
+    } finally {
+      setRestoring(null);
+    }
+  };
+
+  return (
+    <Paper elevation={2} sx={{ p: 3 }} data-testid="template-version-history">
+      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+        <FontAwesomeIcon icon={faClockRotateLeft} />
+        <Typography variant="h6" sx={{ flexGrow: 1 }}>
+          Version History
+          {latestVersion !== undefined && (
+            <Typography component="span" variant="body2" color="text.secondary" sx={{ ml: 1 }}>
+              (current: v{latestVersion})
+            </Typography>
+          )}
+        </Typography>
+        <CobraLinkButton
+          size="small"
+          onClick={() => setExpanded(!expanded)}
+          endIcon={<FontAwesomeIcon icon={expanded ? faChevronUp : faChevronDown} />}
+        >
+          {expanded ? 'Hide' : 'Show'}
+        </CobraLinkButton>
+      </Box>
+
+      <Collapse in={expanded}>
+        <Box sx={{ mt: 2 }}>
+          {loading && versions.length === 0 && (
+            <Box sx={{ display: 'flex', justifyContent: 'center', py: 2 }}>
+              <CircularProgress size={24} />
+            </Box>
+          )}
+
+          {error && <Alert severity="error">{error}</Alert>}
+
+          {versions.length > 0 && (
+            <>
+              <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, mb: 1 }}>
+                <Typography variant="body2" color="text.secondary" sx={{ flexGrow: 1 }}>
+                  Select two versions to compare.
+                </Typography>
+                <CobraSecondaryButton
+                  size="small"
+                  startIcon={<FontAwesomeIcon icon={faCodeCompare} />}
+                  disabled={selected.length !== 2}
+                  onClick={() => setCompareOpen(true)}
+                >
+                  Compare
+                </CobraSecondaryButton>
+              </Box>
+
+              <List sx={{ p: 0 }}>
+                {versions.map((version, index) => {
+                  const isLatest = version.versionNumber === latestVersion;
+
+                  return (
+                    <React.Fragment key={version.id}>
+                      {index > 0 && <Divider />}
+                      <ListItem sx={{ px: 0, gap: 1, alignItems: 'center' }}>
+                        <Checkbox
+                          size="small"
+                          checked={selected.includes(version.versionNumber)}
+                          onChange={() => handleToggleSelected(version.versionNumber)}
+                          inputProps={{ 'aria-label': `Select version ${version.versionNumber}` }}
+                        />
+                        <Chip
+                          label={`v${version.versionNumber}`}
+                          size="small"
+                          color={isLatest ? 'primary' : 'default'}
+                          sx={{ fontWeight: 'bold' }}
+                        />
+                        <Box sx={{ flexGrow: 1, minWidth: 0 }}>
+                          <Typography variant="body2">
+                            {version.createdByPosition || 'Unknown position'}
+                            <Typography component="span" variant="body2" color="text.secondary">
+                              {' '}
+                              &middot; {version.createdBy}
+                            </Typography>
+                          </Typography>
+                          <Typography variant="caption" color="text.secondary">
+                            {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                            {' '}&middot; {version.itemCount} item{version.itemCount === 1 ? '' : 's'}
+                            {version.restoredFromVersion !== undefined &&
+                              version.restoredFromVersion !== null &&
+                              ` · Restored from v${version.restoredFromVersion}`}
+                          </Typography>
+                        </Box>
+                        {isLatest ? (
+                          <Chip label="Current" size="small" variant="outlined" />
+                        ) : (
+                          canRestore && (
+                            <CobraLinkButton
+                              size="small"
+                              startIcon={<FontAwesomeIcon icon={faRotateLeft} />}
+                              onClick={() => handleRestore(version)}
+                              disabled={restoring !== null}
+                            >
+                              {restoring === version.versionNumber
+                                ? 'Restoring...'
+                                : 'Restore as New Version'}
+                            </CobraLinkButton>
+                          )
+                        )}
+                      </ListItem>
+                    </React.Fragment>
+                  );
+                })}
+              </List>
+            </>
+          )}
+        </Box>
+      </Collapse>
+
+      {selected.length === 2 && (
+        <TemplateVersionDiffDialog
+          open={compareOpen}
+          templateId={templateId}
+          fromVersion={selected[0]}
+          toVersion={selected[1]}
+          onClose={() => setCompareOpen(false)}
+        />
+      )}
+    </Paper>
+  );
+};
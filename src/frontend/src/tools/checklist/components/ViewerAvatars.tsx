@@ -0,0 +1,87 @@
+/**
+ * ViewerAvatars Component
+ *
+ * Avatars of the other people currently viewing a checklist (live presence).
+ * Hover an avatar for name and position; an amber ring marks viewers with
+ * an item's notes open. Renders nothing when nobody else is viewing.
+ */
+
+import React from 'react';
+import { Avatar, AvatarGroup, Box, Tooltip, Typography } from '@mui/material';
+import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
+import { faEye } from '@fortawesome/free-solid-svg-icons';
+import type { ChecklistViewer } from '../hooks/useChecklistHub';
+import { formatViewer, getViewerInitials } from '../utils/presence';
+import { cobraTheme } from '../../../theme/cobraTheme';
+
+/**
+ * Props for ViewerAvatars
+ */
+interface ViewerAvatarsProps {
+  /** Other viewers (see getOtherViewers) */
+  viewers: ChecklistViewer[];
+  /** Avatars shown before "+N" */
+  max?: number;
+  /** Avatar size in px */
+  size?: number;
+  /** Show "N viewing" next to the avatars */
+  showLabel?: boolean;
+}
+
+/**
+ * ViewerAvatars Component
+ */
+export const ViewerAvatars: React.FC<ViewerAvatarsProps> = ({
+  viewers,
+  max = 4,
+  size = 28,
+  showLabel = false,
+}) => {
+  if (viewers.length === 0) return null;
+
+  return (
+    <Box
+      sx={{ display: 'flex', alignItems: 'center', gap: 1 }}
+      data-testid="checklist-viewers"
+      onClick={(e) => e.stopPropagation()}
+    >
+      <AvatarGroup
+        max={max}
+        sx={{
+          '& .MuiAvatar-root': {
+            width: size,
+            height: size,
+            fontSize: size * 0.42,
+          },
+        }}
+      >
+        {viewers.map((viewer) => (
+          <Tooltip
+            key={viewer.connectionId}
+            title={viewer.notesItemId ? `${formatViewer(viewer)} - editing notes` : formatViewer(viewer)}
+          >
+            <Avatar
+              alt={formatViewer(viewer)}
+              sx={{
+                bgcolor: cobraTheme.palette.buttonPrimary.main,
+                ...(viewer.notesItemId && { borderColor: `${cobraTheme.palette.warning.main} !important` }),
+              }}
+            >
+              {getViewerInitials(viewer)}
+            </Avatar>
+          </Tooltip>
+        ))}
+      </AvatarGroup>
+      {showLabel && (
+        <Typography
+          variant="caption"
+          color="text.secondary"
+          sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+        >
+          <FontAwesomeIcon icon={faEye} />
+          {viewers.length} viewing
+        </Typography>
+      )}
+    </Box>
+  );
+};
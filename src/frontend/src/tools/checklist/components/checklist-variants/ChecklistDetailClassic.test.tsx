@@ -5,8 +5,10 @@
  */
 
 import { describe, it, expect, vi } from 'vitest';
-import { render, screen } from '@testing-library/react';
+import { render, screen, fireEvent } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
+import { ThemeProvider } from '@mui/material/styles';
+import { cobraTheme } from '../../../../theme/cobraTheme';
 import { ChecklistDetailClassic } from './ChecklistDetailClassic';
 import type { ChecklistInstanceDto } from '../../services/checklistService';
 
@@ -71,12 +73,24 @@ const renderWithRouter = (ui: React.ReactElement) => {
   return render(<BrowserRouter>{ui}</BrowserRouter>);
 };
 
+// Wrapper with the COBRA theme, for inputs built on the styled components
+const renderWithTheme = (ui: React.ReactElement) => {
+  return render(
+    <ThemeProvider theme={cobraTheme}>
+      <BrowserRouter>{ui}</BrowserRouter>
+    </ThemeProvider>
+  );
+};
+
 describe('ChecklistDetailClassic', () => {
   const defaultProps = {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
@@ -142,6 +156,47 @@ describe('ChecklistDetailClassic', () => {
 
       expect(screen.getByText('No items in this checklist')).toBeInTheDocument();
     });
+
+    it('renders a value input for value items', () => {
+      const checklist = createMockChecklist({
+        items: [
+          {
+            id: 'item-3',
+            checklistInstanceId: 'checklist-1',
+            templateItemId: 'template-item-3',
+            itemText: 'Record generator fuel level',
+            itemType: 'number',
+            isRequired: false,
+            value: '42.5',
+            valueConfiguration: JSON.stringify({ unit: 'gal', min: 0, max: 500 }),
+            displayOrder: 1,
+            createdAt: '2024-01-01T00:00:00Z',
+          },
+        ],
+      });
+      renderWithTheme(<ChecklistDetailClassic {...defaultProps} checklist={checklist} />);
+
+      expect(screen.getByLabelText('Record generator fuel level')).toHaveValue('42.5');
+      expect(screen.getByText('gal')).toBeInTheDocument();
+    });
+
+    it('groups items into collapsible sections with section progress', () => {
+      const base = createMockChecklist();
+      const checklist = createMockChecklist({
+        items: [
+          { ...base.items[0], sectionName: 'Setup' },
+          { ...base.items[1], sectionName: 'Setup' },
+        ],
+      });
+      renderWithRouter(<ChecklistDetailClassic {...defaultProps} checklist={checklist} />);
+
+      const header = screen.getByRole('button', { name: /Setup/ });
+      expect(header).toHaveAttribute('aria-expanded', 'true');
+      expect(header).toHaveTextContent('1/2');
+
+      fireEvent.click(header);
+      expect(header).toHaveAttribute('aria-expanded', 'false');
+    });
   });
 
   describe('readonly mode', () => {
@@ -157,6 +212,31 @@ describe('ChecklistDetailClassic', () => {
       // Note: This test would need module re-import to work properly
       // For now, we just verify the component structure exists
     });
+
+    it('disables item completion once the checklist is signed off', () => {
+      renderWithRouter(<ChecklistDetailClassic {...defaultProps} readOnly />);
+
+      const checkboxes = screen.getAllByRole('checkbox');
+      expect(checkboxes).toHaveLength(2);
+      checkboxes.forEach((checkbox) => expect(checkbox).toBeDisabled());
+    });
+
+    it('does not flag open items overdue once the checklist is signed off', () => {
+      const base = createMockChecklist();
+      const checklist = createMockChecklist({
+        items: [{ ...base.items[0], dueAt: '2024-01-01T00:00:00Z' }],
+      });
+
+      const { rerender } = renderWithRouter(<ChecklistDetailClassic {...defaultProps} checklist={checklist} />);
+      expect(screen.getByText(/^Overdue/)).toBeInTheDocument();
+
+      rerender(
+        <BrowserRouter>
+          <ChecklistDetailClassic {...defaultProps} checklist={checklist} readOnly />
+        </BrowserRouter>
+      );
+      expect(screen.queryByText(/^Overdue/)).not.toBeInTheDocument();
+    });
   });
 });
 
@@ -165,7 +245,10 @@ describe('ChecklistDetailClassic - Sticky Progress Bar', () => {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
@@ -10,6 +10,9 @@
  * - Actions hidden in menus
  * - Completion shown as subtle badges
  * - More items visible per screen
+ * - Items in named sections are grouped under collapsible headers with section progress
+ * - Selection mode: select many items and apply one bulk action
+ * - Signed-off checklists are view-only (readOnly)
  */
 
 import React, { useState } from 'react';
@@ -31,19 +34,52 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faArrowLeft,
   faCopy,
+  faFileExport,
+  faPrint,
+  faListUl,
 } from '@fortawesome/free-solid-svg-icons';
 import { ChecklistItemClassic } from './ChecklistItemClassic';
 import { ItemNotesDialog } from '../ItemNotesDialog';
+import { ViewerAvatars } from '../ViewerAvatars';
+import { ItemHistoryDrawer } from '../ItemHistoryDrawer';
+import { ItemSectionGroup } from '../ItemSectionGroup';
+import { BulkSelectableItem } from '../BulkSelectableItem';
 import { ChecklistProgressBar } from '../ChecklistProgressBar';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
+import { getCurrentUser } from '../../../../core/services/api';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
+import { countBlockedItems, getBlockedReason } from '../../utils/itemPrerequisites';
+import { formatItemValue, isValueItemType } from '../../utils/itemValue';
+import { getLatestNote, formatNoteAuthor } from '../../utils/itemNotes';
+import { getNotesEditors, getOtherViewers } from '../../utils/presence';
+import { groupItemsBySection, hasItemSections } from '../../utils/itemSections';
+import { getItemDueTime } from '../../utils/itemDue';
+import type { ChecklistViewer } from '../../hooks/useChecklistHub';
 import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { ItemNote } from '../../types';
 
 interface ChecklistDetailClassicProps {
   checklist: ChecklistInstanceDto;
   onToggleComplete: (itemId: string, currentStatus: boolean) => Promise<void>;
   onStatusChange: (itemId: string, newStatus: string) => Promise<void>;
-  onSaveNotes: (itemId: string, notes: string) => Promise<void>;
+  onValueChange: (itemId: string, value: string | null) => Promise<void>;
+  /** Note thread callbacks; each resolves true on success */
+  onAddNote: (itemId: string, noteText: string) => Promise<boolean>;
+  onEditNote: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote: (note: ItemNote) => Promise<boolean>;
+  /** Attachments were added or removed in the notes dialog */
+  onAttachmentCountChange?: (itemId: string, count: number) => void;
   onCopy: (mode: 'clone-clean' | 'clone-direct') => void;
+  /** Open the ICS-214 activity log export */
+  onExport?: () => void;
+  /** Open the print / PDF dialog */
+  onPrint?: () => void;
+  /** Open the checklist activity feed */
+  onViewActivity?: () => void;
+  /** Everyone viewing this checklist (live presence) */
+  viewers?: ChecklistViewer[];
+  /** The notes dialog opened (item id) or closed (null) */
+  onNotesOpenChange?: (itemId: string | null) => void;
   isProcessing: (itemId: string) => boolean;
   /** ID of the item to highlight (from landing page navigation) */
   highlightedItemId?: string | null;
@@ -51,21 +87,42 @@ interface ChecklistDetailClassicProps {
   isHighlighting?: boolean;
   /** Ref callback to attach to items for scroll-to behavior */
   getItemRef?: (itemId: string) => (element: HTMLElement | null) => void;
+  /** Bulk action bar (selection mode), shown above the items */
+  bulkActionBar?: React.ReactNode;
+  /** Items selected for a bulk action; rows get a selection checkbox when set */
+  selectedItemIds?: ReadonlySet<string>;
+  onToggleItemSelected?: (itemId: string) => void;
+  /** Signed off: items, notes and attachments are view-only */
+  readOnly?: boolean;
 }
 
 export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
   checklist,
   onToggleComplete,
   onStatusChange,
-  onSaveNotes,
+  onValueChange,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+  onAttachmentCountChange,
   onCopy,
+  onExport,
+  onPrint,
+  onViewActivity,
+  viewers = [],
+  onNotesOpenChange,
   isProcessing,
   highlightedItemId,
   isHighlighting,
   getItemRef,
+  bulkActionBar,
+  selectedItemIds,
+  onToggleItemSelected,
+  readOnly = false,
 }) => {
   const navigate = useNavigate();
   const { canInteractWithItems, isReadonly } = usePermissions();
+  const now = useCurrentTime();
 
   // Notes dialog state
   const [notesDialogOpen, setNotesDialogOpen] = useState(false);
@@ -75,31 +132,62 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
   const [infoDialogOpen, setInfoDialogOpen] = useState(false);
   const [viewingItem, setViewingItem] = useState<ChecklistItemDto | null>(null);
 
+  // History drawer state (item id, so hub updates refresh the timeline)
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+
   
   const handleOpenNotes = (item: ChecklistItemDto) => {
     setEditingItem(item);
     setNotesDialogOpen(true);
+    onNotesOpenChange?.(item.id);
   };
 
   const handleCloseNotes = () => {
     setNotesDialogOpen(false);
     setEditingItem(null);
+    onNotesOpenChange?.(null);
   };
 
-  const handleSaveNotes = async (notes: string) => {
-    if (editingItem) {
-      await onSaveNotes(editingItem.id, notes);
-      handleCloseNotes();
-    }
-  };
+  // Read the item from the checklist so hub updates show in the open dialog
+  const notesItem = editingItem
+    ? checklist.items.find((i) => i.id === editingItem.id) ?? editingItem
+    : null;
+  const currentUserEmail = getCurrentUser().email;
 
   const handleViewInfo = (item: ChecklistItemDto) => {
     setViewingItem(item);
     setInfoDialogOpen(true);
   };
 
+  const viewingLatestNote = getLatestNote(viewingItem?.notes);
   const progressPercentage = Number(checklist.progressPercentage);
 
+  const renderItem = (item: ChecklistItemDto) => (
+    <BulkSelectableItem
+      key={item.id}
+      itemId={item.id}
+      itemText={item.itemText}
+      selectedItemIds={selectedItemIds}
+      onToggleSelected={onToggleItemSelected}
+    >
+      <ChecklistItemClassic
+        item={item}
+        onToggleComplete={onToggleComplete}
+        onStatusChange={onStatusChange}
+        onValueChange={onValueChange}
+        onOpenNotes={handleOpenNotes}
+        onViewInfo={handleViewInfo}
+        onViewHistory={(historyItem) => setHistoryItemId(historyItem.id)}
+        isProcessing={isProcessing(item.id)}
+        now={now}
+        blockedReason={getBlockedReason(item, checklist.items)}
+        isHighlighted={highlightedItemId === item.id && isHighlighting}
+        itemRef={getItemRef?.(item.id)}
+        readOnly={readOnly}
+      />
+    </BulkSelectableItem>
+  );
+
   return (
     <Container maxWidth={false} disableGutters sx={{ py: 2, px: 2 }}>
       {/* Compact Header */}
@@ -118,6 +206,8 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
             {checklist.name}
           </Typography>
 
+          <ViewerAvatars viewers={getOtherViewers(viewers, currentUserEmail)} />
+
           {/* Copy button - only show for users who can interact */}
           {canInteractWithItems && (
             <IconButton
@@ -128,6 +218,24 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
               <FontAwesomeIcon icon={faCopy} />
             </IconButton>
           )}
+
+          {onViewActivity && (
+            <IconButton size="small" onClick={onViewActivity} title="Checklist activity">
+              <FontAwesomeIcon icon={faListUl} />
+            </IconButton>
+          )}
+
+          {onExport && (
+            <IconButton size="small" onClick={onExport} title="Export ICS-214">
+              <FontAwesomeIcon icon={faFileExport} />
+            </IconButton>
+          )}
+
+          {onPrint && (
+            <IconButton size="small" onClick={onPrint} title="Print checklist">
+              <FontAwesomeIcon icon={faPrint} />
+            </IconButton>
+          )}
         </Box>
 
         {/* Context line */}
@@ -145,6 +253,7 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
         showCount={true}
         completedItems={checklist.completedItems}
         totalItems={checklist.totalItems}
+        blockedItems={countBlockedItems(checklist.items)}
         sticky
       />
 
@@ -176,6 +285,8 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
         </Box>
       )}
 
+      {bulkActionBar}
+
       {/* Items List - Simple paper container */}
       <Paper variant="outlined" sx={{ overflow: 'hidden' }}>
         {checklist.items.length === 0 ? (
@@ -184,35 +295,50 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
               No items in this checklist
             </Typography>
           </Box>
-        ) : (
-          checklist.items.map((item) => (
-            <ChecklistItemClassic
-              key={item.id}
-              item={item}
-              onToggleComplete={onToggleComplete}
-              onStatusChange={onStatusChange}
-              onOpenNotes={handleOpenNotes}
-              onViewInfo={handleViewInfo}
-              isProcessing={isProcessing(item.id)}
-              isHighlighted={highlightedItemId === item.id && isHighlighting}
-              itemRef={getItemRef?.(item.id)}
-            />
+        ) : hasItemSections(checklist.items) ? (
+          groupItemsBySection(checklist.items).map((section) => (
+            <ItemSectionGroup
+              key={section.name ?? ''}
+              name={section.name}
+              items={section.items}
+              allItems={checklist.items}
+              forceExpanded={section.items.some((item) => item.id === highlightedItemId)}
+            >
+              {section.items.map(renderItem)}
+            </ItemSectionGroup>
           ))
+        ) : (
+          checklist.items.map(renderItem)
         )}
       </Paper>
 
       {/* Notes Dialog */}
-      {editingItem && (
+      {notesItem && (
         <ItemNotesDialog
           open={notesDialogOpen}
-          itemText={editingItem.itemText}
-          currentNotes={editingItem.notes}
-          onSave={handleSaveNotes}
-          onCancel={handleCloseNotes}
-          saving={isProcessing(editingItem.id)}
+          itemText={notesItem.itemText}
+          notes={notesItem.notes}
+          onAddNote={(noteText) => onAddNote(notesItem.id, noteText)}
+          onEditNote={onEditNote}
+          onDeleteNote={onDeleteNote}
+          onClose={handleCloseNotes}
+          checklistId={checklist.id}
+          itemId={notesItem.id}
+          attachmentCount={notesItem.attachmentCount ?? 0}
+          onAttachmentCountChange={(count) => onAttachmentCountChange?.(notesItem.id, count)}
+          otherEditors={getNotesEditors(viewers, notesItem.id, currentUserEmail)}
+          readOnly={readOnly}
         />
       )}
 
+      {/* Item History Drawer */}
+      <ItemHistoryDrawer
+        open={!!historyItemId}
+        checklistId={checklist.id}
+        item={checklist.items.find((i) => i.id === historyItemId) ?? null}
+        onClose={() => setHistoryItemId(null)}
+      />
+
       {/* Item Info Dialog */}
       <Dialog
         open={infoDialogOpen}
@@ -231,12 +357,20 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
               <Divider sx={{ my: 2 }} />
 
               {/* Completion info */}
-              {viewingItem.itemType === 'checkbox' && viewingItem.isCompleted && (
+              {(viewingItem.itemType === 'checkbox' || isValueItemType(viewingItem.itemType)) &&
+                viewingItem.isCompleted && (
+                  <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                    <strong>Completed:</strong>{' '}
+                    {new Date(viewingItem.completedAt!).toLocaleString()}
+                    {' by '}
+                    {viewingItem.completedBy} ({viewingItem.completedByPosition})
+                  </Typography>
+                )}
+
+              {/* Captured value */}
+              {isValueItemType(viewingItem.itemType) && viewingItem.value && (
                 <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
-                  <strong>Completed:</strong>{' '}
-                  {new Date(viewingItem.completedAt!).toLocaleString()}
-                  {' by '}
-                  {viewingItem.completedBy} ({viewingItem.completedByPosition})
+                  <strong>Value:</strong> {formatItemValue(viewingItem)}
                 </Typography>
               )}
 
@@ -247,13 +381,27 @@ export const ChecklistDetailClassic: React.FC<ChecklistDetailClassicProps> = ({
                 </Typography>
               )}
 
+              {/* Due time */}
+              {viewingItem.dueAt && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  <strong>Due:</strong> {new Date(getItemDueTime(viewingItem)!).toLocaleString()}
+                </Typography>
+              )}
+
+              {/* Prerequisites */}
+              {getBlockedReason(viewingItem, checklist.items) && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  <strong>Locked:</strong> {getBlockedReason(viewingItem, checklist.items)}
+                </Typography>
+              )}
+
               {/* Notes */}
-              {viewingItem.notes && (
+              {viewingLatestNote && (
                 <Box sx={{ mt: 2, p: 2, backgroundColor: 'action.hover', borderRadius: 1 }}>
                   <Typography variant="caption" color="text.secondary">
-                    Notes:
+                    Latest note ({viewingItem.notes?.length} total) — {formatNoteAuthor(viewingLatestNote)}:
                   </Typography>
-                  <Typography variant="body2">{viewingItem.notes}</Typography>
+                  <Typography variant="body2">{viewingLatestNote.noteText}</Typography>
                 </Box>
               )}
 
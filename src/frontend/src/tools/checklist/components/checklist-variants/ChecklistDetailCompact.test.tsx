@@ -76,7 +76,10 @@ describe('ChecklistDetailCompact', () => {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
@@ -128,7 +131,10 @@ describe('ChecklistDetailCompact - Sticky Progress Bar', () => {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
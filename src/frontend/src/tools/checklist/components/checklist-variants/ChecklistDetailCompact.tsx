@@ -9,7 +9,13 @@
  * - No shadows, thin borders only
  * - Actions collapsed into single menu button
  * - Status shown as colored dot + label
+ * - Number, text, date/time and yes/no items capture their value inline
  * - More items visible per screen
+ * - Overdue items get a red accent bar and chip
+ * - Items waiting on a prerequisite are locked with the reason shown
+ * - Items in named sections are grouped under collapsible headers with section progress
+ * - Selection mode: select many items and apply one bulk action
+ * - Signed-off checklists are view-only (readOnly)
  */
 
 import React, { useState } from 'react';
@@ -40,16 +46,37 @@ import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faArrowLeft,
   faCopy,
+  faFileExport,
+  faPrint,
+  faListUl,
   faEllipsisVertical,
   faNoteSticky,
   faCircleInfo,
   faCheck,
   faCircle,
+  faClockRotateLeft,
 } from '@fortawesome/free-solid-svg-icons';
 import { ItemNotesDialog } from '../ItemNotesDialog';
+import { ViewerAvatars } from '../ViewerAvatars';
+import { ItemHistoryDrawer } from '../ItemHistoryDrawer';
+import { ItemSectionGroup } from '../ItemSectionGroup';
+import { BulkSelectableItem } from '../BulkSelectableItem';
 import { ChecklistProgressBar } from '../ChecklistProgressBar';
+import { ItemDueChip, overdueItemSx } from '../ItemDueChip';
+import { ItemBlockedNotice, blockedItemSx } from '../ItemBlockedNotice';
+import { ItemValueInput } from '../ItemValueInput';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
+import { getCurrentUser } from '../../../../core/services/api';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
+import { getItemDueTime, isItemOverdue } from '../../utils/itemDue';
+import { countBlockedItems, getBlockedReason } from '../../utils/itemPrerequisites';
+import { formatItemValue, isValueItemType } from '../../utils/itemValue';
+import { getLatestNote, formatNoteAuthor } from '../../utils/itemNotes';
+import { getNotesEditors, getOtherViewers } from '../../utils/presence';
+import { groupItemsBySection, hasItemSections } from '../../utils/itemSections';
+import type { ChecklistViewer } from '../../hooks/useChecklistHub';
 import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { ItemNote } from '../../types';
 import type { StatusOption } from '../../../../types';
 import { c5Colors } from '../../../../theme/c5Theme';
 
@@ -57,8 +84,24 @@ interface ChecklistDetailCompactProps {
   checklist: ChecklistInstanceDto;
   onToggleComplete: (itemId: string, currentStatus: boolean) => Promise<void>;
   onStatusChange: (itemId: string, newStatus: string) => Promise<void>;
-  onSaveNotes: (itemId: string, notes: string) => Promise<void>;
+  onValueChange: (itemId: string, value: string | null) => Promise<void>;
+  /** Note thread callbacks; each resolves true on success */
+  onAddNote: (itemId: string, noteText: string) => Promise<boolean>;
+  onEditNote: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote: (note: ItemNote) => Promise<boolean>;
+  /** Attachments were added or removed in the notes dialog */
+  onAttachmentCountChange?: (itemId: string, count: number) => void;
   onCopy: (mode: 'clone-clean' | 'clone-direct') => void;
+  /** Open the ICS-214 activity log export */
+  onExport?: () => void;
+  /** Open the print / PDF dialog */
+  onPrint?: () => void;
+  /** Open the checklist activity feed */
+  onViewActivity?: () => void;
+  /** Everyone viewing this checklist (live presence) */
+  viewers?: ChecklistViewer[];
+  /** The notes dialog opened (item id) or closed (null) */
+  onNotesOpenChange?: (itemId: string | null) => void;
   isProcessing: (itemId: string) => boolean;
   /** ID of the item to highlight (from landing page navigation) */
   highlightedItemId?: string | null;
@@ -66,6 +109,13 @@ interface ChecklistDetailCompactProps {
   isHighlighting?: boolean;
   /** Ref callback to attach to items for scroll-to behavior */
   getItemRef?: (itemId: string) => (element: HTMLElement | null) => void;
+  /** Bulk action bar (selection mode), shown above the items */
+  bulkActionBar?: React.ReactNode;
+  /** Items selected for a bulk action; rows get a selection checkbox when set */
+  selectedItemIds?: ReadonlySet<string>;
+  onToggleItemSelected?: (itemId: string) => void;
+  /** Signed off: items, notes and attachments are view-only */
+  readOnly?: boolean;
 }
 
 /**
@@ -97,25 +147,37 @@ const CompactItemCard: React.FC<{
   item: ChecklistItemDto;
   onToggleComplete: (itemId: string, currentStatus: boolean) => void;
   onStatusChange: (itemId: string, newStatus: string) => void;
+  onValueChange: (itemId: string, value: string | null) => void;
   onOpenNotes: (item: ChecklistItemDto) => void;
   onViewInfo: (item: ChecklistItemDto) => void;
+  onViewHistory: (item: ChecklistItemDto) => void;
   isProcessing: boolean;
+  now: number;
+  blockedReason: string | null;
   isHighlighted?: boolean;
   itemRef?: (element: HTMLElement | null) => void;
+  readOnly?: boolean;
 }> = ({
   item,
   onToggleComplete,
   onStatusChange,
+  onValueChange,
   onOpenNotes,
   onViewInfo,
+  onViewHistory,
   isProcessing,
+  now,
+  blockedReason,
   isHighlighted,
   itemRef,
+  readOnly = false,
 }) => {
   const { canInteractWithItems } = usePermissions();
+  const canInteract = canInteractWithItems && !readOnly;
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
   const statusOptions = parseStatusOptions(item.statusConfiguration);
-  const hasNotes = Boolean(item.notes);
+  const noteCount = item.notes?.length ?? 0;
+  const hasNotes = noteCount > 0;
 
   return (
     <Card
@@ -130,6 +192,8 @@ const CompactItemCard: React.FC<{
         borderRadius: 1,
         // No shadow for compact feel
         boxShadow: 'none',
+        ...(blockedReason && blockedItemSx),
+        ...(!readOnly && isItemOverdue(item, now) && overdueItemSx),
         // Highlight animation when navigating from landing page
         ...(isHighlighted && {
           animation: 'highlightPulse 1s ease-in-out infinite',
@@ -142,7 +206,7 @@ const CompactItemCard: React.FC<{
           <Checkbox
             checked={item.isCompleted || false}
             onChange={() => onToggleComplete(item.id, item.isCompleted || false)}
-            disabled={isProcessing || !canInteractWithItems}
+            disabled={isProcessing || !canInteract || !!blockedReason}
             size="small"
             sx={{
               p: 0.5,
@@ -165,7 +229,7 @@ const CompactItemCard: React.FC<{
               <Select
                 value={item.currentStatus || ''}
                 onChange={(e) => onStatusChange(item.id, e.target.value)}
-                disabled={isProcessing || !canInteractWithItems}
+                disabled={isProcessing || !canInteract}
                 displayEmpty
                 variant="standard"
                 sx={{
@@ -178,7 +242,12 @@ const CompactItemCard: React.FC<{
                   <em>—</em>
                 </MenuItem>
                 {statusOptions.map((opt) => (
-                  <MenuItem key={opt.label} value={opt.label} sx={{ fontSize: '0.8rem' }}>
+                  <MenuItem
+                    key={opt.label}
+                    value={opt.label}
+                    disabled={opt.isCompletion && !!blockedReason}
+                    sx={{ fontSize: '0.8rem' }}
+                  >
                     {opt.label}
                   </MenuItem>
                 ))}
@@ -187,39 +256,53 @@ const CompactItemCard: React.FC<{
           </Box>
         )}
 
-        {/* Item text */}
-        <Typography
-          variant="body2"
-          sx={{
-            flex: 1,
-            color: item.isCompleted ? 'text.secondary' : 'text.primary',
-            fontSize: '0.875rem',
-          }}
-        >
-          {item.itemText}
-          {item.isRequired && (
-            <Typography component="span" color="error" sx={{ ml: 0.5 }}>
-              *
-            </Typography>
-          )}
-        </Typography>
+        {/* Item text (and lock reason) */}
+        <Box sx={{ flex: 1 }}>
+          <Typography
+            variant="body2"
+            sx={{
+              color: item.isCompleted || blockedReason ? 'text.secondary' : 'text.primary',
+              fontSize: '0.875rem',
+            }}
+          >
+            {item.itemText}
+            {item.isRequired && (
+              <Typography component="span" color="error" sx={{ ml: 0.5 }}>
+                *
+              </Typography>
+            )}
+          </Typography>
+          <ItemBlockedNotice reason={blockedReason} />
+        </Box>
+
+        {/* Value items - inline input */}
+        {isValueItemType(item.itemType) && (
+          <ItemValueInput
+            item={item}
+            onChange={(value) => onValueChange(item.id, value)}
+            disabled={isProcessing || !canInteract || !!blockedReason}
+            sx={{ maxWidth: 200 }}
+          />
+        )}
+
+        {/* Due time / overdue */}
+        {!readOnly && <ItemDueChip item={item} now={now} />}
 
         {/* Notes badge (if has notes) */}
         {hasNotes && (
           <Chip
             size="small"
             icon={<FontAwesomeIcon icon={faNoteSticky} style={{ fontSize: 10 }} />}
-            label=""
+            label={noteCount}
             sx={{
               height: 20,
-              width: 28,
-              '& .MuiChip-label': { px: 0 },
+              '& .MuiChip-label': { px: 0.5 },
             }}
           />
         )}
 
         {/* Completion indicator */}
-        {item.isCompleted && item.itemType === 'checkbox' && (
+        {item.isCompleted && (item.itemType === 'checkbox' || isValueItemType(item.itemType)) && (
           <FontAwesomeIcon
             icon={faCheck}
             style={{ fontSize: 14, color: c5Colors.green }}
@@ -254,7 +337,7 @@ const CompactItemCard: React.FC<{
               <ListItemIcon>
                 <FontAwesomeIcon icon={faNoteSticky} />
               </ListItemIcon>
-              <ListItemText>{hasNotes ? 'Edit Note' : 'Add Note'}</ListItemText>
+              <ListItemText>{hasNotes || readOnly ? 'View Notes' : 'Add Note'}</ListItemText>
             </MenuItem>
           )}
           <MenuItem
@@ -268,6 +351,17 @@ const CompactItemCard: React.FC<{
             </ListItemIcon>
             <ListItemText>View Details</ListItemText>
           </MenuItem>
+          <MenuItem
+            onClick={() => {
+              onViewHistory(item);
+              setMenuAnchor(null);
+            }}
+          >
+            <ListItemIcon>
+              <FontAwesomeIcon icon={faClockRotateLeft} />
+            </ListItemIcon>
+            <ListItemText>View History</ListItemText>
+          </MenuItem>
         </Menu>
       </Box>
     </Card>
@@ -278,35 +372,56 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
   checklist,
   onToggleComplete,
   onStatusChange,
-  onSaveNotes,
+  onValueChange,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+  onAttachmentCountChange,
   onCopy,
+  onExport,
+  onPrint,
+  onViewActivity,
+  viewers = [],
+  onNotesOpenChange,
   isProcessing,
   highlightedItemId,
   isHighlighting,
   getItemRef,
+  bulkActionBar,
+  selectedItemIds,
+  onToggleItemSelected,
+  readOnly = false,
 }) => {
   const navigate = useNavigate();
   const { canInteractWithItems, isReadonly } = usePermissions();
+  const now = useCurrentTime();
 
   // Dialog states
   const [notesDialogOpen, setNotesDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<ChecklistItemDto | null>(null);
   const [infoDialogOpen, setInfoDialogOpen] = useState(false);
   const [viewingItem, setViewingItem] = useState<ChecklistItemDto | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
 
   const handleOpenNotes = (item: ChecklistItemDto) => {
     setEditingItem(item);
     setNotesDialogOpen(true);
+    onNotesOpenChange?.(item.id);
   };
 
-  const handleSaveNotes = async (notes: string) => {
-    if (editingItem) {
-      await onSaveNotes(editingItem.id, notes);
-      setNotesDialogOpen(false);
-      setEditingItem(null);
-    }
+  const handleCloseNotes = () => {
+    setNotesDialogOpen(false);
+    setEditingItem(null);
+    onNotesOpenChange?.(null);
   };
 
+  // Read the item from the checklist so hub updates show in the open dialog
+  const notesItem = editingItem
+    ? checklist.items.find((i) => i.id === editingItem.id) ?? editingItem
+    : null;
+  const currentUserEmail = getCurrentUser().email;
+  const viewingLatestNote = getLatestNote(viewingItem?.notes);
+
   const handleViewInfo = (item: ChecklistItemDto) => {
     setViewingItem(item);
     setInfoDialogOpen(true);
@@ -314,6 +429,32 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
 
   const progressPercentage = Number(checklist.progressPercentage);
 
+  const renderItem = (item: ChecklistItemDto) => (
+    <BulkSelectableItem
+      key={item.id}
+      itemId={item.id}
+      itemText={item.itemText}
+      selectedItemIds={selectedItemIds}
+      onToggleSelected={onToggleItemSelected}
+    >
+      <CompactItemCard
+        item={item}
+        onToggleComplete={onToggleComplete}
+        onStatusChange={onStatusChange}
+        onValueChange={onValueChange}
+        onOpenNotes={handleOpenNotes}
+        onViewInfo={handleViewInfo}
+        onViewHistory={(historyItem) => setHistoryItemId(historyItem.id)}
+        isProcessing={isProcessing(item.id)}
+        now={now}
+        blockedReason={getBlockedReason(item, checklist.items)}
+        isHighlighted={highlightedItemId === item.id && isHighlighting}
+        itemRef={getItemRef?.(item.id)}
+        readOnly={readOnly}
+      />
+    </BulkSelectableItem>
+  );
+
   return (
     <Container maxWidth={false} disableGutters sx={{ py: 2, px: 2 }}>
       {/* Compact Header */}
@@ -332,12 +473,32 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
           </Typography>
         </Box>
 
+        <ViewerAvatars viewers={getOtherViewers(viewers, currentUserEmail)} />
+
         {/* Copy button - only show for users who can interact */}
         {canInteractWithItems && (
           <IconButton size="small" onClick={() => onCopy('clone-clean')}>
             <FontAwesomeIcon icon={faCopy} />
           </IconButton>
         )}
+
+        {onViewActivity && (
+          <IconButton size="small" onClick={onViewActivity} title="Checklist activity">
+            <FontAwesomeIcon icon={faListUl} />
+          </IconButton>
+        )}
+
+        {onExport && (
+          <IconButton size="small" onClick={onExport} title="Export ICS-214">
+            <FontAwesomeIcon icon={faFileExport} />
+          </IconButton>
+        )}
+
+        {onPrint && (
+          <IconButton size="small" onClick={onPrint} title="Print checklist">
+            <FontAwesomeIcon icon={faPrint} />
+          </IconButton>
+        )}
       </Stack>
 
       {/* Sticky Progress Bar */}
@@ -348,6 +509,7 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
         showCount={true}
         completedItems={checklist.completedItems}
         totalItems={checklist.totalItems}
+        blockedItems={countBlockedItems(checklist.items)}
         sticky
       />
 
@@ -368,39 +530,57 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
         </Box>
       )}
 
+      {bulkActionBar}
+
       {/* Items */}
       {checklist.items.length === 0 ? (
         <Box sx={{ p: 4, textAlign: 'center' }}>
           <Typography color="text.secondary">No items</Typography>
         </Box>
-      ) : (
-        checklist.items.map((item) => (
-          <CompactItemCard
-            key={item.id}
-            item={item}
-            onToggleComplete={onToggleComplete}
-            onStatusChange={onStatusChange}
-            onOpenNotes={handleOpenNotes}
-            onViewInfo={handleViewInfo}
-            isProcessing={isProcessing(item.id)}
-            isHighlighted={highlightedItemId === item.id && isHighlighting}
-            itemRef={getItemRef?.(item.id)}
-          />
+      ) : hasItemSections(checklist.items) ? (
+        groupItemsBySection(checklist.items).map((section) => (
+          <ItemSectionGroup
+            key={section.name ?? ''}
+            name={section.name}
+            items={section.items}
+            allItems={checklist.items}
+            forceExpanded={section.items.some((item) => item.id === highlightedItemId)}
+            dense
+          >
+            {section.items.map(renderItem)}
+          </ItemSectionGroup>
         ))
+      ) : (
+        checklist.items.map(renderItem)
       )}
 
       {/* Notes Dialog */}
-      {editingItem && (
+      {notesItem && (
         <ItemNotesDialog
           open={notesDialogOpen}
-          itemText={editingItem.itemText}
-          currentNotes={editingItem.notes}
-          onSave={handleSaveNotes}
-          onCancel={() => setNotesDialogOpen(false)}
-          saving={isProcessing(editingItem.id)}
+          itemText={notesItem.itemText}
+          notes={notesItem.notes}
+          onAddNote={(noteText) => onAddNote(notesItem.id, noteText)}
+          onEditNote={onEditNote}
+          onDeleteNote={onDeleteNote}
+          onClose={handleCloseNotes}
+          checklistId={checklist.id}
+          itemId={notesItem.id}
+          attachmentCount={notesItem.attachmentCount ?? 0}
+          onAttachmentCountChange={(count) => onAttachmentCountChange?.(notesItem.id, count)}
+          otherEditors={getNotesEditors(viewers, notesItem.id, currentUserEmail)}
+          readOnly={readOnly}
         />
       )}
 
+      {/* History Drawer */}
+      <ItemHistoryDrawer
+        open={!!historyItemId}
+        checklistId={checklist.id}
+        item={checklist.items.find((i) => i.id === historyItemId) ?? null}
+        onClose={() => setHistoryItemId(null)}
+      />
+
       {/* Info Dialog */}
       <Dialog open={infoDialogOpen} onClose={() => setInfoDialogOpen(false)} maxWidth="sm" fullWidth>
         <DialogTitle>Item Details</DialogTitle>
@@ -417,10 +597,27 @@ export const ChecklistDetailCompact: React.FC<ChecklistDetailCompactProps> = ({
                   {' by '}{viewingItem.completedBy}
                 </Typography>
               )}
-              {viewingItem.notes && (
+              {isValueItemType(viewingItem.itemType) && viewingItem.value && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  <strong>Value:</strong> {formatItemValue(viewingItem)}
+                </Typography>
+              )}
+              {viewingItem.dueAt && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  <strong>Due:</strong> {new Date(getItemDueTime(viewingItem)!).toLocaleString()}
+                </Typography>
+              )}
+              {getBlockedReason(viewingItem, checklist.items) && (
+                <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                  <strong>Locked:</strong> {getBlockedReason(viewingItem, checklist.items)}
+                </Typography>
+              )}
+              {viewingLatestNote && (
                 <Box sx={{ mt: 2, p: 2, backgroundColor: 'action.hover', borderRadius: 1 }}>
-                  <Typography variant="caption" color="text.secondary">Notes:</Typography>
-                  <Typography variant="body2">{viewingItem.notes}</Typography>
+                  <Typography variant="caption" color="text.secondary">
+                    Latest note ({viewingItem.notes?.length} total) — {formatNoteAuthor(viewingLatestNote)}:
+                  </Typography>
+                  <Typography variant="body2">{viewingLatestNote.noteText}</Typography>
                 </Box>
               )}
             </Box>
@@ -7,6 +7,8 @@
 import { describe, it, expect, vi } from 'vitest';
 import { render, screen } from '@testing-library/react';
 import { BrowserRouter } from 'react-router-dom';
+import { ThemeProvider } from '@mui/material/styles';
+import { cobraTheme } from '../../../../theme/cobraTheme';
 import { ChecklistDetailProgressive } from './ChecklistDetailProgressive';
 import type { ChecklistInstanceDto } from '../../services/checklistService';
 
@@ -66,9 +68,13 @@ const createMockChecklist = (overrides?: Partial<ChecklistInstanceDto>): Checkli
   ...overrides,
 });
 
-// Wrapper component with Router
+// Wrapper with Router and the COBRA theme (the note thread uses styled inputs)
 const renderWithRouter = (ui: React.ReactElement) => {
-  return render(<BrowserRouter>{ui}</BrowserRouter>);
+  return render(
+    <ThemeProvider theme={cobraTheme}>
+      <BrowserRouter>{ui}</BrowserRouter>
+    </ThemeProvider>
+  );
 };
 
 describe('ChecklistDetailProgressive', () => {
@@ -76,7 +82,10 @@ describe('ChecklistDetailProgressive', () => {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
@@ -143,7 +152,10 @@ describe('ChecklistDetailProgressive - Sticky Progress Bar', () => {
     checklist: createMockChecklist(),
     onToggleComplete: vi.fn(),
     onStatusChange: vi.fn(),
-    onSaveNotes: vi.fn(),
+    onValueChange: vi.fn(),
+    onAddNote: vi.fn(),
+    onEditNote: vi.fn(),
+    onDeleteNote: vi.fn(),
     onCopy: vi.fn(),
     isProcessing: () => false,
   };
@@ -6,9 +6,14 @@
  *
  * Key differences from Control:
  * - Default: Just checkbox + text + expand chevron
- * - Single tap expands to show notes, status, metadata
+ * - Single tap expands to show notes, status, value input, metadata and history link
  * - Only one item expanded at a time (accordion)
  * - Keeps all functionality but hides complexity
+ * - Overdue items get a red accent bar and chip
+ * - Items waiting on a prerequisite are locked with the reason shown
+ * - Items in named sections are grouped under collapsible headers with section progress
+ * - Selection mode: select many items and apply one bulk action
+ * - Signed-off checklists are view-only (readOnly)
  */
 
 import React, { useState } from 'react';
@@ -24,24 +29,44 @@ import {
   MenuItem,
   FormControl,
   InputLabel,
-  TextField,
-  Button,
   Stack,
   Paper,
   Divider,
+  Button,
+  Alert,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
 import {
   faArrowLeft,
   faCopy,
+  faFileExport,
+  faPrint,
+  faListUl,
   faChevronDown,
   faChevronUp,
   faCheck,
-  faSave,
+  faClockRotateLeft,
 } from '@fortawesome/free-solid-svg-icons';
 import { ChecklistProgressBar } from '../ChecklistProgressBar';
+import { ItemDueChip, overdueItemSx } from '../ItemDueChip';
+import { ItemBlockedNotice, blockedItemSx } from '../ItemBlockedNotice';
+import { ItemValueInput } from '../ItemValueInput';
+import { ItemNoteThread } from '../ItemNoteThread';
+import { ItemHistoryDrawer } from '../ItemHistoryDrawer';
+import { ItemSectionGroup } from '../ItemSectionGroup';
+import { BulkSelectableItem } from '../BulkSelectableItem';
+import { ViewerAvatars } from '../ViewerAvatars';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
+import { getCurrentUser } from '../../../../core/services/api';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
+import { getItemDueTime, isItemOverdue } from '../../utils/itemDue';
+import { countBlockedItems, getBlockedReason } from '../../utils/itemPrerequisites';
+import { formatItemValue, isValueItemType } from '../../utils/itemValue';
+import { formatNotesEditors, getNotesEditors, getOtherViewers } from '../../utils/presence';
+import { groupItemsBySection, hasItemSections } from '../../utils/itemSections';
+import type { ChecklistViewer } from '../../hooks/useChecklistHub';
 import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { ItemNote } from '../../types';
 import type { StatusOption } from '../../../../types';
 import { c5Colors } from '../../../../theme/c5Theme';
 
@@ -49,8 +74,22 @@ interface ChecklistDetailProgressiveProps {
   checklist: ChecklistInstanceDto;
   onToggleComplete: (itemId: string, currentStatus: boolean) => Promise<void>;
   onStatusChange: (itemId: string, newStatus: string) => Promise<void>;
-  onSaveNotes: (itemId: string, notes: string) => Promise<void>;
+  onValueChange: (itemId: string, value: string | null) => Promise<void>;
+  /** Note thread callbacks; each resolves true on success */
+  onAddNote: (itemId: string, noteText: string) => Promise<boolean>;
+  onEditNote: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote: (note: ItemNote) => Promise<boolean>;
   onCopy: (mode: 'clone-clean' | 'clone-direct') => void;
+  /** Open the ICS-214 activity log export */
+  onExport?: () => void;
+  /** Open the print / PDF dialog */
+  onPrint?: () => void;
+  /** Open the checklist activity feed */
+  onViewActivity?: () => void;
+  /** Everyone viewing this checklist (live presence) */
+  viewers?: ChecklistViewer[];
+  /** An item was expanded (its notes are open) or collapsed (null) */
+  onNotesOpenChange?: (itemId: string | null) => void;
   isProcessing: (itemId: string) => boolean;
   /** ID of the item to highlight (from landing page navigation) */
   highlightedItemId?: string | null;
@@ -58,6 +97,13 @@ interface ChecklistDetailProgressiveProps {
   isHighlighting?: boolean;
   /** Ref callback to attach to items for scroll-to behavior */
   getItemRef?: (itemId: string) => (element: HTMLElement | null) => void;
+  /** Bulk action bar (selection mode), shown above the items */
+  bulkActionBar?: React.ReactNode;
+  /** Items selected for a bulk action; rows get a selection checkbox when set */
+  selectedItemIds?: ReadonlySet<string>;
+  onToggleItemSelected?: (itemId: string) => void;
+  /** Signed off: items, notes and attachments are view-only */
+  readOnly?: boolean;
 }
 
 /**
@@ -81,42 +127,42 @@ const ProgressiveItem: React.FC<{
   onToggleExpand: () => void;
   onToggleComplete: (itemId: string, currentStatus: boolean) => void;
   onStatusChange: (itemId: string, newStatus: string) => void;
-  onSaveNotes: (itemId: string, notes: string) => void;
+  onValueChange: (itemId: string, value: string | null) => void;
+  onAddNote: (itemId: string, noteText: string) => Promise<boolean>;
+  onEditNote: (note: ItemNote, noteText: string) => Promise<boolean>;
+  onDeleteNote: (note: ItemNote) => Promise<boolean>;
+  onViewHistory: (item: ChecklistItemDto) => void;
+  /** Other people with this item's notes open */
+  notesEditors: ChecklistViewer[];
   isProcessing: boolean;
+  now: number;
+  blockedReason: string | null;
   isHighlighted?: boolean;
   itemRef?: (element: HTMLElement | null) => void;
+  readOnly?: boolean;
 }> = ({
   item,
   isExpanded,
   onToggleExpand,
   onToggleComplete,
   onStatusChange,
-  onSaveNotes,
+  onValueChange,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
+  onViewHistory,
+  notesEditors,
   isProcessing,
+  now,
+  blockedReason,
   isHighlighted,
   itemRef,
+  readOnly = false,
 }) => {
   const { canInteractWithItems } = usePermissions();
-  const [editedNotes, setEditedNotes] = useState(item.notes || '');
-  const [notesChanged, setNotesChanged] = useState(false);
+  const canInteract = canInteractWithItems && !readOnly;
   const statusOptions = parseStatusOptions(item.statusConfiguration);
 
-  const handleNotesChange = (value: string) => {
-    setEditedNotes(value);
-    setNotesChanged(value !== (item.notes || ''));
-  };
-
-  const handleSaveNotes = () => {
-    onSaveNotes(item.id, editedNotes);
-    setNotesChanged(false);
-  };
-
-  // Reset notes when item changes
-  React.useEffect(() => {
-    setEditedNotes(item.notes || '');
-    setNotesChanged(false);
-  }, [item.notes]);
-
   return (
     <Box
       ref={itemRef}
@@ -124,6 +170,8 @@ const ProgressiveItem: React.FC<{
         borderBottom: '1px solid',
         borderColor: 'divider',
         backgroundColor: item.isCompleted ? 'action.hover' : 'background.paper',
+        ...(blockedReason && blockedItemSx),
+        ...(!readOnly && isItemOverdue(item, now) && overdueItemSx),
         // Highlight animation when navigating from landing page
         ...(isHighlighted && {
           animation: 'highlightPulse 1s ease-in-out infinite',
@@ -155,7 +203,7 @@ const ProgressiveItem: React.FC<{
               e.stopPropagation();
               onToggleComplete(item.id, item.isCompleted || false);
             }}
-            disabled={isProcessing || !canInteractWithItems}
+            disabled={isProcessing || !canInteract || !!blockedReason}
             onClick={(e) => e.stopPropagation()}
             sx={{
               p: 0.5,
@@ -164,8 +212,8 @@ const ProgressiveItem: React.FC<{
           />
         )}
 
-        {/* Status indicator for status items */}
-        {item.itemType === 'status' && (
+        {/* Status indicator for status and value items */}
+        {(item.itemType === 'status' || isValueItemType(item.itemType)) && (
           <Box
             sx={{
               width: 32,
@@ -175,11 +223,11 @@ const ProgressiveItem: React.FC<{
               justifyContent: 'center',
             }}
           >
-            {item.currentStatus ? (
+            {item.currentStatus || item.value ? (
               <FontAwesomeIcon
                 icon={faCheck}
                 style={{
-                  color: statusOptions.find(o => o.label === item.currentStatus)?.isCompletion
+                  color: item.value || statusOptions.find(o => o.label === item.currentStatus)?.isCompletion
                     ? c5Colors.green
                     : c5Colors.cobaltBlue,
                   fontSize: 16,
@@ -199,26 +247,30 @@ const ProgressiveItem: React.FC<{
           </Box>
         )}
 
-        {/* Item text */}
-        <Typography
-          variant="body1"
-          sx={{
-            flex: 1,
-            color: item.isCompleted ? 'text.secondary' : 'text.primary',
-          }}
-        >
-          {item.itemText}
-          {item.isRequired && (
-            <Typography component="span" color="error" sx={{ ml: 0.5 }}>
-              *
-            </Typography>
-          )}
-        </Typography>
+        {/* Item text (and lock reason) */}
+        <Box sx={{ flex: 1 }}>
+          <Typography
+            variant="body1"
+            sx={{
+              color: item.isCompleted || blockedReason ? 'text.secondary' : 'text.primary',
+            }}
+          >
+            {item.itemText}
+            {item.isRequired && (
+              <Typography component="span" color="error" sx={{ ml: 0.5 }}>
+                *
+              </Typography>
+            )}
+          </Typography>
+          <ItemBlockedNotice reason={blockedReason} />
+        </Box>
 
         {/* Indicators */}
-        {item.notes && (
+        {!readOnly && <ItemDueChip item={item} now={now} />}
+
+        {item.notes && item.notes.length > 0 && (
           <Typography variant="caption" color="text.secondary" sx={{ mr: 1 }}>
-            📝
+            📝 {item.notes.length}
           </Typography>
         )}
 
@@ -234,6 +286,12 @@ const ProgressiveItem: React.FC<{
           </Typography>
         )}
 
+        {isValueItemType(item.itemType) && item.value && (
+          <Typography variant="caption" color="success.main" sx={{ mr: 1 }}>
+            {formatItemValue(item)}
+          </Typography>
+        )}
+
         {/* Expand chevron */}
         <FontAwesomeIcon
           icon={isExpanded ? faChevronUp : faChevronDown}
@@ -262,13 +320,17 @@ const ProgressiveItem: React.FC<{
                 value={item.currentStatus || ''}
                 onChange={(e) => onStatusChange(item.id, e.target.value)}
                 label="Status"
-                disabled={isProcessing || !canInteractWithItems}
+                disabled={isProcessing || !canInteract}
               >
                 <MenuItem value="">
                   <em>(Not set)</em>
                 </MenuItem>
                 {statusOptions.map((opt) => (
-                  <MenuItem key={opt.label} value={opt.label}>
+                  <MenuItem
+                    key={opt.label}
+                    value={opt.label}
+                    disabled={opt.isCompletion && !!blockedReason}
+                  >
                     {opt.label}
                     {opt.isCompletion && ' ✓'}
                   </MenuItem>
@@ -277,36 +339,43 @@ const ProgressiveItem: React.FC<{
             </FormControl>
           )}
 
-          {/* Notes editor - show read-only for readonly users */}
-          <TextField
-            label="Notes"
-            multiline
-            rows={2}
-            fullWidth
-            size="small"
-            value={editedNotes}
-            onChange={(e) => handleNotesChange(e.target.value)}
-            placeholder={canInteractWithItems ? "Add notes about this item..." : "No notes"}
-            sx={{ mb: 1 }}
-            disabled={!canInteractWithItems}
-          />
-
-          {notesChanged && canInteractWithItems && (
-            <Button
-              size="small"
-              variant="contained"
-              startIcon={<FontAwesomeIcon icon={faSave} />}
-              onClick={handleSaveNotes}
-              disabled={isProcessing}
+          {/* Value input (for number, text, date/time and yes/no items) */}
+          {isValueItemType(item.itemType) && (
+            <ItemValueInput
+              item={item}
+              onChange={(value) => onValueChange(item.id, value)}
+              disabled={isProcessing || !canInteract || !!blockedReason}
               sx={{ mb: 2 }}
-            >
-              Save Notes
-            </Button>
+            />
           )}
 
+          {/* Note thread - read-only for readonly users */}
+          <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+            Notes
+          </Typography>
+          {notesEditors.length > 0 && (
+            <Alert severity="info" sx={{ mb: 1 }}>
+              {formatNotesEditors(notesEditors)}
+            </Alert>
+          )}
+          <Box sx={{ mb: 2 }}>
+            <ItemNoteThread
+              notes={item.notes ?? []}
+              onAddNote={(noteText) => onAddNote(item.id, noteText)}
+              onEditNote={onEditNote}
+              onDeleteNote={onDeleteNote}
+              readOnly={readOnly}
+            />
+          </Box>
+
           {/* Metadata */}
           <Divider sx={{ my: 1 }} />
           <Stack spacing={0.5}>
+            {item.dueAt && (
+              <Typography variant="caption" color="text.secondary">
+                Due: {new Date(getItemDueTime(item)!).toLocaleString()}
+              </Typography>
+            )}
             {item.isCompleted && item.completedBy && (
               <Typography variant="caption" color="text.secondary">
                 Completed: {new Date(item.completedAt!).toLocaleString()} by{' '}
@@ -323,6 +392,14 @@ const ProgressiveItem: React.FC<{
               Created: {new Date(item.createdAt).toLocaleString()}
             </Typography>
           </Stack>
+          <Button
+            size="small"
+            startIcon={<FontAwesomeIcon icon={faClockRotateLeft} />}
+            onClick={() => onViewHistory(item)}
+            sx={{ mt: 1 }}
+          >
+            View History
+          </Button>
         </Box>
       </Collapse>
     </Box>
@@ -333,23 +410,71 @@ export const ChecklistDetailProgressive: React.FC<ChecklistDetailProgressiveProp
   checklist,
   onToggleComplete,
   onStatusChange,
-  onSaveNotes,
+  onValueChange,
+  onAddNote,
+  onEditNote,
+  onDeleteNote,
   onCopy,
+  onExport,
+  onPrint,
+  onViewActivity,
+  viewers = [],
+  onNotesOpenChange,
   isProcessing,
   highlightedItemId,
   isHighlighting,
   getItemRef,
+  bulkActionBar,
+  selectedItemIds,
+  onToggleItemSelected,
+  readOnly = false,
 }) => {
   const navigate = useNavigate();
   const { canInteractWithItems, isReadonly } = usePermissions();
   const [expandedItemId, setExpandedItemId] = useState<string | null>(null);
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+  const now = useCurrentTime();
 
   const handleToggleExpand = (itemId: string) => {
-    setExpandedItemId((prev) => (prev === itemId ? null : itemId));
+    const next = expandedItemId === itemId ? null : itemId;
+    setExpandedItemId(next);
+    onNotesOpenChange?.(next);
   };
 
+  const currentUserEmail = getCurrentUser().email;
+
   const progressPercentage = Number(checklist.progressPercentage);
 
+  const renderItem = (item: ChecklistItemDto) => (
+    <BulkSelectableItem
+      key={item.id}
+      itemId={item.id}
+      itemText={item.itemText}
+      selectedItemIds={selectedItemIds}
+      onToggleSelected={onToggleItemSelected}
+    >
+      <ProgressiveItem
+        item={item}
+        isExpanded={expandedItemId === item.id}
+        onToggleExpand={() => handleToggleExpand(item.id)}
+        onToggleComplete={onToggleComplete}
+        onStatusChange={onStatusChange}
+        onValueChange={onValueChange}
+        onAddNote={onAddNote}
+        onEditNote={onEditNote}
+        onDeleteNote={onDeleteNote}
+        onViewHistory={(historyItem) => setHistoryItemId(historyItem.id)}
+        notesEditors={getNotesEditors(viewers, item.id, currentUserEmail)}
+        isProcessing={isProcessing(item.id)}
+        now={now}
+        blockedReason={getBlockedReason(item, checklist.items)}
+        isHighlighted={highlightedItemId === item.id && isHighlighting}
+        itemRef={getItemRef?.(item.id)}
+        readOnly={readOnly}
+      />
+    </BulkSelectableItem>
+  );
+
   return (
     <Container maxWidth={false} disableGutters sx={{ py: 2, px: 2 }}>
       {/* Header */}
@@ -368,12 +493,32 @@ export const ChecklistDetailProgressive: React.FC<ChecklistDetailProgressiveProp
           </Typography>
         </Box>
 
+        <ViewerAvatars viewers={getOtherViewers(viewers, currentUserEmail)} />
+
         {/* Copy button - only show for users who can interact */}
         {canInteractWithItems && (
           <IconButton size="small" onClick={() => onCopy('clone-clean')}>
             <FontAwesomeIcon icon={faCopy} />
           </IconButton>
         )}
+
+        {onViewActivity && (
+          <IconButton size="small" onClick={onViewActivity} title="Checklist activity">
+            <FontAwesomeIcon icon={faListUl} />
+          </IconButton>
+        )}
+
+        {onExport && (
+          <IconButton size="small" onClick={onExport} title="Export ICS-214">
+            <FontAwesomeIcon icon={faFileExport} />
+          </IconButton>
+        )}
+
+        {onPrint && (
+          <IconButton size="small" onClick={onPrint} title="Print checklist">
+            <FontAwesomeIcon icon={faPrint} />
+          </IconButton>
+        )}
       </Stack>
 
       {/* Sticky Progress Bar */}
@@ -384,6 +529,7 @@ export const ChecklistDetailProgressive: React.FC<ChecklistDetailProgressiveProp
         showCount={true}
         completedItems={checklist.completedItems}
         totalItems={checklist.totalItems}
+        blockedItems={countBlockedItems(checklist.items)}
         sticky
       />
 
@@ -417,34 +563,43 @@ export const ChecklistDetailProgressive: React.FC<ChecklistDetailProgressiveProp
         color="text.secondary"
         sx={{ display: 'block', mb: 1, fontStyle: 'italic' }}
       >
-        {canInteractWithItems
+        {canInteractWithItems && !readOnly
           ? 'Tap an item to expand details and add notes'
           : 'Tap an item to view details'}
       </Typography>
 
+      {bulkActionBar}
+
       {/* Items */}
       <Paper variant="outlined" sx={{ overflow: 'hidden' }}>
         {checklist.items.length === 0 ? (
           <Box sx={{ p: 4, textAlign: 'center' }}>
             <Typography color="text.secondary">No items in this checklist</Typography>
           </Box>
-        ) : (
-          checklist.items.map((item) => (
-            <ProgressiveItem
-              key={item.id}
-              item={item}
-              isExpanded={expandedItemId === item.id}
-              onToggleExpand={() => handleToggleExpand(item.id)}
-              onToggleComplete={onToggleComplete}
-              onStatusChange={onStatusChange}
-              onSaveNotes={onSaveNotes}
-              isProcessing={isProcessing(item.id)}
-              isHighlighted={highlightedItemId === item.id && isHighlighting}
-              itemRef={getItemRef?.(item.id)}
-            />
+        ) : hasItemSections(checklist.items) ? (
+          groupItemsBySection(checklist.items).map((section) => (
+            <ItemSectionGroup
+              key={section.name ?? ''}
+              name={section.name}
+              items={section.items}
+              allItems={checklist.items}
+              forceExpanded={section.items.some((item) => item.id === highlightedItemId)}
+            >
+              {section.items.map(renderItem)}
+            </ItemSectionGroup>
           ))
+        ) : (
+          checklist.items.map(renderItem)
         )}
       </Paper>
+
+      {/* History Drawer */}
+      <ItemHistoryDrawer
+        open={!!historyItemId}
+        checklistId={checklist.id}
+        item={checklist.items.find((i) => i.id === historyItemId) ?? null}
+        onClose={() => setHistoryItemId(null)}
+      />
     </Container>
   );
 };
@@ -9,6 +9,9 @@
  * - No cards, shadows, or heavy visual elements
  * - Actions revealed on hover/tap via subtle icon
  * - Status items show inline pill selector
+ * - Number, text, date/time and yes/no items capture their value inline
+ * - Due time chip; overdue items get a red accent bar
+ * - Items waiting on a prerequisite are locked with the reason shown
  */
 
 import React, { useState } from 'react';
@@ -31,8 +34,14 @@ import {
   faNoteSticky,
   faCircleInfo,
   faCheck,
+  faClockRotateLeft,
 } from '@fortawesome/free-solid-svg-icons';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
+import { ItemDueChip, overdueItemSx } from '../ItemDueChip';
+import { ItemBlockedNotice, blockedItemSx } from '../ItemBlockedNotice';
+import { ItemValueInput } from '../ItemValueInput';
+import { isItemOverdue } from '../../utils/itemDue';
+import { isValueItemType } from '../../utils/itemValue';
 import type { ChecklistItemDto } from '../../services/checklistService';
 import type { StatusOption } from '../../../../types';
 import { c5Colors } from '../../../../theme/c5Theme';
@@ -41,13 +50,22 @@ interface ChecklistItemClassicProps {
   item: ChecklistItemDto;
   onToggleComplete: (itemId: string, currentStatus: boolean) => void;
   onStatusChange: (itemId: string, newStatus: string) => void;
+  onValueChange: (itemId: string, value: string | null) => void;
   onOpenNotes: (item: ChecklistItemDto) => void;
   onViewInfo: (item: ChecklistItemDto) => void;
+  /** Open the item's history timeline */
+  onViewHistory: (item: ChecklistItemDto) => void;
   isProcessing: boolean;
+  /** Current time (ms since epoch) for due/overdue display */
+  now: number;
+  /** Why the item is locked (incomplete prerequisites), null when it can be completed */
+  blockedReason: string | null;
   /** Whether this item should be highlighted */
   isHighlighted?: boolean;
   /** Ref callback for scroll-to behavior */
   itemRef?: (element: HTMLElement | null) => void;
+  /** Checklist is signed off: view only */
+  readOnly?: boolean;
 }
 
 /**
@@ -66,7 +84,7 @@ const parseStatusOptions = (config?: string | null): StatusOption[] => {
  * Get completion status display
  */
 const getCompletionDisplay = (item: ChecklistItemDto) => {
-  if (item.itemType === 'checkbox' && item.isCompleted) {
+  if ((item.itemType === 'checkbox' || isValueItemType(item.itemType)) && item.isCompleted) {
     // Show who completed it (abbreviated)
     const name = item.completedBy?.split(' ')[0] || 'Done';
     return { label: name, bgColor: c5Colors.green, textColor: c5Colors.white };
@@ -86,19 +104,28 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
   item,
   onToggleComplete,
   onStatusChange,
+  onValueChange,
   onOpenNotes,
   onViewInfo,
+  onViewHistory,
   isProcessing,
+  now,
+  blockedReason,
   isHighlighted,
   itemRef,
+  readOnly = false,
 }) => {
   const { canInteractWithItems } = usePermissions();
+  const canInteract = canInteractWithItems && !readOnly;
   const [menuAnchor, setMenuAnchor] = useState<null | HTMLElement>(null);
   const [isHovered, setIsHovered] = useState(false);
+  // Signed-off checklists are locked, so open items are no longer flagged overdue
+  const isOverdue = !readOnly && isItemOverdue(item, now);
 
   const completionDisplay = getCompletionDisplay(item);
   const statusOptions = parseStatusOptions(item.statusConfiguration);
-  const hasNotes = Boolean(item.notes);
+  const noteCount = item.notes?.length ?? 0;
+  const hasNotes = noteCount > 0;
 
   const handleMenuOpen = (event: React.MouseEvent<HTMLElement>) => {
     event.stopPropagation();
@@ -129,6 +156,8 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
         },
         // Touch-friendly minimum height
         minHeight: 56,
+        ...(blockedReason && blockedItemSx),
+        ...(isOverdue && overdueItemSx),
         // Highlight animation when navigating from landing page
         ...(isHighlighted && {
           animation: 'highlightPulse 1s ease-in-out infinite',
@@ -141,7 +170,7 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
         <Checkbox
           checked={item.isCompleted || false}
           onChange={() => onToggleComplete(item.id, item.isCompleted || false)}
-          disabled={isProcessing || !canInteractWithItems}
+          disabled={isProcessing || !canInteract || !!blockedReason}
           sx={{
             p: 0.5,
             '& .MuiSvgIcon-root': {
@@ -157,7 +186,7 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
           <Select
             value={item.currentStatus || ''}
             onChange={(e) => onStatusChange(item.id, e.target.value)}
-            disabled={isProcessing || !canInteractWithItems}
+            disabled={isProcessing || !canInteract}
             displayEmpty
             sx={{
               fontSize: '0.875rem',
@@ -170,7 +199,11 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
               <em>—</em>
             </MenuItem>
             {statusOptions.map((opt) => (
-              <MenuItem key={opt.label} value={opt.label}>
+              <MenuItem
+                key={opt.label}
+                value={opt.label}
+                disabled={opt.isCompletion && !!blockedReason}
+              >
                 {opt.label}
                 {opt.isCompletion && (
                   <FontAwesomeIcon
@@ -184,28 +217,43 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
         </FormControl>
       )}
 
-      {/* Item text */}
-      <Typography
-        variant="body1"
-        sx={{
-          flex: 1,
-          color: item.isCompleted ? 'text.secondary' : 'text.primary',
-          // No strikethrough - just color change
-        }}
-      >
-        {item.itemText}
-        {item.isRequired && (
-          <Typography component="span" color="error" sx={{ ml: 0.5 }}>
-            *
-          </Typography>
-        )}
-      </Typography>
+      {/* Item text (and lock reason) */}
+      <Box sx={{ flex: 1 }}>
+        <Typography
+          variant="body1"
+          sx={{
+            color: item.isCompleted || blockedReason ? 'text.secondary' : 'text.primary',
+            // No strikethrough - just color change
+          }}
+        >
+          {item.itemText}
+          {item.isRequired && (
+            <Typography component="span" color="error" sx={{ ml: 0.5 }}>
+              *
+            </Typography>
+          )}
+        </Typography>
+        <ItemBlockedNotice reason={blockedReason} />
+      </Box>
+
+      {/* Value input (for number, text, date/time and yes/no items) */}
+      {isValueItemType(item.itemType) && (
+        <ItemValueInput
+          item={item}
+          onChange={(value) => onValueChange(item.id, value)}
+          disabled={isProcessing || !canInteract || !!blockedReason}
+          sx={{ maxWidth: 240 }}
+        />
+      )}
+
+      {/* Due time / overdue */}
+      {!readOnly && <ItemDueChip item={item} now={now} />}
 
       {/* Notes indicator (always visible if has notes) */}
       {hasNotes && (
         <Chip
           icon={<FontAwesomeIcon icon={faNoteSticky} style={{ fontSize: 12 }} />}
-          label="Note"
+          label={noteCount === 1 ? '1 note' : `${noteCount} notes`}
           size="small"
           variant="outlined"
           onClick={() => onOpenNotes(item)}
@@ -270,7 +318,7 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
             <ListItemIcon>
               <FontAwesomeIcon icon={faNoteSticky} />
             </ListItemIcon>
-            <ListItemText>{hasNotes ? 'Edit Note' : 'Add Note'}</ListItemText>
+            <ListItemText>{hasNotes || readOnly ? 'View Notes' : 'Add Note'}</ListItemText>
           </MenuItem>
         )}
         <MenuItem
@@ -284,6 +332,17 @@ export const ChecklistItemClassic: React.FC<ChecklistItemClassicProps> = ({
           </ListItemIcon>
           <ListItemText>View Details</ListItemText>
         </MenuItem>
+        <MenuItem
+          onClick={() => {
+            onViewHistory(item);
+            handleMenuClose();
+          }}
+        >
+          <ListItemIcon>
+            <FontAwesomeIcon icon={faClockRotateLeft} />
+          </ListItemIcon>
+          <ListItemText>View History</ListItemText>
+        </MenuItem>
       </Menu>
     </Box>
   );
@@ -56,12 +56,14 @@ import { useChecklists } from '../../hooks/useChecklists';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
 import { useEvents } from '../../../../shared/events';
 import { TemplatePickerDialog } from '../TemplatePickerDialog';
+import { SuggestedTemplates } from '../SuggestedTemplates';
 import { ChecklistVisibilityToggle, getStoredVisibilityPreference } from '../ChecklistVisibilityToggle';
 import { CobraNewButton } from '../../../../theme/styledComponents';
 import CobraStyles from '../../../../theme/CobraStyles';
 import { cobraTheme } from '../../../../theme/cobraTheme';
 import { toast } from 'react-toastify';
-import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { Template } from '../../types';
+import { checklistService, type ChecklistInstanceDto, type ChecklistItemDto } from '../../services/checklistService';
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -93,6 +95,7 @@ export const LandingRoleAdaptive: React.FC = () => {
   const { currentEvent } = useEvents();
   const [activeTab, setActiveTab] = useState(0);
   const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [pickerTemplateId, setPickerTemplateId] = useState<string | undefined>();
   const [showAllChecklists, setShowAllChecklists] = useState(getStoredVisibilityPreference);
 
   // Helper function to fetch checklists
@@ -222,6 +225,17 @@ export const LandingRoleAdaptive: React.FC = () => {
     navigate(`/checklists/${checklistId}`);
   };
 
+  // Open the template picker with a suggested template selected
+  const handleSuggestedTemplate = (template: Template) => {
+    setPickerTemplateId(template.id);
+    setTemplatePickerOpen(true);
+  };
+
+  const handleClosePicker = () => {
+    setTemplatePickerOpen(false);
+    setPickerTemplateId(undefined);
+  };
+
   // Handle creating a new checklist
   const handleCreateChecklist = async (templateId: string, checklistName: string) => {
     try {
@@ -257,6 +271,29 @@ export const LandingRoleAdaptive: React.FC = () => {
     }
   };
 
+  // Handle creating one checklist from several templates
+  const handleCreateCombinedChecklist = async (
+    templateIds: string[],
+    checklistName: string,
+    excludedTemplateItemIds: string[]
+  ) => {
+    try {
+      const newChecklist = await checklistService.createCombinedChecklist({
+        templateIds,
+        excludedTemplateItemIds,
+        name: checklistName,
+        eventId: currentEvent?.id,
+        eventName: currentEvent?.name,
+      });
+      toast.success(`Checklist "${checklistName}" created`);
+      navigate(`/checklists/${newChecklist.id}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create checklist';
+      toast.error(message);
+      throw err;
+    }
+  };
+
   // Loading state
   if (loading && checklists.length === 0) {
     return (
@@ -307,6 +344,9 @@ export const LandingRoleAdaptive: React.FC = () => {
           </Box>
         </Box>
 
+        {/* Suggested Templates */}
+        {permissions.canCreateInstance && <SuggestedTemplates onSelect={handleSuggestedTemplate} />}
+
         {/* Tabs */}
         <Paper variant="outlined">
           <Tabs
@@ -587,8 +627,10 @@ export const LandingRoleAdaptive: React.FC = () => {
         {/* Template Picker Dialog */}
         <TemplatePickerDialog
           open={templatePickerOpen}
-          onClose={() => setTemplatePickerOpen(false)}
+          onClose={handleClosePicker}
           onCreateChecklist={handleCreateChecklist}
+          onCreateCombinedChecklist={handleCreateCombinedChecklist}
+          initialTemplateId={pickerTemplateId}
         />
       </Stack>
     </Container>
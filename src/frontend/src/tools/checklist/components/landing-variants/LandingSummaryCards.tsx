@@ -42,12 +42,14 @@ import { useChecklists } from '../../hooks/useChecklists';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
 import { useEvents } from '../../../../shared/events';
 import { TemplatePickerDialog } from '../TemplatePickerDialog';
+import { SuggestedTemplates } from '../SuggestedTemplates';
 import { ChecklistVisibilityToggle, getStoredVisibilityPreference } from '../ChecklistVisibilityToggle';
 import { CobraNewButton } from '../../../../theme/styledComponents';
 import CobraStyles from '../../../../theme/CobraStyles';
 import { cobraTheme } from '../../../../theme/cobraTheme';
 import { toast } from 'react-toastify';
-import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { Template } from '../../types';
+import { checklistService, type ChecklistInstanceDto, type ChecklistItemDto } from '../../services/checklistService';
 
 interface IncompleteItem {
   item: ChecklistItemDto;
@@ -63,6 +65,7 @@ export const LandingSummaryCards: React.FC = () => {
   const permissions = usePermissions();
   const { currentEvent } = useEvents();
   const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [pickerTemplateId, setPickerTemplateId] = useState<string | undefined>();
   const [showAllChecklists, setShowAllChecklists] = useState(getStoredVisibilityPreference);
 
   // Fetch checklists filtered by current event
@@ -172,6 +175,17 @@ export const LandingSummaryCards: React.FC = () => {
     navigate('/checklists?landing=control&filter=incomplete');
   };
 
+  // Open the template picker with a suggested template selected
+  const handleSuggestedTemplate = (template: Template) => {
+    setPickerTemplateId(template.id);
+    setTemplatePickerOpen(true);
+  };
+
+  const handleClosePicker = () => {
+    setTemplatePickerOpen(false);
+    setPickerTemplateId(undefined);
+  };
+
   // Handle creating a new checklist
   const handleCreateChecklist = async (templateId: string, checklistName: string) => {
     try {
@@ -207,6 +221,29 @@ export const LandingSummaryCards: React.FC = () => {
     }
   };
 
+  // Handle creating one checklist from several templates
+  const handleCreateCombinedChecklist = async (
+    templateIds: string[],
+    checklistName: string,
+    excludedTemplateItemIds: string[]
+  ) => {
+    try {
+      const newChecklist = await checklistService.createCombinedChecklist({
+        templateIds,
+        excludedTemplateItemIds,
+        name: checklistName,
+        eventId: currentEvent?.id,
+        eventName: currentEvent?.name,
+      });
+      toast.success(`Checklist "${checklistName}" created`);
+      navigate(`/checklists/${newChecklist.id}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create checklist';
+      toast.error(message);
+      throw err;
+    }
+  };
+
   // Loading state
   if (loading && checklists.length === 0) {
     return (
@@ -434,6 +471,9 @@ export const LandingSummaryCards: React.FC = () => {
           </Box>
         )}
 
+        {/* Suggested Templates */}
+        {permissions.canCreateInstance && <SuggestedTemplates onSelect={handleSuggestedTemplate} />}
+
         {/* Empty State */}
         {stats.totalChecklists === 0 && (
           <Paper variant="outlined" sx={{ p: 4, textAlign: 'center' }}>
@@ -459,8 +499,10 @@ export const LandingSummaryCards: React.FC = () => {
         {/* Template Picker Dialog */}
         <TemplatePickerDialog
           open={templatePickerOpen}
-          onClose={() => setTemplatePickerOpen(false)}
+          onClose={handleClosePicker}
           onCreateChecklist={handleCreateChecklist}
+          onCreateCombinedChecklist={handleCreateCombinedChecklist}
+          initialTemplateId={pickerTemplateId}
         />
       </Stack>
     </Container>
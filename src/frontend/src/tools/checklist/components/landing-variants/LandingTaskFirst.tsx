@@ -3,6 +3,7 @@
  *
  * A streamlined landing experience focused on immediate action.
  * Shows incomplete items first with single-tap navigation to complete them.
+ * Overdue items are pulled into their own section at the top.
  *
  * Philosophy: "What needs my attention right now?"
  *
@@ -33,18 +34,24 @@ import {
   faChevronRight,
   faClipboardList,
   faExclamationTriangle,
+  faTriangleExclamation,
 } from '@fortawesome/free-solid-svg-icons';
 import { useNavigate } from 'react-router-dom';
 import { useChecklists } from '../../hooks/useChecklists';
+import { useCurrentTime } from '../../hooks/useCurrentTime';
 import { usePermissions } from '../../../../shared/hooks/usePermissions';
 import { useEvents } from '../../../../shared/events';
 import { TemplatePickerDialog } from '../TemplatePickerDialog';
+import { SuggestedTemplates } from '../SuggestedTemplates';
 import { ChecklistVisibilityToggle, getStoredVisibilityPreference } from '../ChecklistVisibilityToggle';
+import { ItemDueChip } from '../ItemDueChip';
 import { CobraNewButton, CobraSecondaryButton } from '../../../../theme/styledComponents';
 import CobraStyles from '../../../../theme/CobraStyles';
 import { cobraTheme } from '../../../../theme/cobraTheme';
 import { toast } from 'react-toastify';
-import type { ChecklistInstanceDto, ChecklistItemDto } from '../../services/checklistService';
+import type { Template } from '../../types';
+import { checklistService, type ChecklistInstanceDto, type ChecklistItemDto } from '../../services/checklistService';
+import { getOverdueItems, isItemOverdue } from '../../utils/itemDue';
 
 interface IncompleteItem {
   item: ChecklistItemDto;
@@ -60,7 +67,9 @@ export const LandingTaskFirst: React.FC = () => {
   const permissions = usePermissions();
   const { currentEvent } = useEvents();
   const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
+  const [pickerTemplateId, setPickerTemplateId] = useState<string | undefined>();
   const [showAllChecklists, setShowAllChecklists] = useState(getStoredVisibilityPreference);
+  const now = useCurrentTime();
 
   // Fetch checklists filtered by current event
   useEffect(() => {
@@ -107,7 +116,8 @@ export const LandingTaskFirst: React.FC = () => {
             status.toLowerCase() !== 'completed' &&
             status.toLowerCase() !== 'n/a';
 
-          if (isIncomplete) {
+          // Overdue items are listed in their own section
+          if (isIncomplete && !isItemOverdue(item, now)) {
             items.push({ item, checklist });
           }
         });
@@ -120,7 +130,15 @@ export const LandingTaskFirst: React.FC = () => {
       if (checklistCompare !== 0) return checklistCompare;
       return (a.item.displayOrder || 0) - (b.item.displayOrder || 0);
     });
-  }, [checklists]);
+  }, [checklists, now]);
+
+  // Overdue items across all checklists, most overdue first
+  const overdueItems = useMemo(
+    (): IncompleteItem[] => getOverdueItems(checklists, now),
+    [checklists, now]
+  );
+
+  const attentionCount = incompleteItems.length + overdueItems.length;
 
   // Count completed today
   const completedToday = useMemo(() => {
@@ -154,6 +172,17 @@ export const LandingTaskFirst: React.FC = () => {
     navigate('/checklists?landing=control');
   };
 
+  // Open the template picker with a suggested template selected
+  const handleSuggestedTemplate = (template: Template) => {
+    setPickerTemplateId(template.id);
+    setTemplatePickerOpen(true);
+  };
+
+  const handleClosePicker = () => {
+    setTemplatePickerOpen(false);
+    setPickerTemplateId(undefined);
+  };
+
   // Handle creating a new checklist
   const handleCreateChecklist = async (templateId: string, checklistName: string) => {
     try {
@@ -192,6 +221,29 @@ export const LandingTaskFirst: React.FC = () => {
     }
   };
 
+  // Handle creating one checklist from several templates
+  const handleCreateCombinedChecklist = async (
+    templateIds: string[],
+    checklistName: string,
+    excludedTemplateItemIds: string[]
+  ) => {
+    try {
+      const newChecklist = await checklistService.createCombinedChecklist({
+        templateIds,
+        excludedTemplateItemIds,
+        name: checklistName,
+        eventId: currentEvent?.id,
+        eventName: currentEvent?.name,
+      });
+      toast.success(`Checklist "${checklistName}" created`);
+      navigate(`/checklists/${newChecklist.id}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create checklist';
+      toast.error(message);
+      throw err;
+    }
+  };
+
   // Loading state
   if (loading && checklists.length === 0) {
     return (
@@ -226,7 +278,7 @@ export const LandingTaskFirst: React.FC = () => {
       <Stack spacing={3} padding={CobraStyles.Padding.MainWindow}>
         {/* Header with attention count */}
         <Box>
-          {incompleteItems.length > 0 ? (
+          {attentionCount > 0 ? (
             <Box
               sx={{
                 display: 'flex',
@@ -244,8 +296,8 @@ export const LandingTaskFirst: React.FC = () => {
                 style={{ color: cobraTheme.palette.warning.dark }}
               />
               <Typography variant="h6" sx={{ fontWeight: 500 }}>
-                {incompleteItems.length} item{incompleteItems.length !== 1 ? 's' : ''} need
-                {incompleteItems.length === 1 ? 's' : ''} your attention
+                {attentionCount} item{attentionCount !== 1 ? 's' : ''} need
+                {attentionCount === 1 ? 's' : ''} your attention
               </Typography>
             </Box>
           ) : (
@@ -291,6 +343,63 @@ export const LandingTaskFirst: React.FC = () => {
           />
         </Box>
 
+        {/* Overdue Items List */}
+        {overdueItems.length > 0 && (
+          <Paper
+            variant="outlined"
+            sx={{ overflow: 'hidden', borderColor: cobraTheme.palette.error.main }}
+          >
+            <Box
+              sx={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: 1,
+                px: 2,
+                py: 1,
+                color: cobraTheme.palette.error.main,
+                borderBottom: `1px solid ${cobraTheme.palette.error.main}`,
+              }}
+            >
+              <FontAwesomeIcon icon={faTriangleExclamation} />
+              <Typography variant="subtitle2" sx={{ fontWeight: 600 }}>
+                Overdue ({overdueItems.length})
+              </Typography>
+            </Box>
+            <List disablePadding>
+              {overdueItems.map(({ item, checklist }, index) => (
+                <React.Fragment key={`${checklist.id}-${item.id}`}>
+                  {index > 0 && <Divider />}
+                  <ListItem disablePadding>
+                    <ListItemButton
+                      onClick={() => handleItemClick(checklist.id, item.id)}
+                      sx={{ py: 1.5 }}
+                    >
+                      <ListItemText
+                        primary={item.itemText}
+                        secondary={checklist.name}
+                        primaryTypographyProps={{
+                          variant: 'body1',
+                          sx: { fontWeight: 500 },
+                        }}
+                        secondaryTypographyProps={{
+                          variant: 'caption',
+                        }}
+                      />
+                      <Box sx={{ mr: 1 }}>
+                        <ItemDueChip item={item} now={now} />
+                      </Box>
+                      <FontAwesomeIcon
+                        icon={faChevronRight}
+                        style={{ color: cobraTheme.palette.text.secondary }}
+                      />
+                    </ListItemButton>
+                  </ListItem>
+                </React.Fragment>
+              ))}
+            </List>
+          </Paper>
+        )}
+
         {/* Incomplete Items List */}
         {incompleteItems.length > 0 && (
           <Paper variant="outlined" sx={{ overflow: 'hidden' }}>
@@ -326,6 +435,9 @@ export const LandingTaskFirst: React.FC = () => {
                           variant: 'caption',
                         }}
                       />
+                      <Box sx={{ mr: 1 }}>
+                        <ItemDueChip item={item} now={now} />
+                      </Box>
                       {item.currentStatus && item.currentStatus !== 'Not Started' && (
                         <Chip
                           label={item.currentStatus}
@@ -368,6 +480,9 @@ export const LandingTaskFirst: React.FC = () => {
           </Paper>
         )}
 
+        {/* Suggested Templates */}
+        {permissions.canCreateInstance && <SuggestedTemplates onSelect={handleSuggestedTemplate} />}
+
         {/* Action Buttons */}
         <Box
           sx={{
@@ -393,8 +508,10 @@ export const LandingTaskFirst: React.FC = () => {
         {/* Template Picker Dialog */}
         <TemplatePickerDialog
           open={templatePickerOpen}
-          onClose={() => setTemplatePickerOpen(false)}
+          onClose={handleClosePicker}
           onCreateChecklist={handleCreateChecklist}
+          onCreateCombinedChecklist={handleCreateCombinedChecklist}
+          initialTemplateId={pickerTemplateId}
         />
       </Stack>
     </Container>
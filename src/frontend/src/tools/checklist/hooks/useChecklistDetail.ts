@@ -4,15 +4,26 @@
  * Provides detailed checklist fetching with items.
  * Handles optimistic updates for item changes and progress tracking.
  * Designed for the Checklist Detail page.
+ *
+ * Offline support: every successful fetch is cached in IndexedDB. If the
+ * server can't be reached, the cached copy (with queued offline changes
+ * applied) is shown instead and isOfflineCopy is set.
+ *
+ * After a real-time reconnect, syncChanges merges what changed since the
+ * last message seen instead of reloading the whole checklist.
  */
 
-import { useState, useCallback, useEffect } from 'react';
+import { useState, useCallback, useEffect, useRef } from 'react';
 import { toast } from 'react-toastify';
+import { isNetworkError } from '../../../core/services/api';
+import { offlineQueueService } from '../services/offlineQueueService';
 import {
   checklistService,
   type ChecklistInstanceDto,
   type ChecklistItemDto,
 } from '../services/checklistService';
+import type { ItemNote } from '../types';
+import { applyChecklistChanges } from '../utils/checklistChanges';
 
 /**
  * Checklist detail hook state
@@ -21,6 +32,8 @@ interface UseChecklistDetailState {
   checklist: ChecklistInstanceDto | null;
   loading: boolean;
   error: string | null;
+  isOfflineCopy: boolean; // Showing cached copy because the server is unreachable
+  cachedAt: string | null; // When the cached copy was saved (offline only)
 }
 
 /**
@@ -30,9 +43,14 @@ interface UseChecklistDetailReturn extends UseChecklistDetailState {
   // Fetch operations
   fetchChecklist: (checklistId: string) => Promise<void>;
   refreshChecklist: () => Promise<void>;
+  /** Merge changes made since a time (real-time reconnect); refetches when since is null */
+  syncChanges: (checklistId: string, since: string | null) => Promise<void>;
 
   // Optimistic item updates (for UI responsiveness)
   updateItemLocally: (itemId: string, updates: Partial<ChecklistItemDto>) => void;
+  updateItemNotesLocally: (itemId: string, update: (notes: ItemNote[]) => ItemNote[]) => void;
+  /** Replace the items in their new order (optimistic reorder) */
+  setItemsLocally: (items: ChecklistItemDto[]) => void;
 
   // State management
   clearError: () => void;
@@ -49,8 +67,16 @@ export const useChecklistDetail = (
     checklist: null,
     loading: false,
     error: null,
+    isOfflineCopy: false,
+    cachedAt: null,
   });
 
+  // Latest checklist for callbacks that shouldn't change with every update
+  const checklistRef = useRef<ChecklistInstanceDto | null>(null);
+  useEffect(() => {
+    checklistRef.current = state.checklist;
+  }, [state.checklist]);
+
   /**
    * Fetch checklist by ID
    */
@@ -59,13 +85,38 @@ export const useChecklistDetail = (
       setState((prev) => ({ ...prev, loading: true, error: null }));
 
       try {
-        const checklist = await checklistService.getChecklistById(id);
+        const serverChecklist = await checklistService.getChecklistById(id);
+        let checklist = serverChecklist;
+        try {
+          checklist = await offlineQueueService.cacheChecklist(serverChecklist);
+        } catch (cacheError) {
+          // Offline storage unavailable - page still works online
+          console.warn('Failed to cache checklist for offline use:', cacheError);
+        }
         setState({
           checklist,
           loading: false,
           error: null,
+          isOfflineCopy: false,
+          cachedAt: null,
         });
       } catch (error) {
+        if (isNetworkError(error)) {
+          const cached = await offlineQueueService
+            .getCachedChecklist(id)
+            .catch(() => null);
+          if (cached) {
+            setState({
+              checklist: cached.checklist,
+              loading: false,
+              error: null,
+              isOfflineCopy: true,
+              cachedAt: cached.cachedAt,
+            });
+            return;
+          }
+        }
+
         const errorMessage =
           error instanceof Error
             ? error.message
@@ -74,6 +125,8 @@ export const useChecklistDetail = (
           checklist: null,
           loading: false,
           error: errorMessage,
+          isOfflineCopy: false,
+          cachedAt: null,
         });
         toast.error(errorMessage);
       }
@@ -90,6 +143,44 @@ export const useChecklistDetail = (
     }
   }, [state.checklist, fetchChecklist]);
 
+  /**
+   * Catch up on changes missed while the real-time connection was down
+   * Falls back to a full fetch when the time is unknown or the catch-up fails
+   */
+  const syncChanges = useCallback(
+    async (id: string, since: string | null): Promise<void> => {
+      if (!since || checklistRef.current?.id !== id) {
+        await fetchChecklist(id);
+        return;
+      }
+
+      try {
+        const changes = await checklistService.getChecklistChanges(id, since);
+        setState((prev) =>
+          prev.checklist?.id === id
+            ? {
+                ...prev,
+                checklist: applyChecklistChanges(prev.checklist, changes),
+                isOfflineCopy: false,
+                cachedAt: null,
+              }
+            : prev
+        );
+        if (checklistRef.current?.id === id) {
+          offlineQueueService
+            .cacheChecklist(applyChecklistChanges(checklistRef.current, changes))
+            .catch((cacheError) => {
+              console.warn('Failed to cache checklist for offline use:', cacheError);
+            });
+        }
+      } catch (error) {
+        console.warn('Failed to catch up on checklist changes, reloading:', error);
+        await fetchChecklist(id);
+      }
+    },
+    [fetchChecklist]
+  );
+
   /**
    * Update item locally (optimistic update)
    * Used for immediate UI feedback before server confirmation
@@ -125,6 +216,36 @@ export const useChecklistDetail = (
     []
   );
 
+  /**
+   * Update an item's note thread locally
+   * Takes an updater so notes added by several people at once are all kept
+   */
+  const updateItemNotesLocally = useCallback(
+    (itemId: string, update: (notes: ItemNote[]) => ItemNote[]): void => {
+      setState((prev) => {
+        if (!prev.checklist) return prev;
+
+        return {
+          ...prev,
+          checklist: {
+            ...prev.checklist,
+            items: prev.checklist.items.map((item) =>
+              item.id === itemId ? { ...item, notes: update(item.notes ?? []) } : item
+            ),
+          },
+        };
+      });
+    },
+    []
+  );
+
+  /**
+   * Replace the items locally (optimistic reorder)
+   */
+  const setItemsLocally = useCallback((items: ChecklistItemDto[]): void => {
+    setState((prev) => (prev.checklist ? { ...prev, checklist: { ...prev.checklist, items } } : prev));
+  }, []);
+
   /**
    * Clear error state
    */
@@ -140,6 +261,8 @@ export const useChecklistDetail = (
       checklist: null,
       loading: false,
       error: null,
+      isOfflineCopy: false,
+      cachedAt: null,
     });
   }, []);
 
@@ -156,9 +279,14 @@ export const useChecklistDetail = (
     checklist: state.checklist,
     loading: state.loading,
     error: state.error,
+    isOfflineCopy: state.isOfflineCopy,
+    cachedAt: state.cachedAt,
     fetchChecklist,
     refreshChecklist,
+    syncChanges,
     updateItemLocally,
+    updateItemNotesLocally,
+    setItemsLocally,
     clearError,
     reset,
   };
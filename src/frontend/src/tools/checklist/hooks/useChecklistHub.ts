@@ -2,6 +2,9 @@ import { useEffect, useRef, useCallback } from 'react';
 import * as signalR from '@microsoft/signalr';
 import { toast } from 'react-toastify';
 import { getCurrentUser } from '../../../core/services/api';
+import { createLastSeenTracker } from '../../../core/utils/hubCatchUp';
+import type { CatchUpSince } from '../../../core/utils/hubCatchUp';
+import type { ItemNote } from '../types';
 
 /**
  * Event handlers for real-time checklist updates
@@ -9,9 +12,21 @@ import { getCurrentUser } from '../../../core/services/api';
 export interface ChecklistHubHandlers {
   onItemCompletionChanged?: (data: ItemCompletionChangedEvent) => void;
   onItemStatusChanged?: (data: ItemStatusChangedEvent) => void;
-  onItemNotesChanged?: (data: ItemNotesChangedEvent) => void;
+  onItemValueChanged?: (data: ItemValueChangedEvent) => void;
+  onItemNoteAdded?: (data: ItemNoteAddedEvent) => void;
+  onItemNoteUpdated?: (data: ItemNoteUpdatedEvent) => void;
+  onItemNoteDeleted?: (data: ItemNoteDeletedEvent) => void;
+  onItemAttachmentsChanged?: (data: ItemAttachmentsChangedEvent) => void;
   onChecklistUpdated?: (data: ChecklistUpdatedEvent) => void;
   onChecklistCreated?: (data: ChecklistCreatedEvent) => void;
+  onItemOverdue?: (data: ItemOverdueEvent) => void;
+  onPresenceChanged?: (data: PresenceChangedEvent) => void;
+  /**
+   * Called after the connection is restored (groups and presence are joined
+   * again first). `since(checklistId)` is when to fetch missed changes from,
+   * or null when unknown (reload instead).
+   */
+  onReconnected?: (since: CatchUpSince) => void;
 }
 
 export interface ItemCompletionChangedEvent {
@@ -21,6 +36,8 @@ export interface ItemCompletionChangedEvent {
   completedBy: string | null;
   completedByPosition: string | null;
   completedAt: string | null;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
 }
 
 export interface ItemStatusChangedEvent {
@@ -31,20 +48,82 @@ export interface ItemStatusChangedEvent {
   changedBy: string;
   changedByPosition: string;
   changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
 }
 
-export interface ItemNotesChangedEvent {
+export interface ItemValueChangedEvent {
   checklistId: string;
   itemId: string;
-  notes: string;
+  value: string | null;
+  isCompleted: boolean;
+  completedBy: string | null;
+  completedByPosition: string | null;
+  completedAt: string | null;
   changedBy: string;
   changedByPosition: string;
   changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+/**
+ * A single note added to an item's thread (not the whole thread)
+ */
+export interface ItemNoteAddedEvent {
+  checklistId: string;
+  itemId: string;
+  note: ItemNote;
+  changedBy: string;
+  changedByPosition: string;
+  changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+export interface ItemNoteUpdatedEvent {
+  checklistId: string;
+  itemId: string;
+  note: ItemNote;
+  changedBy: string;
+  changedByPosition: string;
+  changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+export interface ItemNoteDeletedEvent {
+  checklistId: string;
+  itemId: string;
+  noteId: string;
+  changedBy: string;
+  changedByPosition: string;
+  changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+export interface ItemAttachmentsChangedEvent {
+  checklistId: string;
+  itemId: string;
+  attachmentCount: number;
+  changedBy: string;
+  changedByPosition: string;
+  changedAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
 }
 
 export interface ChecklistUpdatedEvent {
   checklistId: string;
+  /** What changed; items added, removed or reordered carry who made the change */
+  updateType?: 'item_added' | 'item_removed' | 'items_reordered' | 'items_bulk_updated' | 'sign_off_changed' | 'metadata_changed';
+  itemId?: string | null;
   progressPercentage: number;
+  updatedBy?: string;
+  updatedByPosition?: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
 }
 
 export interface ChecklistCreatedEvent {
@@ -55,17 +134,87 @@ export interface ChecklistCreatedEvent {
   positions: string | null;
   createdBy: string;
   createdAt: string;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+export interface ItemOverdueEvent {
+  checklistId: string;
+  checklistName: string;
+  eventId: string;
+  itemId: string;
+  itemText: string;
+  dueAt: string;
+  /** Comma-separated positions responsible for the item (null = everyone) */
+  positions: string | null;
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
+}
+
+/**
+ * Someone viewing a checklist (one per open browser tab)
+ */
+export interface ChecklistViewer {
+  connectionId: string;
+  email: string;
+  fullName: string;
+  position: string;
+  /** Item whose notes dialog the viewer has open */
+  notesItemId: string | null;
+  joinedAt: string;
+  lastSeenAt: string;
+}
+
+/**
+ * Current viewers of a checklist (sent to everyone, for detail pages and cards)
+ */
+export interface PresenceChangedEvent {
+  checklistId: string;
+  viewers: ChecklistViewer[];
+  /** Server time the message was sent (UTC) */
+  sentAt: string;
 }
 
+/**
+ * How often announced presence is kept alive (server drops viewers after 90 seconds)
+ */
+const PRESENCE_HEARTBEAT_MS = 30000;
+
+/**
+ * How often a closed connection is restarted (after automatic reconnect stops)
+ */
+const RESTART_RETRY_MS = 30000;
+
+/**
+ * Wait up to 5 seconds for a connection that is still being established
+ */
+const waitForConnection = async (connection: signalR.HubConnection): Promise<boolean> => {
+  if (connection.state === signalR.HubConnectionState.Connecting) {
+    console.log('[SignalR] Waiting for connection to establish...');
+    const maxWaitTime = 5000;
+    const startTime = Date.now();
+    while (
+      connection.state === signalR.HubConnectionState.Connecting &&
+      Date.now() - startTime < maxWaitTime
+    ) {
+      await new Promise(resolve => setTimeout(resolve, 100));
+    }
+  }
+  return connection.state === signalR.HubConnectionState.Connected;
+};
+
 /**
  * Custom hook to manage SignalR connection for real-time checklist collaboration
  *
  * Features:
  * - Auto-connect to SignalR hub when checklist is loaded
  * - Join checklist-specific group for scoped updates
- * - Auto-reconnect on connection loss
+ * - Auto-reconnect on connection loss, then re-join groups and report when
+ *   missed changes happened (onReconnected) so consumers fetch only those
  * - Clean disconnect on unmount
  * - Event handlers for all checklist update types
+ * - Live presence: announce who is viewing a checklist (kept alive with a
+ *   heartbeat) and which item's notes are open
  *
  * Usage:
  * ```typescript
@@ -93,6 +242,9 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
   const handlersRef = useRef(handlers);
   const hasConnectedOnceRef = useRef(false); // Track if we've ever connected successfully
   const isConnectingRef = useRef(false); // Prevent duplicate connection attempts
+  const presenceChecklistsRef = useRef(new Set<string>()); // Checklists we announced presence on
+  const joinedChecklistsRef = useRef(new Set<string>()); // Checklist groups we joined
+  const lastSeenRef = useRef(createLastSeenTracker()); // Newest message time per checklist
 
   // Update handlers ref when they change (avoid reconnection)
   useEffect(() => {
@@ -126,6 +278,36 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
       .configureLogging(signalR.LogLevel.Warning)
       .build();
 
+    // Read the server clock as the catch-up baseline (after connecting or reconnecting)
+    const syncServerTime = async () => {
+      try {
+        lastSeenRef.current.reset(await connection.invoke<string>('GetServerTime'));
+      } catch (error) {
+        console.error('[SignalR] Error reading server time:', error);
+      }
+    };
+
+    // A new connection has no groups: join them again, then let consumers
+    // fetch what was sent while we were offline
+    const resumeAfterReconnect = async () => {
+      const since = lastSeenRef.current.snapshot();
+      const user = getCurrentUser();
+      try {
+        await Promise.all([
+          ...[...joinedChecklistsRef.current].map((checklistId) =>
+            connection.invoke('JoinChecklist', checklistId)
+          ),
+          ...[...presenceChecklistsRef.current].map((checklistId) =>
+            connection.invoke('JoinPresence', checklistId, user.email, user.fullName, user.position)
+          ),
+        ]);
+      } catch (error) {
+        console.error('[SignalR] Error joining checklists after reconnect:', error);
+      }
+      await syncServerTime();
+      handlersRef.current.onReconnected?.(since);
+    };
+
     // Helper to check if the event was triggered by the current user
     const isFromCurrentUser = (changedBy: string | null | undefined): boolean => {
       if (!changedBy) return false;
@@ -136,6 +318,7 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
     // Register event handlers (filter out self-originating events)
     connection.on('ItemCompletionChanged', (data: ItemCompletionChangedEvent) => {
       console.log('[SignalR] ItemCompletionChanged:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
       // Skip if this change was made by the current user
       if (isFromCurrentUser(data.completedBy)) {
         console.log('[SignalR] Ignoring self-originating ItemCompletionChanged event');
@@ -146,6 +329,7 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
 
     connection.on('ItemStatusChanged', (data: ItemStatusChangedEvent) => {
       console.log('[SignalR] ItemStatusChanged:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
       // Skip if this change was made by the current user
       if (isFromCurrentUser(data.changedBy)) {
         console.log('[SignalR] Ignoring self-originating ItemStatusChanged event');
@@ -154,25 +338,76 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
       handlersRef.current.onItemStatusChanged?.(data);
     });
 
-    connection.on('ItemNotesChanged', (data: ItemNotesChangedEvent) => {
-      console.log('[SignalR] ItemNotesChanged:', data);
+    connection.on('ItemValueChanged', (data: ItemValueChangedEvent) => {
+      console.log('[SignalR] ItemValueChanged:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Skip if this change was made by the current user
+      if (isFromCurrentUser(data.changedBy)) {
+        console.log('[SignalR] Ignoring self-originating ItemValueChanged event');
+        return;
+      }
+      handlersRef.current.onItemValueChanged?.(data);
+    });
+
+    connection.on('ItemNoteAdded', (data: ItemNoteAddedEvent) => {
+      console.log('[SignalR] ItemNoteAdded:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Skip if this change was made by the current user
+      if (isFromCurrentUser(data.changedBy)) {
+        console.log('[SignalR] Ignoring self-originating ItemNoteAdded event');
+        return;
+      }
+      handlersRef.current.onItemNoteAdded?.(data);
+    });
+
+    connection.on('ItemNoteUpdated', (data: ItemNoteUpdatedEvent) => {
+      console.log('[SignalR] ItemNoteUpdated:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
       // Skip if this change was made by the current user
       if (isFromCurrentUser(data.changedBy)) {
-        console.log('[SignalR] Ignoring self-originating ItemNotesChanged event');
+        console.log('[SignalR] Ignoring self-originating ItemNoteUpdated event');
         return;
       }
-      handlersRef.current.onItemNotesChanged?.(data);
+      handlersRef.current.onItemNoteUpdated?.(data);
+    });
+
+    connection.on('ItemNoteDeleted', (data: ItemNoteDeletedEvent) => {
+      console.log('[SignalR] ItemNoteDeleted:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Skip if this change was made by the current user
+      if (isFromCurrentUser(data.changedBy)) {
+        console.log('[SignalR] Ignoring self-originating ItemNoteDeleted event');
+        return;
+      }
+      handlersRef.current.onItemNoteDeleted?.(data);
+    });
+
+    connection.on('ItemAttachmentsChanged', (data: ItemAttachmentsChangedEvent) => {
+      console.log('[SignalR] ItemAttachmentsChanged:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Skip if this change was made by the current user
+      if (isFromCurrentUser(data.changedBy)) {
+        console.log('[SignalR] Ignoring self-originating ItemAttachmentsChanged event');
+        return;
+      }
+      handlersRef.current.onItemAttachmentsChanged?.(data);
     });
 
     connection.on('ChecklistUpdated', (data: ChecklistUpdatedEvent) => {
       console.log('[SignalR] ChecklistUpdated:', data);
-      // ChecklistUpdated doesn't have a user field, so we can't filter it
-      // This is fine since progress updates are just informational
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Metadata changes don't have a user field, so we can't filter them
+      // (fine, since they are just informational); item edits do
+      if (isFromCurrentUser(data.updatedBy)) {
+        console.log('[SignalR] Ignoring self-originating ChecklistUpdated event');
+        return;
+      }
       handlersRef.current.onChecklistUpdated?.(data);
     });
 
     connection.on('ChecklistCreated', (data: ChecklistCreatedEvent) => {
       console.log('[SignalR] ChecklistCreated:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
       // Skip if this checklist was created by the current user
       if (isFromCurrentUser(data.createdBy)) {
         console.log('[SignalR] Ignoring self-originating ChecklistCreated event');
@@ -181,6 +416,35 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
       handlersRef.current.onChecklistCreated?.(data);
     });
 
+    connection.on('ItemOverdue', (data: ItemOverdueEvent) => {
+      console.log('[SignalR] ItemOverdue:', data);
+      lastSeenRef.current.record(data.checklistId, data.sentAt);
+      // Sent by the server's overdue monitor, so there is no user to filter on
+      handlersRef.current.onItemOverdue?.(data);
+    });
+
+    connection.on('PresenceChanged', (data: PresenceChangedEvent) => {
+      // Includes our own presence; consumers decide whether to show it
+      handlersRef.current.onPresenceChanged?.(data);
+    });
+
+    // Keep announced presence alive; join again if the server no longer knows us
+    // (after a reconnect or server restart)
+    const heartbeatId = setInterval(() => {
+      if (connection.state !== signalR.HubConnectionState.Connected) return;
+      presenceChecklistsRef.current.forEach((checklistId) => {
+        connection
+          .invoke<boolean>('PresenceHeartbeat', checklistId)
+          .then((known) => {
+            if (!known) {
+              const user = getCurrentUser();
+              return connection.invoke('JoinPresence', checklistId, user.email, user.fullName, user.position);
+            }
+          })
+          .catch((error) => console.error('[SignalR] Presence heartbeat failed:', error));
+      });
+    }, PRESENCE_HEARTBEAT_MS);
+
     // Connection lifecycle events
     connection.onreconnecting((error) => {
       console.warn('[SignalR] Reconnecting...', error);
@@ -190,18 +454,42 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
     connection.onreconnected((connectionId) => {
       console.log('[SignalR] Reconnected:', connectionId);
       toast.success('Reconnected to real-time updates', { autoClose: 2000 });
+      resumeAfterReconnect();
     });
 
+    // Once automatic reconnect gives up (or the server closes the connection),
+    // keep retrying in the background and as soon as the browser is back online
+    let isDisposed = false;
+    let restartTimeoutId: ReturnType<typeof setTimeout> | undefined;
+
+    const restartConnection = () => {
+      clearTimeout(restartTimeoutId);
+      if (isDisposed || connection.state !== signalR.HubConnectionState.Disconnected) return;
+      connection
+        .start()
+        .then(() => {
+          console.log('[SignalR] Connection restarted');
+          toast.success('Reconnected to real-time updates', { autoClose: 2000 });
+          return resumeAfterReconnect();
+        })
+        .catch((error) => {
+          console.warn('[SignalR] Restart failed, retrying:', error);
+          restartTimeoutId = setTimeout(restartConnection, RESTART_RETRY_MS);
+        });
+    };
+
+    const handleOnline = () => restartConnection();
+    window.addEventListener('online', handleOnline);
+
     connection.onclose((error) => {
-      // Only log and show error if we've successfully connected before
+      // Only log and retry if we've successfully connected before
       // This suppresses React Strict Mode double-mount connection errors
-      if (hasConnectedOnceRef.current) {
+      if (hasConnectedOnceRef.current && !isDisposed) {
         console.error('[SignalR] Connection closed:', error);
-        if (error) {
-          toast.error('Real-time connection closed. Please refresh the page.', {
-            autoClose: false,
-          });
-        }
+        toast.warning('Real-time connection lost. Retrying in the background...', {
+          autoClose: 5000,
+        });
+        restartTimeoutId = setTimeout(restartConnection, RESTART_RETRY_MS);
       }
     });
 
@@ -211,6 +499,7 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
       .then(() => {
         console.log('[SignalR] Connected to ChecklistHub');
         hasConnectedOnceRef.current = true;
+        return syncServerTime();
       })
       .catch((error) => {
         // Suppress React Strict Mode double-mount errors in development
@@ -233,6 +522,10 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
 
     // Cleanup on unmount
     return () => {
+      isDisposed = true;
+      clearInterval(heartbeatId);
+      clearTimeout(restartTimeoutId);
+      window.removeEventListener('online', handleOnline);
       if (connection.state !== signalR.HubConnectionState.Disconnected) {
         connection
           .stop()
@@ -260,23 +553,11 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
       console.warn('[SignalR] Cannot join checklist: connection not initialized');
       return;
     }
+    joinedChecklistsRef.current.add(checklistId);
 
     try {
       // Wait for connection to be established if it's still connecting
-      if (connection.state === signalR.HubConnectionState.Connecting) {
-        console.log('[SignalR] Waiting for connection to establish before joining checklist...');
-        // Wait up to 5 seconds for connection
-        const maxWaitTime = 5000;
-        const startTime = Date.now();
-        while (
-          connection.state === signalR.HubConnectionState.Connecting &&
-          Date.now() - startTime < maxWaitTime
-        ) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-        }
-      }
-
-      if (connection.state === signalR.HubConnectionState.Connected) {
+      if (await waitForConnection(connection)) {
         await connection.invoke('JoinChecklist', checklistId);
         console.log(`[SignalR] Joined checklist ${checklistId}`);
       } else {
@@ -297,6 +578,9 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
    */
   const leaveChecklist = useCallback(async (checklistId: string) => {
     const connection = connectionRef.current;
+    // Leaving the group also ends presence on the server
+    joinedChecklistsRef.current.delete(checklistId);
+    presenceChecklistsRef.current.delete(checklistId);
     if (!connection) {
       return;
     }
@@ -311,9 +595,87 @@ export const useChecklistHub = (handlers: ChecklistHubHandlers = {}) => {
     }
   }, []);
 
+  /**
+   * Announce that the current user is viewing a checklist (until left)
+   */
+  const joinPresence = useCallback(async (checklistId: string) => {
+    const connection = connectionRef.current;
+    if (!connection) {
+      return;
+    }
+    presenceChecklistsRef.current.add(checklistId);
+
+    try {
+      if (await waitForConnection(connection)) {
+        const user = getCurrentUser();
+        await connection.invoke('JoinPresence', checklistId, user.email, user.fullName, user.position);
+      }
+    } catch (error) {
+      console.error('[SignalR] Error joining presence:', error);
+    }
+  }, []);
+
+  /**
+   * Stop announcing presence on a checklist
+   */
+  const leavePresence = useCallback(async (checklistId: string) => {
+    const connection = connectionRef.current;
+    presenceChecklistsRef.current.delete(checklistId);
+    if (!connection) {
+      return;
+    }
+
+    try {
+      if (connection.state === signalR.HubConnectionState.Connected) {
+        await connection.invoke('LeavePresence', checklistId);
+      }
+    } catch (error) {
+      console.error('[SignalR] Error leaving presence:', error);
+    }
+  }, []);
+
+  /**
+   * Tell others which item's notes dialog is open (null when closed)
+   */
+  const setNotesOpen = useCallback(async (checklistId: string, itemId: string | null) => {
+    const connection = connectionRef.current;
+    if (!connection || connection.state !== signalR.HubConnectionState.Connected) {
+      return;
+    }
+
+    try {
+      await connection.invoke('SetNotesOpen', checklistId, itemId);
+    } catch (error) {
+      console.error('[SignalR] Error updating open notes:', error);
+    }
+  }, []);
+
+  /**
+   * Current viewers of several checklists (checklists nobody is viewing are omitted)
+   */
+  const getPresence = useCallback(async (checklistIds: string[]): Promise<Record<string, ChecklistViewer[]>> => {
+    const connection = connectionRef.current;
+    if (!connection || checklistIds.length === 0) {
+      return {};
+    }
+
+    try {
+      if (await waitForConnection(connection)) {
+        return await connection.invoke<Record<string, ChecklistViewer[]>>('GetPresence', checklistIds);
+      }
+    } catch (error) {
+      console.error('[SignalR] Error fetching presence:', error);
+    }
+    return {};
+  }, []);
+
   return {
     connectionState: connectionRef.current?.state ?? signalR.HubConnectionState.Disconnected,
     joinChecklist,
     leaveChecklist,
+    joinPresence,
+    leavePresence,
+    setNotesOpen,
+    getPresence,
   };
 };
@@ -6,9 +6,12 @@
  *
  * Note: Uses request deduplication to prevent duplicate API calls
  * that can occur due to React StrictMode double-mounting effects.
+ *
+ * After a real-time reconnect, syncChanges merges checklists changed since
+ * then into the last fetched list (my checklists or an event's checklists).
  */
 
-import { useState, useCallback } from 'react';
+import { useState, useCallback, useRef } from 'react';
 import { toast } from 'react-toastify';
 import {
   checklistService,
@@ -16,6 +19,7 @@ import {
   type CreateFromTemplateRequest,
   type UpdateChecklistRequest,
 } from '../services/checklistService';
+import { mergeChangedChecklists } from '../utils/checklistChanges';
 
 // Module-level request deduplication to prevent duplicate API calls
 // across multiple hook instances (React StrictMode protection)
@@ -23,6 +27,13 @@ let fetchMyChecklistsInFlight: Promise<ChecklistInstanceDto[]> | null = null;
 let fetchAllChecklistsInFlight: Promise<ChecklistInstanceDto[]> | null = null;
 let fetchByEventInFlight: { eventId: string; promise: Promise<ChecklistInstanceDto[]> } | null = null;
 
+/**
+ * Last list fetched into `checklists` (what syncChanges catches up on)
+ */
+type ChecklistListQuery =
+  | { kind: 'mine'; includeArchived: boolean }
+  | { kind: 'event'; eventId: string; includeArchived: boolean; showAll?: boolean };
+
 /**
  * Checklist hook state
  */
@@ -69,6 +80,12 @@ interface UseChecklistsReturn extends UseChecklistsState {
   // State management
   clearError: () => void;
   refreshChecklists: () => Promise<void>;
+
+  /**
+   * Merge checklists created or changed since a time into the last fetched
+   * list (real-time reconnect). Refetches the list when since is null.
+   */
+  syncChanges: (since: string | null) => Promise<void>;
 }
 
 /**
@@ -81,7 +98,7 @@ export const useChecklists = (): UseChecklistsReturn => {
     loading: false,
     error: null,
   });
-
+  const lastQueryRef = useRef<ChecklistListQuery | null>(null);
 
   /**
    * Fetch user's checklists (by position)
@@ -89,6 +106,8 @@ export const useChecklists = (): UseChecklistsReturn => {
    */
   const fetchMyChecklists = useCallback(
     async (includeArchived = false): Promise<void> => {
+      lastQueryRef.current = { kind: 'mine', includeArchived };
+
       // If there's already a request in flight, reuse it
       if (fetchMyChecklistsInFlight) {
         try {
@@ -197,6 +216,8 @@ export const useChecklists = (): UseChecklistsReturn => {
    */
   const fetchChecklistsByEvent = useCallback(
     async (eventId: string, includeArchived = false, showAll?: boolean): Promise<void> => {
+      lastQueryRef.current = { kind: 'event', eventId, includeArchived, showAll };
+
       // If there's already a request in flight for the same event, reuse it
       if (fetchByEventInFlight && fetchByEventInFlight.eventId === eventId) {
         try {
@@ -255,6 +276,7 @@ export const useChecklists = (): UseChecklistsReturn => {
       operationalPeriodId: string,
       includeArchived = false
     ): Promise<void> => {
+      lastQueryRef.current = null;
       setState((prev) => ({ ...prev, loading: true, error: null }));
 
       try {
@@ -470,6 +492,46 @@ export const useChecklists = (): UseChecklistsReturn => {
     await fetchMyChecklists(false);
   }, [fetchMyChecklists]);
 
+  /**
+   * Catch up on checklists changed since a time (real-time reconnect)
+   */
+  const syncChanges = useCallback(
+    async (since: string | null): Promise<void> => {
+      const query = lastQueryRef.current;
+      if (!query) return;
+
+      if (!since) {
+        if (query.kind === 'mine') {
+          await fetchMyChecklists(query.includeArchived);
+        } else {
+          await fetchChecklistsByEvent(query.eventId, query.includeArchived, query.showAll);
+        }
+        return;
+      }
+
+      try {
+        const changed =
+          query.kind === 'mine'
+            ? await checklistService.getMyChecklists(query.includeArchived, since)
+            : await checklistService.getChecklistsByEvent(
+                query.eventId,
+                query.includeArchived,
+                query.showAll,
+                since
+              );
+        // Ignore the result if another list was fetched meanwhile
+        if (lastQueryRef.current !== query) return;
+        setState((prev) => ({
+          ...prev,
+          checklists: mergeChangedChecklists(prev.checklists, changed, query.includeArchived),
+        }));
+      } catch (error) {
+        console.error('Failed to catch up on checklist changes:', error);
+      }
+    },
+    [fetchMyChecklists, fetchChecklistsByEvent]
+  );
+
   return {
     checklists: state.checklists,
     allChecklists: state.allChecklists,
@@ -486,5 +548,6 @@ export const useChecklists = (): UseChecklistsReturn => {
     restoreChecklist,
     clearError,
     refreshChecklists,
+    syncChanges,
   };
 };
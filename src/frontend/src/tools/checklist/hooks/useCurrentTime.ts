@@ -0,0 +1,25 @@
+/**
+ * useCurrentTime Hook
+ *
+ * Returns the current time and re-renders on an interval, so views that
+ * depend on the clock (items turning overdue) update while the page is open.
+ */
+
+import { useEffect, useState } from 'react';
+
+const DEFAULT_INTERVAL_MS = 30000;
+
+/**
+ * @param intervalMs How often to refresh (default 30 seconds)
+ * @returns Current time in ms since epoch
+ */
+export const useCurrentTime = (intervalMs: number = DEFAULT_INTERVAL_MS): number => {
+  const [now, setNow] = useState(() => Date.now());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(Date.now()), intervalMs);
+    return () => clearInterval(intervalId);
+  }, [intervalMs]);
+
+  return now;
+};
@@ -4,15 +4,49 @@
  * Provides item-level actions:
  * - Mark complete/incomplete
  * - Update status
- * - Add/update notes
+ * - Capture values (number, text, date/time, yes/no items)
+ * - Bulk complete/uncomplete or set the status of a selection of items
+ * - Add notes to an item's thread; edit or delete your own notes
  *
- * Handles optimistic updates and error rollback for responsive UI.
+ * Handles optimistic updates and error rollback for responsive UI. A bulk
+ * update rolls back only the items the server rejected.
+ * When the request fails for lack of a connection, the change is queued in
+ * offlineQueueService (kept, not rolled back) and replayed on reconnect.
  */
 
 import { useState, useCallback } from 'react';
 import { toast } from 'react-toastify';
-import { itemService } from '../services/itemService';
+import { getCurrentUser, isNetworkError } from '../../../core/services/api';
+import { itemService, type BulkItemFailure } from '../services/itemService';
+import { offlineQueueService } from '../services/offlineQueueService';
+import type { ItemMutation } from '../services/offlineStore';
 import type { ChecklistItemDto } from '../services/checklistService';
+import { BulkAction, type ItemNote } from '../types';
+import { createPendingNote, removeNote, upsertNote } from '../utils/itemNotes';
+import { getBulkOptimisticChanges, getBulkRollbackChanges } from '../utils/bulkItemActions';
+
+const OFFLINE_QUEUED_MESSAGE = 'You are offline. Change saved and will sync when reconnected.';
+
+/**
+ * Queue a change for later replay if the request failed because we're offline
+ * @returns Item with queued changes applied, or null if the failure should
+ *          roll back (server error, or checklist not cached for offline use)
+ */
+const queueIfOffline = async (
+  error: unknown,
+  checklistId: string,
+  itemId: string,
+  mutation: ItemMutation
+): Promise<ChecklistItemDto | null> => {
+  if (!isNetworkError(error)) return null;
+
+  try {
+    return await offlineQueueService.queueItemMutation(checklistId, itemId, mutation);
+  } catch (queueError) {
+    console.error(`Failed to queue offline change for item ${itemId}:`, queueError);
+    return null;
+  }
+};
 
 /**
  * Item actions hook state
@@ -32,6 +66,15 @@ type OptimisticUpdateFn = (
   updates: Partial<ChecklistItemDto>
 ) => void;
 
+/**
+ * Optimistic note thread update callback
+ * Receives an updater so concurrent notes from other users are kept
+ */
+type NotesUpdateFn = (
+  itemId: string,
+  update: (notes: ItemNote[]) => ItemNote[]
+) => void;
+
 /**
  * Item actions hook return type
  */
@@ -67,14 +110,45 @@ interface UseItemActionsReturn extends Omit<UseItemActionsState, 'processingItem
     onOptimisticUpdate?: OptimisticUpdateFn
   ) => Promise<ChecklistItemDto | null>;
 
-  // Notes operations
-  updateNotes: (
+  // Value operations
+  updateValue: (
     checklistId: string,
     itemId: string,
-    notes: string | undefined,
+    value: string | null,
+    previousValue: string | undefined,
     onOptimisticUpdate?: OptimisticUpdateFn
   ) => Promise<ChecklistItemDto | null>;
 
+  // Bulk operations (resolve to the rejected items, or null if nothing was saved)
+  bulkUpdate: (
+    checklistId: string,
+    items: ChecklistItemDto[],
+    action: BulkAction,
+    targetStatus?: string,
+    onOptimisticUpdate?: OptimisticUpdateFn
+  ) => Promise<BulkItemFailure[] | null>;
+
+  // Note thread operations
+  addNote: (
+    checklistId: string,
+    itemId: string,
+    noteText: string,
+    onNotesUpdate?: NotesUpdateFn
+  ) => Promise<ItemNote | null>;
+
+  editNote: (
+    checklistId: string,
+    note: ItemNote,
+    noteText: string,
+    onNotesUpdate?: NotesUpdateFn
+  ) => Promise<ItemNote | null>;
+
+  deleteNote: (
+    checklistId: string,
+    note: ItemNote,
+    onNotesUpdate?: NotesUpdateFn
+  ) => Promise<boolean>;
+
   // State management
   isProcessing: (itemId: string) => boolean;
   clearError: () => void;
@@ -90,6 +164,20 @@ export const useItemActions = (): UseItemActionsReturn => {
     processingItems: new Set(),
   });
 
+  /**
+   * Finish processing an item whose change was queued offline
+   */
+  const completeQueued = useCallback((itemId: string): void => {
+    setState((prev) => ({
+      ...prev,
+      loading: false,
+      processingItems: new Set(
+        [...prev.processingItems].filter((id) => id !== itemId)
+      ),
+    }));
+    toast.info(OFFLINE_QUEUED_MESSAGE);
+  }, []);
+
   /**
    * Mark item as complete
    */
@@ -104,7 +192,6 @@ export const useItemActions = (): UseItemActionsReturn => {
       if (onOptimisticUpdate) {
         onOptimisticUpdate(itemId, {
           isCompleted: true,
-          notes,
         });
       }
 
@@ -131,6 +218,15 @@ export const useItemActions = (): UseItemActionsReturn => {
         toast.success('Item marked complete');
         return updatedItem;
       } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'completion',
+          request: { isCompleted: true, notes },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return queuedItem;
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : 'Failed to mark item complete';
 
@@ -138,7 +234,6 @@ export const useItemActions = (): UseItemActionsReturn => {
         if (onOptimisticUpdate) {
           onOptimisticUpdate(itemId, {
             isCompleted: false,
-            notes: undefined,
           });
         }
 
@@ -154,7 +249,7 @@ export const useItemActions = (): UseItemActionsReturn => {
         return null;
       }
     },
-    []
+    [completeQueued]
   );
 
   /**
@@ -192,6 +287,15 @@ export const useItemActions = (): UseItemActionsReturn => {
         toast.success('Item marked incomplete');
         return updatedItem;
       } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'completion',
+          request: { isCompleted: false },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return queuedItem;
+        }
+
         const errorMessage =
           error instanceof Error
             ? error.message
@@ -216,7 +320,7 @@ export const useItemActions = (): UseItemActionsReturn => {
         return null;
       }
     },
-    []
+    [completeQueued]
   );
 
   /**
@@ -236,7 +340,6 @@ export const useItemActions = (): UseItemActionsReturn => {
       if (onOptimisticUpdate) {
         onOptimisticUpdate(itemId, {
           isCompleted: newStatus,
-          notes,
         });
       }
 
@@ -266,6 +369,15 @@ export const useItemActions = (): UseItemActionsReturn => {
         );
         return updatedItem;
       } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'completion',
+          request: { isCompleted: newStatus, notes },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return queuedItem;
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : 'Failed to toggle item';
 
@@ -288,7 +400,7 @@ export const useItemActions = (): UseItemActionsReturn => {
         return null;
       }
     },
-    []
+    [completeQueued]
   );
 
   /**
@@ -306,7 +418,6 @@ export const useItemActions = (): UseItemActionsReturn => {
       if (onOptimisticUpdate) {
         onOptimisticUpdate(itemId, {
           currentStatus: status,
-          notes,
         });
       }
 
@@ -333,6 +444,15 @@ export const useItemActions = (): UseItemActionsReturn => {
         toast.success(`Status updated to "${status}"`);
         return updatedItem;
       } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'status',
+          request: { status, notes },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return queuedItem;
+        }
+
         const errorMessage =
           error instanceof Error ? error.message : 'Failed to update status';
 
@@ -351,23 +471,28 @@ export const useItemActions = (): UseItemActionsReturn => {
         return null;
       }
     },
-    []
+    [completeQueued]
   );
 
   /**
-   * Update item notes
+   * Capture item value (for number, text, datetime and yesno items)
+   * A captured value completes the item; null or empty clears it.
    */
-  const updateNotes = useCallback(
+  const updateValue = useCallback(
     async (
       checklistId: string,
       itemId: string,
-      notes: string | undefined,
+      value: string | null,
+      previousValue: string | undefined,
       onOptimisticUpdate?: OptimisticUpdateFn
     ): Promise<ChecklistItemDto | null> => {
+      const newValue = value?.trim() || undefined;
+
       // Optimistic update
       if (onOptimisticUpdate) {
         onOptimisticUpdate(itemId, {
-          notes,
+          value: newValue,
+          isCompleted: newValue !== undefined,
         });
       }
 
@@ -379,10 +504,10 @@ export const useItemActions = (): UseItemActionsReturn => {
       }));
 
       try {
-        const updatedItem = await itemService.updateItemNotes(
+        const updatedItem = await itemService.updateItemValue(
           checklistId,
           itemId,
-          { notes }
+          { value: newValue ?? null }
         );
         setState((prev) => ({
           ...prev,
@@ -391,11 +516,28 @@ export const useItemActions = (): UseItemActionsReturn => {
             [...prev.processingItems].filter((id) => id !== itemId)
           ),
         }));
-        toast.success('Notes updated');
+        toast.success(newValue !== undefined ? 'Value recorded' : 'Value cleared');
         return updatedItem;
       } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'value',
+          request: { value: newValue ?? null },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return queuedItem;
+        }
+
         const errorMessage =
-          error instanceof Error ? error.message : 'Failed to update notes';
+          error instanceof Error ? error.message : 'Failed to record value';
+
+        // Rollback optimistic update
+        if (onOptimisticUpdate) {
+          onOptimisticUpdate(itemId, {
+            value: previousValue,
+            isCompleted: !!previousValue,
+          });
+        }
 
         setState((prev) => ({
           ...prev,
@@ -409,6 +551,248 @@ export const useItemActions = (): UseItemActionsReturn => {
         return null;
       }
     },
+    [completeQueued]
+  );
+
+  /**
+   * Apply one action to many items in a single request
+   * Every item changes immediately; the ones the server rejects (position,
+   * prerequisites) are rolled back and returned. Offline, each item's change
+   * is queued on its own.
+   */
+  const bulkUpdate = useCallback(
+    async (
+      checklistId: string,
+      items: ChecklistItemDto[],
+      action: BulkAction,
+      targetStatus?: string,
+      onOptimisticUpdate?: OptimisticUpdateFn
+    ): Promise<BulkItemFailure[] | null> => {
+      const itemIds = items.map((item) => item.id);
+      const itemsById = new Map(items.map((item) => [item.id, item]));
+      const rollback = (itemId: string) => {
+        const item = itemsById.get(itemId);
+        if (item && onOptimisticUpdate) {
+          onOptimisticUpdate(itemId, getBulkRollbackChanges(item));
+        }
+      };
+
+      // Optimistic update
+      if (onOptimisticUpdate) {
+        const changes = getBulkOptimisticChanges(action, targetStatus);
+        itemIds.forEach((itemId) => onOptimisticUpdate(itemId, changes));
+      }
+
+      setState((prev) => ({
+        ...prev,
+        loading: true,
+        error: null,
+        processingItems: new Set([...prev.processingItems, ...itemIds]),
+      }));
+
+      const finishProcessing = (error: string | null) =>
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error,
+          processingItems: new Set(
+            [...prev.processingItems].filter((id) => !itemIds.includes(id))
+          ),
+        }));
+
+      try {
+        const result = await itemService.bulkUpdateItems(checklistId, {
+          itemIds,
+          action,
+          targetStatus,
+        });
+
+        // Rollback only the items the server rejected
+        result.failedItems.forEach((failure) => rollback(failure.itemId));
+        finishProcessing(null);
+
+        const updatedCount = itemIds.length - result.failedItems.length;
+        if (updatedCount > 0) {
+          toast.success(`Updated ${updatedCount} item${updatedCount === 1 ? '' : 's'}`);
+        }
+        if (result.failedItems.length > 0) {
+          const count = result.failedItems.length;
+          toast.warning(
+            `${count} item${count === 1 ? ' was' : 's were'} not updated: ${result.failedItems[0].reason}`
+          );
+        }
+        return result.failedItems;
+      } catch (error) {
+        const mutation: ItemMutation =
+          action === BulkAction.CHANGE_STATUS
+            ? { kind: 'status', request: { status: targetStatus ?? '' } }
+            : { kind: 'completion', request: { isCompleted: action === BulkAction.MARK_COMPLETE } };
+
+        const notQueued: string[] = [];
+        for (const itemId of itemIds) {
+          if (!(await queueIfOffline(error, checklistId, itemId, mutation))) {
+            notQueued.push(itemId);
+          }
+        }
+        if (notQueued.length < itemIds.length) {
+          notQueued.forEach(rollback);
+          finishProcessing(null);
+          toast.info(OFFLINE_QUEUED_MESSAGE);
+          return notQueued.map((itemId) => ({ itemId, reason: 'Could not be saved for offline sync' }));
+        }
+
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to update items';
+
+        // Rollback optimistic update
+        itemIds.forEach(rollback);
+
+        finishProcessing(errorMessage);
+        toast.error(errorMessage);
+        return null;
+      }
+    },
+    []
+  );
+
+  /**
+   * Add a note to an item's thread
+   * The note shows immediately (provisional) and is replaced by the saved note;
+   * offline, it stays provisional until the queue syncs.
+   */
+  const addNote = useCallback(
+    async (
+      checklistId: string,
+      itemId: string,
+      noteText: string,
+      onNotesUpdate?: NotesUpdateFn
+    ): Promise<ItemNote | null> => {
+      const pendingNote = createPendingNote(itemId, noteText, getCurrentUser());
+
+      // Optimistic update
+      onNotesUpdate?.(itemId, (notes) => upsertNote(notes, pendingNote));
+
+      setState((prev) => ({
+        ...prev,
+        loading: true,
+        error: null,
+        processingItems: new Set([...prev.processingItems, itemId]),
+      }));
+
+      try {
+        const savedNote = await itemService.addNote(checklistId, itemId, {
+          noteText: pendingNote.noteText,
+        });
+        onNotesUpdate?.(itemId, (notes) => upsertNote(notes, savedNote, pendingNote.id));
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          processingItems: new Set(
+            [...prev.processingItems].filter((id) => id !== itemId)
+          ),
+        }));
+        toast.success('Note added');
+        return savedNote;
+      } catch (error) {
+        const queuedItem = await queueIfOffline(error, checklistId, itemId, {
+          kind: 'note',
+          request: { noteText: pendingNote.noteText },
+        });
+        if (queuedItem) {
+          completeQueued(itemId);
+          return pendingNote;
+        }
+
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to add note';
+
+        // Rollback optimistic update
+        onNotesUpdate?.(itemId, (notes) => removeNote(notes, pendingNote.id));
+
+        setState((prev) => ({
+          ...prev,
+          loading: false,
+          error: errorMessage,
+          processingItems: new Set(
+            [...prev.processingItems].filter((id) => id !== itemId)
+          ),
+        }));
+        toast.error(errorMessage);
+        return null;
+      }
+    },
+    [completeQueued]
+  );
+
+  /**
+   * Edit your own note (requires a connection)
+   */
+  const editNote = useCallback(
+    async (
+      checklistId: string,
+      note: ItemNote,
+      noteText: string,
+      onNotesUpdate?: NotesUpdateFn
+    ): Promise<ItemNote | null> => {
+      const itemId = note.checklistItemId;
+
+      // Optimistic update
+      onNotesUpdate?.(itemId, (notes) =>
+        upsertNote(notes, { ...note, noteText: noteText.trim(), isEdited: true })
+      );
+
+      try {
+        const savedNote = await itemService.updateNote(checklistId, itemId, note.id, {
+          noteText: noteText.trim(),
+        });
+        onNotesUpdate?.(itemId, (notes) => upsertNote(notes, savedNote));
+        toast.success('Note updated');
+        return savedNote;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to update note';
+
+        // Rollback optimistic update
+        onNotesUpdate?.(itemId, (notes) => upsertNote(notes, note));
+
+        setState((prev) => ({ ...prev, error: errorMessage }));
+        toast.error(errorMessage);
+        return null;
+      }
+    },
+    []
+  );
+
+  /**
+   * Delete your own note (requires a connection)
+   */
+  const deleteNote = useCallback(
+    async (
+      checklistId: string,
+      note: ItemNote,
+      onNotesUpdate?: NotesUpdateFn
+    ): Promise<boolean> => {
+      const itemId = note.checklistItemId;
+
+      // Optimistic update
+      onNotesUpdate?.(itemId, (notes) => removeNote(notes, note.id));
+
+      try {
+        await itemService.deleteNote(checklistId, itemId, note.id);
+        toast.success('Note deleted');
+        return true;
+      } catch (error) {
+        const errorMessage =
+          error instanceof Error ? error.message : 'Failed to delete note';
+
+        // Rollback optimistic update
+        onNotesUpdate?.(itemId, (notes) => upsertNote(notes, note));
+
+        setState((prev) => ({ ...prev, error: errorMessage }));
+        toast.error(errorMessage);
+        return false;
+      }
+    },
     []
   );
 
@@ -436,7 +820,11 @@ export const useItemActions = (): UseItemActionsReturn => {
     markIncomplete,
     toggleComplete,
     updateStatus,
-    updateNotes,
+    updateValue,
+    bulkUpdate,
+    addNote,
+    editNote,
+    deleteNote,
     isProcessing,
     clearError,
   };
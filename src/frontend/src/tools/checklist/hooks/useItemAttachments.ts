@@ -0,0 +1,129 @@
+/**
+ * useItemAttachments Hook - Files attached to one checklist item
+ *
+ * Loads the item's attachments and the configured size/type limits, and
+ * uploads or deletes files with toast feedback. Files are checked against
+ * the limits before uploading.
+ *
+ * The list reloads when attachmentCount changes, so counts updated by other
+ * users (ItemAttachmentsChanged hub event) refresh the thumbnails.
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { toast } from 'react-toastify';
+import { itemService } from '../services/itemService';
+import type { AttachmentLimits, ItemAttachment } from '../types';
+import { DEFAULT_ATTACHMENT_LIMITS, validateAttachmentFile } from '../utils/attachments';
+
+// Limits rarely change; share one request across all attachment panels
+let limitsRequest: Promise<AttachmentLimits> | null = null;
+
+const loadLimits = (): Promise<AttachmentLimits> => {
+  if (!limitsRequest) {
+    limitsRequest = itemService.getAttachmentLimits().catch((error) => {
+      limitsRequest = null;
+      throw error;
+    });
+  }
+  return limitsRequest;
+};
+
+interface UseItemAttachmentsReturn {
+  attachments: ItemAttachment[];
+  limits: AttachmentLimits;
+  loading: boolean;
+  uploading: boolean;
+  upload: (files: File[]) => Promise<void>;
+  remove: (attachment: ItemAttachment) => Promise<void>;
+}
+
+/**
+ * Custom hook for an item's attachments
+ * @param checklistId Checklist GUID
+ * @param itemId Item GUID
+ * @param attachmentCount Item's current count (a change triggers a reload)
+ * @param onCountChange Called with the new count after an upload or delete
+ */
+export const useItemAttachments = (
+  checklistId: string,
+  itemId: string,
+  attachmentCount: number,
+  onCountChange?: (count: number) => void
+): UseItemAttachmentsReturn => {
+  const [attachments, setAttachments] = useState<ItemAttachment[]>([]);
+  const [limits, setLimits] = useState<AttachmentLimits>(DEFAULT_ATTACHMENT_LIMITS);
+  const [loading, setLoading] = useState(false);
+  const [uploading, setUploading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadLimits()
+      .then((loaded) => !cancelled && setLimits(loaded))
+      .catch((error) => console.error('Failed to load attachment limits:', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    itemService
+      .getAttachments(checklistId, itemId)
+      .then((loaded) => !cancelled && setAttachments(loaded))
+      .catch((error) => console.error(`Failed to load attachments for item ${itemId}:`, error))
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [checklistId, itemId, attachmentCount]);
+
+  const upload = useCallback(
+    async (files: File[]) => {
+      const accepted = files.filter((file) => {
+        const validationError = validateAttachmentFile(file, limits);
+        if (validationError) toast.error(validationError);
+        return !validationError;
+      });
+      if (accepted.length === 0) return;
+
+      setUploading(true);
+      const uploaded: ItemAttachment[] = [];
+      for (const file of accepted) {
+        try {
+          uploaded.push(await itemService.uploadAttachment(checklistId, itemId, file));
+        } catch (error) {
+          const message = error instanceof Error ? error.message : 'Failed to attach file';
+          toast.error(message);
+        }
+      }
+      setUploading(false);
+
+      if (uploaded.length > 0) {
+        const updated = [...attachments, ...uploaded];
+        setAttachments(updated);
+        onCountChange?.(updated.length);
+        toast.success(uploaded.length === 1 ? 'File attached' : `${uploaded.length} files attached`);
+      }
+    },
+    [checklistId, itemId, limits, attachments, onCountChange]
+  );
+
+  const remove = useCallback(
+    async (attachment: ItemAttachment) => {
+      try {
+        await itemService.deleteAttachment(checklistId, itemId, attachment.id);
+        const updated = attachments.filter((a) => a.id !== attachment.id);
+        setAttachments(updated);
+        onCountChange?.(updated.length);
+        toast.success(`Removed ${attachment.fileName}`);
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Failed to delete attachment';
+        toast.error(message);
+      }
+    },
+    [checklistId, itemId, attachments, onCountChange]
+  );
+
+  return { attachments, limits, loading, uploading, upload, remove };
+};
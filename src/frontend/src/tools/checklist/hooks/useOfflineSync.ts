@@ -0,0 +1,170 @@
+/**
+ * useOfflineSync Hook - Connectivity tracking and offline queue replay
+ *
+ * Provides:
+ * - Online/offline state (browser connectivity events)
+ * - Count of queued offline changes and conflicts for a checklist
+ * - Automatic replay of the queue when the connection returns
+ * - Conflict resolution (keep my change / use server version)
+ *
+ * Used by ChecklistDetailPage together with useChecklistDetail, which falls
+ * back to the cached checklist while offline.
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'react-toastify';
+import {
+  offlineQueueService,
+  type ConflictResolution,
+} from '../services/offlineQueueService';
+import type { QueuedItemMutation } from '../services/offlineStore';
+
+/**
+ * Offline sync hook state
+ */
+interface UseOfflineSyncState {
+  isOnline: boolean;
+  syncing: boolean;
+  pendingCount: number;
+  conflicts: QueuedItemMutation[];
+}
+
+/**
+ * Offline sync hook return type
+ */
+interface UseOfflineSyncReturn extends UseOfflineSyncState {
+  refreshQueueState: () => Promise<void>;
+  syncNow: () => Promise<void>;
+  resolveConflict: (sequence: number, resolution: ConflictResolution) => Promise<void>;
+}
+
+/**
+ * Custom hook for offline sync
+ * @param checklistId Checklist to report pending changes/conflicts for
+ * @param onSynced Called after queued changes were sent or discarded (refetch)
+ */
+export const useOfflineSync = (
+  checklistId?: string,
+  onSynced?: () => void
+): UseOfflineSyncReturn => {
+  const [state, setState] = useState<UseOfflineSyncState>({
+    isOnline: navigator.onLine,
+    syncing: false,
+    pendingCount: 0,
+    conflicts: [],
+  });
+
+  // Keep latest callback without re-registering event listeners
+  const onSyncedRef = useRef(onSynced);
+  onSyncedRef.current = onSynced;
+
+  /**
+   * Reload queue counts for the checklist
+   */
+  const refreshQueueState = useCallback(async (): Promise<void> => {
+    try {
+      const queued = await offlineQueueService.getQueuedMutations(checklistId);
+      setState((prev) => ({
+        ...prev,
+        pendingCount: queued.filter((mutation) => mutation.state === 'pending').length,
+        conflicts: queued.filter((mutation) => mutation.state === 'conflict'),
+      }));
+    } catch (error) {
+      console.warn('[OfflineSync] Offline storage unavailable:', error);
+    }
+  }, [checklistId]);
+
+  /**
+   * Replay queued changes now
+   */
+  const syncNow = useCallback(async (): Promise<void> => {
+    setState((prev) => ({ ...prev, syncing: true }));
+
+    try {
+      const summary = await offlineQueueService.replayQueue();
+
+      if (summary.synced > 0) {
+        toast.success(
+          `Synced ${summary.synced} offline change${summary.synced === 1 ? '' : 's'}`
+        );
+      }
+      if (summary.conflicts > 0) {
+        toast.warning(
+          `${summary.conflicts} offline change${summary.conflicts === 1 ? '' : 's'} conflict with updates from others. Review before syncing.`,
+          { autoClose: 10000 }
+        );
+      }
+      summary.failed.forEach(({ mutation, message }) => {
+        toast.error(`Offline change to "${mutation.itemText}" was rejected: ${message}`, {
+          autoClose: 10000,
+        });
+      });
+
+      if (summary.synced > 0 || summary.failed.length > 0) {
+        onSyncedRef.current?.();
+      }
+    } catch (error) {
+      console.error('[OfflineSync] Replay failed:', error);
+    } finally {
+      setState((prev) => ({ ...prev, syncing: false }));
+      await refreshQueueState();
+    }
+  }, [refreshQueueState]);
+
+  /**
+   * Resolve a conflicted change, then replay so kept changes are sent
+   */
+  const resolveConflict = useCallback(
+    async (sequence: number, resolution: ConflictResolution): Promise<void> => {
+      await offlineQueueService.resolveConflict(sequence, resolution);
+      if (resolution === 'use-server') {
+        onSyncedRef.current?.();
+      }
+      if (navigator.onLine) {
+        await syncNow();
+      } else {
+        await refreshQueueState();
+      }
+    },
+    [syncNow, refreshQueueState]
+  );
+
+  /**
+   * Track connectivity and replay when the connection returns
+   */
+  useEffect(() => {
+    const handleOnline = () => {
+      setState((prev) => ({ ...prev, isOnline: true }));
+      syncNow();
+    };
+    const handleOffline = () => {
+      setState((prev) => ({ ...prev, isOnline: false }));
+    };
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  /**
+   * Flush anything left from a previous session on mount
+   */
+  useEffect(() => {
+    if (navigator.onLine) {
+      syncNow();
+    } else {
+      refreshQueueState();
+    }
+  }, [syncNow, refreshQueueState]);
+
+  return {
+    ...state,
+    refreshQueueState,
+    syncNow,
+    resolveConflict,
+  };
+};
@@ -33,7 +33,7 @@ export interface OperationalPeriodSection {
  * Hook options
  */
 interface UseOperationalPeriodGroupingOptions {
-  currentOperationalPeriodId?: string; // From C5 context (if available)
+  currentOperationalPeriodId?: string; // From useOperationalPeriods (current or pinned period)
   sortPreviousByDate?: boolean; // Sort previous periods chronologically (default: true)
 }
 
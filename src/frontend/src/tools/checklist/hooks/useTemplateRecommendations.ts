@@ -0,0 +1,110 @@
+/**
+ * useTemplateRecommendations Hook
+ *
+ * Loads the templates a checklist can be created from (active, approved,
+ * manual) and ranks them for the current user and event: the user's
+ * positions, the event's primary and additional categories, recency, and
+ * which templates other positions already used in this event.
+ *
+ * Used by TemplatePickerDialog and the landing page suggestions. Ranking
+ * lives in utils/templateRecommendations.
+ */
+
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { getCurrentUser } from '../../../core/services/api';
+import { eventCategoryService, useEvents, type EventCategory } from '../../../shared/events';
+import { templateService } from '../services/templateService';
+import { checklistService, type ChecklistInstanceDto } from '../services/checklistService';
+import { TemplateApprovalStatus, TemplateType, type Template } from '../types';
+import {
+  getEventCategories,
+  getSuggestions,
+  rankTemplates,
+  type RecommendationContext,
+  type TemplateRecommendation,
+} from '../utils/templateRecommendations';
+
+interface UseTemplateRecommendationsReturn {
+  /** Usable templates, sorted by name */
+  templates: Template[];
+  /** Every usable template, best first */
+  ranked: TemplateRecommendation[];
+  /** Ranked templates with at least one reason */
+  suggestions: TemplateRecommendation[];
+  loading: boolean;
+  error: string | null;
+  reload: () => Promise<void>;
+}
+
+const getUserPositions = (): string[] => {
+  const user = getCurrentUser();
+  return user.positions?.length ? user.positions : [user.position];
+};
+
+/**
+ * @param enabled Load only when true (e.g. while the picker is open)
+ */
+export const useTemplateRecommendations = (enabled: boolean): UseTemplateRecommendationsReturn => {
+  const { currentEvent } = useEvents();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [categories, setCategories] = useState<EventCategory[]>([]);
+  const [eventChecklists, setEventChecklists] = useState<ChecklistInstanceDto[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const reload = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const allTemplates = await templateService.getAllTemplates();
+      setTemplates(
+        allTemplates
+          .filter(
+            (t) =>
+              t.isActive &&
+              !t.isArchived &&
+              t.templateType === TemplateType.MANUAL &&
+              t.approvalStatus === TemplateApprovalStatus.APPROVED
+          )
+          .sort((a, b) => a.name.localeCompare(b.name))
+      );
+
+      // Category and event context only improve the ranking, so failures are not fatal
+      const [categoryResult, checklistResult] = await Promise.allSettled([
+        eventCategoryService.getCategories(),
+        currentEvent?.id
+          ? checklistService.getChecklistsByEvent(currentEvent.id, false, true)
+          : Promise.resolve([]),
+      ]);
+      setCategories(categoryResult.status === 'fulfilled' ? categoryResult.value : []);
+      setEventChecklists(checklistResult.status === 'fulfilled' ? checklistResult.value : []);
+      if (categoryResult.status === 'rejected' || checklistResult.status === 'rejected') {
+        console.warn('Failed to load event context for template recommendations');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load templates');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentEvent?.id]);
+
+  useEffect(() => {
+    if (enabled) {
+      reload();
+    }
+  }, [enabled, reload]);
+
+  const ranked = useMemo(() => {
+    const context: RecommendationContext = {
+      eventCategories: getEventCategories(currentEvent, categories),
+      userPositions: getUserPositions(),
+      eventChecklists,
+    };
+    return rankTemplates(templates, context);
+  }, [templates, categories, eventChecklists, currentEvent]);
+
+  const suggestions = useMemo(() => getSuggestions(ranked), [ranked]);
+
+  return { templates, ranked, suggestions, loading, error, reload };
+};
@@ -13,6 +13,7 @@ export { LandingPage } from './pages/LandingPage';
 export { ManageChecklistsPage } from './pages/ManageChecklistsPage';
 export { ManagePage } from './pages/ManagePage';
 export { MyChecklistsPage } from './pages/MyChecklistsPage';
+export { TemplateApprovalQueueContent } from './pages/TemplateApprovalQueueContent';
 export { TemplateEditorPage } from './pages/TemplateEditorPage';
 export { TemplateLibraryContent } from './pages/TemplateLibraryContent';
 export { TemplateLibraryPage } from './pages/TemplateLibraryPage';
@@ -22,17 +23,26 @@ export { TemplatePreviewPage } from './pages/TemplatePreviewPage';
 export { useChecklistDetail } from './hooks/useChecklistDetail';
 export { useChecklistHub } from './hooks/useChecklistHub';
 export { useChecklists } from './hooks/useChecklists';
+export { useCurrentTime } from './hooks/useCurrentTime';
 export { useHighlightItem } from './hooks/useHighlightItem';
 export { useItemActions } from './hooks/useItemActions';
+export { useOfflineSync } from './hooks/useOfflineSync';
 export { useOperationalPeriodGrouping } from './hooks/useOperationalPeriodGrouping';
+export { useTemplateRecommendations } from './hooks/useTemplateRecommendations';
 export { useTemplates } from './hooks/useTemplates';
 
 // Services
 export { analyticsService } from './services/analyticsService';
+export { checklistPrintService } from './services/checklistPrintService';
 export { checklistService } from './services/checklistService';
+export { ics214ExportService } from './services/ics214ExportService';
 export { itemLibraryService } from './services/itemLibraryService';
 export { itemService } from './services/itemService';
+export { offlineQueueService } from './services/offlineQueueService';
+export { templateApprovalService } from './services/templateApprovalService';
+export { templatePackService } from './services/templatePackService';
 export { templateService } from './services/templateService';
+export { templateVersionService } from './services/templateVersionService';
 
 // Re-export types from services
 export type {
@@ -41,6 +51,13 @@ export type {
   CreateFromTemplateRequest,
   UpdateChecklistRequest,
   CloneChecklistRequest,
+  CarryForwardChecklistsRequest,
+  CarryForwardResult,
+  CarryForwardSkipped,
+  AutoCreateChecklistPreview,
+  AutoCreateChecklistsRequest,
+  AutoCreateResult,
+  AutoCreateSkipped,
 } from './services/checklistService';
 
 export type {
@@ -49,6 +66,13 @@ export type {
   UpdateTemplateRequest,
 } from './services/templateService';
 
+export type { ItemMutation, QueuedItemMutation } from './services/offlineStore';
+export type { ConflictResolution, ReplaySummary } from './services/offlineQueueService';
+export type { Ics214ExportFormat } from './services/ics214ExportService';
+export type { ChecklistPrintMode } from './utils/checklistPrint';
+export type { TemplateRecommendation, RecommendationReason } from './utils/templateRecommendations';
+export type { TemplatePackImportResult } from './services/templatePackService';
+
 // Experiments (A/B testing for checklist UX variants)
 export {
   type ChecklistVariant,
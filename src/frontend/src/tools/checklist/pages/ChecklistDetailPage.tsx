@@ -6,6 +6,12 @@
  *
  * User Story 2.4: View Checklist Instance Detail
  * User Story 3.1-3.3: Item completion, status updates, notes
+ *
+ * Manage role: "Edit Items" adds, removes and reorders items of the live
+ * checklist (not archived); other viewers see the change through the hub.
+ *
+ * Sign-off: a completed checklist is submitted for supervisor sign-off; once
+ * signed off every variant is read-only until a manager reopens it.
  */
 
 import { useEffect, useState, useMemo } from 'react';
@@ -27,14 +33,19 @@ import {
   Select,
   MenuItem,
   Collapse,
+  Alert,
+  Tooltip,
+  type SxProps,
+  type Theme,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faArrowLeft, faNoteSticky, faCopy, faCircleInfo, faBoxArchive } from '@fortawesome/free-solid-svg-icons';
+import { faArrowLeft, faNoteSticky, faCopy, faCircleInfo, faBoxArchive, faFileExport, faClockRotateLeft, faListUl, faPen, faPenToSquare, faCheck, faPrint } from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
 import { AppLayout, BreadcrumbItem } from '../../../core';
 import { useChecklistDetail } from '../hooks/useChecklistDetail';
 import { useItemActions } from '../hooks/useItemActions';
-import { useChecklistHub } from '../hooks/useChecklistHub';
+import { useOfflineSync } from '../hooks/useOfflineSync';
+import { useChecklistHub, type ChecklistViewer } from '../hooks/useChecklistHub';
 import { useChecklistVariant } from '../experiments';
 import { useEvents } from '../../../shared/events';
 import { usePermissions } from '../../../shared/hooks/usePermissions';
@@ -45,17 +56,60 @@ import { c5Colors } from '../../../theme/c5Theme';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import CobraStyles from '../../../theme/CobraStyles';
 import { ItemNotesDialog } from '../components/ItemNotesDialog';
+import { ViewerAvatars } from '../components/ViewerAvatars';
+import { ItemHistoryDrawer } from '../components/ItemHistoryDrawer';
+import { ChecklistActivityPanel } from '../components/ChecklistActivityPanel';
+import { ItemAttachments } from '../components/ItemAttachments';
+import { OfflineSyncBanner } from '../components/OfflineSyncBanner';
 import { CreateChecklistDialog, type ChecklistCreationData } from '../components/CreateChecklistDialog';
+import { Ics214ExportDialog } from '../components/Ics214ExportDialog';
+import { ChecklistPrintDialog } from '../components/ChecklistPrintDialog';
 import {
   ChecklistDetailClassic,
   ChecklistDetailCompact,
   ChecklistDetailProgressive,
 } from '../components/checklist-variants';
 import { ChecklistProgressBar } from '../components/ChecklistProgressBar';
+import { ItemDueChip, overdueItemSx } from '../components/ItemDueChip';
+import { ItemBlockedNotice, blockedItemSx } from '../components/ItemBlockedNotice';
+import { useCurrentTime } from '../hooks/useCurrentTime';
+import { getItemDueTime, isItemOverdue } from '../utils/itemDue';
+import { countBlockedItems, getBlockedReason } from '../utils/itemPrerequisites';
+import { formatItemValue, isValueItemType } from '../utils/itemValue';
+import { formatNoteAuthor, getLatestNote, removeNote, upsertNote } from '../utils/itemNotes';
+import { formatNotesEditors, getNotesEditors, getOtherViewers } from '../utils/presence';
+import { ItemValueInput } from '../components/ItemValueInput';
+import { LiveItemEditor } from '../components/LiveItemEditor';
+import { BulkActionBar } from '../components/BulkActionBar';
+import { BulkSelectableItem } from '../components/BulkSelectableItem';
+import { ChecklistSignOffBanner } from '../components/ChecklistSignOffBanner';
+import { getBulkActionTargets, toggleItemSelection } from '../utils/bulkItemActions';
+import { isChecklistSignedOff } from '../utils/checklistSignOff';
 import { checklistService } from '../services/checklistService';
-import type { ChecklistItemDto } from '../services/checklistService';
+import { itemService } from '../services/itemService';
+import { itemLibraryService } from '../services/itemLibraryService';
+import { moveLiveItem, toAddItemRequest, getInsertAfterItemId } from '../utils/liveItemEditing';
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+import { BulkAction, type AddChecklistItemRequest, type ItemLibraryEntry, type ItemNote } from '../types';
 import type { StatusOption } from '../../../types';
 
+/**
+ * Fetch newer activity when the checklist changes (hub events, your own changes,
+ * metadata updates)
+ */
+const getActivityRefreshKey = (checklist: ChecklistInstanceDto): string =>
+  [
+    checklist.name,
+    checklist.assignedPositions ?? '',
+    checklist.operationalPeriodId ?? '',
+    ...checklist.items.map(
+      (item) =>
+        `${item.id}:${item.isCompleted}:${item.currentStatus ?? ''}:${item.value ?? ''}:${
+          item.lastModifiedAt ?? ''
+        }:${(item.notes ?? []).map((note) => `${note.id}:${note.editedAt ?? ''}`).join(',')}`
+    ),
+  ].join('|');
+
 /**
  * Parse status configuration from JSON string
  * Handles both simple string arrays and full StatusOption objects
@@ -95,21 +149,60 @@ export const ChecklistDetailPage: React.FC = () => {
   const navigate = useNavigate();
   const { variant } = useChecklistVariant();
   const { currentEvent } = useEvents();
-  const { canInteractWithItems, isReadonly, canArchiveOwnChecklists, canArchiveAnyChecklist } = usePermissions();
+  const { canInteractWithItems, isReadonly, canArchiveOwnChecklists, canArchiveAnyChecklist, canViewTemplateLibrary, canEditItems } = usePermissions();
   const {
     checklist,
     loading,
     error,
+    isOfflineCopy,
+    cachedAt,
     fetchChecklist,
+    syncChanges,
     updateItemLocally,
+    updateItemNotesLocally,
+    setItemsLocally,
   } = useChecklistDetail();
-  const { toggleComplete, updateNotes, updateStatus, isProcessing } = useItemActions();
+  const {
+    toggleComplete,
+    updateStatus,
+    updateValue,
+    addNote,
+    editNote,
+    deleteNote,
+    bulkUpdate,
+    isProcessing,
+  } = useItemActions();
+  const now = useCurrentTime();
+
+  // Offline execution - queued changes replay when the connection returns
+  const {
+    isOnline,
+    syncing,
+    pendingCount,
+    conflicts,
+    refreshQueueState,
+    syncNow,
+    resolveConflict,
+  } = useOfflineSync(checklistId, () => {
+    if (checklistId) {
+      fetchChecklist(checklistId);
+    }
+  });
+
+  // Pending count changes whenever the displayed checklist is refetched
+  // (including after an item change is queued offline)
+  useEffect(() => {
+    refreshQueueState();
+  }, [checklist, refreshQueueState]);
 
   // Item highlight state (when navigating from landing page)
   const { highlightedItemId, isHighlighting, getItemRef } = useHighlightItem();
 
+  // Everyone viewing this checklist (live presence, includes us)
+  const [viewers, setViewers] = useState<ChecklistViewer[]>([]);
+
   // Real-time collaboration via SignalR
-  const { joinChecklist, leaveChecklist } = useChecklistHub({
+  const { joinChecklist, leaveChecklist, joinPresence, setNotesOpen } = useChecklistHub({
     onItemCompletionChanged: (data) => {
       console.log('[Real-time] Item completion changed:', data);
       // Update local state
@@ -143,52 +236,151 @@ export const ChecklistDetailPage: React.FC = () => {
         fetchChecklist(checklistId);
       }
     },
-    onItemNotesChanged: (data) => {
-      console.log('[Real-time] Item notes changed:', data);
+    onItemValueChanged: (data) => {
+      console.log('[Real-time] Item value changed:', data);
       // Update local state
       updateItemLocally(data.itemId, {
-        notes: data.notes,
+        value: data.value ?? undefined,
+        isCompleted: data.isCompleted,
+        completedBy: data.completedBy ?? undefined,
+        completedByPosition: data.completedByPosition ?? undefined,
+        completedAt: data.completedAt ?? undefined,
       });
       // Show toast notification
       const by = data.changedByPosition || data.changedBy || 'Someone';
-      toast.info(`${by} updated item notes`, { autoClose: 3000 });
+      toast.info(`${by} ${data.value ? 'recorded a value' : 'cleared a value'}`, { autoClose: 3000 });
+      // Refresh to get updated progress
+      if (checklistId) {
+        fetchChecklist(checklistId);
+      }
+    },
+    onItemNoteAdded: (data) => {
+      console.log('[Real-time] Item note added:', data);
+      // Append to the thread (keeps notes being typed by anyone else)
+      updateItemNotesLocally(data.itemId, (notes) => upsertNote(notes, data.note));
+      const by = data.changedByPosition || data.changedBy || 'Someone';
+      toast.info(`${by} added a note`, { autoClose: 3000 });
+    },
+    onItemNoteUpdated: (data) => {
+      console.log('[Real-time] Item note updated:', data);
+      updateItemNotesLocally(data.itemId, (notes) => upsertNote(notes, data.note));
+      const by = data.changedByPosition || data.changedBy || 'Someone';
+      toast.info(`${by} edited a note`, { autoClose: 3000 });
+    },
+    onItemNoteDeleted: (data) => {
+      console.log('[Real-time] Item note deleted:', data);
+      updateItemNotesLocally(data.itemId, (notes) => removeNote(notes, data.noteId));
+      const by = data.changedByPosition || data.changedBy || 'Someone';
+      toast.info(`${by} deleted a note`, { autoClose: 3000 });
+    },
+    onItemAttachmentsChanged: (data) => {
+      console.log('[Real-time] Item attachments changed:', data);
+      // Update local state (thumbnails reload when the count changes)
+      updateItemLocally(data.itemId, {
+        attachmentCount: data.attachmentCount,
+      });
+      const by = data.changedByPosition || data.changedBy || 'Someone';
+      toast.info(`${by} updated item attachments`, { autoClose: 3000 });
     },
     onChecklistUpdated: (data) => {
       console.log('[Real-time] Checklist updated:', data);
+      const by = data.updatedByPosition || data.updatedBy || 'Someone';
+      if (data.updateType === 'item_added') {
+        toast.info(`${by} added an item`, { autoClose: 3000 });
+      } else if (data.updateType === 'item_removed') {
+        toast.info(`${by} removed an item`, { autoClose: 3000 });
+      } else if (data.updateType === 'items_reordered') {
+        toast.info(`${by} reordered the items`, { autoClose: 3000 });
+      } else if (data.updateType === 'items_bulk_updated') {
+        toast.info(`${by} updated several items`, { autoClose: 3000 });
+      } else if (data.updateType === 'sign_off_changed') {
+        toast.info(`${by} changed the checklist's sign-off`, { autoClose: 3000 });
+      }
       // Refresh full checklist to get latest progress
       if (checklistId) {
         fetchChecklist(checklistId);
       }
     },
+    onItemOverdue: (data) => {
+      // Overdue styling follows the clock; the toast makes sure it gets noticed
+      if (data.checklistId === checklistId) {
+        toast.error(`Overdue: ${data.itemText}`, { autoClose: 10000 });
+      }
+    },
+    onPresenceChanged: (data) => {
+      if (data.checklistId === checklistId) {
+        setViewers(data.viewers);
+      }
+    },
+    onReconnected: (since) => {
+      // Merge changes made while we were disconnected (no full reload)
+      if (checklistId) {
+        syncChanges(checklistId, since(checklistId));
+      }
+    },
   });
 
-  // Join/leave checklist group when checklistId changes
+  // Join/leave checklist group and presence when checklistId changes
+  // (leaving the group also ends our presence)
   useEffect(() => {
     if (checklistId) {
       joinChecklist(checklistId);
+      joinPresence(checklistId);
     }
 
     return () => {
+      setViewers([]);
       if (checklistId) {
         leaveChecklist(checklistId);
       }
     };
-  }, [checklistId, joinChecklist, leaveChecklist]);
+  }, [checklistId, joinChecklist, joinPresence, leaveChecklist]);
+
+  // Tell other viewers which item's notes we have open
+  const handleNotesOpenChange = (itemId: string | null) => {
+    if (checklistId) {
+      setNotesOpen(checklistId, itemId);
+    }
+  };
+
+  const currentUserEmail = getCurrentUser().email;
+  const otherViewers = getOtherViewers(viewers, currentUserEmail);
 
   // Notes dialog state
   const [notesDialogOpen, setNotesDialogOpen] = useState(false);
   const [editingItem, setEditingItem] = useState<ChecklistItemDto | null>(null);
 
+  // History drawer state
+  const [historyItemId, setHistoryItemId] = useState<string | null>(null);
+
   // Copy dialog state
   const [copyDialogOpen, setCopyDialogOpen] = useState(false);
   const [copyMode, setCopyMode] = useState<'clone-clean' | 'clone-direct'>('clone-clean');
   const [copying, setCopying] = useState(false);
 
+  // ICS-214 export dialog state
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+
+  // Print / PDF dialog state
+  const [printDialogOpen, setPrintDialogOpen] = useState(false);
+
+  // Checklist activity feed state
+  const [activityOpen, setActivityOpen] = useState(false);
+
   // Item info expanded state
   const [expandedItemInfo, setExpandedItemInfo] = useState<Set<string>>(new Set());
 
   // Archive confirmation dialog state
   const [archiveDialogOpen, setArchiveDialogOpen] = useState(false);
+
+  // Live item editing (Manage role)
+  const [editingItems, setEditingItems] = useState(false);
+  const [savingItems, setSavingItems] = useState(false);
+
+  // Selection mode (bulk item actions)
+  const [selectionMode, setSelectionMode] = useState(false);
+  const [selectedItemIds, setSelectedItemIds] = useState<Set<string>>(new Set());
+  const [bulkUpdating, setBulkUpdating] = useState(false);
   const [isArchiving, setIsArchiving] = useState(false);
 
   // Breadcrumbs - dynamically built based on checklist name
@@ -262,32 +454,35 @@ export const ChecklistDetailPage: React.FC = () => {
   const handleOpenNotesDialog = (item: ChecklistItemDto) => {
     setEditingItem(item);
     setNotesDialogOpen(true);
+    handleNotesOpenChange(item.id);
   };
 
   // Handle close notes dialog
   const handleCloseNotesDialog = () => {
     setNotesDialogOpen(false);
     setEditingItem(null);
+    handleNotesOpenChange(null);
   };
 
-  // Handle save notes
-  const handleSaveNotes = async (notes: string) => {
-    if (!checklistId || !editingItem) return;
+  // Note thread handlers (dialog stays open; the thread updates in place)
+  const handleAddNote = async (itemId: string, noteText: string): Promise<boolean> => {
+    if (!checklistId) return false;
+    return (await addNote(checklistId, itemId, noteText, updateItemNotesLocally)) !== null;
+  };
 
-    const updatedItem = await updateNotes(
-      checklistId,
-      editingItem.id,
-      notes,
-      updateItemLocally
-    );
+  const handleEditNote = async (note: ItemNote, noteText: string): Promise<boolean> => {
+    if (!checklistId) return false;
+    return (await editNote(checklistId, note, noteText, updateItemNotesLocally)) !== null;
+  };
 
-    if (updatedItem) {
-      // Success - close dialog
-      handleCloseNotesDialog();
+  const handleDeleteNote = async (note: ItemNote): Promise<boolean> => {
+    if (!checklistId) return false;
+    return deleteNote(checklistId, note, updateItemNotesLocally);
+  };
 
-      // Refresh checklist to ensure we have latest data
-      fetchChecklist(checklistId);
-    }
+  // Handle attachments added or removed in the notes dialog
+  const handleAttachmentCountChange = (itemId: string, count: number) => {
+    updateItemLocally(itemId, { attachmentCount: count });
   };
 
   // Handle status change (inline dropdown)
@@ -308,6 +503,19 @@ export const ChecklistDetailPage: React.FC = () => {
     }
   };
 
+  // Handle value capture (number, text, date/time, yes/no items)
+  const handleValueChange = async (itemId: string, value: string | null) => {
+    if (!checklistId || !checklist) return;
+
+    const previousValue = checklist.items.find((i) => i.id === itemId)?.value;
+    const updatedItem = await updateValue(checklistId, itemId, value, previousValue, updateItemLocally);
+
+    if (updatedItem) {
+      // Refresh checklist to ensure we have latest data
+      fetchChecklist(checklistId);
+    }
+  };
+
   // Handle open copy dialog
   const handleOpenCopyDialog = (mode: 'clone-clean' | 'clone-direct') => {
     setCopyMode(mode);
@@ -331,7 +539,8 @@ export const ChecklistDetailPage: React.FC = () => {
         checklistId,
         data.name,
         preserveStatus,
-        data.assignedPositions
+        data.assignedPositions,
+        { id: data.operationalPeriodId, name: data.operationalPeriodName }
       );
 
       toast.success(`Checklist "${newChecklist.name}" created successfully!`);
@@ -350,6 +559,120 @@ export const ChecklistDetailPage: React.FC = () => {
     }
   };
 
+  // Handle item added in edit mode
+  const handleAddItem = async (request: AddChecklistItemRequest): Promise<boolean> => {
+    if (!checklistId) return false;
+
+    try {
+      setSavingItems(true);
+      await itemService.addItem(checklistId, request);
+      toast.success('Item added');
+      fetchChecklist(checklistId);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add item';
+      toast.error(message);
+      return false;
+    } finally {
+      setSavingItems(false);
+    }
+  };
+
+  // Handle library items added in edit mode (each goes after the previous one)
+  const handleAddFromLibrary = async (entries: ItemLibraryEntry[], sectionName: string | null) => {
+    if (!checklistId || !checklist || entries.length === 0) return;
+
+    let insertAfterItemId = getInsertAfterItemId(checklist.items, sectionName);
+    let added = 0;
+
+    try {
+      setSavingItems(true);
+      for (const entry of entries) {
+        const item = await itemService.addItem(checklistId, toAddItemRequest(entry, sectionName, insertAfterItemId));
+        insertAfterItemId = item.id;
+        added++;
+
+        itemLibraryService.incrementUsageCount(entry.id).catch((err) => {
+          console.error('Failed to increment usage count:', err);
+        });
+      }
+      toast.success(`Added ${added} item${added > 1 ? 's' : ''} from library`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to add items';
+      toast.error(added > 0 ? `Added ${added} of ${entries.length} items: ${message}` : message);
+    } finally {
+      setSavingItems(false);
+      fetchChecklist(checklistId);
+    }
+  };
+
+  // Handle item removed in edit mode
+  const handleRemoveItem = async (item: ChecklistItemDto): Promise<boolean> => {
+    if (!checklistId) return false;
+
+    try {
+      setSavingItems(true);
+      await itemService.removeItem(checklistId, item.id);
+      toast.success('Item removed');
+      fetchChecklist(checklistId);
+      return true;
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to remove item';
+      toast.error(message);
+      return false;
+    } finally {
+      setSavingItems(false);
+    }
+  };
+
+  // Handle drag-and-drop in edit mode (optimistic; reloads if the save fails)
+  const handleMoveItem = async (activeId: string, overId: string) => {
+    if (!checklistId || !checklist) return;
+
+    const reordered = moveLiveItem(checklist.items, activeId, overId);
+    if (!reordered) {
+      toast.info('Items can only be moved within their section');
+      return;
+    }
+
+    setItemsLocally(reordered);
+
+    try {
+      await itemService.reorderItems(checklistId, { itemIds: reordered.map((item) => item.id) });
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to reorder items';
+      toast.error(message);
+      fetchChecklist(checklistId);
+    }
+  };
+
+  // Turn selection mode on/off (the selection starts empty each time)
+  const handleSelectionModeChange = (enabled: boolean) => {
+    setSelectionMode(enabled);
+    setSelectedItemIds(new Set());
+  };
+
+  const handleToggleItemSelected = (itemId: string) => {
+    setSelectedItemIds((current) => toggleItemSelection(current, itemId));
+  };
+
+  // Apply a bulk action; items the server rejected stay selected
+  const handleBulkApply = async (action: BulkAction, targetStatus?: string) => {
+    if (!checklistId || !checklist) return;
+
+    const targets = getBulkActionTargets(checklist.items, selectedItemIds, action, targetStatus);
+    if (targets.length === 0) return;
+
+    setBulkUpdating(true);
+    const failures = await bulkUpdate(checklistId, targets, action, targetStatus, updateItemLocally);
+    setBulkUpdating(false);
+
+    if (failures) {
+      setSelectedItemIds(new Set(failures.map((failure) => failure.itemId)));
+      fetchChecklist(checklistId);
+    }
+  };
+
   // Handle archive checklist
   const handleArchiveChecklist = async () => {
     if (!checklistId || !checklist) return;
@@ -433,30 +756,159 @@ export const ChecklistDetailPage: React.FC = () => {
     fetchChecklist(checklistId);
   };
 
-  const variantHandleSaveNotes = async (itemId: string, notes: string) => {
-    if (!checklistId) return;
-    await updateNotes(checklistId, itemId, notes, updateItemLocally);
-    fetchChecklist(checklistId);
+  const variantHandleValueChange = async (itemId: string, value: string | null) => {
+    await handleValueChange(itemId, value);
   };
 
   const variantHandleCopy = (mode: 'clone-clean' | 'clone-direct') => {
     handleOpenCopyDialog(mode);
   };
 
+  // Template was edited after this checklist was created from it
+  const templateUpdated =
+    checklist.templateVersion != null &&
+    checklist.templateCurrentVersion != null &&
+    checklist.templateCurrentVersion > checklist.templateVersion;
+
+  // Signed-off checklists are read-only until a manager reopens them
+  const signedOff = isChecklistSignedOff(checklist);
+
+  const renderBanners = (sx?: SxProps<Theme>) => (
+    <>
+      <OfflineSyncBanner
+        isOnline={isOnline}
+        isOfflineCopy={isOfflineCopy}
+        cachedAt={cachedAt}
+        syncing={syncing}
+        pendingCount={pendingCount}
+        conflicts={conflicts}
+        onSyncNow={syncNow}
+        onResolveConflict={resolveConflict}
+        sx={sx}
+      />
+      <ChecklistSignOffBanner
+        checklist={checklist}
+        onChanged={() => fetchChecklist(checklist.id)}
+        sx={[{ mb: 2 }, ...(Array.isArray(sx) ? sx : [sx])]}
+      />
+      {templateUpdated && (
+        <Alert
+          severity="info"
+          sx={[{ mb: 2 }, ...(Array.isArray(sx) ? sx : [sx])]}
+          action={
+            canViewTemplateLibrary ? (
+              <CobraLinkButton
+                size="small"
+                onClick={() => navigate(`/checklists/manage/templates/${checklist.templateId}/preview`)}
+              >
+                View Template
+              </CobraLinkButton>
+            ) : undefined
+          }
+          data-testid="template-updated-notice"
+        >
+          The template has been updated since this checklist was created (created from version{' '}
+          {checklist.templateVersion}, now version {checklist.templateCurrentVersion}).
+        </Alert>
+      )}
+    </>
+  );
+
+  // Bulk actions need item permissions, and are hidden while editing the item list
+  const bulkActionsAvailable = canInteractWithItems && !checklist.isArchived && !signedOff && !editingItems;
+
+  const renderBulkActionBar = () =>
+    bulkActionsAvailable ? (
+      <BulkActionBar
+        items={checklist.items}
+        selectionMode={selectionMode}
+        onSelectionModeChange={handleSelectionModeChange}
+        selectedItemIds={selectedItemIds}
+        onSelectionChange={setSelectedItemIds}
+        onApply={handleBulkApply}
+        busy={bulkUpdating}
+      />
+    ) : null;
+
+  // Rows show a selection checkbox only in selection mode
+  const bulkSelectionProps = {
+    selectedItemIds: bulkActionsAvailable && selectionMode ? selectedItemIds : undefined,
+    onToggleItemSelected: handleToggleItemSelected,
+  };
+
+  const renderActivityPanel = () => (
+    <ChecklistActivityPanel
+      open={activityOpen}
+      checklist={checklist}
+      refreshKey={getActivityRefreshKey(checklist)}
+      onClose={() => setActivityOpen(false)}
+    />
+  );
+
+  // Who else has this item's notes open (control view rows)
+  const renderNotesEditors = (itemId: string) => {
+    const editors = getNotesEditors(viewers, itemId, currentUserEmail);
+    if (editors.length === 0) return null;
+    return (
+      <Typography
+        variant="caption"
+        color="warning.dark"
+        data-testid="item-notes-editors"
+        sx={{ display: 'flex', alignItems: 'center', gap: 0.5, mt: 0.5 }}
+      >
+        <FontAwesomeIcon icon={faPen} />
+        {formatNotesEditors(editors)}
+      </Typography>
+    );
+  };
+
+  const renderExportDialog = () => (
+    <Ics214ExportDialog
+      open={exportDialogOpen}
+      onClose={() => setExportDialogOpen(false)}
+      eventId={checklist.eventId}
+      eventName={checklist.eventName}
+      checklist={checklist}
+    />
+  );
+
+  const renderPrintDialog = () => (
+    <ChecklistPrintDialog
+      open={printDialogOpen}
+      onClose={() => setPrintDialogOpen(false)}
+      eventId={checklist.eventId}
+      eventName={checklist.eventName}
+      checklist={checklist}
+    />
+  );
+
   // Render variant-specific views (non-control variants)
   if (variant === 'classic') {
     return (
       <AppLayout breadcrumbs={breadcrumbs}>
+        {renderBanners({ mx: 2, mt: 2 })}
         <ChecklistDetailClassic
           checklist={checklist}
           onToggleComplete={variantHandleToggleComplete}
           onStatusChange={variantHandleStatusChange}
-          onSaveNotes={variantHandleSaveNotes}
+          onValueChange={variantHandleValueChange}
+          onAddNote={handleAddNote}
+          onEditNote={handleEditNote}
+          onDeleteNote={handleDeleteNote}
+          onAttachmentCountChange={handleAttachmentCountChange}
           onCopy={variantHandleCopy}
+          onExport={() => setExportDialogOpen(true)}
+          onPrint={() => setPrintDialogOpen(true)}
+          onViewActivity={() => setActivityOpen(true)}
+          viewers={viewers}
+          onNotesOpenChange={handleNotesOpenChange}
           isProcessing={isProcessing}
           highlightedItemId={highlightedItemId}
           isHighlighting={isHighlighting}
           getItemRef={getItemRef}
+          bulkActionBar={renderBulkActionBar()}
+          {...bulkSelectionProps}
+          readOnly={signedOff}
         />
         <CreateChecklistDialog
           open={copyDialogOpen}
@@ -471,6 +923,9 @@ export const ChecklistDetailPage: React.FC = () => {
           onCancel={handleCloseCopyDialog}
           saving={copying}
         />
+        {renderExportDialog()}
+        {renderPrintDialog()}
+        {renderActivityPanel()}
       </AppLayout>
     );
   }
@@ -478,16 +933,29 @@ export const ChecklistDetailPage: React.FC = () => {
   if (variant === 'compact') {
     return (
       <AppLayout breadcrumbs={breadcrumbs}>
+        {renderBanners({ mx: 2, mt: 2 })}
         <ChecklistDetailCompact
           checklist={checklist}
           onToggleComplete={variantHandleToggleComplete}
           onStatusChange={variantHandleStatusChange}
-          onSaveNotes={variantHandleSaveNotes}
+          onValueChange={variantHandleValueChange}
+          onAddNote={handleAddNote}
+          onEditNote={handleEditNote}
+          onDeleteNote={handleDeleteNote}
+          onAttachmentCountChange={handleAttachmentCountChange}
           onCopy={variantHandleCopy}
+          onExport={() => setExportDialogOpen(true)}
+          onPrint={() => setPrintDialogOpen(true)}
+          onViewActivity={() => setActivityOpen(true)}
+          viewers={viewers}
+          onNotesOpenChange={handleNotesOpenChange}
           isProcessing={isProcessing}
           highlightedItemId={highlightedItemId}
           isHighlighting={isHighlighting}
           getItemRef={getItemRef}
+          bulkActionBar={renderBulkActionBar()}
+          {...bulkSelectionProps}
+          readOnly={signedOff}
         />
         <CreateChecklistDialog
           open={copyDialogOpen}
@@ -502,6 +970,9 @@ export const ChecklistDetailPage: React.FC = () => {
           onCancel={handleCloseCopyDialog}
           saving={copying}
         />
+        {renderExportDialog()}
+        {renderPrintDialog()}
+        {renderActivityPanel()}
       </AppLayout>
     );
   }
@@ -509,16 +980,28 @@ export const ChecklistDetailPage: React.FC = () => {
   if (variant === 'progressive') {
     return (
       <AppLayout breadcrumbs={breadcrumbs}>
+        {renderBanners({ mx: 2, mt: 2 })}
         <ChecklistDetailProgressive
           checklist={checklist}
           onToggleComplete={variantHandleToggleComplete}
           onStatusChange={variantHandleStatusChange}
-          onSaveNotes={variantHandleSaveNotes}
+          onValueChange={variantHandleValueChange}
+          onAddNote={handleAddNote}
+          onEditNote={handleEditNote}
+          onDeleteNote={handleDeleteNote}
           onCopy={variantHandleCopy}
+          onExport={() => setExportDialogOpen(true)}
+          onPrint={() => setPrintDialogOpen(true)}
+          onViewActivity={() => setActivityOpen(true)}
+          viewers={viewers}
+          onNotesOpenChange={handleNotesOpenChange}
           isProcessing={isProcessing}
           highlightedItemId={highlightedItemId}
           isHighlighting={isHighlighting}
           getItemRef={getItemRef}
+          bulkActionBar={renderBulkActionBar()}
+          {...bulkSelectionProps}
+          readOnly={signedOff}
         />
         <CreateChecklistDialog
           open={copyDialogOpen}
@@ -533,11 +1016,16 @@ export const ChecklistDetailPage: React.FC = () => {
           onCancel={handleCloseCopyDialog}
           saving={copying}
         />
+        {renderExportDialog()}
+        {renderPrintDialog()}
+        {renderActivityPanel()}
       </AppLayout>
     );
   }
 
   // Default: Control variant (existing implementation)
+  const blockedItemCount = countBlockedItems(checklist.items);
+
   return (
     <AppLayout breadcrumbs={breadcrumbs}>
     <Container maxWidth={false} disableGutters sx={{ p: CobraStyles.Padding.MainWindow }}>
@@ -549,6 +1037,10 @@ export const ChecklistDetailPage: React.FC = () => {
           </IconButton>
           <Typography variant="h4" sx={{ flexGrow: 1 }}>{checklist.name}</Typography>
 
+          <Box sx={{ mr: 2 }}>
+            <ViewerAvatars viewers={otherViewers} max={5} size={32} showLabel />
+          </Box>
+
           {/* Action Buttons */}
           <Box sx={{ display: 'flex', gap: 1 }}>
             {/* Copy Buttons - only show for users who can interact */}
@@ -579,6 +1071,57 @@ export const ChecklistDetailPage: React.FC = () => {
               </>
             )}
 
+            {/* Edit Items Button - Manage role, live checklists only */}
+            {canEditItems && !checklist.isArchived && !signedOff && (
+              <Button
+                variant={editingItems ? 'contained' : 'outlined'}
+                size="small"
+                startIcon={<FontAwesomeIcon icon={editingItems ? faCheck : faPenToSquare} />}
+                onClick={() => setEditingItems((prev) => !prev)}
+                sx={{
+                  minHeight: 48,
+                }}
+              >
+                {editingItems ? 'Done Editing' : 'Edit Items'}
+              </Button>
+            )}
+
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faListUl} />}
+              onClick={() => setActivityOpen(true)}
+              sx={{
+                minHeight: 48,
+              }}
+            >
+              Activity
+            </Button>
+
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faFileExport} />}
+              onClick={() => setExportDialogOpen(true)}
+              sx={{
+                minHeight: 48,
+              }}
+            >
+              ICS-214
+            </Button>
+
+            <Button
+              variant="outlined"
+              size="small"
+              startIcon={<FontAwesomeIcon icon={faPrint} />}
+              onClick={() => setPrintDialogOpen(true)}
+              sx={{
+                minHeight: 48,
+              }}
+            >
+              Print
+            </Button>
+
             {/* Archive Button - Manage can archive any, Contributors can archive own */}
             {(canArchiveAnyChecklist ||
               (canArchiveOwnChecklists &&
@@ -606,6 +1149,8 @@ export const ChecklistDetailPage: React.FC = () => {
         </Typography>
       </Box>
 
+      {renderBanners()}
+
       {/* Sticky Progress Bar */}
       <Box
         sx={{
@@ -633,12 +1178,15 @@ export const ChecklistDetailPage: React.FC = () => {
           </Typography>
           <Typography variant="body2" color="text.secondary">
             {checklist.completedItems} / {checklist.totalItems} items
+            {blockedItemCount > 0 && ` · ${blockedItemCount} blocked`}
           </Typography>
         </Box>
         <ChecklistProgressBar
           value={Number(checklist.progressPercentage)}
           height={24}
           showPercentage={true}
+          totalItems={checklist.totalItems}
+          blockedItems={blockedItemCount}
         />
 
         {checklist.requiredItems > 0 && (
@@ -675,7 +1223,16 @@ export const ChecklistDetailPage: React.FC = () => {
         Items
       </Typography>
 
-      {checklist.items.length === 0 ? (
+      {editingItems && canEditItems && !checklist.isArchived && !signedOff ? (
+        <LiveItemEditor
+          items={checklist.items}
+          onAddItem={handleAddItem}
+          onAddFromLibrary={handleAddFromLibrary}
+          onRemoveItem={handleRemoveItem}
+          onMoveItem={handleMoveItem}
+          disabled={savingItems}
+        />
+      ) : checklist.items.length === 0 ? (
         <Paper sx={{ p: 4, textAlign: 'center' }}>
           <Typography color="text.secondary">
             No items in this checklist
@@ -683,11 +1240,20 @@ export const ChecklistDetailPage: React.FC = () => {
         </Paper>
       ) : (
         <Box>
+          {renderBulkActionBar()}
           {checklist.items.map((item) => {
             const isItemHighlighted = highlightedItemId === item.id && isHighlighting;
+            const blockedReason = getBlockedReason(item, checklist.items);
+            const latestNote = getLatestNote(item.notes);
             return (
-            <Paper
+            <BulkSelectableItem
               key={item.id}
+              itemId={item.id}
+              itemText={item.itemText}
+              selectedItemIds={bulkSelectionProps.selectedItemIds}
+              onToggleSelected={bulkSelectionProps.onToggleItemSelected}
+            >
+            <Paper
               ref={getItemRef(item.id)}
               sx={{
                 p: 2,
@@ -695,6 +1261,8 @@ export const ChecklistDetailPage: React.FC = () => {
                 backgroundColor: item.isCompleted
                   ? '#F5F5F5'
                   : 'background.paper',
+                ...(blockedReason && blockedItemSx),
+                ...(!signedOff && isItemOverdue(item, now) && overdueItemSx),
                 // Highlight animation when navigating from landing page
                 ...(isItemHighlighted && {
                   animation: 'highlightPulse 1s ease-in-out infinite',
@@ -714,7 +1282,7 @@ export const ChecklistDetailPage: React.FC = () => {
                             onChange={() =>
                               handleToggleComplete(item.id, item.isCompleted || false)
                             }
-                            disabled={isProcessing(item.id) || !canInteractWithItems}
+                            disabled={isProcessing(item.id) || !canInteractWithItems || signedOff || !!blockedReason}
                           />
                         }
                         label={
@@ -738,8 +1306,10 @@ export const ChecklistDetailPage: React.FC = () => {
                                 </Typography>
                               )}
                             </Typography>
+                            <ItemBlockedNotice reason={blockedReason} />
+                            {renderNotesEditors(item.id)}
 
-                            {item.notes && (
+                            {latestNote && (
                               <Typography
                                 variant="body2"
                                 color="text.secondary"
@@ -750,7 +1320,7 @@ export const ChecklistDetailPage: React.FC = () => {
                                   borderRadius: 1,
                                 }}
                               >
-                                Note: {item.notes}
+                                Note ({formatNoteAuthor(latestNote)}): {latestNote.noteText}
                               </Typography>
                             )}
                           </Box>
@@ -759,7 +1329,9 @@ export const ChecklistDetailPage: React.FC = () => {
                       />
 
                       {/* Action Buttons */}
-                      <Box sx={{ display: 'flex', gap: 1, flexShrink: 0 }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0 }}>
+                        {!signedOff && <ItemDueChip item={item} now={now} />}
+
                         {/* Info button */}
                         <IconButton
                           size="small"
@@ -771,7 +1343,19 @@ export const ChecklistDetailPage: React.FC = () => {
                           <FontAwesomeIcon icon={faCircleInfo} />
                         </IconButton>
 
-                        {/* Add/Edit Note button - only show for users who can interact */}
+                        {/* History button */}
+                        <Tooltip title="View history">
+                          <IconButton
+                            size="small"
+                            onClick={() => setHistoryItemId(item.id)}
+                            aria-label="View history"
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <FontAwesomeIcon icon={faClockRotateLeft} />
+                          </IconButton>
+                        </Tooltip>
+
+                        {/* Notes button - only show for users who can interact */}
                         {canInteractWithItems && (
                           <Button
                             variant="outlined"
@@ -784,7 +1368,7 @@ export const ChecklistDetailPage: React.FC = () => {
                               minHeight: 48,
                             }}
                           >
-                            {item.notes ? 'Edit Note' : 'Add Note'}
+                            {latestNote ? `Notes (${item.notes?.length})` : 'Add Note'}
                           </Button>
                         )}
                       </Box>
@@ -794,18 +1378,22 @@ export const ChecklistDetailPage: React.FC = () => {
                   {item.itemType === 'status' && (
                     <>
                       <Box sx={{ flexGrow: 1 }}>
-                      <Typography variant="body1" sx={{ mb: 2 }}>
-                        {item.itemText}
-                        {item.isRequired && (
-                          <Typography
-                            component="span"
-                            color="error"
-                            sx={{ ml: 1 }}
-                          >
-                            *
-                          </Typography>
-                        )}
-                      </Typography>
+                      <Box sx={{ mb: 2 }}>
+                        <Typography variant="body1">
+                          {item.itemText}
+                          {item.isRequired && (
+                            <Typography
+                              component="span"
+                              color="error"
+                              sx={{ ml: 1 }}
+                            >
+                              *
+                            </Typography>
+                          )}
+                        </Typography>
+                        <ItemBlockedNotice reason={blockedReason} />
+                        {renderNotesEditors(item.id)}
+                      </Box>
 
                       {/* Inline Status Dropdown */}
                       <FormControl fullWidth size="small" sx={{ mb: 2 }}>
@@ -815,7 +1403,7 @@ export const ChecklistDetailPage: React.FC = () => {
                           value={item.currentStatus || ''}
                           onChange={(e) => handleStatusChange(item.id, e.target.value)}
                           label="Status"
-                          disabled={isProcessing(item.id) || !canInteractWithItems}
+                          disabled={isProcessing(item.id) || !canInteractWithItems || signedOff}
                         >
                           {/* Empty option */}
                           <MenuItem value="">
@@ -824,7 +1412,11 @@ export const ChecklistDetailPage: React.FC = () => {
 
                           {/* Available status options */}
                           {parseStatusConfiguration(item.statusConfiguration).map((option) => (
-                            <MenuItem key={option.label} value={option.label}>
+                            <MenuItem
+                              key={option.label}
+                              value={option.label}
+                              disabled={option.isCompletion && !!blockedReason}
+                            >
                               {option.label}
                               {option.isCompletion && (
                                 <Typography
@@ -844,7 +1436,7 @@ export const ChecklistDetailPage: React.FC = () => {
                         </Select>
                       </FormControl>
 
-                      {item.notes && (
+                      {latestNote && (
                         <Typography
                           variant="body2"
                           color="text.secondary"
@@ -855,13 +1447,15 @@ export const ChecklistDetailPage: React.FC = () => {
                             borderRadius: 1,
                           }}
                         >
-                          Note: {item.notes}
+                          Note ({formatNoteAuthor(latestNote)}): {latestNote.noteText}
                         </Typography>
                       )}
                     </Box>
 
                       {/* Action Buttons */}
-                      <Box sx={{ display: 'flex', gap: 1, flexShrink: 0, alignSelf: 'flex-start' }}>
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0, alignSelf: 'flex-start' }}>
+                        {!signedOff && <ItemDueChip item={item} now={now} />}
+
                         {/* Info button */}
                         <IconButton
                           size="small"
@@ -873,7 +1467,19 @@ export const ChecklistDetailPage: React.FC = () => {
                           <FontAwesomeIcon icon={faCircleInfo} />
                         </IconButton>
 
-                        {/* Add/Edit Note button - only show for users who can interact */}
+                        {/* History button */}
+                        <Tooltip title="View history">
+                          <IconButton
+                            size="small"
+                            onClick={() => setHistoryItemId(item.id)}
+                            aria-label="View history"
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <FontAwesomeIcon icon={faClockRotateLeft} />
+                          </IconButton>
+                        </Tooltip>
+
+                        {/* Notes button - only show for users who can interact */}
                         {canInteractWithItems && (
                           <Button
                             variant="outlined"
@@ -886,7 +1492,98 @@ export const ChecklistDetailPage: React.FC = () => {
                               minHeight: 48,
                             }}
                           >
-                            {item.notes ? 'Edit Note' : 'Add Note'}
+                            {latestNote ? `Notes (${item.notes?.length})` : 'Add Note'}
+                          </Button>
+                        )}
+                      </Box>
+                    </>
+                  )}
+
+                  {isValueItemType(item.itemType) && (
+                    <>
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Box sx={{ mb: 1 }}>
+                          <Typography variant="body1">
+                            {item.itemText}
+                            {item.isRequired && (
+                              <Typography
+                                component="span"
+                                color="error"
+                                sx={{ ml: 1 }}
+                              >
+                                *
+                              </Typography>
+                            )}
+                          </Typography>
+                          <ItemBlockedNotice reason={blockedReason} />
+                          {renderNotesEditors(item.id)}
+                        </Box>
+
+                        {/* Inline value input */}
+                        <ItemValueInput
+                          item={item}
+                          onChange={(value) => handleValueChange(item.id, value)}
+                          disabled={isProcessing(item.id) || !canInteractWithItems || signedOff || !!blockedReason}
+                          sx={{ mb: 2 }}
+                        />
+
+                        {latestNote && (
+                          <Typography
+                            variant="body2"
+                            color="text.secondary"
+                            sx={{
+                              mt: 1,
+                              p: 1,
+                              backgroundColor: c5Colors.whiteBlue,
+                              borderRadius: 1,
+                            }}
+                          >
+                            Note ({formatNoteAuthor(latestNote)}): {latestNote.noteText}
+                          </Typography>
+                        )}
+                      </Box>
+
+                      {/* Action Buttons */}
+                      <Box sx={{ display: 'flex', alignItems: 'center', gap: 1, flexShrink: 0, alignSelf: 'flex-start' }}>
+                        {!signedOff && <ItemDueChip item={item} now={now} />}
+
+                        {/* Info button */}
+                        <IconButton
+                          size="small"
+                          onClick={() => toggleItemInfo(item.id)}
+                          sx={{
+                            color: expandedItemInfo.has(item.id) ? 'primary.main' : 'text.secondary',
+                          }}
+                        >
+                          <FontAwesomeIcon icon={faCircleInfo} />
+                        </IconButton>
+
+                        {/* History button */}
+                        <Tooltip title="View history">
+                          <IconButton
+                            size="small"
+                            onClick={() => setHistoryItemId(item.id)}
+                            aria-label="View history"
+                            sx={{ color: 'text.secondary' }}
+                          >
+                            <FontAwesomeIcon icon={faClockRotateLeft} />
+                          </IconButton>
+                        </Tooltip>
+
+                        {/* Notes button - only show for users who can interact */}
+                        {canInteractWithItems && (
+                          <Button
+                            variant="outlined"
+                            size="small"
+                            startIcon={<FontAwesomeIcon icon={faNoteSticky} />}
+                            onClick={() => handleOpenNotesDialog(item)}
+                            disabled={isProcessing(item.id)}
+                            sx={{
+                              minWidth: 120,
+                              minHeight: 48,
+                            }}
+                          >
+                            {latestNote ? `Notes (${item.notes?.length})` : 'Add Note'}
                           </Button>
                         )}
                       </Box>
@@ -894,6 +1591,17 @@ export const ChecklistDetailPage: React.FC = () => {
                   )}
                 </Box>
 
+                {/* Attachment thumbnails */}
+                {!!item.attachmentCount && (
+                  <ItemAttachments
+                    checklistId={checklist.id}
+                    itemId={item.id}
+                    attachmentCount={item.attachmentCount}
+                    readOnly
+                    size={56}
+                  />
+                )}
+
                 {/* Collapsible Item Metadata */}
                 <Collapse in={expandedItemInfo.has(item.id)}>
                   <Box
@@ -909,13 +1617,34 @@ export const ChecklistDetailPage: React.FC = () => {
                       Item Information
                     </Typography>
 
-                    {/* Completion info (checkbox items) */}
-                    {item.itemType === 'checkbox' && item.isCompleted && item.completedBy && (
+                    {/* Completion info (checkbox and value items) */}
+                    {(item.itemType === 'checkbox' || isValueItemType(item.itemType)) && item.isCompleted && item.completedBy && (
                       <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
                         <strong>Completed:</strong> {new Date(item.completedAt!).toLocaleString()} by {item.completedBy} ({item.completedByPosition})
                       </Typography>
                     )}
 
+                    {/* Captured value */}
+                    {isValueItemType(item.itemType) && item.value && (
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                        <strong>Value:</strong> {formatItemValue(item)}
+                      </Typography>
+                    )}
+
+                    {/* Attachments */}
+                    {!!item.attachmentCount && (
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                        <strong>Attachments:</strong> {item.attachmentCount}
+                      </Typography>
+                    )}
+
+                    {/* Due time */}
+                    {item.dueAt && (
+                      <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
+                        <strong>Due:</strong> {new Date(getItemDueTime(item)!).toLocaleString()}
+                      </Typography>
+                    )}
+
                     {/* Last modified info */}
                     {item.lastModifiedBy && item.lastModifiedAt && (
                       <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mb: 0.5 }}>
@@ -931,20 +1660,36 @@ export const ChecklistDetailPage: React.FC = () => {
                 </Collapse>
               </Box>
             </Paper>
+            </BulkSelectableItem>
             );
           })}
         </Box>
       )}
 
+      {/* Item History Drawer */}
+      <ItemHistoryDrawer
+        open={!!historyItemId}
+        checklistId={checklist.id}
+        item={checklist.items.find((i) => i.id === historyItemId) ?? null}
+        onClose={() => setHistoryItemId(null)}
+      />
+
       {/* Notes Dialog */}
       {editingItem && (
         <ItemNotesDialog
           open={notesDialogOpen}
           itemText={editingItem.itemText}
-          currentNotes={editingItem.notes}
-          onSave={handleSaveNotes}
-          onCancel={handleCloseNotesDialog}
-          saving={isProcessing(editingItem.id)}
+          notes={checklist.items.find((i) => i.id === editingItem.id)?.notes}
+          onAddNote={(noteText) => handleAddNote(editingItem.id, noteText)}
+          onEditNote={handleEditNote}
+          onDeleteNote={handleDeleteNote}
+          onClose={handleCloseNotesDialog}
+          checklistId={checklist.id}
+          itemId={editingItem.id}
+          attachmentCount={checklist.items.find((i) => i.id === editingItem.id)?.attachmentCount ?? 0}
+          onAttachmentCountChange={(count) => handleAttachmentCountChange(editingItem.id, count)}
+          otherEditors={getNotesEditors(viewers, editingItem.id, currentUserEmail)}
+          readOnly={signedOff}
         />
       )}
 
@@ -965,6 +1710,11 @@ export const ChecklistDetailPage: React.FC = () => {
         />
       )}
 
+      {/* ICS-214 Export and Print Dialogs */}
+      {renderExportDialog()}
+      {renderPrintDialog()}
+      {renderActivityPanel()}
+
       {/* Archive Confirmation Dialog */}
       <Dialog
         open={archiveDialogOpen}
@@ -24,11 +24,17 @@ import {
   faCheckSquare,
   faListCheck,
   faStar,
+  faHashtag,
+  faFont,
+  faCalendarDays,
+  faCircleQuestion,
 } from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
 import { itemLibraryService } from '../services/itemLibraryService';
 import { ItemLibraryItemDialog } from '../components/ItemLibraryItemDialog';
-import type { ItemLibraryEntry, ItemType } from '../../../types';
+import type { ItemLibraryEntry } from '../../../types';
+import { ItemType } from '../../../types';
+import { getItemTypeLabel } from '../utils/itemValue';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import {
   CobraTextField,
@@ -130,7 +136,20 @@ export const ItemLibraryPage: React.FC = () => {
   };
 
   const getItemTypeIcon = (type: ItemType) => {
-    return type === 'checkbox' ? faCheckSquare : faListCheck;
+    switch (type) {
+      case ItemType.STATUS:
+        return faListCheck;
+      case ItemType.NUMBER:
+        return faHashtag;
+      case ItemType.TEXT:
+        return faFont;
+      case ItemType.DATETIME:
+        return faCalendarDays;
+      case ItemType.YESNO:
+        return faCircleQuestion;
+      default:
+        return faCheckSquare;
+    }
   };
 
   // Get unique categories from items
@@ -190,6 +209,10 @@ export const ItemLibraryPage: React.FC = () => {
                 <MenuItem value="">All Types</MenuItem>
                 <MenuItem value="checkbox">Checkbox</MenuItem>
                 <MenuItem value="status">Status Dropdown</MenuItem>
+                <MenuItem value={ItemType.NUMBER}>Number</MenuItem>
+                <MenuItem value={ItemType.TEXT}>Text</MenuItem>
+                <MenuItem value={ItemType.DATETIME}>Date/Time</MenuItem>
+                <MenuItem value={ItemType.YESNO}>Yes/No/N-A</MenuItem>
               </Select>
             </FormControl>
           </Grid>
@@ -254,7 +277,7 @@ export const ItemLibraryPage: React.FC = () => {
                     <Box sx={{ display: 'flex', justifyContent: 'space-between', mb: 1 }}>
                       <Chip
                         icon={<FontAwesomeIcon icon={getItemTypeIcon(item.itemType)} />}
-                        label={item.itemType === 'checkbox' ? 'Checkbox' : 'Status'}
+                        label={getItemTypeLabel(item.itemType)}
                         size="small"
                         color="primary"
                         variant="outlined"
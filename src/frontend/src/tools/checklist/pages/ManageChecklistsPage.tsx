@@ -6,6 +6,9 @@
  * - View all archived checklists
  * - Restore archived checklists
  * - Permanently delete archived checklists
+ * - Export the event's ICS-214 activity logs
+ * - Print the event's checklists (all, by position or by operational period)
+ * - Carry the event's checklists forward into another operational period
  *
  * Requires Manage role permission.
  */
@@ -39,11 +42,17 @@ import {
   faTrash,
   faBoxArchive,
   faWarning,
+  faFileExport,
+  faForward,
+  faPrint,
 } from '@fortawesome/free-solid-svg-icons';
 import { useEvents } from '../../../shared/events';
 import { usePermissions } from '../../../shared/hooks/usePermissions';
 import { checklistService, type ChecklistInstanceDto } from '../services/checklistService';
-import { CobraDeleteButton, CobraLinkButton } from '../../../theme/styledComponents';
+import { CobraDeleteButton, CobraLinkButton, CobraSecondaryButton } from '../../../theme/styledComponents';
+import { Ics214ExportDialog } from '../components/Ics214ExportDialog';
+import { ChecklistPrintDialog } from '../components/ChecklistPrintDialog';
+import { CarryForwardDialog } from '../components/CarryForwardDialog';
 import CobraStyles from '../../../theme/CobraStyles';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import { toast } from 'react-toastify';
@@ -65,6 +74,17 @@ export const ManageChecklistsPage: React.FC = () => {
   const [isDeleting, setIsDeleting] = useState(false);
   const [isRestoring, setIsRestoring] = useState<string | null>(null);
 
+  // ICS-214 export dialog state
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+
+  // Batch print dialog state
+  const [printDialogOpen, setPrintDialogOpen] = useState(false);
+
+  // Carry forward dialog state (active checklists are loaded when it opens)
+  const [carryForwardOpen, setCarryForwardOpen] = useState(false);
+  const [activeChecklists, setActiveChecklists] = useState<ChecklistInstanceDto[]>([]);
+  const [loadingActive, setLoadingActive] = useState(false);
+
   /**
    * Fetch archived checklists for the current event
    */
@@ -112,6 +132,25 @@ export const ManageChecklistsPage: React.FC = () => {
     }
   };
 
+  /**
+   * Load the event's active checklists and open the carry forward dialog
+   */
+  const handleCarryForwardClick = async () => {
+    if (!currentEvent?.id) return;
+
+    try {
+      setLoadingActive(true);
+      const checklists = await checklistService.getChecklistsByEvent(currentEvent.id, false, true);
+      setActiveChecklists(checklists);
+      setCarryForwardOpen(true);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to load checklists';
+      toast.error(message);
+    } finally {
+      setLoadingActive(false);
+    }
+  };
+
   /**
    * Handle opening the permanent delete confirmation dialog
    */
@@ -222,18 +261,43 @@ export const ManageChecklistsPage: React.FC = () => {
     <Container maxWidth={false} disableGutters>
       <Stack spacing={3} padding={CobraStyles.Padding.MainWindow}>
         {/* Page Header */}
-        <Box>
-          <Typography variant="h4" sx={{ mb: 1 }}>
-            <FontAwesomeIcon
-              icon={faBoxArchive}
-              style={{ marginRight: 12, color: cobraTheme.palette.buttonPrimary.main }}
-            />
-            Manage Archived Checklists
-          </Typography>
-          <Typography variant="body2" color="text.secondary">
-            {archivedChecklists.length} archived checklist{archivedChecklists.length !== 1 ? 's' : ''} for "
-            {currentEvent.name}"
-          </Typography>
+        <Box sx={{ display: 'flex', alignItems: 'flex-start', justifyContent: 'space-between', gap: 2 }}>
+          <Box>
+            <Typography variant="h4" sx={{ mb: 1 }}>
+              <FontAwesomeIcon
+                icon={faBoxArchive}
+                style={{ marginRight: 12, color: cobraTheme.palette.buttonPrimary.main }}
+              />
+              Manage Archived Checklists
+            </Typography>
+            <Typography variant="body2" color="text.secondary">
+              {archivedChecklists.length} archived checklist{archivedChecklists.length !== 1 ? 's' : ''} for "
+              {currentEvent.name}"
+            </Typography>
+          </Box>
+          <Stack direction="row" spacing={1}>
+            <CobraSecondaryButton
+              startIcon={
+                loadingActive ? <CircularProgress size={16} color="inherit" /> : <FontAwesomeIcon icon={faForward} />
+              }
+              onClick={handleCarryForwardClick}
+              disabled={loadingActive}
+            >
+              Carry Forward
+            </CobraSecondaryButton>
+            <CobraSecondaryButton
+              startIcon={<FontAwesomeIcon icon={faFileExport} />}
+              onClick={() => setExportDialogOpen(true)}
+            >
+              Export ICS-214
+            </CobraSecondaryButton>
+            <CobraSecondaryButton
+              startIcon={<FontAwesomeIcon icon={faPrint} />}
+              onClick={() => setPrintDialogOpen(true)}
+            >
+              Print Checklists
+            </CobraSecondaryButton>
+          </Stack>
         </Box>
 
         {/* Empty state */}
@@ -354,6 +418,30 @@ export const ManageChecklistsPage: React.FC = () => {
           </TableContainer>
         )}
 
+        {/* ICS-214 Export Dialog */}
+        <Ics214ExportDialog
+          open={exportDialogOpen}
+          onClose={() => setExportDialogOpen(false)}
+          eventId={currentEvent.id}
+          eventName={currentEvent.name}
+        />
+
+        {/* Batch Print Dialog */}
+        <ChecklistPrintDialog
+          open={printDialogOpen}
+          onClose={() => setPrintDialogOpen(false)}
+          eventId={currentEvent.id}
+          eventName={currentEvent.name}
+        />
+
+        {/* Carry Forward Dialog */}
+        <CarryForwardDialog
+          open={carryForwardOpen}
+          onClose={() => setCarryForwardOpen(false)}
+          eventId={currentEvent.id}
+          checklists={activeChecklists}
+        />
+
         {/* Permanent Delete Confirmation Dialog */}
         <Dialog
           open={deleteDialogOpen}
@@ -1,7 +1,8 @@
 /**
  * Manage Page - Admin Hub for Templates and Items
  *
- * Combines Template Library and Item Library into a tabbed interface.
+ * Combines Template Library, Item Library and the template approval queue
+ * into a tabbed interface.
  * Only accessible to users with Manage role.
  *
  * Implements C5 pattern of grouping admin functions under "Manage" section.
@@ -13,6 +14,7 @@
 import React, { useState, useEffect } from "react";
 import { useSearchParams } from "react-router-dom";
 import {
+  Badge,
   Box,
   Tabs,
   Tab,
@@ -26,12 +28,21 @@ import {
   faClipboardList,
   faBoxArchive,
   faGear,
+  faStamp,
 } from "@fortawesome/free-solid-svg-icons";
 import CobraStyles from "../../../theme/CobraStyles";
+import { usePermissions } from "../../../shared/hooks/usePermissions";
+import { templateApprovalService } from "../services/templateApprovalService";
 
 // Import the content from existing pages (we'll refactor these to be embeddable)
 import { TemplateLibraryContent } from "./TemplateLibraryContent";
 import { ItemLibraryContent } from "./ItemLibraryContent";
+import { TemplateApprovalQueueContent } from "./TemplateApprovalQueueContent";
+
+/**
+ * Tab order - index matches the tab position, name is the ?tab= URL value
+ */
+const TAB_NAMES = ["templates", "items", "approvals"] as const;
 
 interface TabPanelProps {
   children?: React.ReactNode;
@@ -63,17 +74,31 @@ const a11yProps = (index: number) => {
 export const ManagePage: React.FC = () => {
   const theme = useTheme();
   const [searchParams, setSearchParams] = useSearchParams();
+  const { canApproveTemplates } = usePermissions();
 
   // Get initial tab from URL param or default to 0
-  const initialTab = searchParams.get("tab") === "items" ? 1 : 0;
+  const requestedTab = TAB_NAMES.indexOf(
+    searchParams.get("tab") as (typeof TAB_NAMES)[number]
+  );
+  const initialTab =
+    requestedTab === -1 || (requestedTab === 2 && !canApproveTemplates) ? 0 : requestedTab;
   const [activeTab, setActiveTab] = useState(initialTab);
+  const [pendingCount, setPendingCount] = useState(0);
 
   // Update URL when tab changes
   useEffect(() => {
-    const tabParam = activeTab === 1 ? "items" : "templates";
-    setSearchParams({ tab: tabParam }, { replace: true });
+    setSearchParams({ tab: TAB_NAMES[activeTab] }, { replace: true });
   }, [activeTab, setSearchParams]);
 
+  // Pending approval count for the tab badge
+  useEffect(() => {
+    if (!canApproveTemplates) return;
+    templateApprovalService
+      .getPendingTemplates()
+      .then((pending) => setPendingCount(pending.length))
+      .catch(() => setPendingCount(0));
+  }, [canApproveTemplates]);
+
   const handleTabChange = (_event: React.SyntheticEvent, newValue: number) => {
     setActiveTab(newValue);
   };
@@ -90,7 +115,7 @@ export const ManagePage: React.FC = () => {
               Manage
             </Typography>
             <Typography variant="body2" color="text.secondary" sx={{ mt: 0.5 }}>
-              Manage checklist templates and reusable items
+              Manage checklist templates, reusable items and template approvals
             </Typography>
           </Box>
 
@@ -128,6 +153,18 @@ export const ManagePage: React.FC = () => {
                 label="Item Library"
                 {...a11yProps(1)}
               />
+              {canApproveTemplates && (
+                <Tab
+                  icon={<FontAwesomeIcon icon={faStamp} />}
+                  iconPosition="start"
+                  label={
+                    <Badge badgeContent={pendingCount} color="warning" sx={{ pr: 1.5 }}>
+                      Approvals
+                    </Badge>
+                  }
+                  {...a11yProps(2)}
+                />
+              )}
             </Tabs>
           </Box>
 
@@ -139,6 +176,12 @@ export const ManagePage: React.FC = () => {
           <TabPanel value={activeTab} index={1}>
             <ItemLibraryContent />
           </TabPanel>
+
+          {canApproveTemplates && (
+            <TabPanel value={activeTab} index={2}>
+              <TemplateApprovalQueueContent onCountChange={setPendingCount} />
+            </TabPanel>
+          )}
         </Stack>
       </Container>
   );
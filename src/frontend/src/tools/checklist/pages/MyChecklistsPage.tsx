@@ -5,7 +5,8 @@
  * Groups checklists by operational period with temporal hierarchy:
  * - Current Operational Period (most prominent)
  * - Incident-Level Checklists (always visible)
- * - Previous Operational Periods (collapsible)
+ * - Previous Operational Periods (collapsible, with Carry Forward into
+ *   another period)
  *
  * User Story 2.3: View My Checklists
  */
@@ -23,13 +24,20 @@ import {
   Fade,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faChevronDown, faChevronUp, faBell } from '@fortawesome/free-solid-svg-icons';
+import { faChevronDown, faChevronUp, faBell, faForward } from '@fortawesome/free-solid-svg-icons';
 import { useNavigate } from 'react-router-dom';
 import { useChecklists } from '../hooks/useChecklists';
 import { useOperationalPeriodGrouping } from '../hooks/useOperationalPeriodGrouping';
 import { usePermissions } from '../../../shared/hooks/usePermissions';
-import { useChecklistHub, type ChecklistCreatedEvent } from '../hooks/useChecklistHub';
-import { useEvents } from '../../../shared/events';
+import { getCurrentUser } from '../../../core/services/api';
+import type { CatchUpSince } from '../../../core/utils/hubCatchUp';
+import {
+  useChecklistHub,
+  type ChecklistCreatedEvent,
+  type ItemOverdueEvent,
+  type PresenceChangedEvent,
+} from '../hooks/useChecklistHub';
+import { useEvents, useOperationalPeriods } from '../../../shared/events';
 import { ChecklistCard } from '../components/ChecklistCard';
 import { SectionHeader } from '../components/SectionHeader';
 import {
@@ -38,29 +46,42 @@ import {
   type CompletionStatusFilter,
 } from '../components/ChecklistFilters';
 import { TemplatePickerDialog } from '../components/TemplatePickerDialog';
+import { CarryForwardDialog } from '../components/CarryForwardDialog';
 import { ChecklistVisibilityToggle, getStoredVisibilityPreference } from '../components/ChecklistVisibilityToggle';
 import { CobraNewButton, CobraSecondaryButton } from '../../../theme/styledComponents';
 import CobraStyles from '../../../theme/CobraStyles';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import { toast } from 'react-toastify';
+import { RECURRING_SCHEDULE_CREATOR } from '../utils/recurrence';
+import { isChecklistIncomplete } from '../utils/carryForward';
+import { hasOverdueItems } from '../utils/itemDue';
+import { applyPresenceChange, getOtherViewers, type ChecklistPresence } from '../utils/presence';
+import { useCurrentTime } from '../hooks/useCurrentTime';
+import { checklistService, type ChecklistInstanceDto } from '../services/checklistService';
 
 /**
  * My Checklists Page Component
  */
 export const MyChecklistsPage: React.FC = () => {
   const navigate = useNavigate();
-  const { checklists, loading, error, fetchMyChecklists, fetchChecklistsByEvent } = useChecklists();
+  const { checklists, loading, error, fetchMyChecklists, fetchChecklistsByEvent, syncChanges } = useChecklists();
   const { currentEvent } = useEvents();
+  const { currentPeriod } = useOperationalPeriods();
   const permissions = usePermissions();
+  const now = useCurrentTime();
   const [showPreviousPeriods, setShowPreviousPeriods] = useState(false);
 
   // Template picker dialog state
   const [templatePickerOpen, setTemplatePickerOpen] = useState(false);
 
+  // Carry forward dialog state (checklists of the previous period being carried)
+  const [carryForwardChecklists, setCarryForwardChecklists] = useState<ChecklistInstanceDto[] | null>(null);
+
   // Filter state
   const [selectedOperationalPeriod, setSelectedOperationalPeriod] = useState<string | null>(null);
   const [selectedCompletionStatus, setSelectedCompletionStatus] = useState<CompletionStatusFilter>('all');
   const [showArchived, setShowArchived] = useState(false);
+  const [showOverdueOnly, setShowOverdueOnly] = useState(false);
   const [searchQuery, setSearchQuery] = useState<string>('');
   const [showAllChecklists, setShowAllChecklists] = useState(getStoredVisibilityPreference);
 
@@ -75,48 +96,114 @@ export const MyChecklistsPage: React.FC = () => {
     return profile?.positions?.[0] || 'Unknown';
   }, []);
 
+  // Refresh checklists and clear badge
+  const handleRefreshChecklists = useCallback(() => {
+    if (currentEvent?.id) {
+      fetchChecklistsByEvent(currentEvent.id, showArchived, showAllChecklists);
+    } else {
+      fetchMyChecklists(showArchived);
+    }
+    setNewChecklistsCount(0);
+    setShowNewChecklistsBadge(false);
+  }, [currentEvent?.id, fetchChecklistsByEvent, fetchMyChecklists, showArchived, showAllChecklists]);
+
   // Handle real-time checklist creation events
   const handleChecklistCreated = useCallback((data: ChecklistCreatedEvent) => {
     console.log('[MyChecklistsPage] Received ChecklistCreated event:', data);
 
+    // Checklists for other events don't belong in this list
+    if (currentEvent?.id && data.eventId !== currentEvent.id) {
+      return;
+    }
+
     // Check if this checklist is visible to current user's position
     const isVisibleToMe = !data.positions ||
       data.positions.split(',').map(p => p.trim()).includes(currentUserPosition);
 
-    if (isVisibleToMe) {
-      // Increment new checklists counter
-      setNewChecklistsCount(prev => prev + 1);
-      setShowNewChecklistsBadge(true);
-
-      // Show toast notification
-      toast.info(
-        `New checklist created: "${data.checklistName}" by ${data.createdBy}`,
-        {
-          autoClose: 5000,
-          onClick: () => {
-            // Clicking toast refreshes the list
-            handleRefreshChecklists();
-          }
+    if (!isVisibleToMe) {
+      return;
+    }
+
+    // Scheduled checklists are expected work - show them right away
+    if (data.createdBy === RECURRING_SCHEDULE_CREATOR) {
+      handleRefreshChecklists();
+      toast.info(`Scheduled checklist created: "${data.checklistName}"`, { autoClose: 5000 });
+      return;
+    }
+
+    // Increment new checklists counter
+    setNewChecklistsCount(prev => prev + 1);
+    setShowNewChecklistsBadge(true);
+
+    // Show toast notification
+    toast.info(
+      `New checklist created: "${data.checklistName}" by ${data.createdBy}`,
+      {
+        autoClose: 5000,
+        onClick: () => {
+          // Clicking toast refreshes the list
+          handleRefreshChecklists();
         }
-      );
+      }
+    );
+  }, [currentEvent?.id, currentUserPosition, handleRefreshChecklists]);
+
+  // Handle overdue items on checklists assigned to this position
+  const handleItemOverdue = useCallback((data: ItemOverdueEvent) => {
+    if (currentEvent?.id && data.eventId !== currentEvent.id) {
+      return;
+    }
+
+    const isMine = !data.positions ||
+      data.positions.split(',').map(p => p.trim()).includes(currentUserPosition);
+
+    if (!isMine) {
+      return;
     }
-  }, [currentUserPosition]);
+
+    toast.error(`Overdue in "${data.checklistName}": ${data.itemText}`, {
+      autoClose: 10000,
+      onClick: () => navigate(`/checklists/${data.checklistId}?highlightItem=${data.itemId}`),
+    });
+  }, [currentEvent?.id, currentUserPosition, navigate]);
+
+  // Who is viewing each checklist (live presence on the cards)
+  const [presence, setPresence] = useState<ChecklistPresence>({});
+
+  const [presenceVersion, setPresenceVersion] = useState(0);
+
+  const handlePresenceChanged = useCallback((data: PresenceChangedEvent) => {
+    setPresence((prev) => applyPresenceChange(prev, data));
+  }, []);
+
+  // Back online: merge checklists changed while disconnected and reload viewers
+  const handleReconnected = useCallback((since: CatchUpSince) => {
+    syncChanges(since());
+    setPresenceVersion((prev) => prev + 1);
+  }, [syncChanges]);
 
   // Initialize SignalR connection with handlers
-  useChecklistHub({
+  const { getPresence } = useChecklistHub({
     onChecklistCreated: handleChecklistCreated,
+    onItemOverdue: handleItemOverdue,
+    onPresenceChanged: handlePresenceChanged,
+    onReconnected: handleReconnected,
   });
 
-  // Refresh checklists and clear badge
-  const handleRefreshChecklists = useCallback(() => {
-    if (currentEvent?.id) {
-      fetchChecklistsByEvent(currentEvent.id, showArchived, showAllChecklists);
-    } else {
-      fetchMyChecklists(showArchived);
-    }
-    setNewChecklistsCount(0);
-    setShowNewChecklistsBadge(false);
-  }, [currentEvent?.id, fetchChecklistsByEvent, fetchMyChecklists, showArchived, showAllChecklists]);
+  // Load current viewers for the listed checklists; changes arrive via the hub
+  useEffect(() => {
+    let cancelled = false;
+    getPresence(checklists.map((c) => c.id)).then((current) => {
+      if (!cancelled) {
+        setPresence(current);
+      }
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [checklists, getPresence, presenceVersion]);
+
+  const currentUserEmail = getCurrentUser().email;
 
   // Apply filters to checklists
   const filteredChecklists = useMemo(() => {
@@ -148,12 +235,17 @@ export const MyChecklistsPage: React.FC = () => {
       );
     }
 
+    // Filter to checklists with overdue items
+    if (showOverdueOnly) {
+      filtered = filtered.filter((c) => hasOverdueItems(c, now));
+    }
+
     // Filter archived (if not showing archived, exclude them)
     // Note: Assuming isArchived field exists on ChecklistInstanceDto
     // If not, we'll need to fetch archived separately
 
     return filtered;
-  }, [checklists, searchQuery, selectedOperationalPeriod, selectedCompletionStatus]);
+  }, [checklists, searchQuery, selectedOperationalPeriod, selectedCompletionStatus, showOverdueOnly, now]);
 
   // Detect if any operational periods exist
   // If NO periods exist (all checklists have NULL operationalPeriodId), hide grouping
@@ -162,14 +254,13 @@ export const MyChecklistsPage: React.FC = () => {
   }, [checklists]);
 
   // Group filtered checklists by operational period (only used if periods exist)
-  // TODO: Get currentOperationalPeriodId from C5 context when available
   const {
     currentSection,
     incidentSection,
     previousSections,
     totalChecklists,
   } = useOperationalPeriodGrouping(filteredChecklists, {
-    currentOperationalPeriodId: undefined, // Will come from C5 context
+    currentOperationalPeriodId: currentPeriod?.id,
     sortPreviousByDate: true,
   });
 
@@ -259,6 +350,37 @@ export const MyChecklistsPage: React.FC = () => {
     }
   };
 
+  const handleCreateCombinedChecklist = async (
+    templateIds: string[],
+    checklistName: string,
+    excludedTemplateItemIds: string[]
+  ) => {
+    // Require an event to be selected
+    if (!currentEvent) {
+      toast.error('Please select an event before creating a checklist');
+      return;
+    }
+
+    try {
+      const newChecklist = await checklistService.createCombinedChecklist({
+        templateIds,
+        excludedTemplateItemIds,
+        name: checklistName,
+        eventId: currentEvent.id,
+        eventName: currentEvent.name,
+      });
+
+      toast.success(`Checklist "${checklistName}" created successfully`);
+
+      // Navigate to the new checklist
+      navigate(`/checklists/${newChecklist.id}`);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : 'Failed to create checklist';
+      toast.error(message);
+      throw err;
+    }
+  };
+
   // Loading state
   if (loading && checklists.length === 0) {
     return (
@@ -381,6 +503,7 @@ export const MyChecklistsPage: React.FC = () => {
             open={templatePickerOpen}
             onClose={() => setTemplatePickerOpen(false)}
             onCreateChecklist={handleCreateChecklist}
+            onCreateCombinedChecklist={handleCreateCombinedChecklist}
           />
         </Stack>
       </Container>
@@ -462,10 +585,13 @@ export const MyChecklistsPage: React.FC = () => {
           selectedOperationalPeriod={selectedOperationalPeriod}
           selectedCompletionStatus={selectedCompletionStatus}
           showArchived={showArchived}
+          showOverdueOnly={showOverdueOnly}
           searchQuery={searchQuery}
+          now={now}
           onOperationalPeriodChange={setSelectedOperationalPeriod}
           onCompletionStatusChange={setSelectedCompletionStatus}
           onShowArchivedChange={setShowArchived}
+          onShowOverdueOnlyChange={setShowOverdueOnly}
           onSearchQueryChange={setSearchQuery}
         />
       )}
@@ -479,7 +605,10 @@ export const MyChecklistsPage: React.FC = () => {
           <Grid container spacing={3}>
             {filteredChecklists.map((checklist) => (
               <Grid item xs={12} sm={6} md={4} key={checklist.id}>
-                <ChecklistCard checklist={checklist} />
+                <ChecklistCard
+                  checklist={checklist}
+                  viewers={getOtherViewers(presence[checklist.id] ?? [], currentUserEmail)}
+                />
               </Grid>
             ))}
           </Grid>
@@ -511,7 +640,10 @@ export const MyChecklistsPage: React.FC = () => {
             <Grid container spacing={3}>
               {currentSection.checklists.map((checklist) => (
                 <Grid item xs={12} sm={6} md={4} key={checklist.id}>
-                  <ChecklistCard checklist={checklist} />
+                  <ChecklistCard
+                    checklist={checklist}
+                    viewers={getOtherViewers(presence[checklist.id] ?? [], currentUserEmail)}
+                  />
                 </Grid>
               ))}
             </Grid>
@@ -541,7 +673,10 @@ export const MyChecklistsPage: React.FC = () => {
             <Grid container spacing={3}>
               {incidentSection.checklists.map((checklist) => (
                 <Grid item xs={12} sm={6} md={4} key={checklist.id}>
-                  <ChecklistCard checklist={checklist} />
+                  <ChecklistCard
+                    checklist={checklist}
+                    viewers={getOtherViewers(presence[checklist.id] ?? [], currentUserEmail)}
+                  />
                 </Grid>
               ))}
             </Grid>
@@ -573,12 +708,28 @@ export const MyChecklistsPage: React.FC = () => {
                   title={section.operationalPeriodName || 'Previous Period'}
                   checklistCount={section.checklists.length}
                   averageProgress={section.averageProgress}
+                  action={
+                    permissions.canCreateInstance &&
+                    currentEvent &&
+                    section.checklists.some(isChecklistIncomplete) && (
+                      <CobraSecondaryButton
+                        size="small"
+                        startIcon={<FontAwesomeIcon icon={faForward} />}
+                        onClick={() => setCarryForwardChecklists(section.checklists)}
+                      >
+                        Carry Forward
+                      </CobraSecondaryButton>
+                    )
+                  }
                 />
 
                 <Grid container spacing={3}>
                   {section.checklists.map((checklist) => (
                     <Grid item xs={12} sm={6} md={4} key={checklist.id}>
-                      <ChecklistCard checklist={checklist} />
+                      <ChecklistCard
+                        checklist={checklist}
+                        viewers={getOtherViewers(presence[checklist.id] ?? [], currentUserEmail)}
+                      />
                     </Grid>
                   ))}
                 </Grid>
@@ -607,7 +758,19 @@ export const MyChecklistsPage: React.FC = () => {
           open={templatePickerOpen}
           onClose={() => setTemplatePickerOpen(false)}
           onCreateChecklist={handleCreateChecklist}
+          onCreateCombinedChecklist={handleCreateCombinedChecklist}
         />
+
+        {/* Carry Forward Dialog */}
+        {currentEvent && (
+          <CarryForwardDialog
+            open={carryForwardChecklists !== null}
+            onClose={() => setCarryForwardChecklists(null)}
+            eventId={currentEvent.id}
+            checklists={carryForwardChecklists ?? []}
+            onCarriedForward={handleRefreshChecklists}
+          />
+        )}
       </Stack>
     </Container>
   );
@@ -0,0 +1,228 @@
+/**
+ * Template Approval Queue Content
+ *
+ * Embeddable approver queue for templates waiting for approval.
+ * Used by ManagePage as a tab panel.
+ *
+ * - Lists pending templates, oldest submission first
+ * - Approve, or reject with a required comment
+ * - Approvers cannot review their own submissions
+ */
+
+import React, { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  Alert,
+  Box,
+  Card,
+  CardActions,
+  CardContent,
+  CircularProgress,
+  Stack,
+  Typography,
+} from "@mui/material";
+import { FontAwesomeIcon } from "@fortawesome/react-fontawesome";
+import { faCheck, faEye, faXmark } from "@fortawesome/free-solid-svg-icons";
+import { format } from "date-fns";
+import { toast } from "react-toastify";
+import { getCurrentUser } from "../../../core/services/api";
+import { templateApprovalService } from "../services/templateApprovalService";
+import {
+  TemplateApprovalDialog,
+  type TemplateApprovalDialogMode,
+} from "../components/TemplateApprovalDialog";
+import type { Template } from "../../../types";
+import {
+  CobraLinkButton,
+  CobraPrimaryButton,
+  CobraSecondaryButton,
+} from "../../../theme/styledComponents";
+
+interface TemplateApprovalQueueContentProps {
+  /** Called with the number of pending templates after each load */
+  onCountChange?: (count: number) => void;
+}
+
+/**
+ * Template Approval Queue Content Component
+ */
+export const TemplateApprovalQueueContent: React.FC<TemplateApprovalQueueContentProps> = ({
+  onCountChange,
+}) => {
+  const navigate = useNavigate();
+  const [templates, setTemplates] = useState<Template[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Review dialog state
+  const [reviewing, setReviewing] = useState<{
+    template: Template;
+    mode: TemplateApprovalDialogMode;
+  } | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const currentUserEmail = getCurrentUser().email.toLowerCase();
+
+  useEffect(() => {
+    fetchPending();
+  }, []);
+
+  const fetchPending = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+      const data = await templateApprovalService.getPendingTemplates();
+      setTemplates(data);
+      onCountChange?.(data.length);
+    } catch (err) {
+      const message =
+        err instanceof Error ? err.message : "Failed to load approval queue";
+      setError(message);
+      toast.error(message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async (comment: string) => {
+    if (!reviewing) return;
+    const { template, mode } = reviewing;
+
+    try {
+      setSaving(true);
+      if (mode === "approve") {
+        await templateApprovalService.approve(template.id, comment || undefined);
+        toast.success(`"${template.name}" approved`);
+      } else {
+        await templateApprovalService.reject(template.id, comment);
+        toast.success(`"${template.name}" rejected`);
+      }
+      setReviewing(null);
+
+      const remaining = templates.filter((t) => t.id !== template.id);
+      setTemplates(remaining);
+      onCountChange?.(remaining.length);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading && templates.length === 0) {
+    return (
+      <Stack spacing={3} sx={{ textAlign: "center", py: 4 }}>
+        <CircularProgress />
+        <Typography>Loading approval queue...</Typography>
+      </Stack>
+    );
+  }
+
+  if (error && templates.length === 0) {
+    return (
+      <Stack spacing={3}>
+        <Alert severity="error">{error}</Alert>
+        <Box>
+          <CobraSecondaryButton onClick={fetchPending}>Retry</CobraSecondaryButton>
+        </Box>
+      </Stack>
+    );
+  }
+
+  return (
+    <Stack spacing={3}>
+      <Box
+        sx={{
+          display: "flex",
+          justifyContent: "space-between",
+          alignItems: "center",
+        }}
+      >
+        <Typography variant="body2" color="text.secondary">
+          {templates.length} template{templates.length !== 1 ? "s" : ""} waiting
+          for approval
+        </Typography>
+        <CobraLinkButton onClick={fetchPending} disabled={loading}>
+          Refresh
+        </CobraLinkButton>
+      </Box>
+
+      {templates.length === 0 ? (
+        <Box sx={{ textAlign: "center", py: 8 }}>
+          <Typography variant="h6" color="text.secondary">
+            No templates waiting for approval
+          </Typography>
+          <Typography variant="body2" color="text.secondary" sx={{ mt: 1 }}>
+            Templates submitted for approval will appear here.
+          </Typography>
+        </Box>
+      ) : (
+        <Stack spacing={2} data-testid="template-approval-queue">
+          {templates.map((template) => {
+            const isOwnSubmission =
+              template.submittedBy?.toLowerCase() === currentUserEmail;
+
+            return (
+              <Card key={template.id} sx={{ "&:hover": { boxShadow: 4 } }}>
+                <CardContent>
+                  <Typography variant="h6">{template.name}</Typography>
+                  <Typography variant="body2" color="text.secondary">
+                    {template.category} &middot; {template.items?.length || 0} item
+                    {template.items?.length !== 1 ? "s" : ""} &middot; v
+                    {template.currentVersion}
+                  </Typography>
+                  <Typography variant="caption" color="text.secondary" display="block" sx={{ mt: 1 }}>
+                    Submitted by {template.submittedByPosition || "Unknown position"} (
+                    {template.submittedBy})
+                    {template.submittedAt &&
+                      ` on ${format(new Date(template.submittedAt), "MMM d, yyyy h:mm a")}`}
+                  </Typography>
+                  {isOwnSubmission && (
+                    <Alert severity="info" sx={{ mt: 1 }}>
+                      You submitted this template. Another approver must review it.
+                    </Alert>
+                  )}
+                </CardContent>
+                <CardActions sx={{ p: 2, pt: 0, gap: 1, justifyContent: "flex-end" }}>
+                  <CobraLinkButton
+                    startIcon={<FontAwesomeIcon icon={faEye} />}
+                    onClick={() =>
+                      navigate(`/checklists/manage/templates/${template.id}/preview`)
+                    }
+                  >
+                    Preview
+                  </CobraLinkButton>
+                  <CobraSecondaryButton
+                    startIcon={<FontAwesomeIcon icon={faXmark} />}
+                    onClick={() => setReviewing({ template, mode: "reject" })}
+                    disabled={isOwnSubmission}
+                  >
+                    Reject
+                  </CobraSecondaryButton>
+                  <CobraPrimaryButton
+                    startIcon={<FontAwesomeIcon icon={faCheck} />}
+                    onClick={() => setReviewing({ template, mode: "approve" })}
+                    disabled={isOwnSubmission}
+                  >
+                    Approve
+                  </CobraPrimaryButton>
+                </CardActions>
+              </Card>
+            );
+          })}
+        </Stack>
+      )}
+
+      {reviewing && (
+        <TemplateApprovalDialog
+          open={!!reviewing}
+          mode={reviewing.mode}
+          templateName={reviewing.template.name}
+          onConfirm={handleConfirm}
+          onCancel={() => setReviewing(null)}
+          saving={saving}
+        />
+      )}
+    </Stack>
+  );
+};
+
+export default TemplateApprovalQueueContent;
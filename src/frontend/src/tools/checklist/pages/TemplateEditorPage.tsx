@@ -5,7 +5,9 @@
  * Features:
  * - Template metadata (name, description, category)
  * - Visual item builder with drag-and-drop
+ * - Named, ordered sections (drag items between sections)
  * - Status configuration for status items
+ * - Recurrence schedule for recurring templates
  * - Preview mode
  * - Full validation before save
  *
@@ -34,15 +36,16 @@ import {
   Stack,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faArrowLeft, faPlus, faSave, faBoxArchive } from '@fortawesome/free-solid-svg-icons';
+import { faArrowLeft, faPlus, faSave, faBoxArchive, faLayerGroup } from '@fortawesome/free-solid-svg-icons';
 import {
   DndContext,
-  closestCenter,
+  closestCorners,
   KeyboardSensor,
   PointerSensor,
   useSensor,
   useSensors,
   DragEndEvent,
+  DragOverEvent,
 } from '@dnd-kit/core';
 import {
   arrayMove,
@@ -53,10 +56,41 @@ import {
 import { toast } from 'react-toastify';
 import { TemplateItemEditor, type TemplateItemFormData } from '../components/TemplateItemEditor';
 import { AddFromLibraryDialog } from '../components/AddFromLibraryDialog';
+import {
+  TemplateSectionEditor,
+  parseSectionDropId,
+  type TemplateSectionFormData,
+} from '../components/TemplateSectionEditor';
 import { SaveToLibraryDialog } from '../components/SaveToLibraryDialog';
-import { ItemType, TemplateCategory, TemplateType, ICS_INCIDENT_TYPES, type ItemLibraryEntry, type StatusOption } from '../../../types';
+import { TemplateVersionHistoryPanel } from '../components/TemplateVersionHistoryPanel';
+import { TemplateApprovalStatusChip } from '../components/TemplateApprovalStatusChip';
+import { RecurrenceEditor } from '../components/RecurrenceEditor';
+import { ItemDueAnchor, ItemType, TemplateApprovalStatus, TemplateCategory, TemplateType, ICS_INCIDENT_TYPES, type ItemLibraryEntry, type RecurrenceConfig, type StatusOption } from '../../../types';
 import { templateService } from '../services/templateService';
 import { itemLibraryService } from '../services/itemLibraryService';
+import {
+  createDefaultRecurrenceConfig,
+  parseRecurrenceConfig,
+  serializeRecurrenceConfig,
+  validateRecurrenceConfig,
+} from '../utils/recurrence';
+import { validateDueOffset } from '../utils/itemDue';
+import {
+  toPrerequisiteDisplayOrders,
+  toPrerequisiteIds,
+  validatePrerequisites,
+} from '../utils/itemPrerequisites';
+import {
+  parseValueConfiguration,
+  serializeValueConfiguration,
+  validateValueConfiguration,
+} from '../utils/itemValue';
+import {
+  groupItemsBySection,
+  normalizeSectionName,
+  orderItemsBySection,
+  validateSectionNames,
+} from '../utils/itemSections';
 import {
   CobraTextField,
   CobraSecondaryButton,
@@ -125,7 +159,11 @@ export const TemplateEditorPage: React.FC = () => {
   const [category, setCategory] = useState<TemplateCategory | ''>('');
   const [templateType, setTemplateType] = useState<TemplateType>(TemplateType.MANUAL);
   const [autoCreateCategories, setAutoCreateCategories] = useState<string[]>([]);
+  const [recurrenceConfig, setRecurrenceConfig] = useState<RecurrenceConfig>(() => createDefaultRecurrenceConfig());
   const [items, setItems] = useState<TemplateItemFormData[]>([]);
+  const [sections, setSections] = useState<TemplateSectionFormData[]>([]);
+  const [currentVersion, setCurrentVersion] = useState<number | undefined>(undefined);
+  const [approvalStatus, setApprovalStatus] = useState<TemplateApprovalStatus | undefined>(undefined);
 
   // UI state
   const [expandedItems, setExpandedItems] = useState<Set<string>>(new Set());
@@ -158,7 +196,7 @@ export const TemplateEditorPage: React.FC = () => {
   useEffect(() => {
     const newWarnings = getTemplateWarnings();
     setWarnings(newWarnings);
-  }, [items]);
+  }, [items, sections]);
 
   const loadTemplate = async (id: string, isDuplicate: boolean) => {
     try {
@@ -169,15 +207,28 @@ export const TemplateEditorPage: React.FC = () => {
       setName(isDuplicate ? `${template.name} (Copy)` : template.name);
       setDescription(template.description || '');
       setCategory(template.category);
+      setCurrentVersion(isDuplicate ? undefined : template.currentVersion);
+      setApprovalStatus(isDuplicate ? undefined : template.approvalStatus);
       setTemplateType(template.templateType ?? TemplateType.MANUAL);
       setAutoCreateCategories(
         template.autoCreateForCategories
           ? JSON.parse(template.autoCreateForCategories)
           : []
       );
+      setRecurrenceConfig(
+        parseRecurrenceConfig(template.recurrenceConfig) ?? createDefaultRecurrenceConfig()
+      );
+
+      // Sections are ordered by their first item
+      const templateItems = [...(template.items ?? [])].sort((a, b) => a.displayOrder - b.displayOrder);
+      const formSections: TemplateSectionFormData[] = groupItemsBySection(templateItems)
+        .filter((section) => section.name !== null)
+        .map((section) => ({ id: generateTempId(), name: section.name ?? '' }));
+      const findSectionId = (sectionName?: string | null): string | null =>
+        formSections.find((section) => section.name === normalizeSectionName(sectionName))?.id ?? null;
 
       // Convert template items to form data
-      const formItems: TemplateItemFormData[] = template.items?.map((item) => ({
+      const formItems: TemplateItemFormData[] = templateItems.map((item) => ({
         // In duplicate mode, replace IDs with temp IDs so they're treated as new
         id: isDuplicate ? generateTempId() : item.id,
         itemText: item.itemText,
@@ -185,13 +236,24 @@ export const TemplateEditorPage: React.FC = () => {
         displayOrder: item.displayOrder,
         isRequired: item.isRequired,
         statusConfiguration: parseStatusConfiguration(item.statusConfiguration),
+        valueConfiguration: parseValueConfiguration(item.valueConfiguration) ?? {},
         allowedPositions: item.allowedPositions
           ? JSON.parse(item.allowedPositions)
           : [],
         defaultNotes: item.defaultNotes || '',
-      })) || [];
+        dueOffsetMinutes: item.dueOffsetMinutes ?? null,
+        dueRelativeTo: item.dueRelativeTo ?? ItemDueAnchor.CHECKLIST_CREATED,
+        prerequisiteIds: [],
+        sectionId: findSectionId(item.sectionName),
+      }));
+
+      // Prerequisites are saved by display order; resolve them to form item IDs
+      templateItems.forEach((item, index) => {
+        formItems[index].prerequisiteIds = toPrerequisiteIds(item.prerequisiteDisplayOrders, formItems);
+      });
 
-      setItems(formItems);
+      setSections(formSections);
+      setItems(orderItemsBySection(formItems, formSections.map((section) => section.id)));
 
       // In duplicate mode, auto-expand all items for review
       if (isDuplicate) {
@@ -205,7 +267,12 @@ export const TemplateEditorPage: React.FC = () => {
     }
   };
 
-  const handleAddItem = () => {
+  const sectionIds = sections.map((section) => section.id);
+
+  /**
+   * Add a blank item at the end of a section (default: the last section)
+   */
+  const handleAddItem = (sectionId: string | null = sectionIds[sectionIds.length - 1] ?? null) => {
     const newItem: TemplateItemFormData = {
       id: generateTempId(),
       itemText: '',
@@ -213,10 +280,15 @@ export const TemplateEditorPage: React.FC = () => {
       displayOrder: (items.length + 1) * 10,
       isRequired: false,
       statusConfiguration: [],
+      valueConfiguration: {},
       allowedPositions: [],
       defaultNotes: '',
+      dueOffsetMinutes: null,
+      dueRelativeTo: ItemDueAnchor.CHECKLIST_CREATED,
+      prerequisiteIds: [],
+      sectionId,
     };
-    setItems([...items, newItem]);
+    setItems(orderItemsBySection([...items, newItem], sectionIds));
     // Auto-expand new items
     setExpandedItems((prev) => new Set(prev).add(newItem.id));
   };
@@ -226,13 +298,14 @@ export const TemplateEditorPage: React.FC = () => {
   };
 
   const handleRemoveItem = (id: string) => {
-    const updated = items.filter((item) => item.id !== id);
-    // Recalculate display order
-    const reordered = updated.map((item, idx) => ({
-      ...item,
-      displayOrder: (idx + 1) * 10,
-    }));
-    setItems(reordered);
+    const updated = items
+      .filter((item) => item.id !== id)
+      .map((item) => ({
+        ...item,
+        prerequisiteIds: item.prerequisiteIds.filter((prerequisiteId) => prerequisiteId !== id),
+      }));
+    // Recalculate display order (and drop the removed item from prerequisites)
+    setItems(orderItemsBySection(updated, sectionIds));
     // Remove from expanded set
     setExpandedItems((prev) => {
       const next = new Set(prev);
@@ -241,34 +314,60 @@ export const TemplateEditorPage: React.FC = () => {
     });
   };
 
-  const handleMoveUp = (id: string) => {
-    const index = items.findIndex((item) => item.id === id);
-    if (index <= 0) return;
+  /**
+   * Whether the neighbouring item (up or down) is in the same section
+   */
+  const canMove = (index: number, offset: -1 | 1): boolean => {
+    const neighbour = items[index + offset];
+    return !!neighbour && neighbour.sectionId === items[index].sectionId;
+  };
 
-    const reordered = [...items];
-    [reordered[index - 1], reordered[index]] = [reordered[index], reordered[index - 1]];
+  const handleMove = (id: string, offset: -1 | 1) => {
+    const index = items.findIndex((item) => item.id === id);
+    if (index < 0 || !canMove(index, offset)) return;
 
     // Update display order
-    const withUpdatedOrder = reordered.map((item, idx) => ({
-      ...item,
-      displayOrder: (idx + 1) * 10,
-    }));
-    setItems(withUpdatedOrder);
+    setItems(orderItemsBySection(arrayMove(items, index, index + offset), sectionIds));
   };
 
-  const handleMoveDown = (id: string) => {
-    const index = items.findIndex((item) => item.id === id);
-    if (index < 0 || index >= items.length - 1) return;
+  const handleMoveUp = (id: string) => handleMove(id, -1);
 
-    const reordered = [...items];
-    [reordered[index], reordered[index + 1]] = [reordered[index + 1], reordered[index]];
+  const handleMoveDown = (id: string) => handleMove(id, 1);
 
-    // Update display order
-    const withUpdatedOrder = reordered.map((item, idx) => ({
-      ...item,
-      displayOrder: (idx + 1) * 10,
-    }));
-    setItems(withUpdatedOrder);
+  const handleAddSection = () => {
+    const newSection: TemplateSectionFormData = {
+      id: generateTempId(),
+      name: `Section ${sections.length + 1}`,
+    };
+    setSections([...sections, newSection]);
+  };
+
+  const handleRenameSection = (id: string, sectionName: string) => {
+    setSections(sections.map((section) => (section.id === id ? { ...section, name: sectionName } : section)));
+  };
+
+  /**
+   * Remove a section; its items stay in the template without a section
+   */
+  const handleRemoveSection = (id: string) => {
+    const remaining = sections.filter((section) => section.id !== id);
+    setSections(remaining);
+    setItems(
+      orderItemsBySection(
+        items.map((item) => (item.sectionId === id ? { ...item, sectionId: null } : item)),
+        remaining.map((section) => section.id)
+      )
+    );
+  };
+
+  const handleMoveSection = (id: string, offset: -1 | 1) => {
+    const index = sections.findIndex((section) => section.id === id);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= sections.length) return;
+
+    const reordered = arrayMove(sections, index, target);
+    setSections(reordered);
+    setItems(orderItemsBySection(items, reordered.map((section) => section.id)));
   };
 
   const handleToggleExpand = (id: string) => {
@@ -291,7 +390,7 @@ export const TemplateEditorPage: React.FC = () => {
     setExpandedItems(new Set());
   };
 
-  const handleAddFromLibrary = (libraryItems: ItemLibraryEntry[]) => {
+  const handleAddFromLibrary = (libraryItems: ItemLibraryEntry[], sectionId: string | null) => {
     // Convert library items to template items
     const newItems: TemplateItemFormData[] = libraryItems.map((libItem) => ({
       id: generateTempId(),
@@ -300,12 +399,17 @@ export const TemplateEditorPage: React.FC = () => {
       displayOrder: (items.length + libraryItems.indexOf(libItem) + 1) * 10,
       isRequired: libItem.isRequiredByDefault,
       statusConfiguration: parseStatusConfiguration(libItem.statusConfiguration),
+      valueConfiguration: parseValueConfiguration(libItem.valueConfiguration) ?? {},
       allowedPositions: libItem.allowedPositions ? JSON.parse(libItem.allowedPositions) : [],
       defaultNotes: libItem.defaultNotes || '',
+      dueOffsetMinutes: null,
+      dueRelativeTo: ItemDueAnchor.CHECKLIST_CREATED,
+      prerequisiteIds: [],
+      sectionId,
     }));
 
-    // Add to items list
-    setItems([...items, ...newItems]);
+    // Add to the end of the chosen section
+    setItems(orderItemsBySection([...items, ...newItems], sectionIds));
 
     // Auto-expand new items
     const newItemIds = newItems.map((item) => item.id);
@@ -335,20 +439,45 @@ export const TemplateEditorPage: React.FC = () => {
     toast.success('Item saved to library!');
   };
 
+  /**
+   * Section an item or section container belongs to (undefined = unknown)
+   */
+  const getDropSectionId = (dropId: string): string | null | undefined => {
+    const sectionId = parseSectionDropId(dropId);
+    if (sectionId !== undefined) return sectionId;
+    return items.find((item) => item.id === dropId)?.sectionId;
+  };
+
+  /**
+   * Move an item into another section while it is dragged over it
+   */
+  const handleDragOver = (event: DragOverEvent) => {
+    const { active, over } = event;
+    if (!over) return;
+
+    const activeItem = items.find((item) => item.id === active.id);
+    const targetSectionId = getDropSectionId(String(over.id));
+    if (!activeItem || targetSectionId === undefined || activeItem.sectionId === targetSectionId) return;
+
+    const moved = items.map((item) => (item.id === activeItem.id ? { ...item, sectionId: targetSectionId } : item));
+    const oldIndex = moved.findIndex((item) => item.id === activeItem.id);
+    const overIndex = moved.findIndex((item) => item.id === over.id);
+    // Over an item: take its place; over the section itself: go to the end
+    setItems(
+      orderItemsBySection(arrayMove(moved, oldIndex, overIndex >= 0 ? overIndex : moved.length - 1), sectionIds)
+    );
+  };
+
   const handleDragEnd = (event: DragEndEvent) => {
     const { active, over } = event;
 
     if (over && active.id !== over.id) {
       const oldIndex = items.findIndex((item) => item.id === active.id);
       const newIndex = items.findIndex((item) => item.id === over.id);
+      if (oldIndex < 0 || newIndex < 0) return;
 
-      const reordered = arrayMove(items, oldIndex, newIndex);
       // Update display order
-      const withUpdatedOrder = reordered.map((item, idx) => ({
-        ...item,
-        displayOrder: (idx + 1) * 10,
-      }));
-      setItems(withUpdatedOrder);
+      setItems(orderItemsBySection(arrayMove(items, oldIndex, newIndex), sectionIds));
     }
   };
 
@@ -362,9 +491,19 @@ export const TemplateEditorPage: React.FC = () => {
     if (!category) {
       newErrors.category = 'Category is required';
     }
+    if (templateType === TemplateType.RECURRING) {
+      const recurrenceError = validateRecurrenceConfig(recurrenceConfig);
+      if (recurrenceError) {
+        newErrors.recurrence = recurrenceError;
+      }
+    }
     if (items.length === 0) {
       newErrors.items = 'At least one item is required';
     }
+    const sectionError = validateSectionNames(sections.map((section) => section.name));
+    if (sectionError) {
+      newErrors.sections = sectionError;
+    }
 
     // Item validation
     items.forEach((item, index) => {
@@ -380,6 +519,20 @@ export const TemplateEditorPage: React.FC = () => {
           newErrors[`item-${index}-completion`] = `Item #${index + 1}: At least one status must count as complete`;
         }
       }
+      if (item.itemType === ItemType.NUMBER) {
+        const valueConfigurationError = validateValueConfiguration(item.valueConfiguration);
+        if (valueConfigurationError) {
+          newErrors[`item-${index}-range`] = `Item #${index + 1}: ${valueConfigurationError}`;
+        }
+      }
+      const dueOffsetError = validateDueOffset(item.dueOffsetMinutes);
+      if (dueOffsetError) {
+        newErrors[`item-${index}-due`] = `Item #${index + 1}: ${dueOffsetError}`;
+      }
+      const prerequisiteError = validatePrerequisites(item, items);
+      if (prerequisiteError) {
+        newErrors[`item-${index}-prerequisites`] = `Item #${index + 1}: ${prerequisiteError}`;
+      }
     });
 
     setErrors(newErrors);
@@ -434,7 +587,15 @@ export const TemplateEditorPage: React.FC = () => {
       );
     }
 
-    // Warning 5: Many items without position restrictions (could lead to confusion)
+    // Warning 5: Sections without items (not saved)
+    const emptySections = sections.filter((section) => !items.some((item) => item.sectionId === section.id));
+    if (emptySections.length > 0) {
+      newWarnings.push(
+        `${emptySections.length} section${emptySections.length > 1 ? 's have' : ' has'} no items and will not be saved.`
+      );
+    }
+
+    // Warning 6: Many items without position restrictions (could lead to confusion)
     if (items.length >= 10) {
       const itemsWithoutPositions = items.filter((item) => item.allowedPositions.length === 0);
       if (itemsWithoutPositions.length === items.length) {
@@ -467,6 +628,10 @@ export const TemplateEditorPage: React.FC = () => {
           templateType === TemplateType.AUTO_CREATE && autoCreateCategories.length > 0
             ? JSON.stringify(autoCreateCategories)
             : undefined,
+        recurrenceConfig:
+          templateType === TemplateType.RECURRING
+            ? serializeRecurrenceConfig(recurrenceConfig)
+            : undefined,
         items: items.map((item) => ({
           itemText: item.itemText.trim(),
           itemType: item.itemType,
@@ -476,20 +641,31 @@ export const TemplateEditorPage: React.FC = () => {
             item.itemType === ItemType.STATUS && item.statusConfiguration.length > 0
               ? JSON.stringify(item.statusConfiguration)
               : null,
+          valueConfiguration:
+            item.itemType === ItemType.NUMBER ? serializeValueConfiguration(item.valueConfiguration) : null,
           allowedPositions:
             item.allowedPositions.length > 0
               ? JSON.stringify(item.allowedPositions)
               : null,
           defaultNotes: item.defaultNotes.trim() || null,
+          dueOffsetMinutes: item.dueOffsetMinutes,
+          dueRelativeTo: item.dueRelativeTo,
+          prerequisiteDisplayOrders: toPrerequisiteDisplayOrders(item, items),
+          sectionName: normalizeSectionName(sections.find((section) => section.id === item.sectionId)?.name),
         })),
       };
 
       if (isEditMode && templateId) {
-        await templateService.updateTemplate(templateId, requestData);
-        toast.success('Template updated successfully!');
+        const updated = await templateService.updateTemplate(templateId, requestData);
+        toast.success(
+          updated.approvalStatus === TemplateApprovalStatus.DRAFT &&
+            approvalStatus !== TemplateApprovalStatus.DRAFT
+            ? 'Template updated. Submit it for approval before it can be used again.'
+            : 'Template updated successfully!'
+        );
       } else {
         await templateService.createTemplate(requestData);
-        toast.success('Template created successfully!');
+        toast.success('Template created as a draft. Submit it for approval from the preview page.');
       }
 
       navigate('/templates');
@@ -530,8 +706,18 @@ export const TemplateEditorPage: React.FC = () => {
           <Typography variant="h4">
             {isEditMode ? 'Edit Template' : isDuplicateMode ? 'Duplicate Template' : 'Create New Template'}
           </Typography>
+          {approvalStatus && <TemplateApprovalStatusChip status={approvalStatus} size="medium" />}
         </Box>
 
+        {/* Editing an approved or pending template sends it back for approval */}
+        {(approvalStatus === TemplateApprovalStatus.APPROVED ||
+          approvalStatus === TemplateApprovalStatus.PENDING_APPROVAL) && (
+          <Alert severity="info">
+            Saving changes returns this template to Draft. It must be approved again before new
+            checklists can be created from it.
+          </Alert>
+        )}
+
         {/* Template Metadata */}
         <Paper elevation={2} sx={{ p: 3 }}>
           <Typography variant="h6" sx={{ mb: 2 }}>
@@ -617,9 +803,9 @@ export const TemplateEditorPage: React.FC = () => {
             </MenuItem>
             <MenuItem value={TemplateType.RECURRING}>
               <Box>
-                <Typography variant="body1" fontWeight="medium">Recurring (Future Feature)</Typography>
+                <Typography variant="body1" fontWeight="medium">Recurring Schedule</Typography>
                 <Typography variant="caption" color="text.secondary">
-                  Creates checklists on a schedule (daily, per-shift, etc.)
+                  Creates checklists every operational period, every N hours, or daily
                 </Typography>
               </Box>
             </MenuItem>
@@ -627,7 +813,7 @@ export const TemplateEditorPage: React.FC = () => {
           <FormHelperText>
             {templateType === TemplateType.MANUAL && 'This is the default. Users will select this template from the library when creating checklists.'}
             {templateType === TemplateType.AUTO_CREATE && 'Checklist will be automatically created when an event matches the selected incident type(s).'}
-            {templateType === TemplateType.RECURRING && 'Recurring templates are not yet implemented in this POC.'}
+            {templateType === TemplateType.RECURRING && 'Checklists will be created automatically for the active event on the schedule below. The template must be approved first.'}
           </FormHelperText>
         </FormControl>
 
@@ -659,6 +845,15 @@ export const TemplateEditorPage: React.FC = () => {
             </FormHelperText>
           </FormControl>
             )}
+
+            {/* Recurrence Schedule - Only shown when RECURRING is selected */}
+            {templateType === TemplateType.RECURRING && (
+              <RecurrenceEditor
+                value={recurrenceConfig}
+                onChange={setRecurrenceConfig}
+                error={validateRecurrenceConfig(recurrenceConfig) ?? undefined}
+              />
+            )}
           </Stack>
         </Paper>
 
@@ -692,6 +887,12 @@ export const TemplateEditorPage: React.FC = () => {
             </Alert>
           )}
 
+          {errors.sections && (
+            <Alert severity="error" sx={{ mb: 2 }}>
+              {errors.sections}
+            </Alert>
+          )}
+
           {Object.keys(errors)
             .filter((key) => key.startsWith('item-'))
             .map((key) => (
@@ -711,30 +912,55 @@ export const TemplateEditorPage: React.FC = () => {
             </Box>
           )}
 
-          {/* Items List with Drag and Drop */}
-          {items.length > 0 && (
+          {/* Items List with Drag and Drop, grouped by section */}
+          {(items.length > 0 || sections.length > 0) && (
           <DndContext
             sensors={sensors}
-            collisionDetection={closestCenter}
+            collisionDetection={closestCorners}
+            onDragOver={handleDragOver}
             onDragEnd={handleDragEnd}
           >
-            <SortableContext items={items.map((item) => item.id)} strategy={verticalListSortingStrategy}>
-              {items.map((item, index) => (
-                <TemplateItemEditor
-                  key={item.id}
-                  item={item}
-                  index={index}
-                  totalItems={items.length}
-                  onUpdate={handleUpdateItem}
-                  onRemove={handleRemoveItem}
-                  onMoveUp={handleMoveUp}
-                  onMoveDown={handleMoveDown}
-                  isExpanded={expandedItems.has(item.id)}
-                  onToggleExpand={handleToggleExpand}
-                  onSaveToLibrary={handleSaveToLibrary}
-                />
-              ))}
-            </SortableContext>
+            {[null, ...sections].map((section, sectionIndex) => {
+              const sectionItems = items.filter((item) => item.sectionId === (section?.id ?? null));
+              return (
+                <TemplateSectionEditor
+                  key={section?.id ?? 'no-section'}
+                  section={section}
+                  index={sectionIndex - 1}
+                  totalSections={sections.length}
+                  itemCount={sectionItems.length}
+                  showEmptyDropZone={sections.length > 0}
+                  onRename={handleRenameSection}
+                  onRemove={handleRemoveSection}
+                  onMoveUp={(id) => handleMoveSection(id, -1)}
+                  onMoveDown={(id) => handleMoveSection(id, 1)}
+                  onAddItem={handleAddItem}
+                >
+                  <SortableContext items={sectionItems.map((item) => item.id)} strategy={verticalListSortingStrategy}>
+                    {sectionItems.map((item) => {
+                      const index = items.indexOf(item);
+                      return (
+                        <TemplateItemEditor
+                          key={item.id}
+                          item={item}
+                          index={index}
+                          canMoveUp={canMove(index, -1)}
+                          canMoveDown={canMove(index, 1)}
+                          allItems={items}
+                          onUpdate={handleUpdateItem}
+                          onRemove={handleRemoveItem}
+                          onMoveUp={handleMoveUp}
+                          onMoveDown={handleMoveDown}
+                          isExpanded={expandedItems.has(item.id)}
+                          onToggleExpand={handleToggleExpand}
+                          onSaveToLibrary={handleSaveToLibrary}
+                        />
+                      );
+                    })}
+                  </SortableContext>
+                </TemplateSectionEditor>
+              );
+            })}
           </DndContext>
           )}
 
@@ -744,7 +970,7 @@ export const TemplateEditorPage: React.FC = () => {
               size="large"
               fullWidth
               startIcon={<FontAwesomeIcon icon={faPlus} />}
-              onClick={handleAddItem}
+              onClick={() => handleAddItem()}
               sx={{
                 py: 2,
                 borderStyle: 'dashed',
@@ -774,9 +1000,36 @@ export const TemplateEditorPage: React.FC = () => {
             >
               Add from Library
             </CobraSecondaryButton>
+            <CobraSecondaryButton
+              size="large"
+              fullWidth
+              startIcon={<FontAwesomeIcon icon={faLayerGroup} />}
+              onClick={handleAddSection}
+              sx={{
+                py: 2,
+                borderStyle: 'dashed',
+                borderWidth: 2,
+                '&:hover': {
+                  borderStyle: 'dashed',
+                  borderWidth: 2,
+                },
+              }}
+            >
+              Add Section
+            </CobraSecondaryButton>
           </Box>
         </Box>
 
+        {/* Version History (existing templates only) */}
+        {isEditMode && templateId && (
+          <TemplateVersionHistoryPanel
+            templateId={templateId}
+            currentVersion={currentVersion}
+            canRestore
+            onRestored={() => loadTemplate(templateId, false)}
+          />
+        )}
+
         <Divider />
 
         {/* Action Buttons */}
@@ -798,6 +1051,7 @@ export const TemplateEditorPage: React.FC = () => {
           open={addFromLibraryOpen}
           onClose={() => setAddFromLibraryOpen(false)}
           onAdd={handleAddFromLibrary}
+          sections={sections}
         />
 
         {/* Save to Library Dialog */}
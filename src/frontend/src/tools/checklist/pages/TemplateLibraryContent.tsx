@@ -29,8 +29,11 @@ import {
   faChartLine,
   faChevronDown,
   faChevronUp,
+  faFileExport,
+  faFileImport,
 } from "@fortawesome/free-solid-svg-icons";
 import { toast } from "react-toastify";
+import { useEvents } from "../../../shared/events";
 import { templateService } from "../services/templateService";
 import {
   checklistService,
@@ -41,8 +44,11 @@ import {
   type ChecklistCreationData,
 } from "../components/CreateChecklistDialog";
 import { AnalyticsDashboard } from "../components/AnalyticsDashboard";
+import { TemplateApprovalStatusChip } from "../components/TemplateApprovalStatusChip";
+import { TemplatePackExportDialog } from "../components/TemplatePackExportDialog";
+import { TemplatePackImportDialog } from "../components/TemplatePackImportDialog";
 import { cobraTheme } from "../../../theme/cobraTheme";
-import type { Template } from "../../../types";
+import { TemplateApprovalStatus, type Template } from "../../../types";
 import {
   CobraPrimaryButton,
   CobraSecondaryButton,
@@ -54,6 +60,7 @@ import {
  */
 export const TemplateLibraryContent: React.FC = () => {
   const navigate = useNavigate();
+  const { currentEvent } = useEvents();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -68,6 +75,10 @@ export const TemplateLibraryContent: React.FC = () => {
   // Analytics state
   const [showAnalytics, setShowAnalytics] = useState(false);
 
+  // Template pack dialogs
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+
   // Fetch templates on mount
   useEffect(() => {
     fetchTemplates();
@@ -185,6 +196,19 @@ export const TemplateLibraryContent: React.FC = () => {
               style={{ marginLeft: 8 }}
             />
           </CobraSecondaryButton>
+          <CobraSecondaryButton
+            startIcon={<FontAwesomeIcon icon={faFileImport} />}
+            onClick={() => setImportDialogOpen(true)}
+          >
+            Import Pack
+          </CobraSecondaryButton>
+          <CobraSecondaryButton
+            startIcon={<FontAwesomeIcon icon={faFileExport} />}
+            onClick={() => setExportDialogOpen(true)}
+            disabled={templates.length === 0}
+          >
+            Export Pack
+          </CobraSecondaryButton>
           <CobraNewButton onClick={() => navigate("/checklists/manage/templates/new")}>
             Create New Template
           </CobraNewButton>
@@ -234,6 +258,11 @@ export const TemplateLibraryContent: React.FC = () => {
                     {template.name}
                   </Typography>
 
+                  {/* Approval status */}
+                  <Box sx={{ mb: 1 }}>
+                    <TemplateApprovalStatusChip status={template.approvalStatus} />
+                  </Box>
+
                   {/* Category */}
                   {template.category && (
                     <Chip
@@ -304,11 +333,12 @@ export const TemplateLibraryContent: React.FC = () => {
                       Edit
                     </CobraSecondaryButton>
                   </Box>
-                  {/* Row 2: Create Checklist button */}
+                  {/* Row 2: Create Checklist button (approved templates only) */}
                   <CobraPrimaryButton
                     fullWidth
                     startIcon={<FontAwesomeIcon icon={faPlus} />}
                     onClick={() => handleCreateFromTemplate(template)}
+                    disabled={template.approvalStatus !== TemplateApprovalStatus.APPROVED}
                   >
                     Create Checklist
                   </CobraPrimaryButton>
@@ -319,6 +349,18 @@ export const TemplateLibraryContent: React.FC = () => {
         </Grid>
       )}
 
+      {/* Template Pack Dialogs */}
+      <TemplatePackImportDialog
+        open={importDialogOpen}
+        onClose={() => setImportDialogOpen(false)}
+        onImported={fetchTemplates}
+      />
+      <TemplatePackExportDialog
+        open={exportDialogOpen}
+        onClose={() => setExportDialogOpen(false)}
+        templates={templates}
+      />
+
       {/* Create Checklist Dialog */}
       {selectedTemplate && (
         <CreateChecklistDialog
@@ -326,8 +368,8 @@ export const TemplateLibraryContent: React.FC = () => {
           mode="from-template"
           templateId={selectedTemplate.id}
           templateName={selectedTemplate.name}
-          eventId="Hurricane-Milton-2024"
-          eventName="Hurricane Milton Response"
+          eventId={currentEvent?.id ?? ""}
+          eventName={currentEvent?.name ?? ""}
           onSave={handleDialogSave}
           onCancel={handleDialogCancel}
           saving={creating}
@@ -23,14 +23,18 @@ import {
   Stack,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faPlus, faClipboardList, faEdit, faEye, faCopy, faChartLine, faChevronDown, faChevronUp } from '@fortawesome/free-solid-svg-icons';
+import { faPlus, faClipboardList, faEdit, faEye, faCopy, faChartLine, faChevronDown, faChevronUp, faFileExport, faFileImport } from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
+import { useEvents } from '../../../shared/events';
 import { templateService } from '../services/templateService';
 import { checklistService, type CreateFromTemplateRequest } from '../services/checklistService';
 import { CreateChecklistDialog, type ChecklistCreationData } from '../components/CreateChecklistDialog';
 import { AnalyticsDashboard } from '../components/AnalyticsDashboard';
+import { TemplateApprovalStatusChip } from '../components/TemplateApprovalStatusChip';
+import { TemplatePackExportDialog } from '../components/TemplatePackExportDialog';
+import { TemplatePackImportDialog } from '../components/TemplatePackImportDialog';
 import { cobraTheme } from '../../../theme/cobraTheme';
-import type { Template } from '../../../types';
+import { TemplateApprovalStatus, type Template } from '../../../types';
 import {
   CobraPrimaryButton,
   CobraSecondaryButton,
@@ -43,6 +47,7 @@ import CobraStyles from '../../../theme/CobraStyles';
  */
 export const TemplateLibraryPage: React.FC = () => {
   const navigate = useNavigate();
+  const { currentEvent } = useEvents();
   const [templates, setTemplates] = useState<Template[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -55,6 +60,10 @@ export const TemplateLibraryPage: React.FC = () => {
   // Analytics state
   const [showAnalytics, setShowAnalytics] = useState(false);
 
+  // Template pack dialogs
+  const [importDialogOpen, setImportDialogOpen] = useState(false);
+  const [exportDialogOpen, setExportDialogOpen] = useState(false);
+
   // Fetch templates on mount
   useEffect(() => {
     fetchTemplates();
@@ -174,6 +183,19 @@ export const TemplateLibraryPage: React.FC = () => {
               {showAnalytics ? 'Hide Analytics' : 'Show Analytics'}
               <FontAwesomeIcon icon={showAnalytics ? faChevronUp : faChevronDown} style={{ marginLeft: 8 }} />
             </CobraSecondaryButton>
+            <CobraSecondaryButton
+              startIcon={<FontAwesomeIcon icon={faFileImport} />}
+              onClick={() => setImportDialogOpen(true)}
+            >
+              Import Pack
+            </CobraSecondaryButton>
+            <CobraSecondaryButton
+              startIcon={<FontAwesomeIcon icon={faFileExport} />}
+              onClick={() => setExportDialogOpen(true)}
+              disabled={templates.length === 0}
+            >
+              Export Pack
+            </CobraSecondaryButton>
             <CobraNewButton onClick={() => navigate('/templates/new')}>
               Create New Template
             </CobraNewButton>
@@ -217,6 +239,11 @@ export const TemplateLibraryPage: React.FC = () => {
                     {template.name}
                   </Typography>
 
+                  {/* Approval status */}
+                  <Box sx={{ mb: 1 }}>
+                    <TemplateApprovalStatusChip status={template.approvalStatus} />
+                  </Box>
+
                   {/* Category */}
                   {template.category && (
                     <Chip
@@ -268,11 +295,12 @@ export const TemplateLibraryPage: React.FC = () => {
                       Edit
                     </CobraSecondaryButton>
                   </Box>
-                  {/* Row 2: Create Checklist button */}
+                  {/* Row 2: Create Checklist button (approved templates only) */}
                   <CobraPrimaryButton
                     fullWidth
                     startIcon={<FontAwesomeIcon icon={faPlus} />}
                     onClick={() => handleCreateFromTemplate(template)}
+                    disabled={template.approvalStatus !== TemplateApprovalStatus.APPROVED}
                   >
                     Create Checklist
                   </CobraPrimaryButton>
@@ -283,6 +311,18 @@ export const TemplateLibraryPage: React.FC = () => {
         </Grid>
         )}
 
+        {/* Template Pack Dialogs */}
+        <TemplatePackImportDialog
+          open={importDialogOpen}
+          onClose={() => setImportDialogOpen(false)}
+          onImported={fetchTemplates}
+        />
+        <TemplatePackExportDialog
+          open={exportDialogOpen}
+          onClose={() => setExportDialogOpen(false)}
+          templates={templates}
+        />
+
         {/* Create Checklist Dialog */}
         {selectedTemplate && (
           <CreateChecklistDialog
@@ -290,8 +330,8 @@ export const TemplateLibraryPage: React.FC = () => {
             mode="from-template"
             templateId={selectedTemplate.id}
             templateName={selectedTemplate.name}
-            eventId="Hurricane-Milton-2024" // TODO: Get from C5 context
-            eventName="Hurricane Milton Response" // TODO: Get from C5 context
+            eventId={currentEvent?.id ?? ''}
+            eventName={currentEvent?.name ?? ''}
             onSave={handleDialogSave}
             onCancel={handleDialogCancel}
             saving={creating}
@@ -13,10 +13,31 @@ import {
   Stack,
 } from '@mui/material';
 import { FontAwesomeIcon } from '@fortawesome/react-fontawesome';
-import { faArrowLeft, faEdit, faCopy, faCheckSquare, faListCheck } from '@fortawesome/free-solid-svg-icons';
+import {
+  faArrowLeft,
+  faEdit,
+  faCopy,
+  faCheckSquare,
+  faListCheck,
+  faHashtag,
+  faFont,
+  faCalendarDays,
+  faCircleQuestion,
+  faPrint,
+} from '@fortawesome/free-solid-svg-icons';
 import { toast } from 'react-toastify';
 import { templateService } from '../services/templateService';
-import type { Template, TemplateItem, ItemType, StatusOption } from '../../../types';
+import { TemplateVersionHistoryPanel } from '../components/TemplateVersionHistoryPanel';
+import { TemplateApprovalPanel } from '../components/TemplateApprovalPanel';
+import { TemplateApprovalStatusChip } from '../components/TemplateApprovalStatusChip';
+import { usePermissions } from '../../../shared/hooks/usePermissions';
+import { useEvents } from '../../../shared/events';
+import { getCurrentUser } from '../../../core/services/api';
+import { checklistPrintService } from '../services/checklistPrintService';
+import { templateToPrintable } from '../utils/checklistPrint';
+import type { Template, TemplateItem, StatusOption } from '../../../types';
+import { ItemType } from '../../../types';
+import { ITEM_TYPE_LABELS, describeValueConfiguration, parseValueConfiguration } from '../utils/itemValue';
 import { cobraTheme } from '../../../theme/cobraTheme';
 import {
   CobraLinkButton,
@@ -29,11 +50,14 @@ import CobraStyles from '../../../theme/CobraStyles';
  * TemplatePreviewPage Component
  *
  * Read-only preview of a template showing all metadata and items.
- * Allows users to understand what they'll get before creating a checklist.
+ * Allows users to understand what they'll get before creating a checklist,
+ * and to print a blank paper copy of it.
  */
 export const TemplatePreviewPage: React.FC = () => {
   const { templateId } = useParams<{ templateId: string }>();
   const navigate = useNavigate();
+  const { canEditTemplate, canApproveTemplates } = usePermissions();
+  const { currentEvent } = useEvents();
 
   const [template, setTemplate] = useState<Template | null>(null);
   const [loading, setLoading] = useState(true);
@@ -64,6 +88,24 @@ export const TemplatePreviewPage: React.FC = () => {
     fetchTemplate();
   }, [templateId]);
 
+  /**
+   * Print a blank copy of the template for completion by hand
+   */
+  const handlePrintBlank = () => {
+    if (!template) return;
+
+    const user = getCurrentUser();
+    const name = user.fullName || user.email;
+    try {
+      checklistPrintService.print(
+        [templateToPrintable(template, { eventName: currentEvent?.name ?? '' })],
+        { printedBy: user.position ? `${name} (${user.position})` : name }
+      );
+    } catch (err) {
+      toast.error(err instanceof Error ? err.message : 'Failed to print template');
+    }
+  };
+
   const parseStatusConfiguration = (statusConfiguration?: string | null): StatusOption[] => {
     if (!statusConfiguration) return [];
     try {
@@ -102,8 +144,25 @@ export const TemplatePreviewPage: React.FC = () => {
     }
   };
 
+  const getItemTypeIcon = (itemType: ItemType) => {
+    switch (itemType) {
+      case ItemType.STATUS:
+        return faListCheck;
+      case ItemType.NUMBER:
+        return faHashtag;
+      case ItemType.TEXT:
+        return faFont;
+      case ItemType.DATETIME:
+        return faCalendarDays;
+      case ItemType.YESNO:
+        return faCircleQuestion;
+      default:
+        return faCheckSquare;
+    }
+  };
+
   const getItemTypeLabel = (itemType: ItemType): string => {
-    return itemType === 'checkbox' ? 'Checkbox' : 'Status Dropdown';
+    return itemType === 'status' ? 'Status Dropdown' : ITEM_TYPE_LABELS[itemType] ?? itemType;
   };
 
   if (loading) {
@@ -162,6 +221,12 @@ export const TemplatePreviewPage: React.FC = () => {
           >
             Duplicate
           </CobraSecondaryButton>
+          <CobraSecondaryButton
+            startIcon={<FontAwesomeIcon icon={faPrint} />}
+            onClick={handlePrintBlank}
+          >
+            Print Blank
+          </CobraSecondaryButton>
           <CobraPrimaryButton
             startIcon={<FontAwesomeIcon icon={faEdit} />}
             onClick={() => navigate(`/templates/${templateId}/edit`)}
@@ -183,6 +248,7 @@ export const TemplatePreviewPage: React.FC = () => {
         )}
 
         <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 2 }}>
+          <TemplateApprovalStatusChip status={template.approvalStatus} size="medium" />
           <Chip
             label={template.category}
             color="primary"
@@ -286,11 +352,19 @@ export const TemplatePreviewPage: React.FC = () => {
                     <Box sx={{ pl: 7, width: '100%' }}>
                       <Box sx={{ display: 'flex', gap: 1, flexWrap: 'wrap', mb: 1 }}>
                         <Chip
-                          icon={<FontAwesomeIcon icon={item.itemType === 'checkbox' ? faCheckSquare : faListCheck} />}
+                          icon={<FontAwesomeIcon icon={getItemTypeIcon(item.itemType)} />}
                           label={getItemTypeLabel(item.itemType)}
                           size="small"
                           variant="outlined"
                         />
+                        {item.itemType === ItemType.NUMBER &&
+                          describeValueConfiguration(parseValueConfiguration(item.valueConfiguration)) && (
+                            <Chip
+                              label={describeValueConfiguration(parseValueConfiguration(item.valueConfiguration))}
+                              size="small"
+                              variant="outlined"
+                            />
+                          )}
                         {positions.length > 0 && (
                           <Chip
                             label={`Positions: ${positions.join(', ')}`}
@@ -339,6 +413,22 @@ export const TemplatePreviewPage: React.FC = () => {
           </List>
         )}
         </Paper>
+
+        {/* Approval Status and History */}
+        <TemplateApprovalPanel
+          template={template}
+          canSubmit={canEditTemplate}
+          canReview={canApproveTemplates}
+          onChanged={setTemplate}
+        />
+
+        {/* Version History */}
+        <TemplateVersionHistoryPanel
+          templateId={template.id}
+          currentVersion={template.currentVersion}
+          canRestore={canEditTemplate}
+          onRestored={setTemplate}
+        />
       </Stack>
     </Box>
   );
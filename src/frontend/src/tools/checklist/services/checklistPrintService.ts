@@ -0,0 +1,41 @@
+/**
+ * Checklist Print Service
+ *
+ * Opens checklist print layouts (utils/checklistPrint) in a new window with
+ * the print dialog; choose "Save as PDF" as the destination for a PDF.
+ * Layouts are built from data already in the browser, so printing works
+ * from the offline copy of a checklist.
+ */
+
+import { checklistService, type ChecklistInstanceDto } from './checklistService';
+import { openPrintWindow } from './printWindow';
+import {
+  renderChecklistPrintHtml,
+  type ChecklistPrintOptions,
+  type PrintableChecklist,
+} from '../utils/checklistPrint';
+
+/**
+ * Checklist print service interface
+ */
+export const checklistPrintService = {
+  /**
+   * Load the event's active checklists (with items) for a batch print
+   * @param eventId Event ID
+   */
+  async loadEventChecklists(eventId: string): Promise<ChecklistInstanceDto[]> {
+    return checklistService.getChecklistsByEvent(eventId, false, true);
+  },
+
+  /**
+   * Open the print dialog for one or more checklists (one per page)
+   * @param checklists Checklists to print
+   * @param options Printed-by header information
+   */
+  print(checklists: PrintableChecklist[], options: ChecklistPrintOptions): void {
+    openPrintWindow(
+      renderChecklistPrintHtml(checklists, options),
+      'Allow pop-ups for this site to print checklists'
+    );
+  },
+};
@@ -6,12 +6,17 @@
  * - Getting single checklist details
  * - Creating checklists from templates
  * - Updating checklist metadata
+ * - Checklist activity feed (item history and metadata changes)
+ * - Catching up on changes missed while the real-time connection was down
  * - Cloning checklists
+ * - Carrying checklists forward into another operational period
+ * - Submitting for sign-off, signing off and reopening checklists
  * - Archiving/restoring checklists
  * - Filtering by event/operational period
  */
 
-import { apiClient, getErrorMessage } from '../../../core/services/api';
+import { apiClient, getErrorMessage, isNetworkError } from '../../../core/services/api';
+import type { ChecklistActivity, ChecklistSignOffStatus, CreateCombinedChecklistRequest, ItemNote } from '../types';
 
 /**
  * Checklist Instance DTO (matches backend)
@@ -20,19 +25,33 @@ export interface ChecklistInstanceDto {
   id: string;
   name: string;
   templateId: string;
+  templateVersion?: number; // Template version the checklist was created from
+  templateCurrentVersion?: number; // Latest template version (detail view only)
+  sourceTemplateIds?: string[]; // All source templates of a combined checklist (empty otherwise)
   eventId: string;
   eventName: string;
   operationalPeriodId?: string;
   operationalPeriodName?: string;
   assignedPositions?: string; // Comma-separated list
+  isAutoCreated?: boolean; // Generated from an auto-create template when the event was created
   progressPercentage: number;
   totalItems: number;
   completedItems: number;
   requiredItems: number;
   requiredItemsCompleted: number;
+  attachmentCount?: number; // Files attached across all items
   isArchived: boolean;
   archivedBy?: string;
   archivedAt?: string;
+  signOffStatus?: ChecklistSignOffStatus; // Missing on older responses = Open
+  submittedForSignOffBy?: string;
+  submittedForSignOffByPosition?: string;
+  submittedForSignOffAt?: string;
+  signedOffBy?: string;
+  signedOffByName?: string; // Supervisor's display name
+  signedOffByPosition?: string;
+  signedOffAt?: string;
+  signOffSignature?: string; // PNG data URL of the drawn signature
   createdBy: string;
   createdByPosition: string;
   createdAt: string;
@@ -50,9 +69,10 @@ export interface ChecklistItemDto {
   checklistInstanceId: string;
   templateItemId: string;
   itemText: string;
-  itemType: string; // "checkbox" | "status"
+  itemType: string; // "checkbox" | "status" | "number" | "text" | "datetime" | "yesno"
   displayOrder: number;
   isRequired: boolean;
+  sectionName?: string | null; // Named section (null = no section)
 
   // Checkbox fields
   isCompleted?: boolean;
@@ -64,9 +84,22 @@ export interface ChecklistItemDto {
   currentStatus?: string;
   statusConfiguration?: string; // JSON string of StatusOption[]
 
+  // Value fields (number, text, datetime, yesno)
+  value?: string; // Captured value (number as text, ISO 8601 UTC datetime, "Yes"/"No"/"N/A")
+  valueConfiguration?: string; // JSON ItemValueConfiguration (number items)
+
+  // Due time
+  dueAt?: string; // ISO 8601 datetime the item must be done by
+  dueOffsetMinutes?: number;
+  dueRelativeTo?: string; // "ChecklistCreated" | "PeriodStart"
+
+  // Sequential gating
+  prerequisiteItemIds?: string; // JSON array of item IDs that must be completed first
+
   // Common fields
   allowedPositions?: string; // JSON string or comma-separated list
-  notes?: string;
+  notes?: ItemNote[]; // Note thread, oldest first
+  attachmentCount?: number;
   createdAt: string;
   lastModifiedBy?: string;
   lastModifiedByPosition?: string;
@@ -105,6 +138,88 @@ export interface CloneChecklistRequest {
   newName: string;
   preserveStatus?: boolean; // If true, preserves completion status and notes (direct copy); if false, resets (clean copy)
   assignedPositions?: string; // Comma-separated list of positions; if not provided, inherits from original
+  setOperationalPeriod?: boolean; // If true, the copy uses operationalPeriodId/Name (none = incident-level); otherwise inherits from original
+  operationalPeriodId?: string;
+  operationalPeriodName?: string;
+}
+
+/**
+ * Request to carry checklists forward into another operational period
+ */
+export interface CarryForwardChecklistsRequest {
+  checklistIds: string[];
+  targetOperationalPeriodId: string;
+  resetCompletion: boolean; // If false, completion, status and notes are kept (direct copy)
+  onlyIncompleteItems: boolean; // Copy only items not yet complete; fully complete checklists are skipped
+  carryNotes: boolean; // Keep item notes when completion is reset
+}
+
+/**
+ * A checklist that was not carried forward, and why
+ */
+export interface CarryForwardSkipped {
+  checklistId: string;
+  checklistName: string;
+  reason: string;
+}
+
+/**
+ * Outcome of carrying checklists forward
+ */
+export interface CarryForwardResult {
+  targetOperationalPeriodId: string;
+  targetOperationalPeriodName: string;
+  created: ChecklistInstanceDto[];
+  skipped: CarryForwardSkipped[];
+}
+
+/**
+ * A checklist that will be generated from an auto-create template for an event's categories
+ */
+export interface AutoCreateChecklistPreview {
+  templateId: string;
+  templateName: string; // Also the generated checklist's name
+  description: string;
+  itemCount: number;
+  positions: string[]; // Template's recommended positions (empty = all positions)
+  matchedCategories: string[]; // Event category names that matched
+}
+
+/**
+ * Request to generate an event's auto-create checklists (opted-out templates left out)
+ */
+export interface AutoCreateChecklistsRequest {
+  eventId: string;
+  templateIds: string[];
+}
+
+/**
+ * A template no checklist was generated from, and why
+ */
+export interface AutoCreateSkipped {
+  templateId: string;
+  templateName: string;
+  reason: string;
+}
+
+/**
+ * Outcome of generating an event's auto-create checklists
+ */
+export interface AutoCreateResult {
+  created: ChecklistInstanceDto[];
+  skipped: AutoCreateSkipped[];
+}
+
+/**
+ * What changed on a checklist since a time (real-time reconnect catch-up)
+ */
+export interface ChecklistChangesDto {
+  checklistId: string;
+  since: string;
+  serverTime: string;
+  checklist: ChecklistInstanceDto; // Current metadata and progress; items is empty
+  changedItems: ChecklistItemDto[]; // Full current state of each changed item
+  removedItemIds?: string[]; // Items removed from the checklist since
 }
 
 /**
@@ -114,16 +229,18 @@ export const checklistService = {
   /**
    * Get all checklists for current user's position
    * @param includeArchived Include archived checklists (default: false)
+   * @param changedSince Only checklists created or changed after this time (reconnect catch-up)
    * @returns Array of checklists visible to user's position
    */
   async getMyChecklists(
-    includeArchived = false
+    includeArchived = false,
+    changedSince?: string
   ): Promise<ChecklistInstanceDto[]> {
     try {
       const response = await apiClient.get<ChecklistInstanceDto[]>(
         '/api/checklists/my-checklists',
         {
-          params: { includeArchived },
+          params: { includeArchived, changedSince },
         }
       );
       // Ensure we always return an array (guard against HTML fallback response)
@@ -174,11 +291,15 @@ export const checklistService = {
   async getChecklistById(checklistId: string): Promise<ChecklistInstanceDto> {
     try {
       const response = await apiClient.get<ChecklistInstanceDto>(
-        `/api/checklists/${checklistId}`
+        `/api/checklists/${checklistId}`,
+        { offlineCapable: true }
       );
       return response.data;
     } catch (error) {
       console.error(`Failed to fetch checklist ${checklistId}:`, error);
+      // Rethrow connectivity failures untouched so useChecklistDetail can
+      // fall back to the offline cache
+      if (isNetworkError(error)) throw error;
       throw new Error(getErrorMessage(error));
     }
   },
@@ -188,18 +309,20 @@ export const checklistService = {
    * @param eventId Event identifier
    * @param includeArchived Include archived checklists
    * @param showAll If true and user has Manage role, shows all checklists regardless of position
+   * @param changedSince Only checklists created or changed after this time (reconnect catch-up)
    * @returns Array of checklists for event
    */
   async getChecklistsByEvent(
     eventId: string,
     includeArchived = false,
-    showAll?: boolean
+    showAll?: boolean,
+    changedSince?: string
   ): Promise<ChecklistInstanceDto[]> {
     try {
       const response = await apiClient.get<ChecklistInstanceDto[]>(
         `/api/checklists/event/${encodeURIComponent(eventId)}`,
         {
-          params: { includeArchived, showAll },
+          params: { includeArchived, showAll, changedSince },
         }
       );
       return response.data;
@@ -260,6 +383,26 @@ export const checklistService = {
     }
   },
 
+  /**
+   * Create one checklist from several templates (items merged in template order)
+   * @param request Templates, excluded items and event data
+   * @returns Newly created checklist
+   */
+  async createCombinedChecklist(
+    request: CreateCombinedChecklistRequest
+  ): Promise<ChecklistInstanceDto> {
+    try {
+      const response = await apiClient.post<ChecklistInstanceDto>(
+        '/api/checklists/combined',
+        request
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Failed to create combined checklist:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
   /**
    * Update checklist metadata
    * @param checklistId Checklist ID to update
@@ -282,24 +425,70 @@ export const checklistService = {
     }
   },
 
+  /**
+   * Get the checklist's activity feed, newest first
+   * @param checklistId Checklist ID
+   * @param since Only changes made after this time (ISO 8601), for live refresh
+   * @returns Item history and checklist metadata changes, with who and when
+   */
+  async getChecklistActivity(checklistId: string, since?: string): Promise<ChecklistActivity[]> {
+    try {
+      const response = await apiClient.get<ChecklistActivity[]>(
+        `/api/checklists/${checklistId}/activity`,
+        { params: since ? { since } : undefined }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch activity for checklist ${checklistId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get what changed on a checklist since a time (metadata, progress and changed items)
+   * Used to catch up after a real-time reconnect without reloading the checklist
+   * @param checklistId Checklist ID
+   * @param since Time of the last real-time message seen (ISO 8601)
+   */
+  async getChecklistChanges(checklistId: string, since: string): Promise<ChecklistChangesDto> {
+    try {
+      const response = await apiClient.get<ChecklistChangesDto>(
+        `/api/checklists/${checklistId}/changes`,
+        { params: { since } }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch changes for checklist ${checklistId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
   /**
    * Clone an existing checklist
    * @param checklistId Checklist ID to clone
    * @param newName Name for the cloned checklist
    * @param preserveStatus If true, preserves completion status and notes (direct copy); if false, resets (clean copy)
    * @param assignedPositions Optional comma-separated list of positions; if not provided, inherits from original
+   * @param operationalPeriod Optional period for the copy (no id = incident-level); if not provided, inherits from original
    * @returns Newly created cloned checklist
    */
   async cloneChecklist(
     checklistId: string,
     newName: string,
     preserveStatus = false,
-    assignedPositions?: string
+    assignedPositions?: string,
+    operationalPeriod?: { id?: string; name?: string }
   ): Promise<ChecklistInstanceDto> {
     try {
+      const request: CloneChecklistRequest = { newName, preserveStatus, assignedPositions };
+      if (operationalPeriod) {
+        request.setOperationalPeriod = true;
+        request.operationalPeriodId = operationalPeriod.id;
+        request.operationalPeriodName = operationalPeriod.name;
+      }
       const response = await apiClient.post<ChecklistInstanceDto>(
         `/api/checklists/${checklistId}/clone`,
-        { newName, preserveStatus, assignedPositions }
+        request
       );
       return response.data;
     } catch (error) {
@@ -308,6 +497,109 @@ export const checklistService = {
     }
   },
 
+  /**
+   * Copy checklists into another operational period in one call
+   * Checklists that can't be carried forward are returned as skipped, with a reason
+   * @param request Checklists, target period and copy options
+   * @returns Created and skipped checklists
+   */
+  async carryForwardChecklists(request: CarryForwardChecklistsRequest): Promise<CarryForwardResult> {
+    try {
+      const response = await apiClient.post<CarryForwardResult>('/api/checklists/carry-forward', request);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to carry forward checklists:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Checklists that would be generated from auto-create templates for an event
+   * with these categories (shown before the event is created)
+   * @param categoryIds Primary and additional event category GUIDs
+   * @returns Matching auto-create templates
+   */
+  async getAutoCreatePreview(categoryIds: string[]): Promise<AutoCreateChecklistPreview[]> {
+    try {
+      const params = new URLSearchParams();
+      categoryIds.forEach((id) => params.append('categoryIds', id));
+      const response = await apiClient.get<AutoCreateChecklistPreview[]>(
+        `/api/checklists/auto-create/preview?${params.toString()}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error('Failed to load auto-create preview:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Generate checklists for an event from the selected auto-create templates
+   * Templates that can't be used are returned as skipped, with a reason
+   * @param request Event and templates to generate
+   * @returns Created checklists and skipped templates
+   */
+  async autoCreateChecklists(request: AutoCreateChecklistsRequest): Promise<AutoCreateResult> {
+    try {
+      const response = await apiClient.post<AutoCreateResult>('/api/checklists/auto-create', request);
+      return response.data;
+    } catch (error) {
+      console.error('Failed to auto-create checklists:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Submit a checklist for supervisor sign-off (all required items must be done)
+   * @param checklistId Checklist GUID
+   * @returns Updated checklist
+   */
+  async submitForSignOff(checklistId: string): Promise<ChecklistInstanceDto> {
+    try {
+      const response = await apiClient.post<ChecklistInstanceDto>(`/api/checklists/${checklistId}/submit-sign-off`);
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to submit checklist ${checklistId} for sign-off:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Sign off a checklist pending sign-off (Manage role, not the submitter)
+   * @param checklistId Checklist GUID
+   * @param signature Optional drawn signature (PNG data URL)
+   * @returns Updated checklist, now read-only
+   */
+  async signOff(checklistId: string, signature?: string): Promise<ChecklistInstanceDto> {
+    try {
+      const response = await apiClient.post<ChecklistInstanceDto>(`/api/checklists/${checklistId}/sign-off`, {
+        signature,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to sign off checklist ${checklistId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Reopen a pending or signed-off checklist (Manage role)
+   * @param checklistId Checklist GUID
+   * @param reason Why the checklist is reopened (required, recorded in the activity feed)
+   * @returns Updated checklist
+   */
+  async reopenChecklist(checklistId: string, reason: string): Promise<ChecklistInstanceDto> {
+    try {
+      const response = await apiClient.post<ChecklistInstanceDto>(`/api/checklists/${checklistId}/reopen`, {
+        reason,
+      });
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to reopen checklist ${checklistId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
   /**
    * Archive a checklist (soft delete)
    * @param checklistId Checklist ID to archive
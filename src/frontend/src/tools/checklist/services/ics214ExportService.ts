@@ -0,0 +1,123 @@
+/**
+ * ICS-214 Export Service
+ *
+ * Loads the checklists for an ICS-214 export scope and delivers the report:
+ * - CSV and XLSX are downloaded as files
+ * - PDF opens the printable layout in a new window with the print dialog
+ *   (choose "Save as PDF" as the destination)
+ *
+ * Report assembly lives in utils/ics214 (pure functions).
+ */
+
+import { checklistService, type ChecklistInstanceDto } from './checklistService';
+import { openPrintWindow } from './printWindow';
+import {
+  buildIcs214Report,
+  ics214ToCsv,
+  ics214ToRows,
+  renderIcs214Html,
+  type BuildIcs214Options,
+  type Ics214Report,
+  type Ics214Scope,
+} from '../utils/ics214';
+import { createXlsxWorkbook } from '../utils/xlsxWriter';
+
+/**
+ * Output formats
+ */
+export type Ics214ExportFormat = 'pdf' | 'csv' | 'xlsx';
+
+/**
+ * Trigger a browser download for generated content
+ */
+const downloadFile = (content: BlobPart, fileName: string, mimeType: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * File-system friendly base name for an export
+ */
+const toFileBaseName = (report: Ics214Report): string =>
+  `ICS214 ${report.incidentName} ${report.scopeLabel}`
+    .replace(/[^a-zA-Z0-9 _-]+/g, '')
+    .trim()
+    .replace(/\s+/g, '_');
+
+/**
+ * ICS-214 export service interface
+ */
+export const ics214ExportService = {
+  /**
+   * Load the checklists (with items) an export scope draws from
+   * Event-wide scopes include archived checklists so closed-out work is logged.
+   * @param scope Export scope
+   * @param eventId Event the checklists belong to (period and date range scopes)
+   */
+  async loadChecklists(scope: Ics214Scope, eventId?: string): Promise<ChecklistInstanceDto[]> {
+    if (scope.kind === 'checklist') {
+      return [await checklistService.getChecklistById(scope.checklistId)];
+    }
+    if (!eventId) {
+      throw new Error('An event is required to export an operational period or date range');
+    }
+    return this.loadEventChecklists(eventId);
+  },
+
+  /**
+   * Load every checklist in an event, including archived ones
+   * @param eventId Event ID
+   */
+  async loadEventChecklists(eventId: string): Promise<ChecklistInstanceDto[]> {
+    return checklistService.getChecklistsByEvent(eventId, true, true);
+  },
+
+  /**
+   * Load checklists and build the report for a scope
+   * @param scope Export scope
+   * @param eventId Event the checklists belong to
+   * @param options Report header information
+   */
+  async buildReport(
+    scope: Ics214Scope,
+    eventId: string | undefined,
+    options: BuildIcs214Options
+  ): Promise<Ics214Report> {
+    const checklists = await this.loadChecklists(scope, eventId);
+    return buildIcs214Report(checklists, scope, options);
+  },
+
+  /**
+   * Deliver a report in the requested format
+   * @param report Built report
+   * @param format Output format
+   */
+  exportReport(report: Ics214Report, format: Ics214ExportFormat): void {
+    const baseName = toFileBaseName(report);
+
+    switch (format) {
+      case 'csv':
+        // BOM so Excel opens the file as UTF-8
+        downloadFile(`\uFEFF${ics214ToCsv(report)}`, `${baseName}.csv`, 'text/csv;charset=utf-8');
+        break;
+      case 'xlsx': {
+        const workbook = createXlsxWorkbook([{ name: 'Activity Log', rows: ics214ToRows(report) }]);
+        downloadFile(
+          workbook,
+          `${baseName}.xlsx`,
+          'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+        );
+        break;
+      }
+      case 'pdf':
+        openPrintWindow(renderIcs214Html(report), 'Allow pop-ups for this site to print the ICS-214');
+        break;
+    }
+  },
+};
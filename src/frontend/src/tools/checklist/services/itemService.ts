@@ -5,18 +5,42 @@
  * - Getting single item details
  * - Marking items complete/incomplete
  * - Updating status dropdown items
- * - Adding/updating notes
+ * - Capturing values (number, text, date/time, yes/no items)
+ * - Bulk completion and status changes for a selection of items
+ * - Item note threads (add, edit or delete your own notes)
+ * - Item change history (completion toggles, status/value changes, notes)
+ * - Attaching files (photos, signed forms) to items
+ * - Adding, removing and reordering items of a live checklist (Manage role)
+ *
+ * Mutations are offline-capable: connectivity failures are rethrown as the
+ * raw axios error (see isNetworkError) so useItemActions can queue the change
+ * in offlineQueueService instead of rolling it back (a bulk update is queued
+ * as one change per item). Attachment calls are not
+ * offline-capable: files are too large to hold in the offline queue. Adding a
+ * note is offline-capable; editing and deleting notes need a connection, as
+ * do adding, removing and reordering items.
  */
 
-import { apiClient, getErrorMessage } from '../../../core/services/api';
+import { apiClient, getErrorMessage, isNetworkError } from '../../../core/services/api';
 import type { ChecklistItemDto } from './checklistService';
+import type {
+  AddChecklistItemRequest,
+  AddItemNoteRequest,
+  AttachmentLimits,
+  BulkUpdateItemsRequest,
+  ItemAttachment,
+  ItemNote,
+  ItemStatusHistory,
+  ReorderItemsRequest,
+  UpdateItemNoteRequest,
+} from '../types';
 
 /**
  * Request to update item completion
  */
 export interface UpdateItemCompletionRequest {
   isCompleted: boolean;
-  notes?: string;
+  notes?: string; // Added to the item's note thread
 }
 
 /**
@@ -24,14 +48,33 @@ export interface UpdateItemCompletionRequest {
  */
 export interface UpdateItemStatusRequest {
   status: string;
-  notes?: string;
+  notes?: string; // Added to the item's note thread
+}
+
+/**
+ * Request to capture an item value
+ * An empty or null value clears it (the item becomes incomplete)
+ */
+export interface UpdateItemValueRequest {
+  value: string | null;
+  notes?: string; // Added to the item's note thread
 }
 
 /**
- * Request to update item notes
+ * An item a bulk update skipped, and why
  */
-export interface UpdateItemNotesRequest {
-  notes?: string;
+export interface BulkItemFailure {
+  itemId: string;
+  reason: string; // e.g. Position 'Safety Officer' is not authorized to modify this item
+}
+
+/**
+ * Outcome of a bulk update: the rest are saved even when some items are rejected
+ */
+export interface BulkUpdateItemsResult {
+  updatedItems: ChecklistItemDto[];
+  failedItems: BulkItemFailure[];
+  progressPercentage: number;
 }
 
 /**
@@ -50,11 +93,13 @@ export const itemService = {
   ): Promise<ChecklistItemDto> {
     try {
       const response = await apiClient.get<ChecklistItemDto>(
-        `/api/checklists/${checklistId}/items/${itemId}`
+        `/api/checklists/${checklistId}/items/${itemId}`,
+        { offlineCapable: true }
       );
       return response.data;
     } catch (error) {
       console.error(`Failed to fetch item ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
       throw new Error(getErrorMessage(error));
     }
   },
@@ -74,11 +119,38 @@ export const itemService = {
     try {
       const response = await apiClient.patch<ChecklistItemDto>(
         `/api/checklists/${checklistId}/items/${itemId}/completion`,
-        request
+        request,
+        { offlineCapable: true }
       );
       return response.data;
     } catch (error) {
       console.error(`Failed to update item completion ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Mark many items complete/incomplete or set their status in one request
+   * Items the server rejects (position, prerequisites) are listed in failedItems
+   * @param checklistId Checklist GUID
+   * @param request Selected item IDs, action and target status
+   * @returns Updated and rejected items
+   */
+  async bulkUpdateItems(
+    checklistId: string,
+    request: BulkUpdateItemsRequest
+  ): Promise<BulkUpdateItemsResult> {
+    try {
+      const response = await apiClient.post<BulkUpdateItemsResult>(
+        `/api/checklists/${checklistId}/items/bulk`,
+        request,
+        { offlineCapable: true }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to bulk update items of checklist ${checklistId}:`, error);
+      if (isNetworkError(error)) throw error;
       throw new Error(getErrorMessage(error));
     }
   },
@@ -154,35 +226,288 @@ export const itemService = {
     try {
       const response = await apiClient.patch<ChecklistItemDto>(
         `/api/checklists/${checklistId}/items/${itemId}/status`,
-        request
+        request,
+        { offlineCapable: true }
       );
       return response.data;
     } catch (error) {
       console.error(`Failed to update item status ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
       throw new Error(getErrorMessage(error));
     }
   },
 
   /**
-   * Update item notes
+   * Capture item value (number, text, datetime, yesno items)
    * @param checklistId Checklist GUID
    * @param itemId Item GUID
-   * @param request Notes data
+   * @param request Value data (datetime values as ISO 8601)
    * @returns Updated item
    */
-  async updateItemNotes(
+  async updateItemValue(
     checklistId: string,
     itemId: string,
-    request: UpdateItemNotesRequest
+    request: UpdateItemValueRequest
   ): Promise<ChecklistItemDto> {
     try {
       const response = await apiClient.patch<ChecklistItemDto>(
+        `/api/checklists/${checklistId}/items/${itemId}/value`,
+        request,
+        { offlineCapable: true }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to update item value ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get an item's note thread, oldest first
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @returns Notes with author and edit details
+   */
+  async getNotes(checklistId: string, itemId: string): Promise<ItemNote[]> {
+    try {
+      const response = await apiClient.get<ItemNote[]>(
+        `/api/checklists/${checklistId}/items/${itemId}/notes`,
+        { offlineCapable: true }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch notes for item ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Add a note to an item's thread
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param request Note text
+   * @returns The new note
+   */
+  async addNote(
+    checklistId: string,
+    itemId: string,
+    request: AddItemNoteRequest
+  ): Promise<ItemNote> {
+    try {
+      const response = await apiClient.post<ItemNote>(
         `/api/checklists/${checklistId}/items/${itemId}/notes`,
+        request,
+        { offlineCapable: true }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to add note to item ${itemId}:`, error);
+      if (isNetworkError(error)) throw error;
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Edit your own note
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param noteId Note GUID
+   * @param request New note text
+   * @returns The edited note
+   */
+  async updateNote(
+    checklistId: string,
+    itemId: string,
+    noteId: string,
+    request: UpdateItemNoteRequest
+  ): Promise<ItemNote> {
+    try {
+      const response = await apiClient.put<ItemNote>(
+        `/api/checklists/${checklistId}/items/${itemId}/notes/${noteId}`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to edit note ${noteId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Delete your own note
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param noteId Note GUID
+   */
+  async deleteNote(checklistId: string, itemId: string, noteId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/checklists/${checklistId}/items/${itemId}/notes/${noteId}`);
+    } catch (error) {
+      console.error(`Failed to delete note ${noteId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get an item's change history, oldest first
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @returns Completion toggles, status and value changes and notes, with who and when
+   */
+  async getItemHistory(checklistId: string, itemId: string): Promise<ItemStatusHistory[]> {
+    try {
+      const response = await apiClient.get<ItemStatusHistory[]>(
+        `/api/checklists/${checklistId}/items/${itemId}/history`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch history for item ${itemId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get attachment size and type limits (System Settings)
+   * @returns Largest file size and allowed MIME types
+   */
+  async getAttachmentLimits(): Promise<AttachmentLimits> {
+    try {
+      const response = await apiClient.get<AttachmentLimits>('/api/checklists/attachment-limits');
+      return response.data;
+    } catch (error) {
+      console.error('Failed to fetch attachment limits:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get files attached to an item, oldest first
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @returns Item attachments
+   */
+  async getAttachments(checklistId: string, itemId: string): Promise<ItemAttachment[]> {
+    try {
+      const response = await apiClient.get<ItemAttachment[]>(
+        `/api/checklists/${checklistId}/items/${itemId}/attachments`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch attachments for item ${itemId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Attach a file to an item
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param file Photo or document to attach
+   * @returns The new attachment
+   */
+  async uploadAttachment(checklistId: string, itemId: string, file: File): Promise<ItemAttachment> {
+    try {
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await apiClient.post<ItemAttachment>(
+        `/api/checklists/${checklistId}/items/${itemId}/attachments`,
+        formData,
+        { headers: { 'Content-Type': 'multipart/form-data' } }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to upload attachment to item ${itemId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Download an attachment's file
+   * Fetched through apiClient (not an <img src>) so the user headers are sent.
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param attachmentId Attachment GUID
+   * @returns File content
+   */
+  async getAttachmentBlob(checklistId: string, itemId: string, attachmentId: string): Promise<Blob> {
+    try {
+      const response = await apiClient.get<Blob>(
+        `/api/checklists/${checklistId}/items/${itemId}/attachments/${attachmentId}/content`,
+        { responseType: 'blob' }
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to download attachment ${attachmentId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Delete an attachment (uploader or Manage users only)
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   * @param attachmentId Attachment GUID
+   */
+  async deleteAttachment(checklistId: string, itemId: string, attachmentId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/checklists/${checklistId}/items/${itemId}/attachments/${attachmentId}`);
+    } catch (error) {
+      console.error(`Failed to delete attachment ${attachmentId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Add an item to a live checklist (Manage role)
+   * @param checklistId Checklist GUID
+   * @param request Item data and where to place it
+   * @returns Created item
+   */
+  async addItem(checklistId: string, request: AddChecklistItemRequest): Promise<ChecklistItemDto> {
+    try {
+      const response = await apiClient.post<ChecklistItemDto>(
+        `/api/checklists/${checklistId}/items`,
+        request
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to add item to checklist ${checklistId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Remove an item from a live checklist (Manage role)
+   * The item stays in the checklist's history
+   * @param checklistId Checklist GUID
+   * @param itemId Item GUID
+   */
+  async removeItem(checklistId: string, itemId: string): Promise<void> {
+    try {
+      await apiClient.delete(`/api/checklists/${checklistId}/items/${itemId}`);
+    } catch (error) {
+      console.error(`Failed to remove item ${itemId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Reorder the items of a live checklist (Manage role)
+   * @param checklistId Checklist GUID
+   * @param request Every item ID, in the new order
+   * @returns Items in their new order
+   */
+  async reorderItems(checklistId: string, request: ReorderItemsRequest): Promise<ChecklistItemDto[]> {
+    try {
+      const response = await apiClient.put<ChecklistItemDto[]>(
+        `/api/checklists/${checklistId}/items/reorder`,
         request
       );
       return response.data;
     } catch (error) {
-      console.error(`Failed to update item notes ${itemId}:`, error);
+      console.error(`Failed to reorder items of checklist ${checklistId}:`, error);
       throw new Error(getErrorMessage(error));
     }
   },
@@ -0,0 +1,317 @@
+/**
+ * Offline Queue Service Tests
+ *
+ * Tests queueing, overlay, ordered replay and conflict handling.
+ * IndexedDB and the API are replaced with in-memory fakes.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ChecklistInstanceDto, ChecklistItemDto } from './checklistService';
+import type { QueuedItemMutation } from './offlineStore';
+
+const store = vi.hoisted(() => ({
+  checklists: new Map<string, unknown>(),
+  mutations: new Map<number, unknown>(),
+  nextSequence: 1,
+}));
+
+vi.mock('./offlineStore', () => ({
+  offlineStore: {
+    cacheChecklist: vi.fn(async (checklist: { id: string }) => {
+      store.checklists.set(checklist.id, { id: checklist.id, checklist, cachedAt: '2025-01-01T00:00:00Z' });
+    }),
+    getCachedChecklist: vi.fn(async (id: string) => store.checklists.get(id) ?? null),
+    addMutation: vi.fn(async (mutation: object) => {
+      const sequence = store.nextSequence++;
+      store.mutations.set(sequence, { ...mutation, sequence });
+      return sequence;
+    }),
+    getMutations: vi.fn(async () =>
+      [...store.mutations.entries()].sort(([a], [b]) => a - b).map(([, m]) => m)
+    ),
+    updateMutation: vi.fn(async (mutation: { sequence: number }) => {
+      store.mutations.set(mutation.sequence, mutation);
+    }),
+    deleteMutation: vi.fn(async (sequence: number) => {
+      store.mutations.delete(sequence);
+    }),
+  },
+}));
+
+vi.mock('./itemService', () => ({
+  itemService: {
+    getItemById: vi.fn(),
+    updateItemCompletion: vi.fn(),
+    updateItemStatus: vi.fn(),
+    updateItemValue: vi.fn(),
+    addNote: vi.fn(),
+  },
+}));
+
+vi.mock('../../../core/services/api', () => ({
+  getCurrentUser: () => ({ email: 'ops@cobra.mil', fullName: 'Ops Chief', position: 'Operations Section Chief' }),
+  getErrorMessage: (error: unknown) => (error instanceof Error ? error.message : 'error'),
+  isNetworkError: (error: unknown) => error instanceof Error && error.message === 'Network Error',
+}));
+
+import { offlineQueueService } from './offlineQueueService';
+import { itemService } from './itemService';
+
+const createItem = (overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id: 'item-1',
+  checklistInstanceId: 'checklist-1',
+  templateItemId: 'template-item-1',
+  itemText: 'Establish command post',
+  itemType: 'checkbox',
+  displayOrder: 1,
+  isRequired: true,
+  isCompleted: false,
+  createdAt: '2025-01-01T00:00:00Z',
+  lastModifiedAt: '2025-01-01T10:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (items: ChecklistItemDto[]): ChecklistInstanceDto => ({
+  id: 'checklist-1',
+  name: 'IC Checklist',
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Flood Response',
+  progressPercentage: 0,
+  totalItems: items.length,
+  completedItems: 0,
+  requiredItems: items.length,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'ops@cobra.mil',
+  createdByPosition: 'Operations Section Chief',
+  createdAt: '2025-01-01T00:00:00Z',
+  items,
+});
+
+describe('offlineQueueService', () => {
+  beforeEach(async () => {
+    store.checklists.clear();
+    store.mutations.clear();
+    store.nextSequence = 1;
+    vi.clearAllMocks();
+    await offlineQueueService.cacheChecklist(
+      createChecklist([createItem(), createItem({ id: 'item-2', itemText: 'Brief staff' })])
+    );
+  });
+
+  it('refuses to queue changes for checklists not cached on this device', async () => {
+    await expect(
+      offlineQueueService.queueItemMutation('unknown', 'item-1', {
+        kind: 'completion',
+        request: { isCompleted: true },
+      })
+    ).rejects.toThrow('not available offline');
+  });
+
+  it('returns the item with the queued change applied', async () => {
+    const item = await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+
+    expect(item.isCompleted).toBe(true);
+    expect(item.completedBy).toBe('ops@cobra.mil');
+  });
+
+  it('completes a value item when a value is captured and un-completes it when cleared', async () => {
+    const captured = await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'value',
+      request: { value: ' 42 ' },
+    });
+    const cleared = await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'value',
+      request: { value: null },
+    });
+
+    expect(captured.value).toBe('42');
+    expect(captured.isCompleted).toBe(true);
+    expect(captured.completedBy).toBe('ops@cobra.mil');
+    expect(cleared.value).toBeUndefined();
+    expect(cleared.isCompleted).toBe(false);
+    expect(cleared.completedBy).toBeUndefined();
+  });
+
+  it('appends queued notes to the thread as the current user', async () => {
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true, notes: 'Set up at fire station 3' },
+    });
+    const item = await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'note',
+      request: { noteText: ' Generator running ' },
+    });
+
+    expect(item.notes?.map((note) => note.noteText)).toEqual(['Set up at fire station 3', 'Generator running']);
+    expect(item.notes?.[1]).toMatchObject({ createdBy: 'ops@cobra.mil', isEdited: false });
+    expect(new Set(item.notes?.map((note) => note.id)).size).toBe(2);
+  });
+
+  it('overlays queued changes on the cached checklist and recalculates progress', async () => {
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+
+    const cached = await offlineQueueService.getCachedChecklist('checklist-1');
+
+    expect(cached?.checklist.completedItems).toBe(1);
+    expect(cached?.checklist.progressPercentage).toBe(50);
+  });
+
+  it('replays changes in the order they were made', async () => {
+    vi.mocked(itemService.getItemById).mockImplementation(async (_checklistId, itemId) =>
+      createItem({ id: itemId })
+    );
+    vi.mocked(itemService.updateItemCompletion).mockResolvedValue(
+      createItem({ lastModifiedAt: '2025-01-01T11:00:00Z' })
+    );
+    vi.mocked(itemService.addNote).mockResolvedValue({
+      id: 'note-1',
+      checklistItemId: 'item-2',
+      noteText: 'Staff briefed at 0800',
+      createdBy: 'ops@cobra.mil',
+      createdByPosition: 'Operations Section Chief',
+      createdAt: '2025-01-01T11:00:00Z',
+      isEdited: false,
+    });
+
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-2', {
+      kind: 'note',
+      request: { noteText: 'Staff briefed at 0800' },
+    });
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+
+    const summary = await offlineQueueService.replayQueue();
+
+    expect(summary.synced).toBe(2);
+    expect(vi.mocked(itemService.addNote).mock.invocationCallOrder[0]).toBeLessThan(
+      vi.mocked(itemService.updateItemCompletion).mock.invocationCallOrder[0]
+    );
+    expect(await offlineQueueService.getQueuedMutations()).toHaveLength(0);
+  });
+
+  it('holds a change as a conflict when the server item changed since it was cached', async () => {
+    const serverItem = createItem({
+      isCompleted: true,
+      lastModifiedBy: 'planning@cobra.mil',
+      lastModifiedAt: '2025-01-01T10:30:00Z',
+    });
+    vi.mocked(itemService.getItemById).mockResolvedValue(serverItem);
+
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: false },
+    });
+
+    const summary = await offlineQueueService.replayQueue();
+    const queued = await offlineQueueService.getQueuedMutations('checklist-1');
+
+    expect(summary.conflicts).toBe(1);
+    expect(summary.remaining).toBe(1);
+    expect(itemService.updateItemCompletion).not.toHaveBeenCalled();
+    expect(queued[0].state).toBe('conflict');
+    expect(queued[0].serverItem).toEqual(serverItem);
+  });
+
+  it('sends queued notes even when the item has a conflict', async () => {
+    vi.mocked(itemService.getItemById).mockResolvedValue(
+      createItem({ lastModifiedAt: '2025-01-01T10:30:00Z' })
+    );
+
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'note',
+      request: { noteText: 'Set up at fire station 3' },
+    });
+
+    const summary = await offlineQueueService.replayQueue();
+
+    expect(summary.conflicts).toBe(1);
+    expect(summary.synced).toBe(1);
+    expect(itemService.addNote).toHaveBeenCalledWith('checklist-1', 'item-1', {
+      noteText: 'Set up at fire station 3',
+    });
+  });
+
+  it('keeps the queue intact when still offline', async () => {
+    vi.mocked(itemService.getItemById).mockRejectedValue(new Error('Network Error'));
+
+    await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+      kind: 'completion',
+      request: { isCompleted: true },
+    });
+
+    const summary = await offlineQueueService.replayQueue();
+
+    expect(summary.remaining).toBe(1);
+    expect(await offlineQueueService.getQueuedMutations()).toHaveLength(1);
+  });
+
+  describe('resolveConflict', () => {
+    const createConflict = async (): Promise<QueuedItemMutation[]> => {
+      vi.mocked(itemService.getItemById).mockResolvedValue(
+        createItem({ lastModifiedAt: '2025-01-01T10:30:00Z' })
+      );
+      await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+        kind: 'completion',
+        request: { isCompleted: true },
+      });
+      await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+        kind: 'value',
+        request: { value: '42' },
+      });
+      await offlineQueueService.replayQueue();
+      return offlineQueueService.getQueuedMutations();
+    };
+
+    it('keep-mine re-bases the change on the server version', async () => {
+      const [conflict] = await createConflict();
+
+      await offlineQueueService.resolveConflict(conflict.sequence!, 'keep-mine');
+      const [resolved] = await offlineQueueService.getQueuedMutations();
+
+      expect(resolved.state).toBe('pending');
+      expect(resolved.baseLastModifiedAt).toBe('2025-01-01T10:30:00Z');
+      expect(resolved.serverItem).toBeUndefined();
+    });
+
+    it('use-server discards the change and later changes to the same item', async () => {
+      const [conflict] = await createConflict();
+
+      await offlineQueueService.resolveConflict(conflict.sequence!, 'use-server');
+
+      expect(await offlineQueueService.getQueuedMutations()).toHaveLength(0);
+    });
+
+    it('use-server keeps queued notes for the item', async () => {
+      const [conflict] = await createConflict();
+      vi.mocked(itemService.addNote).mockRejectedValue(new Error('Network Error'));
+      await offlineQueueService.queueItemMutation('checklist-1', 'item-1', {
+        kind: 'note',
+        request: { noteText: 'Done' },
+      });
+
+      await offlineQueueService.resolveConflict(conflict.sequence!, 'use-server');
+      const queued = await offlineQueueService.getQueuedMutations();
+
+      expect(queued).toHaveLength(1);
+      expect(queued[0].kind).toBe('note');
+    });
+  });
+});
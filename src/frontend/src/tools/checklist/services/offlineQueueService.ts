@@ -0,0 +1,360 @@
+/**
+ * Offline Queue Service - Queue and replay item mutations
+ *
+ * Lets positions keep working a checklist when the connection drops:
+ * - Item completion/status/value changes and new notes are persisted to IndexedDB
+ * - Queued changes are overlaid on the cached checklist for display
+ * - On reconnect, changes replay in the order they were made
+ * - If the server copy of an item changed since it was cached (someone else
+ *   updated it), the change is held as a conflict for the user to resolve
+ *   instead of silently overwriting their work. Notes are append-only, so
+ *   queued notes never conflict.
+ */
+
+import { getCurrentUser, getErrorMessage, isNetworkError } from '../../../core/services/api';
+import { itemService } from './itemService';
+import { offlineStore, type ItemMutation, type QueuedItemMutation } from './offlineStore';
+import type { ChecklistInstanceDto, ChecklistItemDto } from './checklistService';
+import type { ItemNote } from '../types';
+
+/**
+ * Conflict resolution choices
+ * - keep-mine: re-apply the queued change on top of the server version
+ * - use-server: discard the queued change(s) for the item
+ */
+export type ConflictResolution = 'keep-mine' | 'use-server';
+
+/**
+ * Outcome of a replay pass
+ */
+export interface ReplaySummary {
+  synced: number;
+  conflicts: number;
+  remaining: number;
+  failed: { mutation: QueuedItemMutation; message: string }[];
+}
+
+/**
+ * Compare server timestamps independent of serialization format
+ */
+const sameTimestamp = (a?: string, b?: string): boolean => {
+  if (!a || !b) return !a && !b;
+  return new Date(a).getTime() === new Date(b).getTime();
+};
+
+/**
+ * Append a note the way the server would, with a provisional id until it syncs
+ */
+const appendNote = (item: ChecklistItemDto, noteText: string | undefined): ItemNote[] | undefined => {
+  const text = noteText?.trim();
+  if (!text) return item.notes;
+
+  const user = getCurrentUser();
+  const notes = item.notes ?? [];
+  return [
+    ...notes,
+    {
+      id: `pending-${item.id}-${notes.length}`,
+      checklistItemId: item.id,
+      noteText: text,
+      createdBy: user.email,
+      createdByPosition: user.position,
+      createdAt: new Date().toISOString(),
+      isEdited: false,
+    },
+  ];
+};
+
+/**
+ * Apply a mutation to an item the same way the server would
+ */
+const applyMutationToItem = (
+  item: ChecklistItemDto,
+  mutation: ItemMutation
+): ChecklistItemDto => {
+  const user = getCurrentUser();
+  const now = new Date().toISOString();
+
+  switch (mutation.kind) {
+    case 'completion':
+      return {
+        ...item,
+        isCompleted: mutation.request.isCompleted,
+        completedBy: mutation.request.isCompleted ? user.email : undefined,
+        completedByPosition: mutation.request.isCompleted ? user.position : undefined,
+        completedAt: mutation.request.isCompleted ? now : undefined,
+        notes: appendNote(item, mutation.request.notes),
+      };
+    case 'status':
+      return {
+        ...item,
+        currentStatus: mutation.request.status,
+        isCompleted: mutation.request.status.toLowerCase() === 'complete',
+        notes: appendNote(item, mutation.request.notes),
+      };
+    case 'value': {
+      const value = mutation.request.value?.trim() || undefined;
+      const isCompleted = value !== undefined;
+      const notes = appendNote(item, mutation.request.notes);
+
+      // Correcting a captured value keeps the original completion
+      if (isCompleted === (item.isCompleted === true)) {
+        return { ...item, value, notes };
+      }
+      return {
+        ...item,
+        value,
+        isCompleted,
+        completedBy: isCompleted ? user.email : undefined,
+        completedByPosition: isCompleted ? user.position : undefined,
+        completedAt: isCompleted ? now : undefined,
+        notes,
+      };
+    }
+    case 'note':
+      return {
+        ...item,
+        notes: appendNote(item, mutation.request.noteText),
+      };
+  }
+};
+
+/**
+ * Recalculate checklist progress after local changes
+ */
+const recalculateProgress = (
+  checklist: ChecklistInstanceDto,
+  items: ChecklistItemDto[]
+): ChecklistInstanceDto => {
+  const totalItems = items.length;
+  const completedItems = items.filter((item) => item.isCompleted === true).length;
+  const requiredItemsCompleted = items.filter(
+    (item) => item.isRequired && item.isCompleted === true
+  ).length;
+  const progressPercentage = totalItems > 0 ? (completedItems / totalItems) * 100 : 0;
+
+  return {
+    ...checklist,
+    items,
+    totalItems,
+    completedItems,
+    requiredItemsCompleted,
+    progressPercentage: Number(progressPercentage.toFixed(2)),
+  };
+};
+
+/**
+ * Send a queued item update to the server (notes are sent by replayQueue)
+ */
+const sendMutation = (
+  mutation: Exclude<QueuedItemMutation, { kind: 'note' }>
+): Promise<ChecklistItemDto> => {
+  switch (mutation.kind) {
+    case 'completion':
+      return itemService.updateItemCompletion(mutation.checklistId, mutation.itemId, mutation.request);
+    case 'status':
+      return itemService.updateItemStatus(mutation.checklistId, mutation.itemId, mutation.request);
+    case 'value':
+      return itemService.updateItemValue(mutation.checklistId, mutation.itemId, mutation.request);
+  }
+};
+
+/**
+ * Replay guard - one pass at a time even if several pages trigger it
+ */
+let replayInProgress: Promise<ReplaySummary> | null = null;
+
+/**
+ * Offline queue service interface
+ */
+export const offlineQueueService = {
+  /**
+   * Queue an item mutation made while offline
+   * Requires the checklist to have been cached (opened online at least once),
+   * since conflict detection needs the item's server lastModifiedAt.
+   * @returns Item with all queued changes applied (for optimistic display)
+   */
+  async queueItemMutation(
+    checklistId: string,
+    itemId: string,
+    mutation: ItemMutation
+  ): Promise<ChecklistItemDto> {
+    const cached = await offlineStore.getCachedChecklist(checklistId);
+    const cachedItem = cached?.checklist.items.find((item) => item.id === itemId);
+    if (!cachedItem) {
+      throw new Error('This checklist is not available offline yet. Reconnect to save changes.');
+    }
+
+    await offlineStore.addMutation({
+      ...mutation,
+      checklistId,
+      itemId,
+      itemText: cachedItem.itemText,
+      baseLastModifiedAt: cachedItem.lastModifiedAt,
+      queuedAt: new Date().toISOString(),
+      state: 'pending',
+    });
+
+    const queued = await this.getQueuedMutations(checklistId);
+    return queued
+      .filter((queuedMutation) => queuedMutation.itemId === itemId)
+      .reduce(applyMutationToItem, cachedItem);
+  },
+
+  /**
+   * Get queued mutations (pending and conflicted), optionally for one checklist
+   */
+  async getQueuedMutations(checklistId?: string): Promise<QueuedItemMutation[]> {
+    const mutations = await offlineStore.getMutations();
+    return checklistId
+      ? mutations.filter((mutation) => mutation.checklistId === checklistId)
+      : mutations;
+  },
+
+  /**
+   * Cache the server copy of a checklist and return it with queued changes applied
+   */
+  async cacheChecklist(checklist: ChecklistInstanceDto): Promise<ChecklistInstanceDto> {
+    await offlineStore.cacheChecklist(checklist);
+    return this.applyQueuedMutations(checklist);
+  },
+
+  /**
+   * Get the cached checklist with queued changes applied
+   * @returns Checklist and when it was cached, or null if not available offline
+   */
+  async getCachedChecklist(
+    checklistId: string
+  ): Promise<{ checklist: ChecklistInstanceDto; cachedAt: string } | null> {
+    const cached = await offlineStore.getCachedChecklist(checklistId);
+    if (!cached) return null;
+
+    return {
+      checklist: await this.applyQueuedMutations(cached.checklist),
+      cachedAt: cached.cachedAt,
+    };
+  },
+
+  /**
+   * Overlay queued changes onto a checklist so the UI reflects offline work
+   */
+  async applyQueuedMutations(checklist: ChecklistInstanceDto): Promise<ChecklistInstanceDto> {
+    const queued = await this.getQueuedMutations(checklist.id);
+    if (queued.length === 0) return checklist;
+
+    const items = checklist.items.map((item) =>
+      queued
+        .filter((mutation) => mutation.itemId === item.id)
+        .reduce(applyMutationToItem, item)
+    );
+    return recalculateProgress(checklist, items);
+  },
+
+  /**
+   * Replay queued mutations in order
+   * - Stops at the first connectivity failure (still offline)
+   * - Holds a mutation as a conflict if the server item changed since it was
+   *   cached; later mutations for that item wait behind the conflict
+   * - Drops mutations the server rejects (permissions, deleted item) and
+   *   reports them in the summary
+   */
+  async replayQueue(): Promise<ReplaySummary> {
+    if (replayInProgress) return replayInProgress;
+
+    replayInProgress = (async () => {
+      const queue = await offlineStore.getMutations();
+      const summary: ReplaySummary = { synced: 0, conflicts: 0, remaining: 0, failed: [] };
+
+      // lastModifiedAt the server returned for our own replayed changes
+      const confirmedVersions = new Map<string, string | undefined>();
+      const blockedItems = new Set<string>();
+
+      for (let index = 0; index < queue.length; index++) {
+        const mutation = queue[index];
+
+        if (mutation.state === 'conflict') {
+          blockedItems.add(mutation.itemId);
+          summary.conflicts++;
+          continue;
+        }
+        // Notes are append-only: there is nothing to conflict with, so they
+        // never wait behind a conflict
+        if (mutation.kind !== 'note' && blockedItems.has(mutation.itemId)) {
+          summary.remaining++;
+          continue;
+        }
+
+        try {
+          if (mutation.kind === 'note') {
+            await itemService.addNote(mutation.checklistId, mutation.itemId, mutation.request);
+          } else {
+            const serverItem = await itemService.getItemById(mutation.checklistId, mutation.itemId);
+            const expectedVersion = confirmedVersions.has(mutation.itemId)
+              ? confirmedVersions.get(mutation.itemId)
+              : mutation.baseLastModifiedAt;
+
+            if (!sameTimestamp(serverItem.lastModifiedAt, expectedVersion)) {
+              await offlineStore.updateMutation({ ...mutation, state: 'conflict', serverItem });
+              blockedItems.add(mutation.itemId);
+              summary.conflicts++;
+              continue;
+            }
+
+            const updated = await sendMutation(mutation);
+            confirmedVersions.set(mutation.itemId, updated.lastModifiedAt);
+          }
+          await offlineStore.deleteMutation(mutation.sequence!);
+          summary.synced++;
+        } catch (error) {
+          if (isNetworkError(error)) {
+            // Still offline - keep this and everything after it for the next pass
+            summary.remaining += queue.length - index;
+            break;
+          }
+          console.error(`Offline change for item ${mutation.itemId} was rejected:`, error);
+          await offlineStore.deleteMutation(mutation.sequence!);
+          summary.failed.push({ mutation, message: getErrorMessage(error) });
+        }
+      }
+
+      return summary;
+    })();
+
+    try {
+      return await replayInProgress;
+    } finally {
+      replayInProgress = null;
+    }
+  },
+
+  /**
+   * Resolve a conflicted mutation
+   * keep-mine re-bases the change on the server version so the next replay
+   * sends it; use-server discards it and any later queued changes for the
+   * same item (they were made on top of the discarded change). Queued notes
+   * are kept.
+   */
+  async resolveConflict(sequence: number, resolution: ConflictResolution): Promise<void> {
+    const queue = await offlineStore.getMutations();
+    const conflict = queue.find((mutation) => mutation.sequence === sequence);
+    if (!conflict || conflict.state !== 'conflict') return;
+
+    if (resolution === 'keep-mine') {
+      await offlineStore.updateMutation({
+        ...conflict,
+        state: 'pending',
+        baseLastModifiedAt: conflict.serverItem?.lastModifiedAt,
+        serverItem: undefined,
+      });
+      return;
+    }
+
+    const discarded = queue.filter(
+      (mutation) =>
+        mutation.itemId === conflict.itemId && mutation.sequence! >= sequence && mutation.kind !== 'note'
+    );
+    for (const mutation of discarded) {
+      await offlineStore.deleteMutation(mutation.sequence!);
+    }
+  },
+};
@@ -0,0 +1,186 @@
+/**
+ * Offline Store - IndexedDB persistence for offline checklist execution
+ *
+ * Two object stores:
+ * - checklists: last server copy of each ChecklistInstanceDto opened on this
+ *   device, so ChecklistDetailPage can render without a connection
+ * - itemMutations: queued item mutations, keyed by an auto-increment sequence
+ *   so replay happens in the order the user made the changes
+ *
+ * Cached checklists are always the server's version. Queued mutations are
+ * overlaid at read time by offlineQueueService, which keeps the original
+ * lastModifiedAt values available for conflict detection.
+ */
+
+import type { ChecklistInstanceDto, ChecklistItemDto } from './checklistService';
+import type {
+  UpdateItemCompletionRequest,
+  UpdateItemStatusRequest,
+  UpdateItemValueRequest,
+} from './itemService';
+import type { AddItemNoteRequest } from '../types';
+
+const DB_NAME = 'cobra-checklist-offline';
+const DB_VERSION = 1;
+const CHECKLIST_STORE = 'checklists';
+const MUTATION_STORE = 'itemMutations';
+
+/**
+ * Item mutation payloads (mirror the itemService requests)
+ */
+export type ItemMutation =
+  | { kind: 'completion'; request: UpdateItemCompletionRequest }
+  | { kind: 'status'; request: UpdateItemStatusRequest }
+  | { kind: 'value'; request: UpdateItemValueRequest }
+  | { kind: 'note'; request: AddItemNoteRequest };
+
+/**
+ * Queued item mutation awaiting replay
+ * - pending: will be sent on the next replay
+ * - conflict: server item changed since it was cached; needs user decision
+ */
+export type QueuedItemMutation = ItemMutation & {
+  sequence?: number;
+  checklistId: string;
+  itemId: string;
+  itemText: string;
+  /** Server lastModifiedAt of the item when the change was made */
+  baseLastModifiedAt?: string;
+  queuedAt: string;
+  state: 'pending' | 'conflict';
+  /** Server copy of the item captured when a conflict was detected */
+  serverItem?: ChecklistItemDto;
+};
+
+/**
+ * Cached checklist record
+ */
+export interface CachedChecklist {
+  id: string;
+  checklist: ChecklistInstanceDto;
+  cachedAt: string;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade) the offline database once per page load
+ */
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('Offline storage is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CHECKLIST_STORE)) {
+        db.createObjectStore(CHECKLIST_STORE, { keyPath: 'id' });
+      }
+      if (!db.objectStoreNames.contains(MUTATION_STORE)) {
+        const store = db.createObjectStore(MUTATION_STORE, {
+          keyPath: 'sequence',
+          autoIncrement: true,
+        });
+        store.createIndex('checklistId', 'checklistId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later retry if opening failed (e.g. private browsing quota)
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+/**
+ * Run a single request in its own transaction and resolve once committed
+ */
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+/**
+ * Offline store interface
+ */
+export const offlineStore = {
+  /**
+   * Save the server copy of a checklist for offline use
+   */
+  async cacheChecklist(checklist: ChecklistInstanceDto): Promise<void> {
+    const record: CachedChecklist = {
+      id: checklist.id,
+      checklist,
+      cachedAt: new Date().toISOString(),
+    };
+    await runRequest(CHECKLIST_STORE, 'readwrite', (store) => store.put(record));
+  },
+
+  /**
+   * Get cached checklist, or null if never opened on this device
+   */
+  async getCachedChecklist(checklistId: string): Promise<CachedChecklist | null> {
+    const record = await runRequest<CachedChecklist | undefined>(
+      CHECKLIST_STORE,
+      'readonly',
+      (store) => store.get(checklistId)
+    );
+    return record ?? null;
+  },
+
+  /**
+   * Append a mutation to the queue
+   * @returns Assigned sequence number
+   */
+  async addMutation(mutation: QueuedItemMutation): Promise<number> {
+    const key = await runRequest(MUTATION_STORE, 'readwrite', (store) =>
+      store.add(mutation)
+    );
+    return key as number;
+  },
+
+  /**
+   * Get all queued mutations in sequence (replay) order
+   */
+  async getMutations(): Promise<QueuedItemMutation[]> {
+    return runRequest<QueuedItemMutation[]>(MUTATION_STORE, 'readonly', (store) =>
+      store.getAll()
+    );
+  },
+
+  /**
+   * Replace a queued mutation (e.g. to record a conflict)
+   */
+  async updateMutation(mutation: QueuedItemMutation): Promise<void> {
+    await runRequest(MUTATION_STORE, 'readwrite', (store) => store.put(mutation));
+  },
+
+  /**
+   * Remove a mutation once replayed or discarded
+   */
+  async deleteMutation(sequence: number): Promise<void> {
+    await runRequest(MUTATION_STORE, 'readwrite', (store) => store.delete(sequence));
+  },
+};
@@ -0,0 +1,24 @@
+/**
+ * Print Window
+ *
+ * Opens a printable HTML document in a new window with the print dialog, for
+ * the ICS-214 PDF export and checklist print (choose "Save as PDF" as the
+ * destination for a PDF).
+ */
+
+/**
+ * Open the HTML in a new window and show the print dialog
+ * @param html Complete printable document
+ * @param popupBlockedMessage Error message when the browser blocks the window
+ */
+export const openPrintWindow = (html: string, popupBlockedMessage: string): void => {
+  const printWindow = window.open('', '_blank');
+  if (!printWindow) {
+    throw new Error(popupBlockedMessage);
+  }
+  printWindow.document.open();
+  printWindow.document.write(html);
+  printWindow.document.close();
+  printWindow.focus();
+  printWindow.print();
+};
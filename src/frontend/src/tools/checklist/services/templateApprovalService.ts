@@ -0,0 +1,104 @@
+/**
+ * Template Approval Service - API calls for the template approval workflow
+ *
+ * Templates move through Draft -> PendingApproval -> Approved or Rejected.
+ * Only Approved templates can be used to create checklists. This service:
+ * - Submits a Draft or Rejected template for approval
+ * - Approves or rejects a pending template (Manage role, not the submitter)
+ * - Lists the approver queue
+ * - Fetches a template's approval history
+ */
+
+import { apiClient, getErrorMessage } from '../../../core/services/api';
+import type { Template, TemplateApprovalEvent } from '../../../types';
+import { normalizeTemplate } from '../utils/templateType';
+
+/**
+ * Template approval service interface
+ */
+export const templateApprovalService = {
+  /**
+   * Get templates waiting for approval (Manage role)
+   * @returns Pending templates, oldest submission first
+   */
+  async getPendingTemplates(): Promise<Template[]> {
+    try {
+      const response = await apiClient.get<Template[]>('/api/templates/pending-approval');
+      return response.data.map(normalizeTemplate);
+    } catch (error) {
+      console.error('Failed to fetch templates pending approval:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Submit a template for approval
+   * @param templateId Template GUID
+   * @param comment Optional note to the approver
+   * @returns Updated template
+   */
+  async submitForApproval(templateId: string, comment?: string): Promise<Template> {
+    try {
+      const response = await apiClient.post<Template>(`/api/templates/${templateId}/submit`, {
+        comment,
+      });
+      return normalizeTemplate(response.data);
+    } catch (error) {
+      console.error(`Failed to submit template ${templateId} for approval:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Approve a pending template (Manage role)
+   * @param templateId Template GUID
+   * @param comment Optional approval comment
+   * @returns Updated template
+   */
+  async approve(templateId: string, comment?: string): Promise<Template> {
+    try {
+      const response = await apiClient.post<Template>(`/api/templates/${templateId}/approve`, {
+        comment,
+      });
+      return normalizeTemplate(response.data);
+    } catch (error) {
+      console.error(`Failed to approve template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Reject a pending template (Manage role)
+   * @param templateId Template GUID
+   * @param comment Reason for rejection (required)
+   * @returns Updated template
+   */
+  async reject(templateId: string, comment: string): Promise<Template> {
+    try {
+      const response = await apiClient.post<Template>(`/api/templates/${templateId}/reject`, {
+        comment,
+      });
+      return normalizeTemplate(response.data);
+    } catch (error) {
+      console.error(`Failed to reject template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get approval history for a template
+   * @param templateId Template GUID
+   * @returns History entries, newest first
+   */
+  async getApprovalHistory(templateId: string): Promise<TemplateApprovalEvent[]> {
+    try {
+      const response = await apiClient.get<TemplateApprovalEvent[]>(
+        `/api/templates/${templateId}/approval-history`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch approval history for template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+};
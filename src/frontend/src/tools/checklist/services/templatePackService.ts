@@ -0,0 +1,161 @@
+/**
+ * Template Pack Service
+ *
+ * Exports templates to a JSON template pack file and imports packs back:
+ * - Export fetches each template with its items plus the item library
+ * - Import creates missing library entries first (duplicates are reused),
+ *   then creates, renames or overwrites templates one at a time
+ *
+ * A failed template does not stop the rest of the import; failures are
+ * reported in the result. Imported and overwritten templates start as Draft
+ * and need approval before use.
+ *
+ * Pack format, validation and collision planning live in utils/templatePack.
+ */
+
+import { getErrorMessage } from '../../../core/services/api';
+import { templateService } from './templateService';
+import { itemLibraryService } from './itemLibraryService';
+import {
+  buildTemplatePack,
+  toTemplateRequest,
+  type TemplateImportDecision,
+  type TemplatePack,
+  type TemplatePackImportPlan,
+} from '../utils/templatePack';
+
+/**
+ * Outcome of importing a pack
+ */
+export interface TemplatePackImportResult {
+  created: string[];
+  overwritten: string[];
+  skipped: string[];
+  failed: { name: string; error: string }[];
+  libraryCreated: number;
+  libraryReused: number;
+  libraryFailed: number;
+}
+
+/**
+ * File name for a pack download
+ */
+const toFileName = (pack: TemplatePack): string => {
+  const base =
+    pack.templates.length === 1
+      ? pack.templates[0].name.replace(/[^a-zA-Z0-9 _-]+/g, '').trim().replace(/\s+/g, '_')
+      : `${pack.templates.length}_templates`;
+  return `template-pack_${base || 'templates'}_${pack.exportedAt.slice(0, 10)}.json`;
+};
+
+/**
+ * Template pack service interface
+ */
+export const templatePackService = {
+  /**
+   * Build a pack for the given templates
+   * @param templateIds Templates to export
+   * @param exportedBy User creating the pack
+   */
+  async buildPack(templateIds: string[], exportedBy: string): Promise<TemplatePack> {
+    try {
+      const templates = await Promise.all(templateIds.map((id) => templateService.getTemplateById(id)));
+      const libraryEntries = await itemLibraryService.getLibraryItems();
+      return buildTemplatePack(templates, libraryEntries, exportedBy);
+    } catch (error) {
+      console.error('Failed to build template pack:', error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Download a pack as a JSON file
+   * @param pack Pack to download
+   */
+  downloadPack(pack: TemplatePack): void {
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(pack, null, 2)], { type: 'application/json' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = toFileName(pack);
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  },
+
+  /**
+   * Import a pack according to the user's decisions
+   * @param plan Import plan (from planTemplatePackImport)
+   * @param decisions One decision per plan template, validated beforehand
+   */
+  async importPack(
+    plan: TemplatePackImportPlan,
+    decisions: TemplateImportDecision[]
+  ): Promise<TemplatePackImportResult> {
+    const result: TemplatePackImportResult = {
+      created: [],
+      overwritten: [],
+      skipped: [],
+      failed: [],
+      libraryCreated: 0,
+      libraryReused: 0,
+      libraryFailed: 0,
+    };
+
+    for (const { item, duplicateOfId } of plan.libraryItems) {
+      if (duplicateOfId) {
+        result.libraryReused++;
+        continue;
+      }
+      try {
+        await itemLibraryService.createLibraryItem({
+          itemText: item.itemText,
+          itemType: item.itemType,
+          category: item.category,
+          statusConfiguration: item.statusConfiguration ?? undefined,
+          valueConfiguration: item.valueConfiguration,
+          allowedPositions: item.allowedPositions ?? undefined,
+          defaultNotes: item.defaultNotes ?? undefined,
+          tags: item.tags,
+          isRequiredByDefault: item.isRequiredByDefault,
+        });
+        result.libraryCreated++;
+      } catch (error) {
+        console.error(`Failed to import library item "${item.itemText}":`, error);
+        result.libraryFailed++;
+      }
+    }
+
+    for (const [index, entry] of plan.templates.entries()) {
+      const decision = decisions[index];
+      if (decision.action === 'skip') {
+        result.skipped.push(entry.template.name);
+        continue;
+      }
+
+      try {
+        if (decision.action === 'overwrite' && entry.existing) {
+          await templateService.updateTemplate(
+            entry.existing.id,
+            toTemplateRequest(entry.template, entry.existing.name)
+          );
+          result.overwritten.push(entry.existing.name);
+        } else {
+          const created = await templateService.createTemplate(
+            toTemplateRequest(entry.template, decision.name)
+          );
+          result.created.push(created.name);
+        }
+      } catch (error) {
+        result.failed.push({
+          name: decision.name,
+          error: error instanceof Error ? error.message : 'Import failed',
+        });
+      }
+    }
+
+    return result;
+  },
+};
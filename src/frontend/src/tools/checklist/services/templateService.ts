@@ -12,6 +12,7 @@
 
 import { apiClient, getErrorMessage } from '../../../core/services/api';
 import type { Template } from '../../../types';
+import { normalizeTemplate } from '../utils/templateType';
 
 /**
  * Create Template Request
@@ -25,7 +26,9 @@ export interface CreateTemplateRequest {
   tags: string; // Comma-separated string like "tag1, tag2, tag3"
   templateType?: number; // 0 = Manual, 1 = AutoCreate, 2 = Recurring
   autoCreateForCategories?: string; // JSON string of incident types array (only for AUTO_CREATE)
-  recurrenceConfig?: string; // JSON configuration for recurring templates (future feature)
+  recurrenceConfig?: string; // JSON RecurrenceConfig (only for RECURRING)
+  recommendedPositions?: string; // JSON array of ICS positions
+  eventCategories?: string; // JSON array of event categories
   items: CreateTemplateItemRequest[];
 }
 
@@ -35,8 +38,13 @@ export interface CreateTemplateItemRequest {
   displayOrder: number;
   isRequired: boolean;
   statusConfiguration: string | null;
+  valueConfiguration?: string | null; // JSON ItemValueConfiguration (number items only)
   allowedPositions: string | null;
   defaultNotes: string | null;
+  dueOffsetMinutes?: number | null; // Minutes after dueRelativeTo (null = no due time)
+  dueRelativeTo?: string; // "ChecklistCreated" | "PeriodStart"
+  prerequisiteDisplayOrders?: string | null; // JSON array of display orders (null = no prerequisites)
+  sectionName?: string | null; // Named section (null = no section); sections are ordered by their first item
 }
 
 /**
@@ -51,7 +59,9 @@ export interface UpdateTemplateRequest {
   tags: string; // Comma-separated string like "tag1, tag2, tag3"
   templateType?: number; // 0 = Manual, 1 = AutoCreate, 2 = Recurring
   autoCreateForCategories?: string; // JSON string of incident types array (only for AUTO_CREATE)
-  recurrenceConfig?: string; // JSON configuration for recurring templates (future feature)
+  recurrenceConfig?: string; // JSON RecurrenceConfig (only for RECURRING)
+  recommendedPositions?: string; // JSON array of ICS positions
+  eventCategories?: string; // JSON array of event categories
   items: CreateTemplateItemRequest[];
 }
 
@@ -69,7 +79,7 @@ export const templateService = {
       const response = await apiClient.get<Template[]>('/api/templates', {
         params: { includeInactive },
       });
-      return response.data;
+      return response.data.map(normalizeTemplate);
     } catch (error) {
       console.error('Failed to fetch templates:', error);
       throw new Error(getErrorMessage(error));
@@ -93,7 +103,7 @@ export const templateService = {
           params: { includeInactive },
         }
       );
-      return response.data;
+      return response.data.map(normalizeTemplate);
     } catch (error) {
       console.error(`Failed to fetch templates for category ${category}:`, error);
       throw new Error(getErrorMessage(error));
@@ -110,7 +120,7 @@ export const templateService = {
       const response = await apiClient.get<Template>(
         `/api/templates/${templateId}`
       );
-      return response.data;
+      return normalizeTemplate(response.data);
     } catch (error) {
       console.error(`Failed to fetch template ${templateId}:`, error);
       throw new Error(getErrorMessage(error));
@@ -125,7 +135,7 @@ export const templateService = {
   async createTemplate(request: CreateTemplateRequest): Promise<Template> {
     try {
       const response = await apiClient.post<Template>('/api/templates', request);
-      return response.data;
+      return normalizeTemplate(response.data);
     } catch (error) {
       console.error('Failed to create template:', error);
       throw new Error(getErrorMessage(error));
@@ -147,7 +157,7 @@ export const templateService = {
         `/api/templates/${templateId}`,
         request
       );
-      return response.data;
+      return normalizeTemplate(response.data);
     } catch (error) {
       console.error(`Failed to update template ${templateId}:`, error);
       throw new Error(getErrorMessage(error));
@@ -169,7 +179,7 @@ export const templateService = {
         `/api/templates/${templateId}/duplicate`,
         { newName }
       );
-      return response.data;
+      return normalizeTemplate(response.data);
     } catch (error) {
       console.error(`Failed to duplicate template ${templateId}:`, error);
       throw new Error(getErrorMessage(error));
@@ -209,7 +219,7 @@ export const templateService = {
   async getArchivedTemplates(): Promise<Template[]> {
     try {
       const response = await apiClient.get<Template[]>('/api/templates/archived');
-      return response.data;
+      return response.data.map(normalizeTemplate);
     } catch (error) {
       console.error('Failed to fetch archived templates:', error);
       throw new Error(getErrorMessage(error));
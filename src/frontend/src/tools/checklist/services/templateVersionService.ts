@@ -0,0 +1,70 @@
+/**
+ * Template Version Service - API calls for template version history
+ *
+ * Every template save records an immutable version snapshot. This service:
+ * - Lists a template's versions (newest first, without snapshots)
+ * - Fetches a single version with its full template snapshot (for diffing)
+ * - Restores an older version by saving it as a new version
+ */
+
+import { apiClient, getErrorMessage } from '../../../core/services/api';
+import type { Template, TemplateVersion } from '../../../types';
+
+/**
+ * Template version service interface
+ */
+export const templateVersionService = {
+  /**
+   * Get version history for a template
+   * @param templateId Template GUID
+   * @returns Versions, newest first (snapshot not included)
+   */
+  async getVersions(templateId: string): Promise<TemplateVersion[]> {
+    try {
+      const response = await apiClient.get<TemplateVersion[]>(
+        `/api/templates/${templateId}/versions`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch versions for template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Get a single version including its template snapshot
+   * @param templateId Template GUID
+   * @param versionNumber Version number (1-based)
+   * @returns Version with template snapshot
+   */
+  async getVersion(templateId: string, versionNumber: number): Promise<TemplateVersion> {
+    try {
+      const response = await apiClient.get<TemplateVersion>(
+        `/api/templates/${templateId}/versions/${versionNumber}`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to fetch version ${versionNumber} of template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+
+  /**
+   * Restore an older version as a new version (Manage role)
+   * History is never rewritten - the restored content becomes the latest version.
+   * @param templateId Template GUID
+   * @param versionNumber Version to restore
+   * @returns Updated template
+   */
+  async restoreVersion(templateId: string, versionNumber: number): Promise<Template> {
+    try {
+      const response = await apiClient.post<Template>(
+        `/api/templates/${templateId}/versions/${versionNumber}/restore`
+      );
+      return response.data;
+    } catch (error) {
+      console.error(`Failed to restore version ${versionNumber} of template ${templateId}:`, error);
+      throw new Error(getErrorMessage(error));
+    }
+  },
+};
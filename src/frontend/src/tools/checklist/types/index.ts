@@ -24,11 +24,20 @@ export interface Template {
   isArchived: boolean;
   templateType: TemplateType; // How checklist instances are created
   autoCreateForCategories?: string; // JSON array of incident categories (for AUTO_CREATE type)
-  recurrenceConfig?: string; // JSON configuration for recurring templates (future feature)
+  recurrenceConfig?: string; // JSON RecurrenceConfig (for RECURRING type)
   recommendedPositions?: string; // JSON array of ICS positions this template is recommended for
   eventCategories?: string; // JSON array of event categories this template is suited for
   usageCount: number; // Number of times template has been used
   lastUsedAt?: string; // ISO 8601 datetime when template was last used
+  currentVersion: number; // Incremented on every save (see TemplateVersion)
+  approvalStatus: TemplateApprovalStatus; // Only Approved templates can be used for new checklists
+  submittedBy?: string;
+  submittedByPosition?: string;
+  submittedAt?: string; // ISO 8601 datetime
+  reviewedBy?: string;
+  reviewedByPosition?: string;
+  reviewedAt?: string; // ISO 8601 datetime
+  reviewComment?: string; // Comment from the most recent approval or rejection
   items: TemplateItem[];
   createdBy: string;
   createdByPosition: string;
@@ -50,8 +59,46 @@ export interface TemplateItem {
   displayOrder: number;
   isRequired: boolean;
   statusConfiguration?: string; // JSON string of StatusOption[] (only for status type)
+  valueConfiguration?: string; // JSON ItemValueConfiguration (only for number type)
   allowedPositions?: string; // JSON string of positions
   defaultNotes?: string;
+  dueOffsetMinutes?: number | null; // Minutes after dueRelativeTo the item must be done (null = no due time)
+  dueRelativeTo?: ItemDueAnchor;
+  prerequisiteDisplayOrders?: string; // JSON array of display orders that must be completed first
+  sectionName?: string | null; // Named section the item belongs to (null = no section)
+}
+
+/**
+ * Template Version
+ * Immutable snapshot recorded each time a template is saved or restored.
+ * The snapshot (template) is only included when fetching a single version.
+ */
+export interface TemplateVersion {
+  id: string;
+  templateId: string;
+  versionNumber: number;
+  restoredFromVersion?: number; // Set when the version was created by a restore
+  name: string;
+  itemCount: number;
+  createdBy: string;
+  createdByPosition: string;
+  createdAt: string; // ISO 8601 datetime
+  template?: Template;
+}
+
+/**
+ * Template approval history entry
+ * Records who submitted, approved, rejected or edited (returned to draft) a template.
+ */
+export interface TemplateApprovalEvent {
+  id: string;
+  templateId: string;
+  action: TemplateApprovalAction;
+  comment?: string;
+  templateVersion: number; // Template version the action applied to
+  performedBy: string;
+  performedByPosition: string;
+  performedAt: string; // ISO 8601 datetime
 }
 
 /**
@@ -64,6 +111,16 @@ export interface StatusOption {
   order: number;
 }
 
+/**
+ * Unit and accepted range of a number item
+ * Stored as JSON in valueConfiguration; all fields optional
+ */
+export interface ItemValueConfiguration {
+  unit?: string; // e.g. "gal", "%", "psi"
+  min?: number;
+  max?: number;
+}
+
 /**
  * Template categories align with ICS functions
  */
@@ -84,7 +141,92 @@ export enum TemplateCategory {
 export enum TemplateType {
   MANUAL = 0,       // User manually creates from template library (default)
   AUTO_CREATE = 1,  // Automatically creates when event category matches
-  RECURRING = 2,    // Scheduled auto-creation (future feature)
+  RECURRING = 2,    // Scheduled auto-creation (see RecurrenceConfig)
+}
+
+/**
+ * How often a recurring template creates a new checklist
+ */
+export enum RecurrenceFrequency {
+  OPERATIONAL_PERIOD = 'operationalPeriod', // One per operational period
+  INTERVAL = 'interval',                    // Every N hours
+  DAILY = 'daily',                          // Once a day at a set time
+}
+
+/**
+ * Schedule for a RECURRING template, stored as JSON in Template.recurrenceConfig.
+ * Checklists are created for each active event until the event is closed
+ * or endAt passes.
+ */
+export interface RecurrenceConfig {
+  frequency: RecurrenceFrequency;
+  intervalHours?: number; // INTERVAL only (1-168)
+  timeOfDay?: string; // DAILY only, local "HH:mm"
+  timeZone?: string; // IANA time zone for timeOfDay and checklist names
+  startAt?: string; // ISO 8601 - interval slots are counted from here
+  endAt?: string | null; // ISO 8601 - null = until the event is closed
+  assignedPositions: string[]; // Positions assigned to each checklist (empty = all)
+}
+
+/**
+ * Template approval lifecycle
+ * Draft -> PendingApproval -> Approved or Rejected.
+ * Editing an approved or pending template returns it to Draft.
+ */
+export enum TemplateApprovalStatus {
+  DRAFT = 'Draft',
+  PENDING_APPROVAL = 'PendingApproval',
+  APPROVED = 'Approved',
+  REJECTED = 'Rejected',
+}
+
+/**
+ * Actions recorded in a template's approval history
+ */
+export enum TemplateApprovalAction {
+  SUBMITTED = 'Submitted',
+  APPROVED = 'Approved',
+  REJECTED = 'Rejected',
+  RETURNED_TO_DRAFT = 'ReturnedToDraft',
+}
+
+/**
+ * Checklist sign-off lifecycle
+ * Open -> PendingSignOff -> SignedOff. A signed-off checklist is read-only
+ * until a manager reopens it (back to Open).
+ */
+export enum ChecklistSignOffStatus {
+  OPEN = 'Open',
+  PENDING_SIGN_OFF = 'PendingSignOff',
+  SIGNED_OFF = 'SignedOff',
+}
+
+/**
+ * Changes recorded in an item's history
+ */
+export enum ItemHistoryAction {
+  COMPLETED = 'Completed',
+  UNCOMPLETED = 'Uncompleted',
+  STATUS_CHANGED = 'StatusChanged',
+  VALUE_CHANGED = 'ValueChanged',
+  NOTE_ADDED = 'NoteAdded',
+  NOTE_EDITED = 'NoteEdited',
+  NOTE_DELETED = 'NoteDeleted',
+  ADDED = 'Added', // Item added to a live checklist
+  REMOVED = 'Removed', // Item removed from a live checklist
+}
+
+/**
+ * Checklist-level changes recorded in a checklist's activity feed
+ */
+export enum ChecklistHistoryAction {
+  RENAMED = 'Renamed',
+  POSITIONS_CHANGED = 'PositionsChanged',
+  OPERATIONAL_PERIOD_CHANGED = 'OperationalPeriodChanged',
+  ITEMS_REORDERED = 'ItemsReordered',
+  SUBMITTED_FOR_SIGN_OFF = 'SubmittedForSignOff',
+  SIGNED_OFF = 'SignedOff',
+  REOPENED = 'Reopened', // newValue = reason
 }
 
 /**
@@ -93,6 +235,19 @@ export enum TemplateType {
 export enum ItemType {
   CHECKBOX = 'checkbox',
   STATUS = 'status',
+  NUMBER = 'number', // Numeric reading with optional unit and min/max
+  TEXT = 'text', // Short free text
+  DATETIME = 'datetime', // Date and time
+  YESNO = 'yesno', // Yes / No / N/A
+}
+
+/**
+ * What a template item's due offset is counted from
+ * PERIOD_START falls back to checklist creation for incident-level checklists
+ */
+export enum ItemDueAnchor {
+  CHECKLIST_CREATED = 'ChecklistCreated',
+  PERIOD_START = 'PeriodStart',
 }
 
 // ============================================================================
@@ -108,11 +263,15 @@ export interface ChecklistInstance {
   name: string;
   templateId: string;
   templateName: string;
+  templateVersion?: number; // Template version the checklist was created from
+  templateCurrentVersion?: number; // Latest template version (detail view only)
+  sourceTemplateIds?: string[]; // All source templates of a combined checklist (empty otherwise)
   eventId: string;
   eventName: string;
   operationalPeriodId?: string;
   operationalPeriodName?: string;
   assignedPositions: string[];
+  isAutoCreated?: boolean; // Generated from an auto-create template when the event was created
   items: ChecklistItem[];
   progressPercentage: number;
   totalItems: number;
@@ -122,6 +281,15 @@ export interface ChecklistInstance {
   isArchived: boolean;
   archivedBy?: string;
   archivedAt?: string;
+  signOffStatus?: ChecklistSignOffStatus;
+  submittedForSignOffBy?: string;
+  submittedForSignOffByPosition?: string;
+  submittedForSignOffAt?: string; // ISO 8601 datetime
+  signedOffBy?: string;
+  signedOffByName?: string;
+  signedOffByPosition?: string;
+  signedOffAt?: string; // ISO 8601 datetime
+  signOffSignature?: string; // PNG data URL of the drawn signature
   createdBy: string;
   createdByPosition: string;
   createdAt: string;
@@ -143,6 +311,7 @@ export interface ChecklistItem {
   itemType: ItemType;
   displayOrder: number;
   isRequired: boolean;
+  sectionName?: string | null; // Named section (copied from template)
 
   // Checkbox specific
   isCompleted?: boolean;
@@ -154,8 +323,20 @@ export interface ChecklistItem {
   currentStatus?: string;
   statusConfiguration?: string; // JSON string of StatusOption[] (copied from template)
 
+  // Value specific (number, text, datetime, yesno)
+  value?: string; // Captured value (number as text, ISO 8601 UTC datetime, "Yes"/"No"/"N/A")
+  valueConfiguration?: string; // JSON ItemValueConfiguration (copied from template)
+
+  // Due time
+  dueAt?: string; // ISO 8601 datetime the item must be done by (calculated at creation)
+  dueOffsetMinutes?: number;
+  dueRelativeTo?: ItemDueAnchor;
+
+  // Sequential gating
+  prerequisiteItemIds?: string; // JSON array of item IDs that must be completed first
+
   // Common
-  notes?: string; // Notes field from backend
+  notes?: ItemNote[]; // Note thread, oldest first
   allowedPositions?: string; // JSON string of positions
   createdAt: string;
   lastModifiedBy?: string;
@@ -164,16 +345,35 @@ export interface ChecklistItem {
 }
 
 /**
- * Status change history for dropdown items
+ * Change history entry for a checklist item
+ * Covers completion toggles, status and value changes, and notes.
  */
 export interface ItemStatusHistory {
   id: string;
   checklistItemId: string;
-  previousStatus: string;
-  newStatus: string;
+  action: ItemHistoryAction;
+  previousValue?: string; // Status, value or note text before the change
+  newValue?: string; // Status, value or note text after the change
   changedBy: string;
   changedByPosition: string;
-  changedAt: string;
+  changedAt: string; // ISO 8601 datetime
+}
+
+/**
+ * Entry in a checklist's activity feed
+ * Item history and checklist metadata changes merged into one feed.
+ */
+export interface ChecklistActivity {
+  id: string;
+  checklistId: string;
+  itemId?: string; // Omitted for checklist-level changes
+  itemText?: string;
+  action: ItemHistoryAction | ChecklistHistoryAction;
+  previousValue?: string;
+  newValue?: string;
+  changedBy: string;
+  changedByPosition: string;
+  changedAt: string; // ISO 8601 datetime
 }
 
 /**
@@ -191,6 +391,29 @@ export interface ItemNote {
   isEdited: boolean;
 }
 
+/**
+ * File (photo, signed form) attached to a checklist item
+ * Content is downloaded from itemService.getAttachmentBlob.
+ */
+export interface ItemAttachment {
+  id: string;
+  checklistItemId: string;
+  fileName: string;
+  contentType: string;
+  sizeBytes: number;
+  uploadedBy: string;
+  uploadedByPosition: string;
+  uploadedAt: string;
+}
+
+/**
+ * Attachment size and type limits (System Settings)
+ */
+export interface AttachmentLimits {
+  maxSizeBytes: number;
+  allowedContentTypes: string[]; // MIME types; "image/*" allows a whole family
+}
+
 // ============================================================================
 // Request/Response DTOs
 // ============================================================================
@@ -205,7 +428,7 @@ export interface CreateTemplateRequest {
   tags: string[];
   templateType?: TemplateType; // Defaults to MANUAL if not specified
   autoCreateForCategories?: string[]; // Only used when templateType = AUTO_CREATE
-  recurrenceConfig?: string; // Only used when templateType = RECURRING (future)
+  recurrenceConfig?: string; // Only used when templateType = RECURRING
   items: CreateTemplateItemRequest[];
 }
 
@@ -229,7 +452,7 @@ export interface UpdateTemplateRequest {
   tags: string[];
   templateType?: TemplateType; // Can update the type
   autoCreateForCategories?: string[]; // Only used when templateType = AUTO_CREATE
-  recurrenceConfig?: string; // Only used when templateType = RECURRING (future)
+  recurrenceConfig?: string; // Only used when templateType = RECURRING
   items: UpdateTemplateItemRequest[];
 }
 
@@ -257,14 +480,17 @@ export interface CreateChecklistRequest {
 }
 
 /**
- * Request to create checklist from multiple templates
+ * Request to create one checklist from multiple templates (POST /api/checklists/combined)
  */
 export interface CreateCombinedChecklistRequest {
-  templateIds: string[];
-  name: string;
-  eventId: string;
+  templateIds: string[]; // Block order in the checklist
+  excludedTemplateItemIds?: string[]; // Items left out (duplicates across templates)
+  name?: string; // Defaults to the template names joined with " + "
+  eventId?: string; // Backend uses the POC demo event when omitted
+  eventName?: string;
   operationalPeriodId?: string;
-  assignedPositions: string[];
+  operationalPeriodName?: string;
+  assignedPositions?: string; // Comma-separated list
 }
 
 /**
@@ -281,6 +507,14 @@ export interface UpdateItemStatusRequest {
   status: string;
 }
 
+/**
+ * Request to capture the value of a number, text, datetime or yesno item
+ */
+export interface UpdateItemValueRequest {
+  value: string | null; // Null or empty clears the value
+  notes?: string;
+}
+
 /**
  * Request to add a note to an item
  */
@@ -288,11 +522,32 @@ export interface AddItemNoteRequest {
   noteText: string;
 }
 
+/**
+ * Request to edit your own note
+ */
+export interface UpdateItemNoteRequest {
+  noteText: string;
+}
+
+/**
+ * Request to add an item to a live checklist (Manage role)
+ */
+export interface AddChecklistItemRequest {
+  itemText: string;
+  itemType?: ItemType; // Default: checkbox
+  isRequired?: boolean;
+  statusConfiguration?: string; // JSON string of StatusOption[] (status items)
+  valueConfiguration?: string; // JSON ItemValueConfiguration (number items)
+  allowedPositions?: string; // JSON string array
+  sectionName?: string | null;
+  insertAfterItemId?: string | null; // null = at the end
+}
+
 /**
  * Request to reorder items
  */
 export interface ReorderItemsRequest {
-  itemIds: string[]; // Array of item IDs in desired order
+  itemIds: string[]; // Every item ID of the checklist, in desired order
 }
 
 /**
@@ -369,10 +624,12 @@ export interface ItemNoteAddedMessage {
 
 export interface ChecklistUpdatedMessage {
   checklistId: string;
-  updateType: 'item_added' | 'item_removed' | 'metadata_changed';
-  updatedBy: string;
-  updatedByPosition: string;
-  updatedAt: string;
+  updateType: 'item_added' | 'item_removed' | 'items_reordered' | 'items_bulk_updated' | 'sign_off_changed' | 'metadata_changed';
+  itemId?: string | null; // Added or removed item
+  progressPercentage: number;
+  updatedBy?: string; // Not sent for metadata changes
+  updatedByPosition?: string;
+  sentAt: string;
 }
 
 // ============================================================================
@@ -419,6 +676,7 @@ export interface ItemLibraryEntry {
   itemType: ItemType;
   category: string;
   statusConfiguration?: string; // JSON string of StatusOption[]
+  valueConfiguration?: string; // JSON ItemValueConfiguration (number items)
   allowedPositions?: string; // JSON string of positions
   defaultNotes?: string;
   tags?: string; // JSON string of tag array
@@ -438,6 +696,7 @@ export interface CreateItemLibraryEntryRequest {
   itemType: ItemType;
   category: string;
   statusConfiguration?: string;
+  valueConfiguration?: string;
   allowedPositions?: string;
   defaultNotes?: string;
   tags?: string[];
@@ -452,6 +711,7 @@ export interface UpdateItemLibraryEntryRequest {
   itemType: ItemType;
   category: string;
   statusConfiguration?: string;
+  valueConfiguration?: string;
   allowedPositions?: string;
   defaultNotes?: string;
   tags?: string[];
@@ -0,0 +1,67 @@
+/**
+ * Attachment Utility Tests
+ *
+ * Tests file size formatting and upload validation against the configured limits.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ATTACHMENT_LIMITS,
+  allowsPhotos,
+  buildAcceptAttribute,
+  formatFileSize,
+  isContentTypeAllowed,
+  isImageAttachment,
+  validateAttachmentFile,
+} from './attachments';
+
+const MB = 1024 * 1024;
+
+describe('formatFileSize', () => {
+  it('formats kilobytes and megabytes', () => {
+    expect(formatFileSize(200)).toBe('1 KB');
+    expect(formatFileSize(512 * 1024)).toBe('512 KB');
+    expect(formatFileSize(2.5 * MB)).toBe('2.5 MB');
+    expect(formatFileSize(10 * MB)).toBe('10 MB');
+  });
+});
+
+describe('isContentTypeAllowed and isImageAttachment', () => {
+  it('accepts whole families with a wildcard', () => {
+    expect(isContentTypeAllowed('image/heic', DEFAULT_ATTACHMENT_LIMITS)).toBe(true);
+    expect(isContentTypeAllowed('Application/PDF', DEFAULT_ATTACHMENT_LIMITS)).toBe(true);
+    expect(isContentTypeAllowed('application/zip', DEFAULT_ATTACHMENT_LIMITS)).toBe(false);
+  });
+
+  it('detects image attachments', () => {
+    expect(isImageAttachment({ contentType: 'image/png' })).toBe(true);
+    expect(isImageAttachment({ contentType: 'application/pdf' })).toBe(false);
+  });
+});
+
+describe('validateAttachmentFile', () => {
+  it('accepts files within the limits', () => {
+    expect(validateAttachmentFile({ name: 'damage.jpg', type: 'image/jpeg', size: 2 * MB }, DEFAULT_ATTACHMENT_LIMITS)).toBeNull();
+  });
+
+  it('rejects empty, oversized and disallowed files', () => {
+    expect(validateAttachmentFile({ name: 'empty.jpg', type: 'image/jpeg', size: 0 }, DEFAULT_ATTACHMENT_LIMITS)).toBe(
+      'The file is empty'
+    );
+    expect(validateAttachmentFile({ name: 'video.jpg', type: 'image/jpeg', size: 12 * MB }, DEFAULT_ATTACHMENT_LIMITS)).toBe(
+      '"video.jpg" is 12 MB; attachments can be at most 10 MB'
+    );
+    expect(validateAttachmentFile({ name: 'notes.zip', type: 'application/zip', size: MB }, DEFAULT_ATTACHMENT_LIMITS)).toBe(
+      '"notes.zip" can\'t be attached. Allowed types: image/*, application/pdf'
+    );
+  });
+});
+
+describe('file input helpers', () => {
+  it('builds the accept attribute and detects photo support', () => {
+    expect(buildAcceptAttribute(DEFAULT_ATTACHMENT_LIMITS)).toBe('image/*,application/pdf');
+    expect(allowsPhotos(DEFAULT_ATTACHMENT_LIMITS)).toBe(true);
+    expect(allowsPhotos({ maxSizeBytes: MB, allowedContentTypes: ['application/pdf'] })).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+/**
+ * Attachment Utilities
+ *
+ * Pure helpers for files attached to checklist items (damage photos, signed
+ * forms). Size and type limits come from System Settings; validateAttachmentFile
+ * mirrors the backend (AttachmentHelper) so users see the problem before the
+ * upload starts.
+ */
+
+import type { AttachmentLimits, ItemAttachment } from '../types';
+
+/**
+ * Limits used until the configured limits are loaded (match the backend defaults)
+ */
+export const DEFAULT_ATTACHMENT_LIMITS: AttachmentLimits = {
+  maxSizeBytes: 10 * 1024 * 1024,
+  allowedContentTypes: ['image/*', 'application/pdf'],
+};
+
+/**
+ * File size for display, e.g. "512 KB", "2.5 MB" (matches the backend)
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) {
+    return `${Math.max(1, Math.floor(bytes / 1024))} KB`;
+  }
+  const megabytes = bytes / (1024 * 1024);
+  return `${Number(megabytes.toFixed(1))} MB`;
+};
+
+/**
+ * Whether the attachment can be shown as an image thumbnail
+ */
+export const isImageAttachment = (attachment: Pick<ItemAttachment, 'contentType'>): boolean =>
+  attachment.contentType.toLowerCase().startsWith('image/');
+
+/**
+ * Whether the MIME type is accepted ("image/*" accepts any "image/..." type)
+ */
+export const isContentTypeAllowed = (contentType: string, limits: AttachmentLimits): boolean => {
+  const type = contentType.trim().toLowerCase();
+  return limits.allowedContentTypes.some((allowed) =>
+    allowed.endsWith('/*') ? type.startsWith(allowed.slice(0, -1)) : type === allowed
+  );
+};
+
+/**
+ * Validation message for a file about to be uploaded, or null when it's accepted
+ */
+export const validateAttachmentFile = (
+  file: Pick<File, 'name' | 'type' | 'size'>,
+  limits: AttachmentLimits
+): string | null => {
+  if (!file.name.trim() || file.size <= 0) {
+    return 'The file is empty';
+  }
+  if (file.size > limits.maxSizeBytes) {
+    return `"${file.name}" is ${formatFileSize(file.size)}; attachments can be at most ${formatFileSize(limits.maxSizeBytes)}`;
+  }
+  if (!isContentTypeAllowed(file.type, limits)) {
+    return `"${file.name}" can't be attached. Allowed types: ${limits.allowedContentTypes.join(', ')}`;
+  }
+  return null;
+};
+
+/**
+ * accept attribute for file inputs, e.g. "image/*,application/pdf"
+ */
+export const buildAcceptAttribute = (limits: AttachmentLimits): string =>
+  limits.allowedContentTypes.join(',');
+
+/**
+ * Whether the configured limits allow photos (camera capture)
+ */
+export const allowsPhotos = (limits: AttachmentLimits): boolean =>
+  isContentTypeAllowed('image/jpeg', limits);
@@ -0,0 +1,161 @@
+/**
+ * Bulk Item Action Tests
+ *
+ * Tests selection helpers, which selected items an action applies to,
+ * and the optimistic / rollback changes for bulk item updates.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getAllItemIds,
+  getBulkActionLabel,
+  getBulkActionTargets,
+  getBulkOptimisticChanges,
+  getBulkRollbackChanges,
+  getBulkStatusOptions,
+  getCurrentStatuses,
+  getItemIdsByStatus,
+  getSectionItemIds,
+  toggleItemSelection,
+} from './bulkItemActions';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { BulkAction } from '../types';
+
+const STATUS_CONFIGURATION = JSON.stringify([
+  { label: 'Not Started', isCompletion: false, order: 1 },
+  { label: 'In Progress', isCompletion: false, order: 2 },
+  { label: 'Complete', isCompletion: true, order: 3 },
+]);
+
+const createItem = (
+  id: string,
+  displayOrder: number,
+  overrides: Partial<ChecklistItemDto> = {}
+): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: `template-${id}`,
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder,
+  isRequired: false,
+  sectionName: null,
+  createdAt: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+const createStatusItem = (id: string, displayOrder: number, currentStatus: string, sectionName: string | null = null) =>
+  createItem(id, displayOrder, {
+    itemType: 'status',
+    statusConfiguration: STATUS_CONFIGURATION,
+    currentStatus,
+    sectionName,
+  });
+
+// Display order: a, b (no section), then Setup: c, d
+const items = [
+  createItem('a', 10),
+  createItem('b', 20, { isCompleted: true, completedBy: 'user@test.com', completedAt: '2026-10-19T11:00:00Z' }),
+  createStatusItem('c', 30, 'Not Started', 'Setup'),
+  createStatusItem('d', 40, 'Complete', 'Setup'),
+];
+
+describe('selection helpers', () => {
+  it('selects all items in display order', () => {
+    expect(getAllItemIds([...items].reverse())).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('selects the items of a section, or those without one', () => {
+    expect(getSectionItemIds(items, 'Setup')).toEqual(['c', 'd']);
+    expect(getSectionItemIds(items, null)).toEqual(['a', 'b']);
+  });
+
+  it('selects by completion or by current status', () => {
+    expect(getItemIdsByStatus(items, { completed: false })).toEqual(['a', 'c']);
+    expect(getItemIdsByStatus(items, { completed: true })).toEqual(['b', 'd']);
+    expect(getItemIdsByStatus(items, { status: 'Not Started' })).toEqual(['c']);
+  });
+
+  it('lists the current statuses of status items once each', () => {
+    const withDuplicate = [...items, createStatusItem('e', 50, 'Not Started')];
+    expect(getCurrentStatuses(withDuplicate)).toEqual(['Not Started', 'Complete']);
+  });
+
+  it('toggles an item in a new set', () => {
+    const selected = new Set(['a']);
+    expect([...toggleItemSelection(selected, 'b')]).toEqual(['a', 'b']);
+    expect([...toggleItemSelection(selected, 'a')]).toEqual([]);
+    expect([...selected]).toEqual(['a']);
+  });
+});
+
+describe('getBulkActionTargets', () => {
+  const all = new Set(items.map((item) => item.id));
+
+  it('marks only incomplete checkbox items complete', () => {
+    expect(getBulkActionTargets(items, all, BulkAction.MARK_COMPLETE).map((item) => item.id)).toEqual(['a']);
+  });
+
+  it('marks only completed checkbox items incomplete', () => {
+    expect(getBulkActionTargets(items, all, BulkAction.MARK_INCOMPLETE).map((item) => item.id)).toEqual(['b']);
+  });
+
+  it('sets status only on status items offering it and not already in it', () => {
+    expect(
+      getBulkActionTargets(items, all, BulkAction.CHANGE_STATUS, 'Complete').map((item) => item.id)
+    ).toEqual(['c']);
+    expect(getBulkActionTargets(items, all, BulkAction.CHANGE_STATUS, 'Unknown')).toEqual([]);
+  });
+
+  it('ignores items that are not selected', () => {
+    expect(getBulkActionTargets(items, new Set(['b']), BulkAction.MARK_COMPLETE)).toEqual([]);
+  });
+});
+
+describe('getBulkStatusOptions', () => {
+  it('offers the status options of the selected status items in option order', () => {
+    expect(getBulkStatusOptions(items, new Set(['a', 'c']))).toEqual(['Not Started', 'In Progress', 'Complete']);
+  });
+
+  it('offers nothing when no status item is selected', () => {
+    expect(getBulkStatusOptions(items, new Set(['a', 'b']))).toEqual([]);
+  });
+});
+
+describe('optimistic and rollback changes', () => {
+  it('clears completion fields when marking incomplete', () => {
+    expect(getBulkOptimisticChanges(BulkAction.MARK_INCOMPLETE)).toEqual({
+      isCompleted: false,
+      completedBy: undefined,
+      completedByPosition: undefined,
+      completedAt: undefined,
+    });
+  });
+
+  it('completes a status item only for the "Complete" status', () => {
+    expect(getBulkOptimisticChanges(BulkAction.CHANGE_STATUS, 'Complete')).toEqual({
+      currentStatus: 'Complete',
+      isCompleted: true,
+    });
+    expect(getBulkOptimisticChanges(BulkAction.CHANGE_STATUS, 'In Progress').isCompleted).toBe(false);
+  });
+
+  it('restores the fields a bulk action changes', () => {
+    expect(getBulkRollbackChanges(items[1])).toEqual({
+      isCompleted: true,
+      currentStatus: undefined,
+      completedBy: 'user@test.com',
+      completedByPosition: undefined,
+      completedAt: '2026-10-19T11:00:00Z',
+    });
+  });
+});
+
+describe('getBulkActionLabel', () => {
+  it('describes each action with its count', () => {
+    expect(getBulkActionLabel(BulkAction.MARK_COMPLETE, 3)).toBe('Mark 3 complete');
+    expect(getBulkActionLabel(BulkAction.MARK_INCOMPLETE, 1)).toBe('Mark 1 incomplete');
+    expect(getBulkActionLabel(BulkAction.CHANGE_STATUS, 2, 'In Progress')).toBe('Set 2 to "In Progress"');
+  });
+});
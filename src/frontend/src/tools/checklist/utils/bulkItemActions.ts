@@ -0,0 +1,181 @@
+/**
+ * Bulk Item Action Utilities
+ *
+ * Pure helpers for selecting many items on the checklist detail page and
+ * applying one action to them (POST /api/checklists/{id}/items/bulk):
+ * - Select all, a section, or items by completion / current status
+ * - Which selected items an action applies to (checkbox items for
+ *   complete/incomplete, status items offering the status for change_status)
+ * - Optimistic changes, and how to undo them for items the server rejected
+ */
+
+import type { ChecklistItemDto } from '../services/checklistService';
+import { BulkAction, ItemType, type StatusOption } from '../types';
+import { isItemComplete } from './itemDue';
+import { getDisplayOrderedItems } from './liveItemEditing';
+import { normalizeSectionName } from './itemSections';
+
+/**
+ * "Select by status" choice: by completion, or by current status label
+ */
+export type BulkStatusFilter = { completed: boolean } | { status: string };
+
+/**
+ * Fields a bulk action changes (also restored when it is rolled back)
+ */
+export type BulkItemChanges = Pick<
+  ChecklistItemDto,
+  'isCompleted' | 'currentStatus' | 'completedBy' | 'completedByPosition' | 'completedAt'
+>;
+
+const parseStatusLabels = (statusConfiguration?: string | null): string[] => {
+  if (!statusConfiguration) return [];
+  try {
+    const parsed = JSON.parse(statusConfiguration) as (StatusOption | string)[];
+    return [...parsed]
+      .map((option, index) =>
+        typeof option === 'string' ? { label: option, order: index } : { label: option.label, order: option.order }
+      )
+      .sort((a, b) => a.order - b.order)
+      .map((option) => option.label);
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * IDs of every item, in display order
+ */
+export const getAllItemIds = (items: ChecklistItemDto[]): string[] =>
+  getDisplayOrderedItems(items).map((item) => item.id);
+
+/**
+ * IDs of the items in a section (null = items without a section)
+ */
+export const getSectionItemIds = (items: ChecklistItemDto[], sectionName: string | null): string[] => {
+  const section = normalizeSectionName(sectionName);
+  return getDisplayOrderedItems(items)
+    .filter((item) => normalizeSectionName(item.sectionName) === section)
+    .map((item) => item.id);
+};
+
+/**
+ * IDs of the items matching a "select by status" choice
+ */
+export const getItemIdsByStatus = (items: ChecklistItemDto[], filter: BulkStatusFilter): string[] =>
+  getDisplayOrderedItems(items)
+    .filter((item) =>
+      'completed' in filter ? isItemComplete(item) === filter.completed : item.currentStatus === filter.status
+    )
+    .map((item) => item.id);
+
+/**
+ * Current statuses of status items, for "select by status" (in first-seen order)
+ */
+export const getCurrentStatuses = (items: ChecklistItemDto[]): string[] => [
+  ...new Set(
+    getDisplayOrderedItems(items)
+      .filter((item) => item.itemType === ItemType.STATUS && item.currentStatus)
+      .map((item) => item.currentStatus as string)
+  ),
+];
+
+/**
+ * Statuses that can be set on the selection: every option of the selected
+ * status items, in option order (first item's order wins)
+ */
+export const getBulkStatusOptions = (items: ChecklistItemDto[], selectedIds: ReadonlySet<string>): string[] => [
+  ...new Set(
+    getDisplayOrderedItems(items)
+      .filter((item) => selectedIds.has(item.id) && item.itemType === ItemType.STATUS)
+      .flatMap((item) => parseStatusLabels(item.statusConfiguration))
+  ),
+];
+
+/**
+ * Selected items the action would change, in display order
+ * (others are skipped: wrong item type, already done, status not offered)
+ */
+export const getBulkActionTargets = (
+  items: ChecklistItemDto[],
+  selectedIds: ReadonlySet<string>,
+  action: BulkAction,
+  targetStatus?: string
+): ChecklistItemDto[] =>
+  getDisplayOrderedItems(items).filter((item) => {
+    if (!selectedIds.has(item.id)) return false;
+    switch (action) {
+      case BulkAction.MARK_COMPLETE:
+        return item.itemType === ItemType.CHECKBOX && !item.isCompleted;
+      case BulkAction.MARK_INCOMPLETE:
+        return item.itemType === ItemType.CHECKBOX && !!item.isCompleted;
+      case BulkAction.CHANGE_STATUS:
+        return (
+          item.itemType === ItemType.STATUS &&
+          !!targetStatus &&
+          item.currentStatus !== targetStatus &&
+          parseStatusLabels(item.statusConfiguration).includes(targetStatus)
+        );
+      default:
+        return false;
+    }
+  });
+
+/**
+ * Change shown immediately for an item (same rules as the backend)
+ */
+export const getBulkOptimisticChanges = (
+  action: BulkAction,
+  targetStatus?: string
+): Partial<BulkItemChanges> => {
+  switch (action) {
+    case BulkAction.MARK_COMPLETE:
+      return { isCompleted: true };
+    case BulkAction.MARK_INCOMPLETE:
+      return { isCompleted: false, completedBy: undefined, completedByPosition: undefined, completedAt: undefined };
+    case BulkAction.CHANGE_STATUS:
+      return { currentStatus: targetStatus, isCompleted: targetStatus?.toLowerCase() === 'complete' };
+    default:
+      return {};
+  }
+};
+
+/**
+ * The item's fields before the bulk action, to restore if it is rejected
+ */
+export const getBulkRollbackChanges = (item: ChecklistItemDto): BulkItemChanges => ({
+  isCompleted: item.isCompleted,
+  currentStatus: item.currentStatus,
+  completedBy: item.completedBy,
+  completedByPosition: item.completedByPosition,
+  completedAt: item.completedAt,
+});
+
+/**
+ * Toggle one item in a selection (returns a new set)
+ */
+export const toggleItemSelection = (selectedIds: ReadonlySet<string>, itemId: string): Set<string> => {
+  const next = new Set(selectedIds);
+  if (next.has(itemId)) {
+    next.delete(itemId);
+  } else {
+    next.add(itemId);
+  }
+  return next;
+};
+
+/**
+ * Button label for an action, e.g. "Mark 3 complete"
+ */
+export const getBulkActionLabel = (action: BulkAction, count: number, targetStatus?: string): string => {
+  switch (action) {
+    case BulkAction.MARK_COMPLETE:
+      return `Mark ${count} complete`;
+    case BulkAction.MARK_INCOMPLETE:
+      return `Mark ${count} incomplete`;
+    case BulkAction.CHANGE_STATUS:
+      return `Set ${count} to "${targetStatus ?? ''}"`;
+    default:
+      return '';
+  }
+};
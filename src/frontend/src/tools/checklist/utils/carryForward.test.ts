@@ -0,0 +1,107 @@
+/**
+ * Carry Forward Tests
+ *
+ * Tests default target period, default selection and result summary.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeCarryForwardResult,
+  getDefaultCarryForwardSelection,
+  getDefaultTargetPeriod,
+} from './carryForward';
+import type { OperationalPeriod } from '../../../shared/events';
+import type { ChecklistInstanceDto } from '../services/checklistService';
+
+const createPeriod = (id: string, startTime: string, overrides: Partial<OperationalPeriod> = {}): OperationalPeriod => ({
+  id,
+  eventId: 'event-1',
+  name: id.toUpperCase(),
+  startTime,
+  isCurrent: false,
+  isArchived: false,
+  createdBy: 'planning@cobra.mil',
+  createdAt: '2025-11-20T00:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (id: string, overrides: Partial<ChecklistInstanceDto> = {}): ChecklistInstanceDto => ({
+  id,
+  name: `Checklist ${id}`,
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Hurricane Test',
+  operationalPeriodId: 'op1',
+  progressPercentage: 50,
+  totalItems: 2,
+  completedItems: 1,
+  requiredItems: 0,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'safety@cobra.mil',
+  createdByPosition: 'Safety Officer',
+  createdAt: '2025-11-20T00:00:00Z',
+  items: [],
+  ...overrides,
+});
+
+const periods = [
+  createPeriod('op2', '2025-11-20T18:00:00Z'),
+  createPeriod('op1', '2025-11-20T06:00:00Z'),
+  createPeriod('op3', '2025-11-21T06:00:00Z'),
+  createPeriod('old', '2025-11-19T06:00:00Z', { isArchived: true }),
+];
+
+describe('getDefaultTargetPeriod', () => {
+  it('uses the current period when carrying from an earlier period', () => {
+    expect(getDefaultTargetPeriod(periods, 'op2', ['op1'])?.id).toBe('op2');
+  });
+
+  it('uses the next period when carrying from the current period', () => {
+    expect(getDefaultTargetPeriod(periods, 'op2', ['op2'])?.id).toBe('op3');
+  });
+
+  it('uses the period after the latest source when there is no current period', () => {
+    expect(getDefaultTargetPeriod(periods, undefined, ['op1', undefined])?.id).toBe('op2');
+  });
+
+  it('falls back to the latest other period, and null when there is none', () => {
+    expect(getDefaultTargetPeriod(periods, 'op3', ['op3'])?.id).toBe('op2');
+    expect(getDefaultTargetPeriod([periods[0]], 'op2', ['op2'])).toBeNull();
+  });
+});
+
+describe('getDefaultCarryForwardSelection', () => {
+  it('selects active incomplete checklists not already in the target', () => {
+    const checklists = [
+      createChecklist('a'),
+      createChecklist('b', { progressPercentage: 100 }),
+      createChecklist('c', { isArchived: true }),
+      createChecklist('d', { operationalPeriodId: 'op2' }),
+      createChecklist('e', { progressPercentage: 0 }),
+    ];
+
+    expect(getDefaultCarryForwardSelection(checklists, 'op2')).toEqual(['a', 'e']);
+  });
+});
+
+describe('describeCarryForwardResult', () => {
+  it('summarizes created and skipped counts', () => {
+    const result = {
+      targetOperationalPeriodId: 'op2',
+      targetOperationalPeriodName: 'OP 2',
+      created: [createChecklist('a')],
+      skipped: [],
+    };
+
+    expect(describeCarryForwardResult(result)).toBe('Created 1 checklist in OP 2');
+    expect(
+      describeCarryForwardResult({
+        ...result,
+        created: [],
+        skipped: [{ checklistId: 'b', checklistName: 'B', reason: 'All items are complete' }],
+      })
+    ).toBe('Created 0 checklists in OP 2, skipped 1');
+  });
+});
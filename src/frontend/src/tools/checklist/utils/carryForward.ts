@@ -0,0 +1,71 @@
+/**
+ * Carry Forward Utilities
+ *
+ * Pure helpers for rolling checklists into another operational period:
+ * - Default target period (the current period, or the one after it when the
+ *   checklists being carried are already in the current period)
+ * - Default selection (incomplete checklists not already in the target)
+ * - Summary text for the result
+ *
+ * The copy itself, and the reasons a checklist is skipped, live in the
+ * backend's ChecklistCarryForwardService.
+ */
+
+import type { OperationalPeriod } from '../../../shared/events';
+import type { CarryForwardResult, ChecklistInstanceDto } from '../services/checklistService';
+
+const startOf = (period: OperationalPeriod): number => new Date(period.startTime).getTime();
+
+/**
+ * Whether a checklist still has work left
+ */
+export const isChecklistIncomplete = (checklist: ChecklistInstanceDto): boolean =>
+  Number(checklist.progressPercentage) < 100;
+
+/**
+ * Pick the period to carry checklists into.
+ * The current period, unless the checklists come from it; then the next
+ * period after it (or after the latest source period when there is no
+ * current period). Falls back to the latest other period.
+ * @param periods The event's operational periods
+ * @param currentPeriodId Period in effect (pinned or detected)
+ * @param sourcePeriodIds Periods the checklists are carried from
+ */
+export const getDefaultTargetPeriod = (
+  periods: OperationalPeriod[],
+  currentPeriodId: string | undefined,
+  sourcePeriodIds: (string | undefined)[]
+): OperationalPeriod | null => {
+  const sources = new Set(sourcePeriodIds.filter(Boolean));
+  const active = periods.filter((p) => !p.isArchived).sort((a, b) => startOf(a) - startOf(b));
+  const candidates = active.filter((p) => !sources.has(p.id));
+
+  const current = active.find((p) => p.id === currentPeriodId);
+  if (current && !sources.has(current.id)) {
+    return current;
+  }
+
+  const anchor = current ?? active.filter((p) => sources.has(p.id)).pop();
+  const next = anchor ? candidates.find((p) => startOf(p) > startOf(anchor)) : undefined;
+  return next ?? candidates[candidates.length - 1] ?? null;
+};
+
+/**
+ * IDs selected by default: active, incomplete checklists not already in the target period
+ */
+export const getDefaultCarryForwardSelection = (
+  checklists: ChecklistInstanceDto[],
+  targetPeriodId: string | undefined
+): string[] =>
+  checklists
+    .filter((c) => !c.isArchived && isChecklistIncomplete(c) && c.operationalPeriodId !== targetPeriodId)
+    .map((c) => c.id);
+
+/**
+ * One-line summary, e.g. "Created 3 checklists in OP 2, skipped 1"
+ */
+export const describeCarryForwardResult = (result: CarryForwardResult): string => {
+  const created = result.created.length;
+  const summary = `Created ${created} checklist${created === 1 ? '' : 's'} in ${result.targetOperationalPeriodName}`;
+  return result.skipped.length > 0 ? `${summary}, skipped ${result.skipped.length}` : summary;
+};
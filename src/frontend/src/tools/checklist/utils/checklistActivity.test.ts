@@ -0,0 +1,155 @@
+/**
+ * Checklist Activity Utility Tests
+ *
+ * Tests feed filtering, merging of live updates, descriptions and CSV export.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ChecklistHistoryAction, ItemHistoryAction, ItemType, type ChecklistActivity } from '../types';
+import {
+  activityToCsv,
+  activityToRows,
+  describeActivity,
+  filterActivity,
+  getActivityActionType,
+  getActivityPositions,
+  getLatestActivityTime,
+  mergeActivity,
+} from './checklistActivity';
+
+const createEntry = (overrides: Partial<ChecklistActivity> = {}): ChecklistActivity => ({
+  id: 'activity-1',
+  checklistId: 'checklist-1',
+  itemId: 'item-1',
+  itemText: 'Verify evacuation routes',
+  action: ItemHistoryAction.COMPLETED,
+  changedBy: 'ops@cobra.mil',
+  changedByPosition: 'Operations Section Chief',
+  changedAt: '2025-01-01T10:00:00Z',
+  ...overrides,
+});
+
+const rename = createEntry({
+  id: 'activity-2',
+  itemId: undefined,
+  itemText: undefined,
+  action: ChecklistHistoryAction.RENAMED,
+  previousValue: 'Day Shift',
+  newValue: 'Night Shift',
+  changedBy: 'safety@cobra.mil',
+  changedByPosition: 'Safety Officer',
+  changedAt: '2025-01-01T10:30:00Z',
+});
+
+describe('getActivityActionType', () => {
+  it('groups item actions by kind and metadata changes as checklist', () => {
+    expect(getActivityActionType(createEntry())).toBe('completion');
+    expect(getActivityActionType(createEntry({ action: ItemHistoryAction.NOTE_EDITED }))).toBe('note');
+    expect(getActivityActionType(rename)).toBe('checklist');
+  });
+
+  it('files items added, removed or reordered under checklist changes', () => {
+    expect(getActivityActionType(createEntry({ action: ItemHistoryAction.ADDED }))).toBe('checklist');
+    expect(getActivityActionType(createEntry({ action: ItemHistoryAction.REMOVED }))).toBe('checklist');
+    expect(getActivityActionType(createEntry({ action: ChecklistHistoryAction.ITEMS_REORDERED }))).toBe('checklist');
+  });
+});
+
+describe('describeActivity', () => {
+  it('describes checklist metadata changes', () => {
+    expect(describeActivity(rename).summary).toBe('Checklist renamed: Day Shift → Night Shift');
+    expect(
+      describeActivity(
+        createEntry({
+          action: ChecklistHistoryAction.POSITIONS_CHANGED,
+          previousValue: 'Safety Officer',
+          newValue: 'Safety Officer,Operations Section Chief',
+        })
+      ).summary
+    ).toBe('Positions: Safety Officer → Safety Officer, Operations Section Chief');
+    expect(
+      describeActivity(
+        createEntry({ action: ChecklistHistoryAction.OPERATIONAL_PERIOD_CHANGED, previousValue: 'Day 1' })
+      ).summary
+    ).toBe('Operational period: Day 1 → Incident-level');
+    expect(describeActivity(createEntry({ action: ChecklistHistoryAction.ITEMS_REORDERED })).summary).toBe(
+      'Items reordered'
+    );
+    expect(describeActivity(createEntry({ action: ItemHistoryAction.REMOVED })).summary).toBe('Item removed');
+  });
+
+  it('describes the sign-off workflow', () => {
+    expect(describeActivity(createEntry({ action: ChecklistHistoryAction.SUBMITTED_FOR_SIGN_OFF })).summary).toBe(
+      'Submitted for sign-off'
+    );
+    expect(
+      describeActivity(createEntry({ action: ChecklistHistoryAction.SIGNED_OFF, newValue: 'Jane Smith' })).summary
+    ).toBe('Signed off by Jane Smith');
+    expect(
+      describeActivity(
+        createEntry({ action: ChecklistHistoryAction.REOPENED, previousValue: 'SignedOff', newValue: 'Missed a count' })
+      )
+    ).toEqual({ summary: 'Checklist reopened', detail: 'Missed a count' });
+  });
+
+  it('describes item changes like the item timeline', () => {
+    const entry = createEntry({ action: ItemHistoryAction.VALUE_CHANGED, newValue: '42' });
+    const item = { itemType: ItemType.NUMBER, valueConfiguration: JSON.stringify({ unit: 'gal' }) };
+
+    expect(describeActivity(entry, item).summary).toBe('Value recorded: 42 gal');
+  });
+});
+
+describe('filterActivity and getActivityPositions', () => {
+  const entries = [rename, createEntry()];
+
+  it('filters by position, action type and time', () => {
+    expect(filterActivity(entries, { position: 'Safety Officer' })).toEqual([rename]);
+    expect(filterActivity(entries, { actionType: 'completion' }).map((e) => e.id)).toEqual(['activity-1']);
+    expect(filterActivity(entries, { since: '2025-01-01T10:15:00Z' })).toEqual([rename]);
+    expect(filterActivity(entries, {})).toHaveLength(2);
+  });
+
+  it('lists the positions that made changes', () => {
+    expect(getActivityPositions([...entries, createEntry({ id: 'activity-3', changedByPosition: '' })])).toEqual([
+      'Operations Section Chief',
+      'Safety Officer',
+    ]);
+  });
+});
+
+describe('mergeActivity and getLatestActivityTime', () => {
+  it('adds new entries newest first without repeating ids', () => {
+    const merged = mergeActivity([createEntry()], [rename, createEntry()]);
+
+    expect(merged.map((e) => e.id)).toEqual(['activity-2', 'activity-1']);
+  });
+
+  it('returns the newest change time', () => {
+    expect(getLatestActivityTime([createEntry(), rename])).toBe('2025-01-01T10:30:00Z');
+    expect(getLatestActivityTime([])).toBeUndefined();
+  });
+});
+
+describe('activityToRows and activityToCsv', () => {
+  it('exports one row per entry, oldest first', () => {
+    const rows = activityToRows([rename, createEntry({ action: ItemHistoryAction.NOTE_ADDED, newValue: 'Clear' })]);
+
+    expect(rows[0]).toEqual(['Date/Time', 'Position', 'Changed By', 'Item', 'Action', 'Details']);
+    expect(rows[1].slice(1)).toEqual([
+      'Operations Section Chief',
+      'ops@cobra.mil',
+      'Verify evacuation routes',
+      'Note added',
+      'Clear',
+    ]);
+    expect(rows[2].slice(3, 5)).toEqual(['Checklist', 'Checklist renamed: Day Shift → Night Shift']);
+  });
+
+  it('escapes fields with commas and quotes', () => {
+    const csv = activityToCsv([createEntry({ itemText: 'Check "A", then B' })]);
+
+    expect(csv.split('\r\n')[1]).toContain('"Check ""A"", then B"');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Checklist Activity Utilities
+ *
+ * Pure helpers for the checklist activity feed. The feed merges every item's
+ * history with checklist-level changes (rename, position reassignment,
+ * operational period moves, items added, removed or reordered, sign-off steps); these filter, merge and
+ * describe entries and flatten them for CSV export.
+ */
+
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ChecklistHistoryAction, ItemHistoryAction, type ChecklistActivity } from '../types';
+import {
+  describeHistoryEntry,
+  formatHistoryAuthor,
+  getHistoryEntryKind,
+  type HistoryEntryDescription,
+  type HistoryEntryKind,
+} from './itemHistory';
+import { rowsToCsv } from './csv';
+import { formatIcs214DateTime } from './ics214';
+
+/**
+ * Action type filter: the item history kinds plus checklist-level changes
+ */
+export type ActivityActionType = HistoryEntryKind | 'checklist';
+
+/**
+ * Action type filter options, in display order
+ */
+export const ACTIVITY_ACTION_TYPES: { value: ActivityActionType; label: string }[] = [
+  { value: 'completion', label: 'Completion' },
+  { value: 'status', label: 'Status' },
+  { value: 'value', label: 'Values' },
+  { value: 'note', label: 'Notes' },
+  { value: 'checklist', label: 'Checklist changes' },
+];
+
+/**
+ * Time window filter options ("what happened in the last hour")
+ */
+export const ACTIVITY_TIME_WINDOWS: { minutes: number; label: string }[] = [
+  { minutes: 60, label: 'Last hour' },
+  { minutes: 24 * 60, label: 'Last 24 hours' },
+];
+
+/**
+ * Feed filters (omitted fields don't filter)
+ */
+export interface ActivityFilters {
+  /** Position of whoever made the change */
+  position?: string;
+  actionType?: ActivityActionType;
+  /** Only changes at or after this time (ISO 8601) */
+  since?: string;
+}
+
+/**
+ * Item fields used to format values in descriptions
+ */
+type ActivityItem = Pick<ChecklistItemDto, 'id' | 'itemType' | 'valueConfiguration'>;
+
+const CHECKLIST_ACTIONS = new Set<string>(Object.values(ChecklistHistoryAction));
+
+/**
+ * Item changes filed under checklist changes (the checklist's item list changed)
+ */
+const ITEM_LIST_ACTIONS = new Set<string>([ItemHistoryAction.ADDED, ItemHistoryAction.REMOVED]);
+
+/**
+ * Whether the entry is a checklist-level change (no item)
+ */
+export const isChecklistChange = (entry: Pick<ChecklistActivity, 'action'>): boolean =>
+  CHECKLIST_ACTIONS.has(entry.action);
+
+/**
+ * Which action type the entry belongs to
+ */
+export const getActivityActionType = (entry: Pick<ChecklistActivity, 'action'>): ActivityActionType =>
+  isChecklistChange(entry) || ITEM_LIST_ACTIONS.has(entry.action)
+    ? 'checklist'
+    : getHistoryEntryKind(entry.action as ItemHistoryAction);
+
+/**
+ * Assigned positions for display ("All positions" when unassigned)
+ */
+const formatPositions = (positions?: string): string => {
+  const list = (positions ?? '')
+    .split(',')
+    .map((p) => p.trim())
+    .filter(Boolean);
+  return list.length > 0 ? list.join(', ') : 'All positions';
+};
+
+/**
+ * Describe a feed entry
+ * @param item Item the entry belongs to (formats values with their unit or date format)
+ */
+export const describeActivity = (
+  entry: ChecklistActivity,
+  item?: Pick<ChecklistItemDto, 'itemType' | 'valueConfiguration'>
+): HistoryEntryDescription => {
+  switch (entry.action) {
+    case ChecklistHistoryAction.RENAMED:
+      return { summary: `Checklist renamed: ${entry.previousValue ?? ''} → ${entry.newValue ?? ''}` };
+    case ChecklistHistoryAction.POSITIONS_CHANGED:
+      return {
+        summary: `Positions: ${formatPositions(entry.previousValue)} → ${formatPositions(entry.newValue)}`,
+      };
+    case ChecklistHistoryAction.OPERATIONAL_PERIOD_CHANGED:
+      return {
+        summary: `Operational period: ${entry.previousValue || 'Incident-level'} → ${
+          entry.newValue || 'Incident-level'
+        }`,
+      };
+    case ChecklistHistoryAction.ITEMS_REORDERED:
+      return { summary: 'Items reordered' };
+    case ChecklistHistoryAction.SUBMITTED_FOR_SIGN_OFF:
+      return { summary: 'Submitted for sign-off' };
+    case ChecklistHistoryAction.SIGNED_OFF:
+      return { summary: entry.newValue ? `Signed off by ${entry.newValue}` : 'Signed off' };
+    case ChecklistHistoryAction.REOPENED:
+      return { summary: 'Checklist reopened', detail: entry.newValue };
+    default:
+      return describeHistoryEntry({ ...entry, action: entry.action as ItemHistoryAction }, item);
+  }
+};
+
+/**
+ * Entries matching the filters
+ */
+export const filterActivity = (entries: ChecklistActivity[], filters: ActivityFilters): ChecklistActivity[] => {
+  const since = filters.since ? new Date(filters.since).getTime() : undefined;
+  return entries.filter(
+    (entry) =>
+      (!filters.position || entry.changedByPosition === filters.position) &&
+      (!filters.actionType || getActivityActionType(entry) === filters.actionType) &&
+      (since === undefined || new Date(entry.changedAt).getTime() >= since)
+  );
+};
+
+/**
+ * Positions that made changes, for the position filter
+ */
+export const getActivityPositions = (entries: ChecklistActivity[]): string[] =>
+  [...new Set(entries.map((entry) => entry.changedByPosition).filter(Boolean))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+/**
+ * Add newly fetched entries to the feed (newest first; repeated ids replaced)
+ */
+export const mergeActivity = (entries: ChecklistActivity[], incoming: ChecklistActivity[]): ChecklistActivity[] => {
+  const incomingIds = new Set(incoming.map((entry) => entry.id));
+  return [...entries.filter((entry) => !incomingIds.has(entry.id)), ...incoming].sort(
+    (a, b) => new Date(b.changedAt).getTime() - new Date(a.changedAt).getTime()
+  );
+};
+
+/**
+ * Time of the newest entry, to fetch only what happened since
+ */
+export const getLatestActivityTime = (entries: ChecklistActivity[]): string | undefined =>
+  entries.reduce<string | undefined>(
+    (latest, entry) =>
+      !latest || new Date(entry.changedAt).getTime() > new Date(latest).getTime() ? entry.changedAt : latest,
+    undefined
+  );
+
+/**
+ * Column headings for the CSV export
+ */
+export const ACTIVITY_COLUMNS = ['Date/Time', 'Position', 'Changed By', 'Item', 'Action', 'Details'] as const;
+
+/**
+ * Flatten entries into rows (header row first), oldest first like a log
+ * @param items Checklist items, to format values with their unit or date format
+ */
+export const activityToRows = (entries: ChecklistActivity[], items: ActivityItem[] = []): string[][] => {
+  const itemsById = new Map(items.map((item) => [item.id, item]));
+  return [
+    [...ACTIVITY_COLUMNS],
+    ...[...entries]
+      .sort((a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime())
+      .map((entry) => {
+        const description = describeActivity(entry, entry.itemId ? itemsById.get(entry.itemId) : undefined);
+        return [
+          formatIcs214DateTime(entry.changedAt),
+          formatHistoryAuthor(entry),
+          entry.changedBy,
+          entry.itemText ?? 'Checklist',
+          description.summary,
+          description.detail ?? '',
+        ];
+      }),
+  ];
+};
+
+/**
+ * Serialize entries as CSV
+ */
+export const activityToCsv = (entries: ChecklistActivity[], items: ActivityItem[] = []): string =>
+  rowsToCsv(activityToRows(entries, items));
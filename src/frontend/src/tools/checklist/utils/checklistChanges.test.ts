@@ -0,0 +1,123 @@
+/**
+ * Checklist Change Tests
+ *
+ * Tests merging reconnect catch-up changes into a checklist and a checklist list.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applyChecklistChanges, mergeChangedChecklists } from './checklistChanges';
+import type {
+  ChecklistChangesDto,
+  ChecklistInstanceDto,
+  ChecklistItemDto,
+} from '../services/checklistService';
+
+const createItem = (id: string, displayOrder: number, overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: `template-${id}`,
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder,
+  isRequired: false,
+  isCompleted: false,
+  createdAt: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (id: string, overrides: Partial<ChecklistInstanceDto> = {}): ChecklistInstanceDto => ({
+  id,
+  name: `Checklist ${id}`,
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Hurricane Test',
+  progressPercentage: 0,
+  totalItems: 2,
+  completedItems: 0,
+  requiredItems: 0,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'safety@cobra.mil',
+  createdByPosition: 'Safety Officer',
+  createdAt: '2026-10-19T10:00:00Z',
+  items: [],
+  ...overrides,
+});
+
+describe('applyChecklistChanges', () => {
+  const checklist = createChecklist('checklist-1', {
+    items: [createItem('a', 10, { attachmentCount: 1 }), createItem('b', 20)],
+  });
+
+  it('replaces changed items and keeps the others', () => {
+    const changes: ChecklistChangesDto = {
+      checklistId: 'checklist-1',
+      since: '2026-10-19T11:00:00Z',
+      serverTime: '2026-10-19T11:05:00Z',
+      checklist: createChecklist('checklist-1', { name: 'Renamed', progressPercentage: 50, completedItems: 1 }),
+      changedItems: [createItem('b', 20, { isCompleted: true, attachmentCount: 2 })],
+    };
+
+    const result = applyChecklistChanges(checklist, changes);
+
+    expect(result.name).toBe('Renamed');
+    expect(result.progressPercentage).toBe(50);
+    expect(result.items.map((item) => item.id)).toEqual(['a', 'b']);
+    expect(result.items[0]).toBe(checklist.items[0]);
+    expect(result.items[1].isCompleted).toBe(true);
+    expect(result.attachmentCount).toBe(3);
+  });
+
+  it('adds new items in display order', () => {
+    const changes: ChecklistChangesDto = {
+      checklistId: 'checklist-1',
+      since: '2026-10-19T11:00:00Z',
+      serverTime: '2026-10-19T11:05:00Z',
+      checklist: createChecklist('checklist-1'),
+      changedItems: [createItem('c', 15)],
+    };
+
+    const result = applyChecklistChanges(checklist, changes);
+
+    expect(result.items.map((item) => item.id)).toEqual(['a', 'c', 'b']);
+  });
+
+  it('drops removed items', () => {
+    const changes: ChecklistChangesDto = {
+      checklistId: 'checklist-1',
+      since: '2026-10-19T11:00:00Z',
+      serverTime: '2026-10-19T11:05:00Z',
+      checklist: createChecklist('checklist-1', { totalItems: 1 }),
+      changedItems: [createItem('b', 10)],
+      removedItemIds: ['a'],
+    };
+
+    const result = applyChecklistChanges(checklist, changes);
+
+    expect(result.items.map((item) => item.id)).toEqual(['b']);
+    expect(result.attachmentCount).toBe(0);
+  });
+});
+
+describe('mergeChangedChecklists', () => {
+  const checklists = [createChecklist('one'), createChecklist('two')];
+
+  it('updates changed checklists and appends new ones', () => {
+    const result = mergeChangedChecklists(
+      checklists,
+      [createChecklist('two', { progressPercentage: 100 }), createChecklist('three')],
+      false
+    );
+
+    expect(result.map((checklist) => checklist.id)).toEqual(['one', 'two', 'three']);
+    expect(result[1].progressPercentage).toBe(100);
+  });
+
+  it('drops checklists archived since unless archived ones are shown', () => {
+    const archived = [createChecklist('one', { isArchived: true })];
+
+    expect(mergeChangedChecklists(checklists, archived, false).map((c) => c.id)).toEqual(['two']);
+    expect(mergeChangedChecklists(checklists, archived, true).map((c) => c.id)).toEqual(['one', 'two']);
+  });
+});
@@ -0,0 +1,45 @@
+/**
+ * Checklist Change Utilities
+ *
+ * Pure helpers for merging changes fetched after a real-time reconnect
+ * (see core/utils/hubCatchUp) into checklists already on screen, so pages
+ * catch up without a full reload.
+ */
+
+import { upsertById } from '../../../core/utils/hubCatchUp';
+import type { ChecklistChangesDto, ChecklistInstanceDto } from '../services/checklistService';
+
+/**
+ * Apply a checklist's changes: metadata and progress from the server, changed
+ * items replaced (or added), removed items dropped, unchanged items kept as they are
+ */
+export const applyChecklistChanges = (
+  checklist: ChecklistInstanceDto,
+  changes: ChecklistChangesDto
+): ChecklistInstanceDto => {
+  const removed = new Set(changes.removedItemIds ?? []);
+  const items = upsertById(checklist.items, changes.changedItems)
+    .filter((item) => !removed.has(item.id))
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+
+  return {
+    ...changes.checklist,
+    items,
+    attachmentCount: items.reduce((sum, item) => sum + (item.attachmentCount ?? 0), 0),
+  };
+};
+
+/**
+ * Merge checklists created or changed since a time into a list.
+ * Checklists archived meanwhile are dropped unless archived ones are shown.
+ */
+export const mergeChangedChecklists = (
+  checklists: ChecklistInstanceDto[],
+  changed: ChecklistInstanceDto[],
+  includeArchived: boolean
+): ChecklistInstanceDto[] => {
+  const hidden = new Set(
+    changed.filter((checklist) => checklist.isArchived && !includeArchived).map((checklist) => checklist.id)
+  );
+  return upsertById(checklists, changed).filter((checklist) => !hidden.has(checklist.id));
+};
@@ -0,0 +1,244 @@
+/**
+ * Checklist Print Tests
+ *
+ * Tests blank and filled printable checklists, batch filtering by position
+ * and operational period, and the printable HTML (glyphs, escaping, page
+ * breaks). Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  checklistToPrintable,
+  filterChecklistsForPrint,
+  getPrintPeriods,
+  getPrintPositions,
+  renderChecklistPrintHtml,
+  templateToPrintable,
+} from './checklistPrint';
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+import { ChecklistSignOffStatus, ItemType } from '../types';
+
+const createItem = (overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id: `item-${Math.random()}`,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: 'template-item-1',
+  itemText: 'Establish command post',
+  itemType: 'checkbox',
+  displayOrder: 1,
+  isRequired: false,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (
+  items: ChecklistItemDto[],
+  overrides: Partial<ChecklistInstanceDto> = {}
+): ChecklistInstanceDto => ({
+  id: 'checklist-1',
+  name: 'IC Checklist',
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Hurricane Milton Response',
+  operationalPeriodId: 'op-1',
+  operationalPeriodName: 'Day 1',
+  progressPercentage: 0,
+  totalItems: items.length,
+  completedItems: items.filter((item) => item.isCompleted).length,
+  requiredItems: 0,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'ic@cobra.mil',
+  createdByPosition: 'Incident Commander',
+  createdAt: '2025-01-01T00:00:00Z',
+  items,
+  ...overrides,
+});
+
+const completedItem = createItem({
+  itemText: 'Establish command post',
+  isCompleted: true,
+  completedBy: 'ic@cobra.mil',
+  completedByPosition: 'Incident Commander',
+  completedAt: '2025-01-01T10:00:00Z',
+  notes: [
+    {
+      id: 'note-2',
+      checklistItemId: 'item-1',
+      noteText: 'Moved to EOC',
+      createdBy: 'ic@cobra.mil',
+      createdByPosition: 'Incident Commander',
+      createdAt: '2025-01-01T12:00:00Z',
+      isEdited: false,
+    },
+    {
+      id: 'note-1',
+      checklistItemId: 'item-1',
+      noteText: 'Set up at station 4',
+      createdBy: 'ops@cobra.mil',
+      createdByPosition: '',
+      createdAt: '2025-01-01T09:00:00Z',
+      isEdited: false,
+    },
+  ],
+});
+
+describe('checklistToPrintable', () => {
+  it('prints completion, who, notes and progress on a filled copy', () => {
+    const checklist = createChecklist([completedItem, createItem({ itemText: 'Brief staff', displayOrder: 2 })]);
+
+    const printable = checklistToPrintable(checklist, 'filled');
+
+    const [first, second] = printable.sections[0].items;
+    expect(first.isCompleted).toBe(true);
+    expect(first.completedBy).toBe('Incident Commander');
+    expect(first.notes.map((note) => note.text)).toEqual(['Set up at station 4', 'Moved to EOC']);
+    expect(first.notes[0].author).toBe('ops@cobra.mil');
+    expect(second.isCompleted).toBe(false);
+    expect(printable.progress).toBe('1 of 2 items complete');
+  });
+
+  it('leaves completion and notes off a blank copy', () => {
+    const printable = checklistToPrintable(createChecklist([completedItem]), 'blank');
+
+    const [item] = printable.sections[0].items;
+    expect(item.isCompleted).toBe(false);
+    expect(item.completedBy).toBeUndefined();
+    expect(item.notes).toEqual([]);
+    expect(printable.progress).toBeUndefined();
+  });
+
+  it('keeps sections in item order with status choices and units', () => {
+    const checklist = createChecklist([
+      createItem({
+        itemText: 'Fuel level',
+        itemType: 'number',
+        sectionName: 'Logistics',
+        displayOrder: 3,
+        valueConfiguration: JSON.stringify({ unit: 'gal' }),
+      }),
+      createItem({
+        itemText: 'Shelter status',
+        itemType: 'status',
+        sectionName: 'Setup',
+        displayOrder: 1,
+        statusConfiguration: JSON.stringify(['Not Started', 'In Progress', 'Complete']),
+      }),
+    ]);
+
+    const printable = checklistToPrintable(checklist, 'blank');
+
+    expect(printable.sections.map((section) => section.name)).toEqual(['Setup', 'Logistics']);
+    expect(printable.sections[0].items[0].statusOptions).toEqual(['Not Started', 'In Progress', 'Complete']);
+    expect(printable.sections[1].items[0].unit).toBe('gal');
+  });
+
+  it('records the supervisor once signed off', () => {
+    const printable = checklistToPrintable(
+      createChecklist([completedItem], {
+        signOffStatus: ChecklistSignOffStatus.SIGNED_OFF,
+        signedOffBy: 'chief@cobra.mil',
+        signedOffByName: 'Pat Chief',
+        signedOffByPosition: 'Operations Section Chief',
+      }),
+      'filled'
+    );
+
+    expect(printable.signedOff).toContain('Pat Chief');
+  });
+});
+
+describe('templateToPrintable', () => {
+  it('leaves the operational period to be written in', () => {
+    const printable = templateToPrintable(
+      {
+        name: 'Shelter Opening',
+        recommendedPositions: JSON.stringify(['Mass Care Lead']),
+        items: [
+          {
+            id: 'template-item-1',
+            templateId: 'template-1',
+            itemText: 'Open shelter',
+            itemType: ItemType.CHECKBOX,
+            displayOrder: 1,
+            isRequired: true,
+          },
+        ],
+      },
+      { eventName: 'Hurricane Milton Response' }
+    );
+
+    expect(printable.mode).toBe('blank');
+    expect(printable.operationalPeriodName).toBe('');
+    expect(printable.positions).toEqual(['Mass Care Lead']);
+    expect(printable.sections[0].items[0].itemText).toBe('Open shelter');
+  });
+});
+
+describe('batch print filtering', () => {
+  const checklists = [
+    createChecklist([], { id: 'c1', name: 'Safety', assignedPositions: 'Safety Officer' }),
+    createChecklist([], { id: 'c2', name: 'Command', assignedPositions: 'Incident Commander, Safety Officer' }),
+    createChecklist([], {
+      id: 'c3',
+      name: 'Everyone',
+      operationalPeriodId: 'op-2',
+      operationalPeriodName: 'Day 2',
+    }),
+  ];
+
+  it('includes unassigned checklists for any position, sorted by name', () => {
+    expect(filterChecklistsForPrint(checklists, { position: 'Incident Commander' }).map((c) => c.id)).toEqual([
+      'c2',
+      'c3',
+    ]);
+    expect(filterChecklistsForPrint(checklists, {}).map((c) => c.name)).toEqual(['Command', 'Everyone', 'Safety']);
+  });
+
+  it('filters by operational period', () => {
+    expect(filterChecklistsForPrint(checklists, { operationalPeriodId: 'op-2' }).map((c) => c.id)).toEqual(['c3']);
+  });
+
+  it('lists distinct positions and periods', () => {
+    expect(getPrintPositions(checklists)).toEqual(['Incident Commander', 'Safety Officer']);
+    expect(getPrintPeriods(checklists)).toEqual([
+      { id: 'op-1', name: 'Day 1' },
+      { id: 'op-2', name: 'Day 2' },
+    ]);
+  });
+});
+
+describe('renderChecklistPrintHtml', () => {
+  it('renders checkbox glyphs, notes and the event header', () => {
+    const html = renderChecklistPrintHtml(
+      [checklistToPrintable(createChecklist([completedItem, createItem({ itemText: 'Brief staff' })]), 'filled')],
+      { printedBy: 'Pat Chief', printedAt: '2025-01-02T00:00:00Z' }
+    );
+
+    expect(html).toContain('&#9745;');
+    expect(html).toContain('&#9744;');
+    expect(html).toContain('Hurricane Milton Response');
+    expect(html).toContain('Day 1');
+    expect(html).toContain('Moved to EOC');
+    expect(html).toContain('Printed:');
+  });
+
+  it('starts each checklist on a new page and keeps rows together', () => {
+    const printable = checklistToPrintable(createChecklist([completedItem]), 'blank');
+    const html = renderChecklistPrintHtml([printable, printable], { printedBy: 'Pat Chief' });
+
+    expect(html.match(/<section class="checklist">/g)).toHaveLength(2);
+    expect(html).toContain('page-break-after: always');
+    expect(html).toContain('page-break-inside: avoid');
+    expect(html).not.toContain('Moved to EOC');
+  });
+
+  it('escapes checklist content', () => {
+    const html = renderChecklistPrintHtml(
+      [checklistToPrintable(createChecklist([createItem({ itemText: '<script>alert(1)</script>' })]), 'blank')],
+      { printedBy: 'Pat Chief' }
+    );
+
+    expect(html).not.toContain('<script>');
+    expect(html).toContain('&lt;script&gt;');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Checklist Print Utility
+ *
+ * Paper fallback for power and network outages. Builds a print layout for:
+ * - A blank checklist from a template (TemplatePreviewPage)
+ * - A checklist, blank or filled with its current completion, who/when,
+ *   values, statuses and notes (ChecklistDetailPage)
+ * - A batch of checklists for a position or operational period
+ *   (ManageChecklistsPage), one checklist per page
+ *
+ * Everything is generated in the browser from data already loaded, so it
+ * works from the offline copy. The HTML opens in the print dialog
+ * ("Save as PDF" for a PDF), like the ICS-214 export.
+ */
+
+import { format } from 'date-fns';
+import type { ChecklistInstanceDto } from '../services/checklistService';
+import { ItemType, type StatusOption, type Template } from '../types';
+import { formatItemValue, parseValueConfiguration, YES_NO_VALUES } from './itemValue';
+import { formatNoteAuthor, sortNotes } from './itemNotes';
+import { groupItemsBySection } from './itemSections';
+import { formatSignedOffBy, isChecklistSignedOff } from './checklistSignOff';
+import { escapeHtml } from './html';
+
+/**
+ * Blank (items to fill in by hand) or filled (current completion)
+ */
+export type ChecklistPrintMode = 'blank' | 'filled';
+
+/**
+ * Which checklists a batch print covers (unset = any)
+ */
+export interface ChecklistPrintFilter {
+  position?: string;
+  operationalPeriodId?: string;
+}
+
+/**
+ * Note as printed under an item
+ */
+export interface PrintableNote {
+  text: string;
+  author: string;
+  createdAt: string; // ISO 8601 datetime
+}
+
+/**
+ * One item of a printed checklist
+ */
+export interface PrintableItem {
+  itemText: string;
+  itemType: string;
+  isRequired: boolean;
+  statusOptions: string[]; // Status items: every option, in order
+  unit?: string; // Number items
+  // Filled only
+  isCompleted: boolean;
+  currentStatus?: string;
+  value?: string; // Formatted value ("42 gal")
+  completedBy?: string;
+  completedAt?: string; // ISO 8601 datetime
+  notes: PrintableNote[];
+}
+
+/**
+ * Items under one section heading (null = no section)
+ */
+export interface PrintableSection {
+  name: string | null;
+  items: PrintableItem[];
+}
+
+/**
+ * A checklist ready to print
+ */
+export interface PrintableChecklist {
+  name: string;
+  mode: ChecklistPrintMode;
+  eventName: string;
+  operationalPeriodName?: string;
+  positions: string[];
+  sections: PrintableSection[];
+  /** Filled only: "5 of 8 items complete" */
+  progress?: string;
+  /** Filled only: who signed the checklist off */
+  signedOff?: string;
+}
+
+/**
+ * Header information shared by every page
+ */
+export interface ChecklistPrintOptions {
+  printedBy: string;
+  printedAt?: string; // ISO 8601 datetime (defaults to now)
+}
+
+/**
+ * Item fields shared by template items and checklist items
+ */
+type PrintSourceItem = {
+  itemText: string;
+  itemType: string;
+  displayOrder: number;
+  isRequired: boolean;
+  sectionName?: string | null;
+  statusConfiguration?: string | null;
+  valueConfiguration?: string | null;
+};
+
+const formatDateTime = (value?: string): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : format(date, 'MMM d, yyyy HH:mm');
+};
+
+/**
+ * Status option labels in order (accepts option objects or plain strings)
+ */
+const parseStatusLabels = (statusConfiguration?: string | null): string[] => {
+  if (!statusConfiguration) return [];
+  try {
+    const parsed = JSON.parse(statusConfiguration) as (StatusOption | string)[];
+    return parsed
+      .map((option, index) =>
+        typeof option === 'string' ? { label: option, order: index } : { label: option.label, order: option.order }
+      )
+      .sort((a, b) => a.order - b.order)
+      .map((option) => option.label);
+  } catch {
+    return [];
+  }
+};
+
+const toBlankItem = (item: PrintSourceItem): PrintableItem => ({
+  itemText: item.itemText,
+  itemType: item.itemType,
+  isRequired: item.isRequired,
+  statusOptions: item.itemType === ItemType.STATUS ? parseStatusLabels(item.statusConfiguration) : [],
+  unit: parseValueConfiguration(item.valueConfiguration)?.unit || undefined,
+  isCompleted: false,
+  notes: [],
+});
+
+const toSections = <T extends PrintSourceItem>(
+  items: T[],
+  toItem: (item: T) => PrintableItem
+): PrintableSection[] =>
+  groupItemsBySection([...items].sort((a, b) => a.displayOrder - b.displayOrder)).map((section) => ({
+    name: section.name,
+    items: section.items.map(toItem),
+  }));
+
+/**
+ * Split a comma-separated position list
+ */
+const parsePositions = (assignedPositions?: string): string[] =>
+  (assignedPositions ?? '')
+    .split(',')
+    .map((position) => position.trim())
+    .filter(Boolean);
+
+/**
+ * Blank checklist from a template. Without a period the header is left
+ * empty to be written in.
+ */
+export const templateToPrintable = (
+  template: Pick<Template, 'name' | 'items' | 'recommendedPositions'>,
+  header: { eventName: string; operationalPeriodName?: string }
+): PrintableChecklist => {
+  let positions: string[] = [];
+  try {
+    positions = template.recommendedPositions ? (JSON.parse(template.recommendedPositions) as string[]) : [];
+  } catch {
+    positions = [];
+  }
+
+  return {
+    name: template.name,
+    mode: 'blank',
+    eventName: header.eventName,
+    operationalPeriodName: header.operationalPeriodName ?? '',
+    positions,
+    sections: toSections(template.items, toBlankItem),
+  };
+};
+
+/**
+ * Checklist to print, blank or filled with its current state
+ */
+export const checklistToPrintable = (checklist: ChecklistInstanceDto, mode: ChecklistPrintMode): PrintableChecklist => {
+  const base = {
+    name: checklist.name,
+    mode,
+    eventName: checklist.eventName,
+    operationalPeriodName: checklist.operationalPeriodName,
+    positions: parsePositions(checklist.assignedPositions),
+  };
+
+  if (mode === 'blank') {
+    return { ...base, sections: toSections(checklist.items, toBlankItem) };
+  }
+
+  return {
+    ...base,
+    sections: toSections(checklist.items, (item) => ({
+      ...toBlankItem(item),
+      isCompleted: !!item.isCompleted,
+      currentStatus: item.currentStatus || undefined,
+      value: formatItemValue(item) ?? undefined,
+      completedBy: item.isCompleted ? item.completedByPosition || item.completedBy : undefined,
+      completedAt: item.isCompleted ? item.completedAt : undefined,
+      notes: sortNotes(item.notes ?? []).map((note) => ({
+        text: note.noteText,
+        author: formatNoteAuthor(note),
+        createdAt: note.createdAt,
+      })),
+    })),
+    progress: `${checklist.completedItems} of ${checklist.totalItems} items complete`,
+    signedOff: isChecklistSignedOff(checklist)
+      ? `Signed off by ${formatSignedOffBy(checklist)}${
+          checklist.signedOffAt ? ` on ${formatDateTime(checklist.signedOffAt)}` : ''
+        }`
+      : undefined,
+  };
+};
+
+/**
+ * Checklists in a batch print (a checklist with no assigned positions is
+ * visible to every position, so it is included for any position)
+ */
+export const filterChecklistsForPrint = (
+  checklists: ChecklistInstanceDto[],
+  filter: ChecklistPrintFilter
+): ChecklistInstanceDto[] =>
+  checklists
+    .filter((checklist) => {
+      if (filter.operationalPeriodId && checklist.operationalPeriodId !== filter.operationalPeriodId) {
+        return false;
+      }
+      if (filter.position) {
+        const positions = parsePositions(checklist.assignedPositions);
+        return positions.length === 0 || positions.includes(filter.position);
+      }
+      return true;
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+/**
+ * Positions assigned across checklists, for the batch position filter
+ */
+export const getPrintPositions = (checklists: ChecklistInstanceDto[]): string[] =>
+  [...new Set(checklists.flatMap((checklist) => parsePositions(checklist.assignedPositions)))].sort((a, b) =>
+    a.localeCompare(b)
+  );
+
+/**
+ * Operational periods across checklists (first-seen order), for the batch period filter
+ */
+export const getPrintPeriods = (checklists: ChecklistInstanceDto[]): { id: string; name: string }[] => {
+  const periods = new Map<string, string>();
+  checklists.forEach((checklist) => {
+    if (checklist.operationalPeriodId && !periods.has(checklist.operationalPeriodId)) {
+      periods.set(checklist.operationalPeriodId, checklist.operationalPeriodName || checklist.operationalPeriodId);
+    }
+  });
+  return [...periods].map(([id, name]) => ({ id, name }));
+};
+
+const BOX = '&#9744;'; // ☐
+const CHECKED_BOX = '&#9745;'; // ☑
+
+const box = (checked: boolean) => `<span class="box">${checked ? CHECKED_BOX : BOX}</span>`;
+
+/**
+ * Answer area of an item: choices with boxes, or a line to write on
+ */
+const renderAnswerHtml = (item: PrintableItem, filled: boolean): string => {
+  if (item.itemType === ItemType.STATUS) {
+    return `<div class="choices">${item.statusOptions
+      .map((option) => `${box(filled && item.currentStatus === option)} ${escapeHtml(option)}`)
+      .join(' &nbsp; ')}</div>`;
+  }
+  if (item.itemType === ItemType.YESNO) {
+    return `<div class="choices">${YES_NO_VALUES.map(
+      (answer) => `${box(filled && item.value === answer)} ${answer}`
+    ).join(' &nbsp; ')}</div>`;
+  }
+  if (item.itemType === ItemType.CHECKBOX) {
+    return '';
+  }
+  if (filled && item.value) {
+    return `<div class="value">${escapeHtml(item.value)}</div>`;
+  }
+  return `<div class="line">${item.unit ? `<span class="unit">${escapeHtml(item.unit)}</span>` : ''}</div>`;
+};
+
+/**
+ * Render one item row
+ */
+const renderItemHtml = (item: PrintableItem, filled: boolean): string => {
+  const done = filled && item.isCompleted;
+  const by = done && item.completedBy ? `${escapeHtml(item.completedBy)}` : '';
+  const when = done ? escapeHtml(formatDateTime(item.completedAt)) : '';
+  const notes = filled
+    ? item.notes
+        .map(
+          (note) =>
+            `<div class="note">&ldquo;${escapeHtml(note.text)}&rdquo; &mdash; ${escapeHtml(
+              note.author
+            )}, ${escapeHtml(formatDateTime(note.createdAt))}</div>`
+        )
+        .join('')
+    : '';
+
+  return `<tr>
+  <td class="check">${box(done)}</td>
+  <td>${escapeHtml(item.itemText)}${item.isRequired ? ' <span class="required">*</span>' : ''}${renderAnswerHtml(
+    item,
+    filled
+  )}${notes}</td>
+  <td class="by">${by}</td>
+  <td class="time">${when}</td>
+</tr>`;
+};
+
+/**
+ * Render one checklist (starts on a new page)
+ */
+const renderChecklistHtml = (checklist: PrintableChecklist, options: Required<ChecklistPrintOptions>): string => {
+  const filled = checklist.mode === 'filled';
+  const sections = checklist.sections
+    .map(
+      (section) => `<table class="items">
+  <thead>
+    ${section.name ? `<tr><th colspan="4" class="section">${escapeHtml(section.name)}</th></tr>` : ''}
+    <tr><th class="check">Done</th><th>Item</th><th class="by">By</th><th class="time">Date/Time</th></tr>
+  </thead>
+  <tbody>${section.items.map((item) => renderItemHtml(item, filled)).join('')}</tbody>
+</table>`
+    )
+    .join('\n');
+
+  return `
+<section class="checklist">
+  <table class="header">
+    <tr><th colspan="2" class="title">${escapeHtml(checklist.name)}</th></tr>
+    <tr>
+      <td><span class="label">Event:</span> ${escapeHtml(checklist.eventName)}</td>
+      <td><span class="label">Operational Period:</span> ${escapeHtml(
+        checklist.operationalPeriodName ?? 'Incident-level'
+      )}</td>
+    </tr>
+    <tr>
+      <td><span class="label">Position(s):</span> ${escapeHtml(checklist.positions.join(', ') || 'All positions')}</td>
+      <td><span class="label">${filled ? 'Status' : 'Copy'}:</span> ${escapeHtml(
+        filled ? checklist.progress ?? '' : 'Blank - complete by hand'
+      )}</td>
+    </tr>
+  </table>
+  ${sections || '<p>No items in this checklist</p>'}
+  <p class="legend">* Required item</p>
+  <table class="footer">
+    <tr>
+      <td><span class="label">${filled && checklist.signedOff ? escapeHtml(checklist.signedOff) : 'Supervisor sign-off:'}</span></td>
+      <td><span class="label">Printed:</span> ${escapeHtml(formatDateTime(options.printedAt))} by ${escapeHtml(
+        options.printedBy
+      )}</td>
+    </tr>
+  </table>
+</section>`;
+};
+
+/**
+ * Render a printable HTML document with one checklist per page. Sections
+ * avoid starting at the bottom of a page and repeat their column headings
+ * when they run over; item rows are never split.
+ */
+export const renderChecklistPrintHtml = (
+  checklists: PrintableChecklist[],
+  options: ChecklistPrintOptions
+): string => {
+  const resolved = { printedBy: options.printedBy, printedAt: options.printedAt ?? new Date().toISOString() };
+  const title = checklists.length === 1 ? checklists[0].name : `${checklists.length} checklists`;
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>${escapeHtml(title)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #000; margin: 0; }
+  .checklist { padding: 16px; page-break-after: always; }
+  .checklist:last-child { page-break-after: auto; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { border: 1px solid #000; padding: 4px 6px; vertical-align: top; text-align: left; }
+  .title { font-size: 14px; text-align: center; }
+  .label { font-weight: bold; }
+  .items { margin-top: 8px; }
+  .items thead { display: table-header-group; }
+  .items tr { page-break-inside: avoid; }
+  .section { background: #eee; font-size: 12px; page-break-after: avoid; }
+  .check { width: 36px; text-align: center; }
+  .box { font-size: 16px; line-height: 1; }
+  .by { width: 140px; }
+  .time { width: 110px; white-space: nowrap; }
+  .required { color: #b00; font-weight: bold; }
+  .choices, .value { margin-top: 4px; }
+  .line { margin-top: 12px; border-bottom: 1px solid #000; width: 60%; text-align: right; }
+  .unit { color: #555; }
+  .note { margin-top: 2px; color: #333; font-style: italic; }
+  .legend { font-size: 9px; color: #555; margin: 4px 0 0; }
+  .footer { margin-top: 12px; page-break-inside: avoid; }
+  .footer td { height: 28px; }
+  @page { size: letter; margin: 0.5in; }
+</style>
+</head>
+<body>
+${checklists.map((checklist) => renderChecklistHtml(checklist, resolved)).join('\n')}
+</body>
+</html>`;
+};
@@ -0,0 +1,76 @@
+/**
+ * Checklist Sign-Off Tests
+ *
+ * Tests sign-off status defaults, when a checklist can be submitted,
+ * separation of duties and the signed-off-by label.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  canSubmitForSignOff,
+  formatSignedOffBy,
+  getRequiredItemsRemaining,
+  getSignOffStatus,
+  isChecklistSignedOff,
+  isOwnSignOffSubmission,
+} from './checklistSignOff';
+import { ChecklistSignOffStatus } from '../types';
+
+const createChecklist = (overrides = {}) => ({
+  signOffStatus: ChecklistSignOffStatus.OPEN,
+  requiredItems: 3,
+  requiredItemsCompleted: 3,
+  isArchived: false,
+  ...overrides,
+});
+
+describe('getSignOffStatus', () => {
+  it('treats a checklist without a status as open', () => {
+    expect(getSignOffStatus({})).toBe(ChecklistSignOffStatus.OPEN);
+    expect(getSignOffStatus(null)).toBe(ChecklistSignOffStatus.OPEN);
+    expect(isChecklistSignedOff(undefined)).toBe(false);
+  });
+
+  it('is signed off only once signed off', () => {
+    expect(isChecklistSignedOff({ signOffStatus: ChecklistSignOffStatus.PENDING_SIGN_OFF })).toBe(false);
+    expect(isChecklistSignedOff({ signOffStatus: ChecklistSignOffStatus.SIGNED_OFF })).toBe(true);
+  });
+});
+
+describe('canSubmitForSignOff', () => {
+  it('allows an open checklist with every required item done', () => {
+    expect(canSubmitForSignOff(createChecklist())).toBe(true);
+    expect(canSubmitForSignOff(createChecklist({ requiredItems: 0, requiredItemsCompleted: 0 }))).toBe(true);
+  });
+
+  it('needs every required item done', () => {
+    const checklist = createChecklist({ requiredItemsCompleted: 1 });
+    expect(getRequiredItemsRemaining(checklist)).toBe(2);
+    expect(canSubmitForSignOff(checklist)).toBe(false);
+  });
+
+  it('rejects checklists already submitted, signed off or archived', () => {
+    expect(canSubmitForSignOff(createChecklist({ signOffStatus: ChecklistSignOffStatus.PENDING_SIGN_OFF }))).toBe(false);
+    expect(canSubmitForSignOff(createChecklist({ signOffStatus: ChecklistSignOffStatus.SIGNED_OFF }))).toBe(false);
+    expect(canSubmitForSignOff(createChecklist({ isArchived: true }))).toBe(false);
+  });
+});
+
+describe('isOwnSignOffSubmission', () => {
+  it('matches the submitter regardless of case', () => {
+    const checklist = createChecklist({ submittedForSignOffBy: 'Lead@Test.com' });
+    expect(isOwnSignOffSubmission(checklist, 'lead@test.com')).toBe(true);
+    expect(isOwnSignOffSubmission(checklist, 'chief@test.com')).toBe(false);
+    expect(isOwnSignOffSubmission(createChecklist(), 'lead@test.com')).toBe(false);
+  });
+});
+
+describe('formatSignedOffBy', () => {
+  it('shows the name and position, falling back to the email', () => {
+    expect(
+      formatSignedOffBy(createChecklist({ signedOffByName: 'Jane Smith', signedOffByPosition: 'Incident Commander' }))
+    ).toBe('Jane Smith (Incident Commander)');
+    expect(formatSignedOffBy(createChecklist({ signedOffBy: 'chief@test.com' }))).toBe('chief@test.com');
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Checklist Sign-Off Utilities
+ *
+ * Pure helpers for the checklist sign-off workflow
+ * (Open -> PendingSignOff -> SignedOff, reopened by a manager):
+ * - Current sign-off status (older responses without one are Open)
+ * - Whether the checklist can be submitted (all required items done)
+ * - Whether the current user can sign off (not their own submission)
+ * - Who signed off, for the banner
+ */
+
+import type { ChecklistInstanceDto } from '../services/checklistService';
+import { ChecklistSignOffStatus } from '../types';
+
+type SignOffFields = Pick<
+  ChecklistInstanceDto,
+  | 'signOffStatus'
+  | 'requiredItems'
+  | 'requiredItemsCompleted'
+  | 'isArchived'
+  | 'submittedForSignOffBy'
+  | 'signedOffByName'
+  | 'signedOffBy'
+  | 'signedOffByPosition'
+>;
+
+/**
+ * Current sign-off status (Open when not set)
+ */
+export const getSignOffStatus = (checklist?: Pick<ChecklistInstanceDto, 'signOffStatus'> | null): ChecklistSignOffStatus =>
+  checklist?.signOffStatus ?? ChecklistSignOffStatus.OPEN;
+
+/**
+ * Whether the checklist is signed off (read-only until reopened)
+ */
+export const isChecklistSignedOff = (checklist?: Pick<ChecklistInstanceDto, 'signOffStatus'> | null): boolean =>
+  getSignOffStatus(checklist) === ChecklistSignOffStatus.SIGNED_OFF;
+
+/**
+ * Required items still to be completed before the checklist can be submitted
+ */
+export const getRequiredItemsRemaining = (
+  checklist: Pick<ChecklistInstanceDto, 'requiredItems' | 'requiredItemsCompleted'>
+): number => Math.max(0, checklist.requiredItems - checklist.requiredItemsCompleted);
+
+/**
+ * Whether the checklist can be submitted for sign-off (same rules as the backend)
+ */
+export const canSubmitForSignOff = (checklist: SignOffFields): boolean =>
+  !checklist.isArchived &&
+  getSignOffStatus(checklist) === ChecklistSignOffStatus.OPEN &&
+  getRequiredItemsRemaining(checklist) === 0;
+
+/**
+ * Whether the user submitted the checklist (and so cannot sign it off)
+ */
+export const isOwnSignOffSubmission = (checklist: SignOffFields, userEmail: string): boolean =>
+  !!checklist.submittedForSignOffBy &&
+  checklist.submittedForSignOffBy.toLowerCase() === userEmail.toLowerCase();
+
+/**
+ * Supervisor who signed off, e.g. "Jane Smith (Incident Commander)"
+ */
+export const formatSignedOffBy = (checklist: SignOffFields): string => {
+  const name = checklist.signedOffByName || checklist.signedOffBy || 'Unknown';
+  return checklist.signedOffByPosition ? `${name} (${checklist.signedOffByPosition})` : name;
+};
@@ -0,0 +1,107 @@
+/**
+ * Combined Checklist Tests
+ *
+ * Tests duplicate detection across templates, the merge preview and block ordering.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildMergePreview,
+  getCombinedChecklistName,
+  getDuplicateItemIds,
+  moveBlock,
+  normalizeItemText,
+} from './combinedChecklist';
+import {
+  ItemType,
+  TemplateApprovalStatus,
+  TemplateCategory,
+  TemplateType,
+  type Template,
+} from '../types';
+
+const createTemplate = (id: string, name: string, itemTexts: string[]): Template => ({
+  id,
+  name,
+  description: '',
+  category: TemplateCategory.SAFETY,
+  tags: '',
+  isActive: true,
+  isArchived: false,
+  templateType: TemplateType.MANUAL,
+  usageCount: 0,
+  currentVersion: 1,
+  approvalStatus: TemplateApprovalStatus.APPROVED,
+  createdBy: 'admin@cobra.mil',
+  createdByPosition: 'Incident Commander',
+  createdAt: '2026-10-01T00:00:00Z',
+  items: itemTexts.map((itemText, index) => ({
+    id: `${id}-item-${index + 1}`,
+    templateId: id,
+    itemText,
+    itemType: ItemType.CHECKBOX,
+    displayOrder: (index + 1) * 10,
+    isRequired: false,
+  })),
+});
+
+const safety = createTemplate('safety', 'Safety Briefing', ['Review hazards', 'Check PPE']);
+const shelter = createTemplate('shelter', 'Shelter Opening', ['Open shelter', '  check   ppe ']);
+const logistics = createTemplate('logistics', 'Logistics', ['Order supplies', 'Check PPE']);
+
+describe('normalizeItemText', () => {
+  it('ignores case and extra whitespace', () => {
+    expect(normalizeItemText('  Check   PPE ')).toBe('check ppe');
+  });
+});
+
+describe('getDuplicateItemIds', () => {
+  it('keeps the copy in the first block and excludes later copies', () => {
+    expect(getDuplicateItemIds([safety, shelter, logistics])).toEqual(['shelter-item-2', 'logistics-item-2']);
+    expect(getDuplicateItemIds([shelter, safety])).toEqual(['safety-item-2']);
+  });
+
+  it('ignores repeated text within a single template', () => {
+    const repeated = createTemplate('repeat', 'Repeat', ['Radio check', 'Radio check']);
+
+    expect(getDuplicateItemIds([repeated, safety])).toEqual([]);
+  });
+});
+
+describe('buildMergePreview', () => {
+  it('marks duplicates and counts the items that will be created', () => {
+    const templates = [safety, shelter];
+    const preview = buildMergePreview(templates, new Set(getDuplicateItemIds(templates)));
+
+    expect(preview.totalItems).toBe(3);
+    expect(preview.duplicateCount).toBe(2);
+    expect(preview.excludedCount).toBe(1);
+    expect(preview.blocks[1].includedCount).toBe(1);
+    expect(preview.blocks[1].items[1]).toMatchObject({ excluded: true, isDuplicate: true, duplicateOf: 'Safety Briefing' });
+    expect(preview.blocks[0].items[1]).toMatchObject({ excluded: false, isDuplicate: true, duplicateOf: null });
+  });
+
+  it('keeps every item when nothing is excluded', () => {
+    const preview = buildMergePreview([safety, shelter], new Set());
+
+    expect(preview.totalItems).toBe(4);
+    expect(preview.excludedCount).toBe(0);
+  });
+});
+
+describe('moveBlock', () => {
+  it('swaps a block with its neighbour and ignores moves past the ends', () => {
+    const blocks = ['a', 'b', 'c'];
+
+    expect(moveBlock(blocks, 1, -1)).toEqual(['b', 'a', 'c']);
+    expect(moveBlock(blocks, 1, 1)).toEqual(['a', 'c', 'b']);
+    expect(moveBlock(blocks, 0, -1)).toBe(blocks);
+  });
+});
+
+describe('getCombinedChecklistName', () => {
+  it('joins the template names in block order', () => {
+    expect(getCombinedChecklistName([shelter, safety])).toBe('Shelter Opening + Safety Briefing');
+  });
+});
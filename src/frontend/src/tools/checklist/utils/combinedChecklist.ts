@@ -0,0 +1,144 @@
+/**
+ * Combined Checklist Utilities
+ *
+ * Pure helpers for creating one checklist from several templates:
+ * - Each template is a block of items, in the order the user arranges them
+ * - Items with the same text in more than one template are duplicates; by
+ *   default only the first one (in block order) is kept
+ * - The preview shows what the combined checklist will contain
+ *
+ * The backend does the actual merge (POST /api/checklists/combined) from the
+ * template order and the excluded item IDs produced here.
+ */
+
+import type { Template, TemplateItem } from '../types';
+
+/**
+ * Maximum checklist name length (matches the backend)
+ */
+const MAX_CHECKLIST_NAME_LENGTH = 200;
+
+/**
+ * An item in the merge preview
+ */
+export interface MergePreviewItem {
+  item: TemplateItem;
+  excluded: boolean;
+  /** Name of the template with the first kept copy of this item's text (duplicates only) */
+  duplicateOf: string | null;
+  /** Whether the item's text appears in another template */
+  isDuplicate: boolean;
+}
+
+/**
+ * A template's block in the merge preview
+ */
+export interface MergePreviewBlock {
+  template: Template;
+  items: MergePreviewItem[];
+  includedCount: number;
+}
+
+/**
+ * Merge preview: the blocks plus totals
+ */
+export interface MergePreview {
+  blocks: MergePreviewBlock[];
+  totalItems: number;
+  duplicateCount: number;
+  excludedCount: number;
+}
+
+/**
+ * Item text for duplicate detection: trimmed, collapsed whitespace, ignoring case
+ */
+export const normalizeItemText = (text: string): string =>
+  text.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Items (in block order) grouped by normalized text, for texts found in more
+ * than one template
+ */
+const getDuplicateGroups = (templates: Template[]): Map<string, { template: Template; item: TemplateItem }[]> => {
+  const groups = new Map<string, { template: Template; item: TemplateItem }[]>();
+
+  templates.forEach((template) => {
+    [...template.items]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .forEach((item) => {
+        const key = normalizeItemText(item.itemText);
+        groups.set(key, [...(groups.get(key) ?? []), { template, item }]);
+      });
+  });
+
+  return new Map(
+    [...groups].filter(([, entries]) => new Set(entries.map((entry) => entry.template.id)).size > 1)
+  );
+};
+
+/**
+ * IDs of the items to leave out so each duplicated text is kept once: the
+ * copies in the first block that has it stay, later blocks' copies go
+ */
+export const getDuplicateItemIds = (templates: Template[]): string[] =>
+  [...getDuplicateGroups(templates).values()].flatMap((entries) =>
+    entries.filter((entry) => entry.template.id !== entries[0].template.id).map((entry) => entry.item.id)
+  );
+
+/**
+ * Build the merge preview for templates in block order
+ */
+export const buildMergePreview = (templates: Template[], excludedItemIds: ReadonlySet<string>): MergePreview => {
+  const duplicateGroups = getDuplicateGroups(templates);
+  const keyByItemId = new Map<string, string>();
+  duplicateGroups.forEach((entries, key) => entries.forEach((entry) => keyByItemId.set(entry.item.id, key)));
+
+  const blocks = templates.map((template) => {
+    const items = [...template.items]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .map((item) => {
+        const key = keyByItemId.get(item.id);
+        const firstKept = key
+          ? duplicateGroups.get(key)?.find((entry) => !excludedItemIds.has(entry.item.id))
+          : undefined;
+        return {
+          item,
+          excluded: excludedItemIds.has(item.id),
+          isDuplicate: key !== undefined,
+          duplicateOf: firstKept && firstKept.item.id !== item.id ? firstKept.template.name : null,
+        };
+      });
+
+    return { template, items, includedCount: items.filter((entry) => !entry.excluded).length };
+  });
+
+  const allItems = blocks.flatMap((block) => block.items);
+  return {
+    blocks,
+    totalItems: allItems.filter((entry) => !entry.excluded).length,
+    duplicateCount: allItems.filter((entry) => entry.isDuplicate).length,
+    excludedCount: allItems.filter((entry) => entry.excluded).length,
+  };
+};
+
+/**
+ * Move a block up (-1) or down (+1); out-of-range moves return the same order
+ */
+export const moveBlock = <T>(blocks: T[], index: number, direction: -1 | 1): T[] => {
+  const target = index + direction;
+  if (target < 0 || target >= blocks.length) {
+    return blocks;
+  }
+  const reordered = [...blocks];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  return reordered;
+};
+
+/**
+ * Default name of a combined checklist: the template names joined with " + "
+ */
+export const getCombinedChecklistName = (templates: Template[]): string =>
+  templates
+    .map((template) => template.name)
+    .join(' + ')
+    .slice(0, MAX_CHECKLIST_NAME_LENGTH);
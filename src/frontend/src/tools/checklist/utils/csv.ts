@@ -0,0 +1,18 @@
+/**
+ * CSV Utility
+ *
+ * Serializes rows of text as RFC 4180 CSV (CRLF line endings), for the
+ * ICS-214 and checklist activity exports.
+ */
+
+/**
+ * Escape a single CSV field (RFC 4180)
+ */
+export const escapeCsvField = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+/**
+ * Serialize rows (header row first) as CSV
+ */
+export const rowsToCsv = (rows: string[][]): string =>
+  rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n');
@@ -0,0 +1,16 @@
+/**
+ * HTML Utility
+ *
+ * Escapes text for the printable HTML documents (ICS-214 PDF export and
+ * checklist print).
+ */
+
+/**
+ * Escape text for HTML output
+ */
+export const escapeHtml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
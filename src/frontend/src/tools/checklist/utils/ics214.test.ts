@@ -0,0 +1,252 @@
+/**
+ * ICS-214 Activity Log Tests
+ *
+ * Tests entry extraction, grouping by operational period and position,
+ * scope filtering and CSV/HTML output. Pure functions with no external
+ * dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  buildIcs214Report,
+  ics214ToCsv,
+  ics214ToRows,
+  renderIcs214Html,
+  type BuildIcs214Options,
+} from './ics214';
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+
+const options: BuildIcs214Options = {
+  incidentName: 'Hurricane Milton Response',
+  scopeLabel: 'Day 1',
+  preparedBy: { name: 'finance@cobra.mil', position: 'Finance/Admin Section Chief' },
+  generatedAt: '2025-01-02T00:00:00Z',
+};
+
+const createItem = (overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id: `item-${Math.random()}`,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: 'template-item-1',
+  itemText: 'Establish command post',
+  itemType: 'checkbox',
+  displayOrder: 1,
+  isRequired: false,
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (
+  items: ChecklistItemDto[],
+  overrides: Partial<ChecklistInstanceDto> = {}
+): ChecklistInstanceDto => ({
+  id: 'checklist-1',
+  name: 'IC Checklist',
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Hurricane Milton Response',
+  operationalPeriodId: 'op-1',
+  operationalPeriodName: 'Day 1',
+  progressPercentage: 0,
+  totalItems: items.length,
+  completedItems: 0,
+  requiredItems: 0,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'ic@cobra.mil',
+  createdByPosition: 'Incident Commander',
+  createdAt: '2025-01-01T00:00:00Z',
+  items,
+  ...overrides,
+});
+
+const completed = (
+  itemText: string,
+  completedAt: string,
+  completedByPosition = 'Incident Commander',
+  completedBy = 'ic@cobra.mil'
+) =>
+  createItem({ itemText, isCompleted: true, completedAt, completedBy, completedByPosition });
+
+describe('buildIcs214Report', () => {
+  it('logs completed items with who completed them', () => {
+    const checklist = createChecklist([
+      completed('Establish command post', '2025-01-01T08:00:00Z'),
+      createItem({ itemText: 'Not done yet' }),
+    ]);
+
+    const report = buildIcs214Report([checklist], { kind: 'checklist', checklistId: 'checklist-1' }, options);
+
+    expect(report.entryCount).toBe(1);
+    expect(report.logs[0].entries[0]).toMatchObject({
+      kind: 'completed',
+      activity: 'Completed: Establish command post',
+      recordedBy: 'ic@cobra.mil',
+      recordedByPosition: 'Incident Commander',
+    });
+  });
+
+  it('logs the captured value of value items', () => {
+    const checklist = createChecklist([
+      {
+        ...completed('Record generator fuel level', '2025-01-01T08:00:00Z'),
+        itemType: 'number',
+        value: '42.5',
+        valueConfiguration: JSON.stringify({ unit: 'gal' }),
+      },
+    ]);
+
+    const report = buildIcs214Report([checklist], { kind: 'checklist', checklistId: 'checklist-1' }, options);
+
+    expect(report.logs[0].entries[0]).toMatchObject({
+      kind: 'completed',
+      activity: 'Record generator fuel level: 42.5 gal',
+    });
+  });
+
+  it('groups entries by operational period and position, sorted by time', () => {
+    const day1 = createChecklist([
+      completed('Brief staff', '2025-01-01T09:00:00Z'),
+      completed('Establish command post', '2025-01-01T08:00:00Z'),
+      completed('Inspect shelter', '2025-01-01T10:00:00Z', 'Safety Officer', 'safety@cobra.mil'),
+    ]);
+    const day2 = createChecklist([completed('Shift change brief', '2025-01-02T08:00:00Z')], {
+      id: 'checklist-2',
+      operationalPeriodId: 'op-2',
+      operationalPeriodName: 'Day 2',
+    });
+
+    const report = buildIcs214Report(
+      [day1, day2],
+      { kind: 'dateRange', from: '2025-01-01T00:00:00Z', to: '2025-01-03T00:00:00Z' },
+      options
+    );
+
+    expect(report.logs.map((log) => [log.operationalPeriodName, log.position])).toEqual([
+      ['Day 1', 'Incident Commander'],
+      ['Day 1', 'Safety Officer'],
+      ['Day 2', 'Incident Commander'],
+    ]);
+    expect(report.logs[0].entries.map((entry) => entry.itemText)).toEqual([
+      'Establish command post',
+      'Brief staff',
+    ]);
+    expect(report.logs[1].resources).toEqual([{ name: 'safety@cobra.mil', position: 'Safety Officer' }]);
+  });
+
+  it('limits an operational period export to checklists in that period', () => {
+    const day1 = createChecklist([completed('A', '2025-01-01T08:00:00Z')]);
+    const day2 = createChecklist([completed('B', '2025-01-02T08:00:00Z')], {
+      id: 'checklist-2',
+      operationalPeriodId: 'op-2',
+    });
+
+    const report = buildIcs214Report(
+      [day1, day2],
+      { kind: 'operationalPeriod', operationalPeriodId: 'op-2' },
+      options
+    );
+
+    expect(report.entryCount).toBe(1);
+    expect(report.logs[0].entries[0].itemText).toBe('B');
+    expect(report.logs[0].periodFrom).toBe('2025-01-02T08:00:00Z');
+  });
+
+  it('limits a date range export to activity inside the range', () => {
+    const checklist = createChecklist([
+      completed('Before', '2024-12-31T23:00:00Z'),
+      completed('Inside', '2025-01-01T12:00:00Z'),
+      completed('After', '2025-01-02T01:00:00Z'),
+    ]);
+
+    const report = buildIcs214Report(
+      [checklist],
+      { kind: 'dateRange', from: '2025-01-01T00:00:00Z', to: '2025-01-01T23:59:59Z' },
+      options
+    );
+
+    expect(report.logs[0].entries.map((entry) => entry.itemText)).toEqual(['Inside']);
+    expect(report.logs[0].periodFrom).toBe('2025-01-01T00:00:00Z');
+  });
+
+  it('logs status items once and each note separately', () => {
+    const checklist = createChecklist([
+      createItem({
+        itemText: 'Shelter status',
+        itemType: 'status',
+        currentStatus: 'Open',
+        isCompleted: true,
+        completedAt: '2025-01-01T11:00:00Z',
+        completedBy: 'logistics@cobra.mil',
+        completedByPosition: 'Logistics Section Chief',
+        notes: [
+          {
+            id: 'note-1',
+            checklistItemId: 'item-1',
+            noteText: '120 cots set up',
+            createdBy: 'logistics@cobra.mil',
+            createdByPosition: 'Logistics Section Chief',
+            createdAt: '2025-01-01T11:05:00Z',
+            isEdited: false,
+          },
+          {
+            id: 'note-2',
+            checklistItemId: 'item-1',
+            noteText: 'Generator fueled',
+            createdBy: 'logistics@cobra.mil',
+            createdByPosition: 'Logistics Section Chief',
+            createdAt: '2025-01-01T11:20:00Z',
+            isEdited: false,
+          },
+        ],
+      }),
+    ]);
+
+    const report = buildIcs214Report([checklist], { kind: 'checklist', checklistId: 'checklist-1' }, options);
+
+    expect(report.logs[0].entries.map((entry) => [entry.kind, entry.activity])).toEqual([
+      ['status', 'Shelter status - status: Open'],
+      ['note', 'Note on "Shelter status": 120 cots set up'],
+      ['note', 'Note on "Shelter status": Generator fueled'],
+    ]);
+  });
+
+  it('files activity without a position under Unassigned', () => {
+    const checklist = createChecklist([
+      createItem({ isCompleted: true, completedAt: '2025-01-01T08:00:00Z', completedBy: 'ic@cobra.mil' }),
+    ]);
+
+    const report = buildIcs214Report([checklist], { kind: 'checklist', checklistId: 'checklist-1' }, options);
+
+    expect(report.logs[0].position).toBe('Unassigned');
+  });
+});
+
+describe('ICS-214 output', () => {
+  const report = buildIcs214Report(
+    [createChecklist([completed('Order "MREs", water', '2025-01-01T08:00:00Z')])],
+    { kind: 'checklist', checklistId: 'checklist-1' },
+    options
+  );
+
+  it('flattens to a header row plus one row per entry', () => {
+    const rows = ics214ToRows(report);
+
+    expect(rows).toHaveLength(2);
+    expect(rows[0][0]).toBe('Incident Name');
+    expect(rows[1][4]).toBe('Incident Commander');
+  });
+
+  it('escapes quotes and commas in CSV fields', () => {
+    const csv = ics214ToCsv(report);
+
+    expect(csv.split('\r\n')[1]).toContain('"Completed: Order ""MREs"", water"');
+  });
+
+  it('renders one form per log and escapes HTML', () => {
+    const html = renderIcs214Html(report);
+
+    expect(html.match(/class="form"/g)).toHaveLength(1);
+    expect(html).toContain('ACTIVITY LOG (ICS 214)');
+    expect(html).toContain('Order &quot;MREs&quot;, water');
+  });
+});
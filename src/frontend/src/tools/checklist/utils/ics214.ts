@@ -0,0 +1,397 @@
+/**
+ * ICS-214 Activity Log Utility
+ *
+ * Builds ICS-214 Activity Logs from checklist data for cost recovery and
+ * after-action documentation. One log is produced per operational period
+ * and ICS position, the same way units keep paper 214s.
+ *
+ * Activity entries come from:
+ * - Completed checkbox items (completedBy / completedByPosition / completedAt)
+ * - Value items with a captured value, including the value ("Generator fuel: 42 gal")
+ * - Status items, at their current status (completion details when the status
+ *   completes the item, otherwise the last modification)
+ * - Item notes, each attributed to its author
+ *
+ * Also flattens a report into rows for CSV/XLSX and renders a printable
+ * HTML layout (one form per page) for saving as PDF.
+ */
+
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+import { rowsToCsv } from './csv';
+import { escapeHtml } from './html';
+import { formatItemValue, isValueItemType } from './itemValue';
+
+/**
+ * Which checklists (and which activity) a report covers
+ */
+export type Ics214Scope =
+  | { kind: 'checklist'; checklistId: string }
+  | { kind: 'operationalPeriod'; operationalPeriodId: string }
+  | { kind: 'dateRange'; from: string; to: string }; // ISO 8601 datetimes, inclusive
+
+/**
+ * Kind of checklist activity behind a log entry
+ */
+export type Ics214EntryKind = 'completed' | 'status' | 'note';
+
+/**
+ * One line of the Activity Log (ICS-214 block 7)
+ */
+export interface Ics214ActivityEntry {
+  occurredAt: string; // ISO 8601 datetime
+  kind: Ics214EntryKind;
+  activity: string; // Notable activity text
+  checklistId: string;
+  checklistName: string;
+  itemText: string;
+  recordedBy: string;
+  recordedByPosition: string;
+}
+
+/**
+ * Person listed under Resources Assigned (ICS-214 block 6)
+ */
+export interface Ics214Resource {
+  name: string;
+  position: string;
+}
+
+/**
+ * A single ICS-214 form: one ICS position in one operational period
+ */
+export interface Ics214Log {
+  position: string;
+  operationalPeriodId?: string;
+  operationalPeriodName: string;
+  periodFrom?: string; // ISO 8601 datetime
+  periodTo?: string; // ISO 8601 datetime
+  resources: Ics214Resource[];
+  entries: Ics214ActivityEntry[];
+}
+
+/**
+ * Complete export: every log for the selected scope
+ */
+export interface Ics214Report {
+  incidentName: string;
+  scopeLabel: string;
+  preparedBy: Ics214Resource;
+  generatedAt: string; // ISO 8601 datetime
+  logs: Ics214Log[];
+  entryCount: number;
+}
+
+/**
+ * Options for buildIcs214Report
+ */
+export interface BuildIcs214Options {
+  incidentName: string;
+  scopeLabel: string;
+  preparedBy: Ics214Resource;
+  generatedAt?: string;
+}
+
+const UNASSIGNED_POSITION = 'Unassigned';
+const NO_PERIOD = 'No operational period';
+
+/**
+ * Activity entries recorded on a single item
+ */
+const itemEntries = (
+  checklist: ChecklistInstanceDto,
+  item: ChecklistItemDto
+): Ics214ActivityEntry[] => {
+  const entries: Ics214ActivityEntry[] = [];
+  const base = {
+    checklistId: checklist.id,
+    checklistName: checklist.name,
+    itemText: item.itemText,
+  };
+
+  if (item.itemType === 'status') {
+    if (item.currentStatus) {
+      const occurredAt = item.isCompleted ? item.completedAt : item.lastModifiedAt;
+      const by = item.isCompleted ? item.completedBy : item.lastModifiedBy;
+      const position = item.isCompleted ? item.completedByPosition : item.lastModifiedByPosition;
+      if (occurredAt && by) {
+        entries.push({
+          ...base,
+          occurredAt,
+          kind: 'status',
+          activity: `${item.itemText} - status: ${item.currentStatus}`,
+          recordedBy: by,
+          recordedByPosition: position || UNASSIGNED_POSITION,
+        });
+      }
+    }
+  } else if (item.isCompleted && item.completedAt && item.completedBy) {
+    entries.push({
+      ...base,
+      occurredAt: item.completedAt,
+      kind: 'completed',
+      activity: isValueItemType(item.itemType)
+        ? `${item.itemText}: ${formatItemValue(item)}`
+        : `Completed: ${item.itemText}`,
+      recordedBy: item.completedBy,
+      recordedByPosition: item.completedByPosition || UNASSIGNED_POSITION,
+    });
+  }
+
+  // Each note is its own entry, attributed to its author
+  for (const note of item.notes ?? []) {
+    entries.push({
+      ...base,
+      occurredAt: note.createdAt,
+      kind: 'note',
+      activity: `Note on "${item.itemText}": ${note.noteText}`,
+      recordedBy: note.createdBy,
+      recordedByPosition: note.createdByPosition || UNASSIGNED_POSITION,
+    });
+  }
+
+  return entries;
+};
+
+/**
+ * Whether a checklist belongs to the scope
+ */
+const inScope = (checklist: ChecklistInstanceDto, scope: Ics214Scope): boolean => {
+  switch (scope.kind) {
+    case 'checklist':
+      return checklist.id === scope.checklistId;
+    case 'operationalPeriod':
+      return checklist.operationalPeriodId === scope.operationalPeriodId;
+    case 'dateRange':
+      return true;
+  }
+};
+
+/**
+ * Whether an entry falls inside the scope's time window
+ */
+const entryInScope = (entry: Ics214ActivityEntry, scope: Ics214Scope): boolean => {
+  if (scope.kind !== 'dateRange') return true;
+  const time = new Date(entry.occurredAt).getTime();
+  return time >= new Date(scope.from).getTime() && time <= new Date(scope.to).getTime();
+};
+
+const byTime = (a: Ics214ActivityEntry, b: Ics214ActivityEntry) =>
+  new Date(a.occurredAt).getTime() - new Date(b.occurredAt).getTime();
+
+/**
+ * Build ICS-214 logs for the checklists in scope
+ * @param checklists Candidate checklists (with items) - filtered by scope
+ * @param scope Single checklist, operational period or date range
+ * @param options Header information
+ */
+export const buildIcs214Report = (
+  checklists: ChecklistInstanceDto[],
+  scope: Ics214Scope,
+  options: BuildIcs214Options
+): Ics214Report => {
+  const logs = new Map<string, Ics214Log>();
+
+  checklists
+    .filter((checklist) => inScope(checklist, scope))
+    .forEach((checklist) => {
+      (checklist.items ?? []).forEach((item) => {
+        itemEntries(checklist, item)
+          .filter((entry) => entryInScope(entry, scope))
+          .forEach((entry) => {
+            const key = `${checklist.operationalPeriodId ?? ''}|${entry.recordedByPosition}`;
+            let log = logs.get(key);
+            if (!log) {
+              log = {
+                position: entry.recordedByPosition,
+                operationalPeriodId: checklist.operationalPeriodId,
+                operationalPeriodName: checklist.operationalPeriodName || NO_PERIOD,
+                resources: [],
+                entries: [],
+              };
+              logs.set(key, log);
+            }
+            log.entries.push(entry);
+            if (!log.resources.some((resource) => resource.name === entry.recordedBy)) {
+              log.resources.push({ name: entry.recordedBy, position: entry.recordedByPosition });
+            }
+          });
+      });
+    });
+
+  const sortedLogs = [...logs.values()]
+    .map((log) => {
+      const entries = [...log.entries].sort(byTime);
+      return {
+        ...log,
+        entries,
+        periodFrom: scope.kind === 'dateRange' ? scope.from : entries[0]?.occurredAt,
+        periodTo: scope.kind === 'dateRange' ? scope.to : entries[entries.length - 1]?.occurredAt,
+        resources: [...log.resources].sort((a, b) => a.name.localeCompare(b.name)),
+      };
+    })
+    .sort(
+      (a, b) =>
+        a.operationalPeriodName.localeCompare(b.operationalPeriodName) ||
+        a.position.localeCompare(b.position)
+    );
+
+  return {
+    incidentName: options.incidentName,
+    scopeLabel: options.scopeLabel,
+    preparedBy: options.preparedBy,
+    generatedAt: options.generatedAt ?? new Date().toISOString(),
+    logs: sortedLogs,
+    entryCount: sortedLogs.reduce((total, log) => total + log.entries.length, 0),
+  };
+};
+
+/**
+ * Format an ISO datetime as "YYYY-MM-DD HH:mm" (local time) for the form
+ */
+export const formatIcs214DateTime = (value?: string): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return '';
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(
+    date.getHours()
+  )}:${pad(date.getMinutes())}`;
+};
+
+/**
+ * Column headings shared by the CSV and XLSX exports
+ */
+export const ICS214_COLUMNS = [
+  'Incident Name',
+  'Operational Period',
+  'Period From',
+  'Period To',
+  'ICS Position',
+  'Date/Time',
+  'Notable Activities',
+  'Checklist',
+  'Item',
+  'Recorded By',
+] as const;
+
+/**
+ * Flatten a report into one row per activity entry (header row first)
+ */
+export const ics214ToRows = (report: Ics214Report): string[][] => [
+  [...ICS214_COLUMNS],
+  ...report.logs.flatMap((log) =>
+    log.entries.map((entry) => [
+      report.incidentName,
+      log.operationalPeriodName,
+      formatIcs214DateTime(log.periodFrom),
+      formatIcs214DateTime(log.periodTo),
+      log.position,
+      formatIcs214DateTime(entry.occurredAt),
+      entry.activity,
+      entry.checklistName,
+      entry.itemText,
+      entry.recordedBy,
+    ])
+  ),
+];
+
+/**
+ * Serialize a report as CSV
+ */
+export const ics214ToCsv = (report: Ics214Report): string => rowsToCsv(ics214ToRows(report));
+
+/**
+ * Render one ICS-214 form
+ */
+const renderLogHtml = (report: Ics214Report, log: Ics214Log, index: number): string => {
+  const resourceRows = log.resources
+    .map(
+      (resource) =>
+        `<tr><td>${escapeHtml(resource.name)}</td><td>${escapeHtml(resource.position)}</td><td></td></tr>`
+    )
+    .join('');
+  const activityRows = log.entries
+    .map(
+      (entry) =>
+        `<tr><td class="time">${escapeHtml(formatIcs214DateTime(entry.occurredAt))}</td><td>${escapeHtml(
+          entry.activity
+        )}<div class="source">${escapeHtml(entry.checklistName)} &middot; ${escapeHtml(
+          entry.recordedBy
+        )}</div></td></tr>`
+    )
+    .join('');
+
+  return `
+<section class="form">
+  <table class="header">
+    <tr>
+      <th colspan="2" class="title">ACTIVITY LOG (ICS 214)</th>
+      <td class="page">Page ${index + 1} of ${report.logs.length}</td>
+    </tr>
+    <tr>
+      <td><span class="label">1. Incident Name:</span> ${escapeHtml(report.incidentName)}</td>
+      <td colspan="2"><span class="label">2. Operational Period:</span> ${escapeHtml(
+        log.operationalPeriodName
+      )}<br/>From: ${escapeHtml(formatIcs214DateTime(log.periodFrom))} &nbsp; To: ${escapeHtml(
+        formatIcs214DateTime(log.periodTo)
+      )}</td>
+    </tr>
+    <tr>
+      <td><span class="label">3. Name:</span> ${escapeHtml(
+        log.resources.map((resource) => resource.name).join(', ')
+      )}</td>
+      <td><span class="label">4. ICS Position:</span> ${escapeHtml(log.position)}</td>
+      <td><span class="label">5. Home Agency (and Unit):</span></td>
+    </tr>
+  </table>
+  <h3>6. Resources Assigned</h3>
+  <table class="grid">
+    <thead><tr><th>Name</th><th>ICS Position</th><th>Home Agency (and Unit)</th></tr></thead>
+    <tbody>${resourceRows}</tbody>
+  </table>
+  <h3>7. Activity Log</h3>
+  <table class="grid">
+    <thead><tr><th class="time">Date/Time</th><th>Notable Activities</th></tr></thead>
+    <tbody>${activityRows}</tbody>
+  </table>
+  <table class="footer">
+    <tr>
+      <td><span class="label">8. Prepared by:</span> ${escapeHtml(report.preparedBy.name)}</td>
+      <td><span class="label">Position/Title:</span> ${escapeHtml(report.preparedBy.position)}</td>
+      <td><span class="label">Signature:</span></td>
+      <td><span class="label">Date/Time:</span> ${escapeHtml(formatIcs214DateTime(report.generatedAt))}</td>
+    </tr>
+  </table>
+</section>`;
+};
+
+/**
+ * Render a printable HTML document with one ICS-214 form per page
+ */
+export const renderIcs214Html = (report: Ics214Report): string => `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8" />
+<title>ICS 214 - ${escapeHtml(report.incidentName)} - ${escapeHtml(report.scopeLabel)}</title>
+<style>
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11px; color: #000; margin: 0; }
+  .form { padding: 16px; page-break-after: always; }
+  .form:last-child { page-break-after: auto; }
+  table { width: 100%; border-collapse: collapse; }
+  td, th { border: 1px solid #000; padding: 4px 6px; vertical-align: top; text-align: left; }
+  .title { font-size: 14px; text-align: center; }
+  .page { width: 100px; text-align: right; }
+  .label { font-weight: bold; }
+  h3 { font-size: 11px; margin: 8px 0 0; padding: 4px 6px; border: 1px solid #000; border-bottom: none; background: #eee; }
+  .grid thead { display: table-header-group; }
+  .grid tr { page-break-inside: avoid; }
+  .time { width: 120px; white-space: nowrap; }
+  .source { color: #555; font-size: 9px; }
+  .footer { margin-top: 8px; }
+  @page { size: letter; margin: 0.5in; }
+</style>
+</head>
+<body>
+${report.logs.map((log, index) => renderLogHtml(report, log, index)).join('\n')}
+</body>
+</html>`;
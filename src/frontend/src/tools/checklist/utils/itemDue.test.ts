@@ -0,0 +1,150 @@
+/**
+ * Item Due Time Tests
+ *
+ * Tests due states, overdue item lists, labels and due offset editing.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeDueOffset,
+  formatDuration,
+  formatItemDue,
+  getItemDueState,
+  getOverdueItems,
+  isItemComplete,
+  splitDueOffset,
+  toDueOffsetMinutes,
+  validateDueOffset,
+} from './itemDue';
+import { ItemDueAnchor } from '../types';
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+
+const NOW = new Date('2025-11-20T14:30:00Z').getTime();
+const minutesFromNow = (minutes: number) => new Date(NOW + minutes * 60000).toISOString();
+const STATUS_CONFIG = '[{"label":"Open","isCompletion":false,"order":1},{"label":"Done","isCompletion":true,"order":2}]';
+
+const createItem = (id: string, overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: 'template-item-1',
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder: 10,
+  isRequired: false,
+  createdAt: '2025-11-20T12:00:00Z',
+  ...overrides,
+});
+
+const createChecklist = (id: string, items: ChecklistItemDto[]): ChecklistInstanceDto => ({
+  id,
+  name: `Checklist ${id}`,
+  templateId: 'template-1',
+  eventId: 'event-1',
+  eventName: 'Hurricane Test',
+  progressPercentage: 0,
+  totalItems: items.length,
+  completedItems: 0,
+  requiredItems: 0,
+  requiredItemsCompleted: 0,
+  isArchived: false,
+  createdBy: 'safety@cobra.mil',
+  createdByPosition: 'Safety Officer',
+  createdAt: '2025-11-20T12:00:00Z',
+  items,
+});
+
+describe('isItemComplete', () => {
+  it('uses the checkbox flag or the status completion option', () => {
+    expect(isItemComplete(createItem('a', { isCompleted: true }))).toBe(true);
+    expect(isItemComplete(createItem('b'))).toBe(false);
+    expect(
+      isItemComplete(createItem('c', { itemType: 'status', currentStatus: 'Done', statusConfiguration: STATUS_CONFIG }))
+    ).toBe(true);
+    expect(
+      isItemComplete(createItem('d', { itemType: 'status', currentStatus: 'Open', statusConfiguration: STATUS_CONFIG }))
+    ).toBe(false);
+  });
+
+  it('counts a captured value as complete', () => {
+    expect(isItemComplete(createItem('e', { itemType: 'number', value: '42' }))).toBe(true);
+    expect(isItemComplete(createItem('f', { itemType: 'yesno', value: 'N/A' }))).toBe(true);
+    expect(isItemComplete(createItem('g', { itemType: 'text', value: ' ' }))).toBe(false);
+    expect(isItemComplete(createItem('h', { itemType: 'datetime' }))).toBe(false);
+  });
+});
+
+describe('getItemDueState', () => {
+  it('classifies items by due time', () => {
+    expect(getItemDueState(createItem('a'), NOW)).toBe('none');
+    expect(getItemDueState(createItem('b', { dueAt: minutesFromNow(60) }), NOW)).toBe('upcoming');
+    expect(getItemDueState(createItem('c', { dueAt: minutesFromNow(10) }), NOW)).toBe('dueSoon');
+    expect(getItemDueState(createItem('d', { dueAt: minutesFromNow(0) }), NOW)).toBe('overdue');
+    expect(getItemDueState(createItem('e', { dueAt: minutesFromNow(-5), isCompleted: true }), NOW)).toBe('complete');
+  });
+
+  it('reads due times without a zone as UTC', () => {
+    const withoutZone = (minutes: number) => minutesFromNow(minutes).replace('Z', '');
+
+    expect(getItemDueState(createItem('a', { dueAt: withoutZone(10) }), NOW)).toBe('dueSoon');
+    expect(getItemDueState(createItem('b', { dueAt: withoutZone(-5) }), NOW)).toBe('overdue');
+    expect(formatItemDue(createItem('c', { dueAt: withoutZone(-12) }), NOW)).toBe('Overdue 12 min');
+  });
+});
+
+describe('getOverdueItems', () => {
+  it('returns overdue items across checklists, most overdue first', () => {
+    const checklists = [
+      createChecklist('1', [
+        createItem('late', { dueAt: minutesFromNow(-5) }),
+        createItem('later', { dueAt: minutesFromNow(30) }),
+      ]),
+      createChecklist('2', [
+        createItem('latest', { dueAt: minutesFromNow(-45) }),
+        createItem('done', { dueAt: minutesFromNow(-60), isCompleted: true }),
+      ]),
+    ];
+
+    expect(getOverdueItems(checklists, NOW).map(({ item, checklist }) => `${checklist.id}:${item.id}`)).toEqual([
+      '2:latest',
+      '1:late',
+    ]);
+  });
+});
+
+describe('formatDuration and formatItemDue', () => {
+  it('formats durations in the largest useful units', () => {
+    expect(formatDuration(45)).toBe('45 min');
+    expect(formatDuration(120)).toBe('2 h');
+    expect(formatDuration(90)).toBe('1 h 30 min');
+    expect(formatDuration(52 * 60)).toBe('2 d 4 h');
+  });
+
+  it('labels overdue items with how late they are', () => {
+    expect(formatItemDue(createItem('a', { dueAt: minutesFromNow(-12) }), NOW)).toBe('Overdue 12 min');
+    expect(formatItemDue(createItem('b', { dueAt: minutesFromNow(30) }), NOW)).toMatch(/^Due /);
+    expect(formatItemDue(createItem('c', { dueAt: minutesFromNow(-12), isCompleted: true }), NOW)).toBeNull();
+  });
+});
+
+describe('due offset editing', () => {
+  it('describes offsets from either anchor', () => {
+    expect(describeDueOffset(30)).toBe('Due 30 min after the checklist is created');
+    expect(describeDueOffset(120, ItemDueAnchor.PERIOD_START)).toBe('Due 2 h after the operational period starts');
+    expect(describeDueOffset(null)).toBeNull();
+  });
+
+  it('splits offsets into the largest whole unit and back', () => {
+    expect(splitDueOffset(90)).toEqual({ value: 90, unit: 'minutes' });
+    expect(splitDueOffset(120)).toEqual({ value: 2, unit: 'hours' });
+    expect(splitDueOffset(2880)).toEqual({ value: 2, unit: 'days' });
+    expect(toDueOffsetMinutes(1.5, 'hours')).toBe(90);
+  });
+
+  it('validates the offset range', () => {
+    expect(validateDueOffset(null)).toBeNull();
+    expect(validateDueOffset(30)).toBeNull();
+    expect(validateDueOffset(0)).toBe('Due time must be at least 1 minute');
+    expect(validateDueOffset(8 * 24 * 60)).toBe('Due time cannot be more than 7 days');
+  });
+});
@@ -0,0 +1,184 @@
+/**
+ * Item Due Time Utilities
+ *
+ * Pure helpers for checklist item due times:
+ * - Due state of an item (upcoming, due soon, overdue) at a point in time
+ * - Overdue items across checklists, most overdue first
+ * - Labels for due chips and the template item due offset editor
+ *
+ * Due times are calculated by the backend when a checklist is created
+ * (ItemDueTimeHelper); the backend also sends the ItemOverdue notification.
+ * Due times come back from the database without a UTC designator, so they
+ * are always read with parseServerTime.
+ */
+
+import type { ChecklistInstanceDto, ChecklistItemDto } from '../services/checklistService';
+import { parseServerTime } from '../../../core/utils/hubCatchUp';
+import { ItemDueAnchor, type StatusOption } from '../types';
+import { isValueItemType } from './itemValue';
+
+/**
+ * Longest due offset a template item can have (7 days, matches the backend)
+ */
+export const MAX_DUE_OFFSET_MINUTES = 7 * 24 * 60;
+
+/**
+ * Items due within this many minutes are shown as "due soon"
+ */
+export const DUE_SOON_MINUTES = 15;
+
+export type ItemDueState = 'none' | 'complete' | 'upcoming' | 'dueSoon' | 'overdue';
+
+export type DueOffsetUnit = 'minutes' | 'hours' | 'days';
+
+const MINUTES_PER_UNIT: Record<DueOffsetUnit, number> = {
+  minutes: 1,
+  hours: 60,
+  days: 24 * 60,
+};
+
+type DueItem = Pick<
+  ChecklistItemDto,
+  'itemType' | 'isCompleted' | 'currentStatus' | 'statusConfiguration' | 'value' | 'dueAt'
+>;
+
+/**
+ * Whether an item counts as done (same rules as the backend progress calculation)
+ */
+export const isItemComplete = (item: DueItem): boolean => {
+  if (item.itemType === 'checkbox') {
+    return item.isCompleted === true;
+  }
+  if (isValueItemType(item.itemType)) {
+    return !!item.value?.trim();
+  }
+  if (!item.currentStatus || !item.statusConfiguration) {
+    return false;
+  }
+  try {
+    const options = JSON.parse(item.statusConfiguration) as StatusOption[];
+    return options.some((o) => o.label === item.currentStatus && o.isCompletion);
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Due time of an item (ms since epoch), or null when it has none
+ */
+export const getItemDueTime = (item: Pick<ChecklistItemDto, 'dueAt'>): number | null =>
+  parseServerTime(item.dueAt);
+
+/**
+ * Due state of an item
+ * @param item Checklist item
+ * @param now Current time (ms since epoch)
+ */
+export const getItemDueState = (item: DueItem, now: number): ItemDueState => {
+  const dueTime = getItemDueTime(item);
+  if (dueTime === null) return 'none';
+  if (isItemComplete(item)) return 'complete';
+
+  const minutesLeft = (dueTime - now) / 60000;
+  if (minutesLeft <= 0) return 'overdue';
+  return minutesLeft <= DUE_SOON_MINUTES ? 'dueSoon' : 'upcoming';
+};
+
+/**
+ * Whether an item has passed its due time without being completed
+ */
+export const isItemOverdue = (item: DueItem, now: number): boolean =>
+  getItemDueState(item, now) === 'overdue';
+
+/**
+ * Overdue items of the given checklists, most overdue first
+ */
+export const getOverdueItems = (
+  checklists: ChecklistInstanceDto[],
+  now: number
+): { item: ChecklistItemDto; checklist: ChecklistInstanceDto }[] =>
+  checklists
+    .flatMap((checklist) => (checklist.items ?? []).map((item) => ({ item, checklist })))
+    .filter(({ item }) => isItemOverdue(item, now))
+    .sort((a, b) => getItemDueTime(a.item)! - getItemDueTime(b.item)!);
+
+/**
+ * Whether a checklist has at least one overdue item
+ */
+export const hasOverdueItems = (checklist: ChecklistInstanceDto, now: number): boolean =>
+  (checklist.items ?? []).some((item) => isItemOverdue(item, now));
+
+/**
+ * Short duration, e.g. "45 min", "2 h", "1 h 30 min", "2 d 4 h"
+ */
+export const formatDuration = (totalMinutes: number): string => {
+  const minutes = Math.max(0, Math.round(totalMinutes));
+  const days = Math.floor(minutes / MINUTES_PER_UNIT.days);
+  const hours = Math.floor((minutes % MINUTES_PER_UNIT.days) / 60);
+  const mins = minutes % 60;
+
+  if (days > 0) return hours > 0 ? `${days} d ${hours} h` : `${days} d`;
+  if (hours > 0) return mins > 0 ? `${hours} h ${mins} min` : `${hours} h`;
+  return `${mins} min`;
+};
+
+/**
+ * Chip label for an item's due time, e.g. "Due 14:30" or "Overdue 12 min"
+ * Null when the item has no due time or is complete.
+ */
+export const formatItemDue = (item: DueItem, now: number): string | null => {
+  const state = getItemDueState(item, now);
+  if (state === 'none' || state === 'complete') return null;
+
+  const due = new Date(getItemDueTime(item)!);
+  if (state === 'overdue') {
+    return `Overdue ${formatDuration((now - due.getTime()) / 60000)}`;
+  }
+
+  const time = due.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const sameDay = due.toDateString() === new Date(now).toDateString();
+  return sameDay
+    ? `Due ${time}`
+    : `Due ${due.toLocaleDateString([], { month: 'short', day: 'numeric' })} ${time}`;
+};
+
+/**
+ * Describes a template item's due offset, e.g.
+ * "Due 30 min after the checklist is created"
+ */
+export const describeDueOffset = (
+  minutes: number | null | undefined,
+  relativeTo: ItemDueAnchor = ItemDueAnchor.CHECKLIST_CREATED
+): string | null => {
+  if (!minutes) return null;
+  const anchor =
+    relativeTo === ItemDueAnchor.PERIOD_START
+      ? 'the operational period starts'
+      : 'the checklist is created';
+  return `Due ${formatDuration(minutes)} after ${anchor}`;
+};
+
+/**
+ * Splits a due offset into the largest whole unit for editing (90 -> 90 minutes, 120 -> 2 hours)
+ */
+export const splitDueOffset = (minutes: number): { value: number; unit: DueOffsetUnit } => {
+  if (minutes % MINUTES_PER_UNIT.days === 0) return { value: minutes / MINUTES_PER_UNIT.days, unit: 'days' };
+  if (minutes % MINUTES_PER_UNIT.hours === 0) return { value: minutes / MINUTES_PER_UNIT.hours, unit: 'hours' };
+  return { value: minutes, unit: 'minutes' };
+};
+
+/**
+ * Due offset in minutes from an edited value and unit
+ */
+export const toDueOffsetMinutes = (value: number, unit: DueOffsetUnit): number =>
+  Math.round(value * MINUTES_PER_UNIT[unit]);
+
+/**
+ * Validation message for a due offset, or null when valid (null offset = no due time)
+ */
+export const validateDueOffset = (minutes: number | null | undefined): string | null => {
+  if (minutes === null || minutes === undefined) return null;
+  if (!Number.isFinite(minutes) || minutes < 1) return 'Due time must be at least 1 minute';
+  if (minutes > MAX_DUE_OFFSET_MINUTES) return 'Due time cannot be more than 7 days';
+  return null;
+};
@@ -0,0 +1,75 @@
+/**
+ * Item History Utility Tests
+ *
+ * Tests the timeline text for each kind of history entry.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { ItemHistoryAction, ItemType, type ItemStatusHistory } from '../types';
+import { describeHistoryEntry, formatHistoryAuthor, getHistoryEntryKind } from './itemHistory';
+
+const createEntry = (overrides: Partial<ItemStatusHistory> = {}): ItemStatusHistory => ({
+  id: 'history-1',
+  checklistItemId: 'item-1',
+  action: ItemHistoryAction.STATUS_CHANGED,
+  changedBy: 'ops@cobra.mil',
+  changedByPosition: 'Operations Section Chief',
+  changedAt: '2025-01-01T10:00:00Z',
+  ...overrides,
+});
+
+describe('describeHistoryEntry', () => {
+  it('describes completion toggles', () => {
+    expect(describeHistoryEntry(createEntry({ action: ItemHistoryAction.COMPLETED })).summary).toBe('Marked complete');
+    expect(describeHistoryEntry(createEntry({ action: ItemHistoryAction.UNCOMPLETED })).summary).toBe(
+      'Marked incomplete'
+    );
+  });
+
+  it('shows the status before and after', () => {
+    expect(describeHistoryEntry(createEntry({ previousValue: 'Blocked', newValue: 'In Progress' })).summary).toBe(
+      'Status: Blocked → In Progress'
+    );
+    expect(describeHistoryEntry(createEntry({ newValue: 'In Progress' })).summary).toBe('Status set to In Progress');
+    expect(describeHistoryEntry(createEntry({ previousValue: 'Blocked', newValue: '' })).summary).toBe(
+      'Status cleared'
+    );
+  });
+
+  it('formats values with the item unit', () => {
+    const item = { itemType: ItemType.NUMBER, valueConfiguration: '{"unit":"gal"}' };
+
+    expect(
+      describeHistoryEntry(
+        createEntry({ action: ItemHistoryAction.VALUE_CHANGED, previousValue: '40', newValue: '55' }),
+        item
+      ).summary
+    ).toBe('Value: 40 gal → 55 gal');
+    expect(
+      describeHistoryEntry(createEntry({ action: ItemHistoryAction.VALUE_CHANGED, previousValue: '55' }), item).summary
+    ).toBe('Value cleared (was 55 gal)');
+  });
+
+  it('includes the note text, or the removed text for deleted notes', () => {
+    expect(
+      describeHistoryEntry(createEntry({ action: ItemHistoryAction.NOTE_ADDED, newValue: 'Road closed' }))
+    ).toEqual({ summary: 'Note added', detail: 'Road closed' });
+    expect(
+      describeHistoryEntry(createEntry({ action: ItemHistoryAction.NOTE_DELETED, previousValue: 'Road closed' }))
+    ).toEqual({ summary: 'Note deleted', detail: 'Road closed' });
+  });
+});
+
+describe('getHistoryEntryKind and formatHistoryAuthor', () => {
+  it('groups note actions together', () => {
+    expect(getHistoryEntryKind(ItemHistoryAction.NOTE_EDITED)).toBe('note');
+    expect(getHistoryEntryKind(ItemHistoryAction.UNCOMPLETED)).toBe('completion');
+    expect(getHistoryEntryKind(ItemHistoryAction.VALUE_CHANGED)).toBe('value');
+  });
+
+  it('prefers the position over the email', () => {
+    expect(formatHistoryAuthor(createEntry())).toBe('Operations Section Chief');
+    expect(formatHistoryAuthor(createEntry({ changedByPosition: '' }))).toBe('ops@cobra.mil');
+  });
+});
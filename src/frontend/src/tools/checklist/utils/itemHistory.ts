@@ -0,0 +1,94 @@
+/**
+ * Item History Utilities
+ *
+ * Pure helpers for the item history timeline. The backend records an entry
+ * for every completion toggle, status or value change and note, with who
+ * made it and when; these turn entries into display text.
+ */
+
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemHistoryAction, type ItemStatusHistory } from '../types';
+import { formatItemValue } from './itemValue';
+
+/**
+ * Timeline line for a history entry
+ */
+export interface HistoryEntryDescription {
+  /** What happened, e.g. "Status: Blocked → In Progress" */
+  summary: string;
+  /** Note text, shown under the summary */
+  detail?: string;
+}
+
+/**
+ * Grouping used to pick the timeline icon and color
+ */
+export type HistoryEntryKind = 'completion' | 'status' | 'value' | 'note';
+
+/**
+ * Which kind of change the entry records
+ */
+export const getHistoryEntryKind = (action: ItemHistoryAction): HistoryEntryKind => {
+  switch (action) {
+    case ItemHistoryAction.COMPLETED:
+    case ItemHistoryAction.UNCOMPLETED:
+      return 'completion';
+    case ItemHistoryAction.STATUS_CHANGED:
+      return 'status';
+    case ItemHistoryAction.VALUE_CHANGED:
+      return 'value';
+    default:
+      return 'note';
+  }
+};
+
+/**
+ * Describe a history entry
+ * @param item Item the entry belongs to (formats values with their unit or date format)
+ */
+export const describeHistoryEntry = (
+  entry: Pick<ItemStatusHistory, 'action' | 'previousValue' | 'newValue'>,
+  item?: Pick<ChecklistItemDto, 'itemType' | 'valueConfiguration'>
+): HistoryEntryDescription => {
+  const formatValue = (value?: string) =>
+    (item && value ? formatItemValue({ ...item, value }) : value) ?? '';
+
+  switch (entry.action) {
+    case ItemHistoryAction.COMPLETED:
+      return { summary: 'Marked complete' };
+    case ItemHistoryAction.UNCOMPLETED:
+      return { summary: 'Marked incomplete' };
+    case ItemHistoryAction.STATUS_CHANGED:
+      if (!entry.newValue) return { summary: 'Status cleared' };
+      return {
+        summary: entry.previousValue
+          ? `Status: ${entry.previousValue} → ${entry.newValue}`
+          : `Status set to ${entry.newValue}`,
+      };
+    case ItemHistoryAction.VALUE_CHANGED:
+      if (!entry.newValue) return { summary: `Value cleared (was ${formatValue(entry.previousValue)})` };
+      return {
+        summary: entry.previousValue
+          ? `Value: ${formatValue(entry.previousValue)} → ${formatValue(entry.newValue)}`
+          : `Value recorded: ${formatValue(entry.newValue)}`,
+      };
+    case ItemHistoryAction.NOTE_ADDED:
+      return { summary: 'Note added', detail: entry.newValue };
+    case ItemHistoryAction.NOTE_EDITED:
+      return { summary: 'Note edited', detail: entry.newValue };
+    case ItemHistoryAction.NOTE_DELETED:
+      return { summary: 'Note deleted', detail: entry.previousValue };
+    case ItemHistoryAction.ADDED:
+      return { summary: 'Item added' };
+    case ItemHistoryAction.REMOVED:
+      return { summary: 'Item removed' };
+    default:
+      return { summary: 'Item updated' };
+  }
+};
+
+/**
+ * Who made the change, for display ("Safety Officer" or the email)
+ */
+export const formatHistoryAuthor = (entry: Pick<ItemStatusHistory, 'changedBy' | 'changedByPosition'>): string =>
+  entry.changedByPosition || entry.changedBy;
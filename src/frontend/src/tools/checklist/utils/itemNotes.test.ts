@@ -0,0 +1,96 @@
+/**
+ * Item Note Utility Tests
+ *
+ * Tests thread ordering, upsert/remove and author permissions.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ItemNote } from '../types';
+import {
+  canModifyNote,
+  createPendingNote,
+  formatNoteAuthor,
+  getLatestNote,
+  isPendingNote,
+  removeNote,
+  upsertNote,
+} from './itemNotes';
+
+const createNote = (overrides: Partial<ItemNote> = {}): ItemNote => ({
+  id: 'note-1',
+  checklistItemId: 'item-1',
+  noteText: 'Road closed at Main St',
+  createdBy: 'ops@cobra.mil',
+  createdByPosition: 'Operations Section Chief',
+  createdAt: '2025-01-01T10:00:00Z',
+  isEdited: false,
+  ...overrides,
+});
+
+const author = { email: 'safety@cobra.mil', position: 'Safety Officer' };
+
+describe('createPendingNote', () => {
+  it('builds a trimmed provisional note by the current user', () => {
+    const note = createPendingNote('item-1', '  Generator running  ', author, '2025-01-01T11:00:00Z');
+
+    expect(note).toMatchObject({
+      checklistItemId: 'item-1',
+      noteText: 'Generator running',
+      createdBy: 'safety@cobra.mil',
+      createdByPosition: 'Safety Officer',
+      isEdited: false,
+    });
+    expect(isPendingNote(note)).toBe(true);
+    expect(isPendingNote(createNote())).toBe(false);
+  });
+});
+
+describe('canModifyNote', () => {
+  it('allows only the author, ignoring email case', () => {
+    expect(canModifyNote(createNote(), 'OPS@cobra.mil')).toBe(true);
+    expect(canModifyNote(createNote(), 'safety@cobra.mil')).toBe(false);
+  });
+
+  it('does not allow changes to notes the server has not confirmed', () => {
+    expect(canModifyNote(createPendingNote('item-1', 'Draft', author), author.email)).toBe(false);
+  });
+});
+
+describe('upsertNote and removeNote', () => {
+  it('appends notes in created order', () => {
+    const later = createNote({ id: 'note-2', createdAt: '2025-01-01T12:00:00Z' });
+    const earlier = createNote({ id: 'note-3', createdAt: '2025-01-01T09:00:00Z' });
+
+    expect(upsertNote([createNote(), later], earlier).map((n) => n.id)).toEqual(['note-3', 'note-1', 'note-2']);
+  });
+
+  it('replaces a repeated note and the provisional note it confirms', () => {
+    const pending = createPendingNote('item-1', 'Generator running', author, '2025-01-01T11:00:00Z');
+    const saved = createNote({ id: 'note-2', noteText: 'Generator running', createdAt: '2025-01-01T11:00:01Z' });
+
+    const notes = upsertNote([createNote(), pending], saved, pending.id);
+
+    expect(notes.map((n) => n.id)).toEqual(['note-1', 'note-2']);
+    expect(upsertNote(notes, { ...saved, noteText: 'Edited', isEdited: true })).toHaveLength(2);
+  });
+
+  it('removes a note by id', () => {
+    expect(removeNote([createNote(), createNote({ id: 'note-2' })], 'note-1').map((n) => n.id)).toEqual(['note-2']);
+  });
+});
+
+describe('getLatestNote and formatNoteAuthor', () => {
+  it('returns the most recent note', () => {
+    const latest = createNote({ id: 'note-2', createdAt: '2025-01-01T12:00:00Z' });
+
+    expect(getLatestNote([latest, createNote()])).toBe(latest);
+    expect(getLatestNote([])).toBeUndefined();
+    expect(getLatestNote(undefined)).toBeUndefined();
+  });
+
+  it('prefers the position over the email', () => {
+    expect(formatNoteAuthor(createNote())).toBe('Operations Section Chief');
+    expect(formatNoteAuthor(createNote({ createdByPosition: '' }))).toBe('ops@cobra.mil');
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * Item Note Utilities
+ *
+ * Pure helpers for item note threads. Notes are append-only per author: each
+ * note keeps who wrote it, and only its author can edit or delete it (the
+ * backend enforces the same rule).
+ *
+ * Notes added optimistically or while offline carry a provisional
+ * "pending-" id until the server confirms them.
+ */
+
+import type { ItemNote } from '../types';
+
+/**
+ * Maximum note length (matches backend)
+ */
+export const MAX_NOTE_LENGTH = 2000;
+
+const PENDING_NOTE_PREFIX = 'pending-';
+
+/**
+ * Build a provisional note shown until the server confirms it
+ */
+export const createPendingNote = (
+  itemId: string,
+  noteText: string,
+  author: { email: string; position: string },
+  createdAt: string = new Date().toISOString()
+): ItemNote => ({
+  id: `${PENDING_NOTE_PREFIX}${itemId}-${new Date(createdAt).getTime()}`,
+  checklistItemId: itemId,
+  noteText: noteText.trim(),
+  createdBy: author.email,
+  createdByPosition: author.position,
+  createdAt,
+  isEdited: false,
+});
+
+/**
+ * Whether the note is still waiting for the server (optimistic or queued offline)
+ */
+export const isPendingNote = (note: Pick<ItemNote, 'id'>): boolean =>
+  note.id.startsWith(PENDING_NOTE_PREFIX);
+
+/**
+ * Whether the user wrote the note (and may edit or delete it)
+ */
+export const canModifyNote = (note: Pick<ItemNote, 'id' | 'createdBy'>, userEmail: string): boolean =>
+  !isPendingNote(note) && note.createdBy.toLowerCase() === userEmail.toLowerCase();
+
+/**
+ * Notes oldest first
+ */
+export const sortNotes = (notes: ItemNote[]): ItemNote[] =>
+  [...notes].sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+
+/**
+ * Add a note, or replace the note with the same id (hub events can repeat)
+ * @param replaceId Id of a provisional note the saved note replaces
+ */
+export const upsertNote = (notes: ItemNote[], note: ItemNote, replaceId?: string): ItemNote[] =>
+  sortNotes([...notes.filter((n) => n.id !== note.id && n.id !== replaceId), note]);
+
+/**
+ * Remove a note from the thread
+ */
+export const removeNote = (notes: ItemNote[], noteId: string): ItemNote[] =>
+  notes.filter((note) => note.id !== noteId);
+
+/**
+ * Most recent note, for one-line summaries on item rows
+ */
+export const getLatestNote = (notes: ItemNote[] | undefined): ItemNote | undefined =>
+  notes && notes.length > 0 ? sortNotes(notes)[notes.length - 1] : undefined;
+
+/**
+ * Who wrote the note, for display ("Safety Officer" or the email)
+ */
+export const formatNoteAuthor = (note: Pick<ItemNote, 'createdBy' | 'createdByPosition'>): string =>
+  note.createdByPosition || note.createdBy;
@@ -0,0 +1,114 @@
+/**
+ * Item Prerequisite Tests
+ *
+ * Tests blocked items, locked item reasons and template prerequisite editing.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  countBlockedItems,
+  getBlockedReason,
+  getIncompletePrerequisites,
+  isItemBlocked,
+  toPrerequisiteDisplayOrders,
+  toPrerequisiteIds,
+  validatePrerequisites,
+} from './itemPrerequisites';
+import type { ChecklistItemDto } from '../services/checklistService';
+
+const createItem = (id: string, overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: 'template-item-1',
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder: 10,
+  isRequired: false,
+  createdAt: '2025-11-20T12:00:00Z',
+  ...overrides,
+});
+
+const isolate = createItem('isolate', { itemText: 'Verify power isolated', displayOrder: 10 });
+const permit = createItem('permit', { itemText: 'Issue entry permit', displayOrder: 20 });
+const entry = createItem('entry', {
+  itemText: 'Begin entry',
+  displayOrder: 30,
+  prerequisiteItemIds: JSON.stringify(['permit', 'isolate']),
+});
+
+describe('getIncompletePrerequisites and isItemBlocked', () => {
+  it('returns incomplete prerequisites in display order', () => {
+    const items = [isolate, permit, entry];
+
+    expect(getIncompletePrerequisites(entry, items).map((item) => item.id)).toEqual(['isolate', 'permit']);
+    expect(isItemBlocked(entry, items)).toBe(true);
+    expect(isItemBlocked(isolate, items)).toBe(false);
+  });
+
+  it('unblocks an item once its prerequisites are complete', () => {
+    const items = [{ ...isolate, isCompleted: true }, { ...permit, isCompleted: true }, entry];
+
+    expect(isItemBlocked(entry, items)).toBe(false);
+    expect(getBlockedReason(entry, items)).toBeNull();
+  });
+
+  it('never shows completed items as blocked', () => {
+    const completedEntry = { ...entry, isCompleted: true };
+
+    expect(isItemBlocked(completedEntry, [isolate, permit, completedEntry])).toBe(false);
+  });
+
+  it('ignores invalid prerequisite JSON', () => {
+    const item = createItem('a', { prerequisiteItemIds: 'not json' });
+
+    expect(isItemBlocked(item, [item])).toBe(false);
+  });
+});
+
+describe('getBlockedReason and countBlockedItems', () => {
+  it('names the incomplete prerequisites', () => {
+    expect(getBlockedReason(entry, [isolate, permit, entry])).toBe(
+      'Complete "Verify power isolated" and "Issue entry permit" first'
+    );
+    expect(getBlockedReason(entry, [{ ...isolate, isCompleted: true }, permit, entry])).toBe(
+      'Complete "Issue entry permit" first'
+    );
+  });
+
+  it('counts blocked items', () => {
+    expect(countBlockedItems([isolate, permit, entry])).toBe(1);
+    expect(countBlockedItems([isolate, permit])).toBe(0);
+  });
+});
+
+describe('template prerequisite editing', () => {
+  const formItems = [
+    { id: 'a', itemText: 'A', displayOrder: 10, prerequisiteIds: [] as string[] },
+    { id: 'b', itemText: 'B', displayOrder: 20, prerequisiteIds: ['a'] },
+    { id: 'c', itemText: 'C', displayOrder: 30, prerequisiteIds: ['b', 'a'] },
+  ];
+
+  it('converts between form item IDs and display orders', () => {
+    expect(toPrerequisiteDisplayOrders(formItems[2], formItems)).toBe('[10,20]');
+    expect(toPrerequisiteDisplayOrders(formItems[0], formItems)).toBeNull();
+    expect(toPrerequisiteIds('[10,20]', formItems)).toEqual(['a', 'b']);
+    expect(toPrerequisiteIds(undefined, formItems)).toEqual([]);
+  });
+
+  it('drops prerequisites that are no longer in the template', () => {
+    expect(toPrerequisiteDisplayOrders({ prerequisiteIds: ['removed', 'a'] }, formItems)).toBe('[10]');
+  });
+
+  it('rejects self references and loops', () => {
+    expect(validatePrerequisites(formItems[2], formItems)).toBeNull();
+    expect(validatePrerequisites({ id: 'a', prerequisiteIds: ['a'] }, formItems)).toBe(
+      'An item cannot be its own prerequisite'
+    );
+
+    const looped = formItems.map((item) => (item.id === 'a' ? { ...item, prerequisiteIds: ['c'] } : item));
+    expect(validatePrerequisites(looped[0], looped)).toBe(
+      'Prerequisites form a loop, so the items could never be completed'
+    );
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Item Prerequisite Utilities
+ *
+ * Pure helpers for sequential gating between checklist items:
+ * - Which prerequisites of an item are still incomplete (item is "blocked")
+ * - The reason shown on locked items
+ * - Template editing: prerequisites by form item ID <-> display order, and validation
+ *
+ * Template items store prerequisites as display orders (item IDs change on every
+ * template save); checklist items store the IDs of items in the same checklist.
+ * The backend (ItemPrerequisiteHelper) rejects out-of-order completion.
+ */
+
+import type { ChecklistItemDto } from '../services/checklistService';
+import { isItemComplete } from './itemDue';
+
+/**
+ * Template item as edited in TemplateEditorPage (only the fields used here)
+ */
+interface PrerequisiteFormItem {
+  id: string;
+  itemText: string;
+  displayOrder: number;
+  prerequisiteIds: string[];
+}
+
+const parseJsonArray = <T>(json: string | null | undefined): T[] => {
+  if (!json) return [];
+  try {
+    const parsed = JSON.parse(json);
+    return Array.isArray(parsed) ? (parsed as T[]) : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * IDs of the items that must be completed before this one
+ */
+export const parsePrerequisiteItemIds = (item: Pick<ChecklistItemDto, 'prerequisiteItemIds'>): string[] =>
+  parseJsonArray<string>(item.prerequisiteItemIds);
+
+/**
+ * Prerequisites of an item that are not complete yet, in display order
+ * @param item Checklist item
+ * @param items All items of the same checklist
+ */
+export const getIncompletePrerequisites = (
+  item: ChecklistItemDto,
+  items: ChecklistItemDto[]
+): ChecklistItemDto[] => {
+  const prerequisiteIds = parsePrerequisiteItemIds(item);
+  if (prerequisiteIds.length === 0) return [];
+
+  return items
+    .filter((other) => prerequisiteIds.includes(other.id) && !isItemComplete(other))
+    .sort((a, b) => a.displayOrder - b.displayOrder);
+};
+
+/**
+ * Whether an item is incomplete and waiting on an incomplete prerequisite
+ * (completed items are never shown as blocked)
+ */
+export const isItemBlocked = (item: ChecklistItemDto, items: ChecklistItemDto[]): boolean =>
+  !isItemComplete(item) && getIncompletePrerequisites(item, items).length > 0;
+
+/**
+ * Reason shown on a locked item, e.g. 'Complete "Verify power isolated" first'
+ * Null when the item is not blocked.
+ */
+export const getBlockedReason = (item: ChecklistItemDto, items: ChecklistItemDto[]): string | null => {
+  if (isItemComplete(item)) return null;
+
+  const incomplete = getIncompletePrerequisites(item, items);
+  if (incomplete.length === 0) return null;
+
+  const names = incomplete.map((prerequisite) => `"${prerequisite.itemText}"`);
+  const list = names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+  return `Complete ${list} first`;
+};
+
+/**
+ * Number of items that are blocked by an incomplete prerequisite
+ */
+export const countBlockedItems = (items: ChecklistItemDto[]): number =>
+  items.filter((item) => isItemBlocked(item, items)).length;
+
+/**
+ * Form item IDs of a template item's prerequisites, from the saved display orders
+ * @param prerequisiteDisplayOrders JSON array of display orders
+ * @param items Form items of the template (with the saved display orders)
+ */
+export const toPrerequisiteIds = (
+  prerequisiteDisplayOrders: string | null | undefined,
+  items: Pick<PrerequisiteFormItem, 'id' | 'displayOrder'>[]
+): string[] => {
+  const orders = parseJsonArray<number>(prerequisiteDisplayOrders);
+  return items.filter((item) => orders.includes(item.displayOrder)).map((item) => item.id);
+};
+
+/**
+ * Prerequisites to save for a template item, as a JSON array of display orders
+ * Prerequisites that are no longer in the template are dropped. Null when there are none.
+ */
+export const toPrerequisiteDisplayOrders = (
+  item: Pick<PrerequisiteFormItem, 'prerequisiteIds'>,
+  items: Pick<PrerequisiteFormItem, 'id' | 'displayOrder'>[]
+): string | null => {
+  const orders = items
+    .filter((other) => item.prerequisiteIds.includes(other.id))
+    .map((other) => other.displayOrder)
+    .sort((a, b) => a - b);
+  return orders.length > 0 ? JSON.stringify(orders) : null;
+};
+
+/**
+ * Validation message for a template item's prerequisites, or null when valid
+ * Catches self references and loops (the items could never be completed).
+ */
+export const validatePrerequisites = (
+  item: Pick<PrerequisiteFormItem, 'id' | 'prerequisiteIds'>,
+  items: Pick<PrerequisiteFormItem, 'id' | 'prerequisiteIds'>[]
+): string | null => {
+  if (item.prerequisiteIds.includes(item.id)) {
+    return 'An item cannot be its own prerequisite';
+  }
+
+  // Depth-first search from the item's prerequisites back to the item
+  const prerequisitesById = new Map(items.map((other) => [other.id, other.prerequisiteIds]));
+  const visited = new Set<string>();
+  const pending = [...item.prerequisiteIds];
+  while (pending.length > 0) {
+    const id = pending.pop()!;
+    if (id === item.id) {
+      return 'Prerequisites form a loop, so the items could never be completed';
+    }
+    if (visited.has(id)) continue;
+    visited.add(id);
+    pending.push(...(prerequisitesById.get(id) ?? []));
+  }
+
+  return null;
+};
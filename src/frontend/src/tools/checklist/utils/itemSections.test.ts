@@ -0,0 +1,107 @@
+/**
+ * Item Section Tests
+ *
+ * Tests grouping items into sections, section progress and editor ordering.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getSectionProgress,
+  groupItemsBySection,
+  hasItemSections,
+  normalizeSectionName,
+  orderItemsBySection,
+  validateSectionNames,
+} from './itemSections';
+import type { ChecklistItemDto } from '../services/checklistService';
+
+const createItem = (id: string, sectionName: string | null, overrides: Partial<ChecklistItemDto> = {}): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: `template-${id}`,
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder: 10,
+  isRequired: false,
+  isCompleted: false,
+  sectionName,
+  createdAt: '2026-10-19T10:00:00Z',
+  ...overrides,
+});
+
+describe('normalizeSectionName', () => {
+  it('trims names and treats blank names as no section', () => {
+    expect(normalizeSectionName('  Setup ')).toBe('Setup');
+    expect(normalizeSectionName('   ')).toBeNull();
+    expect(normalizeSectionName(undefined)).toBeNull();
+  });
+});
+
+describe('groupItemsBySection', () => {
+  it('puts unsectioned items first and orders sections by their first item', () => {
+    const items = [
+      createItem('a', 'Setup'),
+      createItem('b', null),
+      createItem('c', 'Teardown'),
+      createItem('d', 'Setup'),
+    ];
+
+    const sections = groupItemsBySection(items);
+
+    expect(sections.map((section) => section.name)).toEqual([null, 'Setup', 'Teardown']);
+    expect(sections[1].items.map((item) => item.id)).toEqual(['a', 'd']);
+  });
+
+  it('returns one unnamed section when no item has a section', () => {
+    const items = [createItem('a', null), createItem('b', ' ')];
+
+    expect(hasItemSections(items)).toBe(false);
+    expect(groupItemsBySection(items)).toEqual([{ name: null, items }]);
+  });
+});
+
+describe('getSectionProgress', () => {
+  it('counts completed items with the checklist completion rules', () => {
+    const items = [
+      createItem('a', 'Setup', { isCompleted: true }),
+      createItem('b', 'Setup', { itemType: 'number', value: '42' }),
+      createItem('c', 'Setup', {
+        itemType: 'status',
+        currentStatus: 'In Progress',
+        statusConfiguration: '[{"label":"In Progress","isCompletion":false,"order":1}]',
+      }),
+    ];
+
+    expect(getSectionProgress(items)).toEqual({ completed: 2, total: 3, percentage: 67 });
+    expect(getSectionProgress([])).toEqual({ completed: 0, total: 0, percentage: 0 });
+  });
+});
+
+describe('orderItemsBySection', () => {
+  it('groups items by section order and renumbers display orders', () => {
+    const items = [
+      { id: 'a', sectionId: 'teardown', displayOrder: 10 },
+      { id: 'b', sectionId: 'setup', displayOrder: 20 },
+      { id: 'c', sectionId: null, displayOrder: 30 },
+      { id: 'd', sectionId: 'setup', displayOrder: 40 },
+    ];
+
+    const ordered = orderItemsBySection(items, ['setup', 'teardown']);
+
+    expect(ordered.map((item) => item.id)).toEqual(['c', 'b', 'd', 'a']);
+    expect(ordered.map((item) => item.displayOrder)).toEqual([10, 20, 30, 40]);
+  });
+});
+
+describe('validateSectionNames', () => {
+  it('accepts distinct names', () => {
+    expect(validateSectionNames(['Setup', 'Teardown'])).toBeNull();
+  });
+
+  it('rejects blank, duplicate and overly long names', () => {
+    expect(validateSectionNames(['Setup', ' '])).toBe('Every section needs a name');
+    expect(validateSectionNames(['Setup', 'setup '])).toBe('There is more than one section named "setup"');
+    expect(validateSectionNames(['x'.repeat(201)])).toBe('Section names cannot exceed 200 characters');
+  });
+});
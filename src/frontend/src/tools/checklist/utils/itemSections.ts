@@ -0,0 +1,125 @@
+/**
+ * Item Section Utilities
+ *
+ * Pure helpers for named item sections in templates and checklists:
+ * - Grouping items into sections for display, with per-section progress
+ * - Template editing: keeping items grouped by section in display order
+ *
+ * Items store only their section name; sections are ordered by their first
+ * item, so a section exists as long as it has items. Items without a section
+ * are shown first.
+ */
+
+import type { ChecklistItemDto } from '../services/checklistService';
+import { isItemComplete } from './itemDue';
+
+/**
+ * Maximum section name length (matches the backend)
+ */
+export const MAX_SECTION_NAME_LENGTH = 200;
+
+/**
+ * Items of one section, in display order
+ */
+export interface ItemSection<T> {
+  name: string | null; // null = items without a section
+  items: T[];
+}
+
+/**
+ * Completion of the items in a section
+ */
+export interface SectionProgress {
+  completed: number;
+  total: number;
+  percentage: number;
+}
+
+/**
+ * Section name as saved: trimmed, blank = no section
+ */
+export const normalizeSectionName = (name: string | null | undefined): string | null =>
+  name?.trim() || null;
+
+/**
+ * Whether any item is in a named section (otherwise lists render flat)
+ */
+export const hasItemSections = (items: { sectionName?: string | null }[]): boolean =>
+  items.some((item) => normalizeSectionName(item.sectionName) !== null);
+
+/**
+ * Group items (already in display order) into sections. Items without a
+ * section come first; named sections follow in the order of their first item.
+ */
+export const groupItemsBySection = <T extends { sectionName?: string | null }>(
+  items: T[]
+): ItemSection<T>[] => {
+  const unsectioned: T[] = [];
+  const sections = new Map<string, T[]>();
+
+  items.forEach((item) => {
+    const name = normalizeSectionName(item.sectionName);
+    if (name === null) {
+      unsectioned.push(item);
+      return;
+    }
+    const sectionItems = sections.get(name) ?? [];
+    sectionItems.push(item);
+    sections.set(name, sectionItems);
+  });
+
+  return [
+    ...(unsectioned.length > 0 ? [{ name: null, items: unsectioned }] : []),
+    ...[...sections].map(([name, sectionItems]) => ({ name, items: sectionItems })),
+  ];
+};
+
+/**
+ * Progress of a section (same completion rules as the checklist progress)
+ */
+export const getSectionProgress = (items: ChecklistItemDto[]): SectionProgress => {
+  const completed = items.filter(isItemComplete).length;
+  return {
+    completed,
+    total: items.length,
+    percentage: items.length > 0 ? Math.round((completed / items.length) * 100) : 0,
+  };
+};
+
+/**
+ * Editor item: belongs to a section by the section's editor ID
+ */
+interface SectionedFormItem {
+  sectionId: string | null;
+  displayOrder: number;
+}
+
+/**
+ * Put editor items in section order (unsectioned first, then the sections as
+ * listed), keeping their order within a section, and renumber display orders
+ */
+export const orderItemsBySection = <T extends SectionedFormItem>(items: T[], sectionIds: string[]): T[] => {
+  const rank = (item: T) => (item.sectionId === null ? -1 : sectionIds.indexOf(item.sectionId));
+
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => rank(a.item) - rank(b.item) || a.index - b.index)
+    .map(({ item }, index) => ({ ...item, displayOrder: (index + 1) * 10 }));
+};
+
+/**
+ * Validate section names: required, unique (ignoring case) and not too long
+ * @returns Error message, or null when valid
+ */
+export const validateSectionNames = (names: string[]): string | null => {
+  const normalized = names.map((name) => name.trim());
+  if (normalized.some((name) => name === '')) {
+    return 'Every section needs a name';
+  }
+  if (normalized.some((name) => name.length > MAX_SECTION_NAME_LENGTH)) {
+    return `Section names cannot exceed ${MAX_SECTION_NAME_LENGTH} characters`;
+  }
+  const lower = normalized.map((name) => name.toLowerCase());
+  const duplicate = normalized.find((_, index) => lower.indexOf(lower[index]) !== index);
+  return duplicate ? `There is more than one section named "${duplicate}"` : null;
+};
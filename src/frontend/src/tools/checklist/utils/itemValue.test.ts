@@ -0,0 +1,92 @@
+/**
+ * Item Value Tests
+ *
+ * Tests value item types, unit/range configuration, value validation and display.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  describeValueConfiguration,
+  formatItemValue,
+  fromDateTimeInputValue,
+  getItemTypeLabel,
+  isValueItemType,
+  parseValueConfiguration,
+  serializeValueConfiguration,
+  toDateTimeInputValue,
+  validateItemValue,
+  validateValueConfiguration,
+} from './itemValue';
+
+const FUEL_CONFIG = '{"unit":"gal","min":0,"max":500}';
+
+describe('item types', () => {
+  it('identifies value item types and labels them', () => {
+    expect(isValueItemType('number')).toBe(true);
+    expect(isValueItemType('yesno')).toBe(true);
+    expect(isValueItemType('checkbox')).toBe(false);
+    expect(isValueItemType('status')).toBe(false);
+    expect(getItemTypeLabel('datetime')).toBe('Date/Time');
+    expect(getItemTypeLabel('unknown')).toBe('unknown');
+  });
+});
+
+describe('value configuration', () => {
+  it('parses, serializes and describes the unit and range', () => {
+    expect(parseValueConfiguration(FUEL_CONFIG)).toEqual({ unit: 'gal', min: 0, max: 500 });
+    expect(parseValueConfiguration('not json')).toBeNull();
+    expect(parseValueConfiguration(undefined)).toBeNull();
+
+    expect(serializeValueConfiguration({ unit: ' psi ', min: 0 })).toBe('{"unit":"psi","min":0}');
+    expect(serializeValueConfiguration({ unit: ' ' })).toBeNull();
+
+    expect(describeValueConfiguration({ unit: 'gal', min: 0, max: 500 })).toBe('0–500 gal');
+    expect(describeValueConfiguration({ unit: '%', min: 0 })).toBe('≥ 0 %');
+    expect(describeValueConfiguration({ unit: 'psi' })).toBe('psi');
+    expect(describeValueConfiguration(null)).toBe('');
+  });
+
+  it('rejects a minimum above the maximum', () => {
+    expect(validateValueConfiguration({ min: 0, max: 500 })).toBeNull();
+    expect(validateValueConfiguration({ min: 10, max: 5 })).toBe('Minimum cannot be greater than maximum');
+  });
+});
+
+describe('validateItemValue', () => {
+  it('checks numbers against the range', () => {
+    const item = { itemType: 'number', valueConfiguration: FUEL_CONFIG };
+
+    expect(validateItemValue(item, '42.5')).toBeNull();
+    expect(validateItemValue(item, '')).toBeNull();
+    expect(validateItemValue(item, 'abc')).toBe('"abc" is not a number');
+    expect(validateItemValue(item, '750')).toBe('Reading must be between 0 and 500 gal');
+    expect(validateItemValue({ itemType: 'number', valueConfiguration: '{"min":0}' }, '-1')).toBe(
+      'Reading must be at least 0'
+    );
+  });
+
+  it('checks text length, dates and yes/no answers', () => {
+    expect(validateItemValue({ itemType: 'text' }, 'x'.repeat(501))).toBe('Text cannot exceed 500 characters');
+    expect(validateItemValue({ itemType: 'datetime' }, '2026-10-19T14:30:00Z')).toBeNull();
+    expect(validateItemValue({ itemType: 'datetime' }, 'soon')).toBe('"soon" is not a date and time');
+    expect(validateItemValue({ itemType: 'yesno' }, 'n/a')).toBeNull();
+    expect(validateItemValue({ itemType: 'yesno' }, 'Maybe')).toBe('Answer must be one of: Yes, No, N/A');
+  });
+});
+
+describe('formatItemValue and datetime inputs', () => {
+  it('formats captured values for display', () => {
+    expect(formatItemValue({ itemType: 'number', value: '42.5', valueConfiguration: FUEL_CONFIG })).toBe('42.5 gal');
+    expect(formatItemValue({ itemType: 'yesno', value: 'N/A' })).toBe('N/A');
+    expect(formatItemValue({ itemType: 'text' })).toBeNull();
+  });
+
+  it('round-trips local datetime input values', () => {
+    const iso = fromDateTimeInputValue('2026-10-19T14:30');
+
+    expect(toDateTimeInputValue(iso)).toBe('2026-10-19T14:30');
+    expect(formatItemValue({ itemType: 'datetime', value: iso })).toBe('Oct 19, 2026 14:30');
+    expect(toDateTimeInputValue(undefined)).toBe('');
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Item Value Utilities
+ *
+ * Pure helpers for items that capture a typed value instead of being ticked:
+ * - number: numeric reading with optional unit and min/max (valueConfiguration)
+ * - text: short free text
+ * - datetime: date and time, stored as ISO 8601 UTC
+ * - yesno: "Yes", "No" or "N/A"
+ *
+ * A value item counts as complete once a value is captured. The backend
+ * (ItemValueHelper) validates and normalizes values; validateItemValue mirrors
+ * its rules so editors can show errors before saving.
+ */
+
+import { format } from 'date-fns';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemType, type ItemValueConfiguration } from '../types';
+
+/**
+ * Item types that capture a value
+ */
+export const VALUE_ITEM_TYPES: ItemType[] = [ItemType.NUMBER, ItemType.TEXT, ItemType.DATETIME, ItemType.YESNO];
+
+/**
+ * Accepted answers of yes/no items, in display order
+ */
+export const YES_NO_VALUES = ['Yes', 'No', 'N/A'] as const;
+
+/**
+ * Longest value a text item accepts (matches the backend)
+ */
+export const MAX_TEXT_VALUE_LENGTH = 500;
+
+/**
+ * Display label of each item type
+ */
+export const ITEM_TYPE_LABELS: Record<ItemType, string> = {
+  [ItemType.CHECKBOX]: 'Checkbox',
+  [ItemType.STATUS]: 'Status',
+  [ItemType.NUMBER]: 'Number',
+  [ItemType.TEXT]: 'Text',
+  [ItemType.DATETIME]: 'Date/Time',
+  [ItemType.YESNO]: 'Yes/No/N-A',
+};
+
+type ValueItem = Pick<ChecklistItemDto, 'itemType' | 'value' | 'valueConfiguration'>;
+
+/**
+ * Display label of an item type ("Checkbox", "Number", ...)
+ */
+export const getItemTypeLabel = (itemType: string): string =>
+  ITEM_TYPE_LABELS[itemType as ItemType] ?? itemType;
+
+/**
+ * Whether items of this type capture a value (rather than a checkbox or status)
+ */
+export const isValueItemType = (itemType: string): boolean =>
+  VALUE_ITEM_TYPES.includes(itemType as ItemType);
+
+/**
+ * Reads the unit and range of a number item (null for missing or invalid JSON)
+ */
+export const parseValueConfiguration = (json: string | null | undefined): ItemValueConfiguration | null => {
+  if (!json) return null;
+  try {
+    const parsed = JSON.parse(json);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed)
+      ? (parsed as ItemValueConfiguration)
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * JSON to save for a number item's unit and range (null when none is set)
+ */
+export const serializeValueConfiguration = (configuration: ItemValueConfiguration): string | null => {
+  const unit = configuration.unit?.trim();
+  const result: ItemValueConfiguration = {
+    ...(unit ? { unit } : {}),
+    ...(configuration.min !== undefined ? { min: configuration.min } : {}),
+    ...(configuration.max !== undefined ? { max: configuration.max } : {}),
+  };
+  return Object.keys(result).length > 0 ? JSON.stringify(result) : null;
+};
+
+/**
+ * Summary of a number item's unit and range, e.g. "0–500 gal", "≥ 0 %", "psi"
+ */
+export const describeValueConfiguration = (configuration: ItemValueConfiguration | null): string => {
+  if (!configuration) return '';
+
+  const { unit, min, max } = configuration;
+  let range = '';
+  if (min !== undefined && max !== undefined) range = `${min}–${max}`;
+  else if (min !== undefined) range = `≥ ${min}`;
+  else if (max !== undefined) range = `≤ ${max}`;
+
+  return [range, unit].filter(Boolean).join(' ');
+};
+
+/**
+ * Validation message for a number item's unit and range, or null when valid
+ */
+export const validateValueConfiguration = (configuration: ItemValueConfiguration): string | null => {
+  if (configuration.min !== undefined && configuration.max !== undefined && configuration.min > configuration.max) {
+    return 'Minimum cannot be greater than maximum';
+  }
+  return null;
+};
+
+/**
+ * Validation message for a value being captured, or null when valid
+ * An empty value is valid (it clears the item).
+ * @param item Value item (type and configuration)
+ * @param value Value as entered (datetime values as ISO 8601)
+ */
+export const validateItemValue = (
+  item: Pick<ChecklistItemDto, 'itemType' | 'valueConfiguration'>,
+  value: string
+): string | null => {
+  const trimmed = value.trim();
+  if (!trimmed) return null;
+
+  switch (item.itemType) {
+    case ItemType.NUMBER: {
+      const number = Number(trimmed);
+      if (!Number.isFinite(number)) return `"${trimmed}" is not a number`;
+
+      const configuration = parseValueConfiguration(item.valueConfiguration);
+      const outOfRange =
+        (configuration?.min !== undefined && number < configuration.min) ||
+        (configuration?.max !== undefined && number > configuration.max);
+      return outOfRange ? `Reading must be ${describeRange(configuration!)}` : null;
+    }
+    case ItemType.TEXT:
+      return trimmed.length > MAX_TEXT_VALUE_LENGTH
+        ? `Text cannot exceed ${MAX_TEXT_VALUE_LENGTH} characters`
+        : null;
+    case ItemType.DATETIME:
+      return Number.isNaN(new Date(trimmed).getTime()) ? `"${trimmed}" is not a date and time` : null;
+    case ItemType.YESNO:
+      return YES_NO_VALUES.some((answer) => answer.toLowerCase() === trimmed.toLowerCase())
+        ? null
+        : `Answer must be one of: ${YES_NO_VALUES.join(', ')}`;
+    default:
+      return 'This item does not capture a value';
+  }
+};
+
+/**
+ * Captured value for display, e.g. "42.5 gal", "Oct 19, 2026 14:30", "N/A"
+ * Null when no value is captured.
+ */
+export const formatItemValue = (item: ValueItem): string | null => {
+  if (!item.value) return null;
+
+  switch (item.itemType) {
+    case ItemType.NUMBER: {
+      const unit = parseValueConfiguration(item.valueConfiguration)?.unit;
+      return unit ? `${item.value} ${unit}` : item.value;
+    }
+    case ItemType.DATETIME: {
+      const date = new Date(item.value);
+      return Number.isNaN(date.getTime()) ? item.value : format(date, 'MMM d, yyyy HH:mm');
+    }
+    default:
+      return item.value;
+  }
+};
+
+/**
+ * Stored datetime value as a local "yyyy-MM-ddTHH:mm" value for datetime-local inputs
+ */
+export const toDateTimeInputValue = (value: string | null | undefined): string => {
+  if (!value) return '';
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? '' : format(date, "yyyy-MM-dd'T'HH:mm");
+};
+
+/**
+ * Local datetime-local input value as an ISO 8601 UTC value to save
+ */
+export const fromDateTimeInputValue = (input: string): string => {
+  if (!input) return '';
+  const date = new Date(input);
+  return Number.isNaN(date.getTime()) ? input : date.toISOString();
+};
+
+/**
+ * Accepted range of a number item, e.g. "between 0 and 500 gal" (matches the backend message)
+ */
+const describeRange = (configuration: ItemValueConfiguration): string => {
+  const unit = configuration.unit ? ` ${configuration.unit}` : '';
+  if (configuration.min !== undefined && configuration.max !== undefined) {
+    return `between ${configuration.min} and ${configuration.max}${unit}`;
+  }
+  return configuration.min !== undefined ? `at least ${configuration.min}${unit}` : `at most ${configuration.max}${unit}`;
+};
@@ -0,0 +1,103 @@
+/**
+ * Live Item Editing Tests
+ *
+ * Tests display ordering, section placement and drag-and-drop moves for
+ * editing the items of an existing checklist.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  getDisplayOrderedItems,
+  getInsertAfterItemId,
+  getSectionNames,
+  moveLiveItem,
+  toAddItemRequest,
+} from './liveItemEditing';
+import type { ChecklistItemDto } from '../services/checklistService';
+import { ItemType, type ItemLibraryEntry } from '../types';
+
+const createItem = (id: string, displayOrder: number, sectionName: string | null = null): ChecklistItemDto => ({
+  id,
+  checklistInstanceId: 'checklist-1',
+  templateItemId: `template-${id}`,
+  itemText: `Item ${id}`,
+  itemType: 'checkbox',
+  displayOrder,
+  isRequired: false,
+  sectionName,
+  createdAt: '2026-10-19T10:00:00Z',
+});
+
+// Display order: c (no section), then Setup: a, b, then Teardown: d
+const items = [
+  createItem('a', 10, 'Setup'),
+  createItem('b', 20, 'Setup'),
+  createItem('c', 30),
+  createItem('d', 40, 'Teardown'),
+];
+
+describe('getDisplayOrderedItems', () => {
+  it('puts items without a section first, then each section in order', () => {
+    expect(getDisplayOrderedItems(items).map((item) => item.id)).toEqual(['c', 'a', 'b', 'd']);
+  });
+});
+
+describe('getSectionNames', () => {
+  it('lists named sections in display order', () => {
+    expect(getSectionNames(items)).toEqual(['Setup', 'Teardown']);
+  });
+});
+
+describe('getInsertAfterItemId', () => {
+  it('places new items after the last item of their section', () => {
+    expect(getInsertAfterItemId(items, 'Setup')).toBe('b');
+    expect(getInsertAfterItemId(items, null)).toBe('c');
+  });
+
+  it('adds items of a new section at the end', () => {
+    expect(getInsertAfterItemId(items, ' Demobilization ')).toBeNull();
+  });
+});
+
+describe('moveLiveItem', () => {
+  it('moves an item within its section and renumbers display orders', () => {
+    const result = moveLiveItem(items, 'b', 'a');
+
+    expect(result?.map((item) => item.id)).toEqual(['c', 'b', 'a', 'd']);
+    expect(result?.map((item) => item.displayOrder)).toEqual([10, 20, 30, 40]);
+  });
+
+  it('ignores moves onto itself or into another section', () => {
+    expect(moveLiveItem(items, 'a', 'a')).toBeNull();
+    expect(moveLiveItem(items, 'a', 'd')).toBeNull();
+    expect(moveLiveItem(items, 'a', 'missing')).toBeNull();
+  });
+});
+
+describe('toAddItemRequest', () => {
+  it('copies the library item into the section', () => {
+    const entry: ItemLibraryEntry = {
+      id: 'library-1',
+      itemText: 'Check generator fuel',
+      itemType: ItemType.NUMBER,
+      category: 'Logistics',
+      valueConfiguration: '{"unit":"gal"}',
+      isRequiredByDefault: true,
+      usageCount: 3,
+      createdBy: 'admin@cobra.mil',
+      createdAt: '2026-10-01T00:00:00Z',
+    };
+
+    expect(toAddItemRequest(entry, ' Setup ', 'b')).toEqual({
+      itemText: 'Check generator fuel',
+      itemType: ItemType.NUMBER,
+      isRequired: true,
+      statusConfiguration: undefined,
+      valueConfiguration: '{"unit":"gal"}',
+      allowedPositions: undefined,
+      sectionName: 'Setup',
+      insertAfterItemId: 'b',
+    });
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Live Item Editing Utilities
+ *
+ * Pure helpers for adding, removing and reordering the items of a checklist
+ * that already exists (Manage role, ChecklistDetailPage):
+ * - Items are edited in the order they are displayed (grouped by section)
+ * - Drag-and-drop moves items within their section; the new order is sent
+ *   as every item ID (PUT /api/checklists/{id}/items/reorder)
+ * - New items go to the end of their section
+ */
+
+import { arrayMove } from '@dnd-kit/sortable';
+import type { ChecklistItemDto } from '../services/checklistService';
+import type { AddChecklistItemRequest, ItemLibraryEntry } from '../types';
+import { groupItemsBySection, normalizeSectionName } from './itemSections';
+
+/**
+ * Items in display order: by display order, grouped by section
+ */
+export const getDisplayOrderedItems = (items: ChecklistItemDto[]): ChecklistItemDto[] =>
+  groupItemsBySection([...items].sort((a, b) => a.displayOrder - b.displayOrder)).flatMap(
+    (section) => section.items
+  );
+
+/**
+ * Named sections of a checklist, in display order
+ */
+export const getSectionNames = (items: ChecklistItemDto[]): string[] =>
+  groupItemsBySection(getDisplayOrderedItems(items))
+    .map((section) => section.name)
+    .filter((name): name is string => name !== null);
+
+/**
+ * Item a new item in the section should be placed after: the section's last
+ * item (null = at the end of the checklist)
+ */
+export const getInsertAfterItemId = (items: ChecklistItemDto[], sectionName: string | null): string | null => {
+  const section = normalizeSectionName(sectionName);
+  const sectionItems = getDisplayOrderedItems(items).filter(
+    (item) => normalizeSectionName(item.sectionName) === section
+  );
+  return sectionItems.length > 0 ? sectionItems[sectionItems.length - 1].id : null;
+};
+
+/**
+ * Move an item to where another one is (drag-and-drop), renumbering display
+ * orders 10, 20, 30, ... Returns null when nothing moves or the items are in
+ * different sections (items stay in their section).
+ */
+export const moveLiveItem = (
+  items: ChecklistItemDto[],
+  activeId: string,
+  overId: string
+): ChecklistItemDto[] | null => {
+  const ordered = getDisplayOrderedItems(items);
+  const oldIndex = ordered.findIndex((item) => item.id === activeId);
+  const newIndex = ordered.findIndex((item) => item.id === overId);
+
+  if (oldIndex < 0 || newIndex < 0 || oldIndex === newIndex) {
+    return null;
+  }
+  if (normalizeSectionName(ordered[oldIndex].sectionName) !== normalizeSectionName(ordered[newIndex].sectionName)) {
+    return null;
+  }
+
+  return arrayMove(ordered, oldIndex, newIndex).map((item, index) => ({
+    ...item,
+    displayOrder: (index + 1) * 10,
+  }));
+};
+
+/**
+ * Request to add a copy of a library item to a checklist section
+ */
+export const toAddItemRequest = (
+  entry: ItemLibraryEntry,
+  sectionName: string | null,
+  insertAfterItemId: string | null
+): AddChecklistItemRequest => ({
+  itemText: entry.itemText,
+  itemType: entry.itemType,
+  isRequired: entry.isRequiredByDefault,
+  statusConfiguration: entry.statusConfiguration || undefined,
+  valueConfiguration: entry.valueConfiguration || undefined,
+  allowedPositions: entry.allowedPositions || undefined,
+  sectionName: normalizeSectionName(sectionName),
+  insertAfterItemId,
+});
@@ -0,0 +1,90 @@
+/**
+ * Checklist Presence Utility Tests
+ *
+ * Tests picking out other viewers and notes editors, and display text.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { ChecklistViewer } from '../hooks/useChecklistHub';
+import {
+  applyPresenceChange,
+  formatNotesEditors,
+  formatViewer,
+  getNotesEditors,
+  getOtherViewers,
+  getViewerInitials,
+} from './presence';
+
+const createViewer = (overrides: Partial<ChecklistViewer> = {}): ChecklistViewer => ({
+  connectionId: 'conn-1',
+  email: 'ops@cobra.mil',
+  fullName: 'Jane Smith',
+  position: 'Operations Section Chief',
+  notesItemId: null,
+  joinedAt: '2025-01-01T10:00:00Z',
+  lastSeenAt: '2025-01-01T10:00:00Z',
+  ...overrides,
+});
+
+const me = 'safety@cobra.mil';
+
+describe('getOtherViewers', () => {
+  it('leaves out the current user and shows each person once', () => {
+    const viewers = [
+      createViewer(),
+      createViewer({ connectionId: 'conn-2' }),
+      createViewer({ connectionId: 'conn-3', email: 'SAFETY@cobra.mil' }),
+    ];
+
+    expect(getOtherViewers(viewers, me).map((v) => v.connectionId)).toEqual(['conn-1']);
+  });
+});
+
+describe('getNotesEditors', () => {
+  it('returns other people with the item notes open', () => {
+    const viewers = [
+      createViewer({ connectionId: 'conn-2', notesItemId: 'item-1' }),
+      createViewer({ connectionId: 'conn-3', email: me, notesItemId: 'item-1' }),
+      createViewer({ connectionId: 'conn-4', email: 'log@cobra.mil', notesItemId: 'item-2' }),
+    ];
+
+    expect(getNotesEditors(viewers, 'item-1', me).map((v) => v.connectionId)).toEqual(['conn-2']);
+    expect(getNotesEditors(viewers, 'item-3', me)).toEqual([]);
+  });
+});
+
+describe('display text', () => {
+  it('builds initials from the name, falling back to the email', () => {
+    expect(getViewerInitials(createViewer())).toBe('JS');
+    expect(getViewerInitials(createViewer({ fullName: 'Mary Ann Lee' }))).toBe('MA');
+    expect(getViewerInitials(createViewer({ fullName: ' ' }))).toBe('O');
+  });
+
+  it('formats name and position', () => {
+    expect(formatViewer(createViewer())).toBe('Jane Smith (Operations Section Chief)');
+    expect(formatViewer(createViewer({ fullName: '', position: '' }))).toBe('ops@cobra.mil');
+  });
+
+  it('describes who has the notes open', () => {
+    const bob = createViewer({ fullName: 'Bob Jones', position: 'Safety Officer' });
+
+    expect(formatNotesEditors([])).toBe('');
+    expect(formatNotesEditors([createViewer()])).toBe(
+      "Jane Smith (Operations Section Chief) has this item's notes open"
+    );
+    expect(formatNotesEditors([createViewer(), bob, bob])).toBe(
+      "Jane Smith (Operations Section Chief) and 2 others have this item's notes open"
+    );
+  });
+});
+
+describe('applyPresenceChange', () => {
+  it('replaces a checklist viewers and drops empty checklists', () => {
+    const sentAt = '2026-10-19T12:00:00Z';
+    const presence = applyPresenceChange({}, { checklistId: 'c-1', viewers: [createViewer()], sentAt });
+
+    expect(presence['c-1']).toHaveLength(1);
+    expect(applyPresenceChange(presence, { checklistId: 'c-1', viewers: [], sentAt })).toEqual({});
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Checklist Presence Utilities
+ *
+ * Pure helpers for live presence. The hub reports one viewer per open browser
+ * tab, including our own; these pick out the other people, the ones with an
+ * item's notes open, and format them for avatars and notices.
+ */
+
+import type { ChecklistViewer, PresenceChangedEvent } from '../hooks/useChecklistHub';
+
+/**
+ * Viewers by checklist ID
+ */
+export type ChecklistPresence = Record<string, ChecklistViewer[]>;
+
+const isSameUser = (viewer: ChecklistViewer, email: string): boolean =>
+  viewer.email.toLowerCase() === email.toLowerCase();
+
+/**
+ * One viewer per person (first tab they opened), without the current user
+ */
+export const getOtherViewers = (viewers: ChecklistViewer[], currentUserEmail: string): ChecklistViewer[] => {
+  const seen = new Set<string>();
+  return viewers.filter((viewer) => {
+    const key = viewer.email.toLowerCase();
+    if (isSameUser(viewer, currentUserEmail) || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+/**
+ * Other people who have the item's notes dialog open
+ */
+export const getNotesEditors = (
+  viewers: ChecklistViewer[],
+  itemId: string,
+  currentUserEmail: string
+): ChecklistViewer[] =>
+  getOtherViewers(
+    viewers.filter((viewer) => viewer.notesItemId === itemId),
+    currentUserEmail
+  );
+
+/**
+ * Avatar initials ("Jane Smith" → "JS"), falling back to the email
+ */
+export const getViewerInitials = (viewer: Pick<ChecklistViewer, 'fullName' | 'email'>): string => {
+  const words = viewer.fullName.trim().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return viewer.email.charAt(0).toUpperCase();
+  return words
+    .slice(0, 2)
+    .map((word) => word.charAt(0).toUpperCase())
+    .join('');
+};
+
+/**
+ * Name and position for tooltips ("Jane Smith (Safety Officer)")
+ */
+export const formatViewer = (viewer: Pick<ChecklistViewer, 'fullName' | 'email' | 'position'>): string => {
+  const name = viewer.fullName.trim() || viewer.email;
+  return viewer.position ? `${name} (${viewer.position})` : name;
+};
+
+/**
+ * Notice for an item whose notes others have open
+ */
+export const formatNotesEditors = (editors: ChecklistViewer[]): string => {
+  if (editors.length === 0) return '';
+  if (editors.length === 1) return `${formatViewer(editors[0])} has this item's notes open`;
+  if (editors.length === 2) {
+    return `${formatViewer(editors[0])} and ${formatViewer(editors[1])} have this item's notes open`;
+  }
+  return `${formatViewer(editors[0])} and ${editors.length - 1} others have this item's notes open`;
+};
+
+/**
+ * Apply a PresenceChanged message (checklists nobody is viewing are removed)
+ */
+export const applyPresenceChange = (presence: ChecklistPresence, event: PresenceChangedEvent): ChecklistPresence => {
+  const next = { ...presence };
+  if (event.viewers.length > 0) {
+    next[event.checklistId] = event.viewers;
+  } else {
+    delete next[event.checklistId];
+  }
+  return next;
+};
@@ -0,0 +1,105 @@
+/**
+ * Recurrence Utility Tests
+ *
+ * Tests parsing, serialization, validation and descriptions of
+ * recurring template schedules. Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  MAX_INTERVAL_HOURS,
+  createDefaultRecurrenceConfig,
+  describeRecurrence,
+  parseRecurrenceConfig,
+  serializeRecurrenceConfig,
+  validateRecurrenceConfig,
+} from './recurrence';
+import { RecurrenceFrequency, type RecurrenceConfig } from '../types';
+
+const createConfig = (overrides: Partial<RecurrenceConfig> = {}): RecurrenceConfig => ({
+  frequency: RecurrenceFrequency.DAILY,
+  intervalHours: 12,
+  timeOfDay: '06:00',
+  timeZone: 'America/New_York',
+  startAt: '2025-11-20T00:00:00.000Z',
+  endAt: null,
+  assignedPositions: ['Safety Officer'],
+  ...overrides,
+});
+
+describe('createDefaultRecurrenceConfig', () => {
+  it('defaults to every operational period starting now, with no end', () => {
+    const config = createDefaultRecurrenceConfig(new Date('2025-11-20T12:00:00Z'));
+
+    expect(config.frequency).toBe(RecurrenceFrequency.OPERATIONAL_PERIOD);
+    expect(config.startAt).toBe('2025-11-20T12:00:00.000Z');
+    expect(config.endAt).toBeNull();
+    expect(config.timeZone).toBeTruthy();
+  });
+});
+
+describe('parseRecurrenceConfig / serializeRecurrenceConfig', () => {
+  it('round-trips a schedule, dropping fields the frequency does not use', () => {
+    const json = serializeRecurrenceConfig(createConfig());
+
+    expect(JSON.parse(json)).not.toHaveProperty('intervalHours');
+    expect(parseRecurrenceConfig(json)).toEqual(createConfig({ intervalHours: undefined }));
+  });
+
+  it('returns null for missing, invalid or unknown schedules', () => {
+    expect(parseRecurrenceConfig(undefined)).toBeNull();
+    expect(parseRecurrenceConfig('{')).toBeNull();
+    expect(parseRecurrenceConfig('{"frequency":"weekly"}')).toBeNull();
+  });
+
+  it('ignores malformed optional fields', () => {
+    expect(
+      parseRecurrenceConfig('{"frequency":"interval","intervalHours":"6","assignedPositions":["A",3]}')
+    ).toMatchObject({ intervalHours: undefined, endAt: null, assignedPositions: ['A'] });
+  });
+});
+
+describe('validateRecurrenceConfig', () => {
+  it('accepts valid schedules', () => {
+    expect(validateRecurrenceConfig(createConfig())).toBeNull();
+    expect(validateRecurrenceConfig(createConfig({ frequency: RecurrenceFrequency.OPERATIONAL_PERIOD, timeOfDay: '' }))).toBeNull();
+  });
+
+  it('requires whole interval hours within range', () => {
+    const interval = (intervalHours?: number) =>
+      validateRecurrenceConfig(createConfig({ frequency: RecurrenceFrequency.INTERVAL, intervalHours }));
+
+    expect(interval(6)).toBeNull();
+    expect(interval(0)).toContain('between 1 and');
+    expect(interval(1.5)).toContain('whole number');
+    expect(interval(MAX_INTERVAL_HOURS + 1)).not.toBeNull();
+    expect(interval(undefined)).not.toBeNull();
+  });
+
+  it('requires an HH:mm time for daily schedules', () => {
+    expect(validateRecurrenceConfig(createConfig({ timeOfDay: '24:00' }))).toBe('Enter a time of day as HH:mm');
+    expect(validateRecurrenceConfig(createConfig({ timeOfDay: '6:00' }))).not.toBeNull();
+  });
+
+  it('requires the end to be after the start', () => {
+    expect(validateRecurrenceConfig(createConfig({ endAt: '2025-11-19T00:00:00.000Z' }))).toBe(
+      'The end time must be after the start time'
+    );
+  });
+});
+
+describe('describeRecurrence', () => {
+  it('summarizes frequency, end and positions', () => {
+    expect(describeRecurrence(createConfig())).toBe(
+      'Daily at 06:00 (America/New_York) until the event is closed, assigned to Safety Officer'
+    );
+    expect(
+      describeRecurrence(
+        createConfig({ frequency: RecurrenceFrequency.OPERATIONAL_PERIOD, assignedPositions: [] })
+      )
+    ).toBe('Every operational period until the event is closed, visible to all positions');
+    expect(
+      describeRecurrence(createConfig({ frequency: RecurrenceFrequency.INTERVAL, intervalHours: 1, startAt: undefined }))
+    ).toBe('Every 1 hour until the event is closed, assigned to Safety Officer');
+  });
+});
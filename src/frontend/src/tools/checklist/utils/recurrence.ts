@@ -0,0 +1,139 @@
+/**
+ * Recurrence Utilities
+ *
+ * Reads, validates and describes the schedule of a RECURRING template.
+ * The schedule is stored as JSON in Template.recurrenceConfig and run by the
+ * backend scheduler, which creates a checklist for each active event:
+ * - Every operational period (when the event's current period changes)
+ * - Every N hours, counted from the start time
+ * - Daily at a local time of day
+ * until the event is closed or the optional end time passes.
+ */
+
+import { format } from 'date-fns';
+import { RecurrenceFrequency, type RecurrenceConfig } from '../types';
+
+export const MAX_INTERVAL_HOURS = 168;
+
+/**
+ * createdBy of checklists created by the recurring schedule
+ * (matches RecurringChecklistService on the backend)
+ */
+export const RECURRING_SCHEDULE_CREATOR = 'recurring-schedule@cobra.system';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Browser time zone, used for daily times and checklist names
+ */
+const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+/**
+ * Schedule used when a template is first switched to RECURRING
+ */
+export const createDefaultRecurrenceConfig = (now: Date = new Date()): RecurrenceConfig => ({
+  frequency: RecurrenceFrequency.OPERATIONAL_PERIOD,
+  intervalHours: 12,
+  timeOfDay: '06:00',
+  timeZone: getLocalTimeZone(),
+  startAt: now.toISOString(),
+  endAt: null,
+  assignedPositions: [],
+});
+
+/**
+ * Parse a template's recurrenceConfig
+ * @returns The schedule, or null if missing or unreadable
+ */
+export const parseRecurrenceConfig = (json?: string | null): RecurrenceConfig | null => {
+  if (!json) return null;
+
+  try {
+    const raw = JSON.parse(json);
+    if (!raw || !Object.values(RecurrenceFrequency).includes(raw.frequency)) {
+      return null;
+    }
+    return {
+      frequency: raw.frequency,
+      intervalHours: typeof raw.intervalHours === 'number' ? raw.intervalHours : undefined,
+      timeOfDay: typeof raw.timeOfDay === 'string' ? raw.timeOfDay : undefined,
+      timeZone: typeof raw.timeZone === 'string' ? raw.timeZone : undefined,
+      startAt: typeof raw.startAt === 'string' ? raw.startAt : undefined,
+      endAt: typeof raw.endAt === 'string' ? raw.endAt : null,
+      assignedPositions: Array.isArray(raw.assignedPositions)
+        ? raw.assignedPositions.filter((p: unknown): p is string => typeof p === 'string')
+        : [],
+    };
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Serialize a schedule for saving, dropping fields the frequency doesn't use
+ */
+export const serializeRecurrenceConfig = (config: RecurrenceConfig): string =>
+  JSON.stringify({
+    frequency: config.frequency,
+    intervalHours: config.frequency === RecurrenceFrequency.INTERVAL ? config.intervalHours : undefined,
+    timeOfDay: config.frequency === RecurrenceFrequency.DAILY ? config.timeOfDay : undefined,
+    timeZone: config.timeZone,
+    startAt: config.startAt,
+    endAt: config.endAt ?? null,
+    assignedPositions: config.assignedPositions,
+  });
+
+/**
+ * Validate a schedule before saving
+ * @returns Error message, or null if valid
+ */
+export const validateRecurrenceConfig = (config: RecurrenceConfig): string | null => {
+  if (config.frequency === RecurrenceFrequency.INTERVAL) {
+    const hours = config.intervalHours;
+    if (hours === undefined || !Number.isInteger(hours) || hours < 1 || hours > MAX_INTERVAL_HOURS) {
+      return `Enter a whole number of hours between 1 and ${MAX_INTERVAL_HOURS}`;
+    }
+  }
+
+  if (config.frequency === RecurrenceFrequency.DAILY && !TIME_OF_DAY_PATTERN.test(config.timeOfDay ?? '')) {
+    return 'Enter a time of day as HH:mm';
+  }
+
+  if (config.startAt && config.endAt && new Date(config.endAt) <= new Date(config.startAt)) {
+    return 'The end time must be after the start time';
+  }
+
+  return null;
+};
+
+/**
+ * One-line summary of a schedule, e.g. "Daily at 06:00 (America/New_York)
+ * until the event is closed"
+ */
+export const describeRecurrence = (config: RecurrenceConfig): string => {
+  let schedule: string;
+  switch (config.frequency) {
+    case RecurrenceFrequency.INTERVAL:
+      schedule = `Every ${config.intervalHours ?? '?'} hour${config.intervalHours === 1 ? '' : 's'}`;
+      if (config.startAt) {
+        schedule += ` from ${format(new Date(config.startAt), 'MMM d, yyyy HH:mm')}`;
+      }
+      break;
+    case RecurrenceFrequency.DAILY:
+      schedule = `Daily at ${config.timeOfDay ?? '?'}${config.timeZone ? ` (${config.timeZone})` : ''}`;
+      break;
+    default:
+      schedule = 'Every operational period';
+  }
+
+  const until = config.endAt
+    ? `until ${format(new Date(config.endAt), 'MMM d, yyyy HH:mm')} or the event is closed`
+    : 'until the event is closed';
+
+  const positions =
+    config.assignedPositions.length > 0
+      ? `, assigned to ${config.assignedPositions.join(', ')}`
+      : ', visible to all positions';
+
+  return `${schedule} ${until}${positions}`;
+};
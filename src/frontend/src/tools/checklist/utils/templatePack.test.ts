@@ -0,0 +1,260 @@
+/**
+ * Template Pack Tests
+ *
+ * Tests pack building, validation, collision planning and decision checks.
+ * Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  TEMPLATE_PACK_FORMAT,
+  TEMPLATE_PACK_VERSION,
+  buildTemplatePack,
+  defaultImportDecisions,
+  parseTemplatePack,
+  planTemplatePackImport,
+  toTemplateRequest,
+  validateImportDecisions,
+} from './templatePack';
+import {
+  ItemDueAnchor,
+  ItemType,
+  TemplateApprovalStatus,
+  TemplateCategory,
+  TemplateType,
+  type ItemLibraryEntry,
+  type Template,
+} from '../types';
+
+const createTemplate = (overrides: Partial<Template> = {}): Template => ({
+  id: 'template-1',
+  name: 'Safety Officer Briefing',
+  description: 'Start of shift briefing',
+  category: TemplateCategory.SAFETY,
+  tags: 'safety, daily',
+  isActive: true,
+  isArchived: false,
+  templateType: TemplateType.MANUAL,
+  recommendedPositions: '["Safety Officer"]',
+  eventCategories: '["Hurricane"]',
+  usageCount: 4,
+  currentVersion: 2,
+  approvalStatus: TemplateApprovalStatus.APPROVED,
+  createdBy: 'safety@cobra.mil',
+  createdByPosition: 'Safety Officer',
+  createdAt: '2025-01-01T00:00:00Z',
+  items: [
+    {
+      id: 'item-2',
+      templateId: 'template-1',
+      itemText: 'Review hazards',
+      itemType: ItemType.STATUS,
+      displayOrder: 20,
+      isRequired: false,
+      statusConfiguration: '[{"label":"Done","isCompletion":true,"order":1}]',
+    },
+    {
+      id: 'item-1',
+      templateId: 'template-1',
+      itemText: 'Check PPE',
+      itemType: ItemType.CHECKBOX,
+      displayOrder: 10,
+      isRequired: true,
+      allowedPositions: '["Safety Officer"]',
+      defaultNotes: 'Hard hats and vests',
+    },
+  ],
+  ...overrides,
+});
+
+const createLibraryEntry = (overrides: Partial<ItemLibraryEntry> = {}): ItemLibraryEntry => ({
+  id: 'library-1',
+  itemText: 'Check PPE',
+  itemType: ItemType.CHECKBOX,
+  category: 'Safety',
+  tags: '["ppe"]',
+  isRequiredByDefault: true,
+  usageCount: 3,
+  createdBy: 'safety@cobra.mil',
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const pack = buildTemplatePack(
+  [createTemplate()],
+  [
+    createLibraryEntry(),
+    createLibraryEntry({ id: 'library-2', itemText: 'Unrelated item' }),
+  ],
+  'safety@cobra.mil',
+  '2025-02-01T00:00:00Z'
+);
+
+describe('buildTemplatePack', () => {
+  it('exports templates without IDs or audit fields, items in display order', () => {
+    expect(pack.format).toBe(TEMPLATE_PACK_FORMAT);
+    expect(pack.version).toBe(TEMPLATE_PACK_VERSION);
+    expect(pack.templates[0]).not.toHaveProperty('id');
+    expect(pack.templates[0]).not.toHaveProperty('usageCount');
+    expect(pack.templates[0].recommendedPositions).toBe('["Safety Officer"]');
+    expect(pack.templates[0].items.map((item) => item.itemText)).toEqual(['Check PPE', 'Review hazards']);
+    expect(pack.templates[0].items[0]).toEqual({
+      itemText: 'Check PPE',
+      itemType: ItemType.CHECKBOX,
+      displayOrder: 10,
+      isRequired: true,
+      statusConfiguration: null,
+      allowedPositions: '["Safety Officer"]',
+      defaultNotes: 'Hard hats and vests',
+    });
+  });
+
+  it('includes only library entries linked to exported items', () => {
+    expect(pack.libraryItems).toHaveLength(1);
+    expect(pack.libraryItems[0]).toMatchObject({ itemText: 'Check PPE', tags: ['ppe'] });
+  });
+});
+
+describe('parseTemplatePack', () => {
+  it('round-trips an exported pack', () => {
+    expect(parseTemplatePack(JSON.stringify(pack))).toEqual(pack);
+  });
+
+  it('keeps valid item due times and drops invalid ones', () => {
+    const withDueTimes = buildTemplatePack(
+      [
+        createTemplate({
+          items: [
+            { ...createTemplate().items![1], dueOffsetMinutes: 30 },
+            { ...createTemplate().items![0], dueOffsetMinutes: 240, dueRelativeTo: ItemDueAnchor.PERIOD_START },
+          ],
+        }),
+      ],
+      [],
+      'safety@cobra.mil',
+      '2025-02-01T00:00:00Z'
+    );
+    const [first, second] = parseTemplatePack(JSON.stringify(withDueTimes)).templates[0].items;
+
+    expect(first).toMatchObject({ dueOffsetMinutes: 30, dueRelativeTo: ItemDueAnchor.CHECKLIST_CREATED });
+    expect(second).toMatchObject({ dueOffsetMinutes: 240, dueRelativeTo: ItemDueAnchor.PERIOD_START });
+
+    const invalid = JSON.stringify({
+      ...pack,
+      templates: [{ ...pack.templates[0], items: [{ ...pack.templates[0].items[0], dueOffsetMinutes: -5 }] }],
+    });
+    expect(parseTemplatePack(invalid).templates[0].items[0]).not.toHaveProperty('dueOffsetMinutes');
+  });
+
+  it('rejects files that are not template packs', () => {
+    expect(() => parseTemplatePack('not json')).toThrow('not valid JSON');
+    expect(() => parseTemplatePack('{"templates":[]}')).toThrow('not a template pack');
+    expect(() =>
+      parseTemplatePack(JSON.stringify({ ...pack, version: TEMPLATE_PACK_VERSION + 1 }))
+    ).toThrow('not supported');
+  });
+
+  it('reports invalid templates and items', () => {
+    const withItems = (items: unknown[]) =>
+      JSON.stringify({ ...pack, templates: [{ ...pack.templates[0], items }] });
+
+    expect(() => parseTemplatePack(JSON.stringify({ ...pack, templates: [{ items: [] }] }))).toThrow(
+      'Template 1 is missing a name'
+    );
+    expect(() => parseTemplatePack(withItems([{ itemText: '', itemType: 'checkbox' }]))).toThrow(
+      'missing its text'
+    );
+    expect(() => parseTemplatePack(withItems([{ itemText: 'A', itemType: 'slider' }]))).toThrow(
+      'unknown type'
+    );
+  });
+});
+
+describe('planTemplatePackImport', () => {
+  it('detects name collisions case-insensitively and suggests a free name', () => {
+    const plan = planTemplatePackImport(
+      pack,
+      [
+        { id: 'existing-1', name: 'safety officer briefing' },
+        { id: 'existing-2', name: 'Safety Officer Briefing (imported)' },
+      ],
+      []
+    );
+
+    expect(plan.templates[0].existing?.id).toBe('existing-1');
+    expect(plan.templates[0].suggestedName).toBe('Safety Officer Briefing (imported 2)');
+    expect(defaultImportDecisions(plan)).toEqual([
+      { action: 'rename', name: 'Safety Officer Briefing (imported 2)' },
+    ]);
+  });
+
+  it('reuses existing library entries with the same type and text', () => {
+    const plan = planTemplatePackImport(pack, [], [createLibraryEntry({ id: 'local-1', itemText: ' check  ppe ' })]);
+
+    expect(plan.libraryItems).toEqual([{ item: pack.libraryItems[0], duplicateOfId: 'local-1' }]);
+    expect(defaultImportDecisions(plan)).toEqual([{ action: 'import', name: 'Safety Officer Briefing' }]);
+  });
+});
+
+describe('validateImportDecisions', () => {
+  const existing = [{ id: 'existing-1', name: 'Safety Officer Briefing' }];
+  const twoTemplatePack = { ...pack, templates: [pack.templates[0], { ...pack.templates[0], name: 'Other' }] };
+  const plan = planTemplatePackImport(twoTemplatePack, existing, []);
+
+  it('accepts skip, overwrite of an existing template and free names', () => {
+    expect(
+      validateImportDecisions(
+        plan,
+        [
+          { action: 'overwrite', name: 'Safety Officer Briefing' },
+          { action: 'import', name: 'Other' },
+        ],
+        existing
+      )
+    ).toEqual([null, null]);
+  });
+
+  it('rejects names that exist or are used twice in the import', () => {
+    expect(
+      validateImportDecisions(
+        plan,
+        [
+          { action: 'rename', name: 'safety officer briefing' },
+          { action: 'skip', name: 'Other' },
+        ],
+        existing
+      )
+    ).toEqual(['A template with this name already exists', null]);
+
+    expect(
+      validateImportDecisions(
+        plan,
+        [
+          { action: 'rename', name: 'Other' },
+          { action: 'import', name: 'Other' },
+        ],
+        existing
+      )
+    ).toEqual([
+      'Another template in this import uses this name',
+      'Another template in this import uses this name',
+    ]);
+  });
+
+  it('requires a name when renaming', () => {
+    expect(validateImportDecisions(plan, [{ action: 'rename', name: '  ' }, { action: 'skip', name: '' }], existing)[0]).toBe(
+      'Enter a name'
+    );
+  });
+});
+
+describe('toTemplateRequest', () => {
+  it('builds a create request under the chosen name', () => {
+    const request = toTemplateRequest(pack.templates[0], ' Renamed ');
+
+    expect(request.name).toBe('Renamed');
+    expect(request.eventCategories).toBe('["Hurricane"]');
+    expect(request.autoCreateForCategories).toBeUndefined();
+    expect(request.items[0]).toMatchObject({ isRequired: true, allowedPositions: '["Safety Officer"]' });
+  });
+});
@@ -0,0 +1,491 @@
+/**
+ * Template Pack Utility
+ *
+ * Portable JSON "template packs" for moving templates between deployments.
+ *
+ * A pack holds one or more templates (with items, status configuration and
+ * position/category metadata) plus the item library entries their items came
+ * from. IDs and audit fields are not exported; the importing deployment
+ * assigns its own.
+ *
+ * Library entries have no stored link to template items, so an entry is
+ * considered linked when its item type and text match a template item
+ * (case and whitespace insensitive). The same key deduplicates entries on
+ * import.
+ */
+
+import type { CreateTemplateRequest } from '../services/templateService';
+import type { ItemLibraryEntry, Template } from '../types';
+import { ItemDueAnchor, ItemType, TemplateType } from '../types';
+import { normalizeTemplateType } from './templateType';
+import { validateDueOffset } from './itemDue';
+
+/**
+ * Identifies a template pack file
+ */
+export const TEMPLATE_PACK_FORMAT = 'cobra-template-pack';
+
+/**
+ * Current pack schema version (bump when the format changes)
+ */
+export const TEMPLATE_PACK_VERSION = 1;
+
+/**
+ * Template item as stored in a pack
+ */
+export interface TemplatePackItem {
+  itemText: string;
+  itemType: ItemType;
+  displayOrder: number;
+  isRequired: boolean;
+  statusConfiguration: string | null;
+  valueConfiguration?: string; // Only present for number items with a unit or range
+  allowedPositions: string | null;
+  defaultNotes: string | null;
+  dueOffsetMinutes?: number; // Only present for items with a due time
+  dueRelativeTo?: ItemDueAnchor;
+  prerequisiteDisplayOrders?: string; // Only present for items with prerequisites (JSON array of display orders)
+  sectionName?: string; // Only present for items in a named section
+}
+
+/**
+ * Template as stored in a pack
+ */
+export interface TemplatePackTemplate {
+  name: string;
+  description: string;
+  category: string;
+  tags: string;
+  templateType: TemplateType;
+  autoCreateForCategories: string | null;
+  recurrenceConfig: string | null;
+  recommendedPositions: string | null;
+  eventCategories: string | null;
+  items: TemplatePackItem[];
+}
+
+/**
+ * Item library entry as stored in a pack
+ */
+export interface TemplatePackLibraryItem {
+  itemText: string;
+  itemType: ItemType;
+  category: string;
+  statusConfiguration: string | null;
+  valueConfiguration?: string; // Only present for number items with a unit or range
+  allowedPositions: string | null;
+  defaultNotes: string | null;
+  tags: string[];
+  isRequiredByDefault: boolean;
+}
+
+/**
+ * Template pack file contents
+ */
+export interface TemplatePack {
+  format: typeof TEMPLATE_PACK_FORMAT;
+  version: number;
+  exportedAt: string;
+  exportedBy: string;
+  templates: TemplatePackTemplate[];
+  libraryItems: TemplatePackLibraryItem[];
+}
+
+/**
+ * What to do with one template from a pack
+ * - import: create as-is (no name collision)
+ * - rename: create under a different name
+ * - overwrite: replace the existing template with the same name
+ * - skip: leave it out
+ */
+export type TemplateImportAction = 'import' | 'rename' | 'overwrite' | 'skip';
+
+/**
+ * Import plan entry for one template
+ */
+export interface TemplateImportPlanEntry {
+  template: TemplatePackTemplate;
+  /** Existing template with the same name, if any */
+  existing?: Pick<Template, 'id' | 'name'>;
+  /** Free name to use when renaming */
+  suggestedName: string;
+}
+
+/**
+ * Import plan entry for one library item
+ */
+export interface LibraryImportPlanEntry {
+  item: TemplatePackLibraryItem;
+  /** Existing library entry with the same type and text (entry is reused) */
+  duplicateOfId?: string;
+}
+
+/**
+ * Preview of what importing a pack will do
+ */
+export interface TemplatePackImportPlan {
+  templates: TemplateImportPlanEntry[];
+  libraryItems: LibraryImportPlanEntry[];
+}
+
+/**
+ * User's choice for one template (same order as the plan)
+ */
+export interface TemplateImportDecision {
+  action: TemplateImportAction;
+  name: string;
+}
+
+const normalize = (value: string): string => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+/**
+ * Key used to match library entries to template items and to each other
+ */
+export const libraryItemKey = (item: { itemType: string; itemText: string }): string =>
+  `${item.itemType}|${normalize(item.itemText)}`;
+
+/**
+ * Library tags are stored as a JSON array string
+ */
+const parseTags = (tags?: string): string[] => {
+  if (!tags) return [];
+  try {
+    const parsed = JSON.parse(tags);
+    return Array.isArray(parsed) ? parsed.filter((tag): tag is string => typeof tag === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Build a pack from templates (with items) and the item library
+ * Only library entries linked to an exported template item are included.
+ * @param templates Templates to export
+ * @param libraryEntries Item library to pick linked entries from
+ * @param exportedBy User creating the pack
+ * @param exportedAt Export timestamp (defaults to now)
+ */
+export const buildTemplatePack = (
+  templates: Template[],
+  libraryEntries: ItemLibraryEntry[],
+  exportedBy: string,
+  exportedAt: string = new Date().toISOString()
+): TemplatePack => {
+  const packTemplates: TemplatePackTemplate[] = templates.map((template) => ({
+    name: template.name,
+    description: template.description ?? '',
+    category: template.category,
+    tags: template.tags ?? '',
+    templateType: template.templateType ?? TemplateType.MANUAL,
+    autoCreateForCategories: template.autoCreateForCategories ?? null,
+    recurrenceConfig: template.recurrenceConfig ?? null,
+    recommendedPositions: template.recommendedPositions ?? null,
+    eventCategories: template.eventCategories ?? null,
+    items: [...(template.items ?? [])]
+      .sort((a, b) => a.displayOrder - b.displayOrder)
+      .map((item) => ({
+        itemText: item.itemText,
+        itemType: item.itemType,
+        displayOrder: item.displayOrder,
+        isRequired: item.isRequired,
+        statusConfiguration: item.statusConfiguration ?? null,
+        ...(item.valueConfiguration && { valueConfiguration: item.valueConfiguration }),
+        allowedPositions: item.allowedPositions ?? null,
+        defaultNotes: item.defaultNotes ?? null,
+        ...(item.dueOffsetMinutes && {
+          dueOffsetMinutes: item.dueOffsetMinutes,
+          dueRelativeTo: item.dueRelativeTo ?? ItemDueAnchor.CHECKLIST_CREATED,
+        }),
+        ...(item.prerequisiteDisplayOrders && {
+          prerequisiteDisplayOrders: item.prerequisiteDisplayOrders,
+        }),
+        ...(item.sectionName && { sectionName: item.sectionName }),
+      })),
+  }));
+
+  const itemKeys = new Set(packTemplates.flatMap((template) => template.items.map(libraryItemKey)));
+  const seen = new Set<string>();
+  const libraryItems: TemplatePackLibraryItem[] = [];
+  libraryEntries.forEach((entry) => {
+    const key = libraryItemKey(entry);
+    if (!itemKeys.has(key) || seen.has(key)) return;
+    seen.add(key);
+    libraryItems.push({
+      itemText: entry.itemText,
+      itemType: entry.itemType,
+      category: entry.category,
+      statusConfiguration: entry.statusConfiguration ?? null,
+      ...(entry.valueConfiguration && { valueConfiguration: entry.valueConfiguration }),
+      allowedPositions: entry.allowedPositions ?? null,
+      defaultNotes: entry.defaultNotes ?? null,
+      tags: parseTags(entry.tags),
+      isRequiredByDefault: entry.isRequiredByDefault,
+    });
+  });
+
+  return {
+    format: TEMPLATE_PACK_FORMAT,
+    version: TEMPLATE_PACK_VERSION,
+    exportedAt,
+    exportedBy,
+    templates: packTemplates,
+    libraryItems,
+  };
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value : null;
+
+const ITEM_TYPES = Object.values(ItemType) as string[];
+
+/**
+ * Parse and validate a pack file
+ * @param text File contents
+ * @returns Pack with defaults filled in
+ * @throws Error describing the first problem found
+ */
+export const parseTemplatePack = (text: string): TemplatePack => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  if (!isRecord(data) || data.format !== TEMPLATE_PACK_FORMAT) {
+    throw new Error('The file is not a template pack');
+  }
+  if (typeof data.version !== 'number' || data.version > TEMPLATE_PACK_VERSION) {
+    throw new Error(
+      `Template pack version ${String(data.version)} is not supported (up to version ${TEMPLATE_PACK_VERSION})`
+    );
+  }
+  if (!Array.isArray(data.templates) || data.templates.length === 0) {
+    throw new Error('The template pack does not contain any templates');
+  }
+
+  const templates = data.templates.map((raw, index): TemplatePackTemplate => {
+    const position = `Template ${index + 1}`;
+    if (!isRecord(raw) || typeof raw.name !== 'string' || raw.name.trim() === '') {
+      throw new Error(`${position} is missing a name`);
+    }
+    if (!Array.isArray(raw.items)) {
+      throw new Error(`"${raw.name}" is missing its items`);
+    }
+
+    const items = raw.items.map((rawItem, itemIndex): TemplatePackItem => {
+      if (!isRecord(rawItem) || typeof rawItem.itemText !== 'string' || rawItem.itemText.trim() === '') {
+        throw new Error(`Item ${itemIndex + 1} of "${raw.name}" is missing its text`);
+      }
+      if (typeof rawItem.itemType !== 'string' || !ITEM_TYPES.includes(rawItem.itemType)) {
+        throw new Error(`Item "${rawItem.itemText}" of "${raw.name}" has an unknown type`);
+      }
+      const prerequisiteDisplayOrders = optionalString(rawItem.prerequisiteDisplayOrders);
+      const valueConfiguration = optionalString(rawItem.valueConfiguration);
+      const sectionName = optionalString(rawItem.sectionName)?.trim();
+      return {
+        itemText: rawItem.itemText,
+        itemType: rawItem.itemType as ItemType,
+        displayOrder:
+          typeof rawItem.displayOrder === 'number' && rawItem.displayOrder > 0
+            ? rawItem.displayOrder
+            : (itemIndex + 1) * 10,
+        isRequired: rawItem.isRequired === true,
+        statusConfiguration: optionalString(rawItem.statusConfiguration),
+        ...(valueConfiguration && { valueConfiguration }),
+        allowedPositions: optionalString(rawItem.allowedPositions),
+        defaultNotes: optionalString(rawItem.defaultNotes),
+        ...(typeof rawItem.dueOffsetMinutes === 'number' &&
+          validateDueOffset(rawItem.dueOffsetMinutes) === null && {
+            dueOffsetMinutes: rawItem.dueOffsetMinutes,
+            dueRelativeTo:
+              rawItem.dueRelativeTo === ItemDueAnchor.PERIOD_START
+                ? ItemDueAnchor.PERIOD_START
+                : ItemDueAnchor.CHECKLIST_CREATED,
+          }),
+        ...(prerequisiteDisplayOrders && { prerequisiteDisplayOrders }),
+        ...(sectionName && { sectionName }),
+      };
+    });
+
+    return {
+      name: raw.name.trim(),
+      description: typeof raw.description === 'string' ? raw.description : '',
+      category: typeof raw.category === 'string' && raw.category ? raw.category : 'General',
+      tags: typeof raw.tags === 'string' ? raw.tags : '',
+      templateType: normalizeTemplateType(raw.templateType),
+      autoCreateForCategories: optionalString(raw.autoCreateForCategories),
+      recurrenceConfig: optionalString(raw.recurrenceConfig),
+      recommendedPositions: optionalString(raw.recommendedPositions),
+      eventCategories: optionalString(raw.eventCategories),
+      items,
+    };
+  });
+
+  const libraryItems = (Array.isArray(data.libraryItems) ? data.libraryItems : [])
+    .filter(
+      (raw): raw is Record<string, unknown> =>
+        isRecord(raw) &&
+        typeof raw.itemText === 'string' &&
+        raw.itemText.trim() !== '' &&
+        typeof raw.itemType === 'string' &&
+        ITEM_TYPES.includes(raw.itemType)
+    )
+    .map(
+      (raw): TemplatePackLibraryItem => ({
+        itemText: raw.itemText as string,
+        itemType: raw.itemType as ItemType,
+        category: typeof raw.category === 'string' && raw.category ? raw.category : 'General',
+        statusConfiguration: optionalString(raw.statusConfiguration),
+        ...(typeof raw.valueConfiguration === 'string' &&
+          raw.valueConfiguration && { valueConfiguration: raw.valueConfiguration }),
+        allowedPositions: optionalString(raw.allowedPositions),
+        defaultNotes: optionalString(raw.defaultNotes),
+        tags: Array.isArray(raw.tags) ? raw.tags.filter((tag): tag is string => typeof tag === 'string') : [],
+        isRequiredByDefault: raw.isRequiredByDefault === true,
+      })
+    );
+
+  return {
+    format: TEMPLATE_PACK_FORMAT,
+    version: data.version,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : '',
+    exportedBy: typeof data.exportedBy === 'string' ? data.exportedBy : '',
+    templates,
+    libraryItems,
+  };
+};
+
+/**
+ * First free "{name} (imported)" style name
+ */
+const suggestName = (name: string, taken: Set<string>): string => {
+  let candidate = `${name} (imported)`;
+  let suffix = 2;
+  while (taken.has(normalize(candidate))) {
+    candidate = `${name} (imported ${suffix++})`;
+  }
+  return candidate;
+};
+
+/**
+ * Work out name collisions and library duplicates for a pack
+ * @param pack Parsed pack
+ * @param existingTemplates Templates already in this deployment
+ * @param existingLibrary Item library entries already in this deployment
+ */
+export const planTemplatePackImport = (
+  pack: TemplatePack,
+  existingTemplates: Pick<Template, 'id' | 'name'>[],
+  existingLibrary: ItemLibraryEntry[]
+): TemplatePackImportPlan => {
+  const existingByName = new Map(existingTemplates.map((template) => [normalize(template.name), template]));
+  const taken = new Set([
+    ...existingByName.keys(),
+    ...pack.templates.map((template) => normalize(template.name)),
+  ]);
+
+  const templates = pack.templates.map((template): TemplateImportPlanEntry => {
+    const suggestedName = suggestName(template.name, taken);
+    taken.add(normalize(suggestedName));
+    return {
+      template,
+      existing: existingByName.get(normalize(template.name)),
+      suggestedName,
+    };
+  });
+
+  const libraryByKey = new Map(existingLibrary.map((entry) => [libraryItemKey(entry), entry.id]));
+  const seen = new Set<string>();
+  const libraryItems: LibraryImportPlanEntry[] = [];
+  pack.libraryItems.forEach((item) => {
+    const key = libraryItemKey(item);
+    if (seen.has(key)) return;
+    seen.add(key);
+    libraryItems.push({ item, duplicateOfId: libraryByKey.get(key) });
+  });
+
+  return { templates, libraryItems };
+};
+
+/**
+ * Default decisions: import new templates, rename colliding ones
+ */
+export const defaultImportDecisions = (plan: TemplatePackImportPlan): TemplateImportDecision[] =>
+  plan.templates.map((entry) =>
+    entry.existing
+      ? { action: 'rename', name: entry.suggestedName }
+      : { action: 'import', name: entry.template.name }
+  );
+
+/**
+ * Check decisions before importing
+ * @returns Error message per template (same order as the plan), null when valid
+ */
+export const validateImportDecisions = (
+  plan: TemplatePackImportPlan,
+  decisions: TemplateImportDecision[],
+  existingTemplates: Pick<Template, 'id' | 'name'>[]
+): (string | null)[] => {
+  const existingNames = new Set(existingTemplates.map((template) => normalize(template.name)));
+  const createdNames = new Map<string, number>();
+  decisions.forEach((decision) => {
+    if (decision.action === 'import' || decision.action === 'rename') {
+      const key = normalize(decision.name);
+      createdNames.set(key, (createdNames.get(key) ?? 0) + 1);
+    }
+  });
+
+  return decisions.map((decision, index) => {
+    const entry = plan.templates[index];
+    switch (decision.action) {
+      case 'skip':
+        return null;
+      case 'overwrite':
+        return entry.existing ? null : 'There is no existing template to overwrite';
+      case 'import':
+      case 'rename': {
+        const key = normalize(decision.name);
+        if (!key) return 'Enter a name';
+        if (decision.name.trim().length > 200) return 'Name cannot exceed 200 characters';
+        if (existingNames.has(key)) return 'A template with this name already exists';
+        if ((createdNames.get(key) ?? 0) > 1) return 'Another template in this import uses this name';
+        return null;
+      }
+    }
+  });
+};
+
+/**
+ * Create/update request for a pack template
+ * @param template Template from the pack
+ * @param name Name to save it under
+ */
+export const toTemplateRequest = (template: TemplatePackTemplate, name: string): CreateTemplateRequest => ({
+  name: name.trim(),
+  description: template.description,
+  category: template.category,
+  tags: template.tags,
+  templateType: template.templateType,
+  autoCreateForCategories: template.autoCreateForCategories ?? undefined,
+  recurrenceConfig: template.recurrenceConfig ?? undefined,
+  recommendedPositions: template.recommendedPositions ?? undefined,
+  eventCategories: template.eventCategories ?? undefined,
+  items: template.items.map((item) => ({
+    itemText: item.itemText,
+    itemType: item.itemType,
+    displayOrder: item.displayOrder,
+    isRequired: item.isRequired,
+    statusConfiguration: item.statusConfiguration,
+    valueConfiguration: item.valueConfiguration ?? null,
+    allowedPositions: item.allowedPositions,
+    defaultNotes: item.defaultNotes,
+    dueOffsetMinutes: item.dueOffsetMinutes ?? null,
+    dueRelativeTo: item.dueRelativeTo,
+    prerequisiteDisplayOrders: item.prerequisiteDisplayOrders ?? null,
+    sectionName: item.sectionName ?? null,
+  })),
+});
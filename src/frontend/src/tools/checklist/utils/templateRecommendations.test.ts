@@ -0,0 +1,190 @@
+/**
+ * Template Recommendation Tests
+ *
+ * Tests ranking templates by the user's positions, the event's categories,
+ * use by other positions in the event, recency and popularity, and the
+ * reasons given for each suggestion. Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  formatLastUsed,
+  getEventCategories,
+  getSuggestions,
+  rankTemplates,
+  recommendTemplate,
+  type RecommendationContext,
+} from './templateRecommendations';
+import { TemplateApprovalStatus, TemplateCategory, TemplateType, type Template } from '../types';
+import type { EventCategory } from '../../../shared/events';
+
+const NOW = new Date('2025-06-30T12:00:00Z').getTime();
+const daysAgo = (days: number) => new Date(NOW - days * 24 * 60 * 60 * 1000).toISOString();
+
+const createTemplate = (overrides: Partial<Template> = {}): Template => ({
+  id: 'template-1',
+  name: 'Template',
+  description: '',
+  category: TemplateCategory.OPERATIONS,
+  tags: '',
+  isActive: true,
+  isArchived: false,
+  templateType: TemplateType.MANUAL,
+  usageCount: 0,
+  currentVersion: 1,
+  approvalStatus: TemplateApprovalStatus.APPROVED,
+  items: [],
+  createdBy: 'admin@cobra.mil',
+  createdByPosition: 'Incident Commander',
+  createdAt: '2025-01-01T00:00:00Z',
+  ...overrides,
+});
+
+const createCategory = (overrides: Partial<EventCategory>): EventCategory => ({
+  id: 'cat-hurricane',
+  code: 'HURRICANE',
+  name: 'Hurricane / Tropical Storm',
+  eventType: 'Unplanned',
+  subGroup: 'Natural - Weather',
+  displayOrder: 1,
+  isActive: true,
+  ...overrides,
+});
+
+const hurricane = createCategory({});
+const winterStorm = createCategory({ id: 'cat-winter', code: 'WINTER_STORM', name: 'Winter Storm / Blizzard' });
+const parade = createCategory({ id: 'cat-parade', code: 'PARADE', name: 'Parade / Procession', eventType: 'Planned' });
+
+const context = (overrides: Partial<RecommendationContext> = {}): RecommendationContext => ({
+  eventCategories: [],
+  userPositions: ['Safety Officer'],
+  eventChecklists: [],
+  now: NOW,
+  ...overrides,
+});
+
+describe('recommendTemplate', () => {
+  it('matches the user position case-insensitively', () => {
+    const template = createTemplate({ recommendedPositions: JSON.stringify(['safety officer', 'Incident Commander']) });
+
+    const { score, reasons } = recommendTemplate(template, context());
+
+    expect(score).toBe(1000);
+    expect(reasons).toEqual([{ kind: 'position', label: 'Recommended for safety officer' }]);
+  });
+
+  it('matches event categories by code, name or name part', () => {
+    const byName = recommendTemplate(
+      createTemplate({ eventCategories: JSON.stringify(['Tropical Storm']) }),
+      context({ eventCategories: [hurricane] })
+    );
+    const byCode = recommendTemplate(
+      createTemplate({ eventCategories: JSON.stringify(['Winter Storm']) }),
+      context({ eventCategories: [parade, winterStorm] })
+    );
+
+    expect(byName.reasons).toEqual([{ kind: 'eventCategory', label: 'Suits Hurricane / Tropical Storm' }]);
+    expect(byCode.reasons).toEqual([{ kind: 'eventCategory', label: 'Suits Winter Storm / Blizzard' }]);
+    expect(byCode.score).toBe(500);
+  });
+
+  it('credits use by other positions in the event, not the user', () => {
+    const template = createTemplate();
+
+    const { score, reasons } = recommendTemplate(
+      template,
+      context({
+        eventChecklists: [
+          { templateId: 'template-1', createdByPosition: 'Planning Section Chief' },
+          { templateId: 'template-1', createdByPosition: 'Logistics Section Chief' },
+          { templateId: 'template-1', createdByPosition: 'Planning Section Chief' },
+          { templateId: 'template-1', createdByPosition: 'Safety Officer' },
+          { templateId: 'template-2', createdByPosition: 'Finance Section Chief' },
+        ],
+      })
+    );
+
+    expect(score).toBe(300);
+    expect(reasons).toEqual([
+      { kind: 'usedInEvent', label: 'Used in this event by Logistics Section Chief, Planning Section Chief' },
+    ]);
+  });
+
+  it('scales recency over 30 days and flags popular templates', () => {
+    const recent = recommendTemplate(createTemplate({ lastUsedAt: daysAgo(3) }), context());
+    const stale = recommendTemplate(createTemplate({ lastUsedAt: daysAgo(45) }), context());
+    const popular = recommendTemplate(createTemplate({ usageCount: 80 }), context());
+
+    expect(recent.score).toBe(180);
+    expect(recent.reasons).toEqual([{ kind: 'recent', label: 'Used 3 days ago' }]);
+    expect(stale.reasons).toEqual([]);
+    expect(popular.score).toBe(100);
+    expect(popular.reasons).toEqual([{ kind: 'popular', label: 'Used 80x' }]);
+  });
+
+  it('ignores invalid JSON lists', () => {
+    const template = createTemplate({ recommendedPositions: 'Safety Officer', eventCategories: '{' });
+
+    expect(recommendTemplate(template, context({ eventCategories: [hurricane] })).reasons).toEqual([]);
+  });
+});
+
+describe('rankTemplates', () => {
+  it('puts position over category over use in the event, ties by name', () => {
+    const templates = [
+      createTemplate({ id: 'used', name: 'Used', lastUsedAt: daysAgo(0) }),
+      createTemplate({ id: 'category', name: 'Category', eventCategories: JSON.stringify(['Hurricane']) }),
+      createTemplate({ id: 'b-position', name: 'B Position', recommendedPositions: JSON.stringify(['Safety Officer']) }),
+      createTemplate({ id: 'a-position', name: 'A Position', recommendedPositions: JSON.stringify(['Safety Officer']) }),
+      createTemplate({ id: 'none', name: 'None' }),
+    ];
+
+    const ranked = rankTemplates(
+      templates,
+      context({
+        eventCategories: [hurricane],
+        eventChecklists: [{ templateId: 'used', createdByPosition: 'Planning Section Chief' }],
+      })
+    );
+
+    expect(ranked.map((r) => r.template.id)).toEqual(['a-position', 'b-position', 'category', 'used', 'none']);
+  });
+
+  it('suggests only templates with a reason, up to the limit', () => {
+    const templates = [
+      createTemplate({ id: 'a', name: 'A', usageCount: 10 }),
+      createTemplate({ id: 'b', name: 'B', usageCount: 20 }),
+      createTemplate({ id: 'c', name: 'C', usageCount: 1 }),
+    ];
+
+    const ranked = rankTemplates(templates, context());
+
+    expect(getSuggestions(ranked).map((r) => r.template.id)).toEqual(['b', 'a']);
+    expect(getSuggestions(ranked, 1).map((r) => r.template.id)).toEqual(['b']);
+  });
+});
+
+describe('getEventCategories', () => {
+  it('resolves the primary and additional categories once each', () => {
+    const categories = getEventCategories(
+      { primaryCategoryId: 'cat-hurricane', additionalCategoryIds: ['cat-winter', 'cat-hurricane', 'missing'] },
+      [hurricane, winterStorm, parade]
+    );
+
+    expect(categories.map((c) => c.code)).toEqual(['HURRICANE', 'WINTER_STORM']);
+  });
+
+  it('uses the inline primary category and handles no event', () => {
+    expect(getEventCategories({ primaryCategoryId: 'cat-parade', primaryCategory: parade }, [])).toEqual([parade]);
+    expect(getEventCategories(null, [hurricane])).toEqual([]);
+  });
+});
+
+describe('formatLastUsed', () => {
+  it('describes how long ago a template was used', () => {
+    expect(formatLastUsed(daysAgo(0), NOW)).toBe('today');
+    expect(formatLastUsed(daysAgo(1), NOW)).toBe('yesterday');
+    expect(formatLastUsed(daysAgo(14), NOW)).toBe('2 weeks ago');
+    expect(formatLastUsed(daysAgo(65), NOW)).toBe('2 months ago');
+  });
+});
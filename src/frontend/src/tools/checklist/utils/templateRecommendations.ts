@@ -0,0 +1,187 @@
+/**
+ * Template Recommendation Utilities
+ *
+ * Pure ranking of templates for the template picker and the landing pages.
+ * A template scores for:
+ * - Being recommended for one of the user's positions (recommendedPositions)
+ * - Suiting the current event's primary or additional categories (eventCategories)
+ * - Already being used in this event by other positions
+ * - Recent use (lastUsedAt within 30 days) and popularity (usageCount)
+ *
+ * Every score comes with a reason so the UI can explain the suggestion.
+ * Category matching follows the backend auto-create matching: a template
+ * category matches an event category's code, name, or a "/"-separated part
+ * of its name ("Tropical Storm" matches "Hurricane / Tropical Storm").
+ */
+
+import type { Template } from '../types';
+import type { ChecklistInstanceDto } from '../services/checklistService';
+import type { Event, EventCategory } from '../../../shared/events';
+
+const POSITION_SCORE = 1000;
+const EVENT_CATEGORY_SCORE = 500;
+const USED_IN_EVENT_SCORE_PER_POSITION = 150;
+const MAX_USED_IN_EVENT_SCORE = 450;
+const MAX_RECENCY_SCORE = 200;
+const MAX_POPULARITY_SCORE = 100;
+const RECENT_DAYS = 30;
+const POPULAR_USAGE_COUNT = 5;
+const MS_PER_DAY = 1000 * 60 * 60 * 24;
+
+/**
+ * Why a template is suggested
+ */
+export type RecommendationReasonKind = 'position' | 'eventCategory' | 'usedInEvent' | 'recent' | 'popular';
+
+export interface RecommendationReason {
+  kind: RecommendationReasonKind;
+  label: string;
+}
+
+/**
+ * A template with its ranking score and the reasons behind it
+ */
+export interface TemplateRecommendation {
+  template: Template;
+  score: number;
+  reasons: RecommendationReason[];
+}
+
+/**
+ * What templates are ranked against
+ */
+export interface RecommendationContext {
+  /** Primary and additional categories of the current event */
+  eventCategories: Pick<EventCategory, 'code' | 'name'>[];
+  /** The user's positions */
+  userPositions: string[];
+  /** Checklists already created in the current event */
+  eventChecklists: Pick<ChecklistInstanceDto, 'templateId' | 'createdByPosition'>[];
+  /** Current time in ms since epoch (defaults to Date.now()) */
+  now?: number;
+}
+
+const normalize = (value: string): string => value.replace(/_/g, ' ').trim().replace(/\s+/g, ' ').toLowerCase();
+
+const parseStringList = (json: string | undefined): string[] => {
+  if (!json) return [];
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return Array.isArray(parsed) ? parsed.filter((value): value is string => typeof value === 'string') : [];
+  } catch {
+    return [];
+  }
+};
+
+const getCategoryKeys = (category: Pick<EventCategory, 'code' | 'name'>): string[] => [
+  normalize(category.code),
+  normalize(category.name),
+  ...category.name.split('/').map(normalize),
+];
+
+/**
+ * Primary and additional categories of an event, resolved against the
+ * category list (the event only carries the primary category inline)
+ */
+export const getEventCategories = (
+  event: Pick<Event, 'primaryCategoryId' | 'primaryCategory' | 'additionalCategoryIds'> | null,
+  categories: EventCategory[]
+): EventCategory[] => {
+  if (!event) return [];
+
+  const byId = new Map(categories.map((category) => [category.id, category]));
+  const primary = event.primaryCategory ?? byId.get(event.primaryCategoryId);
+  const result: EventCategory[] = primary ? [primary] : [];
+
+  for (const id of event.additionalCategoryIds ?? []) {
+    const category = byId.get(id);
+    if (category && !result.some((c) => c.id === category.id)) {
+      result.push(category);
+    }
+  }
+  return result;
+};
+
+/**
+ * Relative description of when a template was last used
+ */
+export const formatLastUsed = (lastUsedAt: string, now: number = Date.now()): string => {
+  const daysAgo = Math.floor((now - new Date(lastUsedAt).getTime()) / MS_PER_DAY);
+
+  if (daysAgo <= 0) return 'today';
+  if (daysAgo === 1) return 'yesterday';
+  if (daysAgo < 7) return `${daysAgo} days ago`;
+  if (daysAgo < 30) return `${Math.floor(daysAgo / 7)} weeks ago`;
+  return `${Math.floor(daysAgo / 30)} months ago`;
+};
+
+/**
+ * Score a single template and explain the score
+ */
+export const recommendTemplate = (template: Template, context: RecommendationContext): TemplateRecommendation => {
+  const now = context.now ?? Date.now();
+  const reasons: RecommendationReason[] = [];
+  let score = 0;
+
+  const userPositions = new Set(context.userPositions.map(normalize));
+  const matchedPositions = parseStringList(template.recommendedPositions).filter((p) =>
+    userPositions.has(normalize(p))
+  );
+  if (matchedPositions.length > 0) {
+    score += POSITION_SCORE;
+    reasons.push({ kind: 'position', label: `Recommended for ${matchedPositions.join(', ')}` });
+  }
+
+  const templateCategories = new Set(parseStringList(template.eventCategories).map(normalize));
+  const matchedCategories = context.eventCategories.filter((category) =>
+    getCategoryKeys(category).some((key) => templateCategories.has(key))
+  );
+  if (matchedCategories.length > 0) {
+    score += EVENT_CATEGORY_SCORE;
+    reasons.push({ kind: 'eventCategory', label: `Suits ${matchedCategories.map((c) => c.name).join(', ')}` });
+  }
+
+  const otherPositions = [
+    ...new Set(
+      context.eventChecklists
+        .filter((c) => c.templateId === template.id && c.createdByPosition)
+        .map((c) => c.createdByPosition)
+        .filter((p) => !userPositions.has(normalize(p)))
+    ),
+  ].sort((a, b) => a.localeCompare(b));
+  if (otherPositions.length > 0) {
+    score += Math.min(otherPositions.length * USED_IN_EVENT_SCORE_PER_POSITION, MAX_USED_IN_EVENT_SCORE);
+    reasons.push({ kind: 'usedInEvent', label: `Used in this event by ${otherPositions.join(', ')}` });
+  }
+
+  if (template.lastUsedAt) {
+    const daysAgo = (now - new Date(template.lastUsedAt).getTime()) / MS_PER_DAY;
+    if (daysAgo <= RECENT_DAYS) {
+      score += Math.round(MAX_RECENCY_SCORE * (1 - Math.max(daysAgo, 0) / RECENT_DAYS));
+      reasons.push({ kind: 'recent', label: `Used ${formatLastUsed(template.lastUsedAt, now)}` });
+    }
+  }
+
+  if (template.usageCount >= POPULAR_USAGE_COUNT) {
+    score += Math.min(template.usageCount * 2, MAX_POPULARITY_SCORE);
+    reasons.push({ kind: 'popular', label: `Used ${template.usageCount}x` });
+  }
+
+  return { template, score, reasons };
+};
+
+/**
+ * Rank templates, best first (ties by name)
+ */
+export const rankTemplates = (templates: Template[], context: RecommendationContext): TemplateRecommendation[] =>
+  templates
+    .map((template) => recommendTemplate(template, context))
+    .sort((a, b) => b.score - a.score || a.template.name.localeCompare(b.template.name));
+
+/**
+ * Suggestions from a ranked list: templates with at least one reason
+ */
+export const getSuggestions = (
+  ranked: TemplateRecommendation[],
+  limit: number = ranked.length
+): TemplateRecommendation[] => ranked.filter((recommendation) => recommendation.reasons.length > 0).slice(0, limit);
@@ -0,0 +1,26 @@
+/**
+ * Template Type Utility Tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { normalizeTemplate, normalizeTemplateType } from './templateType';
+import { TemplateType } from '../types';
+
+describe('normalizeTemplateType', () => {
+  it('accepts enum names from the API and numeric values', () => {
+    expect(normalizeTemplateType('Recurring')).toBe(TemplateType.RECURRING);
+    expect(normalizeTemplateType('AutoCreate')).toBe(TemplateType.AUTO_CREATE);
+    expect(normalizeTemplateType(2)).toBe(TemplateType.RECURRING);
+  });
+
+  it('falls back to MANUAL for unknown values', () => {
+    expect(normalizeTemplateType(undefined)).toBe(TemplateType.MANUAL);
+    expect(normalizeTemplateType('Weekly')).toBe(TemplateType.MANUAL);
+    expect(normalizeTemplateType(7)).toBe(TemplateType.MANUAL);
+  });
+
+  it('normalizes a template without changing other fields', () => {
+    const template = { id: 't-1', templateType: 'Recurring' as unknown as TemplateType };
+    expect(normalizeTemplate(template)).toEqual({ id: 't-1', templateType: TemplateType.RECURRING });
+  });
+});
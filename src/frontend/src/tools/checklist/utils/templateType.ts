@@ -0,0 +1,37 @@
+/**
+ * Template Type Utilities
+ *
+ * The API serializes TemplateType by name ("Manual", "AutoCreate",
+ * "Recurring") while the UI compares against the numeric TemplateType enum.
+ * Templates are normalized when they are loaded so comparisons work either way.
+ */
+
+import { TemplateType } from '../types';
+
+const TEMPLATE_TYPE_BY_NAME: Record<string, TemplateType> = {
+  Manual: TemplateType.MANUAL,
+  AutoCreate: TemplateType.AUTO_CREATE,
+  Recurring: TemplateType.RECURRING,
+};
+
+/**
+ * Convert an API template type (name or number) to the TemplateType enum.
+ * Unknown values fall back to MANUAL.
+ */
+export const normalizeTemplateType = (value: unknown): TemplateType => {
+  if (typeof value === 'number' && value in TemplateType) {
+    return value as TemplateType;
+  }
+  if (typeof value === 'string' && value in TEMPLATE_TYPE_BY_NAME) {
+    return TEMPLATE_TYPE_BY_NAME[value];
+  }
+  return TemplateType.MANUAL;
+};
+
+/**
+ * Copy of a template with its templateType normalized
+ */
+export const normalizeTemplate = <T extends { templateType: TemplateType }>(template: T): T => ({
+  ...template,
+  templateType: normalizeTemplateType(template.templateType),
+});
@@ -0,0 +1,171 @@
+/**
+ * Template Version Diff Tests
+ *
+ * Tests item matching, reorder detection and field-level changes between
+ * two template snapshots. Pure functions with no external dependencies.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { diffTemplateVersions, describeStatusConfiguration } from './templateVersionDiff';
+import {
+  ItemType,
+  TemplateApprovalStatus,
+  TemplateCategory,
+  TemplateType,
+  type Template,
+  type TemplateItem,
+} from '../types';
+
+const createItem = (itemText: string, overrides: Partial<TemplateItem> = {}): TemplateItem => ({
+  id: `${itemText}-${Math.random()}`,
+  templateId: 'template-1',
+  itemText,
+  itemType: ItemType.CHECKBOX,
+  displayOrder: 0,
+  isRequired: false,
+  ...overrides,
+});
+
+const createTemplate = (items: TemplateItem[], overrides: Partial<Template> = {}): Template => ({
+  id: 'template-1',
+  name: 'Shelter Opening',
+  description: 'Open an emergency shelter',
+  category: TemplateCategory.LOGISTICS,
+  tags: 'shelter',
+  isActive: true,
+  isArchived: false,
+  templateType: TemplateType.MANUAL,
+  usageCount: 0,
+  currentVersion: 1,
+  approvalStatus: TemplateApprovalStatus.APPROVED,
+  createdBy: 'logistics@cobra.mil',
+  createdByPosition: 'Logistics Section Chief',
+  createdAt: '2025-01-01T00:00:00Z',
+  items: items.map((item, index) => ({ ...item, displayOrder: (index + 1) * 10 })),
+  ...overrides,
+});
+
+describe('diffTemplateVersions', () => {
+  it('reports no changes for identical content with new item IDs', () => {
+    const before = createTemplate([createItem('Unlock building'), createItem('Set up cots')]);
+    const after = createTemplate([createItem('Unlock building'), createItem('Set up cots')]);
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.hasChanges).toBe(false);
+    expect(diff.rows.map((row) => row.kind)).toEqual(['unchanged', 'unchanged']);
+  });
+
+  it('detects added and removed items in position', () => {
+    const before = createTemplate([
+      createItem('Unlock building'),
+      createItem('Call Red Cross'),
+      createItem('Set up cots'),
+    ]);
+    const after = createTemplate([
+      createItem('Unlock building'),
+      createItem('Set up cots'),
+      createItem('Post signage'),
+      createItem('Open registration'),
+    ]);
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.removedCount).toBe(1);
+    expect(diff.addedCount).toBe(2);
+    expect(diff.reorderedCount).toBe(0);
+    expect(diff.rows.map((row) => [row.kind, row.before?.itemText ?? row.after?.itemText])).toEqual([
+      ['unchanged', 'Unlock building'],
+      ['removed', 'Call Red Cross'],
+      ['unchanged', 'Set up cots'],
+      ['added', 'Post signage'],
+      ['added', 'Open registration'],
+    ]);
+  });
+
+  it('treats an edited item at the same position as a text change', () => {
+    const before = createTemplate([createItem('Unlock building'), createItem('Set up cots')]);
+    const after = createTemplate([createItem('Unlock building'), createItem('Set up 50 cots')]);
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.changedCount).toBe(1);
+    expect(diff.rows[1].changes).toEqual([
+      { field: 'itemText', label: 'Text', before: 'Set up cots', after: 'Set up 50 cots' },
+    ]);
+  });
+
+  it('flags only the moved item when an item is moved', () => {
+    const before = createTemplate([
+      createItem('A'),
+      createItem('B'),
+      createItem('C'),
+      createItem('D'),
+    ]);
+    const after = createTemplate([
+      createItem('B'),
+      createItem('C'),
+      createItem('D'),
+      createItem('A'),
+    ]);
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.reorderedCount).toBe(1);
+    expect(diff.rows.find((row) => row.reordered)?.after?.itemText).toBe('A');
+    expect(diff.rows[3]).toMatchObject({ beforePosition: 1, afterPosition: 4 });
+  });
+
+  it('detects changed status configuration and required flag', () => {
+    const statusBefore = JSON.stringify([
+      { label: 'Not Started', isCompletion: false, order: 1 },
+      { label: 'Done', isCompletion: true, order: 2 },
+    ]);
+    const statusAfter = JSON.stringify([
+      { label: 'Not Started', isCompletion: false, order: 1 },
+      { label: 'In Progress', isCompletion: false, order: 2 },
+      { label: 'Done', isCompletion: true, order: 3 },
+    ]);
+    const before = createTemplate([
+      createItem('Confirm staffing', { itemType: ItemType.STATUS, statusConfiguration: statusBefore }),
+    ]);
+    const after = createTemplate([
+      createItem('Confirm staffing', {
+        itemType: ItemType.STATUS,
+        statusConfiguration: statusAfter,
+        isRequired: true,
+      }),
+    ]);
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.rows[0].kind).toBe('changed');
+    expect(diff.rows[0].changes.map((change) => change.field)).toEqual([
+      'isRequired',
+      'statusConfiguration',
+    ]);
+    expect(diff.rows[0].changes[1].after).toBe('Not Started, In Progress, Done (completes)');
+  });
+
+  it('reports template metadata changes', () => {
+    const before = createTemplate([createItem('A')]);
+    const after = createTemplate([createItem('A')], { name: 'Shelter Opening v2' });
+
+    const diff = diffTemplateVersions(before, after);
+
+    expect(diff.metadataChanges).toEqual([
+      { field: 'name', label: 'Name', before: 'Shelter Opening', after: 'Shelter Opening v2' },
+    ]);
+    expect(diff.hasChanges).toBe(true);
+  });
+});
+
+describe('describeStatusConfiguration', () => {
+  it('accepts the legacy string array format', () => {
+    expect(describeStatusConfiguration('["Open","Closed"]')).toBe('Open, Closed');
+  });
+
+  it('returns empty string when not configured', () => {
+    expect(describeStatusConfiguration(undefined)).toBe('');
+  });
+});
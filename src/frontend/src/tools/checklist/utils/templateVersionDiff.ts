@@ -0,0 +1,288 @@
+/**
+ * Template Version Diff Utility
+ *
+ * Compares two template snapshots item by item for the version history view.
+ *
+ * Template items get new IDs on every save, so items are matched by text:
+ * 1. Exact text matches (in order, so duplicate texts pair up one-to-one)
+ * 2. Leftover removed/added items at the same position are treated as one
+ *    item whose text was edited
+ * Anything still unmatched is reported as added or removed. Matched items that
+ * are not part of the longest run of items kept in their original order are
+ * reported as reordered, so a single insertion does not flag every later item.
+ */
+
+import type { Template, TemplateItem, StatusOption } from '../types';
+import { describeValueConfiguration, getItemTypeLabel, parseValueConfiguration } from './itemValue';
+
+/**
+ * Kind of change for a single item row
+ */
+export type TemplateItemChangeKind = 'added' | 'removed' | 'changed' | 'unchanged';
+
+/**
+ * A field that differs between two versions
+ */
+export interface TemplateFieldChange {
+  field: string;
+  label: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * One row of the side-by-side diff
+ * Positions are 1-based, as shown to users.
+ */
+export interface TemplateItemDiff {
+  kind: TemplateItemChangeKind;
+  before?: TemplateItem;
+  after?: TemplateItem;
+  beforePosition?: number;
+  afterPosition?: number;
+  reordered: boolean;
+  changes: TemplateFieldChange[];
+}
+
+/**
+ * Result of comparing two template versions
+ */
+export interface TemplateVersionDiff {
+  rows: TemplateItemDiff[];
+  metadataChanges: TemplateFieldChange[];
+  addedCount: number;
+  removedCount: number;
+  changedCount: number;
+  reorderedCount: number;
+  hasChanges: boolean;
+}
+
+/**
+ * Sort items by display order (snapshots are stored in save order)
+ */
+const sortItems = (items: TemplateItem[] = []): TemplateItem[] =>
+  [...items].sort((a, b) => a.displayOrder - b.displayOrder);
+
+/**
+ * Normalize a status configuration into a comparable summary
+ * Accepts both the StatusOption[] format and the legacy string[] format.
+ */
+export const describeStatusConfiguration = (statusConfiguration?: string | null): string => {
+  if (!statusConfiguration) return '';
+  try {
+    const parsed = JSON.parse(statusConfiguration);
+    if (!Array.isArray(parsed)) return statusConfiguration;
+
+    const options: StatusOption[] =
+      parsed.length > 0 && typeof parsed[0] === 'string'
+        ? parsed.map((label: string, index: number) => ({ label, isCompletion: false, order: index }))
+        : [...(parsed as StatusOption[])].sort((a, b) => a.order - b.order);
+
+    return options
+      .map((option) => (option.isCompletion ? `${option.label} (completes)` : option.label))
+      .join(', ');
+  } catch {
+    return statusConfiguration;
+  }
+};
+
+/**
+ * Normalize allowed positions (JSON array or comma-separated) for comparison
+ */
+const describePositions = (allowedPositions?: string | null): string => {
+  if (!allowedPositions) return '';
+  try {
+    const parsed = JSON.parse(allowedPositions);
+    if (Array.isArray(parsed)) return parsed.join(', ');
+  } catch {
+    // Fall through to comma-separated
+  }
+  return allowedPositions
+    .split(',')
+    .map((position) => position.trim())
+    .filter(Boolean)
+    .join(', ');
+};
+
+/**
+ * Compare the fields of two versions of the same item
+ */
+const diffItemFields = (before: TemplateItem, after: TemplateItem): TemplateFieldChange[] => {
+  const fields: { field: string; label: string; read: (item: TemplateItem) => string }[] = [
+    { field: 'itemText', label: 'Text', read: (item) => item.itemText },
+    { field: 'itemType', label: 'Type', read: (item) => getItemTypeLabel(item.itemType) },
+    { field: 'isRequired', label: 'Required', read: (item) => (item.isRequired ? 'Yes' : 'No') },
+    { field: 'sectionName', label: 'Section', read: (item) => item.sectionName?.trim() ?? '' },
+    {
+      field: 'statusConfiguration',
+      label: 'Status options',
+      read: (item) => describeStatusConfiguration(item.statusConfiguration),
+    },
+    {
+      field: 'valueConfiguration',
+      label: 'Unit and range',
+      read: (item) => describeValueConfiguration(parseValueConfiguration(item.valueConfiguration)),
+    },
+    {
+      field: 'allowedPositions',
+      label: 'Positions',
+      read: (item) => describePositions(item.allowedPositions),
+    },
+    { field: 'defaultNotes', label: 'Default notes', read: (item) => item.defaultNotes ?? '' },
+  ];
+
+  return fields
+    .map(({ field, label, read }) => ({ field, label, before: read(before), after: read(after) }))
+    .filter((change) => change.before !== change.after);
+};
+
+/**
+ * Compare template-level fields
+ */
+const diffMetadata = (before: Template, after: Template): TemplateFieldChange[] => {
+  const fields: { field: keyof Template; label: string }[] = [
+    { field: 'name', label: 'Name' },
+    { field: 'description', label: 'Description' },
+    { field: 'category', label: 'Category' },
+    { field: 'tags', label: 'Tags' },
+  ];
+
+  return fields
+    .map(({ field, label }) => ({
+      field,
+      label,
+      before: String(before[field] ?? ''),
+      after: String(after[field] ?? ''),
+    }))
+    .filter((change) => change.before !== change.after);
+};
+
+/**
+ * Indexes (into the input) of the longest strictly increasing subsequence
+ */
+const longestIncreasingRun = (values: number[]): Set<number> => {
+  const tails: number[] = [];
+  const previous: number[] = new Array(values.length).fill(-1);
+
+  values.forEach((value, index) => {
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (values[tails[mid]] < value) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const run = new Set<number>();
+  let cursor = tails.length > 0 ? tails[tails.length - 1] : -1;
+  while (cursor !== -1) {
+    run.add(cursor);
+    cursor = previous[cursor];
+  }
+  return run;
+};
+
+/**
+ * Compare two template snapshots
+ * @param before Older version
+ * @param after Newer version
+ */
+export const diffTemplateVersions = (before: Template, after: Template): TemplateVersionDiff => {
+  const beforeItems = sortItems(before.items);
+  const afterItems = sortItems(after.items);
+
+  // afterIndex -> beforeIndex
+  const matches = new Map<number, number>();
+  const matchedBefore = new Set<number>();
+
+  // Pass 1: exact text matches
+  afterItems.forEach((item, afterIndex) => {
+    const beforeIndex = beforeItems.findIndex(
+      (candidate, index) => !matchedBefore.has(index) && candidate.itemText === item.itemText
+    );
+    if (beforeIndex !== -1) {
+      matches.set(afterIndex, beforeIndex);
+      matchedBefore.add(beforeIndex);
+    }
+  });
+
+  // Pass 2: unmatched items at the same position are edits of one item
+  afterItems.forEach((_, afterIndex) => {
+    if (matches.has(afterIndex)) return;
+    if (afterIndex < beforeItems.length && !matchedBefore.has(afterIndex)) {
+      matches.set(afterIndex, afterIndex);
+      matchedBefore.add(afterIndex);
+    }
+  });
+
+  // Items outside the longest in-order run were moved
+  const matchedAfterIndexes = [...matches.keys()].sort((a, b) => a - b);
+  const inOrder = longestIncreasingRun(matchedAfterIndexes.map((index) => matches.get(index)!));
+  const reorderedAfter = new Set(
+    matchedAfterIndexes.filter((_, position) => !inOrder.has(position))
+  );
+
+  const rows: TemplateItemDiff[] = afterItems.map((item, afterIndex) => {
+    const beforeIndex = matches.get(afterIndex);
+    if (beforeIndex === undefined) {
+      return {
+        kind: 'added',
+        after: item,
+        afterPosition: afterIndex + 1,
+        reordered: false,
+        changes: [],
+      };
+    }
+
+    const changes = diffItemFields(beforeItems[beforeIndex], item);
+    return {
+      kind: changes.length > 0 ? 'changed' : 'unchanged',
+      before: beforeItems[beforeIndex],
+      after: item,
+      beforePosition: beforeIndex + 1,
+      afterPosition: afterIndex + 1,
+      reordered: reorderedAfter.has(afterIndex),
+      changes,
+    };
+  });
+
+  // Place each removed item after the row holding its nearest earlier neighbour
+  beforeItems.forEach((item, beforeIndex) => {
+    if (matchedBefore.has(beforeIndex)) return;
+
+    let insertAt = 0;
+    rows.forEach((row, rowIndex) => {
+      if (row.beforePosition !== undefined && row.beforePosition - 1 < beforeIndex) {
+        insertAt = rowIndex + 1;
+      }
+    });
+
+    rows.splice(insertAt, 0, {
+      kind: 'removed',
+      before: item,
+      beforePosition: beforeIndex + 1,
+      reordered: false,
+      changes: [],
+    });
+  });
+
+  const metadataChanges = diffMetadata(before, after);
+  const addedCount = rows.filter((row) => row.kind === 'added').length;
+  const removedCount = rows.filter((row) => row.kind === 'removed').length;
+  const changedCount = rows.filter((row) => row.kind === 'changed').length;
+  const reorderedCount = rows.filter((row) => row.reordered).length;
+
+  return {
+    rows,
+    metadataChanges,
+    addedCount,
+    removedCount,
+    changedCount,
+    reorderedCount,
+    hasChanges:
+      metadataChanges.length + addedCount + removedCount + changedCount + reorderedCount > 0,
+  };
+};
@@ -0,0 +1,75 @@
+/**
+ * XLSX Writer Tests
+ *
+ * Tests the ZIP container, workbook parts and cell output.
+ * Entries are stored uncompressed, so part contents can be read back directly.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { columnName, crc32, createXlsxWorkbook } from './xlsxWriter';
+
+const decoder = new TextDecoder();
+
+/**
+ * Read stored entries back out of the archive (path -> content)
+ */
+const readZip = (zip: Uint8Array): Map<string, string> => {
+  const view = new DataView(zip.buffer, zip.byteOffset, zip.byteLength);
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(zip.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(zip.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return entries;
+};
+
+describe('createXlsxWorkbook', () => {
+  const workbook = createXlsxWorkbook([
+    { name: 'Activity Log', rows: [['Position', 'Count'], ['Safety Officer', 3], ['<IC> & "staff"', null]] },
+    { name: 'Activity Log', rows: [['Duplicate name']] },
+  ]);
+  const entries = readZip(workbook);
+
+  it('produces a ZIP archive with the required workbook parts', () => {
+    expect([...workbook.subarray(0, 4)]).toEqual([0x50, 0x4b, 0x03, 0x04]);
+    expect([...entries.keys()]).toEqual([
+      '[Content_Types].xml',
+      '_rels/.rels',
+      'xl/workbook.xml',
+      'xl/_rels/workbook.xml.rels',
+      'xl/styles.xml',
+      'xl/worksheets/sheet1.xml',
+      'xl/worksheets/sheet2.xml',
+    ]);
+  });
+
+  it('writes text, numbers and escaped characters', () => {
+    const sheet = entries.get('xl/worksheets/sheet1.xml')!;
+
+    expect(sheet).toContain('<c r="A1" s="1" t="inlineStr"><is><t xml:space="preserve">Position</t></is></c>');
+    expect(sheet).toContain('<c r="B2"><v>3</v></c>');
+    expect(sheet).toContain('&lt;IC&gt; &amp; &quot;staff&quot;');
+    expect(sheet).not.toContain('r="B3"');
+  });
+
+  it('keeps worksheet names unique', () => {
+    expect(entries.get('xl/workbook.xml')).toContain('name="Activity Log 2"');
+  });
+});
+
+describe('crc32', () => {
+  it('matches the standard check value', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+});
+
+describe('columnName', () => {
+  it('converts indexes to spreadsheet column letters', () => {
+    expect([0, 25, 26, 701].map(columnName)).toEqual(['A', 'Z', 'AA', 'ZZ']);
+  });
+});
@@ -0,0 +1,257 @@
+/**
+ * Minimal XLSX Writer
+ *
+ * Writes simple spreadsheets (text and number cells, bold header row) as
+ * Office Open XML workbooks that open in Excel, Numbers and LibreOffice.
+ * The package is an uncompressed ZIP, which keeps this dependency-free;
+ * exports are small enough that compression does not matter.
+ */
+
+/**
+ * A worksheet: name plus rows of cells (first row is treated as the header)
+ */
+export interface XlsxSheet {
+  name: string;
+  rows: (string | number | null | undefined)[][];
+}
+
+const encoder = new TextEncoder();
+
+/**
+ * CRC-32 lookup table (IEEE polynomial)
+ */
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+/**
+ * CRC-32 checksum of a byte array
+ */
+export const crc32 = (data: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+/**
+ * Build a ZIP archive with stored (uncompressed) entries
+ */
+const createZip = (files: { path: string; content: string }[]): Uint8Array<ArrayBuffer> => {
+  const chunks: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  files.forEach(({ path, content }) => {
+    const name = encoder.encode(path);
+    const data = encoder.encode(content);
+    const checksum = crc32(data);
+
+    // Local file header
+    const local = new Uint8Array(30 + name.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    localView.setUint16(4, 20, true); // Version needed
+    localView.setUint16(6, 0x0800, true); // UTF-8 file names
+    localView.setUint16(8, 0, true); // Stored
+    localView.setUint16(10, 0, true); // Time
+    localView.setUint16(12, 0x21, true); // Date (1980-01-01)
+    localView.setUint32(14, checksum, true);
+    localView.setUint32(18, data.length, true);
+    localView.setUint32(22, data.length, true);
+    localView.setUint16(26, name.length, true);
+    localView.setUint16(28, 0, true);
+    local.set(name, 30);
+
+    // Central directory entry
+    const entry = new Uint8Array(46 + name.length);
+    const entryView = new DataView(entry.buffer);
+    entryView.setUint32(0, 0x02014b50, true);
+    entryView.setUint16(4, 20, true); // Version made by
+    entryView.setUint16(6, 20, true); // Version needed
+    entryView.setUint16(8, 0x0800, true);
+    entryView.setUint16(10, 0, true);
+    entryView.setUint16(12, 0, true);
+    entryView.setUint16(14, 0x21, true);
+    entryView.setUint32(16, checksum, true);
+    entryView.setUint32(20, data.length, true);
+    entryView.setUint32(24, data.length, true);
+    entryView.setUint16(28, name.length, true);
+    entryView.setUint32(42, offset, true);
+    entry.set(name, 46);
+
+    chunks.push(local, data);
+    central.push(entry);
+    offset += local.length + data.length;
+  });
+
+  const centralSize = central.reduce((total, entry) => total + entry.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, files.length, true);
+  endView.setUint16(10, files.length, true);
+  endView.setUint32(12, centralSize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...chunks, ...central, end];
+  const zip = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+  let position = 0;
+  parts.forEach((part) => {
+    zip.set(part, position);
+    position += part.length;
+  });
+  return zip;
+};
+
+/**
+ * Escape text for XML, dropping characters XML 1.0 does not allow
+ */
+const escapeXml = (value: string): string =>
+  value
+    .split('')
+    .filter((char) => {
+      const code = char.charCodeAt(0);
+      return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+    })
+    .join('')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+/**
+ * Spreadsheet column letter for a 0-based index (0 -> A, 26 -> AA)
+ */
+export const columnName = (index: number): string => {
+  let name = '';
+  let n = index + 1;
+  while (n > 0) {
+    const remainder = (n - 1) % 26;
+    name = String.fromCharCode(65 + remainder) + name;
+    n = Math.floor((n - 1) / 26);
+  }
+  return name;
+};
+
+/**
+ * Worksheet names: max 31 characters, no []:*?/\ and unique
+ */
+const sanitizeSheetNames = (sheets: XlsxSheet[]): string[] => {
+  const used = new Set<string>();
+  return sheets.map((sheet, index) => {
+    const base = sheet.name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+    let name = base;
+    let suffix = 2;
+    while (used.has(name.toLowerCase())) {
+      name = `${base.slice(0, 31 - String(suffix).length - 1)} ${suffix++}`;
+    }
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
+
+/**
+ * Worksheet XML for one sheet
+ */
+const sheetXml = (sheet: XlsxSheet): string => {
+  const widths = sheet.rows.reduce<number[]>((acc, row) => {
+    row.forEach((cell, index) => {
+      const length = String(cell ?? '').length;
+      acc[index] = Math.min(Math.max(acc[index] ?? 8, length + 2), 80);
+    });
+    return acc;
+  }, []);
+
+  const cols = widths.length
+    ? `<cols>${widths
+        .map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`)
+        .join('')}</cols>`
+    : '';
+
+  const rows = sheet.rows
+    .map((row, rowIndex) => {
+      const cells = row
+        .map((cell, colIndex) => {
+          if (cell === null || cell === undefined || cell === '') return '';
+          const ref = `${columnName(colIndex)}${rowIndex + 1}`;
+          const style = rowIndex === 0 ? ' s="1"' : '';
+          if (typeof cell === 'number' && Number.isFinite(cell)) {
+            return `<c r="${ref}"${style}><v>${cell}</v></c>`;
+          }
+          return `<c r="${ref}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(
+            String(cell)
+          )}</t></is></c>`;
+        })
+        .join('');
+      return `<row r="${rowIndex + 1}">${cells}</row>`;
+    })
+    .join('');
+
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>${cols}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+/**
+ * Create an XLSX workbook
+ * @param sheets Worksheets in tab order
+ * @returns File bytes
+ */
+export const createXlsxWorkbook = (sheets: XlsxSheet[]): Uint8Array<ArrayBuffer> => {
+  const names = sanitizeSheetNames(sheets);
+
+  const files = [
+    {
+      path: '[Content_Types].xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>${sheets
+        .map(
+          (_, index) =>
+            `<Override PartName="/xl/worksheets/sheet${index + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`
+        )
+        .join('')}</Types>`,
+    },
+    {
+      path: '_rels/.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      path: 'xl/workbook.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets>${names
+        .map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`)
+        .join('')}</sheets></workbook>`,
+    },
+    {
+      path: 'xl/_rels/workbook.xml.rels',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${sheets
+        .map(
+          (_, index) =>
+            `<Relationship Id="rId${index + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet${index + 1}.xml"/>`
+        )
+        .join('')}<Relationship Id="rId${sheets.length + 1}" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`,
+    },
+    {
+      path: 'xl/styles.xml',
+      content: `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs></styleSheet>`,
+    },
+    ...sheets.map((sheet, index) => ({
+      path: `xl/worksheets/sheet${index + 1}.xml`,
+      content: sheetXml(sheet),
+    })),
+  ];
+
+  return createZip(files);
+};
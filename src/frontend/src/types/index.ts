@@ -159,11 +159,18 @@ export interface ApiError {
 export type {
   Template,
   TemplateItem,
+  TemplateVersion,
+  TemplateApprovalEvent,
+  RecurrenceConfig,
   StatusOption,
+  ItemValueConfiguration,
   ChecklistInstance,
   ChecklistItem,
   ItemStatusHistory,
+  ChecklistActivity,
   ItemNote,
+  ItemAttachment,
+  AttachmentLimits,
   CreateTemplateRequest,
   CreateTemplateItemRequest,
   UpdateTemplateRequest,
@@ -172,7 +179,9 @@ export type {
   CreateCombinedChecklistRequest,
   UpdateItemCompletionRequest,
   UpdateItemStatusRequest,
+  UpdateItemValueRequest,
   AddItemNoteRequest,
+  AddChecklistItemRequest,
   ReorderItemsRequest,
   BulkUpdateItemsRequest,
   TemplateFilters,
@@ -195,7 +204,13 @@ export type {
 export {
   TemplateCategory,
   TemplateType,
+  TemplateApprovalStatus,
+  TemplateApprovalAction,
+  ItemHistoryAction,
+  ChecklistHistoryAction,
+  RecurrenceFrequency,
   ItemType,
+  ItemDueAnchor,
   BulkAction,
   DEFAULT_STATUS_OPTIONS,
 } from '../tools/checklist/types';